@@ -0,0 +1,42 @@
+// src/app/(app)/[domain]/audit-log/page.tsx
+import { redirect } from 'next/navigation';
+import { ScrollText, AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { getSessionData } from '@/modules/auth/actions';
+import { getAuditEventsAction } from '@/modules/audit/actions';
+import { AuditLogViewer } from '@/modules/audit/components/audit-log-viewer';
+
+interface AuditLogPageProps {
+  params: { domain: string };
+}
+
+export default async function TenantAuditLogPage({ params }: AuditLogPageProps) {
+  const session = await getSessionData();
+  if (!session?.userId || !session.tenantId) {
+    const rootDomain = process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost';
+    const protocol = process.env.NODE_ENV === 'production' ? 'https:' : 'http:';
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || `http://localhost:9002`;
+    let port = '';
+    try { const url = new URL(baseUrl); if (url.port && url.port !== '80' && url.port !== '443') port = `:${url.port}`; } catch {}
+    redirect(`${protocol}//${params.domain}.${rootDomain}${port}/login`);
+  }
+
+  const result = await getAuditEventsAction({ page: 1 });
+
+  return (
+    <div className="flex flex-col gap-6">
+      <h1 className="text-2xl font-bold tracking-tight md:text-3xl flex items-center gap-2">
+        <ScrollText className="h-6 w-6" /> Audit Log
+      </h1>
+      {!result.success ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Audit Log</AlertTitle>
+          <AlertDescription>{result.error}</AlertDescription>
+        </Alert>
+      ) : (
+        <AuditLogViewer initialEvents={result.events || []} initialTotal={result.total || 0} pageSize={result.pageSize || 50} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+// src/app/(app)/[domain]/billing/page.tsx
+import { redirect } from 'next/navigation';
+import { CreditCard, AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { getSessionData } from '@/modules/auth/actions';
+import { getBillingOverviewAction } from '@/modules/subscriptions/actions';
+import { BILLING_CURRENCY } from '@/modules/subscriptions/lib/billing';
+import { BillingOverview } from '@/modules/subscriptions/components/billing-overview';
+
+interface BillingPageProps {
+  params: { domain: string };
+}
+
+export default async function TenantBillingPage({ params }: BillingPageProps) {
+  const session = await getSessionData();
+  if (!session?.userId || !session.tenantId) {
+    const rootDomain = process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost';
+    const protocol = process.env.NODE_ENV === 'production' ? 'https:' : 'http:';
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || `http://localhost:9002`;
+    let port = '';
+    try { const url = new URL(baseUrl); if (url.port && url.port !== '80' && url.port !== '443') port = `:${url.port}`; } catch {}
+    redirect(`${protocol}//${params.domain}.${rootDomain}${port}/login`);
+  }
+
+  const result = await getBillingOverviewAction();
+
+  return (
+    <div className="flex flex-col gap-6">
+      <h1 className="text-2xl font-bold tracking-tight md:text-3xl flex items-center gap-2">
+        <CreditCard className="h-6 w-6" /> Billing
+      </h1>
+      {!result.success ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Billing</AlertTitle>
+          <AlertDescription>{result.error}</AlertDescription>
+        </Alert>
+      ) : (
+        <BillingOverview subscription={result.subscription ?? null} plans={result.plans || []} invoices={result.invoices || []} currency={BILLING_CURRENCY} />
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 // src/app/(app)/[domain]/documents/page.tsx
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { FileText, AlertTriangle } from "lucide-react";
-import { getSessionData, isAdminFromSession } from '@/modules/auth/actions';
+import { getSessionData, hasPermission } from '@/modules/auth/actions';
 import { redirect } from 'next/navigation';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
@@ -24,8 +24,8 @@ export default async function TenantDocumentsPage({ params }: DocumentsPageProps
     redirect(loginUrl);
   }
 
-  const isAdmin = await isAdminFromSession();
-  if (!isAdmin) {
+  const canAccess = await hasPermission('documents.manage');
+  if (!canAccess) {
     return (
         <div className="flex flex-col items-center justify-center min-h-[400px]">
             <Alert variant="destructive" className="max-w-md">
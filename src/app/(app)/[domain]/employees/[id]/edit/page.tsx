@@ -10,7 +10,7 @@ import { Pencil, Loader2, AlertTriangle } from "lucide-react";
 import type { Employee } from '@/modules/employees/types';
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { UserRole } from '@/modules/auth/types';
+import type { PermissionKey } from '@/modules/roles/types';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 interface EditEmployeePageProps {
@@ -87,31 +87,31 @@ export default function TenantEditEmployeePage() {
   const [employee, setEmployee] = React.useState<Employee | null>(null);
   const [isLoading, setIsLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
-  const [currentUserRole, setCurrentUserRole] = React.useState<UserRole | null>(null);
+  const [permissions, setPermissions] = React.useState<PermissionKey[] | null>(null);
 
   React.useEffect(() => {
-    const fetchUserRole = async () => {
-        console.log("[Edit Employee Page] Fetching user role...");
+    const fetchPermissions = async () => {
+        console.log("[Edit Employee Page] Fetching user permissions...");
         try {
             const sessionResponse = await fetch('/api/auth/session');
             if (sessionResponse.ok) {
                 const session = await sessionResponse.json();
                 console.log("[Edit Employee Page] Session details fetched:", session);
-                setCurrentUserRole(session.userRole);
+                setPermissions(session.permissions || []);
             } else {
                 const errorData = await sessionResponse.json().catch(() => ({}));
-                console.error("[Edit Employee Page] Failed to fetch session details for role check. Status:", sessionResponse.status, "Error:", errorData.error || errorData.message);
-                setError(errorData.error || errorData.message || "Could not verify user session for role check.");
-                setCurrentUserRole(null); // Fallback or handle error
+                console.error("[Edit Employee Page] Failed to fetch session details for permission check. Status:", sessionResponse.status, "Error:", errorData.error || errorData.message);
+                setError(errorData.error || errorData.message || "Could not verify user session for permission check.");
+                setPermissions(null); // Fallback or handle error
             }
         } catch (err: any) {
-            console.error("[Edit Employee Page] Error in fetchUserRole:", err);
+            console.error("[Edit Employee Page] Error in fetchPermissions:", err);
             setError("Error fetching session details: " + err.message);
-            setCurrentUserRole(null); // Fallback to least privileged
+            setPermissions(null); // Fallback to least privileged
         }
     };
     if (tenantDomain) { // Only fetch if domain is present
-        fetchUserRole();
+        fetchPermissions();
     }
   }, [tenantDomain]);
 
@@ -155,7 +155,7 @@ export default function TenantEditEmployeePage() {
        return <div>Loading context...</div>;
    }
 
-  if (isLoading || currentUserRole === null) { // Also wait for role to load
+  if (isLoading || permissions === null) { // Also wait for role to load
     return (
         <div className="flex flex-col gap-6">
           <div className="flex items-center justify-between">
@@ -244,7 +244,7 @@ export default function TenantEditEmployeePage() {
              formDescription="Update the employee's information."
              submitButtonText="Save Changes"
              tenantDomain={tenantDomain}
-             currentUserRole={currentUserRole}
+             permissions={permissions}
            />
         </CardContent>
       </Card>
@@ -14,7 +14,10 @@ import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { AlertTriangle } from 'lucide-react';
-import type { UserRole } from '@/modules/auth/types';
+import type { PermissionKey } from '@/modules/roles/types';
+import { AccountLockStatusCard } from '@/modules/auth/components/account-lock-status';
+import { UserRoleAssignmentsCard } from '@/modules/roles/components/user-role-assignments';
+import { ImpersonateUserCard } from '@/modules/auth/components/impersonate-user';
 
 interface EmployeeDetailPageProps {
   // Params are accessed via hook
@@ -103,7 +106,7 @@ export default function TenantEmployeeDetailPage() {
   const [employee, setEmployee] = React.useState<Employee | null>(null);
   const [isLoading, setIsLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
-  const [currentUserRole, setCurrentUserRole] = React.useState<UserRole | null>(null);
+  const [permissions, setPermissions] = React.useState<PermissionKey[] | null>(null);
   const [currentUserId, setCurrentUserId] = React.useState<string | null>(null); 
 
 
@@ -113,7 +116,7 @@ export default function TenantEmployeeDetailPage() {
             const res = await fetch('/api/auth/session'); 
             if (res.ok) {
                 const session = await res.json();
-                setCurrentUserRole(session.userRole);
+                setPermissions(session.permissions || []);
                 setCurrentUserId(session.userId); 
             } else {
                 console.error("Failed to fetch session info:", await res.text());
@@ -129,7 +132,7 @@ export default function TenantEmployeeDetailPage() {
 
 
   React.useEffect(() => {
-    if (!employeeIdFromUrl || !tenantDomain || currentUserRole === null || currentUserId === null) {
+    if (!employeeIdFromUrl || !tenantDomain || permissions === null || currentUserId === null) {
       if (!employeeIdFromUrl || !tenantDomain) {
         console.warn("[TenantEmployeeDetailPage - useEffect] employeeIdFromUrl or tenantDomain is missing. Aborting fetch.");
         setError("Required identifiers missing.");
@@ -167,7 +170,7 @@ export default function TenantEmployeeDetailPage() {
     };
 
     fetchEmployeeDetails();
-  }, [employeeIdFromUrl, tenantDomain, toast, currentUserRole, currentUserId]); 
+  }, [employeeIdFromUrl, tenantDomain, toast, permissions, currentUserId]); 
 
    const formatDate = (dateString?: string | null) => {
      if (!dateString) return "N/A";
@@ -177,7 +180,7 @@ export default function TenantEmployeeDetailPage() {
      } catch (e) { console.error("Error formatting date:", e); return "Invalid Date"; }
    };
 
-   if (isLoading || currentUserRole === null) { 
+   if (isLoading || permissions === null) { 
      return (
          <div className="flex flex-col gap-6">
             <div className="flex items-center justify-between flex-wrap gap-4">
@@ -244,7 +247,7 @@ export default function TenantEmployeeDetailPage() {
        );
   }
 
-  const canEditThisProfile = currentUserRole === 'Admin' || currentUserRole === 'Manager' || (currentUserRole === 'Employee' && employee.userId === currentUserId);
+  const canEditThisProfile = permissions.includes('employees.edit') || employee.userId === currentUserId;
 
 
   const InfoItem = ({ icon: Icon, label, value, isLink = false, hrefPrefix = "" }: { icon: React.ElementType, label: string, value?: string | null | boolean, isLink?: boolean, hrefPrefix?: string }) => {
@@ -365,6 +368,18 @@ export default function TenantEmployeeDetailPage() {
                 </CardContent>
             </Card>
        </div>
+
+       {permissions.includes('employees.assign_roles') && employee.userId && (
+           <UserRoleAssignmentsCard userId={employee.userId} baseRole={employee.role} />
+       )}
+
+       {permissions.includes('security.manage') && employee.userId && (
+           <AccountLockStatusCard userId={employee.userId} />
+       )}
+
+       {permissions.includes('users.impersonate') && employee.userId && employee.userId !== currentUserId && employee.role !== 'Admin' && (
+           <ImpersonateUserCard userId={employee.userId} displayName={employee.name} tenantDomain={tenantDomain} />
+       )}
     </div>
   );
 }
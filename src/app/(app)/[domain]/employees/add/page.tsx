@@ -6,7 +6,7 @@ import { useParams } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { EmployeeForm } from '@/modules/employees/components/employee-form';
 import { UserPlus, Loader2, AlertTriangle } from "lucide-react";
-import type { UserRole } from '@/modules/auth/types';
+import type { PermissionKey } from '@/modules/roles/types';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 interface AddEmployeePageProps {
@@ -16,38 +16,38 @@ interface AddEmployeePageProps {
 export default function TenantAddEmployeePage() {
   const params = useParams();
   const tenantDomain = params.domain as string;
-  const [currentUserRole, setCurrentUserRole] = React.useState<UserRole | null>(null);
+  const [permissions, setPermissions] = React.useState<PermissionKey[] | null>(null);
   const [isLoadingRole, setIsLoadingRole] = React.useState(true);
   const [roleError, setRoleError] = React.useState<string | null>(null);
 
   React.useEffect(() => {
-    const fetchUserRole = async () => {
+    const fetchPermissions = async () => {
       setIsLoadingRole(true);
       setRoleError(null);
-      console.log("[Add Employee Page] Fetching user role...");
+      console.log("[Add Employee Page] Fetching user permissions...");
       try {
         const sessionResponse = await fetch('/api/auth/session');
         if (sessionResponse.ok) {
           const session = await sessionResponse.json();
           console.log("[Add Employee Page] Session details fetched:", session);
-          setCurrentUserRole(session.userRole);
+          setPermissions(session.permissions || []);
         } else {
           const errorData = await sessionResponse.json().catch(() => ({}));
-          const errorMessage = errorData.error || errorData.message || "Could not verify user session for role check.";
+          const errorMessage = errorData.error || errorData.message || "Could not verify user session for permission check.";
           console.error("[Add Employee Page] Failed to fetch session details. Status:", sessionResponse.status, "Error:", errorMessage);
           setRoleError(errorMessage);
-          setCurrentUserRole(null);
+          setPermissions(null);
         }
       } catch (err: any) {
-        console.error("[Add Employee Page] Error in fetchUserRole:", err);
+        console.error("[Add Employee Page] Error in fetchPermissions:", err);
         setRoleError("Error fetching session details: " + err.message);
-        setCurrentUserRole(null);
+        setPermissions(null);
       } finally {
         setIsLoadingRole(false);
       }
     };
     if (tenantDomain) {
-      fetchUserRole();
+      fetchPermissions();
     } else {
       setRoleError("Tenant domain not found in parameters.");
       setIsLoadingRole(false);
@@ -87,7 +87,7 @@ export default function TenantAddEmployeePage() {
     );
   }
 
-  if (currentUserRole !== 'Admin' && currentUserRole !== 'Manager') {
+  if (!permissions?.includes('employees.create')) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[400px]">
         <Alert variant="destructive" className="max-w-md">
@@ -117,7 +117,7 @@ export default function TenantAddEmployeePage() {
             formDescription="Enter the employee's information below."
             submitButtonText="Add Employee"
             tenantDomain={tenantDomain}
-            currentUserRole={currentUserRole}
+            permissions={permissions}
           />
         </CardContent>
       </Card>
@@ -12,8 +12,9 @@ import Link from "next/link";
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { Employee } from '@/modules/employees/types';
-import type { UserRole } from "@/modules/auth/types";
+import type { PermissionKey } from "@/modules/roles/types";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { PendingInvitationsCard } from '@/modules/auth/components/pending-invitations';
 
 // Client-side fetch, API route handles auth and tenant context
 async function fetchData<T>(url: string, options?: RequestInit): Promise<T> {
@@ -64,7 +65,7 @@ export default function TenantEmployeesPage() {
   const [error, setError] = React.useState<string | null>(null);
   const { toast } = useToast();
 
-  const [userRole, setUserRole] = React.useState<UserRole | null>(null);
+  const [permissions, setPermissions] = React.useState<PermissionKey[] | null>(null);
   const [currentUserId, setCurrentUserId] = React.useState<string | null>(null);
 
   React.useEffect(() => {
@@ -75,19 +76,19 @@ export default function TenantEmployeesPage() {
         if (sessionResponse.ok) {
           const session = await sessionResponse.json();
           console.log("[Employees Page] Client-side session info fetched:", session);
-          setUserRole(session.userRole);
+          setPermissions(session.permissions || []);
           setCurrentUserId(session.userId); // This is the user.id (UUID)
         } else {
           const errorData = await sessionResponse.json().catch(() => ({}));
           console.warn("[Employees Page] Failed to fetch client-side session info, status:", sessionResponse.status, "Error:", errorData.error || errorData.message);
           setError(errorData.error || errorData.message || "Could not verify user session.");
-          setUserRole(null);
+          setPermissions(null);
           setCurrentUserId(null);
         }
       } catch (e: any) {
         console.error("[Employees Page] Error fetching client-side session info:", e);
         setError("Error fetching session details: " + e.message);
-        setUserRole(null);
+        setPermissions(null);
         setCurrentUserId(null);
       }
     };
@@ -106,16 +107,16 @@ export default function TenantEmployeesPage() {
       return;
     }
     // Wait for session info to be available before fetching employees
-    if (userRole === null || currentUserId === null) {
+    if (permissions === null || currentUserId === null) {
         console.log("[Employees Page - fetchEmployees] Waiting for session info...");
         return;
     }
 
-    console.log(`[Employees Page - ${tenantDomain}] Starting fetchEmployees... Role: ${userRole}, UserID: ${currentUserId}`);
+    console.log(`[Employees Page - ${tenantDomain}] Starting fetchEmployees... Permissions: ${permissions.length}, UserID: ${currentUserId}`);
     setIsLoading(true);
     setError(null);
     try {
-      // API route will filter based on role (fetches all for Admin/Manager, self for Employee)
+      // API route will filter based on permissions (fetches all with employees.view_all, otherwise self)
       const data = await fetchData<Employee[]>('/api/employees');
       setEmployees(data);
       console.log(`[Employees Page - ${tenantDomain}] Successfully fetched ${data.length} employees.`);
@@ -132,13 +133,13 @@ export default function TenantEmployeesPage() {
       setIsLoading(false);
       console.log(`[Employees Page - ${tenantDomain}] Finished fetchEmployees.`);
     }
-  }, [toast, tenantDomain, userRole, currentUserId]);
+  }, [toast, tenantDomain, permissions, currentUserId]);
 
   React.useEffect(() => {
-    if (userRole !== null && currentUserId !== null && tenantDomain) {
+    if (permissions !== null && currentUserId !== null && tenantDomain) {
         fetchEmployees();
     }
-  }, [fetchEmployees, userRole, currentUserId, tenantDomain]);
+  }, [fetchEmployees, permissions, currentUserId, tenantDomain]);
 
    if (!tenantDomain) {
        return <div className="text-center text-destructive py-10">Error: Could not determine tenant context.</div>;
@@ -149,8 +150,10 @@ export default function TenantEmployeesPage() {
     fetchEmployees();
   };
 
+  const canViewAll = !!permissions?.includes('employees.view_all');
+
   const renderContent = () => {
-     if (isLoading || userRole === null) { // Still loading if role isn't determined
+     if (isLoading || permissions === null) { // Still loading if role isn't determined
        return (
            <div className="space-y-4">
                <Skeleton className="h-10 w-1/3" />
@@ -171,8 +174,8 @@ export default function TenantEmployeesPage() {
        );
      }
 
-     if (userRole === 'Employee') {
-         // Employees see their own profile. The API should return only their record.
+     if (!canViewAll) {
+         // Users without employees.view_all see their own profile. The API should return only their record.
          if (employees.length === 1 && currentUserId && employees[0].userId === currentUserId) {
              // Link to employee detail page using employee.id (PK), not user.id
              const employeePrimaryKey = employees[0].id;
@@ -191,13 +194,13 @@ export default function TenantEmployeesPage() {
          } else if (employees.length === 0 && currentUserId){
               return <p className="text-center py-10 text-muted-foreground">Your employee profile could not be loaded or is not yet available.</p>;
          } else if (employees.length > 1) {
-             // This case shouldn't happen if API correctly filters for employee role
-             console.warn("[Employees Page] Employee role sees multiple records. This should not happen.");
+             // This case shouldn't happen if API correctly filters by permission
+             console.warn("[Employees Page] User without employees.view_all sees multiple records. This should not happen.");
              return <p className="text-center py-10 text-destructive">Error: Inconsistent data. Please contact support.</p>;
          }
      }
 
-     // For Admin/Manager
+     // For users with employees.view_all
      return (
        <EmployeeDataTable
          columns={columns}
@@ -213,9 +216,9 @@ export default function TenantEmployeesPage() {
     <div className="flex flex-col gap-6">
       <div className="flex items-center justify-between flex-wrap gap-4">
          <h1 className="text-2xl font-bold tracking-tight md:text-3xl flex items-center gap-2">
-           <Users className="h-6 w-6" /> {userRole === 'Employee' ? 'My Profile Overview' : 'Employee Management'}
+           <Users className="h-6 w-6" /> {!canViewAll ? 'My Profile Overview' : 'Employee Management'}
          </h1>
-         {(userRole === 'Admin' || userRole === 'Manager') && (
+         {permissions?.includes('employees.create') && (
              <Button asChild>
                  <Link href={`/${tenantDomain}/employees/add`}>
                     <UserPlus className="mr-2 h-4 w-4"/> Add New Employee
@@ -225,15 +228,16 @@ export default function TenantEmployeesPage() {
       </div>
       <Card className="shadow-sm">
          <CardHeader>
-            <CardTitle>{userRole === 'Employee' ? 'Your Information' : 'Employees Overview'}</CardTitle>
+            <CardTitle>{!canViewAll ? 'Your Information' : 'Employees Overview'}</CardTitle>
             <CardDescription>
-                {userRole === 'Employee' ? `Viewing your employee details for ${tenantDomain}.` : `View, search, and manage employee records for ${tenantDomain}.`}
+                {!canViewAll ? `Viewing your employee details for ${tenantDomain}.` : `View, search, and manage employee records for ${tenantDomain}.`}
             </CardDescription>
          </CardHeader>
          <CardContent>
             {renderContent()}
          </CardContent>
       </Card>
+      {permissions?.includes('employees.create') && <PendingInvitationsCard />}
     </div>
   );
 }
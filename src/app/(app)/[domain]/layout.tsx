@@ -4,14 +4,34 @@ import * as React from 'react';
 import { getTenantByDomain } from '@/modules/auth/lib/db';
 import { notFound, redirect } from 'next/navigation';
 import AppLayout from '@/app/(app)/layout'; // Import the main AppLayout
-import { getSessionData } from '@/modules/auth/actions'; // Import session helper
+import { getSessionData, getPermissionsFromSession } from '@/modules/auth/actions'; // Import session helpers
 import type { UserRole } from '@/modules/auth/types'; // For UserRole type
+import type { Metadata } from 'next';
+import { getTenantBranding } from '@/modules/tenants/lib/branding';
+import { brandingThemeCss } from '@/modules/tenants/lib/branding-theme';
+import { brandingAssetPath } from '@/modules/tenants/types';
 
 interface TenantAppLayoutProps {
   children: React.ReactNode;
   params: { domain: string }; // 'domain' here is the subdomain from the URL segment
 }
 
+// The company's favicon replaces the default one in its workspace
+export async function generateMetadata({ params }: TenantAppLayoutProps): Promise<Metadata> {
+  try {
+    const tenant = await getTenantByDomain(params.domain);
+    if (!tenant || tenant.status !== 'ACTIVE') return {};
+    const branding = await getTenantBranding(tenant.tenant_id);
+    return {
+      title: `${tenant.name} - SyntaxHive Hrm`,
+      ...(branding.favicon ? { icons: { icon: brandingAssetPath(tenant.subdomain, branding.favicon) } } : {}),
+    };
+  } catch (error) {
+    console.error(`[TenantAppLayout] Error building metadata for subdomain ${params.domain}:`, error);
+    return {};
+  }
+}
+
 export default async function TenantAppLayout({ children, params }: TenantAppLayoutProps) {
   const tenantSubdomain = params.domain; // The URL segment is the subdomain
 
@@ -35,6 +55,12 @@ export default async function TenantAppLayout({ children, params }: TenantAppLay
     notFound();
   }
 
+  // 1b. Suspended or deleted companies only see the status page
+  if (tenant.status !== 'ACTIVE') {
+    console.warn(`[TenantAppLayout] Tenant ${tenant.tenant_id} is ${tenant.status}. Redirecting to /suspended.`);
+    redirect('/suspended');
+  }
+
   // 2. Fetch Session Data (User Role, User ID)
   const sessionData = await getSessionData();
 
@@ -50,13 +76,29 @@ export default async function TenantAppLayout({ children, params }: TenantAppLay
   // Ensure UserRole type from auth/types is used.
   const userRole: UserRole | null = sessionData.userRole || null;
 
+  // 4. Company branding (logo and colors) for the app shell. The default look is kept if it cannot be loaded.
+  let branding;
+  try {
+    const tenantBranding = await getTenantBranding(tenant.tenant_id);
+    branding = {
+      companyName: tenant.name,
+      logoUrl: tenantBranding.logo ? brandingAssetPath(tenant.subdomain, tenantBranding.logo) : null,
+      themeCss: brandingThemeCss(tenantBranding),
+    };
+  } catch (error) {
+    console.error(`[TenantAppLayout] Error loading branding for tenant ${tenant.tenant_id}:`, error);
+  }
+
   return (
     <AppLayout
       tenantId={tenant.tenant_id} // Pass tenant_id (UUID)
       tenantDomain={tenant.subdomain} // Pass subdomain
       userRole={userRole}
+      permissions={await getPermissionsFromSession()} // Drives which navigation items are shown
       userId={sessionData.userId} // Pass user_id (UUID)
       username={sessionData.username} // Pass username
+      impersonation={sessionData.impersonation ?? null} // Drives the "viewing as" banner
+      branding={branding}
     >
       {children}
     </AppLayout>
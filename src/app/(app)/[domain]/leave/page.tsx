@@ -1,11 +1,12 @@
 
 // src/app/(app)/[domain]/leave/page.tsx (Server Component Wrapper)
 import { redirect } from 'next/navigation';
-import { getSessionData, getEmployeeProfileForCurrentUser } from '@/modules/auth/actions'; // Import server-side helpers
+import { getSessionData, getEmployeeProfileForCurrentUser, getPermissionsFromSession } from '@/modules/auth/actions'; // Import server-side helpers
 import dynamic from 'next/dynamic';
 import { Skeleton } from '@/components/ui/skeleton';
 import type { Gender } from '@/modules/employees/types'; // Import Gender type
 import type { UserRole } from '@/modules/auth/types'; // Import UserRole type
+import { getTenantConfigValue } from '@/modules/tenants/lib/config';
 
 const LeavePageClient = dynamic(() => import('@/modules/leave/components/leave-page-client'), {
   loading: () => (
@@ -55,13 +56,16 @@ export default async function TenantLeavePage({ params }: TenantLeavePageProps)
     // Decide how to handle this - maybe allow proceeding without gender filtering if profile fetch fails for some reason
   }
 
+  const permissions = await getPermissionsFromSession();
+
   return (
     <LeavePageClient
       userId={session.userId}
-      isAdmin={session.userRole === 'Admin'} // More specific than isAdminFromSession which might be less direct
-      currentUserRole={session.userRole} // Pass the user's role
+      permissions={permissions}
+      canApproveLeave={permissions.includes('leave.approve')}
       tenantDomain={session.tenantDomain}
       employeeGender={employeeGender} // Pass the gender to the client component
+      weekOffDays={await getTenantConfigValue(session.tenantId, 'weekOffDays')}
     />
   );
 }
@@ -2,9 +2,11 @@
 // src/app/(app)/[domain]/payroll/page.tsx
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { FileText, AlertTriangle } from "lucide-react";
-import { getSessionData, isAdminFromSession } from '@/modules/auth/actions';
+import { getSessionData, hasPermission } from '@/modules/auth/actions';
 import { redirect } from 'next/navigation';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { hasFeature } from '@/modules/subscriptions/lib/entitlements';
+import { getPlanFeature, planFeatureUnavailableMessage } from '@/modules/subscriptions/types';
 
 interface PayrollPageProps {
   params: { domain: string };
@@ -24,8 +26,22 @@ export default async function TenantPayrollPage({ params }: PayrollPageProps) {
     redirect(loginUrl);
   }
 
-  const isAdmin = await isAdminFromSession();
-  if (!isAdmin) {
+  if (session.tenantId && !(await hasFeature(session.tenantId, 'payroll'))) {
+    return (
+        <div className="flex flex-col items-center justify-center min-h-[400px]">
+            <Alert className="max-w-md">
+               <AlertTriangle className="h-5 w-5" />
+               <AlertTitle>Not Included in Your Plan</AlertTitle>
+               <AlertDescription>
+                   {planFeatureUnavailableMessage(getPlanFeature('payroll'))}
+               </AlertDescription>
+           </Alert>
+        </div>
+    );
+  }
+
+  const canAccess = await hasPermission('payroll.view');
+  if (!canAccess) {
     return (
         <div className="flex flex-col items-center justify-center min-h-[400px]">
             <Alert variant="destructive" className="max-w-md">
@@ -2,9 +2,11 @@
 // src/app/(app)/[domain]/recruitment/page.tsx (Server Component Wrapper)
 import dynamic from 'next/dynamic';
 import { Skeleton } from '@/components/ui/skeleton';
-import { getSessionData, isAdminFromSession } from '@/modules/auth/actions';
+import { getSessionData, hasPermission } from '@/modules/auth/actions';
 import { redirect } from 'next/navigation';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { hasFeature } from '@/modules/subscriptions/lib/entitlements';
+import { getPlanFeature, planFeatureUnavailableMessage } from '@/modules/subscriptions/types';
 import { AlertTriangle } from 'lucide-react';
 
 const TenantRecruitmentPageClient = dynamic(() => import('@/modules/recruitment/components/recruitment-page-client'), {
@@ -42,8 +44,22 @@ export default async function TenantRecruitmentPage({ params }: TenantRecruitmen
      redirect(loginUrl);
    }
 
-   const isAdmin = await isAdminFromSession();
-   if (!isAdmin) {
+   if (session.tenantId && !(await hasFeature(session.tenantId, 'recruitment'))) {
+     return (
+         <div className="flex flex-col items-center justify-center min-h-[400px]">
+             <Alert className="max-w-md">
+                <AlertTriangle className="h-5 w-5" />
+                <AlertTitle>Not Included in Your Plan</AlertTitle>
+                <AlertDescription>
+                    {planFeatureUnavailableMessage(getPlanFeature('recruitment'))}
+                </AlertDescription>
+            </Alert>
+         </div>
+     );
+   }
+
+   const canAccess = await hasPermission('recruitment.manage');
+   if (!canAccess) {
        // If not admin, show an unauthorized message or redirect
        return (
            <div className="flex flex-col items-center justify-center min-h-[400px]">
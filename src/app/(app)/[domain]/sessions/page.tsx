@@ -0,0 +1,49 @@
+// src/app/(app)/[domain]/sessions/page.tsx
+import { redirect } from 'next/navigation';
+import { MonitorSmartphone, AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { getSessionData, getMySessionsAction, getTenantSessionsAction, getMfaStatusAction, hasPermission } from '@/modules/auth/actions';
+import { SessionManagement } from '@/modules/auth/components/session-management';
+import { MfaSettings } from '@/modules/auth/components/mfa-settings';
+
+interface SessionsPageProps {
+  params: { domain: string };
+}
+
+export default async function TenantSessionsPage({ params }: SessionsPageProps) {
+  const session = await getSessionData();
+  if (!session?.userId || !session.tenantId) {
+    const rootDomain = process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost';
+    const protocol = process.env.NODE_ENV === 'production' ? 'https:' : 'http:';
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || `http://localhost:9002`;
+    let port = '';
+    try { const url = new URL(baseUrl); if (url.port && url.port !== '80' && url.port !== '443') port = `:${url.port}`; } catch {}
+    redirect(`${protocol}//${params.domain}.${rootDomain}${port}/login`);
+  }
+
+  const myResult = await getMySessionsAction();
+  const tenantResult = await hasPermission('security.manage') ? await getTenantSessionsAction() : null;
+  const mfaResult = await getMfaStatusAction();
+
+  return (
+    <div className="flex flex-col gap-6">
+      <h1 className="text-2xl font-bold tracking-tight md:text-3xl flex items-center gap-2">
+        <MonitorSmartphone className="h-6 w-6" /> Security &amp; Sessions
+      </h1>
+      {mfaResult.success && mfaResult.status && <MfaSettings status={mfaResult.status} />}
+      {!myResult.success ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Sessions</AlertTitle>
+          <AlertDescription>{myResult.error}</AlertDescription>
+        </Alert>
+      ) : (
+        <SessionManagement
+          mySessions={myResult.sessions || []}
+          currentSessionId={myResult.currentSessionId}
+          tenantSessions={tenantResult?.success ? tenantResult.sessions || [] : null}
+        />
+      )}
+    </div>
+  );
+}
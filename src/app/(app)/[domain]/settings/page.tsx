@@ -1,10 +1,25 @@
 
 // src/app/(app)/[domain]/settings/page.tsx
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { Settings, AlertTriangle } from "lucide-react";
-import { getSessionData, isAdminFromSession } from '@/modules/auth/actions';
+import { Settings, ShieldCheck, UsersRound, KeyRound, RefreshCw, KeySquare, Globe, Building2, Palette, PackageOpen } from "lucide-react";
+import { getSessionData, getPermissionsFromSession, getOidcSettingsAction, getSamlSettingsAction, getScimSettingsAction } from '@/modules/auth/actions';
+import { getLockoutPolicy, getMfaPolicy, getPasswordPolicy, getTenantById } from '@/modules/auth/lib/db';
+import { LockoutPolicyForm } from '@/modules/auth/components/lockout-policy-form';
+import { PasswordPolicyForm } from '@/modules/auth/components/password-policy-form';
+import { MfaPolicyForm } from '@/modules/auth/components/mfa-policy-form';
+import { OidcSettingsForm } from '@/modules/auth/components/oidc-settings-form';
+import { SamlSettingsForm } from '@/modules/auth/components/saml-settings-form';
+import { ScimSettingsPanel } from '@/modules/auth/components/scim-settings';
+import { getRolesForTenant } from '@/modules/roles/lib/db';
+import { RoleManager } from '@/modules/roles/components/role-manager';
+import { getApiKeysAction } from '@/modules/api-keys/actions';
+import { ApiKeyManager } from '@/modules/api-keys/components/api-key-manager';
+import { getCustomDomainAction, getCompanySettingsAction, getBrandingAction, getDataExportsAction } from '@/modules/tenants/actions';
+import { CustomDomainSettings } from '@/modules/tenants/components/custom-domain-settings';
+import { CompanySettingsForm } from '@/modules/tenants/components/company-settings-form';
+import { BrandingSettingsForm } from '@/modules/tenants/components/branding-settings-form';
+import { DataExportPanel } from '@/modules/tenants/components/data-export-panel';
 import { redirect } from 'next/navigation';
-import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
 interface SettingsPageProps {
   params: { domain: string };
@@ -24,38 +39,162 @@ export default async function TenantSettingsPage({ params }: SettingsPageProps)
     redirect(loginUrl);
   }
 
-  const isAdmin = await isAdminFromSession();
-  if (!isAdmin) {
-    return (
-        <div className="flex flex-col items-center justify-center min-h-[400px]">
-            <Alert variant="destructive" className="max-w-md">
-               <AlertTriangle className="h-5 w-5" />
-               <AlertTitle>Unauthorized Access</AlertTitle>
-               <AlertDescription>
-                   You do not have permission to view this page. Please contact your administrator.
-               </AlertDescription>
-           </Alert>
-        </div>
-    );
-  }
+  const permissions = await getPermissionsFromSession();
+  const canManageSettings = permissions.includes('settings.manage');
+  const canManageSecurity = permissions.includes('security.manage');
+  const canManageRoles = permissions.includes('roles.manage');
+
+  const lockoutPolicy = canManageSecurity ? await getLockoutPolicy(session.tenantId!) : null;
+  const passwordPolicy = canManageSecurity ? await getPasswordPolicy(session.tenantId!) : null;
+  const mfaPolicy = canManageSecurity ? await getMfaPolicy(session.tenantId!) : null;
+  const oidcSettings = canManageSecurity ? (await getOidcSettingsAction()).settings : undefined;
+  const samlSettings = canManageSecurity ? (await getSamlSettingsAction()).settings : undefined;
+  const scimSettings = canManageSecurity ? (await getScimSettingsAction()).settings : undefined;
+  const roles = canManageRoles ? await getRolesForTenant(session.tenantId!) : [];
+  const apiKeysResult = await getApiKeysAction();
+  const customDomainResult = canManageSettings ? await getCustomDomainAction() : undefined;
+  const companySettingsResult = canManageSettings ? await getCompanySettingsAction() : undefined;
+  const brandingResult = canManageSettings ? await getBrandingAction() : undefined;
+  const tenant = brandingResult?.success ? await getTenantById(session.tenantId!) : undefined;
+  const dataExportsResult = canManageSettings ? await getDataExportsAction() : undefined;
 
   return (
     <div className="flex flex-col gap-6">
       <h1 className="text-2xl font-bold tracking-tight md:text-3xl flex items-center gap-2">
         <Settings className="h-6 w-6" /> Settings for {tenantDomain}
       </h1>
+      {companySettingsResult?.success && companySettingsResult.config && (
+      <Card className="shadow-sm">
+         <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Building2 className="h-5 w-5" /> Company Settings</CardTitle>
+            <CardDescription>Working week, fiscal year and regional formats used across the app. Every change is recorded in the audit log.</CardDescription>
+         </CardHeader>
+         <CardContent>
+            <CompanySettingsForm initialConfig={companySettingsResult.config} initialHistory={companySettingsResult.history || []} />
+         </CardContent>
+      </Card>
+      )}
+      {brandingResult?.success && brandingResult.branding && (
+      <Card className="shadow-sm">
+         <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Palette className="h-5 w-5" /> Branding</CardTitle>
+            <CardDescription>Your logo, favicon and colors for the app, the public careers pages and emails sent to employees. Check the preview before saving.</CardDescription>
+         </CardHeader>
+         <CardContent>
+            <BrandingSettingsForm initialBranding={brandingResult.branding} companyName={tenant?.name || tenantDomain} tenantDomain={tenantDomain} />
+         </CardContent>
+      </Card>
+      )}
+      {customDomainResult?.success && (
+      <Card className="shadow-sm">
+         <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Globe className="h-5 w-5" /> Custom Domain</CardTitle>
+            <CardDescription>Open your workspace on your own domain, such as hr.yourcompany.com. Your subdomain keeps working.</CardDescription>
+         </CardHeader>
+         <CardContent>
+            <CustomDomainSettings initialDomain={customDomainResult.customDomain ?? null} cnameTarget={`${tenantDomain}.${process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost'}`} />
+         </CardContent>
+      </Card>
+      )}
+      {dataExportsResult?.success && (
+      <Card className="shadow-sm">
+         <CardHeader>
+            <CardTitle className="flex items-center gap-2"><PackageOpen className="h-5 w-5" /> Data Export</CardTitle>
+            <CardDescription>Download a complete copy of your company's data, for example to move to another system or to answer a data access request. You are emailed when it is ready.</CardDescription>
+         </CardHeader>
+         <CardContent>
+            <DataExportPanel initialExports={dataExportsResult.exports || []} />
+         </CardContent>
+      </Card>
+      )}
+      {canManageRoles && (
+      <Card className="shadow-sm">
+         <CardHeader>
+            <CardTitle className="flex items-center gap-2"><UsersRound className="h-5 w-5" /> Roles & Permissions</CardTitle>
+            <CardDescription>Control what each role can do. Every user has a base role and can be given extra custom roles from their employee profile.</CardDescription>
+         </CardHeader>
+         <CardContent>
+            <RoleManager initialRoles={roles} />
+         </CardContent>
+      </Card>
+      )}
+      {apiKeysResult.success && (
+      <Card className="shadow-sm">
+         <CardHeader>
+            <CardTitle className="flex items-center gap-2"><KeySquare className="h-5 w-5" /> API Keys</CardTitle>
+            <CardDescription>Personal access tokens{apiKeysResult.canManageTenantKeys ? ' and tenant integration keys' : ''} for calling the REST API with a Bearer header. Keys are stored hashed and can be limited by scope and expiry.</CardDescription>
+         </CardHeader>
+         <CardContent>
+            <ApiKeyManager initialKeys={apiKeysResult.keys || []} currentUserId={session.userId} canManageTenantKeys={!!apiKeysResult.canManageTenantKeys} />
+         </CardContent>
+      </Card>
+      )}
+      {lockoutPolicy && (
+      <Card className="shadow-sm">
+         <CardHeader>
+            <CardTitle className="flex items-center gap-2"><ShieldCheck className="h-5 w-5" /> Account Lockout</CardTitle>
+            <CardDescription>Protect user accounts against password guessing. Admins are emailed when an account gets locked.</CardDescription>
+         </CardHeader>
+         <CardContent>
+            <LockoutPolicyForm initialPolicy={lockoutPolicy} />
+         </CardContent>
+      </Card>
+      )}
+      {passwordPolicy && (
+      <Card className="shadow-sm">
+         <CardHeader>
+            <CardTitle className="flex items-center gap-2"><KeyRound className="h-5 w-5" /> Password Policy</CardTitle>
+            <CardDescription>Set password strength, reuse and expiry rules. They are checked at registration, password reset and forced password changes.</CardDescription>
+         </CardHeader>
+         <CardContent>
+            <PasswordPolicyForm initialPolicy={passwordPolicy} />
+         </CardContent>
+      </Card>
+      )}
+      {mfaPolicy && (
+      <Card className="shadow-sm">
+         <CardHeader>
+            <CardTitle className="flex items-center gap-2"><ShieldCheck className="h-5 w-5" /> Two-Factor Authentication</CardTitle>
+            <CardDescription>Make authenticator app codes mandatory for selected roles.</CardDescription>
+         </CardHeader>
+         <CardContent>
+            <MfaPolicyForm initialPolicy={mfaPolicy} />
+         </CardContent>
+      </Card>
+      )}
+      {oidcSettings && (
+      <Card className="shadow-sm">
+         <CardHeader>
+            <CardTitle className="flex items-center gap-2"><KeyRound className="h-5 w-5" /> Single Sign-On (OIDC)</CardTitle>
+            <CardDescription>Let staff sign in with your OpenID Connect identity provider. Users are matched by email.</CardDescription>
+         </CardHeader>
+         <CardContent>
+            <OidcSettingsForm initialSettings={oidcSettings} />
+         </CardContent>
+      </Card>
+      )}
+      {samlSettings && (
+      <Card className="shadow-sm">
+         <CardHeader>
+            <CardTitle className="flex items-center gap-2"><KeyRound className="h-5 w-5" /> Single Sign-On (SAML 2.0)</CardTitle>
+            <CardDescription>Let staff sign in with a SAML identity provider. Users are matched by email and mapped attributes fill in their employee profile.</CardDescription>
+         </CardHeader>
+         <CardContent>
+            <SamlSettingsForm initialSettings={samlSettings} />
+         </CardContent>
+      </Card>
+      )}
+      {scimSettings && (
       <Card className="shadow-sm">
          <CardHeader>
-            <CardTitle>Company Settings</CardTitle>
-            <CardDescription>Manage your company's configuration.</CardDescription>
+            <CardTitle className="flex items-center gap-2"><RefreshCw className="h-5 w-5" /> SCIM Provisioning</CardTitle>
+            <CardDescription>Let your identity provider create, update and deactivate employee accounts automatically. IdP groups map to roles.</CardDescription>
          </CardHeader>
          <CardContent>
-            <p className="text-muted-foreground">Tenant-specific settings (e.g., branding, integrations, user roles) will be managed here.</p>
-            <div className="mt-4 h-60 w-full flex items-center justify-center bg-muted rounded-md">
-                <p className="text-muted-foreground">Settings Placeholder</p>
-             </div>
+            <ScimSettingsPanel initialSettings={scimSettings} />
          </CardContent>
       </Card>
+      )}
     </div>
   );
 }
@@ -17,10 +17,7 @@ import { Loader2, UploadCloud, CheckCircle, XCircle, User, Mail, Phone, Linkedin
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from '@/components/ui/badge';
 import { useParams } from "next/navigation";
-// For client-side role check, you might need a hook or context that provides session info.
-// As this is a client component, it can't directly use server actions for session checking on initial render easily.
-// Assuming a simple isAdmin prop or context for now.
-// For a more robust solution, the parent server component would do the check.
+import { getPlanFeature, planFeatureUnavailableMessage } from '@/modules/subscriptions/types';
 
 const formSchema = z.object({
   resumeFile: z
@@ -35,10 +32,6 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
-// Assume isAdmin is passed as a prop or from context
-// For this example, we'll mock it. Replace with actual logic.
-const MOCK_IS_ADMIN = true; // Replace this with actual role check
-
 export default function TenantSmartResumeParserPage() {
   const params = useParams();
   const tenantDomain = params.domain as string;
@@ -48,16 +41,22 @@ export default function TenantSmartResumeParserPage() {
   const [fileName, setFileName] = useState<string | null>(null);
   const { toast } = useToast();
 
-  // Client-side check for admin (replace with actual role from session/context)
-  const [isAdmin, setIsAdmin] = React.useState<boolean | null>(null);
+  // Client-side check of the 'ai.resume_parser' permission; only hides the UI, the session API is the source of truth
+  const [canUseParser, setCanUseParser] = React.useState<boolean | null>(null);
+  const [notInPlan, setNotInPlan] = React.useState(false);
   React.useEffect(() => {
-    // Simulate fetching admin status (replace with actual session check)
-    // This should ideally be done by the parent Server Component and passed as a prop
-    const checkAdminStatus = async () => {
-        // Example: fetch('/api/auth/session').then(res => res.json()).then(data => setIsAdmin(data.userRole === 'Admin'));
-        setIsAdmin(MOCK_IS_ADMIN); // Using mock for now
+    const checkPermission = async () => {
+        try {
+            const res = await fetch('/api/auth/session');
+            const session = res.ok ? await res.json() : null;
+            setNotInPlan(!!session?.unavailableFeatures?.includes('ai_resume_parser'));
+            setCanUseParser(!!session?.permissions?.includes('ai.resume_parser'));
+        } catch (e) {
+            console.error("Error fetching session info:", e);
+            setCanUseParser(false);
+        }
     };
-    checkAdminStatus();
+    checkPermission();
   }, []);
 
 
@@ -122,7 +121,7 @@ export default function TenantSmartResumeParserPage() {
     }
   };
 
-  if (isAdmin === null) { // Still checking admin status
+  if (canUseParser === null) { // Still checking permission
       return (
           <div className="flex items-center justify-center p-10">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -130,7 +129,21 @@ export default function TenantSmartResumeParserPage() {
       );
   }
 
-  if (!isAdmin) {
+  if (notInPlan) {
+    return (
+        <div className="flex flex-col items-center justify-center min-h-[400px]">
+           <Alert className="max-w-md">
+              <AlertTriangle className="h-5 w-5" />
+              <AlertTitle>Not Included in Your Plan</AlertTitle>
+              <AlertDescription>
+                  {planFeatureUnavailableMessage(getPlanFeature('ai_resume_parser'))}
+              </AlertDescription>
+          </Alert>
+        </div>
+    );
+  }
+
+  if (!canUseParser) {
     return (
         <div className="flex flex-col items-center justify-center min-h-[400px]">
            <Alert variant="destructive" className="max-w-md">
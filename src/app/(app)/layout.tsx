@@ -15,27 +15,40 @@ import {
   SidebarInset,
 } from '@/components/ui/sidebar';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Home, Users, FileText, Briefcase, Calendar, BarChart2, LogOut, UploadCloud, Settings, Mail, UserCog } from 'lucide-react';
+import { Home, Users, FileText, Briefcase, Calendar, BarChart2, LogOut, UploadCloud, Settings, Mail, UserCog, MonitorSmartphone, ScrollText, Eye, Loader2, CreditCard } from 'lucide-react';
 import Link from 'next/link';
-import { logoutAction } from '@/modules/auth/actions';
+import { Button } from '@/components/ui/button';
+import { format, parseISO } from 'date-fns';
+import { logoutAction, stopImpersonationAction } from '@/modules/auth/actions';
 import { useToast } from '@/hooks/use-toast';
 import { useIsMobile } from '@/hooks/use-mobile';
-import type { UserRole } from '@/modules/auth/types'; // Ensure this import path is correct
+import type { ImpersonationInfo, UserRole } from '@/modules/auth/types'; // Ensure this import path is correct
+import type { PermissionKey } from '@/modules/roles/types';
 
 interface AppLayoutProps {
   children: React.ReactNode;
   tenantId: string | null; // Can be null if session somehow invalid or not for a tenant context
   tenantDomain: string | null; // Can be null
   userRole: UserRole | null;
+  permissions: PermissionKey[]; // Effective permissions; decide which navigation items are shown
   userId: string | null; // This is user_id (UUID)
   username: string | null; // Username from session
+  impersonation?: ImpersonationInfo | null; // Set while an admin is viewing the app as this user
+  branding?: AppBranding; // Company logo and colors; the SyntaxHive look when absent
 }
 
-export default function AppLayout({ children, tenantId, tenantDomain, userRole, userId, username }: AppLayoutProps) {
+export interface AppBranding {
+  companyName: string;
+  logoUrl: string | null;
+  themeCss: string; // Overrides of the theme's CSS variables, see brandingThemeCss
+}
+
+export default function AppLayout({ children, tenantId, tenantDomain, userRole, permissions = [], userId, username, impersonation = null, branding }: AppLayoutProps) {
   const pathname = usePathname();
   const router = useRouter();
   const { toast } = useToast();
   const isMobile = useIsMobile();
+  const [isStoppingImpersonation, setIsStoppingImpersonation] = React.useState(false);
 
   const userDisplayName = username || (userId ? `User (${userId.substring(0,4)}...)` : 'User');
   const userInitials = username ? username.substring(0, 1).toUpperCase() : (userId ? userId.substring(0,1).toUpperCase() : 'U');
@@ -53,43 +66,65 @@ export default function AppLayout({ children, tenantId, tenantDomain, userRole,
     }
   };
 
+  const handleStopImpersonation = async () => {
+    setIsStoppingImpersonation(true);
+    try {
+      const result = await stopImpersonationAction();
+      if (!result.success) {
+        throw new Error(result.error || "Could not end impersonation.");
+      }
+      toast({ title: "Impersonation Ended", description: `You are signed in as ${impersonation?.realUsername} again.` });
+      router.push(`/${tenantDomain || 'default'}/dashboard`);
+      router.refresh();
+    } catch (error: any) {
+      console.error("Stop impersonation failed:", error);
+      toast({ title: "Could Not End Impersonation", description: error.message || "Please try again.", variant: "destructive" });
+    } finally {
+      setIsStoppingImpersonation(false);
+    }
+  };
+
   // Ensure tenantDomain is available for link construction
   const safeTenantDomain = tenantDomain || 'default'; // Fallback if tenantDomain is null
 
-  const baseNavItems = [
-    { href: `/${safeTenantDomain}/dashboard`, label: 'Dashboard', icon: Home, roles: ['Admin', 'Manager', 'Employee'] },
-    { href: `/${safeTenantDomain}/recruitment`, label: 'Recruitment', icon: Briefcase, roles: ['Admin', 'Manager'] },
-    { href: `/${safeTenantDomain}/payroll`, label: 'Payroll', icon: FileText, roles: ['Admin', 'Manager'] },
-    { href: `/${safeTenantDomain}/leave`, label: 'Leave', icon: Calendar, roles: ['Admin', 'Manager', 'Employee'] },
-    { href: `/${safeTenantDomain}/documents`, label: 'Documents', icon: FileText, roles: ['Admin', 'Manager'] },
-    { href: `/${safeTenantDomain}/reports`, label: 'Reports', icon: BarChart2, roles: ['Admin', 'Manager'] },
-    { href: `/${safeTenantDomain}/communication`, label: 'Communication', icon: Mail, roles: ['Admin', 'Manager'] },
-    { href: `/${safeTenantDomain}/smart-resume-parser`, label: 'Resume Parser', icon: UploadCloud, roles: ['Admin', 'Manager'] },
+  // Items without a permission are available to every signed-in user.
+  const baseNavItems: { href: string; label: string; icon: React.ElementType; permission?: PermissionKey }[] = [
+    { href: `/${safeTenantDomain}/dashboard`, label: 'Dashboard', icon: Home },
+    { href: `/${safeTenantDomain}/recruitment`, label: 'Recruitment', icon: Briefcase, permission: 'recruitment.manage' },
+    { href: `/${safeTenantDomain}/payroll`, label: 'Payroll', icon: FileText, permission: 'payroll.view' },
+    { href: `/${safeTenantDomain}/leave`, label: 'Leave', icon: Calendar },
+    { href: `/${safeTenantDomain}/documents`, label: 'Documents', icon: FileText, permission: 'documents.manage' },
+    { href: `/${safeTenantDomain}/reports`, label: 'Reports', icon: BarChart2, permission: 'reports.view' },
+    { href: `/${safeTenantDomain}/communication`, label: 'Communication', icon: Mail, permission: 'communication.manage' },
+    { href: `/${safeTenantDomain}/smart-resume-parser`, label: 'Resume Parser', icon: UploadCloud, permission: 'ai.resume_parser' },
+    { href: `/${safeTenantDomain}/audit-log`, label: 'Audit Log', icon: ScrollText, permission: 'audit.view' },
+    { href: `/${safeTenantDomain}/billing`, label: 'Billing', icon: CreditCard, permission: 'billing.manage' },
   ];
 
   let employeeLink;
-  if (userRole === 'Employee' && userId) {
+  if (permissions.includes('employees.view_all')) {
+    employeeLink = { href: `/${safeTenantDomain}/employees`, label: 'Employees', icon: Users };
+  } else if (userRole && userId) {
     // "My Profile" link uses the userId (which is a UUID) in the path
-    employeeLink = { href: `/${safeTenantDomain}/employees/${userId}`, label: 'My Profile', icon: UserCog, roles: ['Employee'] };
-  } else {
-    employeeLink = { href: `/${safeTenantDomain}/employees`, label: 'Employees', icon: Users, roles: ['Admin', 'Manager'] };
+    employeeLink = { href: `/${safeTenantDomain}/employees/${userId}`, label: 'My Profile', icon: UserCog };
   }
 
   const navItems = [
-    ...baseNavItems.filter(item => userRole && item.roles.includes(userRole)),
+    ...baseNavItems.filter(item => userRole && (!item.permission || permissions.includes(item.permission))),
   ];
 
-  if (employeeLink && userRole && employeeLink.roles.includes(userRole)) {
+  if (employeeLink) {
       const dashboardIndex = navItems.findIndex(item => item.label === 'Dashboard');
       if (dashboardIndex !== -1) {
           navItems.splice(dashboardIndex + 1, 0, employeeLink);
       } else {
-          navItems.unshift(employeeLink); // Add to beginning if dashboard isn't there (shouldn't happen for valid roles)
+          navItems.unshift(employeeLink); // Add to beginning if dashboard isn't there (shouldn't happen)
       }
   }
 
   return (
     <div className="flex min-h-svh bg-background text-foreground">
+        {branding?.themeCss && <style>{branding.themeCss}</style>}
         <Sidebar
            variant="sidebar"
            collapsible={isMobile ? "offcanvas" : "icon"}
@@ -97,9 +132,15 @@ export default function AppLayout({ children, tenantId, tenantDomain, userRole,
            className="bg-sidebar text-sidebar-foreground border-sidebar-border"
         >
             <SidebarHeader className="items-center justify-between p-4 border-b border-sidebar-border">
-                 <Link href={`/${safeTenantDomain}/dashboard`} className="flex items-center gap-2 font-semibold text-lg text-sidebar-primary">
-                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-6 w-6"><path d="M12 3v18M3 12h18"/></svg>
-                 <span className="hidden group-data-[state=expanded]:inline">SyntaxHive Hrm</span>
+                 <Link href={`/${safeTenantDomain}/dashboard`} className="flex min-w-0 items-center gap-2 font-semibold text-lg text-sidebar-primary">
+                  {branding?.logoUrl ? (
+                    <img src={branding.logoUrl} alt={branding.companyName} className="h-8 max-w-[10rem] object-contain" />
+                  ) : (
+                    <>
+                      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-6 w-6"><path d="M12 3v18M3 12h18"/></svg>
+                      <span className="hidden truncate group-data-[state=expanded]:inline">{branding?.companyName || 'SyntaxHive Hrm'}</span>
+                    </>
+                  )}
                  </Link>
                 <SidebarTrigger className="md:hidden" />
             </SidebarHeader>
@@ -138,16 +179,23 @@ export default function AppLayout({ children, tenantId, tenantDomain, userRole,
                      </div>
                  </div>
                  <SidebarMenu className="mt-4">
-                      {(userRole === 'Admin' || userRole === 'Manager') && (
-                        <SidebarMenuItem>
-                            <SidebarMenuButton tooltip="Settings" asChild isActive={pathname.startsWith(`/${safeTenantDomain}/settings`)}>
-                                <Link href={`/${safeTenantDomain}/settings`}>
-                                    <Settings className="h-5 w-5"/>
-                                    <span>Settings</span>
-                                </Link>
-                            </SidebarMenuButton>
-                        </SidebarMenuItem>
-                      )}
+                      <SidebarMenuItem>
+                          <SidebarMenuButton tooltip="Security" asChild isActive={pathname.startsWith(`/${safeTenantDomain}/sessions`)}>
+                              <Link href={`/${safeTenantDomain}/sessions`}>
+                                  <MonitorSmartphone className="h-5 w-5"/>
+                                  <span>Security</span>
+                              </Link>
+                          </SidebarMenuButton>
+                      </SidebarMenuItem>
+                      {/* Everyone can open Settings for their personal API keys; admin cards are permission-gated on the page. */}
+                      <SidebarMenuItem>
+                          <SidebarMenuButton tooltip="Settings" asChild isActive={pathname.startsWith(`/${safeTenantDomain}/settings`)}>
+                              <Link href={`/${safeTenantDomain}/settings`}>
+                                  <Settings className="h-5 w-5"/>
+                                  <span>Settings</span>
+                              </Link>
+                          </SidebarMenuButton>
+                      </SidebarMenuItem>
                       <SidebarMenuItem>
                           <SidebarMenuButton
                              tooltip="Logout"
@@ -163,6 +211,18 @@ export default function AppLayout({ children, tenantId, tenantDomain, userRole,
         </Sidebar>
 
         <SidebarInset className="flex-1 overflow-y-auto flex flex-col">
+              {impersonation && (
+                <div role="status" className="sticky top-0 z-20 flex flex-wrap items-center gap-3 border-b border-amber-300 bg-amber-100 px-4 py-2 text-sm text-amber-900 dark:border-amber-700 dark:bg-amber-900 dark:text-amber-100">
+                  <Eye className="h-4 w-4 flex-shrink-0" />
+                  <span className="flex-1">
+                    <strong>{impersonation.realUsername}</strong>, you are viewing the app as <strong>{userDisplayName}</strong> until {format(parseISO(impersonation.expiresAt), 'p')}. Security changes are blocked and every action is recorded in the audit log.
+                  </span>
+                  <Button size="sm" variant="outline" className="border-amber-400 bg-transparent hover:bg-amber-200 dark:hover:bg-amber-800" onClick={handleStopImpersonation} disabled={isStoppingImpersonation}>
+                    {isStoppingImpersonation && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    End impersonation
+                  </Button>
+                </div>
+              )}
               <header className="sticky top-0 z-10 flex h-14 items-center gap-4 border-b bg-background px-4 md:hidden">
                 <SidebarTrigger />
                  <h1 className="flex-1 text-lg font-semibold">{tenantDomain || 'SyntaxHive Hrm'}</h1>
@@ -0,0 +1,191 @@
+
+"use client";
+
+import * as React from 'react';
+import { useEffect, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useForm, SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from 'lucide-react';
+import { acceptInvitationSchema, type AcceptInvitationFormInputs } from '@/modules/auth/types';
+import { acceptInvitationAction, validateInvitationTokenAction } from '@/modules/auth/actions';
+
+interface InvitationDetails {
+  name?: string;
+  email?: string;
+  companyName?: string;
+  passwordRequirements?: string;
+}
+
+function AcceptInvitationForm() {
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+  const token = searchParams.get('token') || '';
+  const [isLoading, setIsLoading] = useState(false);
+  const [tokenStatus, setTokenStatus] = useState<'checking' | 'valid' | 'invalid'>('checking');
+  const [invitation, setInvitation] = useState<InvitationDetails>({});
+  const [isCompleted, setIsCompleted] = useState(false);
+  const [loginUrl, setLoginUrl] = useState('/login');
+
+  useEffect(() => {
+    if (!token) {
+      setTokenStatus('invalid');
+      return;
+    }
+    validateInvitationTokenAction(token)
+      .then(result => {
+        setTokenStatus(result.valid ? 'valid' : 'invalid');
+        if (result.valid) setInvitation(result);
+      })
+      .catch(() => setTokenStatus('invalid'));
+  }, [token]);
+
+  const form = useForm<AcceptInvitationFormInputs>({
+    resolver: zodResolver(acceptInvitationSchema),
+    defaultValues: {
+      token,
+      password: "",
+      confirmPassword: "",
+      acceptTerms: false,
+    },
+  });
+
+  const onSubmit: SubmitHandler<AcceptInvitationFormInputs> = async (data) => {
+    setIsLoading(true);
+    try {
+      const result = await acceptInvitationAction({ ...data, token });
+      if (!result.success) {
+        const passwordErrors = result.errors?.filter(err => err.path[0] === 'password').map(err => err.message) || [];
+        if (passwordErrors.length > 0) form.setError('password', { message: passwordErrors.join(' ') });
+        const message = result.error || result.errors?.[0]?.message || "Could not activate your account.";
+        toast({ title: "Activation Failed", description: message, variant: "destructive" });
+        return;
+      }
+      if (result.loginUrl) setLoginUrl(result.loginUrl);
+      setIsCompleted(true);
+      toast({
+        title: "Account Activated",
+        description: "Your account is ready. Please log in with your new password.",
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+    } catch (error: any) {
+      console.error("Accept invitation action error:", error);
+      toast({ title: "Activation Error", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (tokenStatus === 'checking') {
+    return <Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />;
+  }
+
+  if (tokenStatus === 'invalid') {
+    return (
+      <div className="space-y-4 text-center text-sm">
+        <p className="text-destructive">This invitation is invalid, has expired or was already used. Ask your administrator to send a new one.</p>
+        <Link href="/login" className="font-medium text-primary hover:underline">
+          Back to Login
+        </Link>
+      </div>
+    );
+  }
+
+  if (isCompleted) {
+    return (
+      <div className="space-y-4 text-center text-sm">
+        <p className="text-green-700 dark:text-green-300">Your account has been activated.</p>
+        <a href={loginUrl} className="font-medium text-primary hover:underline">
+          Continue to Login
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Welcome, <strong>{invitation.name}</strong>. Choose a password for <strong>{invitation.email}</strong> to join {invitation.companyName}.
+        </p>
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" {...field} placeholder="••••••••" autoComplete="new-password" />
+              </FormControl>
+              <FormDescription>{invitation.passwordRequirements || 'Must be at least 8 characters.'}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm Password</FormLabel>
+              <FormControl>
+                <Input type="password" {...field} placeholder="••••••••" autoComplete="new-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="acceptTerms"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} />
+              </FormControl>
+              <div className="space-y-1 leading-none">
+                <FormLabel>I accept the terms of use and privacy policy of {invitation.companyName} on SyntaxHive Hrm.</FormLabel>
+                <FormMessage />
+              </div>
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Activating...
+            </>
+          ) : (
+            "Activate Account"
+          )}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AcceptInvitationPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl font-bold">Activate Your Account</CardTitle>
+          <CardDescription>Choose your password to finish setting up your account.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {/* useSearchParams requires a Suspense boundary */}
+          <Suspense fallback={<Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />}>
+            <AcceptInvitationForm />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
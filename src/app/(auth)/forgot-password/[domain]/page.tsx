@@ -15,6 +15,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from 'lucide-react';
 // Assume types are adjusted if necessary for tenant context
 import { tenantForgotPasswordSchema, type TenantForgotPasswordFormInputs } from '@/modules/auth/types'; // Use tenant-specific schema
+import { requestPasswordResetAction } from '@/modules/auth/actions';
 
 export default function TenantForgotPasswordPage() {
   const { toast } = useToast();
@@ -38,18 +39,18 @@ export default function TenantForgotPasswordPage() {
     setIsLoading(true);
     console.log("Forgot password data for domain:", domain, data);
 
-    // --- TODO: Real Forgot Password Logic ---
-    // 1. Send email and domain to backend API (e.g., /api/auth/forgot-password)
-    // 2. Backend finds user by email *within the specified tenant domain*.
-    // 3. Generate a secure, time-limited reset token.
-    // 4. Store the token hash associated with the user ID.
-    // 5. Send an email to the user containing a link with the token (e.g., subdomain.domain.com/reset-password?token=...).
-    // 6. Backend returns success/error.
-
-    // --- Mock Forgot Password Logic ---
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
+    // The action resolves the tenant from the host; the URL segment is only a fallback.
+    const result = await requestPasswordResetAction({ email: data.email, companySubdomain: domain });
     setIsLoading(false);
+
+    if (!result.success) {
+      toast({
+        title: "Request Failed",
+        description: result.error || "Could not process the password reset request.",
+        variant: "destructive",
+      });
+      return;
+    }
     setIsSubmitted(true); // Show the confirmation message
 
     toast({
@@ -3,8 +3,6 @@
 
 import { useState } from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
-import { z } from 'zod';
 import { useForm, SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from "@/components/ui/button";
@@ -14,9 +12,9 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from 'lucide-react';
 import { rootForgotPasswordSchema, type RootForgotPasswordFormInputs } from '@/modules/auth/types'; // Use root schema
+import { requestPasswordResetAction } from '@/modules/auth/actions';
 
 export default function RootForgotPasswordPage() {
-  const router = useRouter();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
@@ -25,31 +23,32 @@ export default function RootForgotPasswordPage() {
   const form = useForm<RootForgotPasswordFormInputs>({
     resolver: zodResolver(rootForgotPasswordSchema),
     defaultValues: {
-      companyDomain: "",
+      companySubdomain: "",
       email: "",
     },
   });
 
   const onSubmit: SubmitHandler<RootForgotPasswordFormInputs> = async (data) => {
     setIsLoading(true);
-    const { companyDomain, email } = data;
-    console.log("Forgot password request for domain:", companyDomain, "Email:", email);
-
-    // --- TODO: Real Forgot Password Logic ---
-    // This logic is similar to the tenant-specific page, but triggered from the root
-    // 1. Send email and domain to backend API (e.g., /api/auth/forgot-password)
-    // 2. Backend verifies domain, finds user by email within that tenant.
-    // 3. Generate token, store hash, send email with link (e.g., subdomain.domain.com/reset-password?token=...).
-
-    // --- Mock Forgot Password Logic ---
-    await new Promise(resolve => setTimeout(resolve, 1500));
+    const { companySubdomain, email } = data;
+    console.log("Forgot password request for subdomain:", companySubdomain, "Email:", email);
 
+    const result = await requestPasswordResetAction({ email, companySubdomain });
     setIsLoading(false);
+
+    if (!result.success) {
+      toast({
+        title: "Request Failed",
+        description: result.error || "Could not process the password reset request.",
+        variant: "destructive",
+      });
+      return;
+    }
     setIsSubmitted(true); // Show the confirmation message
 
     toast({
       title: "Password Reset Email Sent",
-      description: `If an account exists for ${email} at ${companyDomain}.${rootDomain}, you will receive an email with reset instructions.`,
+      description: `If an account exists for ${email} at ${companySubdomain}.${rootDomain}, you will receive an email with reset instructions.`,
       className: "bg-green-100 text-green-800 border-green-300 dark:bg-green-900 dark:text-green-100 dark:border-green-700",
       duration: 8000,
     });
@@ -72,7 +71,7 @@ export default function RootForgotPasswordPage() {
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                <FormField
                 control={form.control}
-                name="companyDomain"
+                name="companySubdomain"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Company Domain</FormLabel>
@@ -128,7 +127,7 @@ export default function RootForgotPasswordPage() {
           <div className="mt-4 text-center text-sm">
             Remembered your password?{' '}
             {/* Link back to the root login page, which should redirect based on domain */}
-            <a href={`http://${form.watch("companyDomain")}.${rootDomain}`} className="font-medium text-primary hover:underline">
+            <a href={`http://${form.watch("companySubdomain")}.${rootDomain}`} className="font-medium text-primary hover:underline">
               Login
             </a>
           </div>
@@ -13,10 +13,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2 } from 'lucide-react';
+import { Loader2, KeyRound } from 'lucide-react';
 import { tenantLoginSchema, type TenantLoginFormInputs } from '@/modules/auth/types';
-import { loginAction } from '@/modules/auth/actions';
+import { loginAction, changeExpiredPasswordAction, verifyMfaLoginAction, getSsoLoginOptionsAction, beginSsoLoginAction, beginSamlLoginAction } from '@/modules/auth/actions';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
+import { MfaEnrollment, RecoveryCodesList } from '@/modules/auth/components/mfa-enrollment';
+
+// sso_error comes from the URL, so a crafted link could put any text in the toast; keep it short
+const SSO_ERROR_MAX_LENGTH = 200;
+
+type MfaStep = 'none' | 'change_password' | 'verify' | 'enroll' | 'recovery_codes';
 
 export default function LoginPage() {
   const router = useRouter();
@@ -27,6 +34,15 @@ export default function LoginPage() {
   const [port, setPort] = useState<string>('');
   const [displayUrl, setDisplayUrl] = useState<string | null>(null);
   const [isRootLogin, setIsRootLogin] = useState(false);
+  const [mfaStep, setMfaStep] = useState<MfaStep>('none');
+  const [mfaCode, setMfaCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [passwordChange, setPasswordChange] = useState<{ reason: 'expired' | 'admin_set'; requirements: string } | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmNewPassword, setConfirmNewPassword] = useState('');
+  const [ssoEnabled, setSsoEnabled] = useState(false);
+  const [samlEnabled, setSamlEnabled] = useState(false);
+  const [isSsoLoading, setIsSsoLoading] = useState(false);
 
   useEffect(() => {
       if (typeof window !== 'undefined') {
@@ -64,6 +80,10 @@ export default function LoginPage() {
                 setTenantSubdomain(subdomain);
                 setDisplayUrl(`${subdomain}.${currentRootDomain}${displayPortString}`);
                 console.log(`[LoginPage Effect] Tenant subdomain set to: ${subdomain}. Display URL: ${subdomain}.${currentRootDomain}${displayPortString}`);
+                getSsoLoginOptionsAction().then(options => {
+                    setSsoEnabled(options.ssoEnabled);
+                    setSamlEnabled(options.samlEnabled);
+                });
             } else {
                 setIsRootLogin(true);
                 setTenantSubdomain(null);
@@ -71,8 +91,21 @@ export default function LoginPage() {
                 console.warn(`[LoginPage Effect] Invalid/ignored subdomain or non-tenant hostname: ${hostname}. Treating as root/default. Display URL: ${hostname}${displayPortString}`);
             }
         }
+
+        // Returning from the identity provider (see /api/auth/oidc/callback)
+        const searchParams = new URLSearchParams(window.location.search);
+        const ssoError = searchParams.get('sso_error');
+        const ssoStep = searchParams.get('sso');
+        if (ssoError) {
+            toast({ title: "SSO Login Failed", description: ssoError.slice(0, SSO_ERROR_MAX_LENGTH), variant: "destructive" });
+        } else if (ssoStep === 'mfa_verify' || ssoStep === 'mfa_enroll') {
+            setMfaStep(ssoStep === 'mfa_verify' ? 'verify' : 'enroll');
+        }
+        if (ssoError || ssoStep) {
+            window.history.replaceState(null, '', window.location.pathname);
+        }
       }
-  }, []);
+  }, [toast]);
 
 
   const form = useForm<TenantLoginFormInputs>({
@@ -91,7 +124,14 @@ export default function LoginPage() {
       // loginAction will derive tenant from hostname via headers()
       const result = await loginAction(data);
 
-      if (!result.success) {
+      if (result.passwordChangeRequired) {
+        setPasswordChange({ reason: result.passwordChangeReason || 'expired', requirements: result.passwordRequirements || '' });
+        setMfaStep('change_password');
+        setIsLoading(false);
+      } else if (result.mfaRequired || result.mfaEnrollmentRequired) {
+        setMfaStep(result.mfaRequired ? 'verify' : 'enroll');
+        setIsLoading(false);
+      } else if (!result.success) {
         toast({ title: "Login Failed", description: result.error || "Invalid credentials or inactive account.", variant: "destructive" });
         setIsLoading(false);
       } else {
@@ -106,6 +146,87 @@ export default function LoginPage() {
     }
   };
 
+  const onSsoLogin = async (protocol: 'oidc' | 'saml') => {
+    setIsSsoLoading(true);
+    try {
+      const result = protocol === 'saml'
+        ? await beginSamlLoginAction().then(r => ({ ...r, url: r.redirectUrl }))
+        : await beginSsoLoginAction().then(r => ({ ...r, url: r.authorizationUrl }));
+      if (!result.success || !result.url) {
+        toast({ title: "SSO Login Failed", description: result.error || "Could not start single sign-on.", variant: "destructive" });
+        setIsSsoLoading(false);
+        return;
+      }
+      window.location.href = result.url; // Full navigation to the identity provider
+    } catch (error: any) {
+      console.error("SSO login error:", error);
+      toast({ title: "Login Error", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+      setIsSsoLoading(false);
+    }
+  };
+
+  const onChangePassword = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoading(true);
+    try {
+      const result = await changeExpiredPasswordAction({ password: newPassword, confirmPassword: confirmNewPassword });
+      if (result.mfaRequired || result.mfaEnrollmentRequired) {
+        toast({ title: "Password Changed", description: "Complete two-factor authentication to finish signing in." });
+        setMfaStep(result.mfaRequired ? 'verify' : 'enroll');
+        setIsLoading(false);
+        return;
+      }
+      if (!result.success) {
+        toast({ title: "Password Not Changed", description: result.error || "Could not change your password.", variant: "destructive" });
+        if (result.error?.includes('sign in again')) {
+          setMfaStep('none');
+          setPasswordChange(null);
+        }
+        setIsLoading(false);
+        return;
+      }
+      toast({ title: "Password Changed", description: "Welcome back!" });
+      router.push('/dashboard');
+    } catch (error: any) {
+      console.error("Password change error:", error);
+      toast({ title: "Login Error", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+      setIsLoading(false);
+    }
+  };
+
+  const onVerifyMfa = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoading(true);
+    try {
+      const result = await verifyMfaLoginAction({ code: mfaCode });
+      if (!result.success) {
+        toast({ title: "Verification Failed", description: result.error || "Invalid authentication code.", variant: "destructive" });
+        if (result.error?.includes('sign in again') || result.error?.includes('locked')) {
+          setMfaStep('none');
+          setMfaCode('');
+        }
+        setIsLoading(false);
+        return;
+      }
+      if (result.usedRecoveryCode) {
+        toast({ title: "Recovery Code Used", description: `You have ${result.recoveryCodesRemaining ?? 0} recovery code(s) left. Consider regenerating them under Security.` });
+      } else {
+        toast({ title: "Login Successful", description: "Welcome back!" });
+      }
+      router.push('/dashboard');
+    } catch (error: any) {
+      console.error("MFA verification error:", error);
+      toast({ title: "Login Error", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+      setIsLoading(false);
+    }
+  };
+
+  const handleMfaEnrolled = (codes: string[]) => {
+    // confirmMfaEnrollmentAction also completed the login; show the codes before continuing.
+    setRecoveryCodes(codes);
+    setMfaStep('recovery_codes');
+  };
+
   const forgotPasswordHref = tenantSubdomain
     ? `/forgot-password/${tenantSubdomain}` // Path for subdomain forgot password
     : '/forgot-password'; // Path for root forgot password (which then asks for domain)
@@ -138,6 +259,83 @@ export default function LoginPage() {
                     </AlertDescription>
                 </Alert>
             )}
+          {mfaStep === 'change_password' && passwordChange && (
+            <form onSubmit={onChangePassword} className="space-y-4">
+              <Alert>
+                <AlertTitle>Choose a new password</AlertTitle>
+                <AlertDescription>
+                  {passwordChange.reason === 'admin_set'
+                    ? "Your password was set by an administrator. Choose your own password to continue."
+                    : "Your password has expired. Choose a new one to continue."}
+                </AlertDescription>
+              </Alert>
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input id="new-password" type="password" value={newPassword} onChange={e => setNewPassword(e.target.value)} autoComplete="new-password" autoFocus />
+                {passwordChange.requirements && <p className="text-sm text-muted-foreground">{passwordChange.requirements}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-new-password">Confirm new password</Label>
+                <Input id="confirm-new-password" type="password" value={confirmNewPassword} onChange={e => setConfirmNewPassword(e.target.value)} autoComplete="new-password" />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading || !newPassword || !confirmNewPassword}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving
+                  </>
+                ) : (
+                  "Change password and sign in"
+                )}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={() => { setMfaStep('none'); setPasswordChange(null); setNewPassword(''); setConfirmNewPassword(''); }}>
+                Back to login
+              </Button>
+            </form>
+          )}
+          {mfaStep === 'verify' && (
+            <form onSubmit={onVerifyMfa} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="mfa-code">Authentication code</Label>
+                <Input
+                  id="mfa-code"
+                  value={mfaCode}
+                  onChange={e => setMfaCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  placeholder="123456 or a recovery code"
+                  autoFocus
+                />
+                <p className="text-sm text-muted-foreground">Enter the 6-digit code from your authenticator app, or one of your recovery codes.</p>
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading || !mfaCode.trim()}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Verifying
+                  </>
+                ) : (
+                  "Verify"
+                )}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={() => { setMfaStep('none'); setMfaCode(''); }}>
+                Back to login
+              </Button>
+            </form>
+          )}
+          {mfaStep === 'enroll' && (
+            <div className="space-y-4">
+              <Alert>
+                <AlertTitle>Two-factor authentication required</AlertTitle>
+                <AlertDescription>Your company requires two-factor authentication for your role. Set it up to finish signing in.</AlertDescription>
+              </Alert>
+              <MfaEnrollment onEnrolled={handleMfaEnrolled} />
+            </div>
+          )}
+          {mfaStep === 'recovery_codes' && (
+            <div className="space-y-4">
+              <RecoveryCodesList codes={recoveryCodes} />
+              <Button className="w-full" onClick={() => router.push('/dashboard')}>Continue to dashboard</Button>
+            </div>
+          )}
+          {mfaStep === 'none' && (
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <FormField
@@ -190,6 +388,26 @@ export default function LoginPage() {
               </Button>
             </form>
           </Form>
+          )}
+          {mfaStep === 'none' && (ssoEnabled || samlEnabled) && (
+            <div className="mt-4 space-y-4">
+              <div className="relative text-center text-xs uppercase text-muted-foreground">
+                <span className="bg-card px-2">or</span>
+              </div>
+              {ssoEnabled && (
+                <Button type="button" variant="outline" className="w-full" onClick={() => onSsoLogin('oidc')} disabled={isSsoLoading || isLoading}>
+                  {isSsoLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                  Sign in with SSO
+                </Button>
+              )}
+              {samlEnabled && (
+                <Button type="button" variant="outline" className="w-full" onClick={() => onSsoLogin('saml')} disabled={isSsoLoading || isLoading}>
+                  {isSsoLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                  {ssoEnabled ? 'Sign in with SAML SSO' : 'Sign in with SSO'}
+                </Button>
+              )}
+            </div>
+          )}
           {/* Show register link only if on root login page */}
           {isRootLogin && (
             <div className="mt-4 text-center text-sm">
@@ -10,7 +10,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, Link as LinkIcon } from 'lucide-react';
 import { registrationSchema, type RegistrationFormData } from '@/modules/auth/types';
@@ -80,6 +80,9 @@ export default function RegisterPage() {
                 form.setError("adminEmail", { type: 'server', message: errorMessage });
             } else if (result.errors?.some(e => e.path?.includes('adminUsername'))) {
                 form.setError("adminUsername", { type: 'server', message: errorMessage });
+            } else if (result.errors?.some(e => e.path?.includes('adminPassword'))) {
+                const passwordErrors = result.errors.filter(e => e.path?.includes('adminPassword')).map(e => e.message);
+                form.setError("adminPassword", { type: 'server', message: passwordErrors.join(' ') });
             } else if (result.errors?.some(e => e.message?.includes('Database schema not initialized'))) {
                  form.setError("root.serverError", { type: 'server', message: errorMessage });
             } else {
@@ -214,6 +217,7 @@ export default function RegisterPage() {
                       <FormControl>
                         <Input type="password" {...field} placeholder="••••••••" />
                       </FormControl>
+                      <FormDescription>At least 8 characters, including an uppercase letter, a lowercase letter and a number.</FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
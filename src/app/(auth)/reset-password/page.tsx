@@ -0,0 +1,164 @@
+
+"use client";
+
+import * as React from 'react';
+import { useEffect, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useForm, SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from 'lucide-react';
+import { resetPasswordSchema, type ResetPasswordFormInputs } from '@/modules/auth/types';
+import { resetPasswordAction, validatePasswordResetTokenAction } from '@/modules/auth/actions';
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+  const token = searchParams.get('token') || '';
+  const [isLoading, setIsLoading] = useState(false);
+  const [tokenStatus, setTokenStatus] = useState<'checking' | 'valid' | 'invalid'>('checking');
+  const [isCompleted, setIsCompleted] = useState(false);
+  const [loginUrl, setLoginUrl] = useState('/login');
+  const [passwordRequirements, setPasswordRequirements] = useState('Must be at least 8 characters.');
+
+  useEffect(() => {
+    if (!token) {
+      setTokenStatus('invalid');
+      return;
+    }
+    validatePasswordResetTokenAction(token)
+      .then(result => {
+        setTokenStatus(result.valid ? 'valid' : 'invalid');
+        if (result.passwordRequirements) setPasswordRequirements(result.passwordRequirements);
+      })
+      .catch(() => setTokenStatus('invalid'));
+  }, [token]);
+
+  const form = useForm<ResetPasswordFormInputs>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      token,
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const onSubmit: SubmitHandler<ResetPasswordFormInputs> = async (data) => {
+    setIsLoading(true);
+    try {
+      const result = await resetPasswordAction({ ...data, token });
+      if (!result.success) {
+        const passwordErrors = result.errors?.filter(err => err.path[0] === 'password').map(err => err.message) || [];
+        if (passwordErrors.length > 0) form.setError('password', { message: passwordErrors.join(' ') });
+        const message = result.error || result.errors?.[0]?.message || "Could not reset password.";
+        toast({ title: "Reset Failed", description: message, variant: "destructive" });
+        return;
+      }
+      if (result.loginUrl) setLoginUrl(result.loginUrl);
+      setIsCompleted(true);
+      toast({
+        title: "Password Updated",
+        description: "Your password has been reset. Please log in with your new password.",
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+    } catch (error: any) {
+      console.error("Reset password action error:", error);
+      toast({ title: "Reset Error", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (tokenStatus === 'checking') {
+    return <Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />;
+  }
+
+  if (tokenStatus === 'invalid') {
+    return (
+      <div className="space-y-4 text-center text-sm">
+        <p className="text-destructive">This password reset link is invalid or has expired.</p>
+        <Link href="/login" className="font-medium text-primary hover:underline">
+          Back to Login
+        </Link>
+      </div>
+    );
+  }
+
+  if (isCompleted) {
+    return (
+      <div className="space-y-4 text-center text-sm">
+        <p className="text-green-700 dark:text-green-300">Your password has been reset and all existing sessions were signed out.</p>
+        <a href={loginUrl} className="font-medium text-primary hover:underline">
+          Continue to Login
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Password</FormLabel>
+              <FormControl>
+                <Input type="password" {...field} placeholder="••••••••" autoComplete="new-password" />
+              </FormControl>
+              <FormDescription>{passwordRequirements}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm New Password</FormLabel>
+              <FormControl>
+                <Input type="password" {...field} placeholder="••••••••" autoComplete="new-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
+            </>
+          ) : (
+            "Reset Password"
+          )}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl font-bold">Choose a New Password</CardTitle>
+          <CardDescription>Enter a new password for your account.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {/* useSearchParams requires a Suspense boundary */}
+          <Suspense fallback={<Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />}>
+            <ResetPasswordForm />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
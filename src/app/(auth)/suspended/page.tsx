@@ -0,0 +1,38 @@
+// src/app/(auth)/suspended/page.tsx
+import { headers } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import { Ban } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getTenantByDomain } from '@/modules/auth/lib/db';
+import { resolveTenantSubdomainForHost } from '@/lib/tenant-context';
+import { TENANT_UNAVAILABLE_MESSAGES } from '@/modules/auth/types';
+
+// Shown on a tenant subdomain or custom domain while the company is suspended or scheduled for deletion.
+export default async function TenantSuspendedPage() {
+  const { subdomain } = await resolveTenantSubdomainForHost((await headers()).get('host') || '');
+  const tenant = subdomain ? await getTenantByDomain(subdomain).catch(() => undefined) : undefined;
+  if (!tenant || tenant.status === 'ACTIVE') {
+    redirect('/login');
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="space-y-1 text-center">
+          <Ban className="mx-auto h-10 w-10 text-destructive" />
+          <CardTitle className="text-2xl font-bold">
+            {tenant.status === 'SUSPENDED' ? 'Account Suspended' : 'Account Closed'}
+          </CardTitle>
+          <CardDescription>{tenant.name}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-center text-sm text-muted-foreground">
+          <p>{TENANT_UNAVAILABLE_MESSAGES[tenant.status]}</p>
+          {tenant.status === 'DELETED' && tenant.deletion_scheduled_at && (
+            <p>All company data will be permanently deleted on {format(parseISO(tenant.deletion_scheduled_at), 'PPP')}.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
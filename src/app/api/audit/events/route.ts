@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
+import { getAuditEventsAction, exportAuditEventsCsvAction } from '@/modules/audit/actions';
+
+// GET /api/audit/events?search=&entityType=&action=&from=&to=&page=  (add format=csv for a CSV download)
+export async function GET(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('audit:read');
+  if (scopeDenied) return scopeDenied;
+
+  const params = request.nextUrl.searchParams;
+  const filters: Record<string, string | undefined> = {
+    search: params.get('search') || undefined,
+    entityType: params.get('entityType') || undefined,
+    action: params.get('action') || undefined,
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    page: params.get('page') || undefined,
+  }; // Validated by the action
+
+  try {
+    if (params.get('format') === 'csv') {
+      const result = await exportAuditEventsCsvAction(filters);
+      if (!result.success) {
+        const status = result.error?.startsWith('Unauthorized') ? 403 : 400;
+        return NextResponse.json({ error: result.error }, { status });
+      }
+      return new NextResponse(result.csv, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    const result = await getAuditEventsAction(filters);
+    if (!result.success) {
+      const status = result.error?.startsWith('Unauthorized') ? 403 : 400;
+      return NextResponse.json({ error: result.error }, { status });
+    }
+    return NextResponse.json({ events: result.events, total: result.total, page: result.page, pageSize: result.pageSize });
+  } catch (error: any) {
+    console.error('Error fetching audit events (API):', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
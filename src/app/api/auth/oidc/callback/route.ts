@@ -0,0 +1,28 @@
+// src/app/api/auth/oidc/callback/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { completeSsoLoginAction } from '@/modules/auth/actions';
+
+// Redirect URI registered at the identity provider: https://<subdomain>.<root domain>/api/auth/oidc/callback
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const result = await completeSsoLoginAction({
+    code: searchParams.get('code'),
+    state: searchParams.get('state'),
+    error: searchParams.get('error'),
+    errorDescription: searchParams.get('error_description'),
+  });
+
+  if (result.success) {
+    return NextResponse.redirect(new URL('/dashboard', request.url));
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  if (result.mfaRequired) {
+    loginUrl.searchParams.set('sso', 'mfa_verify');
+  } else if (result.mfaEnrollmentRequired) {
+    loginUrl.searchParams.set('sso', 'mfa_enroll');
+  } else {
+    loginUrl.searchParams.set('sso_error', result.error || 'Single sign-on failed.');
+  }
+  return NextResponse.redirect(loginUrl);
+}
@@ -0,0 +1,28 @@
+// src/app/api/auth/saml/acs/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { completeSamlLoginAction } from '@/modules/auth/actions';
+import { sameOriginRedirectUrl } from '@/modules/auth/lib/utils';
+
+// Assertion Consumer Service (HTTP-POST binding) for SP- and IdP-initiated logins.
+export async function POST(request: NextRequest) {
+  const formData = await request.formData();
+  const samlResponse = formData.get('SAMLResponse');
+  const relayState = formData.get('RelayState');
+  const result = await completeSamlLoginAction({ samlResponse: typeof samlResponse === 'string' ? samlResponse : null });
+
+  // 303 so the browser follows the POST with a GET.
+  if (result.success) {
+    // RelayState is not signed: only targets on this origin are honoured.
+    return NextResponse.redirect(sameOriginRedirectUrl(relayState, request.nextUrl, '/dashboard'), 303);
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  if (result.mfaRequired) {
+    loginUrl.searchParams.set('sso', 'mfa_verify');
+  } else if (result.mfaEnrollmentRequired) {
+    loginUrl.searchParams.set('sso', 'mfa_enroll');
+  } else {
+    loginUrl.searchParams.set('sso_error', result.error || 'Single sign-on failed.');
+  }
+  return NextResponse.redirect(loginUrl, 303);
+}
@@ -0,0 +1,14 @@
+// src/app/api/auth/saml/metadata/route.ts
+import { NextResponse } from 'next/server';
+import { getSamlMetadataAction } from '@/modules/auth/actions';
+
+// SP metadata; its URL is also the SP entity ID: https://<subdomain>.<root domain>/api/auth/saml/metadata
+export async function GET() {
+  const result = await getSamlMetadataAction();
+  if (!result.success || !result.metadataXml) {
+    return NextResponse.json({ error: result.error || 'SAML metadata is not available.' }, { status: 404 });
+  }
+  return new NextResponse(result.metadataXml, {
+    headers: { 'Content-Type': 'application/samlmetadata+xml; charset=utf-8' },
+  });
+}
@@ -1,7 +1,8 @@
 
 // src/app/api/auth/session/route.ts
 import { NextResponse } from 'next/server';
-import { getSessionData } from '@/modules/auth/actions'; // Import your server action
+import { getSessionData, getPermissionsFromSession } from '@/modules/auth/actions'; // Import your server action
+import { getUnavailableFeatures } from '@/modules/subscriptions/lib/entitlements';
 
 export async function GET() {
   try {
@@ -17,6 +18,8 @@ export async function GET() {
       userRole: session.userRole,
       tenantId: session.tenantId, // Optionally return tenantId if needed by client
       tenantDomain: session.tenantDomain, // Optionally return tenantDomain
+      permissions: await getPermissionsFromSession(), // Effective permissions, for showing/hiding UI only
+      unavailableFeatures: session.tenantId ? await getUnavailableFeatures(session.tenantId) : [], // Modules not in the company's plan
     });
 
   } catch (error: any) {
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/modules/auth/actions';
+import { getTenantById } from '@/modules/auth/lib/db';
+import { getInvoiceById } from '@/modules/subscriptions/lib/db';
+import { renderInvoiceHtml } from '@/modules/subscriptions/lib/invoice-document';
+
+interface RouteParams {
+  id: string;
+}
+
+// GET /api/billing/invoices/:id  (downloads the invoice as a printable HTML document)
+export async function GET(request: NextRequest, { params }: { params: Promise<RouteParams> }) {
+  const { id } = await params;
+  let session;
+  try {
+    session = await requirePermission('billing.manage');
+  } catch (authError: any) {
+    const status = authError.message?.startsWith('Forbidden') ? 403 : 401;
+    return NextResponse.json({ error: 'Unauthorized to download invoices.' }, { status });
+  }
+
+  try {
+    const invoice = await getInvoiceById(id, session.tenantId);
+    const tenant = invoice ? await getTenantById(session.tenantId) : undefined;
+    if (!invoice || !tenant) {
+      return NextResponse.json({ error: 'Invoice not found.' }, { status: 404 });
+    }
+    return new NextResponse(renderInvoiceHtml(invoice, tenant), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': `attachment; filename="invoice-${invoice.invoiceNumber}.html"`,
+      },
+    });
+  } catch (error: any) {
+    console.error(`[API GET /billing/invoices/${id}] Error:`, error);
+    const status = error.message?.includes('Invalid invoice identifier') ? 404 : 500;
+    return NextResponse.json({ error: status === 404 ? 'Invoice not found.' : 'Internal server error' }, { status });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withSystemScope } from '@/lib/tenant-context';
+import { handlePaymentWebhook } from '@/modules/subscriptions/lib/billing';
+
+interface RouteParams {
+  gateway: string;
+}
+
+// POST /api/billing/webhooks/:gateway  (payment outcomes reported by the payment gateway, e.g. /api/billing/webhooks/fake)
+// Not tied to a tenant host or session: the gateway's signature authenticates the request.
+export async function POST(request: NextRequest, { params }: { params: Promise<RouteParams> }) {
+  const { gateway } = await params;
+  const rawBody = await request.text(); // Signatures are computed over the exact bytes sent
+  try {
+    await withSystemScope(`payment webhook (${gateway})`, () => handlePaymentWebhook(gateway, rawBody, request.headers));
+    return NextResponse.json({ received: true });
+  } catch (error: any) {
+    console.error(`[API POST /billing/webhooks/${gateway}] Rejected webhook:`, error.message);
+    return NextResponse.json({ error: error.message || 'Invalid webhook.' }, { status: 400 });
+  }
+}
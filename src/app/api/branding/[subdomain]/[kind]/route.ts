@@ -0,0 +1,44 @@
+// src/app/api/branding/[subdomain]/[kind]/route.ts
+// Serves a company's logo or favicon without sign-in: they appear on the login and careers pages.
+// URLs carry the file version (?v=), so responses may be cached for long.
+import { NextRequest, NextResponse } from 'next/server';
+import { getTenantByDomain } from '@/modules/auth/lib/db';
+import { getBrandingAssetData } from '@/modules/tenants/lib/branding';
+import { brandingAssetKindSchema } from '@/modules/tenants/types';
+import { withTenantScope } from '@/lib/tenant-context';
+
+interface RouteParams {
+  subdomain: string;
+  kind: string;
+}
+
+// GET /api/branding/:subdomain/:kind  (kind is 'logo' or 'favicon')
+export async function GET(request: NextRequest, { params }: { params: Promise<RouteParams> }) {
+  const { subdomain, kind: requestedKind } = await params;
+  const kind = brandingAssetKindSchema.safeParse(requestedKind);
+  if (!kind.success) {
+    return NextResponse.json({ error: 'Not found.' }, { status: 404 });
+  }
+
+  try {
+    const tenant = await getTenantByDomain(subdomain);
+    const file = tenant?.status === 'ACTIVE'
+      ? await withTenantScope(tenant.tenant_id, () => getBrandingAssetData(tenant.tenant_id, kind.data))
+      : undefined;
+    if (!file) {
+      return NextResponse.json({ error: 'Not found.' }, { status: 404 });
+    }
+    const versioned = request.nextUrl.searchParams.get('v') === file.asset.version;
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.asset.contentType,
+        'Cache-Control': versioned ? 'public, max-age=31536000, immutable' : 'public, max-age=300',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'",
+      },
+    });
+  } catch (error: any) {
+    console.error(`[API GET /branding/${subdomain}/${requestedKind}] Error:`, error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
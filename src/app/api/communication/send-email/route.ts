@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import nodemailer from 'nodemailer';
 // Import the DB function to get settings, not the action
 import { getEmailSettings as dbGetEmailSettings } from '@/modules/communication/lib/db';
 import { sendEmailSchema, type SendEmailFormData } from '@/modules/communication/types';
 import type { EmailSettings } from '@/modules/communication/types';
-import { getTenantIdFromSession } from '@/modules/auth/actions'; // Import session helper
+import { requirePermission } from '@/modules/auth/actions';
 
 // Helper function to create transporter (can be shared or kept here)
 function createTransporter(settings: EmailSettings): nodemailer.Transporter {
@@ -46,14 +47,19 @@ function createTransporter(settings: EmailSettings): nodemailer.Transporter {
 
 
 export async function POST(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('communication:write');
+  if (scopeDenied) return scopeDenied;
   console.log('[Send Email API] Received POST request.');
   let settings: EmailSettings | null = null; // Hold fetched settings
   try {
-    // 1. Get Tenant ID from session/authentication context
-    const tenantId = await getTenantIdFromSession();
-    if (!tenantId) {
-      console.error('[Send Email API] Unauthorized: Could not determine tenant ID from session.');
-      return NextResponse.json({ error: 'Unauthorized', message: 'Unable to determine tenant context.' }, { status: 401 });
+    // 1. Sending through the company's SMTP account needs 'communication.manage'
+    let tenantId: string;
+    try {
+      ({ tenantId } = await requirePermission('communication.manage'));
+    } catch (authError: any) {
+      console.error(`[Send Email API] ${authError.message}`);
+      const status = authError.message?.startsWith('Forbidden') ? 403 : 401;
+      return NextResponse.json({ error: 'Unauthorized', message: 'Unauthorized to send emails.' }, { status });
     }
     console.log(`[Send Email API] Processing request for tenant: ${tenantId}`);
 
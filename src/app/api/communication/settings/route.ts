@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import { getEmailSettingsAction, updateEmailSettingsAction } from '@/modules/communication/actions';
 import { emailSettingsSchema } from '@/modules/communication/types';
 
 // GET route to fetch current settings
 export async function GET(request: NextRequest) {
+    const scopeDenied = await checkApiKeyScope('communication:read');
+    if (scopeDenied) return scopeDenied;
     console.log('[Settings API - GET] Received request.');
     try {
         console.log('[Settings API - GET] Calling getEmailSettingsAction...');
@@ -21,6 +24,8 @@ export async function GET(request: NextRequest) {
 
 // PUT route to update/create settings
 export async function PUT(request: NextRequest) {
+    const scopeDenied = await checkApiKeyScope('communication:write');
+    if (scopeDenied) return scopeDenied;
     console.log('[Settings API - PUT] Received request.');
     try {
         console.log('[Settings API - PUT] Parsing request body...');
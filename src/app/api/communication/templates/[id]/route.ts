@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import { getEmailTemplateByIdAction, updateEmailTemplateAction, deleteEmailTemplateAction } from '@/modules/communication/actions';
 import { emailTemplateSchema } from '@/modules/communication/types';
 
@@ -8,6 +9,8 @@ interface Params {
 
 // Optional GET by ID - useful for fetching details before edit if needed elsewhere
 export async function GET(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('communication:read');
+  if (scopeDenied) return scopeDenied;
   try {
     const template = await getEmailTemplateByIdAction(params.id); // Call server action
     if (!template) {
@@ -22,6 +25,8 @@ export async function GET(request: NextRequest, { params }: Params) {
 
 
 export async function PUT(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('communication:write');
+  if (scopeDenied) return scopeDenied;
   try {
     const body = await request.json();
     // Validate against partial schema, cannot update 'id'
@@ -56,6 +61,8 @@ export async function PUT(request: NextRequest, { params }: Params) {
 }
 
 export async function DELETE(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('communication:write');
+  if (scopeDenied) return scopeDenied;
   try {
     // Call server action
     const result = await deleteEmailTemplateAction(params.id);
@@ -1,9 +1,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import { getEmailTemplatesAction, addEmailTemplateAction } from '@/modules/communication/actions';
 import { emailTemplateSchema } from '@/modules/communication/types';
 
 export async function GET(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('communication:read');
+  if (scopeDenied) return scopeDenied;
   try {
     const templates = await getEmailTemplatesAction(); // Call server action
     return NextResponse.json(templates);
@@ -14,6 +17,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('communication:write');
+  if (scopeDenied) return scopeDenied;
   try {
     const body = await request.json();
     // Validate the request body against the schema (excluding 'id' and 'tenantId')
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import { emailSettingsSchema, type EmailSettings } from '@/modules/communication/types';
 import { testSmtpConnectionAction } from '@/modules/communication/actions'; // Import the server action
 
@@ -25,6 +26,8 @@ async function sendAdminNotification(settings: EmailSettings | null, error: any)
 
 
 export async function POST(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('communication:write');
+  if (scopeDenied) return scopeDenied;
   let settings: EmailSettings | null = null; // Define settings outside try for use in catch/finally
   try {
     const body = await request.json();
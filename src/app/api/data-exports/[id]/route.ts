@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/modules/auth/actions';
+import { getDataExportFile } from '@/modules/tenants/lib/data-export';
+
+interface RouteParams {
+  id: string;
+}
+
+// GET /api/data-exports/:id  (downloads a ready data export zip until it expires)
+export async function GET(request: NextRequest, { params }: { params: Promise<RouteParams> }) {
+  const { id } = await params;
+  let session;
+  try {
+    session = await requirePermission('settings.manage');
+  } catch (authError: any) {
+    const status = authError.message?.startsWith('Forbidden') ? 403 : 401;
+    return NextResponse.json({ error: 'Unauthorized to download data exports.' }, { status });
+  }
+
+  try {
+    const file = await getDataExportFile(session.tenantId, id);
+    if (!file) {
+      return NextResponse.json({ error: 'Export not found or expired.' }, { status: 404 });
+    }
+    console.log(`[API GET /data-exports/${id}] User ${session.userId} downloaded the data export of tenant ${session.tenantId}.`);
+    return new NextResponse(file.data, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Length': String(file.data.length),
+        'Content-Disposition': `attachment; filename="${file.dataExport.fileName || 'data-export.zip'}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error: any) {
+    console.error(`[API GET /data-exports/${id}] Error:`, error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+// src/app/api/domains/resolve/route.ts
+// Maps a custom domain to its tenant's subdomain for the middleware, which runs without database access.
+// Only verified domains resolve; they point at this app in public DNS anyway.
+import { NextResponse, type NextRequest } from 'next/server';
+import '@/lib/db'; // Registers the custom domain lookup used by resolveTenantSubdomainForHost
+import { resolveTenantSubdomainForHost } from '@/lib/tenant-context';
+
+export async function GET(request: NextRequest) {
+  const host = request.nextUrl.searchParams.get('host')?.trim().toLowerCase();
+  if (!host) {
+    return NextResponse.json({ error: 'The host parameter is required.' }, { status: 400 });
+  }
+
+  try {
+    const { subdomain } = await resolveTenantSubdomainForHost(host);
+    return NextResponse.json({ subdomain });
+  } catch (error: any) {
+    console.error(`[API /domains/resolve] Error resolving host ${host}:`, error);
+    return NextResponse.json({ error: 'Failed to resolve the host.' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import { cookies } from 'next/headers';
 import {
   getEmployeeById as dbGetEmployeeById,
@@ -8,7 +9,7 @@ import {
   deleteEmployee as dbDeleteEmployee,
 } from '@/modules/employees/lib/db';
 import { employeeSchema } from '@/modules/employees/types';
-import { _parseSessionCookie } from '@/modules/auth/actions';
+import { _parseSessionCookie, getPermissionsFromSession } from '@/modules/auth/actions';
 import type { SessionData } from '@/modules/auth/types';
 import { deleteUserById as dbDeleteUserById } from '@/modules/auth/lib/db';
 
@@ -23,6 +24,8 @@ async function getSession(): Promise<SessionData | null> {
 }
 
 export async function GET(request: NextRequest, { params }: { params: RouteParams }) {
+  const scopeDenied = await checkApiKeyScope('employees:read');
+  if (scopeDenied) return scopeDenied;
   const { id } = params; // Correctly destructure id
   console.log(`[API GET /employees/${id}] Received request for employee ID (this could be user_id or employee_pk_id): ${id}`);
 
@@ -40,6 +43,7 @@ export async function GET(request: NextRequest, { params }: { params: RouteParam
 
   const { tenantId, userRole, userId: currentSessionUserId } = session;
   console.log(`[API GET /employees/${id}] Session details: tenantId=${tenantId}, userRole=${userRole}, currentSessionUserId=${currentSessionUserId}`);
+  const canViewAll = (await getPermissionsFromSession()).includes('employees.view_all');
 
   try {
     let employee;
@@ -47,10 +51,10 @@ export async function GET(request: NextRequest, { params }: { params: RouteParam
     const lowerCaseTenantId = tenantId.toLowerCase();
     const lowerCaseCurrentSessionUserId = currentSessionUserId.toLowerCase();
 
-    if (userRole === 'Employee') {
+    if (!canViewAll) {
       // For "My Profile", the 'id' from the URL *is* the user_id.
       if (lowerCaseId === lowerCaseCurrentSessionUserId) {
-        console.log(`[API GET /employees/${id}] Employee role & ID in URL matches session userId. Calling dbGetEmployeeByUserId with userId: ${lowerCaseId}, tenantId: ${lowerCaseTenantId}`);
+        console.log(`[API GET /employees/${id}] Own-profile access & ID in URL matches session userId. Calling dbGetEmployeeByUserId with userId: ${lowerCaseId}, tenantId: ${lowerCaseTenantId}`);
         employee = await dbGetEmployeeByUserId(lowerCaseId, lowerCaseTenantId);
         if (!employee) {
           console.warn(`[API GET /employees/${id}] dbGetEmployeeByUserId FAILED: Employee profile not found for user_id ${lowerCaseId} in tenant ${lowerCaseTenantId}.`);
@@ -58,23 +62,20 @@ export async function GET(request: NextRequest, { params }: { params: RouteParam
           console.log(`[API GET /employees/${id}] dbGetEmployeeByUserId SUCCESS: Found employee for user_id ${lowerCaseId}.`);
         }
       } else {
-        // An 'Employee' is trying to access an ID that is NOT their own user_id.
+        // A user without 'employees.view_all' is trying to access an ID that is NOT their own user_id.
         // This should be an unauthorized access.
-        console.warn(`[API GET /employees/${id}] Auth_Failed (Employee Role): Attempt to access profile for ID ${id} which does not match session userId ${currentSessionUserId}.`);
+        console.warn(`[API GET /employees/${id}] Auth_Failed (no 'employees.view_all'): Attempt to access profile for ID ${id} which does not match session userId ${currentSessionUserId}.`);
         return NextResponse.json({ error: 'Unauthorized: You can only view your own employee profile.' }, { status: 403 });
       }
-    } else if (userRole === 'Admin' || userRole === 'Manager') {
-      // Admins/Managers fetch by employee.id (PK). The 'id' from URL is treated as employee_pk_id.
-      console.log(`[API GET /employees/${id}] Admin/Manager role. Calling dbGetEmployeeById with employee_pk_id: ${lowerCaseId}, tenantId: ${lowerCaseTenantId}`);
+    } else {
+      // Users with 'employees.view_all' fetch by employee.id (PK). The 'id' from URL is treated as employee_pk_id.
+      console.log(`[API GET /employees/${id}] 'employees.view_all' granted. Calling dbGetEmployeeById with employee_pk_id: ${lowerCaseId}, tenantId: ${lowerCaseTenantId}`);
       employee = await dbGetEmployeeById(lowerCaseId, lowerCaseTenantId);
       if (!employee) {
         console.warn(`[API GET /employees/${id}] dbGetEmployeeById FAILED: Employee record not found for PK ${lowerCaseId} in tenant ${lowerCaseTenantId}.`);
       } else {
         console.log(`[API GET /employees/${id}] dbGetEmployeeById SUCCESS: Found employee PK ${lowerCaseId}.`);
       }
-    } else {
-      console.error(`[API GET /employees/${id}] Unknown or invalid user role: ${userRole}. Denying access.`);
-      return NextResponse.json({ error: 'Unauthorized due to invalid user role.' }, { status: 403 });
     }
 
     if (!employee) {
@@ -102,6 +103,8 @@ export async function GET(request: NextRequest, { params }: { params: RouteParam
 }
 
 export async function PUT(request: NextRequest, { params }: { params: RouteParams }) {
+  const scopeDenied = await checkApiKeyScope('employees:write');
+  if (scopeDenied) return scopeDenied;
   const { id } = params;
   console.log(`[API PUT /employees/${id}] Received request.`);
 
@@ -117,7 +120,8 @@ export async function PUT(request: NextRequest, { params }: { params: RouteParam
     return NextResponse.json({ error: 'Session retrieval failed.', details: sessionError.message }, { status: 500 });
   }
 
-  const { tenantId, userRole, userId: currentSessionUserId } = session;
+  const { tenantId, userId: currentSessionUserId } = session;
+  const permissions = await getPermissionsFromSession();
 
   try {
     const body = await request.json();
@@ -131,9 +135,9 @@ export async function PUT(request: NextRequest, { params }: { params: RouteParam
       return NextResponse.json({ error: 'Employee not found.' }, { status: 404 });
     }
 
-    if (userRole === 'Employee') {
+    if (!permissions.includes('employees.edit')) {
       if (employeeToUpdate.userId?.toLowerCase() !== currentSessionUserId.toLowerCase()) {
-        console.warn(`[API PUT /employees/${id}] Auth_Failed (Employee Role): Attempt to update employee PK ${id}. Record's user_id (${employeeToUpdate.userId}) != session userId (${currentSessionUserId}).`);
+        console.warn(`[API PUT /employees/${id}] Auth_Failed (no 'employees.edit'): Attempt to update employee PK ${id}. Record's user_id (${employeeToUpdate.userId}) != session userId (${currentSessionUserId}).`);
         return NextResponse.json({ error: 'Unauthorized to update this employee profile.' }, { status: 403 });
       }
       // Employee can only update specific fields
@@ -156,9 +160,9 @@ export async function PUT(request: NextRequest, { params }: { params: RouteParam
           console.log(`[API PUT /employees/${id}] No data submitted for update by employee ${currentSessionUserId}.`);
           return NextResponse.json(employeeToUpdate); // Return current data if nothing to update
       }
-    } else if (userRole !== 'Admin' && userRole !== 'Manager') {
-      console.warn(`[API PUT /employees/${id}] Unauthorized role (${userRole}) attempting update.`);
-      return NextResponse.json({ error: 'Unauthorized to update employee profiles.' }, { status: 403 });
+    } else if (dataToUpdate.role !== undefined && !permissions.includes('employees.assign_roles')) {
+      console.warn(`[API PUT /employees/${id}] User ${currentSessionUserId} without 'employees.assign_roles' attempting to change user role. Ignoring role change.`);
+      delete dataToUpdate.role;
     }
 
     // Validate the data before updating
@@ -197,6 +201,8 @@ export async function PUT(request: NextRequest, { params }: { params: RouteParam
 }
 
 export async function DELETE(request: NextRequest, { params }: { params: RouteParams }) {
+  const scopeDenied = await checkApiKeyScope('employees:write');
+  if (scopeDenied) return scopeDenied;
   const { id } = params;
   console.log(`[API DELETE /employees/${id}] Received request.`);
 
@@ -212,10 +218,10 @@ export async function DELETE(request: NextRequest, { params }: { params: RoutePa
     return NextResponse.json({ error: 'Session retrieval failed.', details: sessionError.message }, { status: 500 });
   }
 
-  const { tenantId, userRole } = session;
+  const { tenantId, userId } = session;
 
-  if (userRole !== 'Admin' && userRole !== 'Manager') {
-    console.warn(`[API DELETE /employees/${id}] Unauthorized role (${userRole}) attempting delete.`);
+  if (!(await getPermissionsFromSession()).includes('employees.delete')) {
+    console.warn(`[API DELETE /employees/${id}] Unauthorized delete attempt by user ${userId} without 'employees.delete'.`);
     return NextResponse.json({ error: 'Unauthorized to delete employees.' }, { status: 403 });
   }
 
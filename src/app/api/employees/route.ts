@@ -1,15 +1,17 @@
 
 // src/app/api/employees/route.ts
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import {
   getAllEmployees as dbGetAllEmployees,
   addEmployeeInternal as dbAddEmployeeInternal, // Corrected import alias
   getEmployeeByUserId as dbGetEmployeeByUserId,
 } from '@/modules/employees/lib/db';
 import { employeeSchema, type EmployeeFormData } from '@/modules/employees/types';
-import { _parseSessionCookie, sendEmployeeWelcomeEmail } from '@/modules/auth/actions'; // Import direct cookie parser and email sender
+import { _parseSessionCookie, hasPermission, sendEmployeeInvitationAction } from '@/modules/auth/actions'; // Import direct cookie parser, permission check and invitation sender
 import { addUser as dbAddUser } from '@/modules/auth/lib/db'; // DB function to add user
-import { generateTemporaryPassword } from '@/modules/auth/lib/utils';
+import { generateSecureToken } from '@/modules/auth/lib/utils';
+import { getPlanLimitError } from '@/modules/subscriptions/lib/entitlements';
 import bcrypt from 'bcrypt';
 import type { SessionData, User } from '@/modules/auth/types';
 
@@ -24,6 +26,8 @@ async function getSession(request: NextRequest): Promise<SessionData | null> {
 
 
 export async function GET(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('employees:read');
+  if (scopeDenied) return scopeDenied;
   console.log(`[API GET /employees] Fetching employees...`);
   try {
     const session = await getSession(request); // Correctly await here
@@ -31,15 +35,15 @@ export async function GET(request: NextRequest) {
       console.error(`[API GET /employees] Unauthorized: Missing session data.`);
       return NextResponse.json({ error: "Unauthorized or missing session context." }, { status: 401 });
     }
-    const { tenantId, userRole, userId } = session;
+    const { tenantId, userId } = session;
 
     let employees;
-    if (userRole === 'Employee') {
-      console.log(`[API GET /employees] Employee role, fetching own profile for user ${userId}.`);
+    if (!(await hasPermission('employees.view_all'))) {
+      console.log(`[API GET /employees] No 'employees.view_all' permission, fetching own profile for user ${userId}.`);
       const employeeProfile = await dbGetEmployeeByUserId(userId.toLowerCase(), tenantId.toLowerCase());
       employees = employeeProfile ? [employeeProfile] : [];
     } else {
-      console.log(`[API GET /employees] Admin/Manager role, fetching all employees for tenant ${tenantId}.`);
+      console.log(`[API GET /employees] 'employees.view_all' granted, fetching all employees for tenant ${tenantId}.`);
       employees = await dbGetAllEmployees(tenantId.toLowerCase());
     }
     console.log(`[API GET /employees] Fetched ${employees.length} employees.`);
@@ -64,6 +68,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('employees:write');
+  if (scopeDenied) return scopeDenied;
   console.log(`[API POST /employees] Adding employee...`);
   try {
     const session = await getSession(request); // Correctly await here
@@ -71,10 +77,10 @@ export async function POST(request: NextRequest) {
       console.error(`[API POST /employees] Unauthorized: Missing session data for add.`);
       return NextResponse.json({ error: "Unauthorized or missing session context for add operation." }, { status: 401 });
     }
-    const { tenantId, userRole, tenantDomain } = session;
+    const { tenantId, userId, tenantDomain } = session;
 
-    if (userRole !== 'Admin' && userRole !== 'Manager') {
-      console.warn(`[API POST /employees] Unauthorized attempt by role ${userRole}.`);
+    if (!(await hasPermission('employees.create'))) {
+      console.warn(`[API POST /employees] Unauthorized attempt by user ${userId} without 'employees.create'.`);
       return NextResponse.json({ error: 'Unauthorized to add employees.' }, { status: 403 });
     }
 
@@ -88,16 +94,21 @@ export async function POST(request: NextRequest) {
 
     const { name, email, role: employeeRoleToSet, ...employeeDetails } = validation.data;
 
+    const planLimitError = await getPlanLimitError(tenantId, employeeDetails.status === 'Inactive' ? ['users'] : ['users', 'employees']);
+    if (planLimitError) {
+      return NextResponse.json({ error: planLimitError, details: [{ path: ['root'], message: planLimitError }] }, { status: 403 });
+    }
+
     // Ensure role is correctly determined
     let actualRoleToSet: User['role'] = 'Employee'; // Default
-    if (userRole === 'Admin' && employeeRoleToSet) { // Admins can set roles
+    if (employeeRoleToSet && await hasPermission('employees.assign_roles')) { // Role administrators can set roles
         actualRoleToSet = employeeRoleToSet;
     }
-    // Managers can only create 'Employee' role users (already defaulted if not Admin)
+    // Everyone else can only create 'Employee' role users (already defaulted)
 
     // Create user account
-    const temporaryPassword = generateTemporaryPassword(12);
-    const passwordHash = await bcrypt.hash(temporaryPassword, SALT_ROUNDS);
+    // Unusable placeholder: the employee chooses their password when accepting the emailed invitation
+    const passwordHash = await bcrypt.hash(generateSecureToken(32), SALT_ROUNDS);
     let newUser: User;
     try {
       newUser = await dbAddUser({
@@ -133,16 +144,10 @@ export async function POST(request: NextRequest) {
     });
     console.log(`[API POST /employees] Employee record added: ${newEmployee.id}, EmployeeID: ${newEmployee.employeeId}`);
 
-    // Send welcome email
-    sendEmployeeWelcomeEmail(
-      tenantId,
-      newEmployee.name,
-      newEmployee.email,
-      newUser.id, // Pass user's UUID
-      newEmployee.employeeId!, // Pass official employee_id (EMP-XXX)
-      temporaryPassword,
-      tenantDomain
-    ).catch(emailError => console.error(`[API POST /employees] Non-blocking error sending welcome email:`, emailError));
+    // Send the account invitation
+    sendEmployeeInvitationAction(newUser.id)
+      .then(result => { if (!result.success || !result.emailSent) console.error(`[API POST /employees] Invitation for ${newEmployee.email} was not sent: ${result.error || 'email delivery failed'}`); })
+      .catch(emailError => console.error(`[API POST /employees] Non-blocking error sending invitation:`, emailError));
 
     return NextResponse.json(newEmployee, { status: 201 });
 
@@ -1,10 +1,12 @@
 import { genkit } from "genkit";
 import { googleAI } from "@genkit-ai/googleai";
 import { NextRequest } from "next/server";
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import { defineFlow, ai } from "genkit"; // Use ai from instance
 import { z } from 'zod';
 import { handleRequest } from "@genkit-ai/next";
 import { ParseResumeInputSchema, ParseResumeOutputSchema } from '@/modules/ai/flows/smart-resume-parser';
+import { requirePermission } from '@/modules/auth/actions';
 
 // Import ai instance - Ensure this initializes Genkit correctly
 import '@/modules/ai/lib/ai-instance';
@@ -47,7 +49,15 @@ export { parseResumeFlow };
 
 // Define the POST handler using handleRequest
 export async function POST(req: NextRequest) {
+    const scopeDenied = await checkApiKeyScope('ai:use');
+    if (scopeDenied) return scopeDenied;
     console.log(`Handling POST request for: ${req.nextUrl.pathname}`); // Log incoming request path
+    try {
+        await requirePermission('ai.resume_parser');
+    } catch (authError: any) {
+        const status = authError.message?.startsWith('Forbidden') ? 403 : 401;
+        return new Response(JSON.stringify({ error: authError.message }), { status, headers: { 'Content-Type': 'application/json' } });
+    }
     const result = await handleRequest({ req });
     if (!result) {
         console.error(`No result from handleRequest for: ${req.nextUrl.pathname}`);
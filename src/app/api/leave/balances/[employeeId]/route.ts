@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getEmployeeLeaveBalances } from '@/modules/leave/actions';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
+import { getEmployeeLeaveBalancesAction } from '@/modules/leave/actions';
 
 interface Params {
   params: { employeeId: string };
 }
 
 export async function GET(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('leave:read');
+  if (scopeDenied) return scopeDenied;
   try {
-    // TODO: Add authorization - check if the requesting user can view this employee's balances
-    const balances = await getEmployeeLeaveBalances(params.employeeId); // Call server action
+    // Own balances, or any employee's with 'leave.view_all' (checked by the action)
+    const balances = await getEmployeeLeaveBalancesAction(params.employeeId);
 
     // The action now likely returns an array, might not return undefined if employee exists but has 0 balances
     // Check if balances array is empty if necessary, but usually return empty array is fine.
@@ -19,7 +22,10 @@ export async function GET(request: NextRequest, { params }: Params) {
     return NextResponse.json(balances);
   } catch (error: any) {
     console.error(`Error fetching leave balances for employee ${params.employeeId} (API):`, error);
-    // Handle potential specific errors from the action if needed
+    if (error.message?.startsWith('Forbidden') || error.message?.startsWith('Unauthorized')) {
+      const status = error.message.startsWith('Forbidden') ? 403 : 401;
+      return NextResponse.json({ error: error.message }, { status });
+    }
     return NextResponse.json({ error: error.message || 'Failed to fetch leave balances' }, { status: 500 });
   }
 }
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import { cancelLeaveRequest } from '@/modules/leave/actions';
 
 interface Params {
@@ -6,6 +7,8 @@ interface Params {
 }
 
 export async function PATCH(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('leave:write');
+  if (scopeDenied) return scopeDenied;
   try {
      // TODO: Get userId from authentication context/session on the SERVER
      const mockUserId = 'emp-001'; // Replace with actual logged-in user ID
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import { updateLeaveRequestStatus } from '@/modules/leave/actions';
 import { z } from 'zod';
 import type { LeaveRequestStatus } from '@/modules/leave/types';
@@ -14,6 +15,8 @@ const updateStatusSchema = z.object({
 });
 
 export async function PATCH(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('leave:write');
+  if (scopeDenied) return scopeDenied;
   try {
     const body = await request.json();
     const validation = updateStatusSchema.safeParse(body);
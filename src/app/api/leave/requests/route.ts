@@ -1,32 +1,22 @@
-
 import { NextRequest, NextResponse } from 'next/server';
-// Import DB function directly for GET and POST
-import { addLeaveRequest as dbAddLeaveRequest, getAllLeaveRequests as dbGetAllLeaveRequests } from '@/modules/leave/lib/db';
-import { refinedLeaveRequestSchema, type LeaveRequestFormData, type LeaveRequestStatus } from '@/modules/leave/types'; // Use refined schema
-// Import session helpers directly
-import { getTenantIdFromSession, getUserIdFromSession } from '@/modules/auth/actions';
-import { z } from 'zod';
-import { revalidatePath } from 'next/cache';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
+// The actions check 'leave.view_all' (or that the caller only reads or submits their own requests)
+import { addLeaveRequestAction, getLeaveRequestsAction } from '@/modules/leave/actions';
+import type { LeaveRequestStatus } from '@/modules/leave/types';
 
+// GET /api/leave/requests?employeeId=&status=  (employeeId is the employee's user ID)
 export async function GET(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('leave:read');
+  if (scopeDenied) return scopeDenied;
   try {
     console.log(`GET /api/leave/requests - API route invoked...`);
 
-    // 1. Get Tenant ID from session within API route context
-    const tenantId = await getTenantIdFromSession();
-    if (!tenantId) {
-        console.error(`[API GET /api/leave/requests] Unauthorized: Tenant ID missing from session.`);
-        return NextResponse.json({ error: "Unauthorized or tenant context missing." }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const employeeId = searchParams.get('employeeId') || undefined;
     const status = searchParams.get('status') as LeaveRequestStatus || undefined;
 
-    console.log(`[API GET /api/leave/requests] Calling dbGetAllLeaveRequests for tenant ${tenantId}, filters:`, { employeeId, status });
-    // 2. Call DB function directly with resolved tenantId and filters
-    const requests = await dbGetAllLeaveRequests(tenantId, { employeeId, status });
-    console.log(`[API GET /api/leave/requests] DB call successful, fetched ${requests.length} requests.`);
+    const requests = await getLeaveRequestsAction({ employeeId, status });
+    console.log(`[API GET /api/leave/requests] Fetched ${requests.length} requests.`);
     return NextResponse.json(requests);
 
   } catch (error: any) {
@@ -34,7 +24,10 @@ export async function GET(request: NextRequest) {
     let message = 'Failed to fetch leave requests';
     let status = 500;
 
-    if (error.message?.includes('Tenant context not found') || error.message?.includes('Unauthorized')) {
+    if (error.message?.startsWith('Unauthorized:')) {
+        message = error.message;
+        status = 403;
+    } else if (error.message?.includes('Tenant context not found')) {
         message = 'Unauthorized or tenant context missing.';
         status = 401;
     } else if (error.message?.includes('invalid input syntax for type uuid') || error.message?.includes('Invalid identifier')) {
@@ -48,67 +41,29 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+   const scopeDenied = await checkApiKeyScope('leave:write');
+   if (scopeDenied) return scopeDenied;
    try {
      console.log(`POST /api/leave/requests - API route invoked...`);
-     const body = await request.json();
+     const body = await request.json(); // leaveTypeId, startDate, endDate, reason, attachmentUrl
 
-     // 1. Get Tenant and User ID from session within API route context
-     const tenantId = await getTenantIdFromSession();
-     if (!tenantId) {
-         console.error(`[API POST /api/leave/requests] Unauthorized: Tenant ID missing.`);
-         return NextResponse.json({ error: "Tenant context not found.", details: [{path: ['tenantId'], message: "Tenant context not found."}] }, { status: 401 });
+     // Submits for the signed-in employee; tenantId and employeeId come from the session, never the body
+     const result = await addLeaveRequestAction(body);
+     if (result.success && result.request) {
+       return NextResponse.json(result.request, { status: 201 });
      }
-     const employeeId = await getUserIdFromSession();
-     if (!employeeId) {
-         console.error(`[API POST /api/leave/requests] Unauthorized: User ID missing.`);
-         return NextResponse.json({ error: "User identification failed.", details: [{path: ['employeeId'], message: "User identification failed."}] }, { status: 401 });
-     }
-
-     // 2. Prepare data for validation (includes tenantId and employeeId from session)
-     const dataWithContext = {
-         ...body, // Contains leaveTypeId, startDate, endDate, reason, attachmentUrl
-         tenantId: tenantId,
-         employeeId: employeeId,
-     };
 
-     // 3. Validate against the refined schema which includes tenantId and employeeId
-     const validation = refinedLeaveRequestSchema.safeParse(dataWithContext);
-     if (!validation.success) {
-        console.error("[API POST /api/leave/requests] Validation Error:", validation.error.flatten());
-        return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten().fieldErrors }, { status: 400 });
-    }
-
-     console.log(`[API POST /api/leave/requests] Calling dbAddLeaveRequest with validated data for tenant ${tenantId}, employee ${employeeId}.`);
-     // 4. Call DB function directly
-     const newRequest = await dbAddLeaveRequest(validation.data);
-
-     console.log(`[API POST /api/leave/requests] DB call successful. Revalidating paths...`);
-     // 5. Revalidate paths
-     revalidatePath(`/${tenantId}/leave`);
-     revalidatePath(`/api/leave/balances/${employeeId}`); // Revalidate balance endpoint for the user
-
-     return NextResponse.json(newRequest, { status: 201 });
+     const message = result.errors?.[0]?.message || 'Failed to submit leave request.';
+     const status = message === 'Tenant context not found.' || message === 'Could not identify employee.' ? 401 : 400;
+     console.error("[API POST /api/leave/requests] Action Error:", result.errors);
+     return NextResponse.json({ error: message, details: result.errors }, { status });
 
    } catch (error: any) {
      console.error(`Error in POST /api/leave/requests (API):`, error);
-     let message = 'Internal server error';
-     let status = 500;
-
      if (error instanceof SyntaxError) {
-        message = 'Invalid JSON payload';
-        status = 400;
-     } else if (error.message?.includes('Insufficient leave balance')) {
-         message = error.message;
-         status = 400;
-     } else if (error.message?.includes('Tenant context not found') || error.message?.includes('User identification failed')) {
-         message = 'Unauthorized or missing context.';
-         status = 401;
-     } else if (error.message?.includes('Invalid tenant identifier') || error.message?.includes('Invalid employee identifier') || error.message?.includes('Invalid leave type identifier')) {
-         message = 'Internal server error: Invalid identifier used.';
-         status = 500;
-     } else {
-         message = error.message || message;
+        return NextResponse.json({ error: 'Invalid JSON payload', details: [{path: ['root'], message: 'Invalid JSON payload'}] }, { status: 400 });
      }
-     return NextResponse.json({ error: message, details: [{path: ['root'], message: message}] }, { status: status });
+     const message = error.message || 'Internal server error';
+     return NextResponse.json({ error: message, details: [{path: ['root'], message: message}] }, { status: 500 });
    }
 }
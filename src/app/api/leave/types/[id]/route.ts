@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import { updateLeaveTypeAction, deleteLeaveTypeAction } from '@/modules/leave/actions';
 import { z } from 'zod'; // For potential validation of request body if needed
 
@@ -17,6 +18,8 @@ const updateLeaveTypeSchema = z.object({
 
 
 export async function PUT(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('leave:write');
+  if (scopeDenied) return scopeDenied;
   try {
     const body = await request.json();
      const validation = updateLeaveTypeSchema.safeParse(body); // Validate input
@@ -47,6 +50,8 @@ export async function PUT(request: NextRequest, { params }: Params) {
 }
 
 export async function DELETE(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('leave:write');
+  if (scopeDenied) return scopeDenied;
   try {
     // Call server action
     const result = await deleteLeaveTypeAction(params.id);
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import { getLeaveTypes, addLeaveTypeAction } from '@/modules/leave/actions';
 import { z } from 'zod'; // For potential validation of request body if needed
 
@@ -13,6 +14,8 @@ const addLeaveTypeSchema = z.object({
 
 
 export async function GET(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('leave:read');
+  if (scopeDenied) return scopeDenied;
   try {
     const types = await getLeaveTypes(); // Call server action
     return NextResponse.json(types);
@@ -23,6 +26,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('leave:write');
+  if (scopeDenied) return scopeDenied;
   try {
     const body = await request.json();
     const validation = addLeaveTypeSchema.safeParse(body); // Validate input
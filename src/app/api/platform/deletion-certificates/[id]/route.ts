@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePlatformAdmin } from '@/modules/platform/lib/session';
+import { getDeletionCertificate } from '@/modules/tenants/lib/offboarding';
+import { withSystemScope } from '@/lib/tenant-context';
+
+interface RouteParams {
+  id: string;
+}
+
+// GET /api/platform/deletion-certificates/:id  (downloads a tenant deletion certificate as JSON; platform admins only)
+export async function GET(request: NextRequest, { params }: { params: Promise<RouteParams> }) {
+  const { id } = await params;
+  let session;
+  try {
+    session = await requirePlatformAdmin();
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized to view deletion certificates.' }, { status: 401 });
+  }
+
+  try {
+    const certificate = await withSystemScope(`platform console (${session.username})`, () => getDeletionCertificate(id));
+    if (!certificate) {
+      return NextResponse.json({ error: 'Certificate not found.' }, { status: 404 });
+    }
+    return new NextResponse(JSON.stringify(certificate, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="deletion-certificate-${certificate.subdomain}-${certificate.id}.json"`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error: any) {
+    console.error(`[API GET /platform/deletion-certificates/${id}] Error:`, error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import {
   getCandidateById,
   updateCandidateAction,
@@ -11,6 +12,8 @@ interface Params {
 }
 
 export async function GET(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('recruitment:read');
+  if (scopeDenied) return scopeDenied;
   try {
     const candidate = await getCandidateById(params.id); // Call server action
     if (!candidate) {
@@ -24,6 +27,8 @@ export async function GET(request: NextRequest, { params }: Params) {
 }
 
 export async function PUT(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('recruitment:write');
+  if (scopeDenied) return scopeDenied;
   try {
     const body = await request.json();
     // Validate partial updates in API route
@@ -66,6 +71,8 @@ export async function PUT(request: NextRequest, { params }: Params) {
 }
 
 export async function DELETE(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('recruitment:write');
+  if (scopeDenied) return scopeDenied;
   try {
     // Call server action
     const result = await deleteCandidateAction(params.id);
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import { getCandidates, addCandidateAction } from '@/modules/recruitment/actions';
 import { candidateSchema } from '@/modules/recruitment/types';
 import type { CandidateStatus } from '@/modules/recruitment/types';
 
 export async function GET(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('recruitment:read');
+  if (scopeDenied) return scopeDenied;
   const { searchParams } = new URL(request.url);
   const jobPostingId = searchParams.get('jobPostingId') || undefined;
   const status = searchParams.get('status') as CandidateStatus | undefined;
@@ -19,6 +22,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('recruitment:write');
+  if (scopeDenied) return scopeDenied;
   try {
     const body = await request.json();
     // Validate in API route
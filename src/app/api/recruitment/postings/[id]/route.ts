@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 import { getJobPostingById, updateJobPostingAction, deleteJobPostingAction } from '@/modules/recruitment/actions';
 import { jobPostingSchema } from '@/modules/recruitment/types';
 
@@ -7,6 +8,8 @@ interface Params {
 }
 
 export async function GET(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('recruitment:read');
+  if (scopeDenied) return scopeDenied;
   try {
     const posting = await getJobPostingById(params.id); // Call server action
     if (!posting) {
@@ -20,6 +23,8 @@ export async function GET(request: NextRequest, { params }: Params) {
 }
 
 export async function PUT(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('recruitment:write');
+  if (scopeDenied) return scopeDenied;
   try {
     const body = await request.json();
     // Validate against the partial schema in API route
@@ -52,6 +57,8 @@ export async function PUT(request: NextRequest, { params }: Params) {
 }
 
 export async function DELETE(request: NextRequest, { params }: Params) {
+  const scopeDenied = await checkApiKeyScope('recruitment:write');
+  if (scopeDenied) return scopeDenied;
   try {
     // Call server action
     const result = await deleteJobPostingAction(params.id);
@@ -1,10 +1,13 @@
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKeyScope } from '@/modules/api-keys/lib/route-guard';
 // Import server actions
 import { getJobOpenings, addJobOpeningAction } from '@/modules/recruitment/actions'; // Corrected imports
 import { jobOpeningSchema, type JobOpeningFormData, type JobOpeningStatus } from '@/modules/recruitment/types'; // Corrected type imports
 
 export async function GET(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('recruitment:read');
+  if (scopeDenied) return scopeDenied;
   try {
     console.log(`GET /api/recruitment/postings - Fetching...`); // Log path as API defined
 
@@ -33,6 +36,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const scopeDenied = await checkApiKeyScope('recruitment:write');
+  if (scopeDenied) return scopeDenied;
   try {
     console.log(`POST /api/recruitment/postings - Adding...`); // Log path as API defined
 
@@ -0,0 +1,28 @@
+// src/app/api/scim/v2/Groups/[id]/route.ts
+import type { NextRequest } from 'next/server';
+import { handleScimRequest, readScimBody } from '@/modules/scim/lib/http';
+import { getScimGroup, replaceScimGroup, patchScimGroup, deleteScimGroup } from '@/modules/scim/lib/service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return handleScimRequest(request, context => getScimGroup(context, id, request.nextUrl.searchParams));
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return handleScimRequest(request, async context => replaceScimGroup(context, id, await readScimBody(request)));
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return handleScimRequest(request, async context => patchScimGroup(context, id, await readScimBody(request), request.nextUrl.searchParams));
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return handleScimRequest(request, context => deleteScimGroup(context, id));
+}
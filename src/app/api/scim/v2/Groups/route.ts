@@ -0,0 +1,12 @@
+// src/app/api/scim/v2/Groups/route.ts
+import type { NextRequest } from 'next/server';
+import { handleScimRequest, readScimBody } from '@/modules/scim/lib/http';
+import { listScimGroups, createScimGroup } from '@/modules/scim/lib/service';
+
+export async function GET(request: NextRequest) {
+  return handleScimRequest(request, context => listScimGroups(context, request.nextUrl.searchParams));
+}
+
+export async function POST(request: NextRequest) {
+  return handleScimRequest(request, async context => createScimGroup(context, await readScimBody(request)), { created: true });
+}
@@ -0,0 +1,23 @@
+// src/app/api/scim/v2/ServiceProviderConfig/route.ts
+import type { NextRequest } from 'next/server';
+import { handleScimRequest } from '@/modules/scim/lib/http';
+import { SCIM_MAX_RESULTS, SCIM_SCHEMA_SERVICE_PROVIDER_CONFIG } from '@/modules/scim/types';
+
+export async function GET(request: NextRequest) {
+  return handleScimRequest(request, async context => ({
+    schemas: [SCIM_SCHEMA_SERVICE_PROVIDER_CONFIG],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: SCIM_MAX_RESULTS },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [{
+      type: 'oauthbearertoken',
+      name: 'Bearer token',
+      description: 'Tenant SCIM token generated under Settings > SCIM Provisioning.',
+      primary: true,
+    }],
+    meta: { resourceType: 'ServiceProviderConfig', location: `${context.baseUrl}/ServiceProviderConfig` },
+  }));
+}
@@ -0,0 +1,29 @@
+// src/app/api/scim/v2/Users/[id]/route.ts
+import type { NextRequest } from 'next/server';
+import { handleScimRequest, readScimBody } from '@/modules/scim/lib/http';
+import { getScimUser, replaceScimUser, patchScimUser, deactivateScimUser } from '@/modules/scim/lib/service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return handleScimRequest(request, context => getScimUser(context, id));
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return handleScimRequest(request, async context => replaceScimUser(context, id, await readScimBody(request)));
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return handleScimRequest(request, async context => patchScimUser(context, id, await readScimBody(request)));
+}
+
+// Soft-deactivates the user (account disabled, employee status Inactive); nothing is deleted.
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return handleScimRequest(request, context => deactivateScimUser(context, id));
+}
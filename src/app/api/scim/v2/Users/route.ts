@@ -0,0 +1,12 @@
+// src/app/api/scim/v2/Users/route.ts
+import type { NextRequest } from 'next/server';
+import { handleScimRequest, readScimBody } from '@/modules/scim/lib/http';
+import { listScimUsers, createScimUser } from '@/modules/scim/lib/service';
+
+export async function GET(request: NextRequest) {
+  return handleScimRequest(request, context => listScimUsers(context, request.nextUrl.searchParams));
+}
+
+export async function POST(request: NextRequest) {
+  return handleScimRequest(request, async context => createScimUser(context, await readScimBody(request)), { created: true });
+}
@@ -1,30 +1,66 @@
-
 import type { Metadata } from 'next';
+import { headers } from 'next/headers';
 import '../globals.css'; // Reuse global styles
 import { Toaster } from '@/components/ui/toaster'; // Might be useful for potential future interactions
+import { getTenantByDomain } from '@/modules/auth/lib/db';
+import { getTenantBranding } from '@/modules/tenants/lib/branding';
+import { brandingThemeCss } from '@/modules/tenants/lib/branding-theme';
+import { brandingAssetPath } from '@/modules/tenants/types';
+import { resolveTenantSubdomainForHost } from '@/lib/tenant-context';
 
-// Basic metadata for the public page
-export const metadata: Metadata = {
-  title: 'Careers - SyntaxHive Hrm', // Adjust title as needed
-  description: 'View open positions and apply to join our team.',
-};
+// On a company's subdomain or custom domain the careers pages carry its name, logo and colors.
+// On the root domain (or if the branding cannot be loaded) they keep the SyntaxHive look.
+async function getCareersBranding() {
+  try {
+    const host = (await headers()).get('host');
+    const { subdomain } = host ? await resolveTenantSubdomainForHost(host) : { subdomain: null };
+    const tenant = subdomain ? await getTenantByDomain(subdomain) : undefined;
+    if (!tenant || tenant.status !== 'ACTIVE') return null;
+    const branding = await getTenantBranding(tenant.tenant_id);
+    return {
+      companyName: tenant.name,
+      logoUrl: branding.logo ? brandingAssetPath(tenant.subdomain, branding.logo) : null,
+      faviconUrl: branding.favicon ? brandingAssetPath(tenant.subdomain, branding.favicon) : null,
+      themeCss: brandingThemeCss(branding, ':root'),
+    };
+  } catch (error) {
+    console.error('[Careers Layout] Error loading company branding:', error);
+    return null;
+  }
+}
 
-export default function PublicJobBoardLayout({
+export async function generateMetadata(): Promise<Metadata> {
+  const branding = await getCareersBranding();
+  return {
+    title: `Careers - ${branding?.companyName || 'SyntaxHive Hrm'}`,
+    description: 'View open positions and apply to join our team.',
+    ...(branding?.faviconUrl ? { icons: { icon: branding.faviconUrl } } : {}),
+  };
+}
+
+export default async function PublicJobBoardLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const branding = await getCareersBranding();
+  const companyName = branding?.companyName || 'SyntaxHive Hrm';
+
   return (
     <html lang="en" suppressHydrationWarning>
       <body className="antialiased">
+           {branding?.themeCss && <style>{branding.themeCss}</style>}
            {/* Simple Header */}
             <header className="border-b sticky top-0 bg-card z-10">
                 {/* Responsive container */}
                 <nav className="container mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
-                     <a href="/" className="flex items-center gap-2 font-semibold text-lg text-primary">
-                         {/* Re-use placeholder logo or add company logo */}
-                         <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-6 w-6"><path d="M12 3v18M3 12h18"/></svg>
-                         <span className="">SyntaxHive Hrm Careers</span> {/* Or Company Name */}
+                     <a href="/jobs" className="flex items-center gap-2 font-semibold text-lg text-primary">
+                         {branding?.logoUrl ? (
+                           <img src={branding.logoUrl} alt={companyName} className="h-8 max-w-[12rem] object-contain" />
+                         ) : (
+                           <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-6 w-6"><path d="M12 3v18M3 12h18"/></svg>
+                         )}
+                         <span className="">{companyName} Careers</span>
                      </a>
                      {/* Optional: Add link back to main company site */}
                      {/* <a href="https://yourcompany.com" target="_blank" rel="noopener noreferrer" className="text-sm text-primary hover:underline hidden sm:block">Company Site</a> */}
@@ -38,7 +74,7 @@ export default function PublicJobBoardLayout({
 
             {/* Simple Footer */}
             <footer className="border-t mt-12 py-6 text-center text-sm text-muted-foreground">
-                © {new Date().getFullYear()} SyntaxHive Hrm. All rights reserved. {/* Adjust company name */}
+                © {new Date().getFullYear()} {companyName}. All rights reserved.
             </footer>
 
             <Toaster />
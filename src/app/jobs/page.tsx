@@ -162,7 +162,7 @@ export default function PublicJobBoardPage() {
     <div className="flex flex-col gap-8">
       <div className="text-center">
          <h1 className="text-3xl font-bold tracking-tight md:text-4xl">Join Our Team</h1>
-         <p className="mt-2 text-lg text-muted-foreground">Explore exciting career opportunities at SyntaxHive Hrm.</p>
+         <p className="mt-2 text-lg text-muted-foreground">Explore our open positions and find your next role with us.</p>
       </div>
 
       {/* Job Listings Section */}
@@ -0,0 +1,15 @@
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Platform Console - SyntaxHive Hrm',
+  description: 'Operator console for all companies on the platform.',
+};
+
+// Root-domain console for platform operators; it has no tenant sidebar.
+export default function PlatformLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <div className="min-h-screen w-full bg-background">{children}</div>;
+}
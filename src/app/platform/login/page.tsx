@@ -0,0 +1,16 @@
+// src/app/platform/login/page.tsx
+import { redirect } from 'next/navigation';
+import { getPlatformSession } from '@/modules/platform/lib/session';
+import { PlatformLoginForm } from '@/modules/platform/components/platform-login-form';
+
+export default async function PlatformLoginPage() {
+  if (await getPlatformSession()) {
+    redirect('/platform');
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-4">
+      <PlatformLoginForm />
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+// src/app/platform/page.tsx
+import { redirect } from 'next/navigation';
+import { AlertTriangle, LogOut, ShieldCheck } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { getPlatformSession } from '@/modules/platform/lib/session';
+import { getDeletionCertificatesAction, getPlatformHealthAction, getPlatformTenantsAction, platformLogoutAction } from '@/modules/platform/actions';
+import { PlatformHealth } from '@/modules/platform/components/platform-health';
+import { TenantDirectory } from '@/modules/platform/components/tenant-directory';
+import { DeletionCertificates } from '@/modules/platform/components/deletion-certificates';
+import { getTenantDeletionGraceDays } from '@/modules/tenants/lib/offboarding';
+
+export const dynamic = 'force-dynamic';
+
+export default async function PlatformConsolePage() {
+  const session = await getPlatformSession();
+  if (!session) {
+    redirect('/platform/login');
+  }
+
+  const [healthResult, tenantsResult, certificatesResult] = await Promise.all([
+    getPlatformHealthAction(),
+    getPlatformTenantsAction(),
+    getDeletionCertificatesAction(),
+  ]);
+
+  return (
+    <div className="container mx-auto flex flex-col gap-6 px-4 py-8 sm:px-6 lg:px-8">
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold tracking-tight md:text-3xl flex items-center gap-2">
+          <ShieldCheck className="h-6 w-6" /> Platform Console
+        </h1>
+        <form action={platformLogoutAction} className="flex items-center gap-3 text-sm text-muted-foreground">
+          <span>Signed in as {session.admin.name || session.username}</span>
+          <Button type="submit" variant="outline" size="sm"><LogOut className="mr-2 h-4 w-4" /> Sign Out</Button>
+        </form>
+      </div>
+      {!healthResult.success ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Health Check Failed</AlertTitle>
+          <AlertDescription>{healthResult.error}</AlertDescription>
+        </Alert>
+      ) : (
+        <PlatformHealth health={healthResult.health!} />
+      )}
+      {!tenantsResult.success ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Companies</AlertTitle>
+          <AlertDescription>{tenantsResult.error}</AlertDescription>
+        </Alert>
+      ) : (
+        <TenantDirectory tenants={tenantsResult.tenants || []} plans={tenantsResult.plans || []} deletionGraceDays={getTenantDeletionGraceDays()} />
+      )}
+      {!certificatesResult.success ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Deletion Certificates</AlertTitle>
+          <AlertDescription>{certificatesResult.error}</AlertDescription>
+        </Alert>
+      ) : (
+        <DeletionCertificates certificates={certificatesResult.certificates || []} />
+      )}
+    </div>
+  );
+}
@@ -64,7 +64,10 @@ function mapRowToUser(row: any): User {
         last_login: row.last_login ? new Date(row.last_login).toISOString() : undefined,
         failed_attempts: row.failed_attempts,
         account_locked: row.account_locked,
+        locked_until: row.locked_until ? new Date(row.locked_until).toISOString() : null,
         password_changed_at: row.password_changed_at ? new Date(row.password_changed_at).toISOString() : undefined,
+        must_change_password: row.must_change_password ?? false,
+        terms_accepted_at: row.terms_accepted_at ? new Date(row.terms_accepted_at).toISOString() : null,
         created_at: new Date(row.created_at).toISOString(),
         updated_at: row.updated_at ? new Date(row.updated_at).toISOString() : undefined,
     };
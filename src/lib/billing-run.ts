@@ -0,0 +1,32 @@
+// src/lib/billing-run.ts
+// Scheduled billing job: issues the invoices of every billing period that has started, collects payment and
+// marks unpaid invoices past their due date overdue. Safe to repeat; run it daily, e.g. from cron.
+//
+//   npm run billing:run
+import dotenv from 'dotenv';
+import pool from './db';
+import { withSystemScope } from './tenant-context';
+import { runBillingCycle } from '@/modules/subscriptions/lib/billing';
+
+dotenv.config(); // Ensure .env variables are loaded
+
+async function main() {
+  try {
+    const result = await withSystemScope('billing run', () => runBillingCycle());
+    console.log(`Billing run complete: ${result.invoiced.length} invoice(s) issued, ${result.overdue.length} newly overdue.`);
+    if (result.failedSubscriptions.length > 0) {
+      console.error(`Billing failed for ${result.failedSubscriptions.length} subscription(s): ${result.failedSubscriptions.join(', ')}`);
+      process.exitCode = 1;
+    }
+  } catch (error: any) {
+    console.error('Billing run failed:', error.message || error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end(); // Close the pool after script execution
+  }
+}
+
+// Execute only if run directly from Node.js (e.g., `tsx src/lib/billing-run.ts`)
+if (require.main === module) {
+  main();
+}
@@ -1,6 +1,7 @@
 
 import dotenv from 'dotenv';
-import { Pool } from 'pg';
+import { Pool, type PoolClient } from 'pg';
+import { resolveCurrentTenantScope, setCustomDomainLookup } from './tenant-context';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -23,6 +24,68 @@ if (missingEnvVars.length > 0) {
   throw new Error(errorMessage);
 }
 
+/**
+ * Pool that tags every checked-out connection with the current tenant scope (see tenant-context.ts),
+ * so the row-level security policies only expose that tenant's rows.
+ * The scope is resolved before checkout: a client handed over by another request's release keeps the caller's tenant.
+ */
+class TenantScopedPool extends Pool {
+  connect(): Promise<PoolClient>;
+  connect(callback: (err: Error | undefined, client: PoolClient | undefined, done: (release?: any) => void) => void): void;
+  connect(callback?: (err: Error | undefined, client: PoolClient | undefined, done: (release?: any) => void) => void): Promise<PoolClient> | void {
+    const scopedClient = this.connectWithTenantScope();
+    if (!callback) return scopedClient;
+    // pool.query() checks out through the callback form
+    scopedClient.then(
+      client => callback(undefined, client, (release?: any) => client.release(release)),
+      err => callback(err, undefined, () => {})
+    );
+  }
+
+  private async connectWithTenantScope(): Promise<PoolClient> {
+    const scope = await resolveCurrentTenantScope(subdomain => this.lookupTenantId(subdomain));
+    const client = await super.connect();
+    try {
+      await client.query(
+        `SELECT set_config('app.tenant_id', $1, false), set_config('app.rls_bypass', $2, false)`,
+        [scope.tenantId ?? '', scope.bypass ? 'on' : 'off']
+      );
+    } catch (err: any) {
+      client.release(err);
+      throw err;
+    }
+    return client;
+  }
+
+  private async lookupTenantId(subdomain: string): Promise<string | null> {
+    const client = await super.connect();
+    try {
+      const res = await client.query('SELECT tenant_id FROM tenants WHERE subdomain = $1', [subdomain]);
+      return res.rows[0]?.tenant_id ?? null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Subdomain of the tenant that verified `domain` (see setCustomDomainLookup). */
+  async lookupCustomDomain(domain: string): Promise<string | null> {
+    const client = await super.connect();
+    try {
+      const res = await client.query(
+        `SELECT t.subdomain FROM tenant_custom_domains d JOIN tenants t ON t.tenant_id = d.tenant_id
+         WHERE d.domain = $1 AND d.status = 'VERIFIED'`,
+        [domain]
+      );
+      return res.rows[0]?.subdomain ?? null;
+    } catch (err: any) {
+      if (err.code === '42P01') return null; // Before the custom domains migration has run
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+}
+
 let pool: Pool;
 
 try {
@@ -30,7 +93,7 @@ try {
   const dbHost = process.env.DB_HOST === 'localhost' ? '127.0.0.1' : process.env.DB_HOST;
   console.log(`Attempting to connect with host: ${dbHost}`); // Log the host being used
 
-  pool = new Pool({
+  const scopedPool = new TenantScopedPool({
     host: dbHost,
     port: parseInt(process.env.DB_PORT || '5432', 10), // Default port is 5432
     user: process.env.DB_USER,
@@ -42,6 +105,8 @@ try {
     // Optional: Add SSL configuration if required
     ssl: process.env.DB_SSL === 'true' ? { rejectUnauthorized: false } : undefined,
   });
+  setCustomDomainLookup(domain => scopedPool.lookupCustomDomain(domain));
+  pool = scopedPool;
 
   pool.on('error', (err) => {
     console.error('Unexpected error on idle PostgreSQL client', err);
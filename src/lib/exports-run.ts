@@ -0,0 +1,43 @@
+// src/lib/exports-run.ts
+// Scheduled data export job: builds exports of active companies still queued (e.g. after a restart interrupted the background build),
+// deletes the files of expired exports and fails interrupted ones. Requesters are emailed when their export
+// finishes. Safe to repeat; run it every few minutes, e.g. from cron.
+//
+//   npm run exports:run
+import dotenv from 'dotenv';
+import pool from './db';
+import { withSystemScope } from './tenant-context';
+import { cleanUpDataExports, getPendingDataExports, runDataExport } from '@/modules/tenants/lib/data-export';
+import { sendDataExportEmail } from '@/modules/auth/actions';
+
+dotenv.config(); // Ensure .env variables are loaded
+
+async function main() {
+  try {
+    const { expired, interrupted } = await withSystemScope('data export cleanup', () => cleanUpDataExports());
+    for (const { tenantId, exportId } of interrupted) {
+      await sendDataExportEmail(tenantId, exportId);
+    }
+    const pending = await withSystemScope('data export queue', () => getPendingDataExports());
+    let built = 0;
+    let failed = 0;
+    for (const { tenantId, exportId } of pending) {
+      const dataExport = await runDataExport(tenantId, exportId);
+      if (dataExport?.status === 'READY') built++;
+      if (dataExport?.status === 'FAILED') failed++;
+      if (dataExport) await sendDataExportEmail(tenantId, exportId);
+    }
+    console.log(`Data export run complete: ${built} export(s) built, ${failed} failed, ${interrupted.length} interrupted, ${expired.length} expired file(s) deleted.`);
+    if (failed > 0) process.exitCode = 1;
+  } catch (error: any) {
+    console.error('Data export run failed:', error.message || error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end(); // Close the pool after script execution
+  }
+}
+
+// Execute only if run directly from Node.js (e.g., `tsx src/lib/exports-run.ts`)
+if (require.main === module) {
+  main();
+}
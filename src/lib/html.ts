@@ -0,0 +1,5 @@
+// src/lib/html.ts
+// For interpolating user-supplied values (names, company names, error messages) into HTML emails and documents.
+export function escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+}
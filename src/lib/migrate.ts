@@ -0,0 +1,248 @@
+// src/lib/migrate.ts
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import pool from './db';
+import { withSystemScope } from './tenant-context';
+
+dotenv.config(); // Ensure .env variables are loaded
+
+/**
+ * Versioned schema migrations.
+ *
+ * Migrations are SQL files in src/lib/migrations named `<version>_<name>.sql` (e.g. `0002_add_tenant_plans.sql`),
+ * applied in version order, each in its own transaction. Applied migrations are recorded in `schema_migrations`
+ * with a checksum of the file; editing an applied file is an error, so schema changes always go in a new file.
+ * A Postgres advisory lock keeps concurrent runners (several app instances, a deploy and the CLI) from racing.
+ */
+
+const MIGRATIONS_DIR = path.join(process.cwd(), 'src', 'lib', 'migrations');
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.sql$/;
+// Arbitrary constant shared by every runner; pg_advisory_lock takes a bigint key.
+const MIGRATION_LOCK_KEY = 727361;
+const BASELINE_VERSION = 1;
+
+export interface Migration {
+  version: number;
+  name: string;
+  fileName: string;
+  sql: string;
+  checksum: string;
+}
+
+export interface MigrationRunResult {
+  applied: { version: number; name: string; durationMs: number }[];
+  pending: { version: number; name: string }[];
+  baselined: boolean;
+  dryRun: boolean;
+}
+
+const schemaMigrationsTableSQL = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INT PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    checksum CHAR(64) NOT NULL,
+    applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    execution_ms INT NOT NULL DEFAULT 0,
+    baselined BOOLEAN NOT NULL DEFAULT FALSE -- Recorded for a schema that already existed, not executed
+);`;
+
+/** SHA-256 of the file with line endings normalised, so a Windows checkout does not look edited. */
+function checksumMigration(sql: string): string {
+  return crypto.createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+/**
+ * Reads the migration files in version order.
+ * @throws If a file name does not follow the pattern or two files share a version.
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const migrations: Migration[] = [];
+  for (const fileName of fs.readdirSync(dir).filter(f => f.endsWith('.sql'))) {
+    const match = fileName.match(MIGRATION_FILE_PATTERN);
+    if (!match) {
+      throw new Error(`Invalid migration file name "${fileName}". Expected <version>_<name>.sql, e.g. 0002_add_tenant_plans.sql.`);
+    }
+    const sql = fs.readFileSync(path.join(dir, fileName), 'utf8');
+    migrations.push({ version: parseInt(match[1], 10), name: match[2], fileName, sql, checksum: checksumMigration(sql) });
+  }
+  migrations.sort((a, b) => a.version - b.version);
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new Error(`Duplicate migration version ${migrations[i].version}: ${migrations[i - 1].fileName} and ${migrations[i].fileName}.`);
+    }
+  }
+  return migrations;
+}
+
+/** Tables the baseline migration creates, read from its CREATE TABLE statements. */
+function baselineTables(baseline: Migration): string[] {
+  return [...baseline.sql.matchAll(/^CREATE TABLE (?:IF NOT EXISTS )?(\w+)/gim)].map(match => match[1].toLowerCase());
+}
+
+/**
+ * Applies all pending migrations, or only reports them with `dryRun`.
+ * Checksums of applied migrations are verified in both modes.
+ * A database created by the old drop-and-recreate init-db script (tables present, no `schema_migrations` rows)
+ * has the baseline recorded as applied instead of executed. That is refused unless every baseline table exists,
+ * so a partial or unrelated schema is never taken for the baseline.
+ */
+export async function runMigrations(options: { dryRun?: boolean } = {}): Promise<MigrationRunResult> {
+  const dryRun = options.dryRun ?? false;
+  const migrations = loadMigrations();
+  console.log(`[migrate] Found ${migrations.length} migration file(s) in ${MIGRATIONS_DIR}.${dryRun ? ' Dry run: nothing will be applied.' : ''}`);
+
+  // Migrations may backfill data across tenants, so they run outside row-level security
+  const client = await withSystemScope('schema migrations', () => pool.connect());
+  const result: MigrationRunResult = { applied: [], pending: [], baselined: false, dryRun };
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    console.log('[migrate] Acquired migration lock.');
+    try {
+      // A dry run must not change the schema: without the history table, nothing has been applied yet
+      let hasHistory = true;
+      if (dryRun) {
+        const historyRes = await client.query(`SELECT to_regclass('schema_migrations') IS NOT NULL AS exists`);
+        hasHistory = historyRes.rows[0].exists;
+      } else {
+        await client.query(schemaMigrationsTableSQL);
+      }
+
+      const appliedRes = hasHistory
+        ? await client.query('SELECT version, name, checksum FROM schema_migrations ORDER BY version')
+        : { rows: [] };
+      const applied = new Map<number, { name: string; checksum: string }>(
+        appliedRes.rows.map((row: any) => [row.version, { name: row.name, checksum: row.checksum.trim() }])
+      );
+
+      for (const [version, record] of applied) {
+        const migration = migrations.find(m => m.version === version);
+        if (!migration) {
+          console.warn(`[migrate] Applied migration ${version}_${record.name} has no file in ${MIGRATIONS_DIR}.`);
+        } else if (migration.checksum !== record.checksum) {
+          throw new Error(`Checksum mismatch for applied migration ${migration.fileName}. Applied migrations must not be edited; add a new migration instead.`);
+        }
+      }
+
+      const baseline = migrations.find(m => m.version === BASELINE_VERSION);
+      if (applied.size === 0 && baseline) {
+        const existing = await client.query(`SELECT to_regclass('public.tenants') IS NOT NULL AS exists`);
+        if (existing.rows[0].exists) {
+          const expectedTables = baselineTables(baseline);
+          const presentRes = await client.query(
+            `SELECT table_name FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = ANY($1)`,
+            [expectedTables]
+          );
+          const present = new Set(presentRes.rows.map((row: any) => row.table_name));
+          const missing = expectedTables.filter(table => !present.has(table));
+          if (missing.length > 0) {
+            throw new Error(`Cannot baseline the existing schema: ${baseline.fileName} tables are missing (${missing.join(', ')}). Restore the database to the schema created by the old init-db script, or migrate an empty database.`);
+          }
+          console.log(`[migrate] Existing schema found without migration history. ${dryRun ? 'Would record' : 'Recording'} ${baseline.fileName} as the baseline without running it.`);
+          if (!dryRun) {
+            await client.query(
+              'INSERT INTO schema_migrations (version, name, checksum, baselined) VALUES ($1, $2, $3, TRUE)',
+              [baseline.version, baseline.name, baseline.checksum]
+            );
+          }
+          applied.set(baseline.version, { name: baseline.name, checksum: baseline.checksum });
+          result.baselined = true;
+        }
+      }
+
+      const pending = migrations.filter(m => !applied.has(m.version));
+      result.pending = pending.map(m => ({ version: m.version, name: m.name }));
+      if (pending.length === 0) {
+        console.log('[migrate] Schema is up to date.');
+        return result;
+      }
+      if (dryRun) {
+        pending.forEach(m => console.log(`[migrate] Pending: ${m.fileName} (checksum ${m.checksum.slice(0, 12)})`));
+        return result;
+      }
+
+      for (const migration of pending) {
+        console.log(`[migrate] Applying ${migration.fileName}...`);
+        const startedAt = Date.now();
+        await client.query('BEGIN');
+        try {
+          await client.query(migration.sql);
+          const durationMs = Date.now() - startedAt;
+          await client.query(
+            'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)',
+            [migration.version, migration.name, migration.checksum, durationMs]
+          );
+          await client.query('COMMIT');
+          result.applied.push({ version: migration.version, name: migration.name, durationMs });
+          console.log(`[migrate] Applied ${migration.fileName} in ${durationMs} ms.`);
+        } catch (err: any) {
+          await client.query('ROLLBACK');
+          console.error(`[migrate] Migration ${migration.fileName} failed and was rolled back:`, err.message);
+          throw new Error(`Migration ${migration.fileName} failed: ${err.message}`);
+        }
+      }
+      result.pending = [];
+      return result;
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+      console.log('[migrate] Released migration lock.');
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Read-only comparison of the migration files with `schema_migrations`, for health checks.
+ * Unlike a dry run it neither takes the migration lock nor creates the history table.
+ */
+export async function getMigrationStatus(): Promise<{ latestApplied: number | null; pending: { version: number; name: string }[] }> {
+  const migrations = loadMigrations();
+  const client = await withSystemScope('migration status', () => pool.connect());
+  try {
+    const res = await client.query(`SELECT to_regclass('public.schema_migrations') IS NOT NULL AS exists`);
+    const appliedVersions = new Set<number>();
+    if (res.rows[0].exists) {
+      const appliedRes = await client.query('SELECT version FROM schema_migrations');
+      appliedRes.rows.forEach((row: any) => appliedVersions.add(row.version));
+    }
+    return {
+      latestApplied: appliedVersions.size > 0 ? Math.max(...appliedVersions) : null,
+      pending: migrations.filter(m => !appliedVersions.has(m.version)).map(m => ({ version: m.version, name: m.name })),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+// CLI: `npm run db:migrate` applies pending migrations, `npm run db:migrate -- --dry-run` only lists them.
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args.find(arg => !arg.startsWith('--')) ?? 'up';
+  const dryRun = args.includes('--dry-run');
+  if (command !== 'up') {
+    console.error(`Unknown command "${command}". Usage: tsx src/lib/migrate.ts [up] [--dry-run]`);
+    process.exitCode = 1;
+    await pool.end();
+    return;
+  }
+  try {
+    const result = await runMigrations({ dryRun });
+    if (dryRun) {
+      console.log(`Dry run complete: ${result.pending.length} pending migration(s).`);
+    } else {
+      console.log(`Migrations complete: ${result.applied.length} applied.`);
+    }
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end(); // Close the pool after script execution
+  }
+}
+
+// Execute only if run directly from Node.js (e.g., `tsx src/lib/migrate.ts`)
+if (require.main === module) {
+  main();
+}
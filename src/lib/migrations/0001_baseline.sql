@@ -1,82 +1,28 @@
+-- Baseline schema: exactly the schema created by the drop-and-recreate init-db script before migrations were
+-- introduced. Installations created by that script already have these tables; the runner records this
+-- migration as applied without executing it when it finds them. Later changes belong in their own migrations.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- ENUM types
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'user_role_enum') THEN CREATE TYPE user_role_enum AS ENUM ('Admin', 'Manager', 'Employee'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'gender_enum_type') THEN CREATE TYPE gender_enum_type AS ENUM ('Male', 'Female', 'Other', 'Prefer not to say'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'address_type_enum') THEN CREATE TYPE address_type_enum AS ENUM ('PERMANENT', 'CURRENT', 'OFFICIAL'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'verification_status_enum') THEN CREATE TYPE verification_status_enum AS ENUM ('VERIFIED', 'PENDING', 'REJECTED'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'employment_type_enum') THEN CREATE TYPE employment_type_enum AS ENUM ('Full-time', 'Part-time', 'Contract', 'Internship', 'Temporary'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'salary_component_type_enum') THEN CREATE TYPE salary_component_type_enum AS ENUM ('EARNING', 'DEDUCTION', 'BENEFIT'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'calculation_type_enum') THEN CREATE TYPE calculation_type_enum AS ENUM ('FIXED', 'PERCENTAGE', 'FORMULA'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'attendance_status_enum') THEN CREATE TYPE attendance_status_enum AS ENUM ('PRESENT', 'ABSENT', 'HALF_DAY', 'LEAVE', 'HOLIDAY', 'WEEK_OFF'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'leave_application_status_enum') THEN CREATE TYPE leave_application_status_enum AS ENUM ('Pending', 'Approved', 'Rejected', 'Cancelled'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'performance_review_status_enum') THEN CREATE TYPE performance_review_status_enum AS ENUM ('DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'training_program_status_enum') THEN CREATE TYPE training_program_status_enum AS ENUM ('PLANNED', 'ONGOING', 'COMPLETED', 'CANCELLED'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'employee_training_status_enum') THEN CREATE TYPE employee_training_status_enum AS ENUM ('REGISTERED', 'ATTENDED', 'COMPLETED', 'DROPPED'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'job_opening_status_enum') THEN CREATE TYPE job_opening_status_enum AS ENUM ('Draft', 'Open', 'Closed', 'Archived'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'candidate_application_status_enum') THEN CREATE TYPE candidate_application_status_enum AS ENUM ('Applied', 'Screening', 'Interviewing', 'Offer Extended', 'Hired', 'Rejected', 'Withdrawn'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'asset_status_enum') THEN CREATE TYPE asset_status_enum AS ENUM ('AVAILABLE', 'ASSIGNED', 'UNDER_MAINTENANCE', 'RETIRED', 'LOST'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'holiday_type_enum') THEN CREATE TYPE holiday_type_enum AS ENUM ('FIXED', 'VARIABLE'); END IF; END $$;
+DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'experience_level_enum_type') THEN CREATE TYPE experience_level_enum_type AS ENUM ('Entry-Level', 'Mid-Level', 'Senior-Level', 'Lead', 'Principal', 'Manager', 'Director'); END IF; END $$;
 
-// src/lib/init-db.ts
-import pool from './db';
-import dotenv from 'dotenv';
-
-dotenv.config(); // Ensure .env variables are loaded
-
-// SQL to create the pgcrypto extension if it doesn't exist
-const pgcryptoExtensionSQL = `CREATE EXTENSION IF NOT EXISTS pgcrypto;`;
-
-// SQL for ENUM type creation (PostgreSQL specific)
-const enumCreationSQLs = [
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'user_role_enum') THEN CREATE TYPE user_role_enum AS ENUM ('Admin', 'Manager', 'Employee'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'gender_enum_type') THEN CREATE TYPE gender_enum_type AS ENUM ('Male', 'Female', 'Other', 'Prefer not to say'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'address_type_enum') THEN CREATE TYPE address_type_enum AS ENUM ('PERMANENT', 'CURRENT', 'OFFICIAL'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'verification_status_enum') THEN CREATE TYPE verification_status_enum AS ENUM ('VERIFIED', 'PENDING', 'REJECTED'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'employment_type_enum') THEN CREATE TYPE employment_type_enum AS ENUM ('Full-time', 'Part-time', 'Contract', 'Internship', 'Temporary'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'salary_component_type_enum') THEN CREATE TYPE salary_component_type_enum AS ENUM ('EARNING', 'DEDUCTION', 'BENEFIT'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'calculation_type_enum') THEN CREATE TYPE calculation_type_enum AS ENUM ('FIXED', 'PERCENTAGE', 'FORMULA'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'attendance_status_enum') THEN CREATE TYPE attendance_status_enum AS ENUM ('PRESENT', 'ABSENT', 'HALF_DAY', 'LEAVE', 'HOLIDAY', 'WEEK_OFF'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'leave_application_status_enum') THEN CREATE TYPE leave_application_status_enum AS ENUM ('Pending', 'Approved', 'Rejected', 'Cancelled'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'performance_review_status_enum') THEN CREATE TYPE performance_review_status_enum AS ENUM ('DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'training_program_status_enum') THEN CREATE TYPE training_program_status_enum AS ENUM ('PLANNED', 'ONGOING', 'COMPLETED', 'CANCELLED'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'employee_training_status_enum') THEN CREATE TYPE employee_training_status_enum AS ENUM ('REGISTERED', 'ATTENDED', 'COMPLETED', 'DROPPED'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'job_opening_status_enum') THEN CREATE TYPE job_opening_status_enum AS ENUM ('Draft', 'Open', 'Closed', 'Archived'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'candidate_application_status_enum') THEN CREATE TYPE candidate_application_status_enum AS ENUM ('Applied', 'Screening', 'Interviewing', 'Offer Extended', 'Hired', 'Rejected', 'Withdrawn'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'asset_status_enum') THEN CREATE TYPE asset_status_enum AS ENUM ('AVAILABLE', 'ASSIGNED', 'UNDER_MAINTENANCE', 'RETIRED', 'LOST'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'holiday_type_enum') THEN CREATE TYPE holiday_type_enum AS ENUM ('FIXED', 'VARIABLE'); END IF; END $$;`,
-  `DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'experience_level_enum_type') THEN CREATE TYPE experience_level_enum_type AS ENUM ('Entry-Level', 'Mid-Level', 'Senior-Level', 'Lead', 'Principal', 'Manager', 'Director'); END IF; END $$;`
-];
-
-const dropTableStatementsSQL = [
-  `DROP TABLE IF EXISTS role_permissions CASCADE;`,
-  `DROP TABLE IF EXISTS permissions CASCADE;`,
-  `DROP TABLE IF EXISTS user_roles CASCADE;`,
-  `DROP TABLE IF EXISTS roles CASCADE;`,
-  `DROP TABLE IF EXISTS employee_assets CASCADE;`,
-  `DROP TABLE IF EXISTS asset_inventory CASCADE;`,
-  `DROP TABLE IF EXISTS announcements CASCADE;`,
-  `DROP TABLE IF EXISTS holidays CASCADE;`,
-  `DROP TABLE IF EXISTS job_applications CASCADE;`,
-  `DROP TABLE IF EXISTS candidates CASCADE;`,
-  `DROP TABLE IF EXISTS job_openings CASCADE;`,
-  `DROP TABLE IF EXISTS employee_training CASCADE;`,
-  `DROP TABLE IF EXISTS training_programs CASCADE;`,
-  `DROP TABLE IF EXISTS performance_ratings CASCADE;`,
-  `DROP TABLE IF EXISTS performance_reviews CASCADE;`,
-  `DROP TABLE IF EXISTS competencies CASCADE;`,
-  `DROP TABLE IF EXISTS performance_cycles CASCADE;`,
-  `DROP TABLE IF EXISTS employee_leave_balance CASCADE;`,
-  `DROP TABLE IF EXISTS leave_requests CASCADE;`,
-  `DROP TABLE IF EXISTS leave_balances CASCADE;`, // Drop old plural name if it exists
-  `DROP TABLE IF EXISTS leave_policy_details CASCADE;`,
-  `DROP TABLE IF EXISTS leave_policy CASCADE;`,
-  `DROP TABLE IF EXISTS leave_types CASCADE;`,
-  `DROP TABLE IF EXISTS attendance_records CASCADE;`,
-  `DROP TABLE IF EXISTS employee_shift CASCADE;`,
-  `DROP TABLE IF EXISTS shifts CASCADE;`,
-  `DROP TABLE IF EXISTS salary_structure_details CASCADE;`,
-  `DROP TABLE IF EXISTS employee_salary CASCADE;`,
-  `DROP TABLE IF EXISTS salary_components CASCADE;`,
-  `DROP TABLE IF EXISTS salary_structures CASCADE;`,
-  `DROP TABLE IF EXISTS employment_details CASCADE;`,
-  `DROP TABLE IF EXISTS designations CASCADE;`,
-  `DROP TABLE IF EXISTS departments CASCADE;`,
-  `DROP TABLE IF EXISTS employee_documents CASCADE;`,
-  `DROP TABLE IF EXISTS employee_address CASCADE;`,
-  `DROP TABLE IF EXISTS users CASCADE;`, // Users table might be dropped before employees due to FK from employees to users.
-  `DROP TABLE IF EXISTS employees CASCADE;`,
-  `DROP TABLE IF EXISTS email_templates CASCADE;`,
-  `DROP TABLE IF EXISTS email_configuration CASCADE;`,
-  `DROP TABLE IF EXISTS subscription_invoices CASCADE;`,
-  `DROP TABLE IF EXISTS tenant_subscriptions CASCADE;`,
-  `DROP TABLE IF EXISTS subscription_plans CASCADE;`,
-  `DROP TABLE IF EXISTS tenant_configurations CASCADE;`,
-  `DROP TABLE IF EXISTS tenants CASCADE;`
-];
-
-const mainSchemaSQL = `
 -- Tenant Management
 CREATE TABLE tenants (
     tenant_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -899,96 +845,3 @@ CREATE INDEX IF NOT EXISTS idx_leave_applications_status ON leave_requests(tenan
 CREATE INDEX IF NOT EXISTS idx_job_applications_stage ON job_applications(tenant_id, status);
 CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(tenant_id, email);
-`;
-
-// Async function to execute a single SQL statement (can be used for DROP or ENUMs)
-async function executeSingleStatement(client: any, statement: string, statementDescription: string) {
-  try {
-    console.log(`Executing: ${statementDescription}`);
-    await client.query(statement);
-    console.log(`Successfully executed: ${statementDescription}`);
-  } catch (error: any) {
-    // Log warning if table didn't exist for DROP, or ENUM already exists, but throw other errors
-    if ((statement.toUpperCase().startsWith('DROP TABLE IF EXISTS') && error.code === '42P01') || // undefined_table
-        (statement.toUpperCase().includes('CREATE TYPE') && error.code === '42710')) { // duplicate_object for ENUMs
-      console.warn(`Warning for "${statementDescription}": ${error.message}. Skipping.`);
-    } else {
-      console.error(`Error executing "${statementDescription}":`, error.message);
-      throw error;
-    }
-  }
-}
-
-// Async function to execute the main schema DDL (within a transaction)
-async function executeMainSchema(client: any, schemaSQL: string) {
-  await client.query(schemaSQL);
-}
-
-// Main async function to initialize the database schema
-export async function initializeDatabase() {
-  console.log('Attempting to connect to database for schema initialization...');
-  const client = await pool.connect();
-  console.log('Connected to database. Executing schema creation script...');
-  try {
-    // Execute DROP TABLE statements individually to ensure proper cleanup
-    console.log('Executing DROP TABLE statements...');
-    for (const dropStatement of dropTableStatementsSQL) {
-      const tableName = dropStatement.replace('DROP TABLE IF EXISTS ', '').replace(' CASCADE;', '');
-      await executeSingleStatement(client, dropStatement, `DROP TABLE IF EXISTS ${tableName}`);
-    }
-    console.log('Finished executing DROP TABLE statements.');
-
-    // Execute pgcrypto extension creation
-    await executeSingleStatement(client, pgcryptoExtensionSQL, 'pgcrypto extension creation');
-
-    // Execute ENUM creation DO blocks
-    for (const enumSQL of enumCreationSQLs) {
-      const enumName = enumSQL.match(/CREATE TYPE (\w+)/)?.[1] || 'Unknown ENUM';
-      await executeSingleStatement(client, enumSQL, `ENUM creation for: ${enumName}`);
-    }
-    console.log('Finished executing ENUM creation DO $$...END$$ blocks.');
-
-    // Execute main DDL script (tables, functions, triggers)
-    console.log('Executing main DDL script (tables, functions, triggers)...');
-    await client.query('BEGIN'); // Start transaction for main schema
-    await executeMainSchema(client, mainSchemaSQL); // Call helper to execute main schema
-    await client.query('COMMIT'); // Commit transaction for main schema
-    console.log('Main DDL script executed successfully and transaction committed.');
-
-  } catch (err: any) {
-    console.error('-----------------------------------------');
-    console.error('Error during schema initialization steps:', (err as Error).message);
-    console.error('Stack:', (err as Error).stack);
-    console.error('Full Error Object:', err);
-    console.error('-----------------------------------------');
-    try {
-        await client.query('ROLLBACK'); // Attempt to rollback transaction on error
-        console.error('Transaction rolled back due to error during main schema execution.');
-    } catch (rollbackError) {
-        console.error('Error during ROLLBACK attempt:', rollbackError);
-    }
-    throw err; // Re-throw the error to be caught by the caller
-  } finally {
-    client.release();
-    console.log('Database client released after schema initialization.');
-  }
-}
-
-// Function to allow manual execution if needed (e.g., from a script)
-async function manualDbInit() {
-  console.log('Starting manual database initialization...');
-  try {
-    await initializeDatabase();
-    console.log('Manual DB initialization completed successfully.');
-  } catch (error) {
-    console.error('Manual DB initialization failed:', error);
-  } finally {
-    await pool.end(); // Close the pool after script execution
-    console.log('Database pool closed after manual initialization.');
-  }
-}
-
-// Execute only if run directly from Node.js (e.g., `tsx src/lib/init-db.ts`)
-if (require.main === module) {
-  manualDbInit();
-}
\ No newline at end of file
@@ -0,0 +1,16 @@
+-- Account lockout and login rate limiting
+ALTER TABLE users ADD COLUMN locked_until TIMESTAMP WITH TIME ZONE; -- NULL while locked means an admin must unlock
+
+-- Login attempts (used for per-IP and per-identifier rate limiting)
+CREATE TABLE login_attempts (
+    attempt_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL,
+    identifier VARCHAR(100) NOT NULL, -- lower-cased username, email or employee ID as typed
+    ip_address VARCHAR(45),
+    success BOOLEAN NOT NULL DEFAULT FALSE,
+    attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_identifier ON login_attempts(tenant_id, identifier, attempted_at);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_ip ON login_attempts(ip_address, attempted_at);
@@ -0,0 +1,27 @@
+-- TOTP multi-factor authentication (secret encrypted with ENCRYPTION_KEY)
+CREATE TABLE user_mfa (
+    user_id UUID PRIMARY KEY,
+    tenant_id UUID NOT NULL,
+    totp_secret_encrypted TEXT NOT NULL,
+    enabled_at TIMESTAMP WITH TIME ZONE, -- NULL until the user confirms the first code
+    last_used_step BIGINT, -- last accepted TOTP time step, prevents code replay
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+);
+
+-- One-time MFA recovery codes (only the SHA-256 hash is stored)
+CREATE TABLE user_mfa_recovery_codes (
+    code_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE,
+    CONSTRAINT unique_user_recovery_code UNIQUE (user_id, code_hash)
+);
+
+SELECT apply_update_trigger_if_not_exists('user_mfa');
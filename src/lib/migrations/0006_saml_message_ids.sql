@@ -0,0 +1,12 @@
+-- SAML message IDs: outstanding AuthnRequest IDs (InResponseTo checks) and consumed assertion IDs (replay protection)
+CREATE TABLE saml_message_ids (
+    tenant_id UUID NOT NULL,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('request', 'assertion')),
+    message_id VARCHAR(255) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (tenant_id, kind, message_id),
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_saml_message_ids_expires ON saml_message_ids(expires_at);
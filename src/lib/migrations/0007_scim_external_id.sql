@@ -0,0 +1,2 @@
+-- SCIM provisioning
+ALTER TABLE users ADD COLUMN external_id VARCHAR(255); -- ID in the provisioning system (SCIM externalId)
@@ -0,0 +1,6 @@
+-- Impersonation: actions taken while an admin views the app as another user, and the start and end of each session
+ALTER TABLE audit_events
+    ADD COLUMN impersonated_user_id UUID, -- Set when an admin acted while viewing as this user; actor_user_id is the admin
+    ALTER COLUMN action TYPE VARCHAR(30),
+    DROP CONSTRAINT audit_events_action_check,
+    ADD CONSTRAINT audit_events_action_check CHECK (action IN ('create', 'update', 'delete', 'impersonation_start', 'impersonation_end'));
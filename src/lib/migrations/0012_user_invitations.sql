@@ -0,0 +1,21 @@
+-- Employee invitations replace emailed temporary passwords
+ALTER TABLE users ADD COLUMN terms_accepted_at TIMESTAMP WITH TIME ZONE; -- Set when an invited user accepts the terms of use
+
+-- Account invitations for new employees (only the SHA-256 hash of the emailed token is stored).
+-- A resend revokes the user's open invitation and adds a new row.
+CREATE TABLE user_invitations (
+    invitation_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    invited_by UUID,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE,
+    FOREIGN KEY (invited_by) REFERENCES users(user_id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_invitations_user ON user_invitations(tenant_id, user_id, created_at DESC);
@@ -0,0 +1,68 @@
+-- Row-level security: a second tenant-isolation layer under the tenant_id filters in every query.
+-- Each pooled connection is tagged with app.tenant_id for the request's tenant (src/lib/tenant-context.ts);
+-- app.rls_bypass is only 'on' for explicit system-scope work. FORCE makes the policies apply to the table owner too.
+CREATE OR REPLACE FUNCTION apply_tenant_isolation_policy(table_name_param TEXT)
+RETURNS void AS $$
+BEGIN
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', table_name_param);
+    EXECUTE format('ALTER TABLE %I FORCE ROW LEVEL SECURITY', table_name_param);
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = table_name_param AND policyname = 'tenant_isolation'
+    ) THEN
+        EXECUTE format('
+            CREATE POLICY tenant_isolation ON %I
+            USING (current_setting(''app.rls_bypass'', true) = ''on'' OR tenant_id = NULLIF(current_setting(''app.tenant_id'', true), '''')::uuid)
+            WITH CHECK (current_setting(''app.rls_bypass'', true) = ''on'' OR tenant_id = NULLIF(current_setting(''app.tenant_id'', true), '''')::uuid)',
+            table_name_param);
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Apply row-level security to every table holding tenant data (tenants itself is looked up by host)
+SELECT apply_tenant_isolation_policy('tenant_configurations');
+SELECT apply_tenant_isolation_policy('tenant_subscriptions');
+SELECT apply_tenant_isolation_policy('users');
+SELECT apply_tenant_isolation_policy('employees');
+SELECT apply_tenant_isolation_policy('user_sessions');
+SELECT apply_tenant_isolation_policy('password_reset_tokens');
+SELECT apply_tenant_isolation_policy('user_invitations');
+SELECT apply_tenant_isolation_policy('password_history');
+SELECT apply_tenant_isolation_policy('login_attempts');
+SELECT apply_tenant_isolation_policy('saml_message_ids');
+SELECT apply_tenant_isolation_policy('user_mfa');
+SELECT apply_tenant_isolation_policy('user_mfa_recovery_codes');
+SELECT apply_tenant_isolation_policy('api_keys');
+SELECT apply_tenant_isolation_policy('audit_events');
+SELECT apply_tenant_isolation_policy('employee_address');
+SELECT apply_tenant_isolation_policy('employee_documents');
+SELECT apply_tenant_isolation_policy('departments');
+SELECT apply_tenant_isolation_policy('designations');
+SELECT apply_tenant_isolation_policy('employment_details');
+SELECT apply_tenant_isolation_policy('salary_structures');
+SELECT apply_tenant_isolation_policy('salary_components');
+SELECT apply_tenant_isolation_policy('employee_salary');
+SELECT apply_tenant_isolation_policy('salary_structure_details');
+SELECT apply_tenant_isolation_policy('shifts');
+SELECT apply_tenant_isolation_policy('employee_shift');
+SELECT apply_tenant_isolation_policy('attendance_records');
+SELECT apply_tenant_isolation_policy('leave_types');
+SELECT apply_tenant_isolation_policy('leave_policy');
+SELECT apply_tenant_isolation_policy('leave_policy_details');
+SELECT apply_tenant_isolation_policy('employee_leave_balance');
+SELECT apply_tenant_isolation_policy('leave_requests');
+SELECT apply_tenant_isolation_policy('competencies');
+SELECT apply_tenant_isolation_policy('performance_cycles');
+SELECT apply_tenant_isolation_policy('performance_reviews');
+SELECT apply_tenant_isolation_policy('performance_ratings');
+SELECT apply_tenant_isolation_policy('training_programs');
+SELECT apply_tenant_isolation_policy('employee_training');
+SELECT apply_tenant_isolation_policy('job_openings');
+SELECT apply_tenant_isolation_policy('candidates');
+SELECT apply_tenant_isolation_policy('job_applications');
+SELECT apply_tenant_isolation_policy('roles');
+SELECT apply_tenant_isolation_policy('holidays');
+SELECT apply_tenant_isolation_policy('announcements');
+SELECT apply_tenant_isolation_policy('asset_inventory');
+SELECT apply_tenant_isolation_policy('employee_assets');
+SELECT apply_tenant_isolation_policy('email_configuration');
+SELECT apply_tenant_isolation_policy('email_templates');
@@ -0,0 +1,7 @@
+-- Tenant lifecycle: platform operators suspend, reinstate or schedule the deletion of a company.
+ALTER TABLE tenants
+    ADD COLUMN status_reason TEXT, -- Internal note, not shown to the company's users
+    ADD COLUMN status_changed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN deletion_scheduled_at TIMESTAMP WITH TIME ZONE; -- Set while status is DELETED; the company is purged after it
+
+CREATE INDEX IF NOT EXISTS idx_tenants_deletion_scheduled ON tenants(deletion_scheduled_at) WHERE status = 'DELETED';
@@ -0,0 +1,53 @@
+-- Subscription billing: invoices per billing period, prorated plan changes and gateway payments.
+ALTER TABLE tenant_subscriptions
+    ADD COLUMN credit_balance NUMERIC(10,2) NOT NULL DEFAULT 0, -- Unused time from downgrades, applied to the next invoices
+    ADD COLUMN billing_anchor TIMESTAMP WITH TIME ZONE; -- Billing periods are whole cycles from here; NULL means start_date
+
+ALTER TABLE subscription_invoices
+    ADD COLUMN tenant_id UUID,
+    ADD COLUMN kind VARCHAR(20) NOT NULL DEFAULT 'RENEWAL' CHECK (kind IN ('RENEWAL', 'PLAN_CHANGE')),
+    ADD COLUMN period_start TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN period_end TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN currency CHAR(3) NOT NULL DEFAULT 'USD',
+    ADD COLUMN subtotal NUMERIC(10,2), -- Sum of the line items; amount is what is left to pay after account credit
+    ADD COLUMN credit_applied NUMERIC(10,2) NOT NULL DEFAULT 0,
+    ADD COLUMN line_items JSONB NOT NULL DEFAULT '[]';
+
+UPDATE subscription_invoices i SET tenant_id = s.tenant_id, subtotal = i.amount
+FROM tenant_subscriptions s WHERE s.subscription_id = i.subscription_id;
+
+ALTER TABLE subscription_invoices
+    ALTER COLUMN tenant_id SET NOT NULL,
+    ALTER COLUMN subtotal SET NOT NULL,
+    ADD CONSTRAINT fk_subscription_invoices_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_subscription_invoices_tenant ON subscription_invoices(tenant_id, created_at DESC);
+-- A billing run that is repeated or runs on two instances cannot bill the same period twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscription_invoices_renewal_period
+    ON subscription_invoices(subscription_id, period_start) WHERE kind = 'RENEWAL';
+
+CREATE SEQUENCE IF NOT EXISTS subscription_invoice_number_seq START 1001;
+
+-- One row per collection attempt made through a payment gateway
+CREATE TABLE subscription_payments (
+    payment_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL,
+    invoice_id UUID NOT NULL,
+    gateway VARCHAR(50) NOT NULL,
+    transaction_id VARCHAR(255) NOT NULL, -- The gateway's reference, used to match webhooks
+    amount NUMERIC(10,2) NOT NULL,
+    currency CHAR(3) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('PENDING', 'SUCCEEDED', 'FAILED')),
+    failure_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id) ON DELETE CASCADE,
+    FOREIGN KEY (invoice_id) REFERENCES subscription_invoices(invoice_id) ON DELETE CASCADE,
+    CONSTRAINT unique_gateway_transaction UNIQUE (gateway, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_payments_invoice ON subscription_payments(invoice_id);
+
+SELECT apply_update_trigger_if_not_exists('subscription_payments');
+SELECT apply_tenant_isolation_policy('subscription_invoices');
+SELECT apply_tenant_isolation_policy('subscription_payments');
@@ -0,0 +1,24 @@
+-- Platform operators: users without a tenant who sign in to the console at /platform on the root domain.
+ALTER TABLE users
+    ADD COLUMN platform_role VARCHAR(20) CHECK (platform_role IN ('PLATFORM_ADMIN')),
+    ADD CONSTRAINT platform_role_requires_no_tenant CHECK (platform_role IS NULL OR tenant_id IS NULL);
+
+-- The (tenant_id, username/email) constraints never match rows whose tenant_id is NULL
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_platform_username ON users(username) WHERE tenant_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_platform_email ON users(email) WHERE tenant_id IS NULL;
+
+-- Server-side platform console sessions (the signed cookie carries session_id). Not tenant data, so no row-level security.
+CREATE TABLE platform_sessions (
+    session_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    user_agent TEXT,
+    ip_address VARCHAR(45),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_platform_sessions_user ON platform_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_tenant_last_seen ON user_sessions(tenant_id, last_seen_at DESC);
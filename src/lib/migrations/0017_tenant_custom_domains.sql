@@ -0,0 +1,20 @@
+-- Custom domains (e.g. hr.example.com) that serve a tenant in addition to its subdomain.
+-- Routing data like tenants.subdomain: hosts are mapped to tenants before any tenant scope exists, so no row-level security.
+CREATE TABLE tenant_custom_domains (
+    domain_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL UNIQUE, -- One custom domain per tenant
+    domain VARCHAR(253) NOT NULL CHECK (domain = LOWER(domain)),
+    verification_token VARCHAR(64) NOT NULL, -- Expected in the domain's DNS TXT record
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'VERIFIED')),
+    verified_at TIMESTAMP WITH TIME ZONE,
+    last_checked_at TIMESTAMP WITH TIME ZONE,
+    last_check_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id) ON DELETE CASCADE
+);
+
+-- Several companies may claim a domain, but only the one that proves ownership gets it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tenant_custom_domains_verified ON tenant_custom_domains(domain) WHERE status = 'VERIFIED';
+
+SELECT apply_update_trigger_if_not_exists('tenant_custom_domains');
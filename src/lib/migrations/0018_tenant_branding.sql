@@ -0,0 +1,15 @@
+-- Logo and favicon files of each company's branding. Brand colors are stored in tenant_configurations ('branding.colors').
+CREATE TABLE tenant_branding_assets (
+    tenant_id UUID NOT NULL,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('logo', 'favicon')),
+    content_type VARCHAR(50) NOT NULL,
+    data BYTEA NOT NULL,
+    sha256 CHAR(64) NOT NULL, -- Versions the public URL, so browsers can cache the file for long
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (tenant_id, kind),
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id) ON DELETE CASCADE
+);
+
+SELECT apply_update_trigger_if_not_exists('tenant_branding_assets');
+SELECT apply_tenant_isolation_policy('tenant_branding_assets');
@@ -0,0 +1,30 @@
+-- Full data exports of a company (zip of every tenant table as JSON and CSV, plus uploaded documents).
+-- The file is kept in the row until it expires; the exports job then clears it.
+CREATE TABLE tenant_data_exports (
+    export_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL,
+    requested_by UUID,
+    requested_by_name VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'RUNNING', 'READY', 'FAILED', 'EXPIRED')),
+    file_name VARCHAR(255),
+    data BYTEA,
+    byte_size BIGINT,
+    sha256 CHAR(64), -- Of the zip file, shown to the admin so a download can be checked
+    summary JSONB, -- Row counts per table and the number of documents included
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    notified_at TIMESTAMP WITH TIME ZONE, -- When the requester was emailed that the export finished
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id) ON DELETE CASCADE,
+    FOREIGN KEY (requested_by) REFERENCES users(user_id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_data_exports_tenant ON tenant_data_exports(tenant_id, created_at DESC);
+-- One export in progress per company at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tenant_data_exports_in_progress ON tenant_data_exports(tenant_id) WHERE status IN ('PENDING', 'RUNNING');
+
+SELECT apply_update_trigger_if_not_exists('tenant_data_exports');
+SELECT apply_tenant_isolation_policy('tenant_data_exports');
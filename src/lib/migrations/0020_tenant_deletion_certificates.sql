@@ -0,0 +1,22 @@
+-- Proof that a closed company's data was permanently deleted, for compliance. Written by the hard purge in the
+-- same transaction as the deletion and kept after the tenant row is gone, so no foreign key and no row-level
+-- security: like platform_sessions, it is only read by the platform console and the tenant-admin CLI.
+CREATE TABLE tenant_deletion_certificates (
+    certificate_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL UNIQUE,
+    tenant_name VARCHAR(100) NOT NULL,
+    subdomain VARCHAR(50) NOT NULL,
+    deletion_reason TEXT,
+    closed_at TIMESTAMP WITH TIME ZONE, -- When the company was marked DELETED
+    scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL, -- End of its retention window
+    purged_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    purged_by VARCHAR(255) NOT NULL,
+    records_deleted JSONB NOT NULL, -- { table: rows }
+    files_deleted INT NOT NULL,
+    verification JSONB NOT NULL, -- What was checked after the deletion and what, if anything, remained
+    verified BOOLEAN NOT NULL,
+    sha256 CHAR(64) NOT NULL, -- Of the certificate content, so later edits can be detected
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_deletion_certificates_purged ON tenant_deletion_certificates(purged_at DESC);
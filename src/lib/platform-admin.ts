@@ -0,0 +1,86 @@
+// src/lib/platform-admin.ts
+// Manages the platform operators who sign in to the console at /platform on the root domain.
+// There is no sign-up for operators; the first one is created here.
+//
+//   npm run platform:admin -- list
+//   npm run platform:admin -- create <username> --email=ops@example.com [--name="Ops Team"]
+//   npm run platform:admin -- deactivate <username>
+//   npm run platform:admin -- activate <username>     (also clears a login lock)
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import dotenv from 'dotenv';
+import pool from './db';
+import { withSystemScope } from './tenant-context';
+import { addPlatformAdmin, listPlatformAdmins, setPlatformAdminActive } from '@/modules/platform/lib/db';
+import type { PlatformAdmin } from '@/modules/platform/types';
+
+dotenv.config(); // Ensure .env variables are loaded
+
+const USAGE = 'Usage: tsx src/lib/platform-admin.ts <list|create|deactivate|activate> [username] [--email=...] [--name=...]';
+const SALT_ROUNDS = 10;
+
+function getOption(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return args.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function describeAdmin(admin: PlatformAdmin): string {
+  const lastLogin = admin.lastLogin ? `last login ${admin.lastLogin}` : 'never signed in';
+  return `${admin.username.padEnd(24)} ${(admin.isActive ? 'ACTIVE' : 'INACTIVE').padEnd(10)} ${admin.email} (${lastLogin})`;
+}
+
+async function runCommand(command: string, args: string[]): Promise<void> {
+  const username = args.find(arg => !arg.startsWith('--'));
+
+  switch (command) {
+    case 'list': {
+      const admins = await listPlatformAdmins();
+      admins.forEach(admin => console.log(describeAdmin(admin)));
+      console.log(`${admins.length} platform admin(s).`);
+      return;
+    }
+    case 'create': {
+      const email = getOption(args, 'email');
+      if (!username || !/^[a-zA-Z0-9_]{3,50}$/.test(username)) throw new Error(`A username of 3-50 letters, numbers or underscores is required.\n${USAGE}`);
+      if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new Error(`A valid --email is required.\n${USAGE}`);
+      // Generated rather than passed on the command line, so it never lands in the shell history
+      const password = crypto.randomBytes(18).toString('base64url');
+      const admin = await addPlatformAdmin({
+        username,
+        email,
+        name: getOption(args, 'name') ?? null,
+        passwordHash: await bcrypt.hash(password, SALT_ROUNDS),
+      });
+      console.log(`Created: ${describeAdmin(admin)}`);
+      console.log(`Password (shown once, store it in your password manager): ${password}`);
+      return;
+    }
+    case 'deactivate':
+    case 'activate': {
+      if (!username) throw new Error(`A username is required.\n${USAGE}`);
+      const admin = await setPlatformAdminActive(username, command === 'activate');
+      if (!admin) throw new Error(`No platform admin with username "${username}".`);
+      console.log(`${command === 'activate' ? 'Activated' : 'Deactivated'}: ${describeAdmin(admin)}`);
+      return;
+    }
+    default:
+      throw new Error(`Unknown command "${command}".\n${USAGE}`);
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  try {
+    await withSystemScope(`platform-admin ${command ?? ''}`.trim(), () => runCommand(command ?? '', args));
+  } catch (error: any) {
+    console.error(error.message || error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end(); // Close the pool after script execution
+  }
+}
+
+// Execute only if run directly from Node.js (e.g., `tsx src/lib/platform-admin.ts`)
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,147 @@
+// src/lib/tenant-admin.ts
+// Platform operator CLI for the company lifecycle. Runs outside any tenant host, so all work is done in system scope.
+//
+//   npm run tenant:admin -- list [--status=SUSPENDED]
+//   npm run tenant:admin -- suspend <subdomain> --reason="Unpaid invoice"
+//   npm run tenant:admin -- reinstate <subdomain>
+//   npm run tenant:admin -- schedule-deletion <subdomain> [--days=N] [--reason="..."]
+//   npm run tenant:admin -- restore <subdomain> [--reason="..."]
+//   npm run tenant:admin -- purge     (run daily, e.g. from cron; exits with 1 when a purge is not verified)
+//   npm run tenant:admin -- certificate <subdomain|certificate-id>
+//
+// --days defaults to TENANT_DELETION_GRACE_DAYS (30 unless set in the environment).
+import dotenv from 'dotenv';
+import pool from './db';
+import { withSystemScope } from './tenant-context';
+import {
+  getTenantByDomain,
+  getTenantsDueForDeletion,
+  listTenants,
+  updateTenantStatus,
+} from '@/modules/auth/lib/db';
+import { tenantStatusSchema } from '@/modules/auth/types';
+import type { Tenant } from '@/modules/auth/types';
+import {
+  deletePurgedTenantFiles,
+  getCertificatesWithPendingFiles,
+  getDeletionCertificate,
+  getTenantDeletionGraceDays,
+  purgeTenant,
+  restoreTenant,
+  scheduleTenantDeletion,
+} from '@/modules/tenants/lib/offboarding';
+
+dotenv.config(); // Ensure .env variables are loaded
+
+const USAGE = 'Usage: tsx src/lib/tenant-admin.ts <list|suspend|reinstate|schedule-deletion|restore|purge|certificate> [subdomain] [--status=...] [--reason=...] [--days=N]';
+
+function getOption(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return args.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function describeTenant(tenant: Tenant): string {
+  const deletion = tenant.deletion_scheduled_at ? ` (deletion on ${tenant.deletion_scheduled_at})` : '';
+  const reason = tenant.status_reason ? ` - ${tenant.status_reason}` : '';
+  return `${tenant.subdomain.padEnd(24)} ${tenant.status.padEnd(10)} ${tenant.name}${deletion}${reason}`;
+}
+
+async function requireTenant(subdomain: string | undefined): Promise<Tenant> {
+  if (!subdomain) throw new Error(`A company subdomain is required.\n${USAGE}`);
+  const tenant = await getTenantByDomain(subdomain);
+  if (!tenant) throw new Error(`No company with subdomain "${subdomain}".`);
+  return tenant;
+}
+
+async function runCommand(command: string, args: string[]): Promise<void> {
+  const subdomain = args.find(arg => !arg.startsWith('--'));
+  const reason = getOption(args, 'reason') ?? null;
+
+  switch (command) {
+    case 'list': {
+      const statusOption = getOption(args, 'status');
+      const status = statusOption ? tenantStatusSchema.parse(statusOption.toUpperCase()) : undefined;
+      const tenants = await listTenants(status);
+      tenants.forEach(tenant => console.log(describeTenant(tenant)));
+      console.log(`${tenants.length} compan${tenants.length === 1 ? 'y' : 'ies'}.`);
+      return;
+    }
+    case 'suspend': {
+      const tenant = await requireTenant(subdomain);
+      const updated = await updateTenantStatus(tenant.tenant_id, 'SUSPENDED', { reason });
+      console.log(`Suspended: ${describeTenant(updated!)}`);
+      return;
+    }
+    case 'reinstate': {
+      const tenant = await requireTenant(subdomain);
+      const updated = await updateTenantStatus(tenant.tenant_id, 'ACTIVE', { reason });
+      console.log(`Reinstated: ${describeTenant(updated!)}`);
+      return;
+    }
+    case 'schedule-deletion': {
+      const tenant = await requireTenant(subdomain);
+      const days = parseInt(getOption(args, 'days') ?? String(getTenantDeletionGraceDays()), 10);
+      if (Number.isNaN(days) || days < 0) throw new Error('--days must be a whole number of days, 0 or more.');
+      const updated = await scheduleTenantDeletion(tenant.tenant_id, { reason, graceDays: days });
+      console.log(`Scheduled for deletion: ${describeTenant(updated)}`);
+      return;
+    }
+    case 'restore': {
+      const tenant = await requireTenant(subdomain);
+      const updated = await restoreTenant(tenant.tenant_id, reason);
+      console.log(`Restored: ${describeTenant(updated)}`);
+      return;
+    }
+    case 'purge': {
+      let unverified = 0;
+      // Documents of earlier purges that stopped after their records were deleted
+      for (const pending of await getCertificatesWithPendingFiles()) {
+        const certificate = await deletePurgedTenantFiles(pending);
+        if (!certificate.verified) unverified++;
+        console.log(`Deleted the remaining documents of ${certificate.subdomain} (${certificate.tenantId}) - certificate ${certificate.id}${certificate.verified ? '' : ', NOT VERIFIED'}`);
+      }
+      const due = await getTenantsDueForDeletion();
+      for (const tenant of due) {
+        const certificate = await purgeTenant(tenant.tenant_id, 'tenant-admin CLI');
+        if (!certificate) {
+          console.log(`Skipped: ${tenant.subdomain} (${tenant.tenant_id})`);
+          continue;
+        }
+        if (!certificate.verified) unverified++;
+        console.log(`Purged: ${tenant.subdomain} (${tenant.tenant_id}) - certificate ${certificate.id}${certificate.verified ? '' : ', NOT VERIFIED'}`);
+      }
+      console.log(`${due.length} compan${due.length === 1 ? 'y' : 'ies'} due for deletion.`);
+      if (unverified > 0) {
+        console.error(`${unverified} purge(s) left data behind; see the certificate verification details.`);
+        process.exitCode = 1;
+      }
+      return;
+    }
+    case 'certificate': {
+      if (!subdomain) throw new Error(`A subdomain or certificate ID is required.\n${USAGE}`);
+      const certificate = await getDeletionCertificate(subdomain);
+      if (!certificate) throw new Error(`No deletion certificate for "${subdomain}".`);
+      console.log(JSON.stringify(certificate, null, 2));
+      return;
+    }
+    default:
+      throw new Error(`Unknown command "${command}".\n${USAGE}`);
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  try {
+    await withSystemScope(`tenant-admin ${command ?? ''}`.trim(), () => runCommand(command ?? '', args));
+  } catch (error: any) {
+    console.error(error.message || error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end(); // Close the pool after script execution
+  }
+}
+
+// Execute only if run directly from Node.js (e.g., `tsx src/lib/tenant-admin.ts`)
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,120 @@
+// src/lib/tenant-context.test.ts
+// Row-level security: under one tenant's scope, queries without a tenant_id filter must neither see nor change
+// another tenant's rows. withSystemScope is the only way past the policies.
+import { cleanUpTestDatabase, createTestTenant, prepareTestDatabase, testDatabaseSkipReason } from '@/test/database'; // Must come first: points db.ts at the test database
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import pool from '@/lib/db';
+import { withSystemScope, withTenantScope } from '@/lib/tenant-context';
+
+// Tables with a tenant_id that are deliberately readable before a tenant scope exists (host routing, purge records)
+const TABLES_WITHOUT_ISOLATION = ['tenants', 'tenant_custom_domains', 'tenant_deletion_certificates'];
+
+describe('tenant isolation', { skip: testDatabaseSkipReason }, () => {
+  let tenantA: string;
+  let tenantB: string;
+  let holidayA: string;
+  let holidayB: string;
+
+  before(async () => {
+    await prepareTestDatabase();
+    tenantA = await createTestTenant('A');
+    tenantB = await createTestTenant('B');
+    const insertHoliday = (tenantId: string, name: string) => withSystemScope('test setup', () => pool.query(
+      `INSERT INTO holidays (tenant_id, name, date) VALUES ($1, $2, '2030-01-01') RETURNING id`,
+      [tenantId, name]
+    ));
+    holidayA = (await insertHoliday(tenantA, 'A holiday')).rows[0].id;
+    holidayB = (await insertHoliday(tenantB, 'B holiday')).rows[0].id;
+  });
+
+  after(async () => {
+    await cleanUpTestDatabase([tenantA, tenantB].filter(Boolean));
+  });
+
+  const asTenantA = <T>(fn: () => Promise<T>) => withTenantScope(tenantA, fn);
+  const readHolidayB = () => withSystemScope('test check', () => pool.query('SELECT name FROM holidays WHERE id = $1', [holidayB]));
+
+  test('every table with a tenant_id has a forced tenant_isolation policy', async () => {
+    const res = await pool.query(
+      `SELECT c.relname, c.relrowsecurity, c.relforcerowsecurity,
+              EXISTS (SELECT 1 FROM pg_policies p WHERE p.schemaname = n.nspname AND p.tablename = c.relname AND p.policyname = 'tenant_isolation') AS has_policy
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       JOIN pg_attribute a ON a.attrelid = c.oid AND a.attname = 'tenant_id' AND NOT a.attisdropped
+       WHERE n.nspname = current_schema() AND c.relkind = 'r'`
+    );
+    const unprotected = res.rows
+      .filter((row: any) => !TABLES_WITHOUT_ISOLATION.includes(row.relname))
+      .filter((row: any) => !row.relrowsecurity || !row.relforcerowsecurity || !row.has_policy)
+      .map((row: any) => row.relname);
+    assert.ok(res.rows.length > TABLES_WITHOUT_ISOLATION.length);
+    assert.deepEqual(unprotected, []);
+  });
+
+  test('an unfiltered SELECT only returns rows of the scoped tenant', async () => {
+    const res = await asTenantA(() => pool.query('SELECT id, tenant_id FROM holidays'));
+    assert.ok(res.rows.some((row: any) => row.id === holidayA));
+    assert.ok(res.rows.every((row: any) => row.tenant_id === tenantA));
+
+    const byId = await asTenantA(() => pool.query('SELECT id FROM holidays WHERE id = $1', [holidayB]));
+    assert.equal(byId.rowCount, 0);
+  });
+
+  test("an INSERT of another tenant's row is rejected", async () => {
+    await assert.rejects(
+      asTenantA(() => pool.query(`INSERT INTO holidays (tenant_id, name, date) VALUES ($1, 'Injected', '2030-02-01')`, [tenantB])),
+      (err: any) => err.code === '42501' // new row violates row-level security policy
+    );
+  });
+
+  test("an unfiltered UPDATE does not reach another tenant's rows", async () => {
+    const res = await asTenantA(() => pool.query(`UPDATE holidays SET name = 'Overwritten' WHERE id = $1 OR id = $2`, [holidayA, holidayB]));
+    assert.equal(res.rowCount, 1);
+    assert.equal((await readHolidayB()).rows[0].name, 'B holiday');
+  });
+
+  test("an UPDATE cannot move a row to another tenant", async () => {
+    await assert.rejects(
+      asTenantA(() => pool.query('UPDATE holidays SET tenant_id = $1 WHERE id = $2', [tenantB, holidayA])),
+      (err: any) => err.code === '42501'
+    );
+  });
+
+  test("an unfiltered DELETE does not reach another tenant's rows", async () => {
+    const res = await asTenantA(() => pool.query('DELETE FROM holidays WHERE id = $1', [holidayB]));
+    assert.equal(res.rowCount, 0);
+    assert.equal((await readHolidayB()).rowCount, 1);
+  });
+
+  test('without any scope tenant tables read as empty and reject writes', async () => {
+    const res = await pool.query('SELECT id FROM holidays WHERE id = ANY($1)', [[holidayA, holidayB]]);
+    assert.equal(res.rowCount, 0);
+    await assert.rejects(
+      pool.query(`INSERT INTO holidays (tenant_id, name, date) VALUES ($1, 'Unscoped', '2030-03-01')`, [tenantB]),
+      (err: any) => err.code === '42501'
+    );
+  });
+
+  test('a pooled connection takes the scope of its next user', async () => {
+    const client = await asTenantA(() => pool.connect());
+    client.release();
+    const res = await withTenantScope(tenantB, () => pool.query('SELECT tenant_id FROM holidays WHERE id = ANY($1)', [[holidayA, holidayB]]));
+    assert.deepEqual(res.rows.map((row: any) => row.tenant_id), [tenantB]);
+  });
+
+  test('withSystemScope is the only way to reach every tenant', async () => {
+    const res = await withSystemScope('test check', () => pool.query('SELECT tenant_id FROM holidays WHERE id = ANY($1)', [[holidayA, holidayB]]));
+    assert.deepEqual(new Set(res.rows.map((row: any) => row.tenant_id)), new Set([tenantA, tenantB]));
+
+    // Setting the bypass flag by hand inside a tenant scope is reset when the next connection is checked out
+    const client = await asTenantA(() => pool.connect());
+    try {
+      await client.query(`SELECT set_config('app.rls_bypass', 'on', false)`);
+    } finally {
+      client.release();
+    }
+    const afterRelease = await asTenantA(() => pool.query('SELECT id FROM holidays WHERE id = $1', [holidayB]));
+    assert.equal(afterRelease.rowCount, 0);
+  });
+});
@@ -0,0 +1,137 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Tenant scope applied to database connections for Postgres row-level security.
+ *
+ * Every connection checked out of the pool is tagged with `app.tenant_id` (and `app.rls_bypass`),
+ * which the `tenant_isolation` policies compare against each row's tenant_id.
+ * By default the tenant comes from the request Host, because sessions and API keys are bound to their tenant's host.
+ * Code running outside a tenant host (registration, background jobs, cross-tenant checks) sets the scope explicitly.
+ * Without any scope no tenant is set and tenant tables read as empty (fail closed).
+ */
+export interface TenantScope {
+  tenantId: string | null;
+  bypass: boolean;
+}
+
+interface ExplicitScope extends TenantScope {
+  reason?: string;
+}
+
+const scopeStorage = new AsyncLocalStorage<ExplicitScope>();
+
+const TENANT_ID_CACHE_TTL_MS = 60 * 1000;
+const tenantIdCache = new Map<string, { tenantId: string; expiresAt: number }>();
+// Unknown hosts are cached too (subdomain null): every request on them would otherwise query the database
+const CUSTOM_DOMAIN_CACHE_MAX_ENTRIES = 1000;
+const customDomainCache = new Map<string, { subdomain: string | null; expiresAt: number }>();
+
+let lookupCustomDomain: ((domain: string) => Promise<string | null>) | null = null;
+
+/**
+ * Runs `fn` with database connections scoped to the given tenant, regardless of the request host.
+ * Connections are scoped when checked out, so a client obtained inside keeps this tenant.
+ */
+export function withTenantScope<T>(tenantId: string, fn: () => Promise<T>): Promise<T> {
+  return scopeStorage.run({ tenantId, bypass: false }, fn);
+}
+
+/**
+ * Runs `fn` with row-level security bypassed. Only for deliberate cross-tenant work; the reason is logged.
+ */
+export function withSystemScope<T>(reason: string, fn: () => Promise<T>): Promise<T> {
+  console.log(`[tenant-context] Bypassing row-level security: ${reason}`);
+  return scopeStorage.run({ tenantId: null, bypass: true, reason }, fn);
+}
+
+/**
+ * Resolves the tenant subdomain from a request Host header.
+ * Returns isRootContext=true for the bare root domain, localhost or a raw IP (no tenant).
+ */
+export function resolveTenantSubdomainFromHost(host: string): { subdomain: string | null; isRootContext: boolean } {
+  const rootDomain = process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost';
+  const normalizedHost = host.split(':')[0];
+
+  const match = normalizedHost.match(new RegExp(`^(.*)\\.${rootDomain.replace(/\./g, '\\.')}$`));
+  const subdomain = match ? match[1] : null;
+
+  const isRootContext = !!(normalizedHost === rootDomain ||
+                         normalizedHost === 'localhost' ||
+                         normalizedHost === '127.0.0.1' ||
+                         normalizedHost.match(/^(?:[0-9]{1,3}\.){3}[0-9]{1,3}$/));
+  return { subdomain, isRootContext };
+}
+
+/**
+ * Registers how a verified custom domain maps to its tenant's subdomain.
+ * Set by the database pool (db.ts), which can query it before a tenant scope exists.
+ */
+export function setCustomDomainLookup(lookup: (domain: string) => Promise<string | null>): void {
+  lookupCustomDomain = lookup;
+}
+
+/** Drops a cached custom domain mapping after the domain is verified or removed. */
+export function forgetCustomDomain(domain: string): void {
+  customDomainCache.delete(domain.toLowerCase());
+}
+
+/**
+ * Like `resolveTenantSubdomainFromHost`, but also maps a tenant's verified custom domain (e.g. hr.example.com)
+ * to its subdomain. Use this wherever the tenant of a request is determined from its Host.
+ */
+export async function resolveTenantSubdomainForHost(host: string): Promise<{ subdomain: string | null; isRootContext: boolean }> {
+  const resolved = resolveTenantSubdomainFromHost(host);
+  if (resolved.subdomain || resolved.isRootContext || !lookupCustomDomain) {
+    return resolved;
+  }
+
+  const domain = host.split(':')[0].toLowerCase();
+  if (!domain) {
+    return resolved;
+  }
+  const cached = customDomainCache.get(domain);
+  if (cached && cached.expiresAt > Date.now()) {
+    return { subdomain: cached.subdomain, isRootContext: false };
+  }
+  const subdomain = await lookupCustomDomain(domain);
+  if (customDomainCache.size >= CUSTOM_DOMAIN_CACHE_MAX_ENTRIES) customDomainCache.clear(); // Arbitrary Host headers must not grow it forever
+  customDomainCache.set(domain, { subdomain, expiresAt: Date.now() + TENANT_ID_CACHE_TTL_MS });
+  return { subdomain, isRootContext: false };
+}
+
+/** Host of the current request, or null outside a request (scripts, migrations). */
+async function getRequestHost(): Promise<string | null> {
+  try {
+    const { headers } = await import('next/headers');
+    return (await headers()).get('host');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Determines the scope for a connection being checked out now.
+ * @param lookupTenantId Maps a subdomain to its tenant_id (the tenants table itself has no row-level security).
+ */
+export async function resolveCurrentTenantScope(lookupTenantId: (subdomain: string) => Promise<string | null>): Promise<TenantScope> {
+  const explicitScope = scopeStorage.getStore();
+  if (explicitScope) {
+    return { tenantId: explicitScope.tenantId, bypass: explicitScope.bypass };
+  }
+
+  const host = await getRequestHost();
+  const subdomain = host ? (await resolveTenantSubdomainForHost(host)).subdomain?.toLowerCase() : null;
+  if (!subdomain) {
+    return { tenantId: null, bypass: false };
+  }
+
+  const cached = tenantIdCache.get(subdomain);
+  if (cached && cached.expiresAt > Date.now()) {
+    return { tenantId: cached.tenantId, bypass: false };
+  }
+  const tenantId = await lookupTenantId(subdomain);
+  if (tenantId) { // Unknown subdomains are not cached, so a newly registered company works immediately
+    tenantIdCache.set(subdomain, { tenantId, expiresAt: Date.now() + TENANT_ID_CACHE_TTL_MS });
+  }
+  return { tenantId, bypass: false };
+}
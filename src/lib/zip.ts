@@ -0,0 +1,121 @@
+// src/lib/zip.ts
+// Minimal ZIP writer for archives built in memory, such as tenant data exports. Entries are deflated
+// (or stored when that is not smaller) with UTF-8 names. No ZIP64: an archive must stay under 4 GB
+// and 65,535 entries, which is checked.
+import { deflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, with forward slashes
+  data: Buffer | string; // Strings are written as UTF-8
+  modifiedAt?: Date;
+}
+
+const MAX_ZIP32_VALUE = 0xffffffff;
+const MAX_ZIP32_ENTRIES = 0xffff;
+const UTF8_NAME_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS time and date fields, in local time as unzip tools expect. Dates before 1980 are clamped. */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Builds a zip archive of the entries.
+ * @throws Error when names repeat or are unsafe, or the archive would need ZIP64.
+ */
+export function createZipArchive(entries: ZipEntry[]): Buffer {
+  if (entries.length > MAX_ZIP32_ENTRIES) {
+    throw new Error(`A zip archive can hold at most ${MAX_ZIP32_ENTRIES} files.`);
+  }
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  const seenNames = new Set<string>();
+  let offset = 0;
+
+  for (const entry of entries) {
+    if (!entry.name || entry.name.startsWith('/') || entry.name.split('/').includes('..')) {
+      throw new Error(`Invalid zip entry name: "${entry.name}".`);
+    }
+    if (seenNames.has(entry.name)) {
+      throw new Error(`Duplicate zip entry name: "${entry.name}".`);
+    }
+    seenNames.add(entry.name);
+
+    const name = Buffer.from(entry.name, 'utf8');
+    const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf8') : entry.data;
+    const deflated = deflateRawSync(data);
+    const method = deflated.length < data.length ? METHOD_DEFLATE : METHOD_STORE;
+    const content = method === METHOD_DEFLATE ? deflated : data;
+    const checksum = crc32(data);
+    const { time, date } = dosDateTime(entry.modifiedAt ?? new Date());
+    if (data.length > MAX_ZIP32_VALUE || offset + 30 + name.length + content.length > MAX_ZIP32_VALUE) {
+      throw new Error('The zip archive would exceed 4 GB.');
+    }
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0); // Local file header signature
+    local.writeUInt16LE(20, 4); // Version needed to extract (2.0)
+    local.writeUInt16LE(UTF8_NAME_FLAG, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(content.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // Extra field length
+    localParts.push(local, name, content);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0); // Central directory header signature
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6); // Version needed to extract
+    central.writeUInt16LE(UTF8_NAME_FLAG, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(content.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    // Extra field, comment, disk number and internal/external attributes stay 0
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + content.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  if (offset + centralDirectory.length > MAX_ZIP32_VALUE) {
+    throw new Error('The zip archive would exceed 4 GB.');
+  }
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0); // End of central directory signature
+  end.writeUInt16LE(entries.length, 8); // Entries on this disk
+  end.writeUInt16LE(entries.length, 10); // Entries in total
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
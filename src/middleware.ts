@@ -1,22 +1,78 @@
 
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-
-// Define the session cookie name directly in the middleware
-const SESSION_COOKIE_NAME = 'syntaxHiveHrmSession';
+import { SESSION_COOKIE_NAME, PLATFORM_SESSION_COOKIE_NAME, createSessionToken, verifySessionToken, verifyPlatformSessionToken } from '@/modules/auth/lib/session-token';
+import type { VerifiedSessionToken } from '@/modules/auth/lib/session-token';
 
 const IGNORED_SUBDOMAINS = ['www', 'api', 'mail', 'ftp', 'assets'];
 const ROOT_DOMAIN = process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost';
 const PUBLIC_ROOT_PATHS = ['/register', '/forgot-password', '/jobs'];
-const AUTH_PATHS = ['/login', '/forgot-password'];
+// '/suspended' checks the company status itself; middleware runs on the edge runtime without database access.
+const AUTH_PATHS = ['/login', '/forgot-password', '/reset-password', '/accept-invite', '/suspended'];
+// Public pages of a company, shown in its branding on its subdomain or custom domain without sign-in.
+const PUBLIC_TENANT_PATHS = ['/jobs'];
+// Operator console on the root domain. Pages re-check the server-side platform session; this only keeps anonymous visitors out.
+const PLATFORM_PATH = '/platform';
+const PLATFORM_LOGIN_PATH = '/platform/login';
+// Companies' verified custom domains, looked up through the API (which has database access) and cached briefly.
+const CUSTOM_DOMAIN_CACHE_TTL_MS = 60 * 1000;
+const CUSTOM_DOMAIN_LOOKUP_TIMEOUT_MS = 3000;
+// Failed lookups are cached too, so a slow or down API is not asked again on every request
+const CUSTOM_DOMAIN_FAILURE_CACHE_TTL_MS = 10 * 1000;
+const CUSTOM_DOMAIN_CACHE_MAX_ENTRIES = 1000;
+const customDomainCache = new Map<string, { subdomain: string | null; expiresAt: number }>();
+// Fixed address of this app for that lookup. Never derived from the request: its Host header is chosen by the client.
+const INTERNAL_APP_URL = process.env.INTERNAL_APP_URL || `http://127.0.0.1:${process.env.PORT || 9002}`;
+
+// Subdomain of the company that verified `hostname` as its custom domain, or null for an unknown host.
+async function resolveCustomDomain(hostname: string): Promise<string | null> {
+  const cached = customDomainCache.get(hostname);
+  if (cached && cached.expiresAt > Date.now()) return cached.subdomain;
+  try {
+    const lookupUrl = new URL('/api/domains/resolve', INTERNAL_APP_URL);
+    lookupUrl.searchParams.set('host', hostname);
+    const response = await fetch(lookupUrl, { cache: 'no-store', signal: AbortSignal.timeout(CUSTOM_DOMAIN_LOOKUP_TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const { subdomain } = await response.json();
+    return cacheCustomDomain(hostname, typeof subdomain === 'string' && subdomain ? subdomain : null, CUSTOM_DOMAIN_CACHE_TTL_MS);
+  } catch (error: any) {
+    console.error(`[Middleware] Custom domain lookup for ${hostname} failed: ${error.message}`);
+    return cacheCustomDomain(hostname, null, CUSTOM_DOMAIN_FAILURE_CACHE_TTL_MS);
+  }
+}
+
+function cacheCustomDomain(hostname: string, subdomain: string | null, ttlMs: number): string | null {
+  if (customDomainCache.size >= CUSTOM_DOMAIN_CACHE_MAX_ENTRIES) customDomainCache.clear(); // Arbitrary Host headers must not grow it forever
+  customDomainCache.set(hostname, { subdomain, expiresAt: Date.now() + ttlMs });
+  return subdomain;
+}
+
+// Re-signs tokens issued with a rotated-out (but still accepted) key so they migrate to the active key.
+async function refreshRotatedSessionCookie(response: NextResponse, verified: VerifiedSessionToken | null): Promise<NextResponse> {
+  if (!verified || verified.isCurrentKey) return response;
+  try {
+    const refreshedToken = await createSessionToken(verified.session, undefined, verified.expiresAt);
+    response.cookies.set(SESSION_COOKIE_NAME, refreshedToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      sameSite: 'lax',
+      maxAge: Math.max(verified.expiresAt - Math.floor(Date.now() / 1000), 0),
+    });
+    console.log(`[Middleware] Re-signed session token from rotated key '${verified.kid}'.`);
+  } catch (error: any) {
+    console.error(`[Middleware] Failed to re-sign session token: ${error.message}`);
+  }
+  return response;
+}
 
 export async function middleware(request: NextRequest) {
   const url = request.nextUrl.clone();
   const hostname = request.headers.get('host') || request.headers.get('x-forwarded-host') || '';
   const normalizedHostname = hostname.split(':')[0];
-  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME); // Use the locally defined constant
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
 
-  console.log(`[Middleware] Request URL: ${url.toString()}, Hostname: ${normalizedHostname}, Path: ${url.pathname}, Session: ${sessionCookie ? 'Exists' : 'None'}`);
+  console.log(`[Middleware] Request URL: ${url.toString()}, Hostname: ${normalizedHostname}, Path: ${url.pathname}, Session cookie: ${sessionCookie ? 'Exists' : 'None'}`);
 
   if (
     url.pathname.startsWith('/_next') ||
@@ -51,19 +107,42 @@ export async function middleware(request: NextRequest) {
       console.log(`[Middleware] Root domain, login path. Allowing.`);
       return NextResponse.next();
     }
+    if (url.pathname === PLATFORM_PATH || url.pathname.startsWith(`${PLATFORM_PATH}/`)) {
+      if (url.pathname === PLATFORM_LOGIN_PATH) {
+        return NextResponse.next();
+      }
+      const platformCookie = request.cookies.get(PLATFORM_SESSION_COOKIE_NAME);
+      if (!(await verifyPlatformSessionToken(platformCookie?.value))) {
+        console.log(`[Middleware] Root domain, platform path ${url.pathname} without a valid platform session. Redirecting to ${PLATFORM_LOGIN_PATH}.`);
+        const loginUrl = request.nextUrl.clone();
+        loginUrl.pathname = PLATFORM_LOGIN_PATH;
+        loginUrl.search = '';
+        const response = NextResponse.redirect(loginUrl);
+        if (platformCookie) response.cookies.delete(PLATFORM_SESSION_COOKIE_NAME);
+        return response;
+      }
+      console.log(`[Middleware] Root domain, platform path ${url.pathname} with a platform session. Allowing.`);
+      return NextResponse.next();
+    }
     console.log(`[Middleware] Root domain, non-public path ${url.pathname}. Rewriting to /register.`);
     url.pathname = '/register';
     return NextResponse.rewrite(url); // Use rewrite
   }
 
   const subdomainMatch = normalizedHostname.match(new RegExp(`^(.*)\\.${ROOT_DOMAIN.replace(/\./g, '\\.')}$`));
-  const subdomain = subdomainMatch ? subdomainMatch[1] : null;
+  // Any other host may be a company's custom domain; it is then served exactly like the company's subdomain.
+  const subdomain = subdomainMatch ? subdomainMatch[1] : await resolveCustomDomain(normalizedHostname.toLowerCase());
 
   if (subdomain && !IGNORED_SUBDOMAINS.includes(subdomain)) {
-    console.log(`[Middleware] Tenant subdomain: ${subdomain}, Path: ${url.pathname}`);
+    console.log(`[Middleware] Tenant subdomain: ${subdomain}${subdomainMatch ? '' : ` (custom domain ${normalizedHostname})`}, Path: ${url.pathname}`);
     const requestHeaders = new Headers(request.headers);
     requestHeaders.set('X-Tenant-Domain', subdomain);
 
+    if (PUBLIC_TENANT_PATHS.some(path => url.pathname === path || url.pathname.startsWith(`${path}/`))) {
+      console.log(`[Middleware] Public path on subdomain ${subdomain}: ${url.pathname}`);
+      return NextResponse.rewrite(url, { request: { headers: requestHeaders } });
+    }
+
     if (AUTH_PATHS.some(authPath => url.pathname === authPath || url.pathname.startsWith(`${authPath}/`))) {
       let rewritePath = url.pathname;
       if (url.pathname.startsWith('/forgot-password/') && url.pathname !== `/forgot-password/${subdomain}`) {
@@ -78,26 +157,42 @@ export async function middleware(request: NextRequest) {
       return NextResponse.rewrite(url, { request: { headers: requestHeaders } });
     }
 
+    // Verify the signed/encrypted session token (signature, key id and expiry).
+    const verifiedSession = await verifySessionToken(sessionCookie?.value);
+    const hasValidSession = !!verifiedSession && verifiedSession.session.tenantDomain === subdomain;
+
     if (url.pathname === '/') {
-      if (!sessionCookie) {
-        console.log(`[Middleware] Tenant root ${subdomain}, no session. Rewriting to /login on this subdomain (will be handled by (auth) group).`);
+      if (!hasValidSession) {
+        console.log(`[Middleware] Tenant root ${subdomain}, no valid session. Rewriting to /login on this subdomain (will be handled by (auth) group).`);
         url.pathname = `/login`;
-        return NextResponse.rewrite(url, { request: { headers: requestHeaders } });
+        const response = NextResponse.rewrite(url, { request: { headers: requestHeaders } });
+        if (sessionCookie) response.cookies.delete(SESSION_COOKIE_NAME);
+        return response;
       } else {
-        console.log(`[Middleware] Tenant root ${subdomain}, HAS session. Rewriting to /${subdomain}/dashboard`);
+        console.log(`[Middleware] Tenant root ${subdomain}, HAS valid session. Rewriting to /${subdomain}/dashboard`);
         url.pathname = `/${subdomain}/dashboard`;
-        return NextResponse.rewrite(url, { request: { headers: requestHeaders } });
+        return refreshRotatedSessionCookie(NextResponse.rewrite(url, { request: { headers: requestHeaders } }), verifiedSession);
       }
     }
 
+    if (!hasValidSession) {
+      console.log(`[Middleware] App path ${url.pathname} on subdomain ${subdomain} without a valid session (${sessionCookie ? 'invalid/expired token' : 'no cookie'}). Redirecting to /login.`);
+      const loginUrl = request.nextUrl.clone();
+      loginUrl.pathname = '/login';
+      loginUrl.search = '';
+      const response = NextResponse.redirect(loginUrl);
+      if (sessionCookie) response.cookies.delete(SESSION_COOKIE_NAME);
+      return response;
+    }
+
     if (!url.pathname.startsWith(`/${subdomain}/`)) {
       console.log(`[Middleware] App path on subdomain ${subdomain}. Rewriting ${url.pathname} to /${subdomain}${url.pathname}`);
       url.pathname = `/${subdomain}${url.pathname}`;
-      return NextResponse.rewrite(url, { request: { headers: requestHeaders } });
+      return refreshRotatedSessionCookie(NextResponse.rewrite(url, { request: { headers: requestHeaders } }), verifiedSession);
     }
 
     console.log(`[Middleware] Passing through already rewritten or internal path for subdomain ${subdomain}: ${url.pathname}`);
-    return NextResponse.rewrite(url, { request: { headers: requestHeaders } });
+    return refreshRotatedSessionCookie(NextResponse.rewrite(url, { request: { headers: requestHeaders } }), verifiedSession);
   }
 
   console.log(`[Middleware] Unrecognized hostname structure: ${normalizedHostname}. Rewriting to root /register.`);
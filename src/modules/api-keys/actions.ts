@@ -0,0 +1,105 @@
+'use server';
+
+import type { ApiKey, ApiKeyFormData } from '@/modules/api-keys/types';
+import { API_KEY_PREFIX, apiKeyFormSchema } from '@/modules/api-keys/types';
+import {
+  getApiKeysForTenant as dbGetApiKeysForTenant,
+  getApiKeysForUser as dbGetApiKeysForUser,
+  getApiKeyById as dbGetApiKeyById,
+  addApiKey as dbAddApiKey,
+  revokeApiKey as dbRevokeApiKey,
+} from '@/modules/api-keys/lib/db';
+import { generateSecureToken, hashToken } from '@/modules/auth/lib/utils';
+import type { SessionData } from '@/modules/auth/types';
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { getSessionData, getPermissionsFromSession } from '@/modules/auth/actions';
+
+// Keys are managed from a browser session only; an API key can never mint or revoke keys,
+// and neither can an admin who is impersonating the key owner.
+async function getKeyManagementSession(): Promise<(SessionData & { tenantId: string }) | null> {
+  const session = await getSessionData();
+  if (!session?.userId || !session.tenantId || session.apiKey || session.impersonation) return null;
+  return { ...session, tenantId: session.tenantId };
+}
+
+/**
+ * Keys visible to the caller: their own, plus every key in the tenant for holders of `security.manage`.
+ */
+export async function getApiKeysAction(): Promise<{ success: boolean; keys?: ApiKey[]; canManageTenantKeys?: boolean; error?: string }> {
+  const session = await getKeyManagementSession();
+  if (!session) return { success: false, error: 'Unauthorized to view API keys.' };
+
+  try {
+    const canManageTenantKeys = (await getPermissionsFromSession()).includes('security.manage');
+    const keys = canManageTenantKeys
+      ? await dbGetApiKeysForTenant(session.tenantId)
+      : await dbGetApiKeysForUser(session.userId, session.tenantId);
+    return { success: true, keys, canManageTenantKeys };
+  } catch (error: any) {
+    console.error("[Action getApiKeysAction] Error fetching API keys:", error);
+    return { success: false, error: error.message || 'Failed to load API keys.' };
+  }
+}
+
+/**
+ * Creates a key owned by the caller. The plain key is returned only here; just its hash is stored.
+ * Tenant (integration) keys require `security.manage`.
+ */
+export async function createApiKeyAction(formData: ApiKeyFormData): Promise<{ success: boolean; key?: ApiKey; token?: string; errors?: z.ZodIssue[] | { code: string; path: string[]; message: string }[] }> {
+  const session = await getKeyManagementSession();
+  if (!session) {
+    return { success: false, errors: [{ code: 'custom', path: [], message: 'Unauthorized to create API keys.' }] };
+  }
+
+  const validation = apiKeyFormSchema.safeParse(formData);
+  if (!validation.success) {
+    return { success: false, errors: validation.error.errors };
+  }
+  const { name, kind, scopes, expiresInDays } = validation.data;
+  if (kind === 'tenant' && !(await getPermissionsFromSession()).includes('security.manage')) {
+    return { success: false, errors: [{ code: 'custom', path: ['kind'], message: "Forbidden: Tenant API keys require the 'security.manage' permission." }] };
+  }
+
+  try {
+    const token = `${API_KEY_PREFIX}${generateSecureToken(32)}`;
+    const key = await dbAddApiKey({
+      tenant_id: session.tenantId,
+      user_id: session.userId,
+      kind,
+      name,
+      token_prefix: token.slice(0, API_KEY_PREFIX.length + 6),
+      token_hash: hashToken(token),
+      scopes,
+      expires_at: expiresInDays > 0 ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+    });
+    console.log(`[Action createApiKeyAction] ${kind} API key ${key.id} "${name}" created by user ${session.userId} with scopes ${scopes.join(', ')}.`);
+    revalidatePath(`/${session.tenantDomain}/settings`);
+    return { success: true, key, token };
+  } catch (error: any) {
+    console.error("[Action createApiKeyAction] Error creating API key:", error);
+    return { success: false, errors: [{ code: 'custom', path: ['name'], message: error.message || 'Failed to create API key.' }] };
+  }
+}
+
+/** Revokes a key. Owners can revoke their own keys; `security.manage` holders can revoke any key in the tenant. */
+export async function revokeApiKeyAction(id: string): Promise<{ success: boolean; error?: string }> {
+  const session = await getKeyManagementSession();
+  if (!session) return { success: false, error: 'Unauthorized to revoke API keys.' };
+
+  try {
+    const key = await dbGetApiKeyById(id, session.tenantId);
+    if (!key) return { success: false, error: 'API key not found.' };
+    if (key.userId !== session.userId && !(await getPermissionsFromSession()).includes('security.manage')) {
+      return { success: false, error: 'Unauthorized to revoke this API key.' };
+    }
+    const revoked = await dbRevokeApiKey(id, session.tenantId);
+    if (!revoked) return { success: false, error: 'API key is already revoked.' };
+    console.log(`[Action revokeApiKeyAction] API key ${id} revoked by user ${session.userId}.`);
+    revalidatePath(`/${session.tenantDomain}/settings`);
+    return { success: true };
+  } catch (error: any) {
+    console.error("[Action revokeApiKeyAction] Error revoking API key:", error);
+    return { success: false, error: error.message || 'Failed to revoke API key.' };
+  }
+}
@@ -0,0 +1,351 @@
+"use client";
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { API_KEY_SCOPE_REGISTRY, API_KEY_EXPIRY_DAYS, apiKeyFormSchema, type ApiKey, type ApiKeyFormData } from '@/modules/api-keys/types';
+import { createApiKeyAction, revokeApiKeyAction } from '@/modules/api-keys/actions';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { PlusCircle, Trash2, Loader2, KeyRound, Copy } from 'lucide-react';
+
+const DEFAULT_FORM_VALUES: ApiKeyFormData = { name: '', kind: 'personal', scopes: [], expiresInDays: 90 };
+
+function keyStatus(key: ApiKey): { label: string; variant: 'default' | 'secondary' | 'destructive' } {
+  if (key.revokedAt) return { label: 'Revoked', variant: 'destructive' };
+  if (key.expiresAt && parseISO(key.expiresAt) < new Date()) return { label: 'Expired', variant: 'secondary' };
+  return { label: 'Active', variant: 'default' };
+}
+
+interface ApiKeyManagerProps {
+  initialKeys: ApiKey[];
+  currentUserId: string;
+  canManageTenantKeys: boolean; // security.manage: sees every key in the tenant and may create tenant keys
+}
+
+export function ApiKeyManager({ initialKeys, currentUserId, canManageTenantKeys }: ApiKeyManagerProps) {
+  const { toast } = useToast();
+  const [keys, setKeys] = React.useState<ApiKey[]>(initialKeys);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [isRevoking, setIsRevoking] = React.useState<Record<string, boolean>>({});
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [createdToken, setCreatedToken] = React.useState<string | null>(null);
+
+  const form = useForm<ApiKeyFormData>({
+    resolver: zodResolver(apiKeyFormSchema),
+    defaultValues: DEFAULT_FORM_VALUES,
+  });
+
+  const openCreateDialog = () => {
+    form.reset(DEFAULT_FORM_VALUES);
+    setCreatedToken(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleDialogClose = (open: boolean) => {
+    if (!open) {
+      setCreatedToken(null);
+      form.clearErrors();
+    }
+    setIsDialogOpen(open);
+  };
+
+  const onSubmit = async (data: ApiKeyFormData) => {
+    setIsSubmitting(true);
+    try {
+      const result = await createApiKeyAction(data);
+      if (!result.success || !result.key || !result.token) {
+        throw new Error(result.errors?.[0]?.message || 'Failed to create API key.');
+      }
+      const createdKey = result.key;
+      setKeys(prev => [createdKey, ...prev]);
+      setCreatedToken(result.token);
+      toast({
+        title: "API Key Created",
+        description: "Copy the key now. It will not be shown again.",
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+    } catch (error: any) {
+      console.error("API Key Create error:", error);
+      toast({ title: "Error Creating API Key", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+      form.setError("root.serverError", { message: error.message || "An unexpected server error occurred." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    setIsRevoking(prev => ({ ...prev, [key.id]: true }));
+    try {
+      const result = await revokeApiKeyAction(key.id);
+      if (!result.success) {
+        throw new Error(result.error || "Could not revoke API key.");
+      }
+      setKeys(prev => prev.map(k => k.id === key.id ? { ...k, revokedAt: new Date().toISOString() } : k));
+      toast({
+        title: "API Key Revoked",
+        description: `${key.name} no longer works.`,
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+    } catch (error: any) {
+      console.error("API Key Revoke error:", error);
+      toast({ title: "Revoke Failed", description: error.message || "Could not revoke API key.", variant: "destructive" });
+    } finally {
+      setIsRevoking(prev => ({ ...prev, [key.id]: false }));
+    }
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toast({ title: "Copied", description: "API key copied to the clipboard." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Select the key and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={openCreateDialog}>
+          <PlusCircle className="mr-2 h-4 w-4" /> Create API Key
+        </Button>
+      </div>
+      {keys.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No API keys yet.</p>
+      ) : (
+      <div className="overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              {canManageTenantKeys && <TableHead>Owner</TableHead>}
+              <TableHead>Scopes</TableHead>
+              <TableHead>Last Used</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {keys.map((key) => {
+              const status = keyStatus(key);
+              return (
+                <TableRow key={key.id}>
+                  <TableCell className="font-medium">
+                    {key.name}
+                    {key.kind === 'tenant' && <Badge variant="secondary" className="ml-2">Tenant</Badge>}
+                    <span className="block font-mono text-xs text-muted-foreground">{key.tokenPrefix}…</span>
+                  </TableCell>
+                  {canManageTenantKeys && <TableCell>{key.userId === currentUserId ? 'You' : key.ownerName || '-'}</TableCell>}
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {key.scopes.map(scope => <Badge key={scope} variant="outline" className="font-mono text-xs">{scope}</Badge>)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {key.lastUsedAt ? `${formatDistanceToNow(parseISO(key.lastUsedAt), { addSuffix: true })}${key.lastUsedIp ? ` from ${key.lastUsedIp}` : ''}` : 'Never'}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{key.expiresAt ? format(parseISO(key.expiresAt), 'PP') : 'Never'}</TableCell>
+                  <TableCell><Badge variant={status.variant}>{status.label}</Badge></TableCell>
+                  <TableCell className="text-right">
+                    {!key.revokedAt && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8" disabled={isRevoking[key.id]}>
+                            {isRevoking[key.id] ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                            <span className="sr-only">Revoke</span>
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Revoke this API key?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Integrations using <strong>{key.name}</strong> will stop working immediately. This cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel disabled={isRevoking[key.id]}>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleRevoke(key)} disabled={isRevoking[key.id]} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                              {isRevoking[key.id] ? "Revoking..." : "Revoke"}
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogClose}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{createdToken ? 'API Key Created' : 'Create API Key'}</DialogTitle>
+            <DialogDescription>
+              {createdToken
+                ? 'Copy this key now. For your security it will not be shown again.'
+                : 'Send the key as "Authorization: Bearer <key>" to the /api routes. It acts as you, limited to the selected scopes.'}
+            </DialogDescription>
+          </DialogHeader>
+          {createdToken ? (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Input readOnly value={createdToken} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                <Button type="button" variant="outline" size="icon" onClick={copyToken} aria-label="Copy API key">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button type="button">Done</Button>
+                </DialogClose>
+              </DialogFooter>
+            </div>
+          ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2">
+              {form.formState.errors.root?.serverError && (
+                <FormMessage className="text-destructive text-center">
+                  {form.formState.errors.root.serverError.message}
+                </FormMessage>
+              )}
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Payroll sync" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid gap-4 sm:grid-cols-2">
+                {canManageTenantKeys && (
+                  <FormField
+                    control={form.control}
+                    name="kind"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Type</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                          <SelectContent>
+                            <SelectItem value="personal">Personal access token</SelectItem>
+                            <SelectItem value="tenant">Tenant integration key</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>Tenant keys are listed for all security admins.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <FormField
+                  control={form.control}
+                  name="expiresInDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expires</FormLabel>
+                      <Select onValueChange={value => field.onChange(Number(value))} value={String(field.value)}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          {API_KEY_EXPIRY_DAYS.map(days => (
+                            <SelectItem key={days} value={String(days)}>{days === 0 ? 'Never' : `In ${days} days`}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="scopes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Scopes</FormLabel>
+                    <FormDescription>The key can never do more than your own permissions allow.</FormDescription>
+                    <div className="grid gap-2 pt-1 sm:grid-cols-2">
+                      {API_KEY_SCOPE_REGISTRY.map(scope => (
+                        <label key={scope.key} className="flex items-start gap-2 text-sm">
+                          <FormControl>
+                            <Checkbox
+                              className="mt-0.5"
+                              checked={field.value?.includes(scope.key)}
+                              onCheckedChange={checked => field.onChange(
+                                checked ? [...(field.value || []), scope.key] : (field.value || []).filter(s => s !== scope.key)
+                              )}
+                            />
+                          </FormControl>
+                          <span>
+                            <span className="font-mono font-medium">{scope.key}</span>
+                            <span className="block text-muted-foreground">{scope.description}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button>
+                </DialogClose>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                  {isSubmitting ? 'Creating...' : 'Create Key'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
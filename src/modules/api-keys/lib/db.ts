@@ -0,0 +1,212 @@
+import pool from '@/lib/db';
+import type { UserRole } from '@/modules/auth/types';
+import type { ApiKey, ApiKeyKind, ApiKeyScope } from '@/modules/api-keys/types';
+import { ALL_API_KEY_SCOPES } from '@/modules/api-keys/types';
+import { recordAuditEvent } from '@/modules/audit/lib/db';
+import { diffForAudit } from '@/modules/audit/lib/diff';
+
+const API_KEY_SELECT = `
+    SELECT k.*, u.name AS owner_name
+    FROM api_keys k
+    JOIN users u ON u.user_id = k.user_id
+`;
+
+function isRegisteredScope(scope: string): scope is ApiKeyScope {
+    return (ALL_API_KEY_SCOPES as string[]).includes(scope);
+}
+
+function mapRowToApiKey(row: any): ApiKey {
+    return {
+        id: row.id,
+        tenantId: row.tenant_id,
+        userId: row.user_id,
+        ownerName: row.owner_name ?? null,
+        kind: row.kind,
+        name: row.name,
+        tokenPrefix: row.token_prefix,
+        scopes: (row.scopes || []).filter(isRegisteredScope),
+        expiresAt: row.expires_at ? new Date(row.expires_at).toISOString() : null,
+        lastUsedAt: row.last_used_at ? new Date(row.last_used_at).toISOString() : null,
+        lastUsedIp: row.last_used_ip ?? null,
+        revokedAt: row.revoked_at ? new Date(row.revoked_at).toISOString() : null,
+        created_at: new Date(row.created_at).toISOString(),
+    };
+}
+
+/** Every key in the tenant (personal and tenant keys), newest first. */
+export async function getApiKeysForTenant(tenant_id: string): Promise<ApiKey[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(`${API_KEY_SELECT} WHERE k.tenant_id = $1 ORDER BY k.created_at DESC`, [tenant_id]);
+        return res.rows.map(mapRowToApiKey);
+    } catch (err: any) {
+        console.error(`[DB getApiKeysForTenant] Error fetching API keys for tenant ${tenant_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "api_keys" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getApiKeysForUser(user_id: string, tenant_id: string): Promise<ApiKey[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(`${API_KEY_SELECT} WHERE k.tenant_id = $1 AND k.user_id = $2 ORDER BY k.created_at DESC`, [tenant_id, user_id]);
+        return res.rows.map(mapRowToApiKey);
+    } catch (err: any) {
+        console.error(`[DB getApiKeysForUser] Error fetching API keys for user ${user_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "api_keys" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getApiKeyById(id: string, tenant_id: string): Promise<ApiKey | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(`${API_KEY_SELECT} WHERE k.id = $1 AND k.tenant_id = $2`, [id, tenant_id]);
+        return res.rows.length > 0 ? mapRowToApiKey(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error(`[DB getApiKeyById] Error fetching API key ${id}:`, err);
+        if (err.code === '22P02') {
+            throw new Error('Invalid API key identifier.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function addApiKey(keyData: {
+    tenant_id: string;
+    user_id: string;
+    kind: ApiKeyKind;
+    name: string;
+    token_prefix: string;
+    token_hash: string;
+    scopes: ApiKeyScope[];
+    expires_at: Date | null;
+}): Promise<ApiKey> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const res = await client.query(
+            `INSERT INTO api_keys (tenant_id, user_id, kind, name, token_prefix, token_hash, scopes, expires_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+             RETURNING id`,
+            [keyData.tenant_id, keyData.user_id, keyData.kind, keyData.name, keyData.token_prefix, keyData.token_hash, keyData.scopes, keyData.expires_at]
+        );
+        const created = mapRowToApiKey((await client.query(`${API_KEY_SELECT} WHERE k.id = $1`, [res.rows[0].id])).rows[0]);
+        await recordAuditEvent(client, {
+            tenantId: keyData.tenant_id, entityType: 'api_key', entityId: created.id, entityLabel: created.name,
+            action: 'create', changes: diffForAudit(null, created, ['lastUsedAt', 'lastUsedIp']),
+        });
+        await client.query('COMMIT');
+        return created;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error('[DB addApiKey] Error adding API key:', err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "api_keys" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** Revokes a key immediately. @returns false when the key does not exist or was already revoked. */
+export async function revokeApiKey(id: string, tenant_id: string): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const res = await client.query(
+            'UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND tenant_id = $2 AND revoked_at IS NULL RETURNING name, revoked_at',
+            [id, tenant_id]
+        );
+        if (res.rows.length > 0) {
+            await recordAuditEvent(client, {
+                tenantId: tenant_id, entityType: 'api_key', entityId: id, entityLabel: res.rows[0].name,
+                action: 'update', changes: diffForAudit({ revokedAt: null }, { revokedAt: res.rows[0].revoked_at }),
+            });
+        }
+        await client.query('COMMIT');
+        return res.rows.length > 0;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB revokeApiKey] Error revoking API key ${id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export interface ApiKeyPrincipal {
+    apiKeyId: string;
+    tenantId: string;
+    tenantDomain: string;
+    userId: string;
+    username: string;
+    userRole: UserRole;
+    scopes: ApiKeyScope[];
+}
+
+/**
+ * Resolves a key hash to the identity it acts as. Revoked and expired keys, and keys whose owner
+ * could not sign in (account deactivated, or employee record inactive, as loginAction checks), resolve to nothing.
+ */
+export async function getApiKeyPrincipalByHash(token_hash: string): Promise<ApiKeyPrincipal | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT k.id, k.tenant_id, k.user_id, k.scopes, u.username, u.role, t.subdomain
+             FROM api_keys k
+             JOIN users u ON u.user_id = k.user_id AND u.tenant_id = k.tenant_id
+             JOIN tenants t ON t.tenant_id = k.tenant_id
+             LEFT JOIN employees e ON e.user_id = u.user_id AND e.tenant_id = k.tenant_id
+             WHERE k.token_hash = $1 AND k.revoked_at IS NULL
+               AND (k.expires_at IS NULL OR k.expires_at > NOW())
+               AND u.is_active = TRUE AND t.status = 'ACTIVE'
+               AND e.status IS DISTINCT FROM 'Inactive'
+               AND (u.role <> 'Employee' OR e.status = 'Active')`,
+            [token_hash]
+        );
+        if (res.rows.length === 0) return undefined;
+        const row = res.rows[0];
+        return {
+            apiKeyId: row.id,
+            tenantId: row.tenant_id,
+            tenantDomain: row.subdomain,
+            userId: row.user_id,
+            username: row.username,
+            userRole: row.role,
+            scopes: (row.scopes || []).filter(isRegisteredScope),
+        };
+    } catch (err: any) {
+        console.error('[DB getApiKeyPrincipalByHash] Error looking up API key:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** Records key usage, at most once per throttle window to avoid a write on every request. */
+export async function touchApiKey(id: string, ip_address: string | null, throttleMinutes = 1): Promise<void> {
+    const client = await pool.connect();
+    try {
+        await client.query(
+            `UPDATE api_keys SET last_used_at = NOW(), last_used_ip = $2
+             WHERE id = $1 AND (last_used_at IS NULL OR last_used_at < NOW() - ($3 || ' minutes')::interval)`,
+            [id, ip_address, String(throttleMinutes)]
+        );
+    } catch (err: any) {
+        console.error(`[DB touchApiKey] Error updating last use of API key ${id}:`, err);
+    } finally {
+        client.release();
+    }
+}
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import type { PermissionKey } from '@/modules/roles/types';
+
+// Every plain key starts with this, so a bearer token can be recognised as an HRM API key.
+export const API_KEY_PREFIX = 'shrm_';
+
+// --- Scope Registry ---
+// A key acts as its owner, limited to the permissions its scopes allow. API routes additionally
+// require the matching `:read` / `:write` scope for the request they serve.
+export const API_KEY_SCOPE_REGISTRY = [
+  { key: 'employees:read', name: 'Read employees', description: 'List and view employee profiles.', permissions: ['employees.view_all'] },
+  { key: 'employees:write', name: 'Write employees', description: 'Create, update and delete employees.', permissions: ['employees.view_all', 'employees.create', 'employees.edit', 'employees.delete', 'employees.assign_roles'] },
+  { key: 'leave:read', name: 'Read leave', description: 'View leave types, requests and balances.', permissions: ['leave.view_all'] },
+  { key: 'leave:write', name: 'Write leave', description: 'Submit, approve and cancel leave requests and manage leave types.', permissions: ['leave.view_all', 'leave.approve', 'leave.manage'] },
+  { key: 'recruitment:read', name: 'Read recruitment', description: 'View job openings and candidates.', permissions: ['recruitment.manage'] },
+  { key: 'recruitment:write', name: 'Write recruitment', description: 'Manage job openings and candidates.', permissions: ['recruitment.manage'] },
+  { key: 'communication:read', name: 'Read communication', description: 'View email templates and email settings.', permissions: ['communication.manage'] },
+  { key: 'communication:write', name: 'Write communication', description: 'Manage email templates and settings, and send emails.', permissions: ['communication.manage'] },
+  { key: 'ai:use', name: 'Use AI tools', description: 'Call the resume parser.', permissions: ['ai.resume_parser'] },
+  { key: 'audit:read', name: 'Read audit log', description: 'Search and export the audit log.', permissions: ['audit.view'] },
+] as const satisfies readonly { key: string; name: string; description: string; permissions: readonly PermissionKey[] }[];
+
+export type ApiKeyScope = typeof API_KEY_SCOPE_REGISTRY[number]['key'];
+
+export const ALL_API_KEY_SCOPES = API_KEY_SCOPE_REGISTRY.map(s => s.key) as [ApiKeyScope, ...ApiKeyScope[]];
+export const apiKeyScopeSchema = z.enum(ALL_API_KEY_SCOPES);
+
+/** Permissions a key with these scopes may exercise (before intersecting with its owner's permissions). */
+export function permissionsForScopes(scopes: readonly string[]): PermissionKey[] {
+  const granted = new Set<PermissionKey>();
+  for (const scope of API_KEY_SCOPE_REGISTRY) {
+    if (scopes.includes(scope.key)) scope.permissions.forEach(permission => granted.add(permission));
+  }
+  return [...granted];
+}
+
+// --- API Keys ---
+// 'personal': a user's own access token. 'tenant': an integration key created by a security admin
+// and managed tenant-wide; it still acts as (and is limited by) the admin who created it.
+export const apiKeyKindSchema = z.enum(['personal', 'tenant']);
+export type ApiKeyKind = z.infer<typeof apiKeyKindSchema>;
+
+export interface ApiKey {
+  id: string;
+  tenantId: string;
+  userId: string; // Owner; the key acts as this user
+  ownerName: string | null;
+  kind: ApiKeyKind;
+  name: string;
+  tokenPrefix: string; // First characters of the key, shown to tell keys apart
+  scopes: ApiKeyScope[];
+  expiresAt: string | null; // null = never expires
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  created_at: string;
+}
+
+// Lifetimes offered when creating a key; 0 means no expiry.
+export const API_KEY_EXPIRY_DAYS = [7, 30, 90, 365, 0] as const;
+
+export const apiKeyFormSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters").max(100, "Name cannot exceed 100 characters"),
+  kind: apiKeyKindSchema.default('personal'),
+  scopes: z.array(apiKeyScopeSchema).min(1, "Select at least one scope"),
+  expiresInDays: z.coerce.number().int().refine(days => (API_KEY_EXPIRY_DAYS as readonly number[]).includes(days), "Invalid expiry"),
+});
+
+export type ApiKeyFormData = z.infer<typeof apiKeyFormSchema>;
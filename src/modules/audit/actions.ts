@@ -0,0 +1,59 @@
+'use server';
+
+import type { AuditEvent } from '@/modules/audit/types';
+import { AUDIT_EXPORT_MAX_ROWS, AUDIT_PAGE_SIZE, auditEventFilterSchema } from '@/modules/audit/types';
+import { getAuditEvents as dbGetAuditEvents } from '@/modules/audit/lib/db';
+import { auditEventsToCsv } from '@/modules/audit/lib/csv';
+import { requirePermission } from '@/modules/auth/actions';
+
+/**
+ * One page of the events matching the filters, newest first. The filters are validated with auditEventFilterSchema.
+ */
+export async function getAuditEventsAction(filters: unknown): Promise<{ success: boolean; events?: AuditEvent[]; total?: number; page?: number; pageSize?: number; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('audit.view');
+  } catch {
+    return { success: false, error: 'Unauthorized to view the audit log.' };
+  }
+
+  const validation = auditEventFilterSchema.safeParse(filters);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0]?.message || 'Invalid filters.' };
+  }
+  const { page, ...criteria } = validation.data;
+
+  try {
+    const { events, total } = await dbGetAuditEvents(session.tenantId, criteria, AUDIT_PAGE_SIZE, (page - 1) * AUDIT_PAGE_SIZE);
+    return { success: true, events, total, page, pageSize: AUDIT_PAGE_SIZE };
+  } catch (error: any) {
+    console.error("[Action getAuditEventsAction] Error fetching audit events:", error);
+    return { success: false, error: error.message || 'Failed to load the audit log.' };
+  }
+}
+
+/**
+ * CSV of the events matching the filters (newest first, at most AUDIT_EXPORT_MAX_ROWS rows).
+ */
+export async function exportAuditEventsCsvAction(filters: unknown): Promise<{ success: boolean; csv?: string; truncated?: boolean; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('audit.view');
+  } catch {
+    return { success: false, error: 'Unauthorized to export the audit log.' };
+  }
+
+  const validation = auditEventFilterSchema.omit({ page: true }).safeParse(filters);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0]?.message || 'Invalid filters.' };
+  }
+
+  try {
+    const { events, total } = await dbGetAuditEvents(session.tenantId, validation.data, AUDIT_EXPORT_MAX_ROWS, 0);
+    console.log(`[Action exportAuditEventsCsvAction] User ${session.userId} exported ${events.length} of ${total} audit event(s).`);
+    return { success: true, csv: auditEventsToCsv(events), truncated: total > events.length };
+  } catch (error: any) {
+    console.error("[Action exportAuditEventsCsvAction] Error exporting audit events:", error);
+    return { success: false, error: error.message || 'Failed to export the audit log.' };
+  }
+}
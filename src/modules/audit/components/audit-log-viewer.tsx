@@ -0,0 +1,315 @@
+"use client";
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Download, Eye, Loader2, Search, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getAuditEventsAction, exportAuditEventsCsvAction } from '@/modules/audit/actions';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_TYPES } from '@/modules/audit/types';
+import type { AuditAction, AuditEntityType, AuditEvent, AuditEventFilters } from '@/modules/audit/types';
+
+interface AuditLogViewerProps {
+  initialEvents: AuditEvent[];
+  initialTotal: number;
+  pageSize: number;
+}
+
+type FilterState = Omit<AuditEventFilters, 'page'>;
+
+const ALL = 'all';
+
+const ACTION_BADGE_VARIANT: Record<AuditAction, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  create: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+  impersonation_start: 'outline',
+  impersonation_end: 'outline',
+};
+
+function entityTypeName(type: AuditEntityType): string {
+  return AUDIT_ENTITY_TYPES.find(t => t.key === type)?.name ?? type;
+}
+
+function formatTimestamp(iso: string): string {
+  try {
+    return format(parseISO(iso), 'PP p');
+  } catch {
+    return iso;
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function AuditLogViewer({ initialEvents, initialTotal, pageSize }: AuditLogViewerProps) {
+  const { toast } = useToast();
+  const [events, setEvents] = React.useState(initialEvents);
+  const [total, setTotal] = React.useState(initialTotal);
+  const [page, setPage] = React.useState(1);
+  const [draft, setDraft] = React.useState<FilterState>({});
+  const [applied, setApplied] = React.useState<FilterState>({});
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isExporting, setIsExporting] = React.useState(false);
+  const [selected, setSelected] = React.useState<AuditEvent | null>(null);
+
+  const load = async (filters: FilterState, targetPage: number) => {
+    setIsLoading(true);
+    try {
+      const result = await getAuditEventsAction({ ...filters, page: targetPage });
+      if (!result.success) {
+        throw new Error(result.error || "Could not load the audit log.");
+      }
+      setEvents(result.events || []);
+      setTotal(result.total || 0);
+      setPage(targetPage);
+      setApplied(filters);
+    } catch (error: any) {
+      console.error("Audit log load error:", error);
+      toast({ title: "Load Failed", description: error.message || "Could not load the audit log.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    load(draft, 1);
+  };
+
+  const handleReset = () => {
+    setDraft({});
+    load({}, 1);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const result = await exportAuditEventsCsvAction(applied);
+      if (!result.success || result.csv === undefined) {
+        throw new Error(result.error || "Could not export the audit log.");
+      }
+      const url = URL.createObjectURL(new Blob([result.csv], { type: 'text/csv;charset=utf-8' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+      if (result.truncated) {
+        toast({ title: "Export Truncated", description: "Only the newest matching events were exported. Narrow the date range to export the rest." });
+      }
+    } catch (error: any) {
+      console.error("Audit log export error:", error);
+      toast({ title: "Export Failed", description: error.message || "Could not export the audit log.", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const firstRow = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastRow = Math.min(page * pageSize, total);
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <CardTitle>Events</CardTitle>
+        <CardDescription>Every change to employee, leave, recruitment, communication and security data, and every impersonation session. Entries cannot be edited or deleted.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSearch} className="grid gap-3 md:grid-cols-6 items-end">
+          <div className="md:col-span-2 space-y-1">
+            <Label htmlFor="audit-search">Search</Label>
+            <Input
+              id="audit-search"
+              placeholder="Actor, record or value"
+              value={draft.search ?? ''}
+              onChange={e => setDraft(prev => ({ ...prev, search: e.target.value || undefined }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Record type</Label>
+            <Select
+              value={draft.entityType ?? ALL}
+              onValueChange={value => setDraft(prev => ({ ...prev, entityType: value === ALL ? undefined : value as AuditEntityType }))}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {AUDIT_ENTITY_TYPES.map(type => (
+                  <SelectItem key={type.key} value={type.key}>{type.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Action</Label>
+            <Select
+              value={draft.action ?? ALL}
+              onValueChange={value => setDraft(prev => ({ ...prev, action: value === ALL ? undefined : value as AuditAction }))}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                  <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">From</Label>
+            <Input id="audit-from" type="date" value={draft.from ?? ''} onChange={e => setDraft(prev => ({ ...prev, from: e.target.value || undefined }))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">To</Label>
+            <Input id="audit-to" type="date" value={draft.to ?? ''} onChange={e => setDraft(prev => ({ ...prev, to: e.target.value || undefined }))} />
+          </div>
+          <div className="md:col-span-6 flex flex-wrap gap-2">
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+              Search
+            </Button>
+            <Button type="button" variant="outline" onClick={handleReset} disabled={isLoading}>
+              <X className="mr-2 h-4 w-4" /> Reset
+            </Button>
+            <Button type="button" variant="outline" className="ml-auto" onClick={handleExport} disabled={isExporting || total === 0}>
+              {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              Export CSV
+            </Button>
+          </div>
+        </form>
+
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">No audit events match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Changed fields</TableHead>
+                <TableHead>IP Address</TableHead>
+                <TableHead className="text-right">Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map(event => {
+                const fields = Object.keys(event.changes);
+                return (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap text-sm">{formatTimestamp(event.created_at)}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{event.actorName}</div>
+                      {event.actorApiKeyId && <Badge variant="outline" className="mt-1">API key</Badge>}
+                      {event.impersonatedUserId && <Badge variant="outline" className="mt-1">Impersonating</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{event.entityLabel || event.entityId || '—'}</div>
+                      <div className="text-xs text-muted-foreground">{entityTypeName(event.entityType)}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={ACTION_BADGE_VARIANT[event.action]}>{AUDIT_ACTION_LABELS[event.action]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
+                      {fields.length === 0 ? '—' : fields.join(', ')}
+                    </TableCell>
+                    <TableCell className="text-sm">{event.ipAddress || '—'}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => setSelected(event)} aria-label="View changes">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>{total === 0 ? 'No events' : `Showing ${firstRow}–${lastRow} of ${total}`}</span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => load(applied, page - 1)} disabled={isLoading || page <= 1}>Previous</Button>
+            <Button variant="outline" size="sm" onClick={() => load(applied, page + 1)} disabled={isLoading || lastRow >= total}>Next</Button>
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!selected} onOpenChange={open => { if (!open) setSelected(null); }}>
+        <DialogContent className="sm:max-w-2xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{AUDIT_ACTION_LABELS[selected.action]}: {selected.entityLabel || entityTypeName(selected.entityType)}</DialogTitle>
+                <DialogDescription>
+                  {entityTypeName(selected.entityType)}{selected.entityId ? ` ${selected.entityId}` : ''} · {selected.actorName} · {formatTimestamp(selected.created_at)}
+                </DialogDescription>
+              </DialogHeader>
+              {Object.keys(selected.changes).length === 0 ? (
+                <p className="text-sm text-muted-foreground">No field changes were recorded.</p>
+              ) : (
+                <div className="max-h-[60vh] overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Field</TableHead>
+                        <TableHead>Before</TableHead>
+                        <TableHead>After</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {Object.entries(selected.changes).map(([field, change]) => (
+                        <TableRow key={field}>
+                          <TableCell className="font-medium">{field}</TableCell>
+                          <TableCell className="text-sm break-all">{formatValue(change.from)}</TableCell>
+                          <TableCell className="text-sm break-all">{formatValue(change.to)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,50 @@
+// src/modules/audit/lib/context.ts
+// Works out who is making the current change. DB functions are called from server actions, API
+// routes, SCIM and background jobs, so the actor is read from the request rather than passed in.
+import { headers } from 'next/headers';
+import { getSessionData } from '@/modules/auth/actions';
+import { getClientIp } from '@/modules/auth/lib/utils';
+import { getPlatformSession } from '@/modules/platform/lib/session';
+import type { AuditActor } from '@/modules/audit/types';
+
+const SYSTEM_ACTOR: AuditActor = { userId: null, name: 'System', apiKeyId: null, impersonatedUserId: null, ipAddress: null };
+
+export async function resolveAuditActor(): Promise<AuditActor> {
+    let headersList: Awaited<ReturnType<typeof headers>>;
+    try {
+        headersList = await headers();
+    } catch {
+        return SYSTEM_ACTOR; // Not inside a request (scripts, scheduled jobs)
+    }
+
+    const ipAddress = getClientIp(headersList);
+    const session = await getSessionData();
+    if (session?.impersonation) {
+        // Changes made while viewing as someone else are attributed to the admin doing it.
+        return {
+            userId: session.impersonation.realUserId,
+            name: `${session.impersonation.realUsername} (as ${session.username})`,
+            apiKeyId: null,
+            impersonatedUserId: session.userId,
+            ipAddress,
+        };
+    }
+    if (session?.userId) {
+        return {
+            userId: session.userId,
+            name: session.username,
+            apiKeyId: session.apiKey?.id ?? null,
+            impersonatedUserId: null,
+            ipAddress,
+        };
+    }
+    const platformSession = await getPlatformSession();
+    if (platformSession) {
+        // Operators act on a company from the platform console; they have no account in it.
+        return { userId: platformSession.userId, name: `${platformSession.username} (platform operator)`, apiKeyId: null, impersonatedUserId: null, ipAddress };
+    }
+    if (headersList.get('authorization')?.startsWith('Bearer scim_')) {
+        return { userId: null, name: 'SCIM provisioning', apiKeyId: null, impersonatedUserId: null, ipAddress };
+    }
+    return { userId: null, name: 'Anonymous', apiKeyId: null, impersonatedUserId: null, ipAddress }; // e.g. public job applications
+}
@@ -0,0 +1,29 @@
+// src/modules/audit/lib/csv.ts
+import type { AuditEvent } from '@/modules/audit/types';
+
+const CSV_HEADER = ['Timestamp', 'Actor', 'Actor User ID', 'API Key ID', 'Impersonated User ID', 'IP Address', 'Entity Type', 'Entity ID', 'Entity', 'Action', 'Changes'];
+
+/** One CSV field, quoted when needed. Shared by the other CSV exports. */
+export function csvCell(value: unknown): string {
+    let text = value === null || value === undefined ? '' : String(value);
+    // Neutralise spreadsheet formulas so an exported value cannot execute when opened.
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditEventsToCsv(events: AuditEvent[]): string {
+    const rows = events.map(event => [
+        event.created_at,
+        event.actorName,
+        event.actorUserId,
+        event.actorApiKeyId,
+        event.impersonatedUserId,
+        event.ipAddress,
+        event.entityType,
+        event.entityId,
+        event.entityLabel,
+        event.action,
+        JSON.stringify(event.changes),
+    ]);
+    return [CSV_HEADER, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
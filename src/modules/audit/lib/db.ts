@@ -0,0 +1,105 @@
+import pool from '@/lib/db';
+import type { AuditAction, AuditChanges, AuditEntityType, AuditEvent, AuditEventFilters } from '@/modules/audit/types';
+import { resolveAuditActor } from '@/modules/audit/lib/context';
+
+function mapRowToAuditEvent(row: any): AuditEvent {
+    return {
+        id: row.id,
+        tenantId: row.tenant_id,
+        actorUserId: row.actor_user_id ?? null,
+        actorName: row.actor_name,
+        actorApiKeyId: row.actor_api_key_id ?? null,
+        impersonatedUserId: row.impersonated_user_id ?? null,
+        entityType: row.entity_type,
+        entityId: row.entity_id ?? null,
+        entityLabel: row.entity_label ?? null,
+        action: row.action,
+        changes: row.changes ?? {},
+        ipAddress: row.ip_address ?? null,
+        created_at: new Date(row.created_at).toISOString(),
+    };
+}
+
+/**
+ * Appends an audit event using the caller's connection, so it commits or rolls back together with
+ * the change it describes. Updates that changed nothing are not recorded.
+ */
+export async function recordAuditEvent(conn: any, event: {
+    tenantId: string;
+    entityType: AuditEntityType;
+    entityId?: string | null;
+    entityLabel?: string | null;
+    action: AuditAction;
+    changes: AuditChanges;
+}): Promise<void> {
+    if (event.action === 'update' && Object.keys(event.changes).length === 0) return;
+    const actor = await resolveAuditActor();
+    await conn.query(
+        `INSERT INTO audit_events (tenant_id, actor_user_id, actor_name, actor_api_key_id, impersonated_user_id, entity_type, entity_id, entity_label, action, changes, ip_address)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [
+            event.tenantId,
+            actor.userId,
+            actor.name,
+            actor.apiKeyId,
+            actor.impersonatedUserId,
+            event.entityType,
+            event.entityId ?? null,
+            event.entityLabel ?? null,
+            event.action,
+            JSON.stringify(event.changes),
+            actor.ipAddress,
+        ]
+    );
+}
+
+function buildAuditFilterClause(tenant_id: string, filters: Omit<AuditEventFilters, 'page'>): { where: string; values: any[] } {
+    const conditions: string[] = ['tenant_id = $1'];
+    const values: any[] = [tenant_id];
+    if (filters.entityType) {
+        values.push(filters.entityType);
+        conditions.push(`entity_type = $${values.length}`);
+    }
+    if (filters.action) {
+        values.push(filters.action);
+        conditions.push(`action = $${values.length}`);
+    }
+    if (filters.from) {
+        values.push(filters.from);
+        conditions.push(`created_at >= $${values.length}::date`);
+    }
+    if (filters.to) {
+        values.push(filters.to);
+        conditions.push(`created_at < $${values.length}::date + INTERVAL '1 day'`);
+    }
+    if (filters.search) {
+        values.push(`%${filters.search.replace(/[\\%_]/g, '\\$&')}%`);
+        const p = `$${values.length}`;
+        conditions.push(`(actor_name ILIKE ${p} OR entity_label ILIKE ${p} OR entity_id ILIKE ${p} OR changes::text ILIKE ${p})`);
+    }
+    return { where: conditions.join(' AND '), values };
+}
+
+/** One page of a tenant's audit events, newest first, with the total number of matches. */
+export async function getAuditEvents(tenant_id: string, filters: Omit<AuditEventFilters, 'page'>, limit: number, offset: number): Promise<{ events: AuditEvent[]; total: number }> {
+    const client = await pool.connect();
+    const { where, values } = buildAuditFilterClause(tenant_id, filters);
+    try {
+        const countRes = await client.query(`SELECT COUNT(*)::int AS total FROM audit_events WHERE ${where}`, values);
+        const res = await client.query(
+            `SELECT * FROM audit_events WHERE ${where}
+             ORDER BY created_at DESC, id
+             LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+            [...values, limit, offset]
+        );
+        return { events: res.rows.map(mapRowToAuditEvent), total: countRes.rows[0].total };
+    } catch (err: any) {
+        console.error(`[DB getAuditEvents] Error fetching audit events for tenant ${tenant_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "audit_events" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
@@ -0,0 +1,36 @@
+// src/modules/audit/lib/diff.ts
+import type { AuditChanges } from '@/modules/audit/types';
+
+// Field names whose values must never be written to the audit log (they are shown as changed only).
+const SENSITIVE_FIELD_PATTERN = /password|secret|token|hash|encrypted/i;
+const REDACTED = '[redacted]';
+const ALWAYS_IGNORED = ['tenantId', 'tenant_id', 'updated_at', 'updatedAt', 'created_at', 'createdAt'];
+
+function normalizeValue(value: unknown): unknown {
+    if (value === undefined || value === '') return null;
+    if (value instanceof Date) return value.toISOString();
+    return value;
+}
+
+/**
+ * Field-by-field difference between two snapshots of an entity. Pass `null` as `before` for a
+ * creation and as `after` for a deletion. The tenant, timestamps and any field in `ignore` are skipped.
+ */
+export function diffForAudit(
+    before: Record<string, any> | null | undefined,
+    after: Record<string, any> | null | undefined,
+    ignore: string[] = [],
+): AuditChanges {
+    const changes: AuditChanges = {};
+    const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+    for (const key of keys) {
+        if (ALWAYS_IGNORED.includes(key) || ignore.includes(key)) continue;
+        const from = normalizeValue(before?.[key]);
+        const to = normalizeValue(after?.[key]);
+        if (JSON.stringify(from) === JSON.stringify(to)) continue;
+        changes[key] = SENSITIVE_FIELD_PATTERN.test(key)
+            ? { from: from === null ? null : REDACTED, to: to === null ? null : REDACTED }
+            : { from, to };
+    }
+    return changes;
+}
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+
+// --- Audit Events ---
+// Rows in `audit_events` are append-only: the database rejects UPDATE and DELETE on them.
+export const AUDIT_ENTITY_TYPES = [
+  { key: 'employee', name: 'Employee' },
+  { key: 'leave_type', name: 'Leave type' },
+  { key: 'leave_request', name: 'Leave request' },
+  { key: 'holiday', name: 'Holiday' },
+  { key: 'job_opening', name: 'Job opening' },
+  { key: 'candidate', name: 'Candidate' },
+  { key: 'job_application', name: 'Job application' },
+  { key: 'email_template', name: 'Email template' },
+  { key: 'email_settings', name: 'Email settings' },
+  { key: 'role', name: 'Role' },
+  { key: 'user_account', name: 'User account' },
+  { key: 'user_roles', name: 'User role assignment' },
+  { key: 'security_config', name: 'Security configuration' },
+  { key: 'api_key', name: 'API key' },
+  { key: 'tenant', name: 'Company account' },
+  { key: 'subscription', name: 'Subscription' },
+  { key: 'custom_domain', name: 'Custom domain' },
+  { key: 'tenant_config', name: 'Company setting' },
+  { key: 'tenant_branding', name: 'Branding' },
+  { key: 'data_export', name: 'Data export' },
+] as const;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number]['key'];
+export const auditEntityTypeSchema = z.enum(AUDIT_ENTITY_TYPES.map(t => t.key) as [AuditEntityType, ...AuditEntityType[]]);
+
+export const auditActionSchema = z.enum(['create', 'update', 'delete', 'impersonation_start', 'impersonation_end']);
+export type AuditAction = z.infer<typeof auditActionSchema>;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  delete: 'Delete',
+  impersonation_start: 'Start impersonation',
+  impersonation_end: 'End impersonation',
+};
+
+// Field-level diff: only fields whose value changed. Secrets are recorded as changed but never stored.
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditActor {
+  userId: string | null; // null for system jobs and token-authenticated integrations without a user (e.g. SCIM)
+  name: string;
+  apiKeyId: string | null; // Set when the change was made with an API key
+  impersonatedUserId: string | null; // Set when an admin made the change while viewing the app as this user
+  ipAddress: string | null;
+}
+
+export interface AuditEvent {
+  id: string;
+  tenantId: string;
+  actorUserId: string | null;
+  actorName: string;
+  actorApiKeyId: string | null;
+  impersonatedUserId: string | null; // userId is then the real admin, not the user being impersonated
+  entityType: AuditEntityType;
+  entityId: string | null;
+  entityLabel: string | null; // Human-readable name of the entity at the time of the change
+  action: AuditAction;
+  changes: AuditChanges;
+  ipAddress: string | null;
+  created_at: string;
+}
+
+export const AUDIT_PAGE_SIZE = 50;
+export const AUDIT_EXPORT_MAX_ROWS = 10000;
+
+export const auditEventFilterSchema = z.object({
+  search: z.string().trim().max(200).optional(), // Matches actor, entity name/ID and changed values
+  entityType: auditEntityTypeSchema.optional(),
+  action: auditActionSchema.optional(),
+  from: z.string().date("Invalid start date").optional(), // YYYY-MM-DD, inclusive
+  to: z.string().date("Invalid end date").optional(), // YYYY-MM-DD, inclusive
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+export type AuditEventFilters = z.infer<typeof auditEventFilterSchema>;
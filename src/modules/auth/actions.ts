@@ -12,32 +12,144 @@ import type {
     UserRole,
     TenantLoginFormInputs,
     SessionData,
+    UserSession,
+    ResetPasswordFormInputs,
+    AcceptInvitationFormInputs,
+    PendingInvitation,
+    LockoutPolicy,
+    AccountLockStatus,
+    MfaPolicy,
+    MfaStatus,
+    MfaEnrollmentSetup,
+    MfaCodeFormInputs,
+    OidcSettings,
+    OidcSettingsFormData,
+    SamlConfig,
+    SamlSettings,
+    SamlSettingsFormData,
+    ScimConfig,
+    ScimSettings,
+    ImpersonationInfo,
+    StartImpersonationFormData,
+    PasswordPolicy,
+    ChangeExpiredPasswordFormInputs,
 } from '@/modules/auth/types';
-import { registrationSchema, tenantLoginSchema, userRoleSchema } from '@/modules/auth/types';
+import { registrationSchema, tenantLoginSchema, userRoleSchema, rootForgotPasswordSchema, resetPasswordSchema, acceptInvitationSchema, INVITATION_TTL_DAYS, lockoutPolicySchema, mfaPolicySchema, mfaCodeSchema, oidcSettingsFormSchema, samlSettingsFormSchema, startImpersonationSchema, IMPERSONATION_MAX_MINUTES, TENANT_UNAVAILABLE_MESSAGES, passwordPolicySchema, changeExpiredPasswordSchema } from '@/modules/auth/types';
 import {
     addTenant as dbAddTenant,
     getUserByEmail as dbGetUserByEmail,
     addUser as dbAddUserInternal,
     getTenantByDomain as dbGetTenantByDomain,
+    getTenantById as dbGetTenantById,
     getUserById as dbGetUserByIdInternal,
     getUserByUsername as dbGetUserByUsername,
     getEmployeeByEmployeeIdAndTenantId as dbGetEmployeeByHumanId,
     getEmployeeByUserId as dbGetAuthEmployeeByUserId,
     deleteUserById as dbDeleteUserById,
+    createUserSession as dbCreateUserSession,
+    getActiveUserSession as dbGetActiveUserSession,
+    touchUserSession as dbTouchUserSession,
+    getActiveSessionsForUser as dbGetActiveSessionsForUser,
+    getActiveSessionsForTenant as dbGetActiveSessionsForTenant,
+    getUserSessionById as dbGetUserSessionById,
+    revokeUserSession as dbRevokeUserSession,
+    revokeAllSessionsForUser as dbRevokeAllSessionsForUser,
+    createPasswordResetToken as dbCreatePasswordResetToken,
+    consumePasswordResetToken as dbConsumePasswordResetToken,
+    isPasswordResetTokenValid as dbIsPasswordResetTokenValid,
+    createUserInvitation as dbCreateUserInvitation,
+    revokeUserInvitation as dbRevokeUserInvitation,
+    getOpenUserInvitation as dbGetOpenUserInvitation,
+    acceptUserInvitation as dbAcceptUserInvitation,
+    getLatestUserInvitation as dbGetLatestUserInvitation,
+    getPendingInvitations as dbGetPendingInvitations,
+    updateUserPassword as dbUpdateUserPassword,
+    getPasswordHistory as dbGetPasswordHistory,
+    getPasswordPolicy as dbGetPasswordPolicy,
+    upsertPasswordPolicy as dbUpsertPasswordPolicy,
+    getLockoutPolicy as dbGetLockoutPolicy,
+    upsertLockoutPolicy as dbUpsertLockoutPolicy,
+    recordLoginAttempt as dbRecordLoginAttempt,
+    countRecentFailedLoginAttempts as dbCountRecentFailedLoginAttempts,
+    registerFailedLogin as dbRegisterFailedLogin,
+    resetFailedLogins as dbResetFailedLogins,
+    getAccountLockStatus as dbGetAccountLockStatus,
+    getTenantAdminUsers as dbGetTenantAdminUsers,
+    getMfaPolicy as dbGetMfaPolicy,
+    upsertMfaPolicy as dbUpsertMfaPolicy,
+    getUserMfa as dbGetUserMfa,
+    savePendingUserMfa as dbSavePendingUserMfa,
+    enableUserMfa as dbEnableUserMfa,
+    markTotpStepUsed as dbMarkTotpStepUsed,
+    consumeRecoveryCode as dbConsumeRecoveryCode,
+    replaceRecoveryCodes as dbReplaceRecoveryCodes,
+    countRemainingRecoveryCodes as dbCountRemainingRecoveryCodes,
+    deleteUserMfa as dbDeleteUserMfa,
+    getOidcConfig as dbGetOidcConfig,
+    upsertOidcConfig as dbUpsertOidcConfig,
+    getSamlConfig as dbGetSamlConfig,
+    upsertSamlConfig as dbUpsertSamlConfig,
+    getScimConfig as dbGetScimConfig,
+    upsertScimConfig as dbUpsertScimConfig,
 } from '@/modules/auth/lib/db';
+import { describeUserAgent, getClientIp, generateSecureToken, hashToken, generateRecoveryCodes, normalizeRecoveryCode } from '@/modules/auth/lib/utils';
+import { generateTotpSecret, buildOtpAuthUri, verifyTotp } from '@/modules/auth/lib/totp';
+import { checkPasswordAgainstPolicy, describePasswordPolicy, isPasswordExpired, isReusedPassword } from '@/modules/auth/lib/password-policy';
+import { isAllowedIssuerUrl, discoverOidcProvider, generateOidcLoginSecrets, buildAuthorizationUrl, exchangeAuthorizationCode, verifyIdToken, addUserInfoClaims } from '@/modules/auth/lib/oidc';
+import { findOrProvisionSsoUser } from '@/modules/auth/lib/sso-provisioning';
+import type { SsoIdentity } from '@/modules/auth/lib/sso-provisioning';
+import { parseIdpCertificates, buildServiceProviderMetadata, getSamlAuthorizeUrl, validateSamlResponse, mapSamlProfile } from '@/modules/auth/lib/saml';
+import type { SamlServiceProviderUrls } from '@/modules/auth/lib/saml';
+import { encrypt, decrypt } from '@/lib/encryption';
+import { escapeHtml } from '@/lib/html';
+import QRCode from 'qrcode';
 import pool from '@/lib/db';
 import { testDbConnection } from '@/lib/db';
-import { initializeDatabase } from '@/lib/init-db';
+import { resolveTenantSubdomainForHost, withSystemScope, withTenantScope } from '@/lib/tenant-context';
+import { runMigrations } from '@/lib/migrate';
+import { requirePlatformAdmin } from '@/modules/platform/lib/session';
 // Removed import of syntaxHiveHrmSession from '@/lib/auth'
 import { redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
 import { getEmailSettings as dbGetEmailSettings } from '@/modules/communication/lib/db';
 import type { EmailSettings } from '@/modules/communication/types';
+import { getVerifiedCustomDomainForSubdomain as dbGetVerifiedCustomDomainForSubdomain } from '@/modules/tenants/lib/db';
 import type { Employee } from '@/modules/employees/types';
-
-// Define the cookie name directly in this module
-const syntaxHiveHrmSession = 'syntaxHiveHrmSession';
+import {
+    SESSION_COOKIE_NAME,
+    SESSION_MAX_AGE_SECONDS,
+    MFA_CHALLENGE_COOKIE_NAME,
+    MFA_CHALLENGE_MAX_AGE_SECONDS,
+    createSessionToken,
+    verifySessionToken,
+    createMfaChallengeToken,
+    verifyMfaChallengeToken,
+    OIDC_STATE_COOKIE_NAME,
+    OIDC_STATE_MAX_AGE_SECONDS,
+    createOidcStateToken,
+    verifyOidcStateToken,
+    PASSWORD_CHANGE_COOKIE_NAME,
+    PASSWORD_CHANGE_MAX_AGE_SECONDS,
+    createPasswordChangeToken,
+    verifyPasswordChangeToken,
+} from '@/modules/auth/lib/session-token';
+import type { MfaChallenge } from '@/modules/auth/lib/session-token';
+import { getEffectivePermissions as dbGetEffectivePermissions } from '@/modules/roles/lib/db';
+import type { PermissionKey } from '@/modules/roles/types';
+import { getApiKeyPrincipalByHash as dbGetApiKeyPrincipalByHash, touchApiKey as dbTouchApiKey } from '@/modules/api-keys/lib/db';
+import { API_KEY_PREFIX, permissionsForScopes } from '@/modules/api-keys/types';
+import { recordAuditEvent } from '@/modules/audit/lib/db';
+import { filterPermissionsByPlan, getFeatureForPermission, getPlanLimitError, hasFeature } from '@/modules/subscriptions/lib/entitlements';
+import { planFeatureUnavailableMessage } from '@/modules/subscriptions/types';
+import { buildBrandedEmail } from '@/modules/tenants/lib/branding';
+import { claimDataExportNotification } from '@/modules/tenants/lib/data-export';
+import { dataExportDownloadPath } from '@/modules/tenants/types';
+
+// Cookie name is shared with the middleware via the session-token module
+const syntaxHiveHrmSession = SESSION_COOKIE_NAME;
 
 const SALT_ROUNDS = 10;
+const PASSWORD_RESET_TOKEN_TTL_MINUTES = 60;
 
 const INTERNAL_SMTP_HOST = process.env.INTERNAL_SMTP_HOST;
 const INTERNAL_SMTP_PORT_STR = process.env.INTERNAL_SMTP_PORT;
@@ -119,7 +231,10 @@ export async function sendAdminNotification(subject: string, textBody: string, h
     }
 }
 
-function constructLoginUrl(subdomain: string): string {
+/**
+ * Absolute URL of a page in the tenant's workspace, on its verified custom domain when it has one.
+ */
+async function constructTenantUrl(subdomain: string, path: string): Promise<string> {
     const rootDomain = process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost';
     const protocol = process.env.NODE_ENV === 'production' ? 'https:' : 'http:';
     
@@ -144,9 +259,66 @@ function constructLoginUrl(subdomain: string): string {
         }
     }
 
-    const loginUrl = `${protocol}//${subdomain}.${rootDomain}${portSection}/login`;
-    console.log(`[constructLoginUrl] Constructed: ${loginUrl} for subdomain ${subdomain}`);
-    return loginUrl;
+    let tenantHost = `${subdomain}.${rootDomain}`;
+    try {
+        tenantHost = (await dbGetVerifiedCustomDomainForSubdomain(subdomain)) ?? tenantHost;
+    } catch (error: any) {
+        console.warn(`[constructTenantUrl] Could not look up the custom domain of ${subdomain}; using the subdomain. ${error.message}`);
+    }
+    const tenantUrl = `${protocol}//${tenantHost}${portSection}${path}`;
+    console.log(`[constructTenantUrl] Constructed: ${tenantUrl} for subdomain ${subdomain}`);
+    return tenantUrl;
+}
+
+async function constructLoginUrl(subdomain: string): Promise<string> {
+    return constructTenantUrl(subdomain, '/login');
+}
+
+/**
+ * Picks the tenant's SMTP settings when complete, otherwise the internal fallback SMTP.
+ */
+async function createTenantOrInternalTransporter(tenantId: string, logPrefix: string): Promise<{ transporter: nodemailer.Transporter | null; fromName: string; fromEmail: string; usingSmtpType: string }> {
+    const emailSettings = await dbGetEmailSettings(tenantId);
+    if (emailSettings && emailSettings.smtpHost && emailSettings.smtpPort && emailSettings.smtpUser && emailSettings.smtpPassword) {
+        console.log(`${logPrefix} Using tenant-specific SMTP settings for tenant ${tenantId}: Host ${emailSettings.smtpHost}:${emailSettings.smtpPort}, User: ${emailSettings.smtpUser}`);
+        let transportOptions: any = {
+            host: emailSettings.smtpHost,
+            port: emailSettings.smtpPort,
+            auth: {
+                user: emailSettings.smtpUser,
+                pass: emailSettings.smtpPassword,
+            },
+            connectionTimeout: 15000,
+            greetingTimeout: 15000,
+            socketTimeout: 15000,
+            logger: process.env.NODE_ENV === 'development',
+            debug: process.env.NODE_ENV === 'development',
+        };
+
+        if (emailSettings.smtpPort === 465) {
+            transportOptions.secure = true;
+        } else if (emailSettings.smtpPort === 587) {
+            transportOptions.secure = false;
+            transportOptions.requireTLS = true;
+        } else {
+            transportOptions.secure = emailSettings.smtpSecure;
+        }
+        return {
+            transporter: nodemailer.createTransport(transportOptions),
+            fromName: emailSettings.fromName,
+            fromEmail: emailSettings.fromEmail,
+            usingSmtpType: `Tenant SMTP (${emailSettings.smtpHost})`,
+        };
+    }
+
+    console.warn(`${logPrefix} SMTP settings not configured or incomplete for tenant ${tenantId}. Falling back to internal SMTP.`);
+    const internalConfig = getInternalSmtpConfig();
+    return {
+        transporter: createInternalTransporter(),
+        fromName: internalConfig?.fromName || INTERNAL_FROM_NAME,
+        fromEmail: internalConfig?.fromEmail || INTERNAL_FROM_EMAIL,
+        usingSmtpType: "Internal Fallback SMTP",
+    };
 }
 
 async function sendNewTenantWelcomeEmail(tenantName: string, adminName: string, adminEmail: string, adminUsername: string, tenantSubdomain: string): Promise<boolean> {
@@ -161,7 +333,7 @@ async function sendNewTenantWelcomeEmail(tenantName: string, adminName: string,
         return false;
     }
 
-    const loginUrl = constructLoginUrl(tenantSubdomain);
+    const loginUrl = await constructLoginUrl(tenantSubdomain);
     const config = getInternalSmtpConfig();
 
     const mailOptions = {
@@ -169,7 +341,7 @@ async function sendNewTenantWelcomeEmail(tenantName: string, adminName: string,
         to: adminEmail,
         subject: `Welcome to SyntaxHive Hrm - Your Account for ${tenantName}`,
         text: `Hello ${adminName},\n\nWelcome to SyntaxHive Hrm!\n\nYour company account "${tenantName}" has been created.\n\nYour Username: ${adminUsername}\nYou can also log in using your email: ${adminEmail}\nPassword: (The password you set during registration)\n\nYour unique login page is: ${loginUrl}\n\nPlease bookmark this link for future access.\n\nBest regards,\nThe SyntaxHive Hrm Team`,
-        html: `<p>Hello ${adminName},</p><p>Welcome to <strong>SyntaxHive Hrm</strong>!</p><p>Your company account "<strong>${tenantName}</strong>" has been created.</p><p>Your Username: <strong>${adminUsername}</strong><br>You can also log in using your email: <strong>${adminEmail}</strong><br>Password: (The password you set during registration)</p><p>Your unique login page is: <a href="${loginUrl}">${loginUrl}</a></p><p>Please bookmark this link for future access.</p><p>Best regards,<br>The SyntaxHive Hrm Team</p>`,
+        html: `<p>Hello ${escapeHtml(adminName)},</p><p>Welcome to <strong>SyntaxHive Hrm</strong>!</p><p>Your company account "<strong>${escapeHtml(tenantName)}</strong>" has been created.</p><p>Your Username: <strong>${escapeHtml(adminUsername)}</strong><br>You can also log in using your email: <strong>${escapeHtml(adminEmail)}</strong><br>Password: (The password you set during registration)</p><p>Your unique login page is: <a href="${loginUrl}">${loginUrl}</a></p><p>Please bookmark this link for future access.</p><p>Best regards,<br>The SyntaxHive Hrm Team</p>`,
     };
 
     try {
@@ -194,6 +366,11 @@ export async function registerTenantAction(formData: RegistrationFormData): Prom
         return { success: false, errors: validation.error.errors.map(e => ({ path: e.path, message: e.message })) };
     }
     const { companyName, companySubdomain, adminName, adminUsername, adminEmail, adminPassword } = validation.data;
+    // A new company starts with the default password policy.
+    const passwordProblems = checkPasswordAgainstPolicy(adminPassword, passwordPolicySchema.parse({}), { username: adminUsername, email: adminEmail });
+    if (passwordProblems.length > 0) {
+        return { success: false, errors: passwordProblems.map(message => ({ path: ['adminPassword'], message })) };
+    }
     const lowerCaseSubdomain = companySubdomain.toLowerCase();
     let newTenant: Tenant | null = null;
     try {
@@ -205,10 +382,10 @@ export async function registerTenantAction(formData: RegistrationFormData): Prom
         console.log("[registerTenantAction] Database connection test successful.");
 
         try {
-            await initializeDatabase();
-            console.log("[registerTenantAction] Database schema initialized or verified.");
+            await runMigrations();
+            console.log("[registerTenantAction] Database schema migrations applied or verified.");
         } catch (initError: any) {
-            console.error("[registerTenantAction] Critical error during initializeDatabase:", initError.message, initError.stack);
+            console.error("[registerTenantAction] Critical error during runMigrations:", initError.message, initError.stack);
             await sendAdminNotification(
                 'Critical: Database Schema Initialization Failed during Registration',
                 `Attempt to initialize database schema for new tenant registration (${lowerCaseSubdomain}) failed.\nError: ${initError.message}\n\nManual intervention may be required.`
@@ -228,8 +405,10 @@ export async function registerTenantAction(formData: RegistrationFormData): Prom
 
         console.log(`[registerTenantAction] Tenant '${companyName}' created with ID: ${newTenant.tenant_id}. Adding admin user...`);
         const passwordHash = await bcrypt.hash(adminPassword, SALT_ROUNDS);
-        const newUser = await dbAddUserInternal({
-            tenant_id: newTenant.tenant_id,
+        // Registration runs on the root domain, so the new tenant's rows are written under an explicit scope
+        const newTenantId = newTenant.tenant_id;
+        const newUser = await withTenantScope(newTenantId, () => dbAddUserInternal({
+            tenant_id: newTenantId,
             username: adminUsername.toLowerCase(), // Store username in lowercase for consistency
             passwordHash,
             email: adminEmail.toLowerCase(),
@@ -237,7 +416,7 @@ export async function registerTenantAction(formData: RegistrationFormData): Prom
             role: 'Admin',
             is_active: true,
             // employee_id: null, // Not linking to employees table directly at user creation by default
-        });
+        }));
         console.log(`[registerTenantAction] Admin user '${adminName}' added with user_id: ${newUser.user_id}.`);
 
         sendNewTenantWelcomeEmail(newTenant.name, adminName, adminEmail, adminUsername, newTenant.subdomain)
@@ -247,7 +426,7 @@ export async function registerTenantAction(formData: RegistrationFormData): Prom
             })
             .catch(err => console.error("[registerTenantAction] Async admin welcome email sending failed after successful registration:", err));
 
-        const loginUrl = constructLoginUrl(newTenant.subdomain);
+        const loginUrl = await constructLoginUrl(newTenant.subdomain);
         const { passwordHash: _, ...safeUser } = newUser;
         return { success: true, tenant: newTenant, user: safeUser, loginUrl };
 
@@ -276,7 +455,7 @@ export async function registerTenantAction(formData: RegistrationFormData): Prom
             else if (error.message.includes('email')) errorPath = ['adminEmail'];
             else if (error.message.includes('username')) errorPath = ['adminUsername'];
         } else if (error.message?.includes('Database schema not initialized') || error.message?.includes('relation "tenants" does not exist')) {
-            userMessage = 'Database Error: Schema not initialized. Please ensure the database setup script (db:init) has run successfully or contact support.';
+            userMessage = 'Database Error: Schema not initialized. Please ensure the database migrations (db:migrate) have run successfully or contact support.';
         } else if (error.message?.includes('Database connection failed') || error.message?.includes('connection refused')) {
             userMessage = `Database connection issue: ${error.message}. Please check database server status and configuration.`;
         } else if (error.message) {
@@ -286,9 +465,144 @@ export async function registerTenantAction(formData: RegistrationFormData): Prom
     }
 }
 
-export async function loginAction(credentials: TenantLoginFormInputs): Promise<{ success: boolean; error?: string; user?: Omit<User, 'passwordHash'> }> {
-    const headersList = headers();
-    const cookieStore = cookies();
+/**
+ * Platform console: sends the registration welcome email, with the company's sign-in link, again to every
+ * active admin of the company. Registration has no separate email verification step; this is the email it sends.
+ */
+export async function resendTenantWelcomeEmailAction(tenantId: string): Promise<{ success: boolean; sentTo?: string[]; error?: string }> {
+    let platformSession;
+    try {
+        platformSession = await requirePlatformAdmin();
+    } catch {
+        return { success: false, error: 'Unauthorized to resend welcome emails.' };
+    }
+
+    try {
+        const { tenant, admins } = await withSystemScope(`platform operator ${platformSession.username} resending welcome email`, async () => {
+            const tenant = await dbGetTenantById(tenantId);
+            return { tenant, admins: tenant ? await dbGetTenantAdminUsers(tenant.tenant_id) : [] };
+        });
+        if (!tenant) {
+            return { success: false, error: 'Company not found.' };
+        }
+        if (tenant.status !== 'ACTIVE') {
+            return { success: false, error: `${tenant.name} is ${tenant.status.toLowerCase()}; its admins cannot sign in.` };
+        }
+        if (admins.length === 0) {
+            return { success: false, error: `${tenant.name} has no active admin accounts.` };
+        }
+        const results = await Promise.all(admins.map(admin =>
+            sendNewTenantWelcomeEmail(tenant.name, admin.name || admin.username, admin.email, admin.username, tenant.subdomain)
+        ));
+        const sentTo = admins.filter((_, index) => results[index]).map(admin => admin.email);
+        if (sentTo.length === 0) {
+            return { success: false, error: 'The welcome email could not be sent. Check the internal SMTP settings.' };
+        }
+        console.log(`[resendTenantWelcomeEmailAction] Platform admin ${platformSession.userId} resent the welcome email of tenant ${tenant.tenant_id} to ${sentTo.length} admin(s).`);
+        return { success: true, sentTo };
+    } catch (error: any) {
+        console.error("[resendTenantWelcomeEmailAction] Error resending welcome email:", error);
+        return { success: false, error: error.message || 'Failed to resend the welcome email.' };
+    }
+}
+
+function lockedAccountMessage(lockedUntil: string | null | undefined): string {
+    if (lockedUntil) {
+        const minutesLeft = Math.max(1, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 60000));
+        return `This account is temporarily locked after too many failed login attempts. Please try again in ${minutesLeft} minute(s) or contact your administrator.`;
+    }
+    return "This account is locked after too many failed login attempts. Please contact your administrator to unlock it.";
+}
+
+/**
+ * Emails every active admin of the tenant that an account was locked. Failures are logged, never thrown.
+ */
+async function notifyTenantAdminsOfLockout(tenant: Tenant, lockedUser: User, failedAttempts: number, lockedUntil: string | null, clientIp: string | null): Promise<void> {
+    try {
+        const admins = (await dbGetTenantAdminUsers(tenant.tenant_id)).filter(admin => admin.user_id !== lockedUser.user_id);
+        if (admins.length === 0) {
+            console.warn(`[notifyTenantAdminsOfLockout] No other active admins to notify for tenant ${tenant.tenant_id}.`);
+            return;
+        }
+        const { transporter, fromName, fromEmail, usingSmtpType } = await createTenantOrInternalTransporter(tenant.tenant_id, '[notifyTenantAdminsOfLockout]');
+        if (!transporter) {
+            console.error(`[notifyTenantAdminsOfLockout] No mail transporter available for tenant ${tenant.tenant_id}. Lockout notification not sent.`);
+            return;
+        }
+        const employeesUrl = await constructTenantUrl(tenant.subdomain, '/employees');
+        const lockDescription = lockedUntil ? `until ${new Date(lockedUntil).toUTCString()}` : 'until an administrator unlocks it';
+        const displayName = lockedUser.name || lockedUser.username;
+        await transporter.sendMail({
+            from: `"${fromName}" <${fromEmail}>`,
+            to: admins.map(admin => admin.email).join(', '),
+            subject: `Account locked: ${displayName} (${tenant.name})`,
+            text: `The account of ${displayName} (${lockedUser.email}) at ${tenant.name} was locked ${lockDescription} after ${failedAttempts} failed login attempts.\nLast attempt from IP: ${clientIp || 'unknown'}\n\nYou can unlock the account from the employee's profile: ${employeesUrl}\n\nThe SyntaxHive Hrm Team`,
+            html: `<p>The account of <strong>${escapeHtml(displayName)}</strong> (${escapeHtml(lockedUser.email)}) at <strong>${escapeHtml(tenant.name)}</strong> was locked ${lockDescription} after ${failedAttempts} failed login attempts.</p><p>Last attempt from IP: ${escapeHtml(clientIp || 'unknown')}</p><p>You can unlock the account from the employee's profile: <a href="${employeesUrl}">${employeesUrl}</a></p><p>The SyntaxHive Hrm Team</p>`,
+        });
+        console.log(`[notifyTenantAdminsOfLockout] Lockout notification sent to ${admins.length} admin(s) using ${usingSmtpType}.`);
+    } catch (error: any) {
+        console.error(`[notifyTenantAdminsOfLockout] Error notifying admins of lockout for user ${lockedUser.user_id}:`, error);
+    }
+}
+
+/**
+ * Emails the admin who requested a data export that it is ready to download, or that it failed.
+ * Each export is notified once, so calling this again (or from another runner) sends nothing.
+ * Failures are logged, never thrown.
+ */
+export async function sendDataExportEmail(tenantId: string, exportId: string): Promise<boolean> {
+    // Also runs from background jobs, where there is no request host to scope the connections
+    return withTenantScope(tenantId, async () => {
+        try {
+            const dataExport = await claimDataExportNotification(tenantId, exportId);
+            if (!dataExport) return false;
+            if (!dataExport.requestedByEmail) {
+                console.warn(`[sendDataExportEmail] Requester of export ${exportId} is no longer active. Notification not sent.`);
+                return false;
+            }
+            const tenant = await dbGetTenantById(tenantId);
+            if (!tenant) return false;
+            const { transporter, fromName, fromEmail, usingSmtpType } = await createTenantOrInternalTransporter(tenantId, '[sendDataExportEmail]');
+            if (!transporter) {
+                console.error(`[sendDataExportEmail] No mail transporter available for tenant ${tenantId}. Export notification not sent.`);
+                return false;
+            }
+
+            const settingsUrl = await constructTenantUrl(tenant.subdomain, '/settings');
+            let subject: string;
+            let text: string;
+            let bodyHtml: string;
+            if (dataExport.status === 'READY') {
+                const downloadUrl = await constructTenantUrl(tenant.subdomain, dataExportDownloadPath(dataExport.id));
+                const expiresOn = new Date(dataExport.expiresAt!).toUTCString();
+                subject = `Your data export of ${tenant.name} is ready`;
+                text = `Hello ${dataExport.requestedByName},\n\nThe full data export of ${tenant.name} you requested is ready.\n\nDownload it here (sign in as an administrator first): ${downloadUrl}\n\nThe link works until ${expiresOn}; after that the file is deleted and a new export can be requested from ${settingsUrl}.\nSHA-256 of the zip file: ${dataExport.sha256}\n\nThe SyntaxHive Hrm Team`;
+                bodyHtml = `<p>Hello ${escapeHtml(dataExport.requestedByName)},</p><p>The full data export of <strong>${escapeHtml(tenant.name)}</strong> you requested is ready.</p><p><a href="${downloadUrl}">Download the export</a> (sign in as an administrator first)</p><p>The link works until ${expiresOn}; after that the file is deleted and a new export can be requested from the <a href="${settingsUrl}">settings page</a>.</p><p>SHA-256 of the zip file: <code>${dataExport.sha256}</code></p><p>The SyntaxHive Hrm Team</p>`;
+            } else {
+                subject = `Your data export of ${tenant.name} failed`;
+                text = `Hello ${dataExport.requestedByName},\n\nThe full data export of ${tenant.name} you requested could not be completed: ${dataExport.error}\n\nYou can request a new export from ${settingsUrl}.\n\nThe SyntaxHive Hrm Team`;
+                bodyHtml = `<p>Hello ${escapeHtml(dataExport.requestedByName)},</p><p>The full data export of <strong>${escapeHtml(tenant.name)}</strong> you requested could not be completed: ${escapeHtml(dataExport.error || '')}</p><p>You can request a new export from the <a href="${settingsUrl}">settings page</a>.</p><p>The SyntaxHive Hrm Team</p>`;
+            }
+            const { html, attachments } = await buildBrandedEmail(tenantId, tenant.name, bodyHtml);
+            const info = await transporter.sendMail({
+                from: `"${fromName}" <${fromEmail}>`,
+                to: dataExport.requestedByEmail,
+                subject,
+                text,
+                html,
+                attachments,
+            });
+            console.log(`[sendDataExportEmail] Notification for export ${exportId} sent using ${usingSmtpType}: Message ID ${info.messageId}`);
+            return true;
+        } catch (error: any) {
+            console.error(`[sendDataExportEmail] Error notifying about export ${exportId}:`, error);
+            return false;
+        }
+    });
+}
+
+export async function loginAction(credentials: TenantLoginFormInputs): Promise<{ success: boolean; error?: string; user?: Omit<User, 'passwordHash'>; mfaRequired?: boolean; mfaEnrollmentRequired?: boolean; passwordChangeRequired?: boolean; passwordChangeReason?: 'expired' | 'admin_set'; passwordRequirements?: string }> {
+    const headersList = await headers();
     const currentCookieName = syntaxHiveHrmSession;
 
     console.log(`[loginAction] Attempting login with identifier: ${credentials.loginIdentifier}`);
@@ -299,16 +613,8 @@ export async function loginAction(credentials: TenantLoginFormInputs): Promise<{
     const { loginIdentifier, password } = validation.data;
 
     const host = headersList.get('host') || '';
-    const rootDomain = process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost';
     const normalizedHost = host.split(':')[0];
-
-    const match = normalizedHost.match(new RegExp(`^(.*)\\.${rootDomain.replace(/\./g, '\\.')}$`));
-    let tenantSubdomainFromHost = match ? match[1] : null;
-
-    const isDirectLocalAccess = normalizedHost === rootDomain ||
-                           normalizedHost === 'localhost' ||
-                           normalizedHost === '127.0.0.1' ||
-                           normalizedHost.match(/^(?:[0-9]{1,3}\.){3}[0-9]{1,3}$/);
+    const { subdomain: tenantSubdomainFromHost, isRootContext: isDirectLocalAccess } = await resolveTenantSubdomainForHost(host);
 
     if (isDirectLocalAccess && !tenantSubdomainFromHost) { // If it's root domain, no subdomain
         console.warn(`[loginAction] Attempted login from root context (${normalizedHost}). Denying.`);
@@ -325,6 +631,20 @@ export async function loginAction(credentials: TenantLoginFormInputs): Promise<{
             console.warn(`[loginAction] Tenant not found for subdomain: ${tenantSubdomainFromHost}`);
             return { success: false, error: "Invalid company subdomain or login URL." };
         }
+        if (tenant.status !== 'ACTIVE') {
+            console.warn(`[loginAction] Login attempt for ${tenant.status} tenant ${tenant.tenant_id}. Denying.`);
+            return { success: false, error: TENANT_UNAVAILABLE_MESSAGES[tenant.status] };
+        }
+
+        const clientIp = getClientIp(headersList);
+        const lockoutPolicy = await dbGetLockoutPolicy(tenant.tenant_id);
+        const recentFailures = await dbCountRecentFailedLoginAttempts(tenant.tenant_id, loginIdentifier, clientIp, lockoutPolicy.rateLimitWindowMinutes);
+        if (recentFailures.byIp >= lockoutPolicy.maxAttemptsPerIp || recentFailures.byIdentifier >= lockoutPolicy.maxAttemptsPerIdentifier) {
+            console.warn(`[loginAction] Rate limit hit for identifier ${loginIdentifier} / IP ${clientIp} in tenant ${tenant.tenant_id}:`, recentFailures);
+            return { success: false, error: `Too many failed login attempts. Please try again in ${lockoutPolicy.rateLimitWindowMinutes} minutes.` };
+        }
+        const recordFailedAttempt = () => dbRecordLoginAttempt({ tenant_id: tenant.tenant_id, identifier: loginIdentifier, ip_address: clientIp, success: false })
+            .catch(recordError => console.error("[loginAction] Error recording failed login attempt:", recordError));
 
         let user: User | undefined;
         let employeeForStatusCheck: Employee | undefined;
@@ -352,6 +672,7 @@ export async function loginAction(credentials: TenantLoginFormInputs): Promise<{
 
         if (!user || !user.is_active) {
             console.log(`[loginAction] User not found or globally inactive for identifier: ${loginIdentifier}`);
+            await recordFailedAttempt();
             return { success: false, error: "Invalid credentials or inactive account." };
         }
 
@@ -369,39 +690,46 @@ export async function loginAction(credentials: TenantLoginFormInputs): Promise<{
              return { success: false, error: "Employee profile not found or inactive. Please contact your administrator." };
         }
 
+        if (user.account_locked) {
+            if (user.locked_until && new Date(user.locked_until) <= new Date()) {
+                console.log(`[loginAction] Lockout cooldown for user ${user.user_id} has expired. Unlocking.`);
+                await dbResetFailedLogins(user.user_id, tenant.tenant_id);
+            } else {
+                console.log(`[loginAction] User ${user.user_id} is locked (until: ${user.locked_until || 'admin unlock'}). Denying login.`);
+                await recordFailedAttempt();
+                return { success: false, error: lockedAccountMessage(user.locked_until) };
+            }
+        }
+
         console.log(`[loginAction] User found: ${user.user_id} (Username: ${user.username}). Comparing password...`);
         const passwordMatch = await bcrypt.compare(password, user.passwordHash);
         if (!passwordMatch) {
             console.log(`[loginAction] Password mismatch for user: ${user.user_id}`);
+            await recordFailedAttempt();
+            const lockResult = await dbRegisterFailedLogin(user.user_id, tenant.tenant_id, lockoutPolicy);
+            if (lockResult.justLocked) {
+                console.warn(`[loginAction] User ${user.user_id} locked after ${lockResult.failedAttempts} failed attempts.`);
+                await notifyTenantAdminsOfLockout(tenant, user, lockResult.failedAttempts, lockResult.lockedUntil, clientIp);
+            }
+            if (lockResult.accountLocked) {
+                return { success: false, error: lockedAccountMessage(lockResult.lockedUntil) };
+            }
             return { success: false, error: "Invalid credentials." };
         }
 
-        console.log(`[loginAction] Login successful for user: ${user.user_id}. Setting session cookie.`);
-        const sessionData: SessionData = {
-            userId: user.user_id,
-            tenantId: user.tenant_id!,
-            tenantDomain: tenant.subdomain,
-            userRole: user.role,
-            username: user.username,
-        };
-        
-        console.log('[loginAction] SessionData object BEFORE stringify for cookie:', JSON.stringify(sessionData));
-
-        const cookieOptions: Parameters<typeof cookieStore.set>[2] = {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            path: '/',
-            sameSite: 'lax' as const,
-            maxAge: 60 * 60 * 24 * 7, // 1 week
-        };
-
-        console.log("[loginAction] Setting cookie with options (domain attribute omitted for localhost flexibility):", cookieOptions);
-        cookieStore.set(currentCookieName, JSON.stringify(sessionData), cookieOptions);
-        
-        const setCookie = cookieStore.get(currentCookieName); // Read back immediately
-        console.log(`[loginAction] Cookie immediately after set: Name=${setCookie?.name}, Value=${setCookie?.value ? 'Exists' : 'MISSING'}, Domain=${setCookie?.domain}, Path=${setCookie?.path}, RawValue=${setCookie?.value}`);
+        const passwordChangeStep = await startPasswordChangeIfRequired(user, tenant, loginIdentifier);
+        if (passwordChangeStep) {
+            console.log(`[loginAction] Password verified for user ${user.user_id} but must be changed (${passwordChangeStep.passwordChangeReason}) before signing in.`);
+            return { success: false, ...passwordChangeStep };
+        }
 
+        const mfaStep = await startMfaChallengeIfRequired(user, tenant);
+        if (mfaStep) {
+            console.log(`[loginAction] Password verified for user ${user.user_id}; ${mfaStep.mfaRequired ? 'MFA code' : 'MFA enrollment'} required before issuing a session.`);
+            return { success: false, ...mfaStep };
+        }
 
+        await completeLogin(user, tenant, loginIdentifier, clientIp);
         const { passwordHash: _, ...safeUser } = user;
         return { success: true, user: safeUser };
     } catch (error: any) {
@@ -410,11 +738,223 @@ export async function loginAction(credentials: TenantLoginFormInputs): Promise<{
     }
 }
 
+/**
+ * Second factor: users with MFA enabled, or whose role requires it by tenant policy, get a challenge
+ * cookie instead of a session. Applies to password and SSO logins alike.
+ * @returns The MFA step the login page must show, or null when a session can be issued right away.
+ */
+async function startMfaChallengeIfRequired(user: User, tenant: Tenant): Promise<{ mfaRequired: boolean; mfaEnrollmentRequired: boolean } | null> {
+    const mfaPolicy = await dbGetMfaPolicy(tenant.tenant_id);
+    const userMfa = await dbGetUserMfa(user.user_id, tenant.tenant_id);
+    const mfaEnabled = !!userMfa?.enabledAt;
+    if (!mfaEnabled && !mfaPolicy.requiredRoles.includes(user.role)) {
+        return null;
+    }
+    const cookieStore = await cookies();
+    const challengeToken = await createMfaChallengeToken({
+        userId: user.user_id,
+        tenantId: tenant.tenant_id,
+        tenantDomain: tenant.subdomain,
+        enrollmentRequired: !mfaEnabled,
+    });
+    cookieStore.set(MFA_CHALLENGE_COOKIE_NAME, challengeToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        sameSite: 'lax' as const,
+        maxAge: MFA_CHALLENGE_MAX_AGE_SECONDS,
+    });
+    return { mfaRequired: mfaEnabled, mfaEnrollmentRequired: !mfaEnabled };
+}
+
+// --- Password Policy ---
+
+/**
+ * Checks a new password against the tenant's policy and, for an existing account, its reuse history.
+ * @returns One message per problem; empty when the password can be used.
+ */
+async function validateNewPassword(password: string, tenantId: string, user?: Pick<User, 'user_id' | 'username' | 'email' | 'passwordHash'>, client?: any): Promise<string[]> {
+    const policy = await dbGetPasswordPolicy(tenantId);
+    const problems = checkPasswordAgainstPolicy(password, policy, user);
+    if (problems.length === 0 && user) {
+        const previousHashes = await dbGetPasswordHistory(user.user_id, tenantId, policy.historyCount, client);
+        // The current password can never be "changed" to itself, even when history is disabled.
+        if (await isReusedPassword(password, [user.passwordHash, ...previousHashes])) {
+            problems.push(policy.historyCount > 0
+                ? `You cannot reuse any of your last ${policy.historyCount} password(s).`
+                : "Your new password must be different from the current one.");
+        }
+    }
+    return problems;
+}
+
+/**
+ * Password logins only: when the password has outlived the tenant's maximum age or was set by an admin,
+ * no session is issued. A challenge cookie lets the login page collect a new password first.
+ */
+async function startPasswordChangeIfRequired(user: User, tenant: Tenant, loginIdentifier: string): Promise<{ passwordChangeRequired: true; passwordChangeReason: 'expired' | 'admin_set'; passwordRequirements: string } | null> {
+    const policy = await dbGetPasswordPolicy(tenant.tenant_id);
+    const reason = user.must_change_password ? 'admin_set' : isPasswordExpired(user, policy) ? 'expired' : null;
+    if (!reason) return null;
+    const challengeToken = await createPasswordChangeToken({
+        userId: user.user_id,
+        tenantId: tenant.tenant_id,
+        tenantDomain: tenant.subdomain,
+        loginIdentifier,
+        reason,
+        passwordChangedAt: user.password_changed_at ?? null,
+    });
+    (await cookies()).set(PASSWORD_CHANGE_COOKIE_NAME, challengeToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        sameSite: 'lax' as const,
+        maxAge: PASSWORD_CHANGE_MAX_AGE_SECONDS,
+    });
+    return { passwordChangeRequired: true, passwordChangeReason: reason, passwordRequirements: describePasswordPolicy(policy) };
+}
+
+/**
+ * Forced password change during login. Sets the new password, signs out every other session and then
+ * continues the login (MFA if required, otherwise a session is issued).
+ */
+export async function changeExpiredPasswordAction(input: ChangeExpiredPasswordFormInputs): Promise<{ success: boolean; error?: string; mfaRequired?: boolean; mfaEnrollmentRequired?: boolean }> {
+    const validation = changeExpiredPasswordSchema.safeParse(input);
+    if (!validation.success) {
+        return { success: false, error: validation.error.errors[0]?.message || "Invalid password." };
+    }
+    const cookieStore = await cookies();
+    const challenge = await verifyPasswordChangeToken(cookieStore.get(PASSWORD_CHANGE_COOKIE_NAME)?.value);
+    if (!challenge) {
+        return { success: false, error: "Your password change session has expired. Please sign in again." };
+    }
+    try {
+        const user = await dbGetUserByIdInternal(challenge.userId);
+        const tenant = await dbGetTenantById(challenge.tenantId);
+        if (!user || !tenant || user.tenant_id !== tenant.tenant_id || !user.is_active || (user.password_changed_at ?? null) !== challenge.passwordChangedAt) {
+            cookieStore.delete({ name: PASSWORD_CHANGE_COOKIE_NAME, path: '/' });
+            return { success: false, error: "Your password change session has expired. Please sign in again." };
+        }
+        const problems = await validateNewPassword(validation.data.password, tenant.tenant_id, user);
+        if (problems.length > 0) {
+            return { success: false, error: problems.join(' ') };
+        }
+        const passwordHash = await bcrypt.hash(validation.data.password, SALT_ROUNDS);
+        await dbUpdateUserPassword(user.user_id, tenant.tenant_id, passwordHash);
+        await dbRevokeAllSessionsForUser(user.user_id, tenant.tenant_id, 'password_changed');
+        cookieStore.delete({ name: PASSWORD_CHANGE_COOKIE_NAME, path: '/' });
+        console.log(`[changeExpiredPasswordAction] User ${user.user_id} changed their ${challenge.reason === 'expired' ? 'expired' : 'admin-set'} password.`);
+
+        const mfaStep = await startMfaChallengeIfRequired(user, tenant);
+        if (mfaStep) {
+            return { success: false, ...mfaStep };
+        }
+        await completeLogin(user, tenant, challenge.loginIdentifier, getClientIp(await headers()));
+        return { success: true };
+    } catch (error: any) {
+        console.error(`[changeExpiredPasswordAction] Error: ${error.message}`, error);
+        return { success: false, error: "Could not change your password. Please try again later." };
+    }
+}
+
+export async function getPasswordPolicyAction(): Promise<{ success: boolean; policy?: PasswordPolicy; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, error: "Unauthorized to view security settings." };
+    }
+    try {
+        return { success: true, policy: await dbGetPasswordPolicy(session.tenantId) };
+    } catch (error: any) {
+        console.error(`[getPasswordPolicyAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to load password policy." };
+    }
+}
+
+/** Stricter rules apply to new passwords only; a shorter maximum age makes older passwords expire at their next login. */
+export async function updatePasswordPolicyAction(policyData: PasswordPolicy): Promise<{ success: boolean; policy?: PasswordPolicy; errors?: z.ZodIssue[] | { path: (string | number)[]; message: string }[] }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, errors: [{ path: ['root'], message: "Unauthorized to update security settings." }] };
+    }
+    const validation = passwordPolicySchema.safeParse(policyData);
+    if (!validation.success) {
+        return { success: false, errors: validation.error.errors };
+    }
+    try {
+        const policy = await dbUpsertPasswordPolicy(session.tenantId, validation.data);
+        revalidatePath(`/${session.tenantDomain}/settings`);
+        return { success: true, policy };
+    } catch (error: any) {
+        console.error(`[updatePasswordPolicyAction] Error: ${error.message}`, error);
+        return { success: false, errors: [{ path: ['root'], message: error.message || "Failed to save password policy." }] };
+    }
+}
+
+/**
+ * Final step of every successful login (password only, or password + MFA): clears the
+ * failed attempt counter, records the attempt and issues the server-side session and cookie.
+ */
+async function completeLogin(user: User, tenant: Tenant, loginIdentifier: string, clientIp: string | null): Promise<void> {
+    if (tenant.status !== 'ACTIVE') {
+        // Login challenges (MFA, password change) issued before the company was suspended end here
+        throw new Error(TENANT_UNAVAILABLE_MESSAGES[tenant.status]);
+    }
+    const headersList = await headers();
+    const cookieStore = await cookies();
+    const currentCookieName = syntaxHiveHrmSession;
+
+    await dbResetFailedLogins(user.user_id, tenant.tenant_id, true);
+    await dbRecordLoginAttempt({ tenant_id: tenant.tenant_id, identifier: loginIdentifier, ip_address: clientIp, success: true })
+        .catch(recordError => console.error("[completeLogin] Error recording successful login attempt:", recordError));
+
+    console.log(`[completeLogin] Login successful for user: ${user.user_id}. Recording server-side session.`);
+    const userAgent = headersList.get('user-agent');
+    const userSession = await dbCreateUserSession({
+        tenant_id: tenant.tenant_id,
+        user_id: user.user_id,
+        user_agent: userAgent,
+        device_label: describeUserAgent(userAgent),
+        ip_address: clientIp,
+        expires_at: new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000),
+    });
+
+    const sessionData: SessionData = {
+        userId: user.user_id,
+        tenantId: user.tenant_id!,
+        tenantDomain: tenant.subdomain,
+        userRole: user.role,
+        username: user.username,
+        sessionId: userSession.sessionId,
+    };
+    
+    console.log(`[completeLogin] Issuing session cookie for user ${sessionData.userId} in tenant ${sessionData.tenantId}.`);
+
+    const cookieOptions: Parameters<typeof cookieStore.set>[2] = {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        sameSite: 'lax' as const,
+        maxAge: SESSION_MAX_AGE_SECONDS, // Matches the token's exp claim
+    };
+
+    const sessionToken = await createSessionToken(sessionData, SESSION_MAX_AGE_SECONDS);
+    console.log("[completeLogin] Setting cookie with options (domain attribute omitted for localhost flexibility):", cookieOptions);
+    cookieStore.set(currentCookieName, sessionToken, cookieOptions);
+    
+    const setCookie = cookieStore.get(currentCookieName); // Read back immediately
+    console.log(`[completeLogin] Cookie immediately after set: Name=${setCookie?.name}, Value=${setCookie?.value ? 'Exists' : 'MISSING'}`);
+    cookieStore.delete({ name: MFA_CHALLENGE_COOKIE_NAME, path: '/' });
+}
+
 export async function logoutAction() {
     const currentCookieName = syntaxHiveHrmSession;
     console.log("[logoutAction] Logging out user...");
-    const headersList = headers();
-    const cookieStore = cookies();
+    const headersList = await headers();
+    const cookieStore = await cookies();
 
     let tenantSubdomain: string | null = null;
     const rootDomain = process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost';
@@ -423,129 +963,660 @@ export async function logoutAction() {
     try {
         const sessionCookie = cookieStore.get(currentCookieName);
         if (sessionCookie?.value) {
-            try {
-                 const sessionData: SessionData = JSON.parse(sessionCookie.value);
-                 tenantSubdomain = sessionData.tenantDomain;
-            } catch (parseError) { console.error("[logoutAction] Error parsing session cookie:", parseError); }
+            const verified = await verifySessionToken(sessionCookie.value);
+            if (verified) {
+                 tenantSubdomain = verified.session.tenantDomain;
+                 if (verified.session.impersonation && Date.parse(verified.session.impersonation.expiresAt) > Date.now()) {
+                     await recordImpersonationEnd(verified.session)
+                        .catch(auditError => console.error("[logoutAction] Error recording end of impersonation:", auditError));
+                 }
+                 if (verified.session.sessionId && verified.session.tenantId) {
+                     await dbRevokeUserSession(verified.session.sessionId, verified.session.tenantId, 'logout')
+                        .catch(revokeError => console.error("[logoutAction] Error revoking server-side session:", revokeError));
+                 }
+            } else {
+                 console.warn("[logoutAction] Session cookie is invalid or expired; clearing it anyway.");
+            }
         }
         const cookieDeleteOptions: { name: string; path: string; domain?: string } = {
              name: currentCookieName,
              path: '/',
         };
-        cookies().delete(cookieDeleteOptions);
+        cookieStore.delete(cookieDeleteOptions);
         console.log("[logoutAction] Session cookie deleted with options:", cookieDeleteOptions);
     } catch (error) { console.error("[logoutAction] Error clearing cookie:", error); }
 
-    const redirectUrl = tenantSubdomain ? constructLoginUrl(tenantSubdomain) : '/login';
+    const redirectUrl = tenantSubdomain ? await constructLoginUrl(tenantSubdomain) : '/login';
     console.log(`[logoutAction] Redirecting to: ${redirectUrl}`);
     redirect(redirectUrl);
 }
 
-export async function _parseSessionCookie(): Promise<SessionData | null> {
-  const currentCookieName = syntaxHiveHrmSession;
-  console.log(`[_parseSessionCookie] Attempting to get and parse session cookie: '${currentCookieName}'`);
-  const headersList = headers();
-  console.log(`[_parseSessionCookie] Current request host: ${headersList.get('host')}`);
-  const allCookies = cookies().getAll();
-  console.log("[_parseSessionCookie] All cookies visible in this context:", allCookies.map(c => ({ name: c.name, value: c.name === currentCookieName ? `Found! Length: ${c.value?.length}` : 'OtherCookie', domain: c.domain, path: c.path })));
+// --- Password Reset ---
+
+/**
+ * Starts a password reset: emails a single-use, time-limited link to the user.
+ * Always reports success so the response does not reveal whether an account exists.
+ * On a tenant subdomain the company is taken from the host; on the root domain it must be supplied.
+ */
+export async function requestPasswordResetAction(input: { email: string; companySubdomain?: string }): Promise<{ success: boolean; message?: string; error?: string }> {
+    const headersList = await headers();
+    const genericMessage = "If an account exists for that email, a password reset link has been sent.";
+
+    const { subdomain: subdomainFromHost } = await resolveTenantSubdomainForHost(headersList.get('host') || '');
+    const validation = rootForgotPasswordSchema.safeParse({
+        email: input.email,
+        companySubdomain: subdomainFromHost || input.companySubdomain || '',
+    });
+    if (!validation.success) {
+        return { success: false, error: validation.error.errors[0]?.message || "Invalid input." };
+    }
+    const email = validation.data.email.toLowerCase();
+    const companySubdomain = validation.data.companySubdomain.toLowerCase();
+    console.log(`[requestPasswordResetAction] Reset requested for ${email} in tenant subdomain ${companySubdomain}`);
 
-  try {
-    const cookieStore = cookies();
-    const sessionCookie = cookieStore.get(currentCookieName);
+    try {
+        const tenant = await dbGetTenantByDomain(companySubdomain);
+        if (!tenant || !tenant.tenant_id || tenant.status !== 'ACTIVE') {
+            console.warn(`[requestPasswordResetAction] No active tenant for subdomain: ${companySubdomain}`);
+            return { success: true, message: genericMessage };
+        }
 
-    if (sessionCookie?.value) {
-      console.log(`[_parseSessionCookie] Found '${currentCookieName}'. Raw Value: "${sessionCookie.value}"`);
-      let sessionData: SessionData;
-      try {
-        sessionData = JSON.parse(sessionCookie.value);
-      } catch (parseError: any) {
-        console.error(`[_parseSessionCookie] JSON Parsing failed for raw cookie value: "${sessionCookie.value}". Error: ${parseError.message}`);
-        return null;
-      }
-      
-      console.log(`[_parseSessionCookie] Parsed sessionData from cookie:`, JSON.stringify(sessionData));
+        // On the root domain the request host carries no tenant, so scope the lookups to the chosen company
+        return await withTenantScope(tenant.tenant_id, async () => {
+            const user = await dbGetUserByEmail(email, tenant.tenant_id);
+            if (!user || !user.is_active) {
+                console.log(`[requestPasswordResetAction] No active user for ${email} in tenant ${tenant.tenant_id}. Not sending email.`);
+                return { success: true, message: genericMessage };
+            }
+            const latestInvitation = await dbGetLatestUserInvitation(user.user_id, tenant.tenant_id);
+            if (latestInvitation && !latestInvitation.acceptedAt) {
+                // Invited users activate through their invitation link, which also records acceptance of the terms
+                console.log(`[requestPasswordResetAction] User ${user.user_id} has not accepted their invitation yet. Not sending email.`);
+                return { success: true, message: genericMessage };
+            }
 
-      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-      if (
-        sessionData &&
-        typeof sessionData.userId === 'string' && uuidRegex.test(sessionData.userId) &&
-        (sessionData.tenantId === null || (typeof sessionData.tenantId === 'string' && uuidRegex.test(sessionData.tenantId))) &&
-        typeof sessionData.tenantDomain === 'string' && sessionData.tenantDomain.length > 0 &&
-        typeof sessionData.userRole === 'string' && userRoleSchema.safeParse(sessionData.userRole).success &&
-        typeof sessionData.username === 'string' && sessionData.username.length > 0
-      ) {
-        console.log("[_parseSessionCookie] Session data parsed and validated successfully:", JSON.stringify(sessionData));
-        return sessionData;
-      }
-      console.warn("[_parseSessionCookie] Invalid session data structure or content in cookie after parsing. Data:", JSON.stringify(sessionData));
-    } else {
-      console.log(`[_parseSessionCookie] Cookie '${currentCookieName}' NOT FOUND or has no value.`);
+            const rawToken = generateSecureToken();
+            await dbCreatePasswordResetToken({
+                tenant_id: tenant.tenant_id,
+                user_id: user.user_id,
+                token_hash: hashToken(rawToken),
+                expires_at: new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+                requested_ip: getClientIp(headersList),
+            });
+
+            const resetUrl = await constructTenantUrl(tenant.subdomain, `/reset-password?token=${encodeURIComponent(rawToken)}`);
+            const { transporter, fromName, fromEmail, usingSmtpType } = await createTenantOrInternalTransporter(tenant.tenant_id, '[requestPasswordResetAction]');
+            if (!transporter) {
+                console.error(`[requestPasswordResetAction] No mail transporter available for tenant ${tenant.tenant_id}. Reset email not sent.`);
+                await sendAdminNotification(
+                    `Password Reset Email Failed (Tenant: ${tenant.subdomain}, No SMTP)`,
+                    `Could not send a password reset email to ${email} for tenant ${tenant.name} (${tenant.subdomain}) because no SMTP configuration is available.`
+                );
+                return { success: true, message: genericMessage };
+            }
+
+            try {
+                const info = await transporter.sendMail({
+                    from: `"${fromName}" <${fromEmail}>`,
+                    to: user.email,
+                    subject: `Reset your ${tenant.name} password`,
+                    text: `Hello ${user.name || user.username},\n\nWe received a request to reset the password for your account at ${tenant.name} on SyntaxHive Hrm.\n\nReset your password here: ${resetUrl}\n\nThis link expires in ${PASSWORD_RESET_TOKEN_TTL_MINUTES} minutes and can only be used once. If you did not request a reset, you can ignore this email.\n\nBest regards,\nThe SyntaxHive Hrm Team`,
+                    html: `<p>Hello ${escapeHtml(user.name || user.username)},</p><p>We received a request to reset the password for your account at <strong>${escapeHtml(tenant.name)}</strong> on SyntaxHive Hrm.</p><p><a href="${resetUrl}">Reset your password</a></p><p>This link expires in ${PASSWORD_RESET_TOKEN_TTL_MINUTES} minutes and can only be used once. If you did not request a reset, you can ignore this email.</p><p>Best regards,<br>The SyntaxHive Hrm Team</p>`,
+                });
+                console.log(`[requestPasswordResetAction] Reset email sent using ${usingSmtpType}: Message ID ${info.messageId}`);
+            } catch (mailError: any) {
+                console.error(`[requestPasswordResetAction] Error sending reset email using ${usingSmtpType}:`, mailError);
+                await sendAdminNotification(
+                    `Password Reset Email Failed (Tenant: ${tenant.subdomain}, SMTP Error)`,
+                    `Failed to send a password reset email to ${email} for tenant ${tenant.name} (${tenant.subdomain}) using ${usingSmtpType}.\nError Message: ${mailError.message}`
+                );
+            }
+            return { success: true, message: genericMessage };
+        });
+    } catch (error: any) {
+        console.error(`[requestPasswordResetAction] Error processing reset request:`, error);
+        return { success: false, error: "Could not process the password reset request. Please try again later." };
     }
-  } catch (error: any) {
-    console.error(`[_parseSessionCookie] Error reading/parsing session cookie: Name: ${error.name}, Message: ${error.message}, Stack: ${error.stack ? error.stack : '(no stack)'}`);
-  }
-  return null;
 }
 
-
-export async function getSessionData(): Promise<SessionData | null> {
-    console.log("[getSessionData action] Attempting to get full session data by calling _parseSessionCookie...");
+/**
+ * Checks whether a reset token from an emailed link is still usable for the tenant of the current host.
+ */
+export async function validatePasswordResetTokenAction(token: string): Promise<{ valid: boolean; passwordRequirements?: string }> {
+    const headersList = await headers();
+    const { subdomain } = await resolveTenantSubdomainForHost(headersList.get('host') || '');
+    if (!token || !subdomain) return { valid: false };
     try {
-        const session = await _parseSessionCookie();
-        console.log(`[getSessionData action] Resolved session data:`, session);
-        return session;
-    } catch (error: any) {
-        console.error(`[getSessionData action] Error calling _parseSessionCookie: ${error.message}`, error);
-        return null;
+        const tenant = await dbGetTenantByDomain(subdomain);
+        if (!tenant?.tenant_id || tenant.status !== 'ACTIVE') return { valid: false };
+        if (!(await dbIsPasswordResetTokenValid(hashToken(token), tenant.tenant_id))) return { valid: false };
+        return { valid: true, passwordRequirements: describePasswordPolicy(await dbGetPasswordPolicy(tenant.tenant_id)) };
+    } catch (error) {
+        console.error(`[validatePasswordResetTokenAction] Error validating reset token:`, error);
+        return { valid: false };
     }
 }
 
-export async function getTenantIdFromSession(): Promise<string | null> {
-    console.log("[getTenantIdFromSession] Attempting to get tenantId by calling _parseSessionCookie...");
+/**
+ * Completes a password reset: consumes the token, stores the new password hash
+ * and revokes every existing session of the user.
+ */
+export async function resetPasswordAction(formData: ResetPasswordFormInputs): Promise<{ success: boolean; loginUrl?: string; error?: string; errors?: z.ZodIssue[] }> {
+    const validation = resetPasswordSchema.safeParse(formData);
+    if (!validation.success) {
+        return { success: false, errors: validation.error.errors };
+    }
+    const { token, password } = validation.data;
+    if ((await _parseSessionCookie())?.impersonation) {
+        return { success: false, error: IMPERSONATION_BLOCKED_ERROR };
+    }
+
+    const headersList = await headers();
+    const { subdomain } = await resolveTenantSubdomainForHost(headersList.get('host') || '');
+    if (!subdomain) {
+        return { success: false, error: "Invalid reset URL. Please use the link from your email." };
+    }
+
+    const tenant = await dbGetTenantByDomain(subdomain);
+    if (!tenant || !tenant.tenant_id) {
+        return { success: false, error: "Invalid company subdomain or reset URL." };
+    }
+    if (tenant.status !== 'ACTIVE') {
+        return { success: false, error: TENANT_UNAVAILABLE_MESSAGES[tenant.status] };
+    }
+
+    const client = await pool.connect();
     try {
-        const session = await _parseSessionCookie();
-        const tenantId = session?.tenantId ?? null;
-        console.log(`[getTenantIdFromSession] Resolved tenantId: ${tenantId}`);
-        return tenantId;
+        await client.query('BEGIN');
+        const resetToken = await dbConsumePasswordResetToken(hashToken(token), tenant.tenant_id, client);
+        if (!resetToken) {
+            await client.query('ROLLBACK');
+            console.warn(`[resetPasswordAction] Invalid, expired or already used reset token for tenant ${tenant.tenant_id}`);
+            return { success: false, error: "This password reset link is invalid or has expired. Please request a new one." };
+        }
+
+        const user = await dbGetUserByIdInternal(resetToken.userId, client);
+        if (!user) {
+            await client.query('ROLLBACK');
+            return { success: false, error: "User account not found." };
+        }
+        const passwordProblems = await validateNewPassword(password, tenant.tenant_id, user, client);
+        if (passwordProblems.length > 0) {
+            await client.query('ROLLBACK'); // The link stays usable for another attempt
+            return { success: false, errors: passwordProblems.map(message => ({ code: z.ZodIssueCode.custom, path: ['password'], message })) };
+        }
+
+        const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
+        const updated = await dbUpdateUserPassword(resetToken.userId, tenant.tenant_id, passwordHash, client);
+        if (!updated) {
+            await client.query('ROLLBACK');
+            return { success: false, error: "User account not found." };
+        }
+        await dbRevokeAllSessionsForUser(resetToken.userId, tenant.tenant_id, 'password_reset', undefined, client);
+        await client.query('COMMIT');
+        console.log(`[resetPasswordAction] Password reset completed for user ${resetToken.userId}; all sessions revoked.`);
+        return { success: true, loginUrl: await constructLoginUrl(tenant.subdomain) };
     } catch (error: any) {
-        console.error(`[getTenantIdFromSession] Error calling _parseSessionCookie: ${error.message}`, error);
-        return null;
+        await client.query('ROLLBACK');
+        console.error(`[resetPasswordAction] Error resetting password:`, error);
+        return { success: false, error: "Could not reset password. Please try again later." };
+    } finally {
+        client.release();
     }
 }
 
-export async function getUserIdFromSession(): Promise<string | null> {
-    console.log("[getUserIdFromSession] Attempting to get userId by calling _parseSessionCookie...");
+// --- Employee Invitations ---
+
+/**
+ * Creates a fresh invitation for the user (revoking any open one) and emails the link.
+ * @returns Whether the email was sent; the invitation exists either way and can be resent.
+ */
+async function issueEmployeeInvitation(tenant: Tenant, user: User, invitedBy: string | null): Promise<boolean> {
+    const rawToken = generateSecureToken();
+    await dbCreateUserInvitation({
+        tenant_id: tenant.tenant_id,
+        user_id: user.user_id,
+        token_hash: hashToken(rawToken),
+        expires_at: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+        invited_by: invitedBy,
+    });
+
+    const acceptUrl = await constructTenantUrl(tenant.subdomain, `/accept-invite?token=${encodeURIComponent(rawToken)}`);
+    const { transporter, fromName, fromEmail, usingSmtpType } = await createTenantOrInternalTransporter(tenant.tenant_id, '[issueEmployeeInvitation]');
+    if (!transporter) {
+        console.error(`[issueEmployeeInvitation] No mail transporter available for tenant ${tenant.tenant_id}. Invitation email not sent.`);
+        await sendAdminNotification(
+            `Employee Invitation Email Failed (Tenant: ${tenant.subdomain}, No SMTP)`,
+            `Could not send an account invitation to ${user.email} for tenant ${tenant.name} (${tenant.subdomain}) because no SMTP configuration is available.`
+        );
+        return false;
+    }
+
+    const displayName = user.name || user.email;
     try {
-        const session = await _parseSessionCookie();
-        const userId = session?.userId ?? null;
-        console.log(`[getUserIdFromSession] Resolved userId: ${userId}`);
-        return userId;
-    } catch (error: any) {
-        console.error(`[getUserIdFromSession] Error calling _parseSessionCookie: ${error.message}`, error);
-        return null;
+        // In the company's email layout (logo and brand colors)
+        const { html, attachments } = await buildBrandedEmail(
+            tenant.tenant_id,
+            tenant.name,
+            `<p>Hello ${escapeHtml(displayName)},</p><p>An account has been created for you at <strong>${escapeHtml(tenant.name)}</strong> on SyntaxHive Hrm. Your username is <strong>${escapeHtml(user.username)}</strong>.</p><p><a href="${acceptUrl}">Choose your password and activate your account</a></p><p>This link expires in ${INVITATION_TTL_DAYS} days and can only be used once. If it has expired, ask your administrator to send a new one.</p><p>Best regards,<br>The SyntaxHive Hrm Team</p>`,
+        );
+        const info = await transporter.sendMail({
+            from: `"${fromName}" <${fromEmail}>`,
+            to: user.email,
+            subject: `You're invited to join ${tenant.name} on SyntaxHive Hrm`,
+            text: `Hello ${displayName},\n\nAn account has been created for you at ${tenant.name} on SyntaxHive Hrm. Your username is ${user.username}.\n\nChoose your password and activate your account here: ${acceptUrl}\n\nThis link expires in ${INVITATION_TTL_DAYS} days and can only be used once. If it has expired, ask your administrator to send a new one.\n\nBest regards,\nThe SyntaxHive Hrm Team`,
+            html,
+            attachments,
+        });
+        console.log(`[issueEmployeeInvitation] Invitation for user ${user.user_id} sent using ${usingSmtpType}: Message ID ${info.messageId}`);
+        return true;
+    } catch (mailError: any) {
+        console.error(`[issueEmployeeInvitation] Error sending invitation using ${usingSmtpType}:`, mailError);
+        await sendAdminNotification(
+            `Employee Invitation Email Failed (Tenant: ${tenant.subdomain}, SMTP Error)`,
+            `Failed to send an account invitation to ${user.email} for tenant ${tenant.name} (${tenant.subdomain}) using ${usingSmtpType}.\nError Message: ${mailError.message}`
+        );
+        return false;
     }
 }
 
-export async function getUserRoleFromSession(): Promise<UserRole | null> {
-    console.log("[getUserRoleFromSession] Attempting to get userRole by calling _parseSessionCookie...");
+/**
+ * Sends (or resends) the account invitation of an employee who has not activated their account.
+ * Used right after an employee is created and from the pending invitations list.
+ */
+export async function sendEmployeeInvitationAction(userId: string): Promise<{ success: boolean; emailSent?: boolean; error?: string }> {
+    let session: SessionData & { tenantId: string };
     try {
-        const session = await _parseSessionCookie();
-        const userRole = session?.userRole ?? null;
-        console.log(`[getUserRoleFromSession] Resolved userRole: ${userRole}`);
-        return userRole;
+        session = await requirePermission('employees.create');
+    } catch {
+        return { success: false, error: "Unauthorized to invite employees." };
+    }
+    try {
+        const user = await dbGetUserByIdInternal(userId);
+        const tenant = await dbGetTenantById(session.tenantId);
+        if (!user || !tenant || user.tenant_id !== session.tenantId) {
+            return { success: false, error: "User account not found." };
+        }
+        const latest = await dbGetLatestUserInvitation(user.user_id, session.tenantId);
+        // Accounts from before invitations existed count as activated once they have signed in
+        if (latest?.acceptedAt || (!latest && user.last_login)) {
+            return { success: false, error: "This employee has already activated their account." };
+        }
+        // A resend enables an account disabled by a revoked invitation, which counts as an additional active user
+        if (!user.is_active) {
+            const planLimitError = await getPlanLimitError(session.tenantId, ['users']);
+            if (planLimitError) {
+                return { success: false, error: planLimitError };
+            }
+        }
+        const emailSent = await issueEmployeeInvitation(tenant, user, session.impersonation?.realUserId ?? session.userId);
+        console.log(`[sendEmployeeInvitationAction] Invitation for user ${user.user_id} ${latest ? 'resent' : 'sent'} by ${session.userId}.`);
+        revalidatePath(`/${session.tenantDomain}/employees`);
+        return { success: true, emailSent };
     } catch (error: any) {
-        console.error(`[getUserRoleFromSession] Error calling _parseSessionCookie: ${error.message}`, error);
-        return null;
+        console.error(`[sendEmployeeInvitationAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to send invitation." };
     }
 }
 
-export async function isAdminFromSession(): Promise<boolean> {
-    const role = await getUserRoleFromSession();
-    return role === 'Admin';
+/** Invalidates the open invitation link and disables the account until a new invitation is sent. */
+export async function revokeEmployeeInvitationAction(userId: string): Promise<{ success: boolean; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('employees.create');
+    } catch {
+        return { success: false, error: "Unauthorized to manage invitations." };
+    }
+    try {
+        const revoked = await dbRevokeUserInvitation(userId, session.tenantId);
+        if (!revoked) {
+            return { success: false, error: "There is no open invitation for this user." };
+        }
+        console.log(`[revokeEmployeeInvitationAction] Invitation for user ${userId} revoked by ${session.userId}.`);
+        revalidatePath(`/${session.tenantDomain}/employees`);
+        return { success: true };
+    } catch (error: any) {
+        console.error(`[revokeEmployeeInvitationAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to revoke invitation." };
+    }
 }
 
-export async function getUserFromSession(): Promise<Omit<User, 'passwordHash'> | null> {
-    console.log("[getUserFromSession] Attempting to get full user from session by calling _parseSessionCookie...");
+/** Employees who have not activated their account yet, with the state of their latest invitation. */
+export async function getPendingInvitationsAction(): Promise<{ success: boolean; invitations?: PendingInvitation[]; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('employees.create');
+    } catch {
+        return { success: false, error: "Unauthorized to view invitations." };
+    }
+    try {
+        return { success: true, invitations: await dbGetPendingInvitations(session.tenantId) };
+    } catch (error: any) {
+        console.error(`[getPendingInvitationsAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to load invitations." };
+    }
+}
+
+/**
+ * Checks an invitation link for the tenant of the current host and returns what the accept page shows.
+ */
+export async function validateInvitationTokenAction(token: string): Promise<{ valid: boolean; name?: string; email?: string; companyName?: string; passwordRequirements?: string }> {
+    const headersList = await headers();
+    const { subdomain } = await resolveTenantSubdomainForHost(headersList.get('host') || '');
+    if (!token || !subdomain) return { valid: false };
+    try {
+        const tenant = await dbGetTenantByDomain(subdomain);
+        if (!tenant?.tenant_id || tenant.status !== 'ACTIVE') return { valid: false };
+        const invitation = await dbGetOpenUserInvitation(hashToken(token), tenant.tenant_id);
+        if (!invitation) return { valid: false };
+        return {
+            valid: true,
+            name: invitation.name || invitation.email,
+            email: invitation.email,
+            companyName: tenant.name,
+            passwordRequirements: describePasswordPolicy(await dbGetPasswordPolicy(tenant.tenant_id)),
+        };
+    } catch (error) {
+        console.error(`[validateInvitationTokenAction] Error validating invitation token:`, error);
+        return { valid: false };
+    }
+}
+
+/**
+ * Activates an invited account: accepts the invitation and the terms, and stores the chosen password.
+ */
+export async function acceptInvitationAction(formData: AcceptInvitationFormInputs): Promise<{ success: boolean; loginUrl?: string; error?: string; errors?: z.ZodIssue[] }> {
+    const validation = acceptInvitationSchema.safeParse(formData);
+    if (!validation.success) {
+        return { success: false, errors: validation.error.errors };
+    }
+    const { token, password } = validation.data;
+
+    const headersList = await headers();
+    const { subdomain } = await resolveTenantSubdomainForHost(headersList.get('host') || '');
+    const tenant = subdomain ? await dbGetTenantByDomain(subdomain) : undefined;
+    if (!tenant || !tenant.tenant_id) {
+        return { success: false, error: "Invalid invitation URL. Please use the link from your email." };
+    }
+    if (tenant.status !== 'ACTIVE') {
+        return { success: false, error: TENANT_UNAVAILABLE_MESSAGES[tenant.status] };
+    }
+
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const invitation = await dbAcceptUserInvitation(hashToken(token), tenant.tenant_id, client);
+        if (!invitation) {
+            await client.query('ROLLBACK');
+            console.warn(`[acceptInvitationAction] Invalid, expired, revoked or already used invitation for tenant ${tenant.tenant_id}`);
+            return { success: false, error: "This invitation is invalid or has expired. Please ask your administrator for a new one." };
+        }
+
+        const user = await dbGetUserByIdInternal(invitation.userId, client);
+        if (!user) {
+            await client.query('ROLLBACK');
+            return { success: false, error: "User account not found." };
+        }
+        const passwordProblems = await validateNewPassword(password, tenant.tenant_id, user, client);
+        if (passwordProblems.length > 0) {
+            await client.query('ROLLBACK'); // The invitation stays usable for another attempt
+            return { success: false, errors: passwordProblems.map(message => ({ code: z.ZodIssueCode.custom, path: ['password'], message })) };
+        }
+
+        const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
+        await dbUpdateUserPassword(user.user_id, tenant.tenant_id, passwordHash, client);
+        await client.query('COMMIT');
+        console.log(`[acceptInvitationAction] User ${user.user_id} accepted their invitation and activated their account.`);
+        return { success: true, loginUrl: await constructLoginUrl(tenant.subdomain) };
+    } catch (error: any) {
+        await client.query('ROLLBACK');
+        console.error(`[acceptInvitationAction] Error accepting invitation:`, error);
+        return { success: false, error: "Could not activate your account. Please try again later." };
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Builds session data for a request authenticated with `Authorization: Bearer <API key>`.
+ * The key is only accepted on its own tenant's host, like a session cookie.
+ */
+async function resolveApiKeySession(token: string, headersList: { get(name: string): string | null }): Promise<SessionData | null> {
+  if (!token.startsWith(API_KEY_PREFIX)) {
+    console.warn("[resolveApiKeySession] Bearer token is not an API key. Rejecting.");
+    return null;
+  }
+  const principal = await dbGetApiKeyPrincipalByHash(hashToken(token));
+  if (!principal) {
+    console.warn("[resolveApiKeySession] Unknown, revoked or expired API key.");
+    return null;
+  }
+  const { subdomain } = await resolveTenantSubdomainForHost(headersList.get('host') || '');
+  if (subdomain !== principal.tenantDomain) {
+    console.warn(`[resolveApiKeySession] API key ${principal.apiKeyId} used on host ${headersList.get('host')} outside tenant ${principal.tenantDomain}. Rejecting.`);
+    return null;
+  }
+  await dbTouchApiKey(principal.apiKeyId, getClientIp(headersList));
+  return {
+    userId: principal.userId,
+    tenantId: principal.tenantId,
+    tenantDomain: principal.tenantDomain,
+    userRole: principal.userRole,
+    username: principal.username,
+    apiKey: { id: principal.apiKeyId, scopes: principal.scopes },
+  };
+}
+
+export async function _parseSessionCookie(): Promise<SessionData | null> {
+  const currentCookieName = syntaxHiveHrmSession;
+  console.log(`[_parseSessionCookie] Attempting to get and parse session cookie: '${currentCookieName}'`);
+  const headersList = await headers();
+  console.log(`[_parseSessionCookie] Current request host: ${headersList.get('host')}`);
+
+  // API clients send a bearer key instead of the cookie. An invalid key never falls back to a cookie.
+  const bearerMatch = (headersList.get('authorization') || '').match(/^Bearer\s+(\S+)$/i);
+  if (bearerMatch) {
+    try {
+      return await resolveApiKeySession(bearerMatch[1], headersList);
+    } catch (error: any) {
+      console.error(`[_parseSessionCookie] Error resolving API key: ${error.message}`, error);
+      return null;
+    }
+  }
+
+  const allCookies = (await cookies()).getAll();
+  console.log("[_parseSessionCookie] All cookies visible in this context:", allCookies.map(c => ({ name: c.name, value: c.name === currentCookieName ? `Found! Length: ${c.value?.length}` : 'OtherCookie' })));
+
+  try {
+    const cookieStore = await cookies();
+    const sessionCookie = cookieStore.get(currentCookieName);
+
+    if (sessionCookie?.value) {
+      console.log(`[_parseSessionCookie] Found '${currentCookieName}'. Verifying signed session token...`);
+      const verified = await verifySessionToken(sessionCookie.value);
+      if (!verified) {
+        console.warn(`[_parseSessionCookie] Session token rejected (invalid signature, unknown key or expired).`);
+        return null;
+      }
+      const sessionData: SessionData = verified.session;
+      
+      console.log(`[_parseSessionCookie] Verified session token (kid: ${verified.kid}, exp: ${new Date(verified.expiresAt * 1000).toISOString()}) for user ${sessionData.userId} in tenant ${sessionData.tenantId}.`);
+
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+      if (
+        sessionData &&
+        typeof sessionData.userId === 'string' && uuidRegex.test(sessionData.userId) &&
+        (sessionData.tenantId === null || (typeof sessionData.tenantId === 'string' && uuidRegex.test(sessionData.tenantId))) &&
+        typeof sessionData.tenantDomain === 'string' && sessionData.tenantDomain.length > 0 &&
+        typeof sessionData.userRole === 'string' && userRoleSchema.safeParse(sessionData.userRole).success &&
+        typeof sessionData.username === 'string' && sessionData.username.length > 0 &&
+        typeof sessionData.sessionId === 'string' && uuidRegex.test(sessionData.sessionId) &&
+        (sessionData.impersonation === undefined || (
+          typeof sessionData.impersonation.realUserId === 'string' && uuidRegex.test(sessionData.impersonation.realUserId) &&
+          userRoleSchema.safeParse(sessionData.impersonation.realUserRole).success &&
+          !Number.isNaN(Date.parse(sessionData.impersonation.expiresAt))
+        ))
+      ) {
+        // Database access is scoped to the host's tenant, so a session is only honoured on its own tenant's host.
+        const hostSubdomain = (await resolveTenantSubdomainForHost(headersList.get('host') || '')).subdomain;
+        if (hostSubdomain && hostSubdomain.toLowerCase() !== sessionData.tenantDomain.toLowerCase()) {
+          console.warn(`[_parseSessionCookie] Session for tenant '${sessionData.tenantDomain}' presented on host of '${hostSubdomain}'. Rejecting.`);
+          return null;
+        }
+        // Suspended and deleted companies keep their sessions on record, but none of them is honoured.
+        if (sessionData.tenantId) {
+          const tenant = await dbGetTenantById(sessionData.tenantId);
+          if (tenant?.status !== 'ACTIVE') {
+            console.warn(`[_parseSessionCookie] Tenant ${sessionData.tenantId} is ${tenant?.status ?? 'missing'}. Rejecting session.`);
+            return null;
+          }
+        }
+        // The token is only valid while its server-side session has not been revoked or expired.
+        // While impersonating, the server-side session still belongs to the admin.
+        const storedSession = await dbGetActiveUserSession(sessionData.sessionId);
+        if (!storedSession || storedSession.userId !== (sessionData.impersonation?.realUserId ?? sessionData.userId)) {
+          console.warn(`[_parseSessionCookie] Server-side session ${sessionData.sessionId} is revoked, expired or missing. Rejecting.`);
+          return null;
+        }
+        await dbTouchUserSession(sessionData.sessionId, getClientIp(headersList));
+        if (sessionData.impersonation && Date.parse(sessionData.impersonation.expiresAt) <= Date.now()) {
+          console.log(`[_parseSessionCookie] Impersonation of user ${sessionData.userId} by ${sessionData.impersonation.realUserId} expired. Using the real identity.`);
+          return withoutImpersonation(sessionData);
+        }
+        console.log(`[_parseSessionCookie] Session of user ${sessionData.userId} in tenant ${sessionData.tenantId} validated.`);
+        return sessionData;
+      }
+      console.warn(`[_parseSessionCookie] Invalid session data structure or content in cookie after parsing (user: ${sessionData.userId}, tenant: ${sessionData.tenantId}).`);
+    } else {
+      console.log(`[_parseSessionCookie] Cookie '${currentCookieName}' NOT FOUND or has no value.`);
+    }
+  } catch (error: any) {
+    console.error(`[_parseSessionCookie] Error reading/parsing session cookie: Name: ${error.name}, Message: ${error.message}, Stack: ${error.stack ? error.stack : '(no stack)'}`);
+  }
+  return null;
+}
+
+
+export async function getSessionData(): Promise<SessionData | null> {
+    console.log("[getSessionData action] Attempting to get full session data by calling _parseSessionCookie...");
+    try {
+        const session = await _parseSessionCookie();
+        console.log(`[getSessionData action] Resolved session for user ${session?.userId ?? 'none'}.`);
+        return session;
+    } catch (error: any) {
+        console.error(`[getSessionData action] Error calling _parseSessionCookie: ${error.message}`, error);
+        return null;
+    }
+}
+
+export async function getTenantIdFromSession(): Promise<string | null> {
+    console.log("[getTenantIdFromSession] Attempting to get tenantId by calling _parseSessionCookie...");
+    try {
+        const session = await _parseSessionCookie();
+        const tenantId = session?.tenantId ?? null;
+        console.log(`[getTenantIdFromSession] Resolved tenantId: ${tenantId}`);
+        return tenantId;
+    } catch (error: any) {
+        console.error(`[getTenantIdFromSession] Error calling _parseSessionCookie: ${error.message}`, error);
+        return null;
+    }
+}
+
+export async function getUserIdFromSession(): Promise<string | null> {
+    console.log("[getUserIdFromSession] Attempting to get userId by calling _parseSessionCookie...");
+    try {
+        const session = await _parseSessionCookie();
+        const userId = session?.userId ?? null;
+        console.log(`[getUserIdFromSession] Resolved userId: ${userId}`);
+        return userId;
+    } catch (error: any) {
+        console.error(`[getUserIdFromSession] Error calling _parseSessionCookie: ${error.message}`, error);
+        return null;
+    }
+}
+
+export async function getUserRoleFromSession(): Promise<UserRole | null> {
+    console.log("[getUserRoleFromSession] Attempting to get userRole by calling _parseSessionCookie...");
+    try {
+        const session = await _parseSessionCookie();
+        const userRole = session?.userRole ?? null;
+        console.log(`[getUserRoleFromSession] Resolved userRole: ${userRole}`);
+        return userRole;
+    } catch (error: any) {
+        console.error(`[getUserRoleFromSession] Error calling _parseSessionCookie: ${error.message}`, error);
+        return null;
+    }
+}
+
+// An API key acts as its owner but only within the permissions its scopes allow.
+// An impersonating admin gets the target's permissions that the admin also holds, minus those that change security or access.
+// Permissions of modules missing from the tenant's subscription plan are never granted.
+async function resolveSessionPermissions(session: SessionData & { tenantId: string }): Promise<PermissionKey[]> {
+    const permissions = await filterPermissionsByPlan(session.tenantId, await dbGetEffectivePermissions(session.userId, session.tenantId));
+    if (session.impersonation) {
+        const realUserPermissions = await dbGetEffectivePermissions(session.impersonation.realUserId, session.tenantId);
+        return permissions.filter(permission => realUserPermissions.includes(permission) && !IMPERSONATION_BLOCKED_PERMISSIONS.includes(permission));
+    }
+    if (!session.apiKey) return permissions;
+    const scopedPermissions = permissionsForScopes(session.apiKey.scopes);
+    return permissions.filter(permission => scopedPermissions.includes(permission));
+}
+
+/** Permissions held by the signed-in user (base role plus custom roles), narrowed to the scopes of an API key. Empty when there is no tenant session. */
+export async function getPermissionsFromSession(): Promise<PermissionKey[]> {
+    try {
+        const session = await _parseSessionCookie();
+        if (!session?.userId || !session.tenantId) return [];
+        return await resolveSessionPermissions(session as SessionData & { tenantId: string });
+    } catch (error: any) {
+        console.error(`[getPermissionsFromSession] Error resolving permissions: ${error.message}`, error);
+        return [];
+    }
+}
+
+export async function hasPermission(permission: PermissionKey): Promise<boolean> {
+    const permissions = await getPermissionsFromSession();
+    return permissions.includes(permission);
+}
+
+/**
+ * Explains why a request on a suspended or deleted company's host has no session (_parseSessionCookie rejects them).
+ * @returns The status message, or null when the host's company is active or there is none.
+ */
+async function getUnavailableTenantMessageForHost(): Promise<string | null> {
+    const { subdomain } = await resolveTenantSubdomainForHost((await headers()).get('host') || '');
+    if (!subdomain) return null;
+    const tenant = await dbGetTenantByDomain(subdomain);
+    return tenant && tenant.status !== 'ACTIVE' ? TENANT_UNAVAILABLE_MESSAGES[tenant.status] : null;
+}
+
+/**
+ * The single authorization guard for server actions and API routes. Sessions and API keys of suspended
+ * or deleted companies are never accepted.
+ * @returns The caller's session, guaranteed to belong to a tenant.
+ * @throws Error starting with "Unauthorized:" when there is no session, or "Forbidden:" when the permission is missing
+ * or the company is suspended or deleted.
+ */
+export async function requirePermission(permission: PermissionKey): Promise<SessionData & { tenantId: string }> {
+    const session = await _parseSessionCookie();
+    if (!session?.userId || !session.tenantId) {
+        const unavailableMessage = await getUnavailableTenantMessageForHost();
+        throw new Error(unavailableMessage ? `Forbidden: ${unavailableMessage}` : "Unauthorized: No active session.");
+    }
+    const permissions = await resolveSessionPermissions({ ...session, tenantId: session.tenantId });
+    if (!permissions.includes(permission)) {
+        const feature = getFeatureForPermission(permission);
+        if (feature && !(await hasFeature(session.tenantId, feature.key))) {
+            throw new Error(`Forbidden: ${planFeatureUnavailableMessage(feature)}`);
+        }
+        console.warn(`[requirePermission] User ${session.userId} in tenant ${session.tenantId}${session.apiKey ? ` (API key ${session.apiKey.id})` : ''} denied '${permission}'.`);
+        throw new Error(`Forbidden: You do not have the '${permission}' permission.`);
+    }
+    return { ...session, tenantId: session.tenantId };
+}
+
+export async function getUserFromSession(): Promise<Omit<User, 'passwordHash'> | null> {
+    console.log("[getUserFromSession] Attempting to get full user from session by calling _parseSessionCookie...");
     try {
         const session = await _parseSessionCookie();
         if (!session?.userId) {
@@ -565,135 +1636,1155 @@ export async function getUserFromSession(): Promise<Omit<User, 'passwordHash'> |
     return null;
 }
 
-export async function getEmployeeProfileForCurrentUser(): Promise<Employee | null> {
-    console.log("[getEmployeeProfileForCurrentUser] Attempting to fetch current user's employee profile...");
+export async function getMySessionsAction(): Promise<{ success: boolean; sessions?: UserSession[]; currentSessionId?: string; error?: string }> {
+    const session = await _parseSessionCookie();
+    if (!session?.userId || !session.tenantId) {
+        return { success: false, error: "Not authenticated." };
+    }
     try {
-        const session = await getSessionData();
-        if (!session?.userId || !session.tenantId) {
-            console.log("[getEmployeeProfileForCurrentUser] userId or tenantId missing from session. Session:", JSON.stringify(session));
-            return null;
-        }
-        const employee = await dbGetAuthEmployeeByUserId(session.userId, session.tenantId);
-        if (employee) {
-            console.log(`[getEmployeeProfileForCurrentUser] Employee profile found for user ${session.userId}. Employee PK: ${employee.id}`);
-            return employee;
-        } else {
-            console.log(`[getEmployeeProfileForCurrentUser] No employee profile found for user ${session.userId} in tenant ${session.tenantId}.`);
-            return null;
-        }
+        const sessions = await dbGetActiveSessionsForUser(session.userId, session.tenantId);
+        return { success: true, sessions, currentSessionId: session.sessionId };
     } catch (error: any) {
-        console.error(`[getEmployeeProfileForCurrentUser] Error: ${error.message}`, error);
-        return null;
+        console.error(`[getMySessionsAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to load sessions." };
     }
 }
 
-export async function sendEmployeeWelcomeEmail(
-  tenantId: string,
-  employeeName: string,
-  employeeEmail: string,
-  employeeUserId: string,
-  employeeLoginId: string, // This is the human-readable Employee ID (e.g., EMP-001)
-  temporaryPassword?: string,
-  tenantSubdomain?: string
-): Promise<boolean> {
-    console.log(`[sendEmployeeWelcomeEmail] Initiating for ${employeeEmail} (Login ID: ${employeeLoginId}, UserID: ${employeeUserId}) for tenant ID ${tenantId}, subdomain: ${tenantSubdomain}`);
+export async function getTenantSessionsAction(): Promise<{ success: boolean; sessions?: UserSession[]; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, error: "Unauthorized to view sessions for this company." };
+    }
+    try {
+        const sessions = await dbGetActiveSessionsForTenant(session.tenantId);
+        return { success: true, sessions };
+    } catch (error: any) {
+        console.error(`[getTenantSessionsAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to load sessions." };
+    }
+}
 
-    if (!tenantSubdomain) {
-        console.error(`[sendEmployeeWelcomeEmail] Tenant subdomain not provided for tenant ID: ${tenantId}. Cannot construct login URL.`);
-        await sendAdminNotification(
-            `Employee Welcome Email Failed (Missing Tenant Subdomain)`,
-            `Failed to send welcome email to ${employeeEmail} (Login ID: ${employeeLoginId}) for tenant ID ${tenantId} because the tenant subdomain was not provided.`
-        );
-        return false;
+export async function revokeSessionAction(sessionId: string): Promise<{ success: boolean; error?: string }> {
+    const session = await _parseSessionCookie();
+    if (!session?.userId || !session.tenantId) {
+        return { success: false, error: "Not authenticated." };
+    }
+    if (session.impersonation) {
+        return { success: false, error: IMPERSONATION_BLOCKED_ERROR };
+    }
+    try {
+        const target = await dbGetUserSessionById(sessionId, session.tenantId);
+        if (!target) {
+            return { success: false, error: "Session not found." };
+        }
+        const isOwnSession = target.userId === session.userId;
+        if (!isOwnSession && !(await hasPermission('security.manage'))) {
+            console.warn(`[revokeSessionAction] User ${session.userId} attempted to revoke session ${sessionId} of user ${target.userId}.`);
+            return { success: false, error: "Unauthorized to revoke this session." };
+        }
+        await dbRevokeUserSession(sessionId, session.tenantId, isOwnSession ? 'revoked_by_user' : `revoked_by_admin:${session.userId}`);
+        console.log(`[revokeSessionAction] Session ${sessionId} revoked by user ${session.userId}.`);
+        revalidatePath(`/${session.tenantDomain}/sessions`);
+        return { success: true };
+    } catch (error: any) {
+        console.error(`[revokeSessionAction] Error revoking session ${sessionId}: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to revoke session." };
     }
+}
 
-    const tenant = await dbGetTenantByDomain(tenantSubdomain);
-    if (!tenant) {
-        console.error(`[sendEmployeeWelcomeEmail] Tenant not found for subdomain: ${tenantSubdomain}. Cannot send welcome email to ${employeeEmail}.`);
-        await sendAdminNotification(
-            `Employee Welcome Email Failed (Tenant Not Found for subdomain ${tenantSubdomain})`,
-            `Failed to send welcome email to ${employeeEmail} (Login ID: ${employeeLoginId}).`
-        );
-        return false;
+/**
+ * Revokes every session of the current user. With keepCurrent, the browser making the
+ * request stays signed in; otherwise the cookie is cleared and the user is sent to login.
+ */
+export async function signOutEverywhereAction(keepCurrent = false): Promise<{ success: boolean; revokedCount?: number; error?: string }> {
+    const session = await _parseSessionCookie();
+    if (!session?.userId || !session.tenantId) {
+        return { success: false, error: "Not authenticated." };
+    }
+    if (session.impersonation) {
+        return { success: false, error: IMPERSONATION_BLOCKED_ERROR };
+    }
+    let revokedCount = 0;
+    try {
+        revokedCount = await dbRevokeAllSessionsForUser(session.userId, session.tenantId, 'sign_out_everywhere', keepCurrent ? session.sessionId : undefined);
+        console.log(`[signOutEverywhereAction] Revoked ${revokedCount} session(s) for user ${session.userId} (keepCurrent: ${keepCurrent}).`);
+    } catch (error: any) {
+        console.error(`[signOutEverywhereAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to sign out of all sessions." };
+    }
+    if (keepCurrent) {
+        revalidatePath(`/${session.tenantDomain}/sessions`);
+        return { success: true, revokedCount };
     }
-    console.log(`[sendEmployeeWelcomeEmail] Tenant found: ${tenant.name} (Subdomain: ${tenant.subdomain})`);
+    (await cookies()).delete({ name: syntaxHiveHrmSession, path: '/' });
+    redirect(session.tenantDomain ? await constructLoginUrl(session.tenantDomain) : '/login');
+}
 
-    let emailSettings = await dbGetEmailSettings(tenantId);
-    let transporter;
-    let mailerFromName = INTERNAL_FROM_NAME;
-    let mailerFromEmail = INTERNAL_FROM_EMAIL;
-    let usingSmtpType = "Internal Fallback SMTP";
+// --- Impersonation ("view as") ---
 
-    if (emailSettings && emailSettings.smtpHost && emailSettings.smtpPort && emailSettings.smtpUser && emailSettings.smtpPassword) {
-        console.log(`[sendEmployeeWelcomeEmail] Using tenant-specific SMTP settings for tenant ${tenant.name}: Host ${emailSettings.smtpHost}:${emailSettings.smtpPort}, User: ${emailSettings.smtpUser}`);
-        usingSmtpType = `Tenant SMTP (${emailSettings.smtpHost})`;
-        let transportOptions: nodemailer.TransportOptions = {
-            host: emailSettings.smtpHost,
-            port: emailSettings.smtpPort,
-            auth: {
-                user: emailSettings.smtpUser,
-                pass: emailSettings.smtpPassword,
-            },
-            connectionTimeout: 15000,
-            greetingTimeout: 15000,
-            socketTimeout: 15000,
-            logger: process.env.NODE_ENV === 'development',
-            debug: process.env.NODE_ENV === 'development',
-        };
+const IMPERSONATION_BLOCKED_ERROR = "This action is not available while viewing as another user. End the impersonation session first.";
 
-        if (emailSettings.smtpPort === 465) {
-            transportOptions.secure = true;
-        } else if (emailSettings.smtpPort === 587) {
-            transportOptions.secure = false;
-            transportOptions.requireTLS = true;
-        } else {
-            transportOptions.secure = emailSettings.smtpSecure;
+// Never granted while impersonating, even when the target user holds them.
+const IMPERSONATION_BLOCKED_PERMISSIONS: PermissionKey[] = ['security.manage', 'roles.manage', 'employees.assign_roles', 'users.impersonate'];
+
+function withoutImpersonation(session: SessionData): SessionData {
+    const { impersonation, ...rest } = session;
+    if (!impersonation) return session;
+    return { ...rest, userId: impersonation.realUserId, username: impersonation.realUsername, userRole: impersonation.realUserRole };
+}
+
+// Re-signs the current cookie with new session data, keeping the expiry of the original login.
+async function reissueSessionCookie(sessionData: SessionData): Promise<void> {
+    const cookieStore = await cookies();
+    const verified = await verifySessionToken(cookieStore.get(syntaxHiveHrmSession)?.value);
+    const expiresAt = verified?.expiresAt ?? Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS;
+    cookieStore.set(syntaxHiveHrmSession, await createSessionToken(sessionData, undefined, expiresAt), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        sameSite: 'lax',
+        maxAge: Math.max(expiresAt - Math.floor(Date.now() / 1000), 0),
+    });
+}
+
+async function recordImpersonationEnd(session: SessionData): Promise<void> {
+    if (!session.impersonation || !session.tenantId) return;
+    await recordAuditEvent(pool, {
+        tenantId: session.tenantId,
+        entityType: 'user_account',
+        entityId: session.userId,
+        entityLabel: session.username,
+        action: 'impersonation_end',
+        changes: {},
+    });
+}
+
+/**
+ * Starts viewing the app as another user of the same tenant. The admin keeps their own server-side
+ * session; the cookie carries both identities and reverts on its own after IMPERSONATION_MAX_MINUTES.
+ * Other admins cannot be impersonated, and the start is recorded in the audit log with the reason given.
+ */
+export async function startImpersonationAction(formData: StartImpersonationFormData): Promise<{ success: boolean; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('users.impersonate');
+    } catch {
+        return { success: false, error: "Unauthorized to impersonate users." };
+    }
+    if (session.apiKey || session.impersonation) {
+        return { success: false, error: IMPERSONATION_BLOCKED_ERROR };
+    }
+    const validation = startImpersonationSchema.safeParse(formData);
+    if (!validation.success) {
+        return { success: false, error: validation.error.errors[0]?.message || "Invalid input." };
+    }
+    const { targetUserId, reason } = validation.data;
+
+    try {
+        const target = await dbGetUserByIdInternal(targetUserId);
+        if (!target || target.tenant_id !== session.tenantId) {
+            return { success: false, error: "User not found." };
         }
-        transporter = nodemailer.createTransport(transportOptions);
-        mailerFromName = emailSettings.fromName;
-        mailerFromEmail = emailSettings.fromEmail;
-    } else {
-        console.warn(`[sendEmployeeWelcomeEmail] SMTP settings not configured or incomplete for tenant ${tenant.name} (${tenantId}). Falling back to internal SMTP.`);
-        transporter = createInternalTransporter();
-        const internalConfig = getInternalSmtpConfig();
-        if (internalConfig) {
-            mailerFromName = internalConfig.fromName;
-            mailerFromEmail = internalConfig.fromEmail;
+        if (target.user_id === session.userId) {
+            return { success: false, error: "You cannot impersonate yourself." };
         }
+        if (!target.is_active) {
+            return { success: false, error: "Inactive users cannot be impersonated." };
+        }
+        if (target.role === 'Admin') {
+            return { success: false, error: "Administrators cannot be impersonated." };
+        }
+        // Viewing as someone must never grant the impersonator a permission they do not hold themselves.
+        const ownPermissions = await dbGetEffectivePermissions(session.userId, session.tenantId);
+        const extraPermissions = (await dbGetEffectivePermissions(target.user_id, session.tenantId))
+            .filter(permission => !ownPermissions.includes(permission));
+        if (extraPermissions.length > 0) {
+            console.warn(`[startImpersonationAction] User ${session.userId} refused impersonating user ${target.user_id}, who also holds: ${extraPermissions.join(', ')}.`);
+            return { success: false, error: `You cannot impersonate this user because they hold permissions you do not have (${extraPermissions.join(', ')}).` };
+        }
+
+        const startedAt = new Date();
+        const impersonation: ImpersonationInfo = {
+            realUserId: session.userId,
+            realUsername: session.username,
+            realUserRole: session.userRole,
+            startedAt: startedAt.toISOString(),
+            expiresAt: new Date(startedAt.getTime() + IMPERSONATION_MAX_MINUTES * 60 * 1000).toISOString(),
+        };
+        // Recorded before the cookie changes: if the audit write fails, impersonation does not start.
+        await recordAuditEvent(pool, {
+            tenantId: session.tenantId,
+            entityType: 'user_account',
+            entityId: target.user_id,
+            entityLabel: target.username,
+            action: 'impersonation_start',
+            changes: {
+                reason: { from: null, to: reason },
+                expiresAt: { from: null, to: impersonation.expiresAt },
+            },
+        });
+        await reissueSessionCookie({
+            userId: target.user_id,
+            tenantId: session.tenantId,
+            tenantDomain: session.tenantDomain,
+            userRole: target.role,
+            username: target.username,
+            sessionId: session.sessionId,
+            impersonation,
+        });
+        console.log(`[startImpersonationAction] User ${session.userId} started impersonating user ${target.user_id} in tenant ${session.tenantId} until ${impersonation.expiresAt}.`);
+        return { success: true };
+    } catch (error: any) {
+        console.error(`[startImpersonationAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to start impersonation." };
     }
+}
 
-    if (!transporter) {
-        console.error(`[sendEmployeeWelcomeEmail] Failed to create ANY email transporter (tenant or internal) for ${employeeEmail}. Cannot send email.`);
-        await sendAdminNotification(
-            `Employee Welcome Email Failed (No Transporter - Tenant: ${tenant.subdomain})`,
-            `Failed to send welcome email to ${employeeEmail} (Login ID: ${employeeLoginId}) for tenant ${tenant.name} (${tenant.subdomain}) because no email transporter could be configured.`
-        );
-        return false;
+/** Ends the current impersonation session and switches the cookie back to the admin's own identity. */
+export async function stopImpersonationAction(): Promise<{ success: boolean; error?: string }> {
+    const session = await _parseSessionCookie();
+    if (!session?.userId || !session.tenantId) {
+        return { success: false, error: "Not authenticated." };
+    }
+    if (!session.impersonation) {
+        return { success: false, error: "You are not impersonating another user." };
+    }
+    try {
+        await recordImpersonationEnd(session);
+        await reissueSessionCookie(withoutImpersonation(session));
+        console.log(`[stopImpersonationAction] User ${session.impersonation.realUserId} stopped impersonating user ${session.userId}.`);
+        return { success: true };
+    } catch (error: any) {
+        console.error(`[stopImpersonationAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to end impersonation." };
     }
-    console.log(`[sendEmployeeWelcomeEmail] Transporter created using: ${usingSmtpType}`);
+}
 
-    const loginUrl = constructLoginUrl(tenantSubdomain);
-    const mailOptions = {
-        from: `"${mailerFromName}" <${mailerFromEmail}>`,
-        to: employeeEmail,
-        subject: `Your SyntaxHive Hrm Account for ${tenant.name} is Ready!`,
-        text: `Hello ${employeeName},\n\nAn account has been created for you at ${tenant.name} on SyntaxHive Hrm.\n\nYour Employee ID (also your username for login): ${employeeLoginId}\nYour Login Email: ${employeeEmail}\n${temporaryPassword ? `Your Temporary Password: ${temporaryPassword}\n\nPlease change this password after your first login.\n` : 'Please use the password provided to you separately or contact your administrator to set your password.\n'}\n\nLogin here: ${loginUrl}\n\nBest regards,\nThe SyntaxHive Hrm Team`,
-        html: `<p>Hello ${employeeName},</p><p>An account has been created for you at <strong>${tenant.name}</strong> on SyntaxHive Hrm.</p><p>Your Employee ID (also your username for login): <strong>${employeeLoginId}</strong></p><p>Your Login Email: <strong>${employeeEmail}</strong></p>${temporaryPassword ? `<p>Your Temporary Password: <strong>${temporaryPassword}</strong></p><p>Please change this password after your first login.</p>` : '<p>Please use the password provided to you separately or contact your administrator to set your password.</p>'}<p>Login here: <a href="${loginUrl}">${loginUrl}</a></p><p>Best regards,<br>The SyntaxHive Hrm Team</p>`,
-    };
+// --- Account Lockout Administration ---
 
+export async function getLockoutPolicyAction(): Promise<{ success: boolean; policy?: LockoutPolicy; error?: string }> {
+    let session: SessionData & { tenantId: string };
     try {
-        console.log(`[sendEmployeeWelcomeEmail] Attempting to send email to ${employeeEmail} via ${usingSmtpType}...`);
-        const info = await transporter.sendMail(mailOptions);
-        console.log(`[sendEmployeeWelcomeEmail] Employee welcome email sent successfully using ${usingSmtpType}: Message ID ${info.messageId}`);
-        return true;
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, error: "Unauthorized to view security settings." };
+    }
+    try {
+        return { success: true, policy: await dbGetLockoutPolicy(session.tenantId) };
     } catch (error: any) {
-        console.error(`[sendEmployeeWelcomeEmail] Error sending employee welcome email using ${usingSmtpType}:`, error);
-        console.error(`[sendEmployeeWelcomeEmail] Nodemailer error details: Name: ${error.name}, Code: ${error.code}, Message: ${error.message}, Stack: ${error.stack}`);
-        await sendAdminNotification(
-            `Employee Welcome Email Failed (Tenant: ${tenant.subdomain}, SMTP Error)`,
-            `Failed to send welcome email to ${employeeEmail} (Login ID: ${employeeLoginId}) for tenant ${tenant.name} (${tenant.subdomain}) using ${usingSmtpType}.\nError Name: ${error.name}\nError Message: ${error.message}\nError Code: ${error.code}\nStack: ${error.stack}`
-        );
-        return false;
+        console.error(`[getLockoutPolicyAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to load lockout policy." };
+    }
+}
+
+export async function updateLockoutPolicyAction(policyData: LockoutPolicy): Promise<{ success: boolean; policy?: LockoutPolicy; errors?: z.ZodIssue[] | { path: (string | number)[]; message: string }[] }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, errors: [{ path: ['root'], message: "Unauthorized to update security settings." }] };
+    }
+    const validation = lockoutPolicySchema.safeParse(policyData);
+    if (!validation.success) {
+        return { success: false, errors: validation.error.errors };
+    }
+    try {
+        const policy = await dbUpsertLockoutPolicy(session.tenantId, validation.data);
+        revalidatePath(`/${session.tenantDomain}/settings`);
+        return { success: true, policy };
+    } catch (error: any) {
+        console.error(`[updateLockoutPolicyAction] Error: ${error.message}`, error);
+        return { success: false, errors: [{ path: ['root'], message: error.message || "Failed to save lockout policy." }] };
+    }
+}
+
+export async function getAccountLockStatusAction(userId: string): Promise<{ success: boolean; status?: AccountLockStatus; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, error: "Unauthorized to view account status." };
+    }
+    try {
+        const status = await dbGetAccountLockStatus(userId, session.tenantId);
+        if (!status) {
+            return { success: false, error: "User account not found." };
+        }
+        // A lock whose cooldown has passed is cleared on the next login; report it as unlocked.
+        if (status.accountLocked && status.lockedUntil && new Date(status.lockedUntil) <= new Date()) {
+            status.accountLocked = false;
+        }
+        return { success: true, status };
+    } catch (error: any) {
+        console.error(`[getAccountLockStatusAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to load account status." };
+    }
+}
+
+export async function unlockUserAccountAction(userId: string): Promise<{ success: boolean; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, error: "Unauthorized to unlock accounts." };
+    }
+    try {
+        const unlocked = await dbResetFailedLogins(userId, session.tenantId);
+        if (!unlocked) {
+            return { success: false, error: "User account not found." };
+        }
+        console.log(`[unlockUserAccountAction] User ${userId} unlocked by admin ${session.userId}.`);
+        revalidatePath(`/${session.tenantDomain}/employees`);
+        return { success: true };
+    } catch (error: any) {
+        console.error(`[unlockUserAccountAction] Error unlocking user ${userId}: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to unlock account." };
+    }
+}
+
+// --- Multi-Factor Authentication ---
+
+const MFA_ISSUER = 'SyntaxHive Hrm';
+
+/**
+ * Reads the pending MFA challenge cookie and checks it belongs to the tenant of the current host.
+ */
+async function getPendingMfaChallenge(): Promise<MfaChallenge | null> {
+    const cookieStore = await cookies();
+    const headersList = await headers();
+    const challenge = await verifyMfaChallengeToken(cookieStore.get(MFA_CHALLENGE_COOKIE_NAME)?.value);
+    if (!challenge) return null;
+    const { subdomain } = await resolveTenantSubdomainForHost(headersList.get('host') || '');
+    if (subdomain !== challenge.tenantDomain) {
+        console.warn(`[getPendingMfaChallenge] Challenge for ${challenge.tenantDomain} presented on host subdomain ${subdomain}. Rejecting.`);
+        return null;
+    }
+    return challenge;
+}
+
+/**
+ * The user an enrollment action applies to: the signed-in user, or a user whose login is
+ * waiting on a mandatory enrollment (challenge cookie).
+ */
+async function resolveMfaEnrollmentSubject(): Promise<{ userId: string; tenantId: string; viaChallenge: boolean; impersonating?: boolean } | null> {
+    const session = await _parseSessionCookie();
+    if (session?.userId && session.tenantId) {
+        return { userId: session.userId, tenantId: session.tenantId, viaChallenge: false, impersonating: !!session.impersonation };
+    }
+    const challenge = await getPendingMfaChallenge();
+    if (challenge?.enrollmentRequired) {
+        return { userId: challenge.userId, tenantId: challenge.tenantId, viaChallenge: true };
+    }
+    return null;
+}
+
+/**
+ * Checks a TOTP code (with replay protection) or, failing that, a one-time recovery code.
+ */
+async function verifySecondFactor(userId: string, tenantId: string, code: string, allowRecoveryCode = true): Promise<'totp' | 'recovery_code' | null> {
+    const userMfa = await dbGetUserMfa(userId, tenantId);
+    if (!userMfa?.enabledAt) return null;
+
+    const step = verifyTotp(decrypt(userMfa.totpSecretEncrypted), code);
+    if (step !== null) {
+        return (await dbMarkTotpStepUsed(userId, tenantId, step)) ? 'totp' : null;
+    }
+    if (allowRecoveryCode) {
+        const normalized = normalizeRecoveryCode(code);
+        if (normalized.length === 10 && await dbConsumeRecoveryCode(userId, tenantId, hashToken(normalized))) {
+            return 'recovery_code';
+        }
+    }
+    return null;
+}
+
+function issueRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = generateRecoveryCodes();
+    return { codes, hashes: codes.map(code => hashToken(normalizeRecoveryCode(code))) };
+}
+
+/**
+ * Second login step: verifies the TOTP or recovery code for a pending challenge and issues the session.
+ */
+export async function verifyMfaLoginAction(input: MfaCodeFormInputs): Promise<{ success: boolean; error?: string; usedRecoveryCode?: boolean; recoveryCodesRemaining?: number }> {
+    const validation = mfaCodeSchema.safeParse(input);
+    if (!validation.success) {
+        return { success: false, error: validation.error.errors[0]?.message || "Invalid code." };
+    }
+    const challenge = await getPendingMfaChallenge();
+    if (!challenge || challenge.enrollmentRequired) {
+        return { success: false, error: "Your login has expired. Please sign in again." };
+    }
+
+    try {
+        const headersList = await headers();
+        const clientIp = getClientIp(headersList);
+        const tenant = await dbGetTenantByDomain(challenge.tenantDomain);
+        const user = await dbGetUserByIdInternal(challenge.userId);
+        if (!tenant || !user || user.tenant_id !== challenge.tenantId || !user.is_active) {
+            return { success: false, error: "Invalid credentials or inactive account." };
+        }
+        if (user.account_locked && !(user.locked_until && new Date(user.locked_until) <= new Date())) {
+            return { success: false, error: lockedAccountMessage(user.locked_until) };
+        }
+
+        const lockoutPolicy = await dbGetLockoutPolicy(tenant.tenant_id);
+        const recentFailures = await dbCountRecentFailedLoginAttempts(tenant.tenant_id, user.username, clientIp, lockoutPolicy.rateLimitWindowMinutes);
+        if (recentFailures.byIp >= lockoutPolicy.maxAttemptsPerIp || recentFailures.byIdentifier >= lockoutPolicy.maxAttemptsPerIdentifier) {
+            console.warn(`[verifyMfaLoginAction] Rate limit hit for user ${user.user_id} / IP ${clientIp}:`, recentFailures);
+            return { success: false, error: `Too many failed login attempts. Please try again in ${lockoutPolicy.rateLimitWindowMinutes} minutes.` };
+        }
+
+        const method = await verifySecondFactor(user.user_id, tenant.tenant_id, validation.data.code);
+        if (!method) {
+            console.log(`[verifyMfaLoginAction] Invalid MFA code for user ${user.user_id}.`);
+            await dbRecordLoginAttempt({ tenant_id: tenant.tenant_id, identifier: user.username, ip_address: clientIp, success: false })
+                .catch(recordError => console.error("[verifyMfaLoginAction] Error recording failed attempt:", recordError));
+            const lockResult = await dbRegisterFailedLogin(user.user_id, tenant.tenant_id, lockoutPolicy);
+            if (lockResult.justLocked) {
+                await notifyTenantAdminsOfLockout(tenant, user, lockResult.failedAttempts, lockResult.lockedUntil, clientIp);
+            }
+            if (lockResult.accountLocked) {
+                (await cookies()).delete({ name: MFA_CHALLENGE_COOKIE_NAME, path: '/' });
+                return { success: false, error: lockedAccountMessage(lockResult.lockedUntil) };
+            }
+            return { success: false, error: "Invalid authentication code." };
+        }
+
+        await completeLogin(user, tenant, user.username, clientIp);
+        if (method === 'recovery_code') {
+            const remaining = await dbCountRemainingRecoveryCodes(user.user_id, tenant.tenant_id);
+            console.log(`[verifyMfaLoginAction] User ${user.user_id} signed in with a recovery code; ${remaining} remaining.`);
+            return { success: true, usedRecoveryCode: true, recoveryCodesRemaining: remaining };
+        }
+        return { success: true };
+    } catch (error: any) {
+        console.error("[verifyMfaLoginAction] Error verifying MFA code:", error);
+        return { success: false, error: "An unexpected server error occurred during login." };
+    }
+}
+
+/**
+ * Starts TOTP enrollment: creates a new (unconfirmed) secret and returns its QR code.
+ */
+export async function beginMfaEnrollmentAction(): Promise<{ success: boolean; setup?: MfaEnrollmentSetup; error?: string }> {
+    const subject = await resolveMfaEnrollmentSubject();
+    if (!subject) {
+        return { success: false, error: "Not authenticated." };
+    }
+    if (subject.impersonating) {
+        return { success: false, error: IMPERSONATION_BLOCKED_ERROR };
+    }
+    try {
+        const user = await dbGetUserByIdInternal(subject.userId);
+        const tenant = await dbGetTenantById(subject.tenantId);
+        if (!user || !tenant) {
+            return { success: false, error: "User account not found." };
+        }
+        const secret = generateTotpSecret();
+        const saved = await dbSavePendingUserMfa(subject.userId, subject.tenantId, encrypt(secret));
+        if (!saved) {
+            return { success: false, error: "Two-factor authentication is already enabled for this account." };
+        }
+        const otpauthUri = buildOtpAuthUri(secret, `${user.email} (${tenant.subdomain})`, MFA_ISSUER);
+        const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 220 });
+        console.log(`[beginMfaEnrollmentAction] Pending MFA secret created for user ${subject.userId}.`);
+        return { success: true, setup: { secret, otpauthUri, qrCodeDataUrl } };
+    } catch (error: any) {
+        console.error(`[beginMfaEnrollmentAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to start two-factor enrollment." };
+    }
+}
+
+/**
+ * Confirms enrollment with the first code from the authenticator app and returns the recovery codes (shown once).
+ * When enrollment was forced during login, this also completes the login.
+ */
+export async function confirmMfaEnrollmentAction(input: MfaCodeFormInputs): Promise<{ success: boolean; recoveryCodes?: string[]; error?: string }> {
+    const validation = mfaCodeSchema.safeParse(input);
+    if (!validation.success) {
+        return { success: false, error: validation.error.errors[0]?.message || "Invalid code." };
+    }
+    const subject = await resolveMfaEnrollmentSubject();
+    if (!subject) {
+        return { success: false, error: "Not authenticated." };
+    }
+    if (subject.impersonating) {
+        return { success: false, error: IMPERSONATION_BLOCKED_ERROR };
+    }
+    try {
+        const userMfa = await dbGetUserMfa(subject.userId, subject.tenantId);
+        if (!userMfa || userMfa.enabledAt) {
+            return { success: false, error: userMfa ? "Two-factor authentication is already enabled." : "Start the enrollment first." };
+        }
+        const step = verifyTotp(decrypt(userMfa.totpSecretEncrypted), validation.data.code);
+        if (step === null) {
+            return { success: false, error: "Invalid authentication code. Check the time on your device and try again." };
+        }
+        const { codes, hashes } = issueRecoveryCodes();
+        const enabled = await dbEnableUserMfa(subject.userId, subject.tenantId, step, hashes);
+        if (!enabled) {
+            return { success: false, error: "Two-factor authentication is already enabled." };
+        }
+        console.log(`[confirmMfaEnrollmentAction] MFA enabled for user ${subject.userId}.`);
+
+        if (subject.viaChallenge) {
+            const user = await dbGetUserByIdInternal(subject.userId);
+            const tenant = await dbGetTenantById(subject.tenantId);
+            if (!user || !tenant) {
+                return { success: false, error: "User account not found." };
+            }
+            await completeLogin(user, tenant, user.username, getClientIp(await headers()));
+        } else {
+            const session = await _parseSessionCookie();
+            revalidatePath(`/${session?.tenantDomain}/sessions`);
+        }
+        return { success: true, recoveryCodes: codes };
+    } catch (error: any) {
+        console.error(`[confirmMfaEnrollmentAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to enable two-factor authentication." };
+    }
+}
+
+async function buildMfaStatus(userId: string, tenantId: string, role: UserRole): Promise<MfaStatus> {
+    const [userMfa, policy] = await Promise.all([dbGetUserMfa(userId, tenantId), dbGetMfaPolicy(tenantId)]);
+    const enabled = !!userMfa?.enabledAt;
+    return {
+        enabled,
+        required: policy.requiredRoles.includes(role),
+        recoveryCodesRemaining: enabled ? await dbCountRemainingRecoveryCodes(userId, tenantId) : 0,
+        enabledAt: userMfa?.enabledAt ?? null,
+    };
+}
+
+export async function getMfaStatusAction(): Promise<{ success: boolean; status?: MfaStatus; error?: string }> {
+    const session = await _parseSessionCookie();
+    if (!session?.userId || !session.tenantId) {
+        return { success: false, error: "Not authenticated." };
+    }
+    try {
+        return { success: true, status: await buildMfaStatus(session.userId, session.tenantId, session.userRole) };
+    } catch (error: any) {
+        console.error(`[getMfaStatusAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to load two-factor status." };
+    }
+}
+
+export async function regenerateRecoveryCodesAction(input: MfaCodeFormInputs): Promise<{ success: boolean; recoveryCodes?: string[]; error?: string }> {
+    const session = await _parseSessionCookie();
+    if (!session?.userId || !session.tenantId) {
+        return { success: false, error: "Not authenticated." };
+    }
+    if (session.impersonation) {
+        return { success: false, error: IMPERSONATION_BLOCKED_ERROR };
+    }
+    const validation = mfaCodeSchema.safeParse(input);
+    if (!validation.success) {
+        return { success: false, error: validation.error.errors[0]?.message || "Invalid code." };
+    }
+    try {
+        const method = await verifySecondFactor(session.userId, session.tenantId, validation.data.code, false);
+        if (!method) {
+            return { success: false, error: "Invalid authentication code." };
+        }
+        const { codes, hashes } = issueRecoveryCodes();
+        await dbReplaceRecoveryCodes(session.userId, session.tenantId, hashes);
+        revalidatePath(`/${session.tenantDomain}/sessions`);
+        return { success: true, recoveryCodes: codes };
+    } catch (error: any) {
+        console.error(`[regenerateRecoveryCodesAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to regenerate recovery codes." };
+    }
+}
+
+export async function disableMfaAction(input: MfaCodeFormInputs): Promise<{ success: boolean; error?: string }> {
+    const session = await _parseSessionCookie();
+    if (!session?.userId || !session.tenantId) {
+        return { success: false, error: "Not authenticated." };
+    }
+    if (session.impersonation) {
+        return { success: false, error: IMPERSONATION_BLOCKED_ERROR };
+    }
+    const validation = mfaCodeSchema.safeParse(input);
+    if (!validation.success) {
+        return { success: false, error: validation.error.errors[0]?.message || "Invalid code." };
+    }
+    try {
+        const policy = await dbGetMfaPolicy(session.tenantId);
+        if (policy.requiredRoles.includes(session.userRole)) {
+            return { success: false, error: `Two-factor authentication is mandatory for the ${session.userRole} role in your company.` };
+        }
+        const method = await verifySecondFactor(session.userId, session.tenantId, validation.data.code);
+        if (!method) {
+            return { success: false, error: "Invalid authentication code." };
+        }
+        await dbDeleteUserMfa(session.userId, session.tenantId);
+        console.log(`[disableMfaAction] MFA disabled by user ${session.userId}.`);
+        revalidatePath(`/${session.tenantDomain}/sessions`);
+        return { success: true };
+    } catch (error: any) {
+        console.error(`[disableMfaAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to disable two-factor authentication." };
+    }
+}
+
+export async function getUserMfaStatusAction(userId: string): Promise<{ success: boolean; status?: MfaStatus; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, error: "Unauthorized to view two-factor status." };
+    }
+    try {
+        const user = await dbGetUserByIdInternal(userId);
+        if (!user || user.tenant_id !== session.tenantId) {
+            return { success: false, error: "User account not found." };
+        }
+        return { success: true, status: await buildMfaStatus(user.user_id, session.tenantId, user.role) };
+    } catch (error: any) {
+        console.error(`[getUserMfaStatusAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to load two-factor status." };
+    }
+}
+
+/**
+ * Admin recovery for a lost device: removes the user's MFA and signs them out everywhere.
+ * If their role requires MFA they are asked to enroll again on the next login.
+ */
+export async function resetUserMfaAction(userId: string): Promise<{ success: boolean; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, error: "Unauthorized to reset two-factor authentication." };
+    }
+    try {
+        const removed = await dbDeleteUserMfa(userId, session.tenantId);
+        if (!removed) {
+            return { success: false, error: "Two-factor authentication is not enabled for this user." };
+        }
+        await dbRevokeAllSessionsForUser(userId, session.tenantId, `mfa_reset_by_admin:${session.userId}`);
+        console.log(`[resetUserMfaAction] MFA reset for user ${userId} by admin ${session.userId}.`);
+        return { success: true };
+    } catch (error: any) {
+        console.error(`[resetUserMfaAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to reset two-factor authentication." };
+    }
+}
+
+export async function updateMfaPolicyAction(policyData: MfaPolicy): Promise<{ success: boolean; policy?: MfaPolicy; errors?: z.ZodIssue[] | { path: (string | number)[]; message: string }[] }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, errors: [{ path: ['root'], message: "Unauthorized to update security settings." }] };
+    }
+    const validation = mfaPolicySchema.safeParse(policyData);
+    if (!validation.success) {
+        return { success: false, errors: validation.error.errors };
+    }
+    try {
+        const policy = await dbUpsertMfaPolicy(session.tenantId, validation.data);
+        revalidatePath(`/${session.tenantDomain}/settings`);
+        return { success: true, policy };
+    } catch (error: any) {
+        console.error(`[updateMfaPolicyAction] Error: ${error.message}`, error);
+        return { success: false, errors: [{ path: ['root'], message: error.message || "Failed to save MFA policy." }] };
+    }
+}
+
+// --- OpenID Connect Single Sign-On ---
+
+async function constructOidcRedirectUri(subdomain: string): Promise<string> {
+    return constructTenantUrl(subdomain, '/api/auth/oidc/callback');
+}
+
+/**
+ * Resolves the tenant of the current request host (SSO always runs on the tenant's subdomain or custom domain).
+ * Suspended and deleted tenants are treated as unknown, so SSO is unavailable for them.
+ */
+async function getTenantForCurrentHost(): Promise<Tenant | undefined> {
+    const headersList = await headers();
+    const { subdomain } = await resolveTenantSubdomainForHost(headersList.get('host') || '');
+    if (!subdomain) return undefined;
+    const tenant = await dbGetTenantByDomain(subdomain);
+    return tenant?.status === 'ACTIVE' ? tenant : undefined;
+}
+
+function isOidcConfigComplete(config: { enabled: boolean; issuer: string; clientId: string; clientSecretEncrypted: string }): boolean {
+    return config.enabled && !!config.issuer && !!config.clientId && !!config.clientSecretEncrypted;
+}
+
+/**
+ * Signs in the user matching an SSO identity by email, provisioning it first when allowed.
+ * Account status, lockout and the tenant's MFA policy are enforced exactly as for password logins.
+ */
+async function signInWithSsoIdentity(
+    tenant: Tenant,
+    identity: SsoIdentity,
+    options: { jitProvisioning: boolean; syncProfile: boolean; logPrefix: string }
+): Promise<{ success: boolean; error?: string; mfaRequired?: boolean; mfaEnrollmentRequired?: boolean }> {
+    const { logPrefix } = options;
+    const headersList = await headers();
+    const clientIp = getClientIp(headersList);
+
+    const { user, error } = await findOrProvisionSsoUser(tenant, identity, options);
+    if (!user) {
+        return { success: false, error };
+    }
+    if (!user.is_active) {
+        return { success: false, error: "Invalid credentials or inactive account." };
+    }
+    const employee = await dbGetAuthEmployeeByUserId(user.user_id, tenant.tenant_id);
+    if (employee?.status === 'Inactive' || (user.role === 'Employee' && employee?.status !== 'Active')) {
+        return { success: false, error: "This employee account is Inactive. Please contact your administrator." };
+    }
+    if (user.account_locked) {
+        if (user.locked_until && new Date(user.locked_until) <= new Date()) {
+            await dbResetFailedLogins(user.user_id, tenant.tenant_id);
+        } else {
+            return { success: false, error: lockedAccountMessage(user.locked_until) };
+        }
+    }
+
+    const mfaStep = await startMfaChallengeIfRequired(user, tenant);
+    if (mfaStep) {
+        console.log(`${logPrefix} SSO verified for user ${user.user_id}; ${mfaStep.mfaRequired ? 'MFA code' : 'MFA enrollment'} required before issuing a session.`);
+        return { success: false, ...mfaStep };
+    }
+
+    await completeLogin(user, tenant, identity.email, clientIp);
+    console.log(`${logPrefix} SSO login for user ${user.user_id} completed.`);
+    return { success: true };
+}
+
+export async function getOidcSettingsAction(): Promise<{ success: boolean; settings?: OidcSettings; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, error: "Unauthorized to view security settings." };
+    }
+    try {
+        const config = await dbGetOidcConfig(session.tenantId);
+        const { clientSecretEncrypted, ...rest } = config;
+        return { success: true, settings: { ...rest, hasClientSecret: !!clientSecretEncrypted, redirectUri: await constructOidcRedirectUri(session.tenantDomain!) } };
+    } catch (error: any) {
+        console.error(`[getOidcSettingsAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to load SSO settings." };
+    }
+}
+
+export async function updateOidcSettingsAction(formData: OidcSettingsFormData): Promise<{ success: boolean; settings?: OidcSettings; errors?: z.ZodIssue[] | { path: (string | number)[]; message: string }[] }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, errors: [{ path: ['root'], message: "Unauthorized to update security settings." }] };
+    }
+    const validation = oidcSettingsFormSchema.safeParse(formData);
+    if (!validation.success) {
+        return { success: false, errors: validation.error.errors };
+    }
+    const { clientSecret, ...data } = validation.data;
+    const issuer = data.issuer.replace(/\/+$/, '');
+    if (!isAllowedIssuerUrl(issuer)) {
+        return { success: false, errors: [{ path: ['issuer'], message: "Issuer must use HTTPS (plain HTTP is only allowed for localhost outside production)." }] };
+    }
+
+    try {
+        const existing = await dbGetOidcConfig(session.tenantId);
+        const clientSecretEncrypted = clientSecret ? encrypt(clientSecret) : existing.clientSecretEncrypted;
+        if (data.enabled) {
+            if (!clientSecretEncrypted) {
+                return { success: false, errors: [{ path: ['clientSecret'], message: "Client secret is required to enable SSO." }] };
+            }
+            try {
+                await discoverOidcProvider(issuer, true);
+            } catch (discoveryError: any) {
+                console.warn(`[updateOidcSettingsAction] Discovery failed for ${issuer}: ${discoveryError.message}`);
+                return { success: false, errors: [{ path: ['issuer'], message: `Could not load the provider's discovery document: ${discoveryError.message}` }] };
+            }
+        }
+        const saved = await dbUpsertOidcConfig(session.tenantId, { ...data, issuer, clientSecretEncrypted });
+        console.log(`[updateOidcSettingsAction] SSO settings for tenant ${session.tenantId} updated by ${session.userId} (enabled: ${saved.enabled}).`);
+        revalidatePath(`/${session.tenantDomain}/settings`);
+        const { clientSecretEncrypted: _, ...rest } = saved;
+        return { success: true, settings: { ...rest, hasClientSecret: !!saved.clientSecretEncrypted, redirectUri: await constructOidcRedirectUri(session.tenantDomain!) } };
+    } catch (error: any) {
+        console.error(`[updateOidcSettingsAction] Error: ${error.message}`, error);
+        return { success: false, errors: [{ path: ['root'], message: error.message || "Failed to save SSO settings." }] };
+    }
+}
+
+/**
+ * Tells the login page which single sign-on buttons to offer for the tenant of the current host.
+ */
+export async function getSsoLoginOptionsAction(): Promise<{ ssoEnabled: boolean; samlEnabled: boolean }> {
+    try {
+        const tenant = await getTenantForCurrentHost();
+        if (!tenant) return { ssoEnabled: false, samlEnabled: false };
+        const [oidcConfig, samlConfig] = await Promise.all([dbGetOidcConfig(tenant.tenant_id), dbGetSamlConfig(tenant.tenant_id)]);
+        return { ssoEnabled: isOidcConfigComplete(oidcConfig), samlEnabled: isSamlConfigComplete(samlConfig) };
+    } catch (error: any) {
+        console.error(`[getSsoLoginOptionsAction] Error: ${error.message}`);
+        return { ssoEnabled: false, samlEnabled: false };
+    }
+}
+
+/**
+ * Starts an SSO login: stores state, nonce and PKCE verifier in a sealed cookie and returns
+ * the identity provider's authorization URL for the browser to navigate to.
+ */
+export async function beginSsoLoginAction(): Promise<{ success: boolean; authorizationUrl?: string; error?: string }> {
+    try {
+        const tenant = await getTenantForCurrentHost();
+        if (!tenant) {
+            return { success: false, error: "Invalid company subdomain or login URL." };
+        }
+        const config = await dbGetOidcConfig(tenant.tenant_id);
+        if (!isOidcConfigComplete(config)) {
+            return { success: false, error: "Single sign-on is not enabled for this company." };
+        }
+
+        // The state cookie only reaches the callback on the host that set it, and the callback follows the custom domain
+        const redirectUri = await constructOidcRedirectUri(tenant.subdomain);
+        const currentHost = ((await headers()).get('host') || '').split(':')[0].toLowerCase();
+        if (new URL(redirectUri).hostname !== currentHost) {
+            return { success: false, error: `Single sign-on for this company starts at ${await constructLoginUrl(tenant.subdomain)}.` };
+        }
+
+        const metadata = await discoverOidcProvider(config.issuer);
+        const { state, nonce, codeVerifier } = generateOidcLoginSecrets();
+        const stateToken = await createOidcStateToken({ tenantId: tenant.tenant_id, tenantDomain: tenant.subdomain, state, nonce, codeVerifier });
+        const cookieStore = await cookies();
+        cookieStore.set(OIDC_STATE_COOKIE_NAME, stateToken, {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === 'production',
+            path: '/',
+            sameSite: 'lax' as const, // Must survive the top-level redirect back from the identity provider
+            maxAge: OIDC_STATE_MAX_AGE_SECONDS,
+        });
+
+        const authorizationUrl = buildAuthorizationUrl(metadata, {
+            clientId: config.clientId,
+            redirectUri,
+            scopes: config.scopes,
+            state,
+            nonce,
+            codeVerifier,
+        });
+        console.log(`[beginSsoLoginAction] Redirecting to ${config.issuer} for tenant ${tenant.tenant_id}.`);
+        return { success: true, authorizationUrl };
+    } catch (error: any) {
+        console.error(`[beginSsoLoginAction] Error: ${error.message}`, error);
+        return { success: false, error: "Could not reach your company's identity provider. Please try again later." };
+    }
+}
+
+/**
+ * Finishes an SSO login from the identity provider's redirect: validates state, exchanges the code
+ * (with the PKCE verifier), validates the ID token and maps the IdP user to `users` by email.
+ * Local MFA and lockout rules still apply.
+ */
+export async function completeSsoLoginAction(params: { code?: string | null; state?: string | null; error?: string | null; errorDescription?: string | null }): Promise<{ success: boolean; error?: string; mfaRequired?: boolean; mfaEnrollmentRequired?: boolean }> {
+    const cookieStore = await cookies();
+    const loginState = await verifyOidcStateToken(cookieStore.get(OIDC_STATE_COOKIE_NAME)?.value);
+    cookieStore.delete({ name: OIDC_STATE_COOKIE_NAME, path: '/' }); // Single use
+
+    const stateMatches = !!loginState && !!params.state && params.state === loginState.state;
+    if (params.error) {
+        console.warn(`[completeSsoLoginAction] Identity provider returned an error: ${params.error} ${params.errorDescription || ''}`);
+        // Anyone can link to the callback with an error, so the provider's text is only shown for our own login attempt
+        const description = stateMatches ? params.errorDescription : null;
+        return { success: false, error: description || "Sign-in was cancelled or rejected by your identity provider." };
+    }
+    if (!stateMatches || !params.code) {
+        console.warn("[completeSsoLoginAction] Missing or mismatched state. Rejecting callback.");
+        return { success: false, error: "Your sign-in session expired or is invalid. Please try again." };
+    }
+
+    try {
+        const tenant = await getTenantForCurrentHost();
+        if (!tenant || tenant.tenant_id !== loginState.tenantId) {
+            console.warn(`[completeSsoLoginAction] Callback host tenant does not match the login state tenant ${loginState.tenantId}.`);
+            return { success: false, error: "Invalid company subdomain or login URL." };
+        }
+        const config = await dbGetOidcConfig(tenant.tenant_id);
+        if (!isOidcConfigComplete(config)) {
+            return { success: false, error: "Single sign-on is not enabled for this company." };
+        }
+
+        const metadata = await discoverOidcProvider(config.issuer);
+        const { idToken, accessToken } = await exchangeAuthorizationCode(
+            metadata,
+            { issuer: config.issuer, clientId: config.clientId, clientSecret: decrypt(config.clientSecretEncrypted) },
+            { code: params.code, redirectUri: await constructOidcRedirectUri(tenant.subdomain), codeVerifier: loginState.codeVerifier }
+        );
+        const claims = await addUserInfoClaims(
+            metadata,
+            await verifyIdToken(idToken, metadata, { clientId: config.clientId, nonce: loginState.nonce }),
+            accessToken
+        );
+
+        const email = claims.email?.trim().toLowerCase();
+        if (!email) {
+            return { success: false, error: "Your identity provider did not share an email address. Ask your administrator to release the 'email' claim." };
+        }
+        if (claims.email_verified === false || claims.email_verified === 'false') {
+            return { success: false, error: "Your email address is not verified at your identity provider." };
+        }
+
+        const [nameFirst, ...nameRest] = (claims.name || '').trim().split(/\s+/);
+        console.log(`[completeSsoLoginAction] ID token verified for sub ${claims.sub} (${email}).`);
+        return await signInWithSsoIdentity(tenant, {
+            email,
+            firstName: claims.given_name || nameFirst || undefined,
+            lastName: claims.family_name || nameRest.join(' ') || undefined,
+        }, { jitProvisioning: config.jitProvisioning, syncProfile: false, logPrefix: '[completeSsoLoginAction]' });
+    } catch (error: any) {
+        console.error(`[completeSsoLoginAction] Error: ${error.message}`, error);
+        return { success: false, error: "Single sign-on failed. Please try again or contact your administrator." };
+    }
+}
+
+// --- SAML 2.0 Single Sign-On ---
+
+async function getSamlServiceProviderUrls(subdomain: string): Promise<SamlServiceProviderUrls & { metadataUrl: string }> {
+    const metadataUrl = await constructTenantUrl(subdomain, '/api/auth/saml/metadata');
+    return { entityId: metadataUrl, metadataUrl, acsUrl: await constructTenantUrl(subdomain, '/api/auth/saml/acs') };
+}
+
+function isSamlConfigComplete(config: SamlConfig): boolean {
+    return config.enabled && !!config.idpEntityId && !!config.idpSsoUrl && !!config.idpCertificate;
+}
+
+async function toSamlSettings(config: SamlConfig, subdomain: string): Promise<SamlSettings> {
+    const { entityId, acsUrl, metadataUrl } = await getSamlServiceProviderUrls(subdomain);
+    return { ...config, spEntityId: entityId, acsUrl, metadataUrl };
+}
+
+export async function getSamlSettingsAction(): Promise<{ success: boolean; settings?: SamlSettings; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, error: "Unauthorized to view security settings." };
+    }
+    try {
+        return { success: true, settings: await toSamlSettings(await dbGetSamlConfig(session.tenantId), session.tenantDomain!) };
+    } catch (error: any) {
+        console.error(`[getSamlSettingsAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to load SAML settings." };
+    }
+}
+
+export async function updateSamlSettingsAction(formData: SamlSettingsFormData): Promise<{ success: boolean; settings?: SamlSettings; errors?: z.ZodIssue[] | { path: (string | number)[]; message: string }[] }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, errors: [{ path: ['root'], message: "Unauthorized to update security settings." }] };
+    }
+    const validation = samlSettingsFormSchema.safeParse(formData);
+    if (!validation.success) {
+        return { success: false, errors: validation.error.errors };
+    }
+    if (validation.data.idpCertificate) {
+        try {
+            parseIdpCertificates(validation.data.idpCertificate);
+        } catch (certError: any) {
+            return { success: false, errors: [{ path: ['idpCertificate'], message: certError.message }] };
+        }
+    }
+
+    try {
+        const saved = await dbUpsertSamlConfig(session.tenantId, validation.data);
+        console.log(`[updateSamlSettingsAction] SAML settings for tenant ${session.tenantId} updated by ${session.userId} (enabled: ${saved.enabled}).`);
+        revalidatePath(`/${session.tenantDomain}/settings`);
+        return { success: true, settings: await toSamlSettings(saved, session.tenantDomain!) };
+    } catch (error: any) {
+        console.error(`[updateSamlSettingsAction] Error: ${error.message}`, error);
+        return { success: false, errors: [{ path: ['root'], message: error.message || "Failed to save SAML settings." }] };
+    }
+}
+
+/**
+ * SP metadata for the tenant of the current host. Public, and available before SAML is enabled
+ * so admins can register the SP with their IdP first.
+ */
+export async function getSamlMetadataAction(): Promise<{ success: boolean; metadataXml?: string; error?: string }> {
+    try {
+        const tenant = await getTenantForCurrentHost();
+        if (!tenant) {
+            return { success: false, error: "Invalid company subdomain or login URL." };
+        }
+        return { success: true, metadataXml: buildServiceProviderMetadata(await getSamlServiceProviderUrls(tenant.subdomain)) };
+    } catch (error: any) {
+        console.error(`[getSamlMetadataAction] Error: ${error.message}`, error);
+        return { success: false, error: "Failed to generate SAML metadata." };
+    }
+}
+
+/**
+ * Starts an SP-initiated SAML login and returns the IdP URL (carrying the AuthnRequest) to navigate to.
+ */
+export async function beginSamlLoginAction(): Promise<{ success: boolean; redirectUrl?: string; error?: string }> {
+    try {
+        const tenant = await getTenantForCurrentHost();
+        if (!tenant) {
+            return { success: false, error: "Invalid company subdomain or login URL." };
+        }
+        const config = await dbGetSamlConfig(tenant.tenant_id);
+        if (!isSamlConfigComplete(config)) {
+            return { success: false, error: "SAML single sign-on is not enabled for this company." };
+        }
+        const redirectUrl = await getSamlAuthorizeUrl(tenant.tenant_id, await getSamlServiceProviderUrls(tenant.subdomain), config);
+        console.log(`[beginSamlLoginAction] Redirecting to ${config.idpEntityId} for tenant ${tenant.tenant_id}.`);
+        return { success: true, redirectUrl };
+    } catch (error: any) {
+        console.error(`[beginSamlLoginAction] Error: ${error.message}`, error);
+        return { success: false, error: "Could not start SAML sign-in. Please contact your administrator." };
+    }
+}
+
+/**
+ * Consumes a SAMLResponse posted to the ACS, for both SP-initiated and IdP-initiated logins.
+ * The tenant comes from the host, exactly as for password logins; the assertion must be signed by
+ * that tenant's IdP. Mapped attributes update the employee record when profile sync is on.
+ */
+export async function completeSamlLoginAction(params: { samlResponse?: string | null }): Promise<{ success: boolean; error?: string; mfaRequired?: boolean; mfaEnrollmentRequired?: boolean }> {
+    if (!params.samlResponse) {
+        return { success: false, error: "No SAML response was received." };
+    }
+    try {
+        const tenant = await getTenantForCurrentHost();
+        if (!tenant) {
+            return { success: false, error: "Invalid company subdomain or login URL." };
+        }
+        const config = await dbGetSamlConfig(tenant.tenant_id);
+        if (!isSamlConfigComplete(config)) {
+            return { success: false, error: "SAML single sign-on is not enabled for this company." };
+        }
+
+        let profile;
+        try {
+            profile = await validateSamlResponse(tenant.tenant_id, await getSamlServiceProviderUrls(tenant.subdomain), config, params.samlResponse);
+        } catch (validationError: any) {
+            console.warn(`[completeSamlLoginAction] Rejected SAML response for tenant ${tenant.tenant_id}: ${validationError.message}`);
+            return { success: false, error: "The sign-in response from your identity provider could not be verified." };
+        }
+
+        const { nameId, email, ...profileFields } = mapSamlProfile(profile, config.attributeMapping);
+        if (!email) {
+            return { success: false, error: "Your identity provider did not send an email address. Ask your administrator to check the SAML attribute mapping." };
+        }
+        console.log(`[completeSamlLoginAction] Assertion verified for NameID ${nameId} (${email}).`);
+        return await signInWithSsoIdentity(tenant, { email, ...profileFields }, {
+            jitProvisioning: config.jitProvisioning,
+            syncProfile: config.syncProfileOnLogin,
+            logPrefix: '[completeSamlLoginAction]',
+        });
+    } catch (error: any) {
+        console.error(`[completeSamlLoginAction] Error: ${error.message}`, error);
+        return { success: false, error: "Single sign-on failed. Please try again or contact your administrator." };
+    }
+}
+
+// --- SCIM Provisioning ---
+
+async function toScimSettings(config: ScimConfig, subdomain: string): Promise<ScimSettings> {
+    return {
+        enabled: config.enabled && !!config.tokenHash,
+        tokenHint: config.tokenHint,
+        tokenCreatedAt: config.tokenCreatedAt,
+        baseUrl: await constructTenantUrl(subdomain, '/api/scim/v2'),
+    };
+}
+
+export async function getScimSettingsAction(): Promise<{ success: boolean; settings?: ScimSettings; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, error: "Unauthorized to view security settings." };
+    }
+    try {
+        return { success: true, settings: await toScimSettings(await dbGetScimConfig(session.tenantId), session.tenantDomain!) };
+    } catch (error: any) {
+        console.error(`[getScimSettingsAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to load SCIM settings." };
+    }
+}
+
+/**
+ * Issues a new SCIM bearer token and enables provisioning. Only the token's hash is stored, so the
+ * plain token is returned exactly once; any previous token stops working immediately.
+ */
+export async function generateScimTokenAction(): Promise<{ success: boolean; token?: string; settings?: ScimSettings; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, error: "Unauthorized to update security settings." };
+    }
+    try {
+        const token = `scim_${generateSecureToken(32)}`;
+        const saved = await dbUpsertScimConfig(session.tenantId, {
+            enabled: true,
+            tokenHash: hashToken(token),
+            tokenHint: token.slice(-4),
+            tokenCreatedAt: new Date().toISOString(),
+        });
+        console.log(`[generateScimTokenAction] SCIM token for tenant ${session.tenantId} issued by ${session.userId}.`);
+        revalidatePath(`/${session.tenantDomain}/settings`);
+        return { success: true, token, settings: await toScimSettings(saved, session.tenantDomain!) };
+    } catch (error: any) {
+        console.error(`[generateScimTokenAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to generate SCIM token." };
+    }
+}
+
+/** Disables SCIM provisioning and discards the token. */
+export async function disableScimAction(): Promise<{ success: boolean; settings?: ScimSettings; error?: string }> {
+    let session: SessionData & { tenantId: string };
+    try {
+        session = await requirePermission('security.manage');
+    } catch {
+        return { success: false, error: "Unauthorized to update security settings." };
+    }
+    try {
+        const saved = await dbUpsertScimConfig(session.tenantId, { enabled: false, tokenHash: '', tokenHint: '', tokenCreatedAt: null });
+        console.log(`[disableScimAction] SCIM provisioning for tenant ${session.tenantId} disabled by ${session.userId}.`);
+        revalidatePath(`/${session.tenantDomain}/settings`);
+        return { success: true, settings: await toScimSettings(saved, session.tenantDomain!) };
+    } catch (error: any) {
+        console.error(`[disableScimAction] Error: ${error.message}`, error);
+        return { success: false, error: error.message || "Failed to disable SCIM provisioning." };
+    }
+}
+
+export async function getEmployeeProfileForCurrentUser(): Promise<Employee | null> {
+    console.log("[getEmployeeProfileForCurrentUser] Attempting to fetch current user's employee profile...");
+    try {
+        const session = await getSessionData();
+        if (!session?.userId || !session.tenantId) {
+            console.log(`[getEmployeeProfileForCurrentUser] userId or tenantId missing from session (user: ${session?.userId}, tenant: ${session?.tenantId}).`);
+            return null;
+        }
+        const employee = await dbGetAuthEmployeeByUserId(session.userId, session.tenantId);
+        if (employee) {
+            console.log(`[getEmployeeProfileForCurrentUser] Employee profile found for user ${session.userId}. Employee PK: ${employee.id}`);
+            return employee;
+        } else {
+            console.log(`[getEmployeeProfileForCurrentUser] No employee profile found for user ${session.userId} in tenant ${session.tenantId}.`);
+            return null;
+        }
+    } catch (error: any) {
+        console.error(`[getEmployeeProfileForCurrentUser] Error: ${error.message}`, error);
+        return null;
     }
 }
 
@@ -0,0 +1,145 @@
+"use client";
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import { KeyRound, Loader2, Lock, LockOpen, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { getAccountLockStatusAction, unlockUserAccountAction, getUserMfaStatusAction, resetUserMfaAction } from '@/modules/auth/actions';
+import type { AccountLockStatus, MfaStatus } from '@/modules/auth/types';
+
+interface AccountLockStatusCardProps {
+  userId: string;
+}
+
+export function AccountLockStatusCard({ userId }: AccountLockStatusCardProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = React.useState<AccountLockStatus | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isUnlocking, setIsUnlocking] = React.useState(false);
+  const [mfaStatus, setMfaStatus] = React.useState<MfaStatus | null>(null);
+  const [isResettingMfa, setIsResettingMfa] = React.useState(false);
+
+  const loadStatus = React.useCallback(async () => {
+    setIsLoading(true);
+    const [result, mfaResult] = await Promise.all([getAccountLockStatusAction(userId), getUserMfaStatusAction(userId)]);
+    if (result.success && result.status) {
+      setStatus(result.status);
+    } else {
+      console.error("Failed to load account lock status:", result.error);
+    }
+    setMfaStatus(mfaResult.success && mfaResult.status ? mfaResult.status : null);
+    setIsLoading(false);
+  }, [userId]);
+
+  React.useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleUnlock = async () => {
+    setIsUnlocking(true);
+    try {
+      const result = await unlockUserAccountAction(userId);
+      if (!result.success) {
+        throw new Error(result.error || "Could not unlock account.");
+      }
+      toast({
+        title: "Account Unlocked",
+        description: "The user can log in again.",
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+      await loadStatus();
+    } catch (error: any) {
+      console.error("Account unlock error:", error);
+      toast({ title: "Unlock Failed", description: error.message || "Could not unlock account.", variant: "destructive" });
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleResetMfa = async () => {
+    setIsResettingMfa(true);
+    try {
+      const result = await resetUserMfaAction(userId);
+      if (!result.success) {
+        throw new Error(result.error || "Could not reset two-factor authentication.");
+      }
+      toast({
+        title: "Two-Factor Reset",
+        description: "The user has been signed out and must set up two-factor authentication again if required.",
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+      await loadStatus();
+    } catch (error: any) {
+      console.error("MFA reset error:", error);
+      toast({ title: "Reset Failed", description: error.message || "Could not reset two-factor authentication.", variant: "destructive" });
+    } finally {
+      setIsResettingMfa(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2"><ShieldCheck className="h-5 w-5 text-primary" />Account Security</CardTitle>
+        <CardDescription>Login lockout and two-factor status for this employee's user account.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : !status ? (
+          <p className="text-sm text-muted-foreground">Account status is unavailable.</p>
+        ) : (
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="space-y-1">
+              {status.accountLocked ? (
+                <Badge variant="destructive" className="gap-1"><Lock className="h-3 w-3" /> Locked</Badge>
+              ) : (
+                <Badge variant="secondary" className="gap-1"><LockOpen className="h-3 w-3" /> Not locked</Badge>
+              )}
+              <p className="text-sm text-muted-foreground">
+                {status.accountLocked
+                  ? (status.lockedUntil
+                      ? `Locked until ${format(parseISO(status.lockedUntil), "MMM d, yyyy HH:mm")}.`
+                      : "Locked until an administrator unlocks it.")
+                  : `${status.failedAttempts} recent failed login attempt(s).`}
+              </p>
+            </div>
+            {status.accountLocked && (
+              <Button variant="outline" onClick={handleUnlock} disabled={isUnlocking}>
+                {isUnlocking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LockOpen className="mr-2 h-4 w-4" />}
+                Unlock Account
+              </Button>
+            )}
+          </div>
+        )}
+        {!isLoading && mfaStatus && (
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-4 border-t pt-4">
+            <div className="space-y-1">
+              <Badge variant={mfaStatus.enabled ? 'default' : 'secondary'} className="gap-1">
+                <KeyRound className="h-3 w-3" /> Two-factor {mfaStatus.enabled ? 'enabled' : 'not enabled'}
+              </Badge>
+              <p className="text-sm text-muted-foreground">
+                {mfaStatus.required ? "Required for this user's role." : "Optional for this user's role."}
+              </p>
+            </div>
+            {mfaStatus.enabled && (
+              <Button variant="outline" onClick={handleResetMfa} disabled={isResettingMfa}>
+                {isResettingMfa ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                Reset Two-Factor
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { Eye, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { startImpersonationAction } from '@/modules/auth/actions';
+import { IMPERSONATION_MAX_MINUTES } from '@/modules/auth/types';
+
+interface ImpersonateUserCardProps {
+  userId: string;
+  displayName: string;
+  tenantDomain: string;
+}
+
+export function ImpersonateUserCard({ userId, displayName, tenantDomain }: ImpersonateUserCardProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [reason, setReason] = React.useState('');
+  const [isStarting, setIsStarting] = React.useState(false);
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsStarting(true);
+    try {
+      const result = await startImpersonationAction({ targetUserId: userId, reason });
+      if (!result.success) {
+        throw new Error(result.error || "Could not start impersonation.");
+      }
+      toast({
+        title: `Viewing as ${displayName}`,
+        description: `You now see the app as this user for up to ${IMPERSONATION_MAX_MINUTES} minutes.`,
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+      router.push(`/${tenantDomain}/dashboard`);
+      router.refresh();
+    } catch (error: any) {
+      console.error("Impersonation start error:", error);
+      toast({ title: "Impersonation Failed", description: error.message || "Could not start impersonation.", variant: "destructive" });
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2"><Eye className="h-5 w-5 text-primary" />View as This User</CardTitle>
+        <CardDescription>
+          See the app with this user's access to troubleshoot a problem. Security settings, passwords, two-factor and API keys cannot be changed while impersonating, and everything you do is recorded in the audit log under your name.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleStart} className="flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[240px] space-y-1">
+            <Label htmlFor="impersonation-reason">Reason</Label>
+            <Input
+              id="impersonation-reason"
+              placeholder="e.g. Ticket #123: leave balance looks wrong"
+              value={reason}
+              maxLength={255}
+              onChange={e => setReason(e.target.value)}
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={isStarting || reason.trim().length < 3}>
+            {isStarting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+            View as {displayName}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
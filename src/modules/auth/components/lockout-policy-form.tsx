@@ -0,0 +1,87 @@
+"use client";
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Save } from 'lucide-react';
+import { lockoutPolicySchema, type LockoutPolicy } from '@/modules/auth/types';
+import { updateLockoutPolicyAction } from '@/modules/auth/actions';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+
+interface LockoutPolicyFormProps {
+  initialPolicy: LockoutPolicy;
+}
+
+const policyFields: { name: keyof LockoutPolicy; label: string; description: string }[] = [
+  { name: 'maxFailedAttempts', label: 'Lockout threshold', description: 'Consecutive failed logins before an account is locked.' },
+  { name: 'lockoutDurationMinutes', label: 'Lockout duration (minutes)', description: 'How long the account stays locked. Use 0 to require an admin to unlock it.' },
+  { name: 'rateLimitWindowMinutes', label: 'Rate limit window (minutes)', description: 'Time window used for the per-IP and per-identifier limits below.' },
+  { name: 'maxAttemptsPerIp', label: 'Max failed attempts per IP', description: 'Failed logins allowed from a single IP address within the window.' },
+  { name: 'maxAttemptsPerIdentifier', label: 'Max failed attempts per identifier', description: 'Failed logins allowed for a single username, email or employee ID within the window.' },
+];
+
+export function LockoutPolicyForm({ initialPolicy }: LockoutPolicyFormProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const form = useForm<LockoutPolicy>({
+    resolver: zodResolver(lockoutPolicySchema),
+    defaultValues: initialPolicy,
+  });
+
+  const onSubmit = async (data: LockoutPolicy) => {
+    setIsSaving(true);
+    try {
+      const result = await updateLockoutPolicyAction(data);
+      if (!result.success) {
+        const errorMessage = result.errors?.[0]?.message || "Failed to save lockout policy.";
+        result.errors?.forEach((err: any) => {
+          const path = err.path?.[0];
+          if (typeof path === 'string' && path in form.getValues()) form.setError(path as keyof LockoutPolicy, { message: err.message });
+        });
+        toast({ title: "Error Saving Policy", description: errorMessage, variant: "destructive" });
+        return;
+      }
+      if (result.policy) form.reset(result.policy);
+      toast({ title: "Policy Saved", description: "Account lockout settings updated.", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" });
+    } catch (error: any) {
+      console.error("[Lockout Policy Form] Submission error:", error);
+      toast({ title: "Error Saving Policy", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          {policyFields.map(({ name, label, description }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} {...field} />
+                  </FormControl>
+                  <FormDescription>{description}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save Lockout Policy
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import * as React from 'react';
+import { Copy, Download, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { beginMfaEnrollmentAction, confirmMfaEnrollmentAction } from '@/modules/auth/actions';
+import type { MfaEnrollmentSetup } from '@/modules/auth/types';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+/** Shows freshly generated recovery codes. They are never retrievable again once this is dismissed. */
+export function RecoveryCodesList({ codes }: RecoveryCodesListProps) {
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast({ title: "Copied", description: "Recovery codes copied to the clipboard." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Please copy the codes manually.", variant: "destructive" });
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`SyntaxHive Hrm recovery codes\n\n${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'syntaxhive-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Alert>
+        <AlertTitle>Save your recovery codes</AlertTitle>
+        <AlertDescription>
+          Each code can be used once to sign in if you lose access to your authenticator app. They will not be shown again.
+        </AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}><Copy className="mr-2 h-4 w-4" /> Copy</Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}><Download className="mr-2 h-4 w-4" /> Download</Button>
+      </div>
+    </div>
+  );
+}
+
+interface MfaEnrollmentProps {
+  onEnrolled: (recoveryCodes: string[]) => void;
+}
+
+/** QR code + first-code confirmation. Works for a signed-in user and for a login waiting on mandatory enrollment. */
+export function MfaEnrollment({ onEnrolled }: MfaEnrollmentProps) {
+  const { toast } = useToast();
+  const [setup, setSetup] = React.useState<MfaEnrollmentSetup | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [code, setCode] = React.useState('');
+  const [isConfirming, setIsConfirming] = React.useState(false);
+
+  React.useEffect(() => {
+    beginMfaEnrollmentAction().then(result => {
+      if (result.success && result.setup) {
+        setSetup(result.setup);
+      } else {
+        setError(result.error || "Could not start two-factor enrollment.");
+      }
+    });
+  }, []);
+
+  const handleConfirm = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsConfirming(true);
+    try {
+      const result = await confirmMfaEnrollmentAction({ code });
+      if (!result.success || !result.recoveryCodes) {
+        throw new Error(result.error || "Could not verify the code.");
+      }
+      toast({
+        title: "Two-Factor Enabled",
+        description: "Your authenticator app is now required to sign in.",
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+      onEnrolled(result.recoveryCodes);
+    } catch (err: any) {
+      toast({ title: "Verification Failed", description: err.message, variant: "destructive" });
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTitle>Enrollment Unavailable</AlertTitle>
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!setup) {
+    return <Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />;
+  }
+
+  return (
+    <form onSubmit={handleConfirm} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with an authenticator app (Google Authenticator, Microsoft Authenticator, 1Password, ...), then enter the 6-digit code it shows.
+      </p>
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={setup.qrCodeDataUrl} alt="Two-factor authentication QR code" className="mx-auto h-[220px] w-[220px] rounded-md border" />
+      <p className="text-center text-xs text-muted-foreground">
+        Can't scan? Enter this key manually: <code className="break-all font-mono">{setup.secret}</code>
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="mfa-enrollment-code">Authentication code</Label>
+        <Input
+          id="mfa-enrollment-code"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          maxLength={6}
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isConfirming || code.trim().length !== 6}>
+        {isConfirming ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+        Verify and Enable
+      </Button>
+    </form>
+  );
+}
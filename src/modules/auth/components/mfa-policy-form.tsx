@@ -0,0 +1,82 @@
+"use client";
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Save } from 'lucide-react';
+import { mfaPolicySchema, userRoleSchema, type MfaPolicy, type UserRole } from '@/modules/auth/types';
+import { updateMfaPolicyAction } from '@/modules/auth/actions';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+
+interface MfaPolicyFormProps {
+  initialPolicy: MfaPolicy;
+}
+
+export function MfaPolicyForm({ initialPolicy }: MfaPolicyFormProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const form = useForm<MfaPolicy>({
+    resolver: zodResolver(mfaPolicySchema),
+    defaultValues: initialPolicy,
+  });
+
+  const onSubmit = async (data: MfaPolicy) => {
+    setIsSaving(true);
+    try {
+      const result = await updateMfaPolicyAction(data);
+      if (!result.success) {
+        const errorMessage = result.errors?.[0]?.message || "Failed to save MFA policy.";
+        toast({ title: "Error Saving Policy", description: errorMessage, variant: "destructive" });
+        return;
+      }
+      if (result.policy) form.reset(result.policy);
+      toast({ title: "Policy Saved", description: "Two-factor requirements updated.", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" });
+    } catch (error: any) {
+      console.error("[MFA Policy Form] Submission error:", error);
+      toast({ title: "Error Saving Policy", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="requiredRoles"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Require two-factor authentication for</FormLabel>
+              <div className="flex flex-wrap gap-6 pt-1">
+                {userRoleSchema.options.map((role: UserRole) => (
+                  <label key={role} className="flex items-center gap-2 text-sm">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value?.includes(role)}
+                        onCheckedChange={checked => field.onChange(
+                          checked ? [...(field.value || []), role] : (field.value || []).filter(r => r !== role)
+                        )}
+                      />
+                    </FormControl>
+                    {role}
+                  </label>
+                ))}
+              </div>
+              <FormDescription>Users in these roles must enroll an authenticator app the next time they sign in.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save MFA Policy
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import { KeyRound, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { disableMfaAction, regenerateRecoveryCodesAction } from '@/modules/auth/actions';
+import { MfaEnrollment, RecoveryCodesList } from '@/modules/auth/components/mfa-enrollment';
+import type { MfaStatus } from '@/modules/auth/types';
+
+interface MfaSettingsProps {
+  status: MfaStatus;
+}
+
+type PendingAction = 'regenerate' | 'disable' | null;
+
+export function MfaSettings({ status }: MfaSettingsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isEnrolling, setIsEnrolling] = React.useState(false);
+  const [recoveryCodes, setRecoveryCodes] = React.useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = React.useState<PendingAction>(null);
+  const [code, setCode] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const handleEnrolled = (codes: string[]) => {
+    setIsEnrolling(false);
+    setRecoveryCodes(codes);
+    router.refresh();
+  };
+
+  const handleConfirmAction = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      if (pendingAction === 'regenerate') {
+        const result = await regenerateRecoveryCodesAction({ code });
+        if (!result.success || !result.recoveryCodes) throw new Error(result.error || "Could not regenerate recovery codes.");
+        setRecoveryCodes(result.recoveryCodes);
+        toast({ title: "Recovery Codes Regenerated", description: "Your previous recovery codes no longer work.", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" });
+      } else if (pendingAction === 'disable') {
+        const result = await disableMfaAction({ code });
+        if (!result.success) throw new Error(result.error || "Could not disable two-factor authentication.");
+        setRecoveryCodes(null);
+        toast({ title: "Two-Factor Disabled", description: "Your account is now protected by your password only.", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" });
+      }
+      setPendingAction(null);
+      setCode('');
+      router.refresh();
+    } catch (error: any) {
+      toast({ title: "Action Failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><ShieldCheck className="h-5 w-5" /> Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app in addition to your password.
+          {status.required && ' Your company requires two-factor authentication for your role.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          {status.enabled ? (
+            <Badge className="gap-1"><ShieldCheck className="h-3 w-3" /> Enabled</Badge>
+          ) : (
+            <Badge variant="secondary" className="gap-1"><ShieldOff className="h-3 w-3" /> Not enabled</Badge>
+          )}
+          {status.enabled && status.enabledAt && (
+            <span className="text-sm text-muted-foreground">since {format(parseISO(status.enabledAt), "MMM d, yyyy")}</span>
+          )}
+          {status.enabled && (
+            <span className="text-sm text-muted-foreground">{status.recoveryCodesRemaining} recovery code(s) left</span>
+          )}
+        </div>
+
+        {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+
+        {!status.enabled && !isEnrolling && !recoveryCodes && (
+          <Button onClick={() => setIsEnrolling(true)}><KeyRound className="mr-2 h-4 w-4" /> Set up two-factor authentication</Button>
+        )}
+        {!status.enabled && isEnrolling && (
+          <div className="max-w-sm"><MfaEnrollment onEnrolled={handleEnrolled} /></div>
+        )}
+
+        {status.enabled && !pendingAction && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => setPendingAction('regenerate')}>Regenerate recovery codes</Button>
+            {!status.required && (
+              <Button variant="destructive" onClick={() => setPendingAction('disable')}>Disable two-factor</Button>
+            )}
+          </div>
+        )}
+        {status.enabled && pendingAction && (
+          <form onSubmit={handleConfirmAction} className="flex max-w-sm flex-col gap-2">
+            <p className="text-sm text-muted-foreground">
+              Enter a current code from your authenticator app to {pendingAction === 'regenerate' ? 'regenerate your recovery codes' : 'disable two-factor authentication'}.
+            </p>
+            <Input value={code} onChange={e => setCode(e.target.value)} inputMode="numeric" autoComplete="one-time-code" placeholder="123456" />
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isSubmitting || !code.trim()} variant={pendingAction === 'disable' ? 'destructive' : 'default'}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Confirm
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => { setPendingAction(null); setCode(''); }}>Cancel</Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
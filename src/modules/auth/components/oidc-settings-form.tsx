@@ -0,0 +1,164 @@
+"use client";
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Save } from 'lucide-react';
+import { oidcSettingsFormSchema, type OidcSettings, type OidcSettingsFormData } from '@/modules/auth/types';
+import { updateOidcSettingsAction } from '@/modules/auth/actions';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+
+interface OidcSettingsFormProps {
+  initialSettings: OidcSettings;
+}
+
+function toFormValues(settings: OidcSettings): OidcSettingsFormData {
+  return {
+    enabled: settings.enabled,
+    issuer: settings.issuer,
+    clientId: settings.clientId,
+    clientSecret: '',
+    scopes: settings.scopes,
+    jitProvisioning: settings.jitProvisioning,
+  };
+}
+
+export function OidcSettingsForm({ initialSettings }: OidcSettingsFormProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [settings, setSettings] = React.useState<OidcSettings>(initialSettings);
+
+  const form = useForm<OidcSettingsFormData>({
+    resolver: zodResolver(oidcSettingsFormSchema),
+    defaultValues: toFormValues(initialSettings),
+  });
+
+  const onSubmit = async (data: OidcSettingsFormData) => {
+    setIsSaving(true);
+    try {
+      const result = await updateOidcSettingsAction(data);
+      if (!result.success || !result.settings) {
+        const firstError = result.errors?.[0];
+        const field = firstError?.path?.[0];
+        if (firstError && (field === 'issuer' || field === 'clientId' || field === 'clientSecret' || field === 'scopes')) {
+          form.setError(field, { message: firstError.message });
+        }
+        toast({ title: "Error Saving SSO Settings", description: firstError?.message || "Failed to save SSO settings.", variant: "destructive" });
+        return;
+      }
+      setSettings(result.settings);
+      form.reset(toFormValues(result.settings));
+      toast({ title: "SSO Settings Saved", description: result.settings.enabled ? "Users can now sign in with SSO." : "Single sign-on is disabled.", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" });
+    } catch (error: any) {
+      console.error("[OIDC Settings Form] Submission error:", error);
+      toast({ title: "Error Saving SSO Settings", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <FormLabel>Enable "Sign in with SSO"</FormLabel>
+                <FormDescription>Password login stays available alongside SSO.</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Redirect URI</p>
+          <p className="text-sm text-muted-foreground break-all"><code>{settings.redirectUri}</code></p>
+          <p className="text-sm text-muted-foreground">Register this URL with your identity provider.</p>
+        </div>
+        <FormField
+          control={form.control}
+          name="issuer"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Issuer URL</FormLabel>
+              <FormControl>
+                <Input placeholder="https://login.example.com/realms/acme" {...field} />
+              </FormControl>
+              <FormDescription>The provider's discovery document must be served at &lt;issuer&gt;/.well-known/openid-configuration.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="clientId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Client ID</FormLabel>
+              <FormControl>
+                <Input {...field} autoComplete="off" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="clientSecret"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Client Secret</FormLabel>
+              <FormControl>
+                <Input type="password" {...field} value={field.value ?? ''} autoComplete="new-password" placeholder={settings.hasClientSecret ? '•••••••• (unchanged)' : ''} />
+              </FormControl>
+              <FormDescription>{settings.hasClientSecret ? 'Leave blank to keep the current secret.' : 'Stored encrypted.'}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="scopes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Scopes</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormDescription>Space-separated. Must include openid; email is needed to match users.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="jitProvisioning"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <FormLabel>Just-in-time provisioning</FormLabel>
+                <FormDescription>Create an Employee account on first SSO login when no user has that email.</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save SSO Settings
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Save } from 'lucide-react';
+import { passwordPolicySchema, type PasswordPolicy } from '@/modules/auth/types';
+import { updatePasswordPolicyAction } from '@/modules/auth/actions';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+
+interface PasswordPolicyFormProps {
+  initialPolicy: PasswordPolicy;
+}
+
+type NumberField = 'minLength' | 'historyCount' | 'maxAgeDays';
+type ToggleField = 'requireUppercase' | 'requireLowercase' | 'requireNumber' | 'requireSymbol' | 'blockCommonPasswords';
+
+const numberFields: { name: NumberField; label: string; description: string }[] = [
+  { name: 'minLength', label: 'Minimum length', description: 'Fewest characters a password may have (at least 8).' },
+  { name: 'historyCount', label: 'Password history', description: 'Number of previous passwords that cannot be reused. Use 0 to allow reuse.' },
+  { name: 'maxAgeDays', label: 'Maximum age (days)', description: 'Users must choose a new password at login once theirs is older than this. Use 0 to never expire.' },
+];
+
+const toggleFields: { name: ToggleField; label: string; description: string }[] = [
+  { name: 'requireUppercase', label: 'Require an uppercase letter', description: 'A–Z' },
+  { name: 'requireLowercase', label: 'Require a lowercase letter', description: 'a–z' },
+  { name: 'requireNumber', label: 'Require a number', description: '0–9' },
+  { name: 'requireSymbol', label: 'Require a symbol', description: 'Any character that is not a letter or number.' },
+  { name: 'blockCommonPasswords', label: 'Block common and breached passwords', description: 'Rejects passwords from a built-in list of the most frequently used and leaked passwords.' },
+];
+
+export function PasswordPolicyForm({ initialPolicy }: PasswordPolicyFormProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const form = useForm<PasswordPolicy>({
+    resolver: zodResolver(passwordPolicySchema),
+    defaultValues: initialPolicy,
+  });
+
+  const onSubmit = async (data: PasswordPolicy) => {
+    setIsSaving(true);
+    try {
+      const result = await updatePasswordPolicyAction(data);
+      if (!result.success) {
+        const errorMessage = result.errors?.[0]?.message || "Failed to save password policy.";
+        result.errors?.forEach((err: any) => {
+          const path = err.path?.[0];
+          if (typeof path === 'string' && path in form.getValues()) form.setError(path as keyof PasswordPolicy, { message: err.message });
+        });
+        toast({ title: "Error Saving Policy", description: errorMessage, variant: "destructive" });
+        return;
+      }
+      if (result.policy) form.reset(result.policy);
+      toast({ title: "Policy Saved", description: "Password policy updated. New rules apply the next time a password is set.", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" });
+    } catch (error: any) {
+      console.error("[Password Policy Form] Submission error:", error);
+      toast({ title: "Error Saving Policy", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          {numberFields.map(({ name, label, description }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} {...field} />
+                  </FormControl>
+                  <FormDescription>{description}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        <div className="grid gap-3 md:grid-cols-2">
+          {toggleFields.map(({ name, label, description }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>{label}</FormLabel>
+                    <FormDescription>{description}</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save Password Policy
+        </Button>
+      </form>
+    </Form>
+  );
+}
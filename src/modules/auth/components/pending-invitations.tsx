@@ -0,0 +1,183 @@
+"use client";
+
+import * as React from 'react';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { Ban, Loader2, MailPlus, Send } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { getPendingInvitationsAction, sendEmployeeInvitationAction, revokeEmployeeInvitationAction } from '@/modules/auth/actions';
+import type { InvitationStatus, PendingInvitation } from '@/modules/auth/types';
+
+const STATUS_BADGE: Record<InvitationStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  pending: { label: 'Pending', variant: 'default' },
+  expired: { label: 'Expired', variant: 'secondary' },
+  revoked: { label: 'Revoked', variant: 'destructive' },
+};
+
+/** Employees who have not activated their account yet; invitations can be resent or revoked. */
+export function PendingInvitationsCard() {
+  const { toast } = useToast();
+  const [invitations, setInvitations] = React.useState<PendingInvitation[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [busyUserId, setBusyUserId] = React.useState<string | null>(null);
+
+  const loadInvitations = React.useCallback(async () => {
+    const result = await getPendingInvitationsAction();
+    if (result.success) {
+      setInvitations(result.invitations || []);
+    } else {
+      console.error("Failed to load pending invitations:", result.error);
+    }
+    setIsLoading(false);
+  }, []);
+
+  React.useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  const handleResend = async (invitation: PendingInvitation) => {
+    setBusyUserId(invitation.userId);
+    try {
+      const result = await sendEmployeeInvitationAction(invitation.userId);
+      if (!result.success) {
+        throw new Error(result.error || "Could not resend the invitation.");
+      }
+      if (result.emailSent) {
+        toast({ title: "Invitation Sent", description: `A new invitation link was emailed to ${invitation.email}.`, className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" });
+      } else {
+        toast({ title: "Email Not Sent", description: "A new invitation was created, but the email could not be delivered. Check the email settings and try again.", variant: "destructive" });
+      }
+      await loadInvitations();
+    } catch (error: any) {
+      console.error("Resend invitation error:", error);
+      toast({ title: "Resend Failed", description: error.message || "Could not resend the invitation.", variant: "destructive" });
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleRevoke = async (invitation: PendingInvitation) => {
+    setBusyUserId(invitation.userId);
+    try {
+      const result = await revokeEmployeeInvitationAction(invitation.userId);
+      if (!result.success) {
+        throw new Error(result.error || "Could not revoke the invitation.");
+      }
+      toast({ title: "Invitation Revoked", description: `The link sent to ${invitation.email} no longer works.` });
+      await loadInvitations();
+    } catch (error: any) {
+      console.error("Revoke invitation error:", error);
+      toast({ title: "Revoke Failed", description: error.message || "Could not revoke the invitation.", variant: "destructive" });
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><MailPlus className="h-5 w-5" /> Pending Invitations</CardTitle>
+        <CardDescription>New employees receive an email link to choose their password and accept the terms. These employees have not activated their account yet.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : invitations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Every invited employee has activated their account.</p>
+        ) : (
+        <div className="overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead>Invited</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invitations.map((invitation) => {
+                const badge = STATUS_BADGE[invitation.status];
+                const isBusy = busyUserId === invitation.userId;
+                return (
+                  <TableRow key={invitation.userId}>
+                    <TableCell className="font-medium">
+                      {invitation.name}
+                      <span className="block text-xs text-muted-foreground">{invitation.email}</span>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {formatDistanceToNow(parseISO(invitation.sentAt), { addSuffix: true })}
+                      {invitation.invitedByName && ` by ${invitation.invitedByName}`}
+                      {invitation.sendCount > 1 && <span className="block text-xs">Sent {invitation.sendCount} times</span>}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{format(parseISO(invitation.expiresAt), 'PP p')}</TableCell>
+                    <TableCell><Badge variant={badge.variant}>{badge.label}</Badge></TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="outline" size="sm" onClick={() => handleResend(invitation)} disabled={isBusy}>
+                        {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                        Resend
+                      </Button>
+                      {invitation.status === 'pending' && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" className="ml-2 text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8" disabled={isBusy}>
+                              <Ban className="h-4 w-4" />
+                              <span className="sr-only">Revoke</span>
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Revoke this invitation?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The link sent to <strong>{invitation.email}</strong> stops working and the account is disabled until you send a new invitation.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel disabled={isBusy}>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleRevoke(invitation)} disabled={isBusy} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                                Revoke
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
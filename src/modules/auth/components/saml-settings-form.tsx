@@ -0,0 +1,190 @@
+"use client";
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Save } from 'lucide-react';
+import { samlSettingsFormSchema, type SamlAttributeMapping, type SamlSettings, type SamlSettingsFormData } from '@/modules/auth/types';
+import { updateSamlSettingsAction } from '@/modules/auth/actions';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+
+const ATTRIBUTE_FIELDS: { key: keyof SamlAttributeMapping; label: string }[] = [
+  { key: 'email', label: 'Email' },
+  { key: 'firstName', label: 'First name' },
+  { key: 'lastName', label: 'Last name' },
+  { key: 'department', label: 'Department' },
+  { key: 'position', label: 'Position' },
+  { key: 'phone', label: 'Phone' },
+];
+
+interface SamlSettingsFormProps {
+  initialSettings: SamlSettings;
+}
+
+function toFormValues(settings: SamlSettings): SamlSettingsFormData {
+  const { spEntityId, acsUrl, metadataUrl, ...config } = settings;
+  return config;
+}
+
+export function SamlSettingsForm({ initialSettings }: SamlSettingsFormProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const form = useForm<SamlSettingsFormData>({
+    resolver: zodResolver(samlSettingsFormSchema),
+    defaultValues: toFormValues(initialSettings),
+  });
+
+  const onSubmit = async (data: SamlSettingsFormData) => {
+    setIsSaving(true);
+    try {
+      const result = await updateSamlSettingsAction(data);
+      if (!result.success || !result.settings) {
+        const firstError = result.errors?.[0];
+        const field = firstError?.path?.[0];
+        if (firstError && (field === 'idpEntityId' || field === 'idpSsoUrl' || field === 'idpCertificate')) {
+          form.setError(field, { message: firstError.message });
+        }
+        toast({ title: "Error Saving SAML Settings", description: firstError?.message || "Failed to save SAML settings.", variant: "destructive" });
+        return;
+      }
+      form.reset(toFormValues(result.settings));
+      toast({ title: "SAML Settings Saved", description: result.settings.enabled ? "Users can now sign in with SAML." : "SAML single sign-on is disabled.", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" });
+    } catch (error: any) {
+      console.error("[SAML Settings Form] Submission error:", error);
+      toast({ title: "Error Saving SAML Settings", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <FormLabel>Enable SAML sign-in</FormLabel>
+                <FormDescription>Accepts both SP-initiated logins and logins started from your IdP's app portal.</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <div className="space-y-2 rounded-lg border p-3 text-sm">
+          <p className="font-medium">Service provider details for your IdP</p>
+          <p><span className="text-muted-foreground">Entity ID / metadata URL:</span> <code className="break-all">{initialSettings.metadataUrl}</code></p>
+          <p><span className="text-muted-foreground">ACS URL (HTTP-POST):</span> <code className="break-all">{initialSettings.acsUrl}</code></p>
+          <p className="text-muted-foreground">Assertions must be signed. The NameID should be the user's email address.</p>
+        </div>
+        <FormField
+          control={form.control}
+          name="idpEntityId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>IdP Entity ID</FormLabel>
+              <FormControl>
+                <Input placeholder="https://idp.example.com/metadata" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="idpSsoUrl"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>IdP SSO URL</FormLabel>
+              <FormControl>
+                <Input placeholder="https://idp.example.com/sso/redirect" {...field} />
+              </FormControl>
+              <FormDescription>The IdP's single sign-on endpoint for the HTTP-Redirect binding.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="idpCertificate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>IdP Signing Certificate</FormLabel>
+              <FormControl>
+                <Textarea rows={6} className="font-mono text-xs" placeholder="-----BEGIN CERTIFICATE-----" {...field} />
+              </FormControl>
+              <FormDescription>PEM format. Paste several certificates during an IdP key rollover.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Attribute mapping</p>
+          <p className="text-sm text-muted-foreground">SAML attribute names for each profile field. Leave blank to ignore a field.</p>
+          <div className="grid gap-4 sm:grid-cols-2">
+            {ATTRIBUTE_FIELDS.map(({ key, label }) => (
+              <FormField
+                key={key}
+                control={form.control}
+                name={`attributeMapping.${key}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        </div>
+        <FormField
+          control={form.control}
+          name="jitProvisioning"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <FormLabel>Just-in-time provisioning</FormLabel>
+                <FormDescription>Create an Employee account on first SAML login when no user has that email.</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="syncProfileOnLogin"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <FormLabel>Update profiles on login</FormLabel>
+                <FormDescription>Overwrite the employee's name, department, position and phone with the mapped attributes on every login.</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save SAML Settings
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Copy, KeyRound, Loader2, PowerOff } from 'lucide-react';
+import { generateScimTokenAction, disableScimAction } from '@/modules/auth/actions';
+import type { ScimSettings } from '@/modules/auth/types';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from "@/hooks/use-toast";
+
+interface ScimSettingsPanelProps {
+  initialSettings: ScimSettings;
+}
+
+export function ScimSettingsPanel({ initialSettings }: ScimSettingsPanelProps) {
+  const { toast } = useToast();
+  const [settings, setSettings] = React.useState(initialSettings);
+  const [newToken, setNewToken] = React.useState<string | null>(null);
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  const handleGenerate = async () => {
+    setIsWorking(true);
+    try {
+      const result = await generateScimTokenAction();
+      if (!result.success || !result.token || !result.settings) {
+        toast({ title: "Token Not Generated", description: result.error || "Failed to generate SCIM token.", variant: "destructive" });
+        return;
+      }
+      setSettings(result.settings);
+      setNewToken(result.token);
+      toast({ title: "SCIM Token Generated", description: "Copy the token now. It will not be shown again.", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" });
+    } catch (error: any) {
+      console.error("[SCIM Settings] Generate token error:", error);
+      toast({ title: "Token Not Generated", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsWorking(true);
+    try {
+      const result = await disableScimAction();
+      if (!result.success || !result.settings) {
+        toast({ title: "Error Disabling SCIM", description: result.error || "Failed to disable SCIM provisioning.", variant: "destructive" });
+        return;
+      }
+      setSettings(result.settings);
+      setNewToken(null);
+      toast({ title: "SCIM Provisioning Disabled", description: "The token no longer works.", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" });
+    } catch (error: any) {
+      console.error("[SCIM Settings] Disable error:", error);
+      toast({ title: "Error Disabling SCIM", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast({ title: "Copied", description: "SCIM token copied to the clipboard." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Select the token and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2 rounded-lg border p-3 text-sm">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">Status:</span>
+          {settings.enabled ? <Badge>Enabled</Badge> : <Badge variant="secondary">Disabled</Badge>}
+        </div>
+        <p><span className="text-muted-foreground">SCIM base URL:</span> <code className="break-all">{settings.baseUrl}</code></p>
+        {settings.enabled && settings.tokenCreatedAt && (
+          <p className="text-muted-foreground">
+            Token ending in <code>{settings.tokenHint}</code>, created {format(parseISO(settings.tokenCreatedAt), 'PPp')}.
+          </p>
+        )}
+        <p className="text-muted-foreground">Deprovisioned users are deactivated (employee status Inactive), never deleted.</p>
+      </div>
+
+      {newToken && (
+        <div className="space-y-2 rounded-lg border border-amber-300 bg-amber-50 p-3 dark:border-amber-700 dark:bg-amber-950">
+          <p className="text-sm font-medium">Copy this token into your identity provider now. It will not be shown again.</p>
+          <div className="flex gap-2">
+            <Input readOnly value={newToken} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button type="button" variant="outline" size="icon" onClick={copyToken} aria-label="Copy token">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {settings.enabled ? (
+          <>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button type="button" variant="outline" disabled={isWorking}>
+                  {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                  Rotate Token
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Rotate the SCIM token?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The current token stops working immediately. Provisioning pauses until you enter the new token in your identity provider.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleGenerate}>Rotate token</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button type="button" variant="destructive" disabled={isWorking}>
+                  <PowerOff className="mr-2 h-4 w-4" />
+                  Disable SCIM
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Disable SCIM provisioning?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The token is discarded and your identity provider can no longer create, update or deactivate accounts.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDisable}>Disable</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </>
+        ) : (
+          <Button type="button" onClick={handleGenerate} disabled={isWorking}>
+            {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+            Enable SCIM &amp; Generate Token
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { Laptop, Loader2, LogOut, ShieldX } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { revokeSessionAction, signOutEverywhereAction } from '@/modules/auth/actions';
+import type { UserSession } from '@/modules/auth/types';
+
+interface SessionManagementProps {
+  mySessions: UserSession[];
+  currentSessionId?: string;
+  tenantSessions: UserSession[] | null; // null when the viewer is not an Admin
+}
+
+function formatRelative(iso: string): string {
+  try {
+    return formatDistanceToNow(parseISO(iso), { addSuffix: true });
+  } catch {
+    return iso;
+  }
+}
+
+export function SessionManagement({ mySessions, currentSessionId, tenantSessions }: SessionManagementProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [revoking, setRevoking] = React.useState<Record<string, boolean>>({});
+  const [isSigningOut, setIsSigningOut] = React.useState(false);
+
+  const handleRevoke = async (session: UserSession) => {
+    setRevoking(prev => ({ ...prev, [session.sessionId]: true }));
+    try {
+      const result = await revokeSessionAction(session.sessionId);
+      if (!result.success) {
+        throw new Error(result.error || "Could not revoke session.");
+      }
+      toast({
+        title: "Session Revoked",
+        description: `${session.deviceLabel || 'The session'} has been signed out.`,
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+      if (session.sessionId === currentSessionId) {
+        router.push('/login');
+        return;
+      }
+      router.refresh();
+    } catch (error: any) {
+      console.error("Session revoke error:", error);
+      toast({ title: "Revoke Failed", description: error.message || "Could not revoke session.", variant: "destructive" });
+    } finally {
+      setRevoking(prev => ({ ...prev, [session.sessionId]: false }));
+    }
+  };
+
+  const handleSignOutEverywhere = async (keepCurrent: boolean) => {
+    setIsSigningOut(true);
+    try {
+      const result = await signOutEverywhereAction(keepCurrent);
+      // When keepCurrent is false the action clears the cookie and redirects to the login page.
+      if (!keepCurrent) return;
+      if (!result?.success) {
+        throw new Error(result?.error || "Could not sign out of all sessions.");
+      }
+      toast({
+        title: "Signed Out Elsewhere",
+        description: `${result.revokedCount ?? 0} other session(s) have been signed out.`,
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+      router.refresh();
+    } catch (error: any) {
+      console.error("Sign out everywhere error:", error);
+      toast({ title: "Sign Out Failed", description: error.message || "Could not sign out of all sessions.", variant: "destructive" });
+    } finally {
+      setIsSigningOut(false);
+    }
+  };
+
+  const renderRows = (sessions: UserSession[], showUser: boolean) => sessions.map(session => {
+    const isCurrent = session.sessionId === currentSessionId;
+    return (
+      <TableRow key={session.sessionId}>
+        {showUser && <TableCell className="font-medium">{session.username || session.userId}</TableCell>}
+        <TableCell>
+          <div className="flex items-center gap-2">
+            <Laptop className="h-4 w-4 text-muted-foreground" />
+            <span>{session.deviceLabel || 'Unknown device'}</span>
+            {isCurrent && <Badge variant="secondary">This device</Badge>}
+          </div>
+        </TableCell>
+        <TableCell>{session.ipAddress || '—'}</TableCell>
+        <TableCell>{formatRelative(session.createdAt)}</TableCell>
+        <TableCell>{formatRelative(session.lastSeenAt)}</TableCell>
+        <TableCell className="text-right">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            onClick={() => handleRevoke(session)}
+            disabled={!!revoking[session.sessionId]}
+          >
+            {revoking[session.sessionId] ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldX className="mr-2 h-4 w-4" />}
+            Revoke
+          </Button>
+        </TableCell>
+      </TableRow>
+    );
+  });
+
+  return (
+    <div className="flex flex-col gap-6">
+      <Card className="shadow-sm">
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <div>
+            <CardTitle>Your Active Sessions</CardTitle>
+            <CardDescription>Devices currently signed in to your account. Revoke any session you don't recognise.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => handleSignOutEverywhere(true)} disabled={isSigningOut || mySessions.length <= 1}>
+              Sign out other sessions
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" disabled={isSigningOut}>
+                  {isSigningOut ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+                  Sign out everywhere
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Sign out everywhere?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This ends all of your sessions on every device, including this one. You will need to log in again.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => handleSignOutEverywhere(false)}>Sign out everywhere</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>IP Address</TableHead>
+                <TableHead>Signed In</TableHead>
+                <TableHead>Last Seen</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {mySessions.length > 0 ? renderRows(mySessions, false) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">No active sessions.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {tenantSessions && (
+        <Card className="shadow-sm">
+          <CardHeader>
+            <CardTitle>All Company Sessions</CardTitle>
+            <CardDescription>Every active session across your company. As an admin you can revoke any of them.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Device</TableHead>
+                  <TableHead>IP Address</TableHead>
+                  <TableHead>Signed In</TableHead>
+                  <TableHead>Last Seen</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tenantSessions.length > 0 ? renderRows(tenantSessions, true) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">No active sessions.</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
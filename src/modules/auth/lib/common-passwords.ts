@@ -0,0 +1,26 @@
+// src/modules/auth/lib/common-passwords.ts
+// Passwords that appear most often in public breach corpora, plus obvious product-specific choices.
+// Stored lowercase; see isCommonPassword in password-policy.ts for how candidates are normalised.
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+    '123456', '123456789', '12345678', '1234567890', '1234567', '12345', '1234', '123123', '111111', '000000',
+    '654321', '666666', '121212', '112233', '123321', '987654321', '159753', '147258369', '123qwe', '1q2w3e',
+    '1q2w3e4r', '1q2w3e4r5t', '1qaz2wsx', '1qazxsw2', 'zaq12wsx', 'qazwsx', 'qwerty', 'qwerty123', 'qwertyuiop', 'qwer1234',
+    'asdfgh', 'asdfghjkl', 'asdf1234', 'zxcvbnm', 'zxcvbn', 'azerty', 'abc123', 'abcd1234', 'abcdef', 'abcdefg',
+    'abcdefgh', 'a1b2c3', 'a1b2c3d4', 'aa123456', 'password', 'password1', 'password12', 'password123', 'passw0rd', 'p@ssw0rd',
+    'p@ssword', 'pass', 'pass123', 'pass1234', 'passwort', 'motdepasse', 'contraseña', 'contrasena', 'senha', 'wachtwoord',
+    'letmein', 'welcome', 'welcome1', 'welcome123', 'admin', 'admin123', 'admin1234', 'administrator', 'root', 'toor',
+    'changeme', 'default', 'guest', 'login', 'secret', 'master', 'access', 'trustno1', 'iloveyou', 'princess',
+    'sunshine', 'monkey', 'dragon', 'shadow', 'football', 'baseball', 'soccer', 'hockey', 'basketball', 'superman',
+    'batman', 'starwars', 'pokemon', 'naruto', 'michael', 'jennifer', 'jordan', 'michelle', 'daniel', 'jessica',
+    'charlie', 'andrew', 'thomas', 'robert', 'hunter', 'hunter2', 'ranger', 'buster', 'tigger', 'ginger',
+    'pepper', 'cookie', 'summer', 'winter', 'spring', 'autumn', 'flower', 'lovely', 'loveme', 'love',
+    'freedom', 'whatever', 'hello', 'hello123', 'hellohello', 'computer', 'internet', 'samsung', 'apple', 'google',
+    'microsoft', 'mustang', 'ferrari', 'porsche', 'harley', 'matrix', 'killer', 'maverick', 'merlin', 'mercedes',
+    'chelsea', 'liverpool', 'arsenal', 'barcelona', 'yankees', 'cowboys', 'eagles', 'steelers', 'lakers', 'dallas',
+    'qwerty1', 'qwerty12', 'q1w2e3r4', 'q1w2e3r4t5', 'qwe123', 'asd123', 'zxc123', '1qaz@wsx', 'test', 'test123',
+    'test1234', 'testing', 'temp', 'temp123', 'temporary', 'user', 'user123', 'demo', 'demo123', 'sample',
+    'letmein1', 'iloveyou1', 'babygirl', 'angel', 'jesus', 'blessed', 'family', 'friends', 'forever', 'secret123',
+    'monday', 'friday', 'january', 'december', 'summer2024', 'winter2024', 'spring2025', 'summer2025', 'autumn2025', 'winter2025',
+    'company', 'company123', 'office', 'office123', 'employee', 'manager', 'hrm', 'hr123', 'payroll', 'syntaxhive',
+    'syntaxhivehrm', 'syntaxhive123', 'onlyme', 'mypassword', 'yourpassword', 'newpassword', 'nopassword', 'password!', 'welcome!', 'letmein!',
+]);
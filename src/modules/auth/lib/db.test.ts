@@ -0,0 +1,74 @@
+// src/modules/auth/lib/db.test.ts
+// Employee invitations: a resend enables an account disabled by a revoked invitation, but never the account of
+// an Inactive employee.
+import { cleanUpTestDatabase, createTestTenant, prepareTestDatabase, testDatabaseSkipReason } from '@/test/database'; // Must come first: points db.ts at the test database
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import pool from '@/lib/db';
+import { withTenantScope } from '@/lib/tenant-context';
+import { addUser, createUserInvitation, getLatestUserInvitation, getUserById, revokeUserInvitation } from '@/modules/auth/lib/db';
+
+describe('employee invitations', { skip: testDatabaseSkipReason }, () => {
+  let tenantId: string;
+
+  before(async () => {
+    await prepareTestDatabase();
+    tenantId = await createTestTenant('invite');
+  });
+
+  after(async () => {
+    await cleanUpTestDatabase([tenantId].filter(Boolean));
+  });
+
+  const asTenant = <T>(fn: () => Promise<T>) => withTenantScope(tenantId, fn);
+
+  /** An invited (not yet activated) user with an employee record in the given status. */
+  const createInvitedEmployee = (label: string, status: 'Active' | 'Inactive') => asTenant(async () => {
+    const user = await addUser({
+      tenant_id: tenantId,
+      username: `${label}-${crypto.randomBytes(4).toString('hex')}`,
+      passwordHash: 'unusable',
+      email: `${label}-${crypto.randomBytes(4).toString('hex')}@example.com`,
+      name: `Invited ${label}`,
+      role: 'Employee',
+      is_active: true,
+    });
+    await pool.query(
+      `INSERT INTO employees (tenant_id, user_id, first_name, last_name, email, status) VALUES ($1, $2, 'Invited', $3, $4, $5)`,
+      [tenantId, user.user_id, label, user.email, status]
+    );
+    return user;
+  });
+
+  const invite = (userId: string) => asTenant(() => createUserInvitation({
+    tenant_id: tenantId,
+    user_id: userId,
+    token_hash: crypto.randomBytes(32).toString('hex'),
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    invited_by: null,
+  }));
+
+  test('resending after a revoke enables the account again with a new open invitation', async () => {
+    const user = await createInvitedEmployee('revoked', 'Active');
+    const first = await invite(user.user_id);
+    assert.equal(await asTenant(() => revokeUserInvitation(user.user_id, tenantId)), true);
+    assert.equal((await asTenant(() => getUserById(user.user_id)))?.is_active, false);
+
+    const second = await invite(user.user_id);
+    assert.notEqual(second.invitationId, first.invitationId);
+    assert.equal(second.revokedAt, null);
+    assert.equal((await asTenant(() => getUserById(user.user_id)))?.is_active, true);
+  });
+
+  test('refuses to invite an Inactive employee and leaves the account disabled', async () => {
+    const user = await createInvitedEmployee('inactive', 'Active');
+    const first = await invite(user.user_id);
+    await asTenant(() => revokeUserInvitation(user.user_id, tenantId));
+    await asTenant(() => pool.query(`UPDATE employees SET status = 'Inactive' WHERE user_id = $1`, [user.user_id]));
+
+    await assert.rejects(invite(user.user_id), /employee is inactive/);
+    assert.equal((await asTenant(() => getUserById(user.user_id)))?.is_active, false);
+    assert.equal((await asTenant(() => getLatestUserInvitation(user.user_id, tenantId)))?.invitationId, first.invitationId);
+  });
+});
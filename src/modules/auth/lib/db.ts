@@ -1,16 +1,23 @@
 
+import { z } from 'zod';
 import pool from '@/lib/db';
-import type { Tenant, User } from '@/modules/auth/types';
+import { withSystemScope } from '@/lib/tenant-context';
+import type { Tenant, TenantStatus, User, UserSession, LockoutPolicy, AccountLockStatus, MfaPolicy, OidcConfig, SamlConfig, ScimConfig, PasswordPolicy, PendingInvitation } from '@/modules/auth/types';
+import { passwordPolicySchema, PASSWORD_POLICY_CONFIG_KEY, PASSWORD_HISTORY_MAX, lockoutPolicySchema, LOCKOUT_POLICY_CONFIG_KEY, mfaPolicySchema, MFA_POLICY_CONFIG_KEY, oidcConfigSchema, OIDC_CONFIG_KEY, samlConfigSchema, SAML_CONFIG_KEY, scimConfigSchema, SCIM_CONFIG_KEY } from '@/modules/auth/types';
 import type { Employee } from '@/modules/employees/types'; // For Employee type hint
+import { recordAuditEvent } from '@/modules/audit/lib/db';
+import { diffForAudit } from '@/modules/audit/lib/diff';
 
 // --- Tenant Operations ---
 
-function mapRowToTenant(row: any): Tenant {
+export function mapRowToTenant(row: any): Tenant {
     return {
         tenant_id: row.tenant_id,
         name: row.name,
         subdomain: row.subdomain,
         status: row.status,
+        status_reason: row.status_reason ?? null,
+        deletion_scheduled_at: row.deletion_scheduled_at ? new Date(row.deletion_scheduled_at).toISOString() : null,
         created_at: new Date(row.created_at).toISOString(),
         updated_at: row.updated_at ? new Date(row.updated_at).toISOString() : undefined,
     };
@@ -91,6 +98,89 @@ export async function getTenantByDomain(subdomain: string): Promise<Tenant | und
     }
 }
 
+export async function listTenants(status?: TenantStatus): Promise<Tenant[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            'SELECT * FROM tenants WHERE ($1::varchar IS NULL OR status = $1) ORDER BY created_at',
+            [status ?? null]
+        );
+        return res.rows.map(mapRowToTenant);
+    } catch (err: any) {
+        console.error('[DB listTenants] Error listing tenants:', err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenants" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Suspends, reinstates or schedules the deletion of a tenant and records the change in its audit log.
+ * `deletion_scheduled_at` is only kept for DELETED; any other status clears it.
+ */
+export async function updateTenantStatus(
+    tenant_id: string,
+    status: TenantStatus,
+    options: { reason?: string | null; deletionScheduledAt?: Date | null } = {}
+): Promise<Tenant | undefined> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const before = await client.query('SELECT * FROM tenants WHERE tenant_id = $1 FOR UPDATE', [tenant_id]);
+        if (before.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return undefined;
+        }
+        const res = await client.query(
+            `UPDATE tenants SET status = $2, status_reason = $3, status_changed_at = NOW(),
+                deletion_scheduled_at = CASE WHEN $2 = 'DELETED' THEN $4::timestamptz ELSE NULL END
+             WHERE tenant_id = $1
+             RETURNING *`,
+            [tenant_id, status, options.reason ?? null, options.deletionScheduledAt ?? null]
+        );
+        const previous = mapRowToTenant(before.rows[0]);
+        const tenant = mapRowToTenant(res.rows[0]);
+        await recordAuditEvent(client, {
+            tenantId: tenant_id,
+            entityType: 'tenant',
+            entityId: tenant_id,
+            entityLabel: tenant.name,
+            action: 'update',
+            changes: diffForAudit(
+                { status: previous.status, deletion_scheduled_at: previous.deletion_scheduled_at },
+                { status: tenant.status, deletion_scheduled_at: tenant.deletion_scheduled_at }
+            ),
+        });
+        await client.query('COMMIT');
+        console.log(`[DB updateTenantStatus] Tenant ${tenant_id} status changed from ${previous.status} to ${tenant.status}.`);
+        return tenant;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB updateTenantStatus] Error updating status of tenant ${tenant_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getTenantsDueForDeletion(): Promise<Tenant[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT * FROM tenants WHERE status = 'DELETED' AND deletion_scheduled_at <= NOW() ORDER BY deletion_scheduled_at`
+        );
+        return res.rows.map(mapRowToTenant);
+    } catch (err: any) {
+        console.error('[DB getTenantsDueForDeletion] Error fetching tenants due for deletion:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
 // --- User Operations ---
 
 function mapRowToUser(row: any): User {
@@ -108,7 +198,10 @@ function mapRowToUser(row: any): User {
         last_login: row.last_login ? new Date(row.last_login).toISOString() : undefined,
         failed_attempts: row.failed_attempts,
         account_locked: row.account_locked,
+        locked_until: row.locked_until ? new Date(row.locked_until).toISOString() : null,
         password_changed_at: row.password_changed_at ? new Date(row.password_changed_at).toISOString() : undefined,
+        must_change_password: row.must_change_password ?? false,
+        terms_accepted_at: row.terms_accepted_at ? new Date(row.terms_accepted_at).toISOString() : null,
         created_at: new Date(row.created_at).toISOString(),
         updated_at: row.updated_at ? new Date(row.updated_at).toISOString() : undefined,
     };
@@ -116,12 +209,16 @@ function mapRowToUser(row: any): User {
     return user;
 }
 
-export async function addUser(userData: Omit<User, 'user_id' | 'created_at' | 'updated_at' | 'last_login' | 'failed_attempts' | 'account_locked' | 'password_changed_at'>): Promise<User> {
+/**
+ * Creates a user account. Pass must_change_password when someone other than the user chose the
+ * password (e.g. an emailed temporary password), so it has to be changed at the first login.
+ */
+export async function addUser(userData: Omit<User, 'user_id' | 'created_at' | 'updated_at' | 'last_login' | 'failed_attempts' | 'account_locked' | 'locked_until' | 'password_changed_at' | 'must_change_password'> & { must_change_password?: boolean }): Promise<User> {
     const client = await pool.connect();
     console.log(`[DB addUser] Attempting to add user: ${userData.username} (Email: ${userData.email}) for tenant ${userData.tenant_id || 'SYSTEM'}`);
     const query = `
-        INSERT INTO users (tenant_id, employee_id, username, password_hash, email, name, role, is_active, created_at, updated_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
+        INSERT INTO users (tenant_id, employee_id, username, password_hash, email, name, role, is_active, must_change_password, password_changed_at, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW(), NOW())
         RETURNING *;
     `;
     const values = [
@@ -133,13 +230,23 @@ export async function addUser(userData: Omit<User, 'user_id' | 'created_at' | 'u
         userData.name,
         userData.role,
         userData.is_active ?? true,
+        userData.must_change_password ?? false,
     ];
     try {
+        await client.query('BEGIN');
         const res = await client.query(query, values);
         const user = mapRowToUser(res.rows[0]);
+        if (user.tenant_id) {
+            await client.query(
+                'INSERT INTO password_history (tenant_id, user_id, password_hash) VALUES ($1, $2, $3)',
+                [user.tenant_id, user.user_id, user.passwordHash]
+            );
+        }
+        await client.query('COMMIT');
         console.log(`[DB addUser] User added successfully: user_id ${user.user_id}, username ${user.username}`);
         return user;
     } catch (err: any) {
+        await client.query('ROLLBACK');
         console.error('[DB addUser] Error adding user:', err);
          if (err.code === '23505') {
             if (err.constraint === 'unique_tenant_username') {
@@ -369,3 +476,1095 @@ export async function deleteUserById(user_id: string, tenant_id: string | null,
 }
 
     
+
+// --- User Session Operations ---
+
+function mapRowToUserSession(row: any): UserSession {
+    return {
+        sessionId: row.session_id,
+        tenantId: row.tenant_id,
+        userId: row.user_id,
+        username: row.username ?? undefined,
+        userAgent: row.user_agent ?? null,
+        deviceLabel: row.device_label ?? null,
+        ipAddress: row.ip_address ?? null,
+        createdAt: new Date(row.created_at).toISOString(),
+        lastSeenAt: new Date(row.last_seen_at).toISOString(),
+        expiresAt: new Date(row.expires_at).toISOString(),
+        revokedAt: row.revoked_at ? new Date(row.revoked_at).toISOString() : null,
+        revokedReason: row.revoked_reason ?? null,
+    };
+}
+
+export async function createUserSession(sessionData: {
+    tenant_id: string;
+    user_id: string;
+    user_agent: string | null;
+    device_label: string | null;
+    ip_address: string | null;
+    expires_at: Date;
+}): Promise<UserSession> {
+    const client = await pool.connect();
+    console.log(`[DB createUserSession] Creating session for user ${sessionData.user_id} in tenant ${sessionData.tenant_id}`);
+    const query = `
+        INSERT INTO user_sessions (tenant_id, user_id, user_agent, device_label, ip_address, created_at, last_seen_at, expires_at)
+        VALUES ($1, $2, $3, $4, $5, NOW(), NOW(), $6)
+        RETURNING *;
+    `;
+    const values = [
+        sessionData.tenant_id,
+        sessionData.user_id,
+        sessionData.user_agent,
+        sessionData.device_label,
+        sessionData.ip_address,
+        sessionData.expires_at,
+    ];
+    try {
+        const res = await client.query(query, values);
+        const session = mapRowToUserSession(res.rows[0]);
+        console.log(`[DB createUserSession] Session created: ${session.sessionId}`);
+        return session;
+    } catch (err: any) {
+        console.error('[DB createUserSession] Error creating session:', err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "user_sessions" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Returns the session only if it has not been revoked and has not expired.
+ */
+export async function getActiveUserSession(session_id: string): Promise<UserSession | undefined> {
+    const client = await pool.connect();
+    try {
+        // Sessions of a suspended or deleted company stop working without being revoked
+        const res = await client.query(
+            `SELECT s.* FROM user_sessions s
+             JOIN tenants t ON t.tenant_id = s.tenant_id
+             WHERE s.session_id = $1 AND s.revoked_at IS NULL AND s.expires_at > NOW() AND t.status = 'ACTIVE'`,
+            [session_id]
+        );
+        return res.rows.length > 0 ? mapRowToUserSession(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error(`[DB getActiveUserSession] Error fetching session ${session_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "user_sessions" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Updates last_seen_at, at most once per `throttleMinutes` to avoid a write on every request.
+ */
+export async function touchUserSession(session_id: string, ip_address: string | null, throttleMinutes = 5): Promise<void> {
+    const client = await pool.connect();
+    try {
+        await client.query(
+            `UPDATE user_sessions
+             SET last_seen_at = NOW(), ip_address = COALESCE($2, ip_address)
+             WHERE session_id = $1 AND revoked_at IS NULL AND last_seen_at < NOW() - ($3 || ' minutes')::interval`,
+            [session_id, ip_address, String(throttleMinutes)]
+        );
+    } catch (err: any) {
+        console.error(`[DB touchUserSession] Error updating last seen for session ${session_id}:`, err);
+    } finally {
+        client.release();
+    }
+}
+
+export async function getActiveSessionsForUser(user_id: string, tenant_id: string): Promise<UserSession[]> {
+    const client = await pool.connect();
+    console.log(`[DB getActiveSessionsForUser] Fetching active sessions for user ${user_id} in tenant ${tenant_id}`);
+    try {
+        const res = await client.query(
+            `SELECT s.*, u.username FROM user_sessions s
+             JOIN users u ON u.user_id = s.user_id
+             WHERE s.user_id = $1 AND s.tenant_id = $2 AND s.revoked_at IS NULL AND s.expires_at > NOW()
+             ORDER BY s.last_seen_at DESC`,
+            [user_id, tenant_id]
+        );
+        return res.rows.map(mapRowToUserSession);
+    } catch (err: any) {
+        console.error(`[DB getActiveSessionsForUser] Error fetching sessions for user ${user_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "user_sessions" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getActiveSessionsForTenant(tenant_id: string): Promise<UserSession[]> {
+    const client = await pool.connect();
+    console.log(`[DB getActiveSessionsForTenant] Fetching active sessions for tenant ${tenant_id}`);
+    try {
+        const res = await client.query(
+            `SELECT s.*, u.username FROM user_sessions s
+             JOIN users u ON u.user_id = s.user_id
+             WHERE s.tenant_id = $1 AND s.revoked_at IS NULL AND s.expires_at > NOW()
+             ORDER BY u.username ASC, s.last_seen_at DESC`,
+            [tenant_id]
+        );
+        return res.rows.map(mapRowToUserSession);
+    } catch (err: any) {
+        console.error(`[DB getActiveSessionsForTenant] Error fetching sessions for tenant ${tenant_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "user_sessions" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getUserSessionById(session_id: string, tenant_id: string): Promise<UserSession | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query('SELECT * FROM user_sessions WHERE session_id = $1 AND tenant_id = $2', [session_id, tenant_id]);
+        return res.rows.length > 0 ? mapRowToUserSession(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error(`[DB getUserSessionById] Error fetching session ${session_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function revokeUserSession(session_id: string, tenant_id: string, reason: string): Promise<boolean> {
+    const client = await pool.connect();
+    console.log(`[DB revokeUserSession] Revoking session ${session_id} in tenant ${tenant_id} (reason: ${reason})`);
+    try {
+        const res = await client.query(
+            'UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $3 WHERE session_id = $1 AND tenant_id = $2 AND revoked_at IS NULL',
+            [session_id, tenant_id, reason]
+        );
+        return res.rowCount !== null && res.rowCount > 0;
+    } catch (err: any) {
+        console.error(`[DB revokeUserSession] Error revoking session ${session_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Revokes every active session of a user, optionally keeping one (e.g. the caller's current session).
+ * @returns The number of sessions revoked.
+ */
+export async function revokeAllSessionsForUser(user_id: string, tenant_id: string, reason: string, exceptSessionId?: string, client?: any): Promise<number> {
+    const conn = client || await pool.connect();
+    console.log(`[DB revokeAllSessionsForUser] Revoking sessions for user ${user_id} in tenant ${tenant_id} (reason: ${reason}, keeping: ${exceptSessionId || 'none'})`);
+    try {
+        const res = await conn.query(
+            `UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $3
+             WHERE user_id = $1 AND tenant_id = $2 AND revoked_at IS NULL
+             AND ($4::uuid IS NULL OR session_id <> $4::uuid)`,
+            [user_id, tenant_id, reason, exceptSessionId || null]
+        );
+        const revokedCount = res.rowCount ?? 0;
+        console.log(`[DB revokeAllSessionsForUser] Revoked ${revokedCount} session(s) for user ${user_id}.`);
+        return revokedCount;
+    } catch (err: any) {
+        console.error(`[DB revokeAllSessionsForUser] Error revoking sessions for user ${user_id}:`, err);
+        throw err;
+    } finally {
+        if (!client) conn.release();
+    }
+}
+
+// --- Password Reset Token Operations ---
+
+export interface PasswordResetTokenRecord {
+    tokenId: string;
+    tenantId: string;
+    userId: string;
+    expiresAt: string;
+    usedAt: string | null;
+}
+
+function mapRowToPasswordResetToken(row: any): PasswordResetTokenRecord {
+    return {
+        tokenId: row.token_id,
+        tenantId: row.tenant_id,
+        userId: row.user_id,
+        expiresAt: new Date(row.expires_at).toISOString(),
+        usedAt: row.used_at ? new Date(row.used_at).toISOString() : null,
+    };
+}
+
+/**
+ * Stores a new reset token hash for a user. Any earlier unused tokens for that user are invalidated,
+ * so only the most recent emailed link works.
+ */
+export async function createPasswordResetToken(tokenData: { tenant_id: string; user_id: string; token_hash: string; expires_at: Date; requested_ip: string | null }): Promise<PasswordResetTokenRecord> {
+    const client = await pool.connect();
+    console.log(`[DB createPasswordResetToken] Creating reset token for user ${tokenData.user_id} in tenant ${tokenData.tenant_id}`);
+    try {
+        await client.query('BEGIN');
+        await client.query(
+            'UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = $1 AND tenant_id = $2 AND used_at IS NULL',
+            [tokenData.user_id, tokenData.tenant_id]
+        );
+        const res = await client.query(
+            `INSERT INTO password_reset_tokens (tenant_id, user_id, token_hash, expires_at, requested_ip, created_at)
+             VALUES ($1, $2, $3, $4, $5, NOW()) RETURNING *`,
+            [tokenData.tenant_id, tokenData.user_id, tokenData.token_hash, tokenData.expires_at, tokenData.requested_ip]
+        );
+        await client.query('COMMIT');
+        return mapRowToPasswordResetToken(res.rows[0]);
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error('[DB createPasswordResetToken] Error creating reset token:', err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "password_reset_tokens" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Atomically consumes a reset token: marks it used and returns it, but only if it belongs to the tenant,
+ * has not been used and has not expired. Returns undefined otherwise.
+ */
+export async function consumePasswordResetToken(token_hash: string, tenant_id: string, client?: any): Promise<PasswordResetTokenRecord | undefined> {
+    const conn = client || await pool.connect();
+    try {
+        const res = await conn.query(
+            `UPDATE password_reset_tokens SET used_at = NOW()
+             WHERE token_hash = $1 AND tenant_id = $2 AND used_at IS NULL AND expires_at > NOW()
+             RETURNING *`,
+            [token_hash, tenant_id]
+        );
+        return res.rows.length > 0 ? mapRowToPasswordResetToken(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error('[DB consumePasswordResetToken] Error consuming reset token:', err);
+        throw err;
+    } finally {
+        if (!client) conn.release();
+    }
+}
+
+export async function isPasswordResetTokenValid(token_hash: string, tenant_id: string): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            'SELECT 1 FROM password_reset_tokens WHERE token_hash = $1 AND tenant_id = $2 AND used_at IS NULL AND expires_at > NOW()',
+            [token_hash, tenant_id]
+        );
+        return res.rows.length > 0;
+    } catch (err: any) {
+        console.error('[DB isPasswordResetTokenValid] Error checking reset token:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+// --- Employee Invitation Operations ---
+
+export interface UserInvitationRecord {
+    invitationId: string;
+    tenantId: string;
+    userId: string;
+    invitedBy: string | null;
+    expiresAt: string;
+    acceptedAt: string | null;
+    revokedAt: string | null;
+    createdAt: string;
+}
+
+function mapRowToUserInvitation(row: any): UserInvitationRecord {
+    return {
+        invitationId: row.invitation_id,
+        tenantId: row.tenant_id,
+        userId: row.user_id,
+        invitedBy: row.invited_by ?? null,
+        expiresAt: new Date(row.expires_at).toISOString(),
+        acceptedAt: row.accepted_at ? new Date(row.accepted_at).toISOString() : null,
+        revokedAt: row.revoked_at ? new Date(row.revoked_at).toISOString() : null,
+        createdAt: new Date(row.created_at).toISOString(),
+    };
+}
+
+/**
+ * Stores a new invitation token hash for a user. Earlier open invitations are revoked so only the most
+ * recent emailed link works, and an account disabled by a revoked invitation is enabled again.
+ * @throws Error when the user's employee record is Inactive; deactivated employees are not invited.
+ */
+export async function createUserInvitation(inviteData: { tenant_id: string; user_id: string; token_hash: string; expires_at: Date; invited_by: string | null }): Promise<UserInvitationRecord> {
+    const client = await pool.connect();
+    console.log(`[DB createUserInvitation] Creating invitation for user ${inviteData.user_id} in tenant ${inviteData.tenant_id}`);
+    try {
+        await client.query('BEGIN');
+        const employeeRes = await client.query(
+            'SELECT status FROM employees WHERE user_id = $1 AND tenant_id = $2 FOR UPDATE',
+            [inviteData.user_id, inviteData.tenant_id]
+        );
+        if (employeeRes.rows[0]?.status === 'Inactive') {
+            throw new Error('This employee is inactive. Set the employee to Active before sending an invitation.');
+        }
+        const previousRes = await client.query(
+            `UPDATE user_invitations SET revoked_at = NOW()
+             WHERE user_id = $1 AND tenant_id = $2 AND accepted_at IS NULL AND revoked_at IS NULL
+             RETURNING invitation_id`,
+            [inviteData.user_id, inviteData.tenant_id]
+        );
+        const userRes = await client.query(
+            'UPDATE users SET is_active = TRUE, updated_at = NOW() WHERE user_id = $1 AND tenant_id = $2 RETURNING name, is_active',
+            [inviteData.user_id, inviteData.tenant_id]
+        );
+        const res = await client.query(
+            `INSERT INTO user_invitations (tenant_id, user_id, token_hash, invited_by, expires_at, created_at)
+             VALUES ($1, $2, $3, $4, $5, NOW()) RETURNING *`,
+            [inviteData.tenant_id, inviteData.user_id, inviteData.token_hash, inviteData.invited_by, inviteData.expires_at]
+        );
+        await recordAuditEvent(client, {
+            tenantId: inviteData.tenant_id, entityType: 'user_account', entityId: inviteData.user_id, entityLabel: userRes.rows[0]?.name ?? null,
+            action: 'update',
+            changes: { invitation: { from: previousRes.rows.length > 0 ? 'pending' : null, to: previousRes.rows.length > 0 ? 'resent' : 'sent' } },
+        });
+        await client.query('COMMIT');
+        return mapRowToUserInvitation(res.rows[0]);
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error('[DB createUserInvitation] Error creating invitation:', err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "user_invitations" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Revokes the user's open invitation and disables the account, so it cannot be activated through
+ * a password reset either. Returns false when there was no open invitation.
+ */
+export async function revokeUserInvitation(user_id: string, tenant_id: string): Promise<boolean> {
+    const client = await pool.connect();
+    console.log(`[DB revokeUserInvitation] Revoking invitation for user ${user_id} in tenant ${tenant_id}`);
+    try {
+        await client.query('BEGIN');
+        const res = await client.query(
+            `UPDATE user_invitations SET revoked_at = NOW()
+             WHERE user_id = $1 AND tenant_id = $2 AND accepted_at IS NULL AND revoked_at IS NULL
+             RETURNING invitation_id`,
+            [user_id, tenant_id]
+        );
+        if (res.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return false;
+        }
+        const userRes = await client.query(
+            'UPDATE users SET is_active = FALSE, updated_at = NOW() WHERE user_id = $1 AND tenant_id = $2 RETURNING name',
+            [user_id, tenant_id]
+        );
+        await recordAuditEvent(client, {
+            tenantId: tenant_id, entityType: 'user_account', entityId: user_id, entityLabel: userRes.rows[0]?.name ?? null,
+            action: 'update',
+            changes: { invitation: { from: 'pending', to: 'revoked' }, is_active: { from: true, to: false } },
+        });
+        await client.query('COMMIT');
+        return true;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error('[DB revokeUserInvitation] Error revoking invitation:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** The open (not accepted, revoked or expired) invitation for a token, with the invited user's name and email. */
+export async function getOpenUserInvitation(token_hash: string, tenant_id: string): Promise<(UserInvitationRecord & { name: string | null; email: string }) | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT i.*, u.name, u.email FROM user_invitations i
+             JOIN users u ON u.user_id = i.user_id AND u.tenant_id = i.tenant_id
+             WHERE i.token_hash = $1 AND i.tenant_id = $2 AND i.accepted_at IS NULL AND i.revoked_at IS NULL AND i.expires_at > NOW()`,
+            [token_hash, tenant_id]
+        );
+        if (res.rows.length === 0) return undefined;
+        return { ...mapRowToUserInvitation(res.rows[0]), name: res.rows[0].name ?? null, email: res.rows[0].email };
+    } catch (err: any) {
+        console.error('[DB getOpenUserInvitation] Error fetching invitation:', err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "user_invitations" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Atomically accepts an open invitation and records the user's acceptance of the terms.
+ * Returns undefined when the token is not usable. Runs in the caller's transaction, which also sets the password.
+ */
+export async function acceptUserInvitation(token_hash: string, tenant_id: string, client: any): Promise<UserInvitationRecord | undefined> {
+    try {
+        const res = await client.query(
+            `UPDATE user_invitations SET accepted_at = NOW()
+             WHERE token_hash = $1 AND tenant_id = $2 AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > NOW()
+             RETURNING *`,
+            [token_hash, tenant_id]
+        );
+        if (res.rows.length === 0) return undefined;
+        const invitation = mapRowToUserInvitation(res.rows[0]);
+        const userRes = await client.query(
+            'UPDATE users SET terms_accepted_at = NOW(), updated_at = NOW() WHERE user_id = $1 AND tenant_id = $2 RETURNING name',
+            [invitation.userId, tenant_id]
+        );
+        await recordAuditEvent(client, {
+            tenantId: tenant_id, entityType: 'user_account', entityId: invitation.userId, entityLabel: userRes.rows[0]?.name ?? null,
+            action: 'update',
+            changes: { invitation: { from: 'pending', to: 'accepted' } },
+        });
+        return invitation;
+    } catch (err: any) {
+        console.error('[DB acceptUserInvitation] Error accepting invitation:', err);
+        throw err;
+    }
+}
+
+/** The most recent invitation sent to a user, if any. */
+export async function getLatestUserInvitation(user_id: string, tenant_id: string): Promise<UserInvitationRecord | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            'SELECT * FROM user_invitations WHERE user_id = $1 AND tenant_id = $2 ORDER BY created_at DESC LIMIT 1',
+            [user_id, tenant_id]
+        );
+        return res.rows.length > 0 ? mapRowToUserInvitation(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error('[DB getLatestUserInvitation] Error fetching invitation:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** Users whose latest invitation has not been accepted yet, newest first. */
+export async function getPendingInvitations(tenant_id: string): Promise<PendingInvitation[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT * FROM (
+                SELECT DISTINCT ON (i.user_id) i.*, u.name, u.email, inviter.name AS invited_by_name,
+                       COUNT(*) OVER (PARTITION BY i.user_id)::int AS send_count
+                FROM user_invitations i
+                JOIN users u ON u.user_id = i.user_id AND u.tenant_id = i.tenant_id
+                LEFT JOIN users inviter ON inviter.user_id = i.invited_by
+                WHERE i.tenant_id = $1
+                ORDER BY i.user_id, i.created_at DESC
+             ) latest
+             WHERE accepted_at IS NULL
+             ORDER BY created_at DESC`,
+            [tenant_id]
+        );
+        const now = Date.now();
+        return res.rows.map(row => ({
+            userId: row.user_id,
+            name: row.name || row.email,
+            email: row.email,
+            invitedByName: row.invited_by_name ?? null,
+            sentAt: new Date(row.created_at).toISOString(),
+            expiresAt: new Date(row.expires_at).toISOString(),
+            sendCount: row.send_count,
+            status: row.revoked_at ? 'revoked' : new Date(row.expires_at).getTime() <= now ? 'expired' : 'pending',
+        }));
+    } catch (err: any) {
+        console.error(`[DB getPendingInvitations] Error fetching invitations for tenant ${tenant_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "user_invitations" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Stores a new password hash, clears the forced-change flag and appends the hash to the user's
+ * password history (pruned to PASSWORD_HISTORY_MAX entries). Pass a client to join its transaction.
+ */
+export async function updateUserPassword(user_id: string, tenant_id: string, passwordHash: string, client?: any): Promise<boolean> {
+    const conn = client || await pool.connect();
+    console.log(`[DB updateUserPassword] Updating password for user ${user_id} in tenant ${tenant_id}`);
+    try {
+        if (!client) await conn.query('BEGIN');
+        const res = await conn.query(
+            'UPDATE users SET password_hash = $1, password_changed_at = NOW(), must_change_password = FALSE, updated_at = NOW() WHERE user_id = $2 AND tenant_id = $3',
+            [passwordHash, user_id, tenant_id]
+        );
+        const updated = res.rowCount !== null && res.rowCount > 0;
+        if (updated) {
+            await conn.query(
+                'INSERT INTO password_history (tenant_id, user_id, password_hash) VALUES ($1, $2, $3)',
+                [tenant_id, user_id, passwordHash]
+            );
+            await conn.query(
+                `DELETE FROM password_history WHERE user_id = $1 AND tenant_id = $2 AND id NOT IN (
+                    SELECT id FROM password_history WHERE user_id = $1 AND tenant_id = $2 ORDER BY created_at DESC, id LIMIT $3
+                 )`,
+                [user_id, tenant_id, PASSWORD_HISTORY_MAX]
+            );
+        }
+        if (!client) await conn.query('COMMIT');
+        return updated;
+    } catch (err: any) {
+        if (!client) await conn.query('ROLLBACK');
+        console.error(`[DB updateUserPassword] Error updating password for user ${user_id}:`, err);
+        throw err;
+    } finally {
+        if (!client) conn.release();
+    }
+}
+
+/** Hashes of the user's most recent passwords, newest first (the current password included). */
+export async function getPasswordHistory(user_id: string, tenant_id: string, limit: number, client?: any): Promise<string[]> {
+    if (limit <= 0) return [];
+    const conn = client || await pool.connect();
+    try {
+        const res = await conn.query(
+            'SELECT password_hash FROM password_history WHERE user_id = $1 AND tenant_id = $2 ORDER BY created_at DESC, id LIMIT $3',
+            [user_id, tenant_id, limit]
+        );
+        return res.rows.map((row: any) => row.password_hash);
+    } catch (err: any) {
+        console.error(`[DB getPasswordHistory] Error fetching password history for user ${user_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "password_history" does not exist.');
+        }
+        throw err;
+    } finally {
+        if (!client) conn.release();
+    }
+}
+
+// --- Security Policies (tenant_configurations) ---
+
+async function getSecurityPolicy<T>(tenant_id: string, config_key: string, schema: z.ZodType<T, any, any>): Promise<T> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            'SELECT config_value FROM tenant_configurations WHERE tenant_id = $1 AND config_key = $2',
+            [tenant_id, config_key]
+        );
+        const parsed = schema.safeParse(res.rows[0]?.config_value ?? {});
+        if (!parsed.success) {
+            console.warn(`[DB getSecurityPolicy] Stored ${config_key} for tenant ${tenant_id} is invalid. Using defaults.`, parsed.error.flatten());
+            return schema.parse({});
+        }
+        return parsed.data;
+    } catch (err: any) {
+        console.error(`[DB getSecurityPolicy] Error fetching ${config_key} for tenant ${tenant_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_configurations" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+async function upsertSecurityPolicy<T>(tenant_id: string, config_key: string, schema: z.ZodType<T, any, any>, policy: T): Promise<T> {
+    const client = await pool.connect();
+    console.log(`[DB upsertSecurityPolicy] Saving ${config_key} for tenant ${tenant_id}.`); // Value not logged: it may hold encrypted secrets
+    try {
+        await client.query('BEGIN');
+        const beforeRes = await client.query(
+            'SELECT config_value FROM tenant_configurations WHERE tenant_id = $1 AND config_key = $2',
+            [tenant_id, config_key]
+        );
+        const res = await client.query(
+            `INSERT INTO tenant_configurations (tenant_id, config_key, config_value)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (tenant_id, config_key) DO UPDATE SET config_value = EXCLUDED.config_value, updated_at = NOW()
+             RETURNING config_value`,
+            [tenant_id, config_key, JSON.stringify(policy)]
+        );
+        await recordAuditEvent(client, {
+            tenantId: tenant_id, entityType: 'security_config', entityId: config_key, entityLabel: config_key,
+            action: beforeRes.rows.length > 0 ? 'update' : 'create',
+            changes: diffForAudit(beforeRes.rows[0]?.config_value ?? null, res.rows[0].config_value),
+        });
+        await client.query('COMMIT');
+        return schema.parse(res.rows[0].config_value);
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB upsertSecurityPolicy] Error saving ${config_key} for tenant ${tenant_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getPasswordPolicy(tenant_id: string): Promise<PasswordPolicy> {
+    return getSecurityPolicy(tenant_id, PASSWORD_POLICY_CONFIG_KEY, passwordPolicySchema);
+}
+
+export async function upsertPasswordPolicy(tenant_id: string, policy: PasswordPolicy): Promise<PasswordPolicy> {
+    return upsertSecurityPolicy(tenant_id, PASSWORD_POLICY_CONFIG_KEY, passwordPolicySchema, policy);
+}
+
+export async function getLockoutPolicy(tenant_id: string): Promise<LockoutPolicy> {
+    return getSecurityPolicy(tenant_id, LOCKOUT_POLICY_CONFIG_KEY, lockoutPolicySchema);
+}
+
+export async function upsertLockoutPolicy(tenant_id: string, policy: LockoutPolicy): Promise<LockoutPolicy> {
+    return upsertSecurityPolicy(tenant_id, LOCKOUT_POLICY_CONFIG_KEY, lockoutPolicySchema, policy);
+}
+
+export async function getMfaPolicy(tenant_id: string): Promise<MfaPolicy> {
+    return getSecurityPolicy(tenant_id, MFA_POLICY_CONFIG_KEY, mfaPolicySchema);
+}
+
+export async function upsertMfaPolicy(tenant_id: string, policy: MfaPolicy): Promise<MfaPolicy> {
+    return upsertSecurityPolicy(tenant_id, MFA_POLICY_CONFIG_KEY, mfaPolicySchema, policy);
+}
+
+export async function getOidcConfig(tenant_id: string): Promise<OidcConfig> {
+    return getSecurityPolicy(tenant_id, OIDC_CONFIG_KEY, oidcConfigSchema);
+}
+
+export async function upsertOidcConfig(tenant_id: string, config: OidcConfig): Promise<OidcConfig> {
+    return upsertSecurityPolicy(tenant_id, OIDC_CONFIG_KEY, oidcConfigSchema, config);
+}
+
+export async function getSamlConfig(tenant_id: string): Promise<SamlConfig> {
+    return getSecurityPolicy(tenant_id, SAML_CONFIG_KEY, samlConfigSchema);
+}
+
+export async function upsertSamlConfig(tenant_id: string, config: SamlConfig): Promise<SamlConfig> {
+    return upsertSecurityPolicy(tenant_id, SAML_CONFIG_KEY, samlConfigSchema, config);
+}
+
+export async function getScimConfig(tenant_id: string): Promise<ScimConfig> {
+    return getSecurityPolicy(tenant_id, SCIM_CONFIG_KEY, scimConfigSchema);
+}
+
+export async function upsertScimConfig(tenant_id: string, config: ScimConfig): Promise<ScimConfig> {
+    return upsertSecurityPolicy(tenant_id, SCIM_CONFIG_KEY, scimConfigSchema, config);
+}
+
+/**
+ * Finds the tenant whose enabled SCIM configuration holds the given token hash.
+ */
+export async function getTenantIdByScimTokenHash(token_hash: string): Promise<string | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT tenant_id FROM tenant_configurations
+             WHERE config_key = $1 AND config_value->>'tokenHash' = $2 AND (config_value->>'enabled')::boolean = TRUE`,
+            [SCIM_CONFIG_KEY, token_hash]
+        );
+        return res.rows[0]?.tenant_id;
+    } catch (err: any) {
+        console.error('[DB getTenantIdByScimTokenHash] Error looking up SCIM token:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+// --- Account Lockout & Login Rate Limiting ---
+
+export async function recordLoginAttempt(attempt: { tenant_id: string; identifier: string; ip_address: string | null; success: boolean }): Promise<void> {
+    const client = await pool.connect();
+    try {
+        await client.query(
+            'INSERT INTO login_attempts (tenant_id, identifier, ip_address, success) VALUES ($1, $2, $3, $4)',
+            [attempt.tenant_id, attempt.identifier.toLowerCase(), attempt.ip_address, attempt.success]
+        );
+    } catch (err: any) {
+        console.error('[DB recordLoginAttempt] Error recording login attempt:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Counts failed login attempts inside the rate limit window, both for the identifier
+ * within the tenant and for the IP address across all tenants.
+ */
+export async function countRecentFailedLoginAttempts(tenant_id: string, identifier: string, ip_address: string | null, windowMinutes: number): Promise<{ byIdentifier: number; byIp: number }> {
+    // The per-IP count deliberately spans all tenants, so it runs outside row-level security
+    const client = await withSystemScope('login rate limit counts failed attempts per IP across tenants', () => pool.connect());
+    try {
+        const res = await client.query(
+            `SELECT
+                (SELECT COUNT(*) FROM login_attempts
+                  WHERE tenant_id = $1 AND identifier = $2 AND success = FALSE
+                    AND attempted_at > NOW() - make_interval(mins => $4)) AS by_identifier,
+                (SELECT COUNT(*) FROM login_attempts
+                  WHERE $3::varchar IS NOT NULL AND ip_address = $3 AND success = FALSE
+                    AND attempted_at > NOW() - make_interval(mins => $4)) AS by_ip`,
+            [tenant_id, identifier.toLowerCase(), ip_address, windowMinutes]
+        );
+        return {
+            byIdentifier: parseInt(res.rows[0].by_identifier, 10),
+            byIp: parseInt(res.rows[0].by_ip, 10),
+        };
+    } catch (err: any) {
+        console.error('[DB countRecentFailedLoginAttempts] Error counting login attempts:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Increments the user's failed attempt counter and locks the account once the threshold is reached.
+ * `justLocked` is true only for the attempt that caused the lock, so callers notify admins once.
+ */
+export async function registerFailedLogin(user_id: string, tenant_id: string, policy: LockoutPolicy): Promise<{ failedAttempts: number; accountLocked: boolean; justLocked: boolean; lockedUntil: string | null }> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `UPDATE users SET
+                failed_attempts = failed_attempts + 1,
+                account_locked = (failed_attempts + 1 >= $3),
+                locked_until = CASE
+                    WHEN failed_attempts + 1 >= $3 AND $4 > 0 THEN NOW() + make_interval(mins => $4)
+                    ELSE NULL
+                END
+             WHERE user_id = $1 AND tenant_id = $2 AND account_locked = FALSE
+             RETURNING failed_attempts, account_locked, locked_until`,
+            [user_id, tenant_id, policy.maxFailedAttempts, policy.lockoutDurationMinutes]
+        );
+        if (res.rows.length === 0) {
+            // Already locked (concurrent attempt); nothing changed.
+            return { failedAttempts: policy.maxFailedAttempts, accountLocked: true, justLocked: false, lockedUntil: null };
+        }
+        const row = res.rows[0];
+        return {
+            failedAttempts: row.failed_attempts,
+            accountLocked: row.account_locked,
+            justLocked: row.account_locked,
+            lockedUntil: row.locked_until ? new Date(row.locked_until).toISOString() : null,
+        };
+    } catch (err: any) {
+        console.error(`[DB registerFailedLogin] Error updating failed attempts for user ${user_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** Clears the lock and failed attempt counter; used on successful login, expired cooldowns and admin unlocks. */
+export async function resetFailedLogins(user_id: string, tenant_id: string, markLogin = false): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `UPDATE users SET failed_attempts = 0, account_locked = FALSE, locked_until = NULL${markLogin ? ', last_login = NOW()' : ''}
+             WHERE user_id = $1 AND tenant_id = $2`,
+            [user_id, tenant_id]
+        );
+        return res.rowCount !== null && res.rowCount > 0;
+    } catch (err: any) {
+        console.error(`[DB resetFailedLogins] Error resetting failed attempts for user ${user_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getAccountLockStatus(user_id: string, tenant_id: string): Promise<AccountLockStatus | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            'SELECT user_id, failed_attempts, account_locked, locked_until FROM users WHERE user_id = $1 AND tenant_id = $2',
+            [user_id, tenant_id]
+        );
+        if (res.rows.length === 0) return undefined;
+        const row = res.rows[0];
+        return {
+            userId: row.user_id,
+            accountLocked: row.account_locked,
+            failedAttempts: row.failed_attempts,
+            lockedUntil: row.locked_until ? new Date(row.locked_until).toISOString() : null,
+        };
+    } catch (err: any) {
+        console.error(`[DB getAccountLockStatus] Error fetching lock status for user ${user_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getTenantAdminUsers(tenant_id: string): Promise<User[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            "SELECT * FROM users WHERE tenant_id = $1 AND role = 'Admin' AND is_active = TRUE",
+            [tenant_id]
+        );
+        return res.rows.map(mapRowToUser);
+    } catch (err: any) {
+        console.error(`[DB getTenantAdminUsers] Error fetching admins for tenant ${tenant_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+// --- Multi-Factor Authentication ---
+
+export interface UserMfaRecord {
+    userId: string;
+    tenantId: string;
+    totpSecretEncrypted: string;
+    enabledAt: string | null;
+    lastUsedStep: number | null;
+}
+
+function mapRowToUserMfa(row: any): UserMfaRecord {
+    return {
+        userId: row.user_id,
+        tenantId: row.tenant_id,
+        totpSecretEncrypted: row.totp_secret_encrypted,
+        enabledAt: row.enabled_at ? new Date(row.enabled_at).toISOString() : null,
+        lastUsedStep: row.last_used_step !== null && row.last_used_step !== undefined ? Number(row.last_used_step) : null,
+    };
+}
+
+export async function getUserMfa(user_id: string, tenant_id: string): Promise<UserMfaRecord | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query('SELECT * FROM user_mfa WHERE user_id = $1 AND tenant_id = $2', [user_id, tenant_id]);
+        return res.rows.length > 0 ? mapRowToUserMfa(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error(`[DB getUserMfa] Error fetching MFA record for user ${user_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "user_mfa" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Stores a new, not yet confirmed TOTP secret. An already enabled secret is never overwritten.
+ * @returns false if the user already has MFA enabled.
+ */
+export async function savePendingUserMfa(user_id: string, tenant_id: string, totpSecretEncrypted: string): Promise<boolean> {
+    const client = await pool.connect();
+    console.log(`[DB savePendingUserMfa] Saving pending MFA secret for user ${user_id} in tenant ${tenant_id}`);
+    try {
+        const res = await client.query(
+            `INSERT INTO user_mfa (user_id, tenant_id, totp_secret_encrypted)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (user_id) DO UPDATE SET totp_secret_encrypted = EXCLUDED.totp_secret_encrypted, last_used_step = NULL
+             WHERE user_mfa.enabled_at IS NULL AND user_mfa.tenant_id = EXCLUDED.tenant_id
+             RETURNING user_id`,
+            [user_id, tenant_id, totpSecretEncrypted]
+        );
+        return res.rows.length > 0;
+    } catch (err: any) {
+        console.error(`[DB savePendingUserMfa] Error saving MFA secret for user ${user_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+async function insertRecoveryCodes(conn: any, user_id: string, tenant_id: string, codeHashes: string[]): Promise<void> {
+    await conn.query('DELETE FROM user_mfa_recovery_codes WHERE user_id = $1 AND tenant_id = $2', [user_id, tenant_id]);
+    for (const codeHash of codeHashes) {
+        await conn.query(
+            'INSERT INTO user_mfa_recovery_codes (tenant_id, user_id, code_hash) VALUES ($1, $2, $3)',
+            [tenant_id, user_id, codeHash]
+        );
+    }
+}
+
+export async function enableUserMfa(user_id: string, tenant_id: string, usedStep: number, recoveryCodeHashes: string[]): Promise<boolean> {
+    const client = await pool.connect();
+    console.log(`[DB enableUserMfa] Enabling MFA for user ${user_id} in tenant ${tenant_id}`);
+    try {
+        await client.query('BEGIN');
+        const res = await client.query(
+            'UPDATE user_mfa SET enabled_at = NOW(), last_used_step = $3 WHERE user_id = $1 AND tenant_id = $2 AND enabled_at IS NULL',
+            [user_id, tenant_id, usedStep]
+        );
+        if (!res.rowCount) {
+            await client.query('ROLLBACK');
+            return false;
+        }
+        await insertRecoveryCodes(client, user_id, tenant_id, recoveryCodeHashes);
+        await client.query('COMMIT');
+        return true;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB enableUserMfa] Error enabling MFA for user ${user_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** Records the accepted TOTP step; returns false if this or a later step was already used (replay). */
+export async function markTotpStepUsed(user_id: string, tenant_id: string, step: number): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `UPDATE user_mfa SET last_used_step = $3
+             WHERE user_id = $1 AND tenant_id = $2 AND (last_used_step IS NULL OR last_used_step < $3)`,
+            [user_id, tenant_id, step]
+        );
+        return res.rowCount !== null && res.rowCount > 0;
+    } catch (err: any) {
+        console.error(`[DB markTotpStepUsed] Error updating TOTP step for user ${user_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function consumeRecoveryCode(user_id: string, tenant_id: string, code_hash: string): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `UPDATE user_mfa_recovery_codes SET used_at = NOW()
+             WHERE user_id = $1 AND tenant_id = $2 AND code_hash = $3 AND used_at IS NULL`,
+            [user_id, tenant_id, code_hash]
+        );
+        return res.rowCount !== null && res.rowCount > 0;
+    } catch (err: any) {
+        console.error(`[DB consumeRecoveryCode] Error consuming recovery code for user ${user_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function replaceRecoveryCodes(user_id: string, tenant_id: string, codeHashes: string[]): Promise<void> {
+    const client = await pool.connect();
+    console.log(`[DB replaceRecoveryCodes] Regenerating recovery codes for user ${user_id}`);
+    try {
+        await client.query('BEGIN');
+        await insertRecoveryCodes(client, user_id, tenant_id, codeHashes);
+        await client.query('COMMIT');
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB replaceRecoveryCodes] Error replacing recovery codes for user ${user_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function countRemainingRecoveryCodes(user_id: string, tenant_id: string): Promise<number> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            'SELECT COUNT(*) FROM user_mfa_recovery_codes WHERE user_id = $1 AND tenant_id = $2 AND used_at IS NULL',
+            [user_id, tenant_id]
+        );
+        return parseInt(res.rows[0].count, 10);
+    } catch (err: any) {
+        console.error(`[DB countRemainingRecoveryCodes] Error counting recovery codes for user ${user_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function deleteUserMfa(user_id: string, tenant_id: string): Promise<boolean> {
+    const client = await pool.connect();
+    console.log(`[DB deleteUserMfa] Removing MFA for user ${user_id} in tenant ${tenant_id}`);
+    try {
+        await client.query('BEGIN');
+        await client.query('DELETE FROM user_mfa_recovery_codes WHERE user_id = $1 AND tenant_id = $2', [user_id, tenant_id]);
+        const res = await client.query('DELETE FROM user_mfa WHERE user_id = $1 AND tenant_id = $2', [user_id, tenant_id]);
+        await client.query('COMMIT');
+        return res.rowCount !== null && res.rowCount > 0;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB deleteUserMfa] Error removing MFA for user ${user_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+// --- SAML Message IDs ---
+
+export type SamlMessageKind = 'request' | 'assertion';
+
+/**
+ * Records a SAML message ID until it expires. Outstanding AuthnRequest IDs are kept to validate
+ * `InResponseTo`; consumed assertion IDs are kept to reject replays.
+ * @returns false when the ID is already recorded (for assertions: a replay).
+ */
+export async function saveSamlMessageId(tenant_id: string, kind: SamlMessageKind, message_id: string, expires_at: Date): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+        await client.query('DELETE FROM saml_message_ids WHERE expires_at < NOW()');
+        const res = await client.query(
+            `INSERT INTO saml_message_ids (tenant_id, kind, message_id, expires_at)
+             VALUES ($1, $2, $3, $4)
+             ON CONFLICT (tenant_id, kind, message_id) DO NOTHING`,
+            [tenant_id, kind, message_id, expires_at]
+        );
+        return (res.rowCount ?? 0) > 0;
+    } catch (err: any) {
+        console.error(`[DB saveSamlMessageId] Error saving ${kind} ID for tenant ${tenant_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "saml_message_ids" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * @returns The time the ID was recorded, or undefined when it is unknown or expired.
+ */
+export async function getSamlMessageId(tenant_id: string, kind: SamlMessageKind, message_id: string): Promise<string | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            'SELECT created_at FROM saml_message_ids WHERE tenant_id = $1 AND kind = $2 AND message_id = $3 AND expires_at > NOW()',
+            [tenant_id, kind, message_id]
+        );
+        return res.rows[0] ? new Date(res.rows[0].created_at).toISOString() : undefined;
+    } catch (err: any) {
+        console.error(`[DB getSamlMessageId] Error fetching ${kind} ID for tenant ${tenant_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function deleteSamlMessageId(tenant_id: string, kind: SamlMessageKind, message_id: string): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            'DELETE FROM saml_message_ids WHERE tenant_id = $1 AND kind = $2 AND message_id = $3',
+            [tenant_id, kind, message_id]
+        );
+        return (res.rowCount ?? 0) > 0;
+    } catch (err: any) {
+        console.error(`[DB deleteSamlMessageId] Error deleting ${kind} ID for tenant ${tenant_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
@@ -0,0 +1,180 @@
+// src/modules/auth/lib/oidc.test.ts
+// OpenID Connect login against the mock provider in src/test/mock-oidc-provider.ts: PKCE, ID token checks
+// (signature, nonce, iss, aud, exp), the UserInfo fallback and just-in-time provisioning.
+import { cleanUpTestDatabase, createTestTenant, prepareTestDatabase, testDatabaseSkipReason } from '@/test/database'; // Must come first: points db.ts at the test database
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startMockOidcProvider, type MockOidcLogin, type MockOidcProvider } from '@/test/mock-oidc-provider';
+import {
+  addUserInfoClaims,
+  buildAuthorizationUrl,
+  discoverOidcProvider,
+  exchangeAuthorizationCode,
+  generateOidcLoginSecrets,
+  isAllowedIssuerUrl,
+  verifyIdToken,
+  type OidcProviderMetadata,
+} from '@/modules/auth/lib/oidc';
+import { findOrProvisionSsoUser } from '@/modules/auth/lib/sso-provisioning';
+import { getTenantById } from '@/modules/auth/lib/db';
+import { getEmployeeByUserId } from '@/modules/employees/lib/db';
+import { withTenantScope } from '@/lib/tenant-context';
+
+const REDIRECT_URI = 'https://acme.example.com/api/auth/oidc/callback';
+
+let provider: MockOidcProvider;
+let metadata: OidcProviderMetadata;
+
+/** Runs the authorization code flow up to the token response, as beginSsoLoginAction and completeSsoLoginAction do. */
+async function signIn(login: MockOidcLogin, options: { codeVerifier?: string } = {}) {
+  const secrets = generateOidcLoginSecrets();
+  const authorizationUrl = buildAuthorizationUrl(metadata, {
+    clientId: provider.clientId,
+    redirectUri: REDIRECT_URI,
+    scopes: 'openid email profile',
+    ...secrets,
+  });
+  const { code, state } = await provider.authorize(authorizationUrl, login);
+  assert.equal(state, secrets.state);
+  const tokens = await exchangeAuthorizationCode(
+    metadata,
+    { issuer: provider.issuer, clientId: provider.clientId, clientSecret: provider.clientSecret },
+    { code, redirectUri: REDIRECT_URI, codeVerifier: options.codeVerifier ?? secrets.codeVerifier }
+  );
+  return { ...tokens, nonce: secrets.nonce };
+}
+
+async function signInAndVerify(login: MockOidcLogin) {
+  const { idToken, accessToken, nonce } = await signIn(login);
+  const claims = await verifyIdToken(idToken, metadata, { clientId: provider.clientId, nonce });
+  return addUserInfoClaims(metadata, claims, accessToken);
+}
+
+before(async () => {
+  provider = await startMockOidcProvider();
+  metadata = await discoverOidcProvider(provider.issuer);
+});
+
+after(async () => {
+  await provider.close();
+});
+
+describe('OIDC authorization code flow', () => {
+  test('sends an S256 code challenge and gets a verified ID token for the code', async () => {
+    const secrets = generateOidcLoginSecrets();
+    const url = new URL(buildAuthorizationUrl(metadata, { clientId: provider.clientId, redirectUri: REDIRECT_URI, scopes: 'openid', ...secrets }));
+    assert.equal(url.searchParams.get('code_challenge_method'), 'S256');
+    assert.notEqual(url.searchParams.get('code_challenge'), secrets.codeVerifier);
+
+    const claims = await signInAndVerify({ user: { sub: 'user-1', email: 'ada@example.com', name: 'Ada Lovelace' } });
+    assert.equal(claims.iss, provider.issuer);
+    assert.equal(claims.sub, 'user-1');
+    assert.equal(claims.email, 'ada@example.com');
+  });
+
+  test('the code cannot be redeemed without its PKCE verifier', async () => {
+    await assert.rejects(
+      signIn({ user: { sub: 'user-1', email: 'ada@example.com' } }, { codeVerifier: generateOidcLoginSecrets().codeVerifier }),
+      /PKCE verification failed/
+    );
+  });
+
+  test('rejects an ID token whose nonce is not the one sent with the login', async () => {
+    const { idToken } = await signIn({ user: { sub: 'user-1', email: 'ada@example.com' } });
+    await assert.rejects(
+      verifyIdToken(idToken, metadata, { clientId: provider.clientId, nonce: generateOidcLoginSecrets().nonce }),
+      /nonce does not match/
+    );
+    await assert.rejects(
+      signInAndVerify({ user: { sub: 'user-1', email: 'ada@example.com' }, idTokenClaims: { nonce: undefined } }),
+      /nonce does not match/
+    );
+  });
+
+  const now = Math.floor(Date.now() / 1000);
+  const invalidClaims: [string, Record<string, unknown>, RegExp][] = [
+    ['another issuer', { iss: 'https://idp.attacker.example' }, /issuer .* does not match/],
+    ['another audience', { aud: 'another-client' }, /not issued for this client/],
+    ['another authorized party', { aud: ['another-client', 'syntaxhive-test'], azp: 'another-client' }, /authorized party/],
+    ['an expiry in the past', { exp: now - 3600, iat: now - 7200 }, /expired/],
+    ['an issue time in the future', { iat: now + 3600 }, /issued in the future/],
+  ];
+  for (const [description, idTokenClaims, error] of invalidClaims) {
+    test(`rejects an ID token with ${description}`, async () => {
+      await assert.rejects(signInAndVerify({ user: { sub: 'user-1', email: 'ada@example.com' }, idTokenClaims }), error);
+    });
+  }
+
+  test('rejects an ID token whose claims were changed after signing', async () => {
+    const { idToken, nonce } = await signIn({ user: { sub: 'user-1', email: 'ada@example.com' } });
+    const [header, payload, signature] = idToken.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    const forged = Buffer.from(JSON.stringify({ ...claims, email: 'admin@example.com' })).toString('base64url');
+    await assert.rejects(
+      verifyIdToken(`${header}.${forged}.${signature}`, metadata, { clientId: provider.clientId, nonce }),
+      /signature is invalid/
+    );
+  });
+
+  test('takes the email from UserInfo when the ID token has none', async () => {
+    const claims = await signInAndVerify({ user: { sub: 'user-2', email: 'grace@example.com' }, idTokenClaims: { email: undefined } });
+    assert.equal(claims.email, 'grace@example.com');
+
+    await assert.rejects(
+      signInAndVerify({ user: { sub: 'user-2', email: 'grace@example.com' }, idTokenClaims: { email: undefined }, userInfoClaims: { sub: 'someone-else' } }),
+      /UserInfo subject does not match/
+    );
+  });
+});
+
+describe('OIDC issuer URL', () => {
+  test('requires HTTPS except for loopback hosts outside production', () => {
+    assert.equal(isAllowedIssuerUrl('https://login.example.com', 'production'), true);
+    assert.equal(isAllowedIssuerUrl('http://login.example.com', 'development'), false);
+    assert.equal(isAllowedIssuerUrl('http://localhost:8080', 'development'), true);
+    assert.equal(isAllowedIssuerUrl('http://127.0.0.1:8080', 'production'), false);
+    assert.equal(isAllowedIssuerUrl('http://[::1]:8080', 'production'), false);
+  });
+});
+
+describe('OIDC just-in-time provisioning', { skip: testDatabaseSkipReason }, () => {
+  let tenantId: string;
+
+  before(async () => {
+    await prepareTestDatabase();
+    tenantId = await createTestTenant('oidc');
+  });
+
+  after(async () => {
+    await cleanUpTestDatabase([tenantId].filter(Boolean));
+  });
+
+  const provision = (email: string, jitProvisioning: boolean) => withTenantScope(tenantId, async () => {
+    const tenant = (await getTenantById(tenantId))!;
+    return findOrProvisionSsoUser(tenant, { email, firstName: 'Ada', lastName: 'Lovelace' }, { jitProvisioning, syncProfile: false, logPrefix: '[oidc.test]' });
+  });
+
+  test('creates an active Employee account with an employee record on first login', async () => {
+    const claims = await signInAndVerify({ user: { sub: 'user-3', email: 'ada.jit@example.com' } });
+    const { user, error } = await provision(claims.email!, true);
+    assert.equal(error, undefined);
+    assert.ok(user);
+    assert.equal(user.email, 'ada.jit@example.com');
+    assert.equal(user.role, 'Employee');
+    assert.equal(user.is_active, true);
+
+    const employee = await withTenantScope(tenantId, () => getEmployeeByUserId(user.user_id, tenantId));
+    assert.equal(employee?.id, user.employee_id);
+    assert.equal(employee?.status, 'Active');
+    assert.equal(employee?.first_name, 'Ada');
+
+    const again = await provision(claims.email!, true);
+    assert.equal(again.user?.user_id, user.user_id);
+  });
+
+  test('does not create accounts when provisioning is off', async () => {
+    const { user, error } = await provision('unknown@example.com', false);
+    assert.equal(user, undefined);
+    assert.match(error!, /No account exists for unknown@example.com/);
+  });
+});
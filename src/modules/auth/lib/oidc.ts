@@ -0,0 +1,282 @@
+// src/modules/auth/lib/oidc.ts
+// OpenID Connect relying party: discovery, authorization code flow with PKCE (S256)
+// and ID token validation (RS256/PS256/ES256 via the provider's JWKS), with UserInfo as a fallback for profile claims.
+import crypto from 'crypto';
+
+const HTTP_TIMEOUT_MS = 10_000;
+const METADATA_CACHE_TTL_MS = 10 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface OidcProviderMetadata {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+    userinfo_endpoint?: string;
+    token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface OidcIdTokenClaims {
+    iss: string;
+    sub: string;
+    aud: string | string[];
+    exp: number;
+    iat: number;
+    nonce?: string;
+    azp?: string;
+    email?: string;
+    email_verified?: boolean | string;
+    name?: string;
+    given_name?: string;
+    family_name?: string;
+    preferred_username?: string;
+}
+
+interface OidcClientConfig {
+    issuer: string;
+    clientId: string;
+    clientSecret: string;
+}
+
+const metadataCache = new Map<string, { metadata: OidcProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: any[]; fetchedAt: number }>();
+
+function base64UrlDecode(value: string): Buffer {
+    return Buffer.from(value, 'base64url');
+}
+
+/**
+ * Checks that an issuer URL is acceptable. HTTPS is required, except for loopback hosts outside
+ * production so a local mock provider can be used during development. In production a loopback issuer
+ * would let a tenant admin make the server probe its own internal services.
+ */
+export function isAllowedIssuerUrl(issuer: string, nodeEnv: string | undefined = process.env.NODE_ENV): boolean {
+    try {
+        const url = new URL(issuer);
+        if (url.protocol === 'https:') return true;
+        return url.protocol === 'http:' && nodeEnv !== 'production' && ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+    } catch {
+        return false;
+    }
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+    const response = await fetch(url, { ...init, cache: 'no-store', signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+    const text = await response.text();
+    let body: any;
+    try {
+        body = text ? JSON.parse(text) : {};
+    } catch {
+        throw new Error(`Identity provider returned a non-JSON response (HTTP ${response.status}).`);
+    }
+    if (!response.ok) {
+        const detail = body?.error_description || body?.error || `HTTP ${response.status}`;
+        throw new Error(`Identity provider request failed: ${detail}`);
+    }
+    return body;
+}
+
+/**
+ * Loads the provider metadata from `<issuer>/.well-known/openid-configuration` (cached for 10 minutes).
+ * @param issuer The issuer identifier configured for the tenant.
+ * @returns The provider metadata; its `issuer` must match the configured issuer exactly.
+ */
+export async function discoverOidcProvider(issuer: string, forceRefresh = false): Promise<OidcProviderMetadata> {
+    const normalizedIssuer = issuer.replace(/\/+$/, '');
+    const cached = metadataCache.get(normalizedIssuer);
+    if (cached && !forceRefresh && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS) {
+        return cached.metadata;
+    }
+    const metadata = await fetchJson(`${normalizedIssuer}/.well-known/openid-configuration`) as OidcProviderMetadata;
+    if (!metadata.issuer || metadata.issuer.replace(/\/+$/, '') !== normalizedIssuer) {
+        throw new Error(`Issuer mismatch: discovery document is for "${metadata.issuer}".`);
+    }
+    if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+        throw new Error("Discovery document is missing the authorization, token or JWKS endpoint.");
+    }
+    metadataCache.set(normalizedIssuer, { metadata, fetchedAt: Date.now() });
+    return metadata;
+}
+
+/**
+ * Generates the per-login random values: `state` (CSRF), `nonce` (ID token replay) and the PKCE verifier.
+ */
+export function generateOidcLoginSecrets(): { state: string; nonce: string; codeVerifier: string } {
+    return {
+        state: crypto.randomBytes(32).toString('base64url'),
+        nonce: crypto.randomBytes(32).toString('base64url'),
+        codeVerifier: crypto.randomBytes(48).toString('base64url'), // 64 chars, within RFC 7636's 43-128
+    };
+}
+
+export function buildAuthorizationUrl(
+    metadata: OidcProviderMetadata,
+    params: { clientId: string; redirectUri: string; scopes: string; state: string; nonce: string; codeVerifier: string; loginHint?: string }
+): string {
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', params.clientId);
+    url.searchParams.set('redirect_uri', params.redirectUri);
+    url.searchParams.set('scope', params.scopes);
+    url.searchParams.set('state', params.state);
+    url.searchParams.set('nonce', params.nonce);
+    url.searchParams.set('code_challenge', crypto.createHash('sha256').update(params.codeVerifier).digest('base64url'));
+    url.searchParams.set('code_challenge_method', 'S256');
+    if (params.loginHint) url.searchParams.set('login_hint', params.loginHint);
+    return url.toString();
+}
+
+/**
+ * Exchanges an authorization code for tokens at the token endpoint.
+ * Uses client_secret_basic unless the provider only advertises client_secret_post.
+ * @returns The raw (not yet validated) ID token.
+ */
+export async function exchangeAuthorizationCode(
+    metadata: OidcProviderMetadata,
+    client: OidcClientConfig,
+    params: { code: string; redirectUri: string; codeVerifier: string }
+): Promise<{ idToken: string; accessToken?: string }> {
+    const body = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: params.code,
+        redirect_uri: params.redirectUri,
+        code_verifier: params.codeVerifier,
+    });
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+    };
+    const supportedAuthMethods = metadata.token_endpoint_auth_methods_supported;
+    if (supportedAuthMethods && !supportedAuthMethods.includes('client_secret_basic') && supportedAuthMethods.includes('client_secret_post')) {
+        body.set('client_id', client.clientId);
+        body.set('client_secret', client.clientSecret);
+    } else {
+        const credentials = `${encodeURIComponent(client.clientId)}:${encodeURIComponent(client.clientSecret)}`;
+        headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const tokens = await fetchJson(metadata.token_endpoint, { method: 'POST', headers, body: body.toString() });
+    if (typeof tokens.id_token !== 'string') {
+        throw new Error("Token response did not contain an ID token. Make sure the 'openid' scope is requested.");
+    }
+    return { idToken: tokens.id_token, accessToken: tokens.access_token };
+}
+
+async function getSigningKey(metadata: OidcProviderMetadata, kid: string | undefined, alg: string): Promise<crypto.KeyObject> {
+    const findKey = (keys: any[]) => keys.find(k =>
+        (!kid || k.kid === kid) && (!k.use || k.use === 'sig') && (!k.alg || k.alg === alg)
+    );
+    let cached = jwksCache.get(metadata.jwks_uri);
+    let jwk = cached && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS ? findKey(cached.keys) : undefined;
+    if (!jwk) {
+        // Unknown kid usually means the provider rotated its keys: refetch once.
+        const jwks = await fetchJson(metadata.jwks_uri);
+        cached = { keys: Array.isArray(jwks.keys) ? jwks.keys : [], fetchedAt: Date.now() };
+        jwksCache.set(metadata.jwks_uri, cached);
+        jwk = findKey(cached.keys);
+    }
+    if (!jwk) {
+        throw new Error(`No signing key found for kid "${kid}".`);
+    }
+    return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+/**
+ * Validates an ID token: signature against the provider's JWKS, issuer, audience,
+ * expiry and the nonce sent with the authorization request.
+ * @returns The verified claims.
+ */
+export async function verifyIdToken(
+    idToken: string,
+    metadata: OidcProviderMetadata,
+    expected: { clientId: string; nonce: string }
+): Promise<OidcIdTokenClaims> {
+    const parts = idToken.split('.');
+    if (parts.length !== 3) {
+        throw new Error("ID token is not a compact JWS.");
+    }
+    const [headerPart, payloadPart, signaturePart] = parts;
+    const header = JSON.parse(base64UrlDecode(headerPart).toString('utf8'));
+    const signingInput = Buffer.from(`${headerPart}.${payloadPart}`);
+    const signature = base64UrlDecode(signaturePart);
+
+    let signatureValid: boolean;
+    switch (header.alg) {
+        case 'RS256':
+            signatureValid = crypto.verify('sha256', signingInput, await getSigningKey(metadata, header.kid, header.alg), signature);
+            break;
+        case 'PS256':
+            signatureValid = crypto.verify('sha256', signingInput, {
+                key: await getSigningKey(metadata, header.kid, header.alg),
+                padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+                saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+            }, signature);
+            break;
+        case 'ES256':
+            signatureValid = crypto.verify('sha256', signingInput, {
+                key: await getSigningKey(metadata, header.kid, header.alg),
+                dsaEncoding: 'ieee-p1363',
+            }, signature);
+            break;
+        default:
+            throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+    }
+    if (!signatureValid) {
+        throw new Error("ID token signature is invalid.");
+    }
+
+    const claims = JSON.parse(base64UrlDecode(payloadPart).toString('utf8')) as OidcIdTokenClaims;
+    const now = Math.floor(Date.now() / 1000);
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+    if (claims.iss !== metadata.issuer) {
+        throw new Error(`ID token issuer "${claims.iss}" does not match "${metadata.issuer}".`);
+    }
+    if (!audiences.includes(expected.clientId)) {
+        throw new Error("ID token was not issued for this client.");
+    }
+    if (audiences.length > 1 && claims.azp && claims.azp !== expected.clientId) {
+        throw new Error("ID token authorized party does not match this client.");
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+        throw new Error("ID token has expired.");
+    }
+    if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) {
+        throw new Error("ID token was issued in the future.");
+    }
+    if (!claims.nonce || claims.nonce !== expected.nonce) {
+        throw new Error("ID token nonce does not match the login request.");
+    }
+    if (!claims.sub) {
+        throw new Error("ID token has no subject.");
+    }
+    return claims;
+}
+
+const USERINFO_PROFILE_CLAIMS = ['email', 'email_verified', 'name', 'given_name', 'family_name', 'preferred_username'] as const;
+
+/**
+ * Fills in the profile claims from the UserInfo endpoint when the ID token carries no email
+ * (some providers only release it there). Claims already in the ID token are kept.
+ * @throws Error when the UserInfo `sub` differs from the ID token's.
+ */
+export async function addUserInfoClaims(
+    metadata: OidcProviderMetadata,
+    claims: OidcIdTokenClaims,
+    accessToken: string | undefined
+): Promise<OidcIdTokenClaims> {
+    if (claims.email || !metadata.userinfo_endpoint || !accessToken) {
+        return claims;
+    }
+    const userInfo = await fetchJson(metadata.userinfo_endpoint, {
+        headers: { 'Authorization': `Bearer ${accessToken}`, 'Accept': 'application/json' },
+    });
+    if (userInfo.sub !== claims.sub) {
+        throw new Error("UserInfo subject does not match the ID token.");
+    }
+    const merged: Record<string, unknown> = { ...claims };
+    for (const claim of USERINFO_PROFILE_CLAIMS) {
+        if (merged[claim] === undefined && userInfo[claim] !== undefined) merged[claim] = userInfo[claim];
+    }
+    return merged as unknown as OidcIdTokenClaims;
+}
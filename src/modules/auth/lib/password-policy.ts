@@ -0,0 +1,76 @@
+// src/modules/auth/lib/password-policy.ts
+// Checks candidate passwords against a tenant's password policy. Reuse history needs the stored
+// hashes and is checked separately (see isReusedPassword), since bcrypt comparisons are slow.
+import bcrypt from 'bcrypt';
+import type { PasswordPolicy, User } from '@/modules/auth/types';
+import { COMMON_PASSWORDS } from '@/modules/auth/lib/common-passwords';
+
+const LEET_SUBSTITUTIONS: Record<string, string> = { '@': 'a', '4': 'a', '3': 'e', '1': 'i', '!': 'i', '0': 'o', '$': 's', '5': 's', '7': 't' };
+
+/**
+ * True when the password, ignoring case, trailing digits/symbols and common letter substitutions,
+ * is on the bundled breached/common list (so "Password123!" and "P@ssw0rd" are both caught).
+ */
+export function isCommonPassword(password: string): boolean {
+    const lower = password.toLowerCase();
+    const stripped = lower.replace(/[\d\W_]+$/, '');
+    const deLeeted = lower.replace(/[@43!10$57]/g, ch => LEET_SUBSTITUTIONS[ch]);
+    return [lower, stripped, deLeeted, deLeeted.replace(/[\d\W_]+$/, '')]
+        .some(candidate => candidate.length > 0 && COMMON_PASSWORDS.has(candidate));
+}
+
+/**
+ * Validates a new password against the policy.
+ * @param identity The account the password is for; passwords containing its username or email name are rejected.
+ * @returns One message per unmet rule, empty when the password is acceptable.
+ */
+export function checkPasswordAgainstPolicy(password: string, policy: PasswordPolicy, identity?: { username?: string | null; email?: string | null }): string[] {
+    const problems: string[] = [];
+    if (password.length < policy.minLength) problems.push(`Password must be at least ${policy.minLength} characters.`);
+    if (password.length > 128) problems.push("Password cannot exceed 128 characters.");
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) problems.push("Password must contain an uppercase letter.");
+    if (policy.requireLowercase && !/[a-z]/.test(password)) problems.push("Password must contain a lowercase letter.");
+    if (policy.requireNumber && !/\d/.test(password)) problems.push("Password must contain a number.");
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) problems.push("Password must contain a symbol.");
+    if (policy.blockCommonPasswords && isCommonPassword(password)) {
+        problems.push("This password is too common or has appeared in a data breach. Choose a different one.");
+    }
+    const lower = password.toLowerCase();
+    const personalParts = [identity?.username, identity?.email?.split('@')[0]]
+        .filter((part): part is string => !!part && part.length >= 3)
+        .map(part => part.toLowerCase());
+    if (personalParts.some(part => lower.includes(part))) {
+        problems.push("Password cannot contain your username or email address.");
+    }
+    return problems;
+}
+
+/** Human-readable summary of the policy, for hints next to password fields. */
+export function describePasswordPolicy(policy: PasswordPolicy): string {
+    const classes = [
+        policy.requireUppercase && 'an uppercase letter',
+        policy.requireLowercase && 'a lowercase letter',
+        policy.requireNumber && 'a number',
+        policy.requireSymbol && 'a symbol',
+    ].filter(Boolean) as string[];
+    let text = `At least ${policy.minLength} characters`;
+    if (classes.length > 0) text += `, including ${classes.length > 1 ? `${classes.slice(0, -1).join(', ')} and ${classes[classes.length - 1]}` : classes[0]}`;
+    text += '.';
+    if (policy.historyCount > 0) text += ` Cannot match your last ${policy.historyCount} password(s).`;
+    return text;
+}
+
+/** True when the password is older than the policy allows. Accounts without a change date count from creation. */
+export function isPasswordExpired(user: Pick<User, 'password_changed_at' | 'created_at'>, policy: PasswordPolicy, now = new Date()): boolean {
+    if (policy.maxAgeDays <= 0) return false;
+    const changedAt = new Date(user.password_changed_at || user.created_at);
+    return now.getTime() - changedAt.getTime() > policy.maxAgeDays * 24 * 60 * 60 * 1000;
+}
+
+/** True when the password matches one of the given previous hashes (newest first). */
+export async function isReusedPassword(password: string, previousHashes: string[]): Promise<boolean> {
+    for (const hash of previousHashes) {
+        if (await bcrypt.compare(password, hash)) return true;
+    }
+    return false;
+}
@@ -0,0 +1,149 @@
+// src/modules/auth/lib/saml.ts
+// SAML 2.0 service provider: AuthnRequests (HTTP-Redirect binding), validation of signed
+// assertions posted to the ACS (HTTP-POST binding) and SP metadata, built on @node-saml/node-saml.
+import crypto from 'crypto';
+import { SAML, ValidateInResponseTo, generateServiceProviderMetadata, type CacheProvider, type Profile } from '@node-saml/node-saml';
+import type { SamlConfig, SamlAttributeMapping } from '@/modules/auth/types';
+import { saveSamlMessageId, getSamlMessageId, deleteSamlMessageId } from '@/modules/auth/lib/db';
+
+const REQUEST_ID_TTL_MS = 10 * 60 * 1000;
+const MAX_ASSERTION_AGE_MS = 10 * 60 * 1000;
+const CLOCK_SKEW_MS = 60 * 1000;
+const NAMEID_FORMAT_EMAIL = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+
+export interface SamlServiceProviderUrls {
+    entityId: string;
+    acsUrl: string;
+}
+
+export interface SamlMappedProfile {
+    nameId: string;
+    email?: string;
+    firstName?: string;
+    lastName?: string;
+    department?: string;
+    position?: string;
+    phone?: string;
+}
+
+/**
+ * Splits the configured IdP certificate field into individual PEM certificates (several are
+ * allowed during IdP key rollover). A bare base64 body without PEM armor is accepted too.
+ * @throws When any certificate cannot be parsed.
+ */
+export function parseIdpCertificates(certificateText: string): string[] {
+    const blocks = certificateText.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g)
+        ?? [`-----BEGIN CERTIFICATE-----\n${certificateText.replace(/\s+/g, '')}\n-----END CERTIFICATE-----`];
+    return blocks.map(pem => {
+        try {
+            new crypto.X509Certificate(pem);
+        } catch {
+            throw new Error("IdP signing certificate is not a valid X.509 certificate.");
+        }
+        return pem;
+    });
+}
+
+// Outstanding AuthnRequest IDs live in the database so any app instance can finish an SP-initiated login.
+function createRequestIdCache(tenantId: string): CacheProvider {
+    return {
+        async saveAsync(key, value) {
+            await saveSamlMessageId(tenantId, 'request', key, new Date(Date.now() + REQUEST_ID_TTL_MS));
+            return { value, createdAt: Date.now() };
+        },
+        async getAsync(key) {
+            return (await getSamlMessageId(tenantId, 'request', key)) ?? null;
+        },
+        async removeAsync(key) {
+            if (!key) return null;
+            return (await deleteSamlMessageId(tenantId, 'request', key)) ? key : null;
+        },
+    };
+}
+
+function createServiceProvider(tenantId: string, sp: SamlServiceProviderUrls, config: SamlConfig): SAML {
+    return new SAML({
+        issuer: sp.entityId,
+        callbackUrl: sp.acsUrl,
+        audience: sp.entityId,
+        entryPoint: config.idpSsoUrl,
+        idpIssuer: config.idpEntityId,
+        idpCert: parseIdpCertificates(config.idpCertificate),
+        identifierFormat: NAMEID_FORMAT_EMAIL,
+        wantAssertionsSigned: true,
+        wantAuthnResponseSigned: false, // Many IdPs sign only the assertion
+        validateInResponseTo: ValidateInResponseTo.ifPresent, // IdP-initiated responses carry no InResponseTo
+        requestIdExpirationPeriodMs: REQUEST_ID_TTL_MS,
+        cacheProvider: createRequestIdCache(tenantId),
+        acceptedClockSkewMs: CLOCK_SKEW_MS,
+        maxAssertionAgeMs: MAX_ASSERTION_AGE_MS,
+        disableRequestedAuthnContext: true, // Let the IdP choose the authentication method (password, MFA, ...)
+        signatureAlgorithm: 'sha256',
+    });
+}
+
+export function buildServiceProviderMetadata(sp: SamlServiceProviderUrls): string {
+    return generateServiceProviderMetadata({
+        issuer: sp.entityId,
+        callbackUrl: sp.acsUrl,
+        identifierFormat: NAMEID_FORMAT_EMAIL,
+        wantAssertionsSigned: true,
+    });
+}
+
+/**
+ * Builds the SP-initiated login URL (AuthnRequest via HTTP-Redirect). The request ID is recorded
+ * so the response's InResponseTo can be checked.
+ */
+export async function getSamlAuthorizeUrl(tenantId: string, sp: SamlServiceProviderUrls, config: SamlConfig, relayState = ''): Promise<string> {
+    return createServiceProvider(tenantId, sp, config).getAuthorizeUrlAsync(relayState, undefined, {});
+}
+
+/**
+ * Validates a SAMLResponse posted to the ACS: signature against the IdP certificate, issuer,
+ * audience, validity window, InResponseTo (when present) and assertion replay.
+ * @returns The validated profile.
+ */
+export async function validateSamlResponse(tenantId: string, sp: SamlServiceProviderUrls, config: SamlConfig, samlResponse: string): Promise<Profile> {
+    const { profile } = await createServiceProvider(tenantId, sp, config).validatePostResponseAsync({ SAMLResponse: samlResponse });
+    if (!profile) {
+        throw new Error("SAML response did not contain an assertion.");
+    }
+
+    const assertion = profile.getAssertion?.() as { Assertion?: { $?: { ID?: string } } } | undefined;
+    const assertionId = assertion?.Assertion?.$?.ID;
+    if (!assertionId) {
+        throw new Error("SAML assertion has no ID.");
+    }
+    const firstUse = await saveSamlMessageId(tenantId, 'assertion', assertionId, new Date(Date.now() + MAX_ASSERTION_AGE_MS + 2 * CLOCK_SKEW_MS));
+    if (!firstUse) {
+        throw new Error(`SAML assertion ${assertionId} was already used.`);
+    }
+    return profile;
+}
+
+function readAttribute(profile: Profile, attributeName: string): string | undefined {
+    if (!attributeName) return undefined;
+    const attributes = (profile.attributes ?? {}) as Record<string, unknown>;
+    const raw = attributes[attributeName] ?? profile[attributeName];
+    const value = Array.isArray(raw) ? raw[0] : raw;
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Applies the tenant's attribute mapping to a validated profile. The email falls back to the
+ * standard mail attributes and then to an email-formatted NameID.
+ */
+export function mapSamlProfile(profile: Profile, mapping: SamlAttributeMapping): SamlMappedProfile {
+    const nameIdEmail = profile.nameID?.includes('@') ? profile.nameID : undefined;
+    const email = readAttribute(profile, mapping.email) ?? (typeof profile.email === 'string' ? profile.email : undefined) ?? nameIdEmail;
+    return {
+        nameId: profile.nameID,
+        email: email?.toLowerCase(),
+        firstName: readAttribute(profile, mapping.firstName),
+        lastName: readAttribute(profile, mapping.lastName),
+        department: readAttribute(profile, mapping.department),
+        position: readAttribute(profile, mapping.position),
+        phone: readAttribute(profile, mapping.phone),
+    };
+}
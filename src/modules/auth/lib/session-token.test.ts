@@ -0,0 +1,48 @@
+// src/modules/auth/lib/session-token.test.ts
+// Session keys from SESSION_SECRET_KEYS: the first key signs, older ones still verify, and a set with any
+// malformed or weak entry is refused as a whole instead of falling back to another key.
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSessionToken, verifySessionToken } from '@/modules/auth/lib/session-token';
+import type { SessionData } from '@/modules/auth/types';
+
+const SESSION = { userId: 'user-1', tenantId: 'tenant-1', tenantDomain: 'acme', userRole: 'Admin', username: 'ada', sessionId: 'session-1' } as SessionData;
+const NEW_SECRET = 'n'.repeat(32);
+const OLD_SECRET = 'o'.repeat(32);
+
+describe('session keys', () => {
+  afterEach(() => {
+    delete process.env.SESSION_SECRET_KEYS;
+  });
+
+  test('signs with the first key and still accepts tokens of the older ones', async () => {
+    process.env.SESSION_SECRET_KEYS = `k1:${OLD_SECRET}`;
+    const oldToken = await createSessionToken(SESSION);
+
+    process.env.SESSION_SECRET_KEYS = `k2:${NEW_SECRET},k1:${OLD_SECRET}`;
+    const verifiedOld = await verifySessionToken(oldToken);
+    assert.equal(verifiedOld?.kid, 'k1');
+    assert.equal(verifiedOld?.isCurrentKey, false);
+    const verifiedNew = await verifySessionToken(await createSessionToken(SESSION));
+    assert.equal(verifiedNew?.kid, 'k2');
+    assert.equal(verifiedNew?.session.userId, 'user-1');
+  });
+
+  const invalidSets: [string, string][] = [
+    ['a malformed first entry', `k2${NEW_SECRET},k1:${OLD_SECRET}`],
+    ['an entry without a secret', `k2:,k1:${OLD_SECRET}`],
+    ['an entry without a kid', `:${NEW_SECRET},k1:${OLD_SECRET}`],
+    ['a kid containing "."', `k.2:${NEW_SECRET},k1:${OLD_SECRET}`],
+    ['a short secret', `k2:short,k1:${OLD_SECRET}`],
+  ];
+  for (const [label, keys] of invalidSets) {
+    test(`uses no key at all for ${label}`, async () => {
+      process.env.SESSION_SECRET_KEYS = `k1:${OLD_SECRET}`;
+      const oldToken = await createSessionToken(SESSION);
+
+      process.env.SESSION_SECRET_KEYS = keys;
+      await assert.rejects(createSessionToken(SESSION));
+      assert.equal(await verifySessionToken(oldToken), null);
+    });
+  }
+});
@@ -0,0 +1,309 @@
+
+// src/modules/auth/lib/session-token.ts
+// Signed + encrypted session tokens. Uses only the Web Crypto API so the same code
+// runs in the Edge middleware and in Node server actions.
+import type { SessionData } from '@/modules/auth/types';
+
+export const SESSION_COOKIE_NAME = 'syntaxHiveHrmSession';
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7; // 1 week
+export const MFA_CHALLENGE_COOKIE_NAME = 'syntaxHiveHrmMfaChallenge';
+export const MFA_CHALLENGE_MAX_AGE_SECONDS = 60 * 10; // 10 minutes to enter the code
+export const OIDC_STATE_COOKIE_NAME = 'syntaxHiveHrmOidcState';
+export const OIDC_STATE_MAX_AGE_SECONDS = 60 * 10; // 10 minutes to finish signing in at the identity provider
+export const PASSWORD_CHANGE_COOKIE_NAME = 'syntaxHiveHrmPasswordChange';
+export const PASSWORD_CHANGE_MAX_AGE_SECONDS = 60 * 10; // 10 minutes to choose a new password
+export const PLATFORM_SESSION_COOKIE_NAME = 'syntaxHiveHrmPlatformSession';
+export const PLATFORM_SESSION_MAX_AGE_SECONDS = 60 * 60 * 8; // One working day; operators sign in again after it
+
+const TOKEN_VERSION = 'v1';
+
+interface SessionSecret {
+  kid: string;
+  secret: string;
+}
+
+interface DerivedKeys {
+  encKey: CryptoKey;
+  macKey: CryptoKey;
+}
+
+// Tokens of one purpose can never be verified as another: each purpose derives its own keys.
+type TokenPurpose = 'session' | 'mfa_challenge' | 'oidc_state' | 'password_change' | 'platform_session';
+
+/** Issued after a correct password when a second factor (or MFA enrollment) is still required. */
+export interface MfaChallenge {
+  userId: string;
+  tenantId: string;
+  tenantDomain: string;
+  enrollmentRequired: boolean; // true when the tenant policy requires MFA but the user has not enrolled yet
+}
+
+/** Issued after a correct password when the password has expired or was set by an admin and must be changed first. */
+export interface PasswordChangeChallenge {
+  userId: string;
+  tenantId: string;
+  tenantDomain: string;
+  loginIdentifier: string;
+  reason: 'expired' | 'admin_set';
+  passwordChangedAt: string | null; // Snapshot; the challenge is void once the password has changed
+}
+
+/** Carries the per-login OIDC secrets from the authorization request to the callback. */
+export interface OidcLoginState {
+  tenantId: string;
+  tenantDomain: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/** Session of a platform operator in the root-domain console. Never accepted where a tenant session is expected. */
+export interface PlatformSessionData {
+  userId: string;
+  username: string;
+  sessionId: string;
+}
+
+export interface VerifiedSessionToken {
+  session: SessionData;
+  kid: string;
+  issuedAt: number; // Unix seconds
+  expiresAt: number; // Unix seconds
+  isCurrentKey: boolean; // false when signed with an older (rotated-out but still accepted) key
+}
+
+const KID_PATTERN = /^[A-Za-z0-9_-]+$/; // Kids appear in the dot-separated token, so they cannot contain "."
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Reads the session secrets from the environment.
+ * SESSION_SECRET_KEYS="kid1:secret1,kid0:secret0" - the first entry signs new tokens,
+ * the remaining entries are only accepted for verification (key rotation).
+ * SESSION_SECRET is accepted as a single-key fallback (kid "default").
+ * Every entry must be "kid:secret", kids may only contain letters, digits, "_" and "-", and secrets need at least
+ * MIN_SECRET_LENGTH characters; if any entry breaks these rules, no key is used, so a typo cannot silently promote an older key to signing.
+ */
+function getSessionSecrets(): SessionSecret[] {
+  const rawKeys = process.env.SESSION_SECRET_KEYS;
+  const secrets: SessionSecret[] = [];
+  if (rawKeys) {
+    for (const entry of rawKeys.split(',')) {
+      const trimmed = entry.trim();
+      if (!trimmed) continue;
+      const separatorIndex = trimmed.indexOf(':');
+      if (separatorIndex <= 0 || separatorIndex === trimmed.length - 1) {
+        console.error(`FATAL ERROR: SESSION_SECRET_KEYS has a malformed entry (expected "kid:secret"). Sessions cannot be issued or verified.`);
+        return [];
+      }
+      secrets.push({ kid: trimmed.slice(0, separatorIndex), secret: trimmed.slice(separatorIndex + 1) });
+    }
+  }
+  if (secrets.length === 0 && process.env.SESSION_SECRET) {
+    secrets.push({ kid: 'default', secret: process.env.SESSION_SECRET });
+  }
+  if (secrets.length === 0) {
+    console.error("FATAL ERROR: SESSION_SECRET_KEYS (or SESSION_SECRET) environment variable is not set. Sessions cannot be issued or verified.");
+    return secrets;
+  }
+  const invalid = secrets.find(({ kid, secret }) => !KID_PATTERN.test(kid) || secret.length < MIN_SECRET_LENGTH);
+  if (invalid) {
+    console.error(`FATAL ERROR: Session key "${invalid.kid}" is invalid: key IDs may only contain letters, digits, "_" and "-", and secrets need at least ${MIN_SECRET_LENGTH} characters. Sessions cannot be issued or verified.`);
+    return [];
+  }
+  return secrets;
+}
+
+const derivedKeyCache = new Map<string, Promise<DerivedKeys>>();
+
+function deriveKeys({ kid, secret }: SessionSecret, purpose: TokenPurpose = 'session'): Promise<DerivedKeys> {
+  const cacheKey = `${purpose}:${kid}:${secret}`;
+  let cached = derivedKeyCache.get(cacheKey);
+  if (!cached) {
+    cached = (async () => {
+      const encoder = new TextEncoder();
+      const baseKey = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveKey']);
+      const salt = encoder.encode(purpose === 'session' ? `syntaxhive-session:${kid}` : `syntaxhive-${purpose}:${kid}`);
+      const encKey = await crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode('encryption') },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+      const macKey = await crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode('signature') },
+        baseKey,
+        { name: 'HMAC', hash: 'SHA-256', length: 256 },
+        false,
+        ['sign', 'verify']
+      );
+      return { encKey, macKey };
+    })();
+    derivedKeyCache.set(cacheKey, cached);
+  }
+  return cached;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (value.length % 4)) % 4);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function sealPayload(payload: Record<string, unknown>, purpose: TokenPurpose): Promise<string> {
+  const [activeSecret] = getSessionSecrets();
+  if (!activeSecret) {
+    throw new Error("Session secret is missing.");
+  }
+  const { encKey, macKey } = await deriveKeys(activeSecret, purpose);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, encKey, new TextEncoder().encode(JSON.stringify(payload)))
+  );
+  const signingInput = `${TOKEN_VERSION}.${activeSecret.kid}.${toBase64Url(iv)}.${toBase64Url(ciphertext)}`;
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', macKey, new TextEncoder().encode(signingInput)));
+  return `${signingInput}.${toBase64Url(signature)}`;
+}
+
+async function openPayload(token: string, purpose: TokenPurpose): Promise<{ payload: any; kid: string; isCurrentKey: boolean } | null> {
+  const parts = token.split('.');
+  if (parts.length !== 5 || parts[0] !== TOKEN_VERSION) {
+    console.warn('[SessionToken] Rejecting token with unexpected format/version.');
+    return null;
+  }
+  const [version, kid, ivPart, ciphertextPart, signaturePart] = parts;
+
+  const secrets = getSessionSecrets();
+  const secret = secrets.find(s => s.kid === kid);
+  if (!secret) {
+    console.warn(`[SessionToken] Rejecting token signed with unknown or retired key id: ${kid}`);
+    return null;
+  }
+
+  try {
+    const { encKey, macKey } = await deriveKeys(secret, purpose);
+    const signingInput = `${version}.${kid}.${ivPart}.${ciphertextPart}`;
+    const signatureValid = await crypto.subtle.verify('HMAC', macKey, fromBase64Url(signaturePart), new TextEncoder().encode(signingInput));
+    if (!signatureValid) {
+      console.warn('[SessionToken] Rejecting token with invalid signature.');
+      return null;
+    }
+
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64Url(ivPart) }, encKey, fromBase64Url(ciphertextPart));
+    const payload = JSON.parse(new TextDecoder().decode(plaintext));
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.exp !== 'number' || payload.exp <= now) {
+      console.warn(`[SessionToken] Rejecting expired token (exp: ${payload.exp}).`);
+      return null;
+    }
+    return { payload, kid, isCurrentKey: secrets[0]?.kid === kid };
+  } catch (error: any) {
+    console.warn(`[SessionToken] Token verification failed: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Creates a session token: AES-256-GCM encrypted payload, HMAC-SHA256 signed (encrypt-then-MAC).
+ * Format: v1.<kid>.<iv>.<ciphertext>.<signature> (all base64url).
+ * @param session The session data to embed.
+ * @param maxAgeSeconds Lifetime of the token; defaults to SESSION_MAX_AGE_SECONDS.
+ * @param expiresAt Optional absolute expiry (Unix seconds), used when re-signing an existing session.
+ * @returns The serialized token.
+ */
+export async function createSessionToken(session: SessionData, maxAgeSeconds = SESSION_MAX_AGE_SECONDS, expiresAt?: number): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return sealPayload({ ...session, iat: now, exp: expiresAt ?? now + maxAgeSeconds }, 'session');
+}
+
+/**
+ * Verifies and decrypts a session token.
+ * Rejects tokens with an unknown key id, an invalid signature, a tampered ciphertext or an expired `exp`.
+ * @param token The raw cookie value.
+ * @returns The verified session and token metadata, or null if the token is invalid/expired.
+ */
+export async function verifySessionToken(token: string | undefined | null): Promise<VerifiedSessionToken | null> {
+  if (!token) return null;
+  const opened = await openPayload(token, 'session');
+  if (!opened) return null;
+  const { iat, exp, ...session } = opened.payload;
+  return {
+    session: session as SessionData,
+    kid: opened.kid,
+    issuedAt: iat,
+    expiresAt: exp,
+    isCurrentKey: opened.isCurrentKey,
+  };
+}
+
+/**
+ * Creates the short-lived token that carries a password-verified login to the MFA step.
+ * It is sealed with purpose-specific keys, so it can never be accepted as a session token.
+ */
+export async function createMfaChallengeToken(challenge: MfaChallenge): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return sealPayload({ ...challenge, iat: now, exp: now + MFA_CHALLENGE_MAX_AGE_SECONDS }, 'mfa_challenge');
+}
+
+export async function verifyMfaChallengeToken(token: string | undefined | null): Promise<MfaChallenge | null> {
+  if (!token) return null;
+  const opened = await openPayload(token, 'mfa_challenge');
+  if (!opened) return null;
+  const { iat, exp, ...challenge } = opened.payload;
+  return challenge as MfaChallenge;
+}
+
+/**
+ * Creates the short-lived token stored in a cookie while the user is at the identity provider.
+ * Sealing (not just signing) keeps the PKCE verifier confidential.
+ */
+export async function createOidcStateToken(loginState: OidcLoginState): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return sealPayload({ ...loginState, iat: now, exp: now + OIDC_STATE_MAX_AGE_SECONDS }, 'oidc_state');
+}
+
+export async function verifyOidcStateToken(token: string | undefined | null): Promise<OidcLoginState | null> {
+  if (!token) return null;
+  const opened = await openPayload(token, 'oidc_state');
+  if (!opened) return null;
+  const { iat, exp, ...loginState } = opened.payload;
+  return loginState as OidcLoginState;
+}
+
+/**
+ * Creates the short-lived token that carries a password-verified login to the forced password change step.
+ */
+export async function createPasswordChangeToken(challenge: PasswordChangeChallenge): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return sealPayload({ ...challenge, iat: now, exp: now + PASSWORD_CHANGE_MAX_AGE_SECONDS }, 'password_change');
+}
+
+export async function verifyPasswordChangeToken(token: string | undefined | null): Promise<PasswordChangeChallenge | null> {
+  if (!token) return null;
+  const opened = await openPayload(token, 'password_change');
+  if (!opened) return null;
+  const { iat, exp, ...challenge } = opened.payload;
+  return challenge as PasswordChangeChallenge;
+}
+
+export async function createPlatformSessionToken(session: PlatformSessionData): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return sealPayload({ ...session, iat: now, exp: now + PLATFORM_SESSION_MAX_AGE_SECONDS }, 'platform_session');
+}
+
+export async function verifyPlatformSessionToken(token: string | undefined | null): Promise<PlatformSessionData | null> {
+  if (!token) return null;
+  const opened = await openPayload(token, 'platform_session');
+  if (!opened) return null;
+  const { iat, exp, ...session } = opened.payload;
+  return session as PlatformSessionData;
+}
@@ -0,0 +1,117 @@
+// src/modules/auth/lib/sso-provisioning.ts
+// Maps an identity asserted by an SSO provider (OIDC or SAML) to a local user account, creating the
+// account on first login when the tenant allows just-in-time provisioning.
+import bcrypt from 'bcrypt';
+import pool from '@/lib/db';
+import type { Tenant, User } from '@/modules/auth/types';
+import type { Employee } from '@/modules/employees/types';
+import { getUserByEmail as dbGetUserByEmail, addUser as dbAddUserInternal } from '@/modules/auth/lib/db';
+import { addEmployeeInternal as dbAddEmployeeInternal, getEmployeeById as dbGetEmployeeById, updateEmployee as dbUpdateEmployee } from '@/modules/employees/lib/db';
+import { generateSecureToken } from '@/modules/auth/lib/utils';
+import { getPlanLimitError } from '@/modules/subscriptions/lib/entitlements';
+
+const SALT_ROUNDS = 10;
+
+// Identity asserted by an SSO provider (OIDC claims or mapped SAML attributes).
+export interface SsoIdentity {
+    email: string;
+    firstName?: string;
+    lastName?: string;
+    department?: string;
+    position?: string;
+    phone?: string;
+}
+
+/**
+ * Creates the user account and employee record for a first-time SSO user (just-in-time provisioning).
+ * New accounts always get the Employee role; admins can change it afterwards. The random password
+ * is never shown, so the account can only sign in via SSO until a password reset is requested.
+ */
+async function provisionSsoUser(tenant: Tenant, identity: SsoIdentity): Promise<User> {
+    const { email } = identity;
+    const firstName = identity.firstName || email.split('@')[0];
+    const lastName = identity.lastName || '-';
+
+    const passwordHash = await bcrypt.hash(generateSecureToken(32), SALT_ROUNDS);
+    const newUser = await dbAddUserInternal({
+        tenant_id: tenant.tenant_id,
+        username: email,
+        passwordHash,
+        email,
+        name: `${firstName} ${identity.lastName || ''}`.trim(),
+        role: 'Employee',
+        is_active: true,
+        employee_id: undefined,
+    });
+
+    const newEmployee = await dbAddEmployeeInternal({
+        tenantId: tenant.tenant_id,
+        userId: newUser.user_id,
+        first_name: firstName,
+        last_name: lastName,
+        email,
+        phone: identity.phone || null,
+        department: identity.department || null,
+        position: identity.position || null,
+        hireDate: new Date().toISOString().slice(0, 10),
+        employmentType: 'Full-time',
+        status: 'Active',
+    });
+
+    const client = await pool.connect();
+    try {
+        await client.query('UPDATE users SET employee_id = $1 WHERE user_id = $2 AND tenant_id = $3', [newEmployee.id, newUser.user_id, tenant.tenant_id]);
+    } finally {
+        client.release();
+    }
+    console.log(`[provisionSsoUser] Provisioned user ${newUser.user_id} / employee ${newEmployee.id} for ${email} in tenant ${tenant.tenant_id}.`);
+    return { ...newUser, employee_id: newEmployee.id };
+}
+
+/**
+ * Copies IdP-provided profile fields onto an existing employee record when they changed.
+ * Only fields the provider actually sent are touched.
+ */
+async function syncSsoEmployeeProfile(employeeId: string, tenantId: string, identity: SsoIdentity): Promise<void> {
+    const employee = await dbGetEmployeeById(employeeId, tenantId);
+    if (!employee) return;
+    const updates: Partial<Pick<Employee, 'first_name' | 'last_name' | 'department' | 'position' | 'phone'>> = {};
+    if (identity.firstName && identity.firstName !== employee.first_name) updates.first_name = identity.firstName;
+    if (identity.lastName && identity.lastName !== employee.last_name) updates.last_name = identity.lastName;
+    if (identity.department && identity.department !== employee.department) updates.department = identity.department;
+    if (identity.position && identity.position !== employee.position) updates.position = identity.position;
+    if (identity.phone && identity.phone !== employee.phone) updates.phone = identity.phone;
+    if (Object.keys(updates).length === 0) return;
+    await dbUpdateEmployee(employeeId, tenantId, updates);
+    console.log(`[syncSsoEmployeeProfile] Updated ${Object.keys(updates).join(', ')} for employee ${employeeId} from SSO attributes.`);
+}
+
+/**
+ * Finds the user matching an SSO identity by email, provisioning it first when allowed and the plan has room.
+ * Account status, lockout and MFA are left to the caller.
+ * @returns The user, or an error message for the login page.
+ */
+export async function findOrProvisionSsoUser(
+    tenant: Tenant,
+    identity: SsoIdentity,
+    options: { jitProvisioning: boolean; syncProfile: boolean; logPrefix: string }
+): Promise<{ user?: User; error?: string }> {
+    const { logPrefix } = options;
+    const user = await dbGetUserByEmail(identity.email, tenant.tenant_id);
+    if (user) {
+        if (options.syncProfile && user.employee_id) {
+            await syncSsoEmployeeProfile(user.employee_id, tenant.tenant_id, identity);
+        }
+        return { user };
+    }
+    if (!options.jitProvisioning) {
+        console.log(`${logPrefix} No user for ${identity.email} in tenant ${tenant.tenant_id} and JIT provisioning is off.`);
+        return { error: `No account exists for ${identity.email}. Please contact your administrator.` };
+    }
+    const planLimitError = await getPlanLimitError(tenant.tenant_id, ['users', 'employees']);
+    if (planLimitError) {
+        console.warn(`${logPrefix} Not provisioning ${identity.email} in tenant ${tenant.tenant_id}: plan limit reached.`);
+        return { error: `Your account could not be created because your company has reached its plan limit. Please contact your administrator.` };
+    }
+    return { user: await provisionSsoUser(tenant, identity) };
+}
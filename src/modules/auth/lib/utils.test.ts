@@ -0,0 +1,67 @@
+// src/modules/auth/lib/utils.test.ts
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getClientIp, sameOriginRedirectUrl } from '@/modules/auth/lib/utils';
+
+describe('sameOriginRedirectUrl', () => {
+  const current = 'https://acme.syntaxhivehrm.app/api/auth/saml/acs';
+
+  test('keeps paths and absolute URLs on the same origin', () => {
+    assert.equal(sameOriginRedirectUrl('/leave?tab=mine', current, '/dashboard').href, 'https://acme.syntaxhivehrm.app/leave?tab=mine');
+    assert.equal(sameOriginRedirectUrl('https://acme.syntaxhivehrm.app/employees', current, '/dashboard').href, 'https://acme.syntaxhivehrm.app/employees');
+  });
+
+  const offsite = ['//evil.com', '/\\evil.com', '/\t/evil.com', '\\\\evil.com', 'https://evil.com/', 'https://acme.syntaxhivehrm.app.evil.com/', 'javascript:alert(1)'];
+  for (const target of offsite) {
+    test(`falls back for ${JSON.stringify(target)}`, () => {
+      assert.equal(sameOriginRedirectUrl(target, current, '/dashboard').href, 'https://acme.syntaxhivehrm.app/dashboard');
+    });
+  }
+
+  test('falls back when there is no target', () => {
+    assert.equal(sameOriginRedirectUrl(null, current, '/dashboard').href, 'https://acme.syntaxhivehrm.app/dashboard');
+    assert.equal(sameOriginRedirectUrl('', current, '/dashboard').href, 'https://acme.syntaxhivehrm.app/dashboard');
+  });
+});
+
+describe('getClientIp', () => {
+  const clientIp = (headers: Record<string, string>) => getClientIp(new Headers(headers));
+
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXIES;
+  });
+
+  test('ignores hops a client put to the left of the address the proxy saw', () => {
+    assert.equal(clientIp({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7' }), '203.0.113.7');
+    assert.equal(clientIp({ 'x-forwarded-for': '10.0.0.1,  8.8.8.8 , 203.0.113.7' }), '203.0.113.7');
+  });
+
+  test('skips the trusted proxies at the right-hand end', () => {
+    process.env.TRUSTED_PROXIES = '10.0.0.0/8, 192.0.2.10';
+    assert.equal(clientIp({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7, 10.1.2.3, 192.0.2.10' }), '203.0.113.7');
+    // A trusted address left of an untrusted hop was not added by our proxies
+    assert.equal(clientIp({ 'x-forwarded-for': '203.0.113.7, 10.1.2.3, 198.51.100.4' }), '198.51.100.4');
+    // Every hop trusted: the left-most one is the client
+    assert.equal(clientIp({ 'x-forwarded-for': '10.9.9.9, 10.1.2.3' }), '10.9.9.9');
+  });
+
+  test('returns null for a malformed hop instead of an address further left', () => {
+    process.env.TRUSTED_PROXIES = '10.0.0.0/8';
+    assert.equal(clientIp({ 'x-forwarded-for': '203.0.113.7, not-an-ip, 10.1.2.3' }), null);
+    assert.equal(clientIp({ 'x-forwarded-for': '203.0.113.7, unknown' }), null);
+  });
+
+  test('reads IPv4-mapped IPv6 and bracketed IPv6 hops', () => {
+    process.env.TRUSTED_PROXIES = '10.0.0.0/8';
+    assert.equal(clientIp({ 'x-forwarded-for': '203.0.113.7, ::ffff:10.1.2.3' }), '203.0.113.7');
+    assert.equal(clientIp({ 'x-forwarded-for': '::FFFF:203.0.113.7' }), '203.0.113.7');
+    assert.equal(clientIp({ 'x-forwarded-for': '[2001:db8::1]' }), '2001:db8::1');
+  });
+
+  test('falls back to X-Real-IP without X-Forwarded-For', () => {
+    assert.equal(clientIp({ 'x-real-ip': '203.0.113.7' }), '203.0.113.7');
+    assert.equal(clientIp({ 'x-real-ip': 'garbage' }), null);
+    assert.equal(clientIp({}), null);
+    assert.equal(clientIp({ 'x-forwarded-for': '198.51.100.4', 'x-real-ip': '203.0.113.7' }), '198.51.100.4');
+  });
+});
@@ -1,5 +1,6 @@
 
 import crypto from 'crypto';
+import { BlockList, isIP } from 'net';
 
 /**
  * Generates a temporary password.
@@ -15,3 +16,144 @@ export function generateTemporaryPassword(length = 12): string {
     }
     return password;
 }
+
+/**
+ * Builds a short, human-readable device label from a User-Agent header.
+ * @param userAgent The raw User-Agent string.
+ * @returns A label such as "Chrome on Windows", or null if no User-Agent was sent.
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string | null {
+    if (!userAgent) return null;
+    let browser = 'Unknown browser';
+    if (/Edg\//.test(userAgent)) browser = 'Edge';
+    else if (/OPR\/|Opera/.test(userAgent)) browser = 'Opera';
+    else if (/Firefox\//.test(userAgent)) browser = 'Firefox';
+    else if (/Chrome\//.test(userAgent)) browser = 'Chrome';
+    else if (/Safari\//.test(userAgent)) browser = 'Safari';
+
+    let os = 'Unknown OS';
+    if (/Windows/.test(userAgent)) os = 'Windows';
+    else if (/Android/.test(userAgent)) os = 'Android';
+    else if (/iPhone|iPad|iPod/.test(userAgent)) os = 'iOS';
+    else if (/Mac OS X|Macintosh/.test(userAgent)) os = 'macOS';
+    else if (/Linux/.test(userAgent)) os = 'Linux';
+
+    return `${browser} on ${os}`;
+}
+
+let trustedProxies: { source: string; list: BlockList } | null = null;
+
+/** Reverse proxies in front of the app, from TRUSTED_PROXIES (comma-separated addresses or CIDR ranges). */
+function getTrustedProxies(): BlockList {
+    const source = process.env.TRUSTED_PROXIES || '';
+    if (trustedProxies?.source === source) return trustedProxies.list;
+    const list = new BlockList();
+    for (const entry of source.split(',').map(value => value.trim()).filter(Boolean)) {
+        const [address, prefix] = entry.split('/');
+        const family = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+        if (!isIP(address) || (prefix !== undefined && !/^\d+$/.test(prefix))) {
+            console.warn(`[getClientIp] Ignoring invalid TRUSTED_PROXIES entry "${entry}".`);
+            continue;
+        }
+        if (prefix === undefined) list.addAddress(address, family);
+        else list.addSubnet(address, parseInt(prefix, 10), family);
+    }
+    trustedProxies = { source, list };
+    return list;
+}
+
+function normalizeIp(value: string): string | null {
+    const address = value.trim().replace(/^\[(.*)\]$/, '$1').replace(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i, '$1');
+    return isIP(address) ? address : null;
+}
+
+function isTrustedProxy(address: string): boolean {
+    return getTrustedProxies().check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Resolves the client IP address from X-Forwarded-For. Each proxy appends the address it received the request
+ * from, so only the right-hand end of the list can be trusted: hops are read from the right, skipping the
+ * proxies listed in TRUSTED_PROXIES, and the first other address is the client. Addresses to the left of it
+ * were sent by the client and are ignored. Without the header (Next.js sets it to the connection address when
+ * the client sent none), X-Real-IP is used.
+ * @param headersList The request headers (from next/headers or a Request).
+ * @returns The client address, or null.
+ */
+export function getClientIp(headersList: { get(name: string): string | null }): string | null {
+    const forwardedFor = headersList.get('x-forwarded-for');
+    if (forwardedFor) {
+        const hops = forwardedFor.split(',').map(normalizeIp);
+        for (let i = hops.length - 1; i >= 0; i--) {
+            const hop = hops[i];
+            if (!hop) return null; // A malformed hop cannot be attributed to anyone
+            if (i === 0 || !isTrustedProxy(hop)) return hop;
+        }
+    }
+    const realIp = headersList.get('x-real-ip');
+    return realIp ? normalizeIp(realIp) : null;
+}
+
+/**
+ * Generates a URL-safe random token (e.g. for password reset links).
+ * @param byteLength Number of random bytes (default: 32).
+ * @returns A base64url encoded token.
+ */
+export function generateSecureToken(byteLength = 32): string {
+    return crypto.randomBytes(byteLength).toString('base64url');
+}
+
+/**
+ * Hashes a token for storage. Only the hash is persisted so a database leak does not expose usable tokens.
+ * @param token The plaintext token.
+ * @returns The SHA-256 hex digest.
+ */
+export function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'; // no 0/o, 1/l/i
+
+/**
+ * Normalizes a recovery code as typed by the user (case, spaces and dashes are ignored).
+ * @param code The recovery code.
+ * @returns The canonical form that is hashed for storage and lookup.
+ */
+export function normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Generates one-time MFA recovery codes in the form "xxxxx-xxxxx".
+ * @param count Number of codes (default: 10).
+ * @returns The plaintext codes; store only hashToken(normalizeRecoveryCode(code)).
+ */
+export function generateRecoveryCodes(count = 10): string[] {
+    const codes: string[] = [];
+    for (let i = 0; i < count; i++) {
+        let raw = '';
+        for (let j = 0; j < 10; j++) {
+            raw += RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)];
+        }
+        codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+    }
+    return codes;
+}
+
+/**
+ * Resolves a post-login redirect target (e.g. SAML RelayState, which is not signed) against the current URL.
+ * Only targets that stay on the same origin are kept; `/\evil.com` and `/\t/evil.com` look like paths but are not.
+ * @returns The target URL, or `fallbackPath` on the current origin.
+ */
+export function sameOriginRedirectUrl(target: unknown, currentUrl: string | URL, fallbackPath: string): URL {
+    const base = new URL(currentUrl);
+    if (typeof target === 'string' && target) {
+        try {
+            const url = new URL(target, base);
+            if (url.origin === base.origin) return url;
+        } catch {
+            // Not a URL: fall back
+        }
+    }
+    return new URL(fallbackPath, base.origin);
+}
@@ -1,18 +1,33 @@
 
 import { z } from 'zod';
+import type { ApiKeyScope } from '@/modules/api-keys/types';
 
 // --- Tenant ---
+// Only ACTIVE companies can sign in or use the app and API. DELETED companies are purged once
+// `deletion_scheduled_at` has passed and can be reinstated until then.
+export const tenantStatusSchema = z.enum(['ACTIVE', 'SUSPENDED', 'DELETED']);
+export type TenantStatus = z.infer<typeof tenantStatusSchema>;
+
 export const tenantSchema = z.object({
   tenant_id: z.string().uuid("Invalid tenant ID format"),
   name: z.string().min(1, "Company name is required"),
   subdomain: z.string().min(1, "Company subdomain is required").regex(/^[a-zA-Z0-9-]+$/, "Subdomain can only contain letters, numbers, and hyphens").toLowerCase(),
-  status: z.string().default('ACTIVE'),
+  status: tenantStatusSchema.default('ACTIVE'),
+  status_reason: z.string().nullable().optional(), // Internal note from the platform operator
+  deletion_scheduled_at: z.string().datetime().nullable().optional(),
   created_at: z.string().datetime(),
   updated_at: z.string().datetime().optional(),
 });
 
 export type Tenant = z.infer<typeof tenantSchema>;
 
+export const TENANT_DELETION_GRACE_DAYS = 30;
+
+export const TENANT_UNAVAILABLE_MESSAGES: Record<Exclude<TenantStatus, 'ACTIVE'>, string> = {
+  SUSPENDED: "This company account has been suspended. Please contact your administrator.",
+  DELETED: "This company account has been closed and is scheduled for deletion. Please contact your administrator.",
+};
+
 // --- User ---
 // Keep simple UserRole enum for now, directly on the User model & users table
 // The new roles/permissions tables will be a separate refactoring step.
@@ -32,7 +47,10 @@ export const userSchema = z.object({
     last_login: z.string().datetime().optional().nullable(),
     failed_attempts: z.number().int().default(0),
     account_locked: z.boolean().default(false),
+    locked_until: z.string().datetime().optional().nullable(),
     password_changed_at: z.string().datetime().optional().nullable(),
+    must_change_password: z.boolean().default(false), // Set when an admin chose the password (e.g. the emailed temporary one)
+    terms_accepted_at: z.string().datetime().optional().nullable(), // Set when an invited user accepts the terms of use
     created_at: z.string().datetime(),
     updated_at: z.string().datetime().optional(),
 });
@@ -67,6 +85,44 @@ export interface SessionData {
   tenantDomain: string | null; // This will be the subdomain
   userRole: UserRole;
   username: string;
+  sessionId?: string; // user_sessions.session_id (UUID) backing this cookie
+  apiKey?: { id: string; scopes: ApiKeyScope[] }; // Set when the request authenticated with an API key instead of a cookie
+  impersonation?: ImpersonationInfo; // Set while an admin views the app as another user; userId/userRole/username are then the target's
+}
+
+// --- Impersonation ("view as") ---
+// The session keeps the admin's server-side session; only the effective identity in the token changes.
+export const IMPERSONATION_MAX_MINUTES = 60;
+
+export interface ImpersonationInfo {
+  realUserId: string;
+  realUsername: string;
+  realUserRole: UserRole;
+  startedAt: string; // ISO string
+  expiresAt: string; // ISO string; after this the session silently reverts to the real user
+}
+
+export const startImpersonationSchema = z.object({
+  targetUserId: z.string().uuid("Invalid user ID"),
+  reason: z.string().trim().min(3, "Give a short reason (at least 3 characters)").max(255, "Reason cannot exceed 255 characters"),
+});
+
+export type StartImpersonationFormData = z.infer<typeof startImpersonationSchema>;
+
+// --- Server-side Session Record (user_sessions table) ---
+export interface UserSession {
+  sessionId: string;
+  tenantId: string;
+  userId: string;
+  username?: string; // Denormalized for admin listing
+  userAgent: string | null;
+  deviceLabel: string | null; // e.g. "Chrome on Windows"
+  ipAddress: string | null;
+  createdAt: string; // ISO string
+  lastSeenAt: string; // ISO string
+  expiresAt: string; // ISO string
+  revokedAt?: string | null;
+  revokedReason?: string | null;
 }
 
 
@@ -84,3 +140,227 @@ export const rootForgotPasswordSchema = z.object({
 });
 
 export type RootForgotPasswordFormInputs = z.infer<typeof rootForgotPasswordSchema>;
+
+// --- Reset Password Form (token from emailed link) ---
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is missing"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string().min(1, "Please confirm your password"),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+export type ResetPasswordFormInputs = z.infer<typeof resetPasswordSchema>;
+
+// --- Employee Account Invitations ---
+export const INVITATION_TTL_DAYS = 7;
+
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, "Invitation token is missing"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string().min(1, "Please confirm your password"),
+  acceptTerms: z.boolean().refine(value => value, "You must accept the terms of use to continue"),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+export type AcceptInvitationFormInputs = z.infer<typeof acceptInvitationSchema>;
+
+// 'pending' until accepted; an expired or revoked invitation can be resent
+export type InvitationStatus = 'pending' | 'expired' | 'revoked';
+
+/** Latest invitation of a user who has not activated their account yet. */
+export interface PendingInvitation {
+  userId: string;
+  name: string;
+  email: string;
+  invitedByName: string | null;
+  sentAt: string;
+  expiresAt: string;
+  sendCount: number; // Invitations sent to this user so far, including resends
+  status: InvitationStatus;
+}
+
+// --- Password Policy (stored per tenant in tenant_configurations) ---
+export const PASSWORD_POLICY_CONFIG_KEY = 'security.password';
+export const PASSWORD_HISTORY_MAX = 24; // Upper bound for historyCount; older hashes are pruned
+
+export const passwordPolicySchema = z.object({
+  minLength: z.coerce.number().int().min(8, "Minimum length cannot be below 8").max(128).default(8),
+  requireUppercase: z.boolean().default(true),
+  requireLowercase: z.boolean().default(true),
+  requireNumber: z.boolean().default(true),
+  requireSymbol: z.boolean().default(false),
+  historyCount: z.coerce.number().int().min(0, "Cannot be negative").max(PASSWORD_HISTORY_MAX).default(5), // 0 = reuse allowed
+  maxAgeDays: z.coerce.number().int().min(0, "Cannot be negative").max(3650).default(0), // 0 = passwords never expire
+  blockCommonPasswords: z.boolean().default(true), // Reject passwords on the bundled breached/common list
+});
+
+export type PasswordPolicy = z.infer<typeof passwordPolicySchema>;
+
+// Forced change after login; the password-verified login is carried in a short-lived challenge cookie.
+export const changeExpiredPasswordSchema = z.object({
+  password: z.string().min(1, "New password is required"),
+  confirmPassword: z.string().min(1, "Please confirm your password"),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+export type ChangeExpiredPasswordFormInputs = z.infer<typeof changeExpiredPasswordSchema>;
+
+// --- Account Lockout Policy (stored per tenant in tenant_configurations) ---
+export const LOCKOUT_POLICY_CONFIG_KEY = 'security.account_lockout';
+
+export const lockoutPolicySchema = z.object({
+  maxFailedAttempts: z.coerce.number().int().min(1, "Must allow at least 1 attempt").max(100).default(5),
+  lockoutDurationMinutes: z.coerce.number().int().min(0, "Cannot be negative").max(10080).default(15), // 0 = locked until an admin unlocks
+  rateLimitWindowMinutes: z.coerce.number().int().min(1).max(1440).default(15),
+  maxAttemptsPerIp: z.coerce.number().int().min(1).max(10000).default(50),
+  maxAttemptsPerIdentifier: z.coerce.number().int().min(1).max(1000).default(10),
+});
+
+export type LockoutPolicy = z.infer<typeof lockoutPolicySchema>;
+
+export interface AccountLockStatus {
+  userId: string;
+  accountLocked: boolean;
+  failedAttempts: number;
+  lockedUntil: string | null; // ISO string; null while locked means admin unlock required
+}
+
+// --- Multi-Factor Authentication (TOTP) ---
+export const MFA_POLICY_CONFIG_KEY = 'security.mfa';
+
+export const mfaPolicySchema = z.object({
+  requiredRoles: z.array(userRoleSchema).default(['Admin', 'Manager']),
+});
+
+export type MfaPolicy = z.infer<typeof mfaPolicySchema>;
+
+export const mfaCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the 6-digit code or a recovery code").max(20, "Code is too long"),
+});
+
+export type MfaCodeFormInputs = z.infer<typeof mfaCodeSchema>;
+
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean; // tenant policy requires MFA for the user's role
+  recoveryCodesRemaining: number;
+  enabledAt: string | null; // ISO string
+}
+
+export interface MfaEnrollmentSetup {
+  secret: string; // base32, for manual entry
+  otpauthUri: string;
+  qrCodeDataUrl: string; // PNG data URL of the otpauth URI
+}
+
+// --- OpenID Connect Single Sign-On (stored per tenant in tenant_configurations) ---
+export const OIDC_CONFIG_KEY = 'security.oidc';
+
+// Stored shape. The client secret is only ever persisted encrypted with ENCRYPTION_KEY.
+export const oidcConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  issuer: z.string().default(''),
+  clientId: z.string().default(''),
+  clientSecretEncrypted: z.string().default(''),
+  scopes: z.string().default('openid email profile'),
+  jitProvisioning: z.boolean().default(false), // Create an Employee account on first SSO login when no user has the email
+});
+
+export type OidcConfig = z.infer<typeof oidcConfigSchema>;
+
+// Admin form. Leaving clientSecret blank keeps the stored secret.
+export const oidcSettingsFormSchema = z.object({
+  enabled: z.boolean().default(false),
+  issuer: z.string().trim().url("Issuer must be a URL, e.g. https://login.example.com/realms/acme"),
+  clientId: z.string().trim().min(1, "Client ID is required").max(255),
+  clientSecret: z.string().trim().max(1024).optional(),
+  scopes: z.string().trim().min(1).max(255).default('openid email profile')
+    .refine(scopes => scopes.split(/\s+/).includes('openid'), "Scopes must include 'openid'"),
+  jitProvisioning: z.boolean().default(false),
+});
+
+export type OidcSettingsFormData = z.infer<typeof oidcSettingsFormSchema>;
+
+// What the settings page sees: never the secret itself.
+export interface OidcSettings {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  hasClientSecret: boolean;
+  scopes: string;
+  jitProvisioning: boolean;
+  redirectUri: string; // Register this callback URL with the identity provider
+}
+
+// --- SAML 2.0 Single Sign-On (stored per tenant in tenant_configurations) ---
+export const SAML_CONFIG_KEY = 'security.saml';
+
+// Names of the SAML attributes holding each profile field. Blank = not mapped.
+export const samlAttributeMappingSchema = z.object({
+  email: z.string().trim().max(255).default('email'), // Falls back to an email-formatted NameID
+  firstName: z.string().trim().max(255).default('firstName'),
+  lastName: z.string().trim().max(255).default('lastName'),
+  department: z.string().trim().max(255).default('department'),
+  position: z.string().trim().max(255).default('title'),
+  phone: z.string().trim().max(255).default(''),
+});
+
+export type SamlAttributeMapping = z.infer<typeof samlAttributeMappingSchema>;
+
+export const samlConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  idpEntityId: z.string().default(''),
+  idpSsoUrl: z.string().default(''), // HTTP-Redirect binding endpoint for SP-initiated logins
+  idpCertificate: z.string().default(''), // PEM signing certificate(s) of the IdP (public, stored as-is)
+  attributeMapping: samlAttributeMappingSchema.default({}),
+  jitProvisioning: z.boolean().default(false),
+  syncProfileOnLogin: z.boolean().default(true), // Update mapped employee fields on every login
+});
+
+export type SamlConfig = z.infer<typeof samlConfigSchema>;
+
+export const samlSettingsFormSchema = samlConfigSchema.extend({
+  idpEntityId: z.string().trim().max(500),
+  idpSsoUrl: z.string().trim().url("SSO URL must be a URL").or(z.literal('')),
+  idpCertificate: z.string().trim().max(20000),
+}).superRefine((data, ctx) => {
+  if (!data.enabled) return;
+  if (!data.idpEntityId) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['idpEntityId'], message: "IdP entity ID is required to enable SAML." });
+  if (!data.idpSsoUrl) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['idpSsoUrl'], message: "IdP SSO URL is required to enable SAML." });
+  if (!data.idpCertificate) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['idpCertificate'], message: "IdP signing certificate is required to enable SAML." });
+});
+
+export type SamlSettingsFormData = z.infer<typeof samlSettingsFormSchema>;
+
+// What the settings page sees, plus the SP endpoints to register with the IdP.
+export interface SamlSettings extends SamlConfig {
+  spEntityId: string;
+  acsUrl: string;
+  metadataUrl: string;
+}
+
+// --- SCIM 2.0 provisioning (stored per tenant in tenant_configurations) ---
+export const SCIM_CONFIG_KEY = 'security.scim';
+
+// Only the SHA-256 hash of the bearer token is stored; the token itself is shown once when generated.
+export const scimConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  tokenHash: z.string().default(''),
+  tokenHint: z.string().default(''), // Last 4 characters, to recognise the token in the IdP
+  tokenCreatedAt: z.string().nullable().default(null),
+});
+
+export type ScimConfig = z.infer<typeof scimConfigSchema>;
+
+export interface ScimSettings {
+  enabled: boolean;
+  tokenHint: string;
+  tokenCreatedAt: string | null;
+  baseUrl: string; // SCIM base URL to enter in the IdP
+}
@@ -15,17 +15,16 @@ import { z } from 'zod';
 import { revalidatePath } from 'next/cache';
 import nodemailer from 'nodemailer';
 // Import session helpers from auth actions
-import { getTenantIdFromSession, isAdminFromSession, sendAdminNotification } from '@/modules/auth/actions';
+import { requirePermission, sendAdminNotification } from '@/modules/auth/actions';
+import { getTenantById } from '@/modules/auth/lib/db';
+import { buildBrandedEmail } from '@/modules/tenants/lib/branding';
 
 // --- Helper Functions ---
+// Every action here works on tenant-wide email setup, so all of them require 'communication.manage'.
 async function getTenantId(): Promise<string> {
-    const tenantId = await getTenantIdFromSession(); // Use new session helper
-    if (!tenantId) {
-        console.error("[Communication Actions] Tenant context not found in session.");
-        throw new Error("Tenant context not found. User may not be authenticated or associated with a tenant.");
-    }
-    // console.log(`[Communication Actions] Resolved tenantId: ${tenantId}`);
-    return tenantId;
+    const session = await requirePermission('communication.manage');
+    // console.log(`[Communication Actions] Resolved tenantId: ${session.tenantId}`);
+    return session.tenantId;
 }
 
 // --- Email Template Server Actions ---
@@ -413,12 +412,20 @@ export async function sendEmailAction(data: { to: string; subject: string; body:
 
     // Send mail
     try {
-        const mailOptions = {
+        const mailOptions: nodemailer.SendMailOptions = {
             from: `"${settings.fromName}" <${settings.fromEmail}>`,
             to: validation.data.to,
             subject: validation.data.subject,
-            [validation.data.body.trim().startsWith('<') ? 'html' : 'text']: validation.data.body,
         };
+        if (validation.data.body.trim().startsWith('<')) {
+            // HTML messages go out in the company's email layout (logo and brand colors)
+            const tenant = await getTenantById(tenantId);
+            const { html, attachments } = await buildBrandedEmail(tenantId, tenant?.name || settings.fromName, validation.data.body);
+            mailOptions.html = html;
+            mailOptions.attachments = attachments;
+        } else {
+            mailOptions.text = validation.data.body;
+        }
         console.log(`[Send Email Action] Sending email to ${validation.data.to} via ${settings.smtpHost} for tenant ${tenantId}...`);
         const info = await transporter.sendMail(mailOptions);
         console.log(`[Send Email Action] Email sent successfully for tenant ${tenantId}:`, info.messageId);
@@ -2,6 +2,8 @@
 import pool from '@/lib/db';
 import type { EmailTemplate, EmailSettings } from '@/modules/communication/types';
 import { encrypt, decrypt } from '@/lib/encryption';
+import { recordAuditEvent } from '@/modules/audit/lib/db';
+import { diffForAudit } from '@/modules/audit/lib/diff';
 
 // --- Email Template Operations ---
 
@@ -70,9 +72,17 @@ export async function addTemplate(templateData: Omit<EmailTemplate, 'id'>): Prom
         templateData.category || null, // Added
     ];
     try {
+        await client.query('BEGIN');
         const res = await client.query(query, values);
-        return mapRowToEmailTemplate(res.rows[0]);
+        const template = mapRowToEmailTemplate(res.rows[0]);
+        await recordAuditEvent(client, {
+            tenantId: templateData.tenantId, entityType: 'email_template', entityId: template.id, entityLabel: template.name,
+            action: 'create', changes: diffForAudit(null, template),
+        });
+        await client.query('COMMIT');
+        return template;
     } catch (err: any) {
+        await client.query('ROLLBACK');
         console.error('Error adding email template:', err);
         if (err.code === '23505' && err.constraint === 'email_templates_tenant_id_name_key') {
             throw new Error(`Template name "${templateData.name}" already exists for this tenant.`);
@@ -122,9 +132,20 @@ export async function updateTemplate(id: string, tenantId: string, updates: Part
         RETURNING *;
     `;
     try {
+        await client.query('BEGIN');
+        const beforeRes = await client.query('SELECT * FROM email_templates WHERE id = $1 AND tenant_id = $2', [id, tenantId]);
         const res = await client.query(query, values);
-        return res.rows.length > 0 ? mapRowToEmailTemplate(res.rows[0]) : undefined;
+        const updated = res.rows.length > 0 ? mapRowToEmailTemplate(res.rows[0]) : undefined;
+        if (updated) {
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'email_template', entityId: id, entityLabel: updated.name,
+                action: 'update', changes: diffForAudit(beforeRes.rows.map(mapRowToEmailTemplate)[0], updated),
+            });
+        }
+        await client.query('COMMIT');
+        return updated;
     } catch (err: any) {
+        await client.query('ROLLBACK');
         console.error(`Error updating email template ${id} for tenant ${tenantId}:`, err);
          if (err.code === '23505' && err.constraint === 'email_templates_tenant_id_name_key') {
             throw new Error(`Template name "${updates.name}" already exists for this tenant.`);
@@ -141,11 +162,21 @@ export async function deleteTemplate(id: string, tenantId: string): Promise<bool
         return false;
     }
     const client = await pool.connect();
-    const query = 'DELETE FROM email_templates WHERE id = $1 AND tenant_id = $2';
+    const query = 'DELETE FROM email_templates WHERE id = $1 AND tenant_id = $2 RETURNING *';
     try {
+        await client.query('BEGIN');
         const res = await client.query(query, [id, tenantId]);
+        if (res.rows.length > 0) {
+            const deleted = mapRowToEmailTemplate(res.rows[0]);
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'email_template', entityId: id, entityLabel: deleted.name,
+                action: 'delete', changes: diffForAudit(deleted, null),
+            });
+        }
+        await client.query('COMMIT');
         return res.rowCount > 0;
     } catch (err) {
+        await client.query('ROLLBACK');
         console.error(`Error deleting email template ${id} for tenant ${tenantId}:`, err);
         throw err;
     } finally {
@@ -250,15 +281,24 @@ export async function updateEmailSettings(tenantId: string, settingsData: Omit<E
         settingsData.fromName,
     ];
     try {
+        await client.query('BEGIN');
+        const beforeRes = await client.query('SELECT * FROM email_configuration WHERE tenant_id = $1', [tenantId]);
+        const previousSettings = mapRowToEmailSettings(beforeRes.rows[0]);
         const res = await client.query(query, values);
         const savedSettingsWithEncryptedPassword = mapRowToEmailSettings(res.rows[0]);
         if (!savedSettingsWithEncryptedPassword) {
              throw new Error("Failed to retrieve settings after update or decryption failed.");
         }
+        await recordAuditEvent(client, {
+            tenantId, entityType: 'email_settings', entityId: null, entityLabel: 'SMTP settings',
+            action: previousSettings ? 'update' : 'create', changes: diffForAudit(previousSettings, savedSettingsWithEncryptedPassword),
+        });
+        await client.query('COMMIT');
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         const { smtpPassword, ...safeSettings } = savedSettingsWithEncryptedPassword;
         return safeSettings;
     } catch (err: any) {
+        await client.query('ROLLBACK');
         console.error('[DB updateEmailSettings] Error updating email settings:', err);
          if (err.code === '23503' && err.constraint === 'email_configuration_tenant_id_fkey') {
             throw new Error('Tenant association failed. The specified tenant does not exist.');
@@ -15,10 +15,14 @@ import { z } from 'zod';
 import { revalidatePath } from 'next/cache';
 import {
     getSessionData,
-    sendEmployeeWelcomeEmail,
+    getPermissionsFromSession,
+    hasPermission,
+    requirePermission,
+    sendEmployeeInvitationAction,
 } from '@/modules/auth/actions';
-import { addUser as dbAddUser } from '@/modules/auth/lib/db';
-import { generateTemporaryPassword } from '@/modules/auth/lib/utils';
+import { addUser as dbAddUser, revokeAllSessionsForUser as dbRevokeAllSessionsForUser } from '@/modules/auth/lib/db';
+import { generateSecureToken } from '@/modules/auth/lib/utils';
+import { getPlanLimitError } from '@/modules/subscriptions/lib/entitlements';
 import bcrypt from 'bcrypt';
 import type { SessionData, UserRole } from '@/modules/auth/types';
 import pool from '@/lib/db'; // For linking user to employee in addEmployee action
@@ -51,11 +55,11 @@ export async function getEmployees(): Promise<Employee[]> {
     throw new Error("Failed to retrieve session context: " + e.message);
   }
 
-  const { tenantId, userRole, userId } = sessionData;
+  const { tenantId, userId } = sessionData;
 
   try {
-    if (userRole === 'Employee') {
-      console.log(`[Action getEmployees] Employee role, attempting to fetch own profile for session user: ${userId} in tenant: ${tenantId}`);
+    if (!(await hasPermission('employees.view_all'))) {
+      console.log(`[Action getEmployees] No 'employees.view_all' permission, attempting to fetch own profile for session user: ${userId} in tenant: ${tenantId}`);
       const employeeProfile = await dbGetEmployeeByUserId(userId, tenantId);
       if (employeeProfile) {
         console.log(`[Action getEmployees] Found own profile for employee ${userId}.`);
@@ -65,7 +69,7 @@ export async function getEmployees(): Promise<Employee[]> {
         return [];
       }
     }
-    console.log(`[Action getEmployees] Admin/Manager role, fetching all employees for tenant: ${tenantId}`);
+    console.log(`[Action getEmployees] 'employees.view_all' granted, fetching all employees for tenant: ${tenantId}`);
     const employees = await dbGetAllEmployees(tenantId);
     console.log(`[Action getEmployees] Fetched ${employees.length} employees for tenant ${tenantId}.`);
     return employees;
@@ -98,8 +102,8 @@ export async function getEmployeeByIdAction(id: string): Promise<Employee | unde
     try {
         let employeeProfile: Employee | undefined;
 
-        if (userRole === 'Employee') {
-            console.log(`[Action getEmployeeByIdAction] Employee role. URL param id: ${idToQuery}. Session userId: ${currentUserIdLower}`);
+        if (!(await hasPermission('employees.view_all'))) {
+            console.log(`[Action getEmployeeByIdAction] Own-profile access only. URL param id: ${idToQuery}. Session userId: ${currentUserIdLower}`);
             // For "My Profile" link, idToQuery is user_id. For "Edit My Profile", idToQuery is employee.id (PK)
             if (idToQuery === currentUserIdLower) { // This is "My Profile" view, ID in URL is user_id
                 console.log(`[Action getEmployeeByIdAction] Employee role. ID from URL matches session userId. Fetching own profile using dbGetEmployeeByUserId with userId: ${idToQuery}, tenantId: ${tenantIdToQuery}`);
@@ -124,8 +128,8 @@ export async function getEmployeeByIdAction(id: string): Promise<Employee | unde
                     throw new Error("Employee profile not found or you are not authorized.");
                 }
             }
-        } else { // Admin or Manager
-            console.log(`[Action getEmployeeByIdAction] Admin/Manager role. Fetching employee by primary key (employee.id): ${idToQuery} for tenant: ${tenantIdToQuery}`);
+        } else { // employees.view_all
+            console.log(`[Action getEmployeeByIdAction] 'employees.view_all' granted. Fetching employee by primary key (employee.id): ${idToQuery} for tenant: ${tenantIdToQuery}`);
             employeeProfile = await dbGetEmployeeById(idToQuery, tenantIdToQuery);
             if (employeeProfile) {
                 console.log(`[Action getEmployeeByIdAction] dbGetEmployeeById SUCCESS: Found employee ${employeeProfile.id} (PK). Name: ${employeeProfile.name}`);
@@ -157,26 +161,21 @@ export async function getEmployeeByIdAction(id: string): Promise<Employee | unde
 
 export async function addEmployee(formData: EmployeeFormData): Promise<{ success: boolean; employee?: Employee; errors?: z.ZodIssue[] | { code: string; path: (string|number)[]; message: string }[] }> {
    console.log("[Action addEmployee] Received formData (raw from form):", JSON.stringify(formData, null, 2));
-   let sessionData: SessionData | null;
+   let sessionData: SessionData & { tenantId: string };
    try {
-       sessionData = await getSessionData();
-       if (!sessionData?.tenantId || !sessionData?.userRole || !sessionData?.tenantDomain) {
+       sessionData = await requirePermission('employees.create');
+       if (!sessionData.tenantDomain) {
            console.error("[Action addEmployee] Incomplete session data:", sessionData);
-           throw new Error("Incomplete session data. TenantId, UserRole, or TenantDomain is missing.");
+           throw new Error("Incomplete session data. TenantDomain is missing.");
        }
        console.log(`[Action addEmployee] Session data retrieved: tenantId=${sessionData.tenantId}, userRole=${sessionData.userRole}, tenantDomain=${sessionData.tenantDomain}`);
    } catch (e: any) {
-       console.error("[Action addEmployee] Error fetching session data:", e);
-       console.error("[Action addEmployee] Error stack:", e.stack);
-       return { success: false, errors: [{ code: 'custom', path: ['root'], message: 'Failed to verify session: ' + e.message }] };
+       console.warn("[Action addEmployee] Not authorized to add employees:", e.message);
+       return { success: false, errors: [{ code: 'custom', path: ['root'], message: e.message.startsWith('Forbidden') ? 'Unauthorized to add employees.' : 'Failed to verify session: ' + e.message }] };
    }
 
-   const { tenantId, userRole: userRolePerformingAction, tenantDomain } = sessionData;
-
-   if (userRolePerformingAction !== 'Admin' && userRolePerformingAction !== 'Manager') {
-        console.warn(`[Action addEmployee] Unauthorized attempt to add employee for tenant ${tenantId}. User role: ${userRolePerformingAction}`);
-        return { success: false, errors: [{ code: 'custom', path: ['root'], message: 'Unauthorized to add employees.' }] };
-   }
+   const { tenantId } = sessionData;
+   const tenantDomain = sessionData.tenantDomain as string; // Checked above
    console.log(`[Action addEmployee] Attempting to add employee for tenant: ${tenantId}`);
 
     const dataForValidation = {
@@ -201,8 +200,8 @@ export async function addEmployee(formData: EmployeeFormData): Promise<{ success
   const { role: employeeRoleForUser, ...employeeDetailsForm } = validation.data;
 
   let actualRoleToSet: UserRole = employeeRoleForUser || 'Employee';
-  if (userRolePerformingAction === 'Manager' && actualRoleToSet !== 'Employee') {
-      console.warn(`[Action addEmployee] Manager attempting to set role to ${actualRoleToSet}. Forcing to 'Employee'.`);
+  if (actualRoleToSet !== 'Employee' && !(await hasPermission('employees.assign_roles'))) {
+      console.warn(`[Action addEmployee] User without 'employees.assign_roles' attempting to set role to ${actualRoleToSet}. Forcing to 'Employee'.`);
       actualRoleToSet = 'Employee';
   }
   
@@ -215,12 +214,16 @@ export async function addEmployee(formData: EmployeeFormData): Promise<{ success
   };
 
 
+  const planLimitError = await getPlanLimitError(tenantId, employeeDataToSave.status === 'Inactive' ? ['users'] : ['users', 'employees']);
+  if (planLimitError) {
+    return { success: false, errors: [{ code: 'custom', path: ['root'], message: planLimitError }] };
+  }
+
   try {
     console.log("[Action addEmployee] Creating user and employee...");
 
-    const temporaryPassword = generateTemporaryPassword(12);
-    console.log('[Action addEmployee] Generated temporary password length:', temporaryPassword.length);
-    const passwordHash = await bcrypt.hash(temporaryPassword, SALT_ROUNDS);
+    // Unusable placeholder: the employee chooses their password when accepting the emailed invitation
+    const passwordHash = await bcrypt.hash(generateSecureToken(32), SALT_ROUNDS);
     
     let newUser;
     try {
@@ -261,24 +264,12 @@ export async function addEmployee(formData: EmployeeFormData): Promise<{ success
         client.release();
     }
 
-    try {
-        console.log(`[Action addEmployee] Attempting to queue welcome email for ${newEmployee.email} to ${tenantDomain}...`);
-        const emailSent = await sendEmployeeWelcomeEmail(
-            tenantId,
-            newEmployee.name,
-            newEmployee.email,
-            newUser.user_id, // Pass user's UUID
-            newEmployee.employeeId!, // Pass official employee_id (EMP-XXX)
-            temporaryPassword,
-            tenantDomain
-        );
-        if (emailSent) {
-            console.log(`[Action addEmployee] Employee welcome email for ${newEmployee.email} queued successfully.`);
-        } else {
-            console.error(`[Action addEmployee] Employee welcome email for ${newEmployee.email} failed to send (logged separately).`);
-        }
-    } catch (emailError: any) {
-        console.error(`[Action addEmployee] Error calling sendEmployeeWelcomeEmail: ${emailError.message}`, emailError.stack ? emailError.stack : '(No stack trace)');
+    const invitation = await sendEmployeeInvitationAction(newUser.user_id);
+    if (invitation.success && invitation.emailSent) {
+        console.log(`[Action addEmployee] Account invitation for ${newEmployee.email} sent.`);
+    } else {
+        // The employee shows up under pending invitations, where the invite can be resent
+        console.error(`[Action addEmployee] Account invitation for ${newEmployee.email} was not sent: ${invitation.error || 'email delivery failed'}`);
     }
 
     revalidatePath(`/${tenantDomain}/employees`);
@@ -320,7 +311,10 @@ export async function updateEmployee(id: string, formData: Partial<Omit<Employee
        return { success: false, errors: [{ code: 'custom', path: ['root'], message: 'Failed to verify session: ' + e.message }] };
    }
 
-   const { tenantId, userRole: userRolePerformingAction, userId: currentUserIdPerformingAction, tenantDomain } = sessionData;
+   const { tenantId, userId: currentUserIdPerformingAction, tenantDomain } = sessionData;
+   const permissions = await getPermissionsFromSession();
+   const canEditAnyEmployee = permissions.includes('employees.edit');
+   const canAssignRoles = permissions.includes('employees.assign_roles');
 
     const employeeToUpdate = await dbGetEmployeeById(id.toLowerCase(), tenantId); 
     if (!employeeToUpdate) {
@@ -330,12 +324,12 @@ export async function updateEmployee(id: string, formData: Partial<Omit<Employee
 
    let dataForValidation: Partial<EmployeeFormData> & { role?: UserRole } = { ...formData };
 
-    if (userRolePerformingAction === 'Employee') {
+    if (!canEditAnyEmployee) {
         if (employeeToUpdate.userId?.toLowerCase() !== currentUserIdPerformingAction.toLowerCase()) {
-            console.warn(`[Action updateEmployee] Auth_Failed (Employee Role): Attempt to update employee PK ${id}. Record's user_id (${employeeToUpdate.userId}) != session userId (${currentUserIdPerformingAction}).`);
+            console.warn(`[Action updateEmployee] Auth_Failed (no 'employees.edit'): Attempt to update employee PK ${id}. Record's user_id (${employeeToUpdate.userId}) != session userId (${currentUserIdPerformingAction}).`);
             return { success: false, errors: [{ code: 'custom', path: ['root'], message: 'Unauthorized to update this employee profile.' }] };
         }
-        // Define allowed fields for 'Employee' role to update
+        // Define the personal fields anyone may update on their own profile
         const allowedFields: (keyof EmployeeFormData)[] = [
             'personal_email', 'phone', 'dateOfBirth', 'marital_status', 
             'nationality', 'blood_group', 'emergency_contact_name', 
@@ -371,14 +365,14 @@ export async function updateEmployee(id: string, formData: Partial<Omit<Employee
             return { success: true, employee: employeeToUpdate }; // Return current data
         }
         dataForValidation = updatesToApply; // Only use allowed updates for validation
-        if (formData.role) { // If role was somehow sent, remove it for 'Employee'
+        if (formData.role) { // If role was somehow sent, remove it for self-service edits
             delete (dataForValidation as any).role;
         }
 
-    } else if (formData.role && userRolePerformingAction === 'Admin') { 
+    } else if (formData.role && canAssignRoles) { 
          dataForValidation.role = formData.role;
-    } else if (formData.role && userRolePerformingAction !== 'Admin') {
-        console.warn(`[Action updateEmployee] Non-Admin role ${userRolePerformingAction} attempting to change user role. Ignoring role change.`);
+    } else if (formData.role && !canAssignRoles) {
+        console.warn(`[Action updateEmployee] User ${currentUserIdPerformingAction} without 'employees.assign_roles' attempting to change user role. Ignoring role change.`);
         delete dataForValidation.role; 
     }
 
@@ -398,13 +392,20 @@ export async function updateEmployee(id: string, formData: Partial<Omit<Employee
     reportingManagerId: validation.data.reportingManagerId === "" ? null : (validation.data.reportingManagerId || null),
   };
 
+  if (employeeToUpdate.status === 'Inactive' && finalDataToUpdate.status && finalDataToUpdate.status !== 'Inactive') {
+    const planLimitError = await getPlanLimitError(tenantId, ['employees']);
+    if (planLimitError) {
+      return { success: false, errors: [{ code: 'custom', path: ['status'], message: planLimitError }] };
+    }
+  }
+
   try {
     console.log("[Action updateEmployee] Calling dbUpdateEmployee...");
     const { role: roleToUpdate, ...employeeUpdatesForDb } = finalDataToUpdate;
 
     const updatedEmployee = await dbUpdateEmployee(id, tenantId, {
         ...employeeUpdatesForDb, // This is Omit<EmployeeFormData, 'role'>
-        role: (userRolePerformingAction === 'Admin' && roleToUpdate) ? roleToUpdate : undefined,
+        role: (canAssignRoles && roleToUpdate) ? roleToUpdate : undefined,
     });
 
     if (updatedEmployee) {
@@ -436,28 +437,25 @@ export async function updateEmployee(id: string, formData: Partial<Omit<Employee
 }
 
 export async function deleteEmployeeAction(id: string): Promise<{ success: boolean; error?: string }> {
-   let sessionData: SessionData | null;
+   let sessionData: SessionData & { tenantId: string };
    try {
-       sessionData = await getSessionData();
-       if (!sessionData?.tenantId || !sessionData?.userRole || !sessionData?.tenantDomain) {
-            console.error("[Action deleteEmployeeAction] Incomplete session data:", sessionData);
-           throw new Error("Incomplete session data.");
-       }
+       sessionData = await requirePermission('employees.delete');
    } catch (e: any) {
-        console.error("[Action deleteEmployeeAction] Error fetching session data:", e.message);
-        return { success: false, error: 'Failed to verify session: ' + e.message };
+        console.warn(`[Action deleteEmployeeAction] Unauthorized attempt to delete employee PK ${id}:`, e.message);
+        return { success: false, error: e.message.startsWith('Forbidden') ? 'Unauthorized to delete employees.' : 'Failed to verify session: ' + e.message };
    }
 
-   const { tenantId, userRole, tenantDomain } = sessionData;
-
-   if (userRole !== 'Admin' && userRole !== 'Manager') {
-       console.warn(`[Action deleteEmployeeAction] Unauthorized attempt to delete employee PK ${id} for tenant ${tenantId}`);
-       return { success: false, error: 'Unauthorized to delete employees.' };
-   }
+   const { tenantId, tenantDomain } = sessionData;
 
    console.log(`[Action deleteEmployeeAction] Attempting to delete employee PK ${id} for tenant: ${tenantId}`);
 
   try {
+    const employeeToDelete = await dbGetEmployeeById(id.toLowerCase(), tenantId);
+    if (employeeToDelete?.userId) {
+        // Kill live sessions before the user row goes away.
+        const revokedCount = await dbRevokeAllSessionsForUser(employeeToDelete.userId, tenantId, 'employee_deleted');
+        console.log(`[Action deleteEmployeeAction] Revoked ${revokedCount} session(s) for user ${employeeToDelete.userId}.`);
+    }
     const deleted = await dbDeleteEmployee(id, tenantId);
     if (deleted) {
        console.log(`[Action deleteEmployeeAction] Employee PK ${id} (and associated user if any) deleted successfully. Revalidating paths...`);
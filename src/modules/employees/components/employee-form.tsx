@@ -6,7 +6,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useRouter } from 'next/navigation';
 import { employeeSchema, type EmployeeFormData, employmentTypeSchema, genderSchema, type Employee, employeeStatusSchema } from '@/modules/employees/types';
-import type { UserRole } from '@/modules/auth/types';
+import type { PermissionKey } from '@/modules/roles/types';
 import { userRoleSchema } from '@/modules/auth/types';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -34,7 +34,7 @@ interface EmployeeFormProps {
   formTitle: string;
   formDescription: string;
   tenantDomain: string;
-  currentUserRole: UserRole | null;
+  permissions: PermissionKey[] | null; // Effective permissions of the signed-in user
 }
 
 type EmployeeFormShape = EmployeeFormData;
@@ -47,7 +47,7 @@ export function EmployeeForm({
   formTitle,
   formDescription,
   tenantDomain,
-  currentUserRole,
+  permissions,
 }: EmployeeFormProps) {
   const router = useRouter();
   const { toast } = useToast();
@@ -63,8 +63,9 @@ export function EmployeeForm({
 
   const isEditMode = !!employee;
   const actualSubmitButtonText = submitButtonText || (isEditMode ? "Save Changes" : "Add Employee");
-  const isEmployeeRoleActing = currentUserRole === 'Employee';
-  const isUserAdmin = currentUserRole === 'Admin';
+  const isSelfServiceEdit = !permissions?.includes('employees.edit'); // May only change personal fields on their own profile
+  const canAssignRoles = !!permissions?.includes('employees.assign_roles');
+  const canViewAllEmployees = !!permissions?.includes('employees.view_all');
 
   const getFormattedDate = (dateString?: string | null): string | undefined => {
     if (!dateString) return undefined;
@@ -108,10 +109,10 @@ export function EmployeeForm({
   });
 
   React.useEffect(() => {
-    if (currentUserRole === 'Admin' || currentUserRole === 'Manager') {
+    if (canViewAllEmployees) {
       const fetchManagers = async () => {
         setIsLoadingManagers(true);
-        console.log(`[EmployeeForm - fetchManagers effect] Role: ${currentUserRole}. Fetching managers. isEditMode: ${isEditMode}, employeeId (PK being edited): ${employee?.id}`);
+        console.log(`[EmployeeForm - fetchManagers effect] Fetching managers. isEditMode: ${isEditMode}, employeeId (PK being edited): ${employee?.id}`);
         try {
           const response = await fetch('/api/employees');
           if (!response.ok) {
@@ -163,9 +164,9 @@ export function EmployeeForm({
     } else {
       setPotentialManagers([]);
       setIsLoadingManagers(false);
-      console.log(`[EmployeeForm - fetchManagers effect] Role is ${currentUserRole}. Not fetching managers or cleared list.`);
+      console.log(`[EmployeeForm - fetchManagers effect] No 'employees.view_all' permission. Not fetching managers or cleared list.`);
     }
-  }, [currentUserRole, isEditMode, employee?.id, employee?.reportingManagerId, toast, form]);
+  }, [canViewAllEmployees, isEditMode, employee?.id, employee?.reportingManagerId, toast, form]);
 
 
   const potentialManagersFiltered = React.useMemo(() => {
@@ -244,7 +245,7 @@ export function EmployeeForm({
         console.log("[Employee Form] API Success:", responseData);
         toast({
             title: `Employee ${isEditMode ? 'Updated' : 'Added'}`,
-            description: `${responseData?.name || payload.first_name + ' ' + payload.last_name} has been successfully ${isEditMode ? 'updated' : 'added'}. ${!isEditMode && responseData?.employeeId ? `Employee ID: ${responseData.employeeId}` : ''}`,
+            description: `${responseData?.name || payload.first_name + ' ' + payload.last_name} has been successfully ${isEditMode ? 'updated' : 'added'}. ${!isEditMode && responseData?.employeeId ? `Employee ID: ${responseData.employeeId}. ` : ''}${!isEditMode ? 'An invitation to activate their account has been emailed.' : ''}`,
             className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
         });
 
@@ -267,7 +268,7 @@ export function EmployeeForm({
     }
   };
   
-  const canEditSensitiveFields = isUserAdmin || (currentUserRole === 'Manager' && !isEditMode); // Managers can set on create
+  const canEditSensitiveFields = canAssignRoles || !isEditMode; // Login email can be set on create, changed later only by role administrators
 
   return (
     <Form {...form}>
@@ -281,13 +282,13 @@ export function EmployeeForm({
         <h3 className="text-lg font-medium border-b pb-2">Personal Information</h3>
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
             <FormField control={form.control} name="first_name" render={({ field }) => (
-                <FormItem><FormLabel>First Name *</FormLabel><FormControl><Input placeholder="e.g. Jane" {...field} disabled={isEmployeeRoleActing && isEditMode} /></FormControl><FormMessage /></FormItem>
+                <FormItem><FormLabel>First Name *</FormLabel><FormControl><Input placeholder="e.g. Jane" {...field} disabled={isSelfServiceEdit && isEditMode} /></FormControl><FormMessage /></FormItem>
             )}/>
             <FormField control={form.control} name="middle_name" render={({ field }) => (
-                <FormItem><FormLabel>Middle Name</FormLabel><FormControl><Input placeholder="Optional" {...field} value={field.value ?? ""} disabled={isEmployeeRoleActing && isEditMode} /></FormControl><FormMessage /></FormItem>
+                <FormItem><FormLabel>Middle Name</FormLabel><FormControl><Input placeholder="Optional" {...field} value={field.value ?? ""} disabled={isSelfServiceEdit && isEditMode} /></FormControl><FormMessage /></FormItem>
             )}/>
             <FormField control={form.control} name="last_name" render={({ field }) => (
-                <FormItem><FormLabel>Last Name *</FormLabel><FormControl><Input placeholder="e.g. Doe" {...field} disabled={isEmployeeRoleActing && isEditMode} /></FormControl><FormMessage /></FormItem>
+                <FormItem><FormLabel>Last Name *</FormLabel><FormControl><Input placeholder="e.g. Doe" {...field} disabled={isSelfServiceEdit && isEditMode} /></FormControl><FormMessage /></FormItem>
             )}/>
         </div>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -336,14 +337,14 @@ export function EmployeeForm({
         <h3 className="text-lg font-medium border-b pb-2 pt-4">Employment Information</h3>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <FormField control={form.control} name="position" render={({ field }) => (
-                <FormItem><FormLabel>Position / Job Title *</FormLabel><FormControl><Input placeholder="e.g. Software Engineer" {...field} value={field.value ?? ""} disabled={isEmployeeRoleActing && isEditMode} /></FormControl><FormMessage /></FormItem>
+                <FormItem><FormLabel>Position / Job Title *</FormLabel><FormControl><Input placeholder="e.g. Software Engineer" {...field} value={field.value ?? ""} disabled={isSelfServiceEdit && isEditMode} /></FormControl><FormMessage /></FormItem>
             )}/>
             <FormField control={form.control} name="department" render={({ field }) => (
-                <FormItem><FormLabel>Department *</FormLabel><FormControl><Input placeholder="e.g. Technology" {...field} value={field.value ?? ""} disabled={isEmployeeRoleActing && isEditMode} /></FormControl><FormMessage /></FormItem>
+                <FormItem><FormLabel>Department *</FormLabel><FormControl><Input placeholder="e.g. Technology" {...field} value={field.value ?? ""} disabled={isSelfServiceEdit && isEditMode} /></FormControl><FormMessage /></FormItem>
             )}/>
         </div>
 
-        {isUserAdmin && !isEditMode && ( // Only Admin can set role on creation
+        {canAssignRoles && !isEditMode && ( // Only users who can assign roles set it on creation
             <FormField control={form.control} name="role" render={({ field }) => (
                 <FormItem><FormLabel>User Role *</FormLabel><Select onValueChange={field.onChange} value={field.value ?? 'Employee'} defaultValue={field.value ?? 'Employee'}><FormControl><SelectTrigger><SelectValue placeholder="Select role" /></SelectTrigger></FormControl><SelectContent>
                     {userRoleSchema.options.map(roleValue => (<SelectItem key={roleValue} value={roleValue}>{roleValue}</SelectItem>))}</SelectContent></Select><FormMessage /></FormItem>
@@ -356,9 +357,9 @@ export function EmployeeForm({
 
         <FormField control={form.control} name="reportingManagerId" render={({ field }) => (
             <FormItem><FormLabel>Reporting Manager</FormLabel><div className="flex items-center gap-2">
-                <Input readOnly value={selectedManagerName || (isLoadingManagers && !field.value ? "Loading..." : (field.value && field.value !== NO_MANAGER_VALUE ? selectedManagerName : "None selected"))} placeholder="Select a manager" className="flex-grow bg-background border border-input cursor-default" onClick={() => { if (!isEmployeeRoleActing || !isEditMode) setIsManagerLookupOpen(true);}} disabled={isEmployeeRoleActing && isEditMode} />
-                <Button type="button" variant="outline" onClick={() => setIsManagerLookupOpen(true)} disabled={isLoadingManagers || (isEmployeeRoleActing && isEditMode)} className="shrink-0"><Search className="mr-2 h-4 w-4" />{selectedManagerName ? "Change" : "Select"}</Button>
-                {(selectedManagerName || field.value === NO_MANAGER_VALUE) && (<Button type="button" variant="ghost" size="icon" onClick={() => { field.onChange(null); setSelectedManagerName("");}} disabled={isEmployeeRoleActing && isEditMode} className="shrink-0 text-muted-foreground hover:text-destructive" title="Clear manager selection"><XCircle className="h-4 w-4" /></Button>)}
+                <Input readOnly value={selectedManagerName || (isLoadingManagers && !field.value ? "Loading..." : (field.value && field.value !== NO_MANAGER_VALUE ? selectedManagerName : "None selected"))} placeholder="Select a manager" className="flex-grow bg-background border border-input cursor-default" onClick={() => { if (!isSelfServiceEdit || !isEditMode) setIsManagerLookupOpen(true);}} disabled={isSelfServiceEdit && isEditMode} />
+                <Button type="button" variant="outline" onClick={() => setIsManagerLookupOpen(true)} disabled={isLoadingManagers || (isSelfServiceEdit && isEditMode)} className="shrink-0"><Search className="mr-2 h-4 w-4" />{selectedManagerName ? "Change" : "Select"}</Button>
+                {(selectedManagerName || field.value === NO_MANAGER_VALUE) && (<Button type="button" variant="ghost" size="icon" onClick={() => { field.onChange(null); setSelectedManagerName("");}} disabled={isSelfServiceEdit && isEditMode} className="shrink-0 text-muted-foreground hover:text-destructive" title="Clear manager selection"><XCircle className="h-4 w-4" /></Button>)}
             </div><FormMessage /></FormItem>
         )}/>
 
@@ -374,21 +375,21 @@ export function EmployeeForm({
 
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <FormField control={form.control} name="employmentType" render={({ field }) => (
-                <FormItem><FormLabel>Employment Type *</FormLabel><Select onValueChange={field.onChange} value={field.value ?? "Full-time"} disabled={isEmployeeRoleActing && isEditMode}><FormControl><SelectTrigger><SelectValue placeholder="Select employment type" /></SelectTrigger></FormControl><SelectContent>
+                <FormItem><FormLabel>Employment Type *</FormLabel><Select onValueChange={field.onChange} value={field.value ?? "Full-time"} disabled={isSelfServiceEdit && isEditMode}><FormControl><SelectTrigger><SelectValue placeholder="Select employment type" /></SelectTrigger></FormControl><SelectContent>
                     {employmentTypeSchema.options.map(type => (<SelectItem key={type} value={type}>{type}</SelectItem>))}</SelectContent></Select><FormMessage /></FormItem>
             )}/>
             <FormField control={form.control} name="hireDate" render={({ field }) => (
-                <FormItem className="flex flex-col pt-2"><FormLabel>Hire Date *</FormLabel><Popover open={hireDatePickerOpen} onOpenChange={setHireDatePickerOpen}><PopoverTrigger asChild><FormControl><Button variant={"outline"} className={cn("w-full pl-3 text-left font-normal",!field.value && "text-muted-foreground")} disabled={(isEmployeeRoleActing && isEditMode)} >
-                    {field.value && isValid(parseISO(field.value)) ? format(parseISO(field.value), "PPP") : <span>Pick a date</span>}<CalendarIcon className="ml-auto h-4 w-4 opacity-50" /></Button></FormControl></PopoverTrigger><PopoverContent className="w-auto p-0" align="start"><Calendar mode="single" selected={field.value && isValid(parseISO(field.value)) ? parseISO(field.value) : undefined} onSelect={(date) => { field.onChange(date ? format(date, 'yyyy-MM-dd') : ""); setHireDatePickerOpen(false);}} disabled={(date) => (date > new Date() || date < new Date("1900-01-01")) || (isEmployeeRoleActing && isEditMode)} initialFocus /></PopoverContent></Popover><FormMessage /></FormItem>
+                <FormItem className="flex flex-col pt-2"><FormLabel>Hire Date *</FormLabel><Popover open={hireDatePickerOpen} onOpenChange={setHireDatePickerOpen}><PopoverTrigger asChild><FormControl><Button variant={"outline"} className={cn("w-full pl-3 text-left font-normal",!field.value && "text-muted-foreground")} disabled={(isSelfServiceEdit && isEditMode)} >
+                    {field.value && isValid(parseISO(field.value)) ? format(parseISO(field.value), "PPP") : <span>Pick a date</span>}<CalendarIcon className="ml-auto h-4 w-4 opacity-50" /></Button></FormControl></PopoverTrigger><PopoverContent className="w-auto p-0" align="start"><Calendar mode="single" selected={field.value && isValid(parseISO(field.value)) ? parseISO(field.value) : undefined} onSelect={(date) => { field.onChange(date ? format(date, 'yyyy-MM-dd') : ""); setHireDatePickerOpen(false);}} disabled={(date) => (date > new Date() || date < new Date("1900-01-01")) || (isSelfServiceEdit && isEditMode)} initialFocus /></PopoverContent></Popover><FormMessage /></FormItem>
             )}/>
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <FormField control={form.control} name="workLocation" render={({ field }) => (
-                <FormItem><FormLabel>Work Location</FormLabel><FormControl><Input placeholder="e.g. Main Office, Remote" {...field} value={field.value ?? ""} disabled={isEmployeeRoleActing && isEditMode} /></FormControl><FormMessage /></FormItem>
+                <FormItem><FormLabel>Work Location</FormLabel><FormControl><Input placeholder="e.g. Main Office, Remote" {...field} value={field.value ?? ""} disabled={isSelfServiceEdit && isEditMode} /></FormControl><FormMessage /></FormItem>
             )}/>
             <FormField control={form.control} name="status" render={({ field }) => (
-                <FormItem><FormLabel>Employee Status *</FormLabel><Select onValueChange={field.onChange} value={field.value} disabled={isEmployeeRoleActing && isEditMode}><FormControl><SelectTrigger><SelectValue placeholder="Select status" /></SelectTrigger></FormControl><SelectContent>
+                <FormItem><FormLabel>Employee Status *</FormLabel><Select onValueChange={field.onChange} value={field.value} disabled={isSelfServiceEdit && isEditMode}><FormControl><SelectTrigger><SelectValue placeholder="Select status" /></SelectTrigger></FormControl><SelectContent>
                     {employeeStatusSchema.options.map(status => (<SelectItem key={status} value={status}>{status}</SelectItem>))}</SelectContent></Select><FormMessage /></FormItem>
             )}/>
         </div>
@@ -3,8 +3,11 @@ import pool from '@/lib/db';
 import type { Employee, EmployeeFormData, Gender, EmploymentType, EmployeeStatus } from '@/modules/employees/types';
 import { initializeEmployeeBalancesForAllTypes } from '@/modules/leave/lib/db';
 import type { UserRole } from '@/modules/auth/types';
-import { deleteUserById as dbDeleteUserById } from '@/modules/auth/lib/db';
+import { deleteUserById as dbDeleteUserById, revokeAllSessionsForUser as dbRevokeAllSessionsForUser } from '@/modules/auth/lib/db';
 import { formatISO, isValid, parseISO } from 'date-fns';
+import { recordAuditEvent } from '@/modules/audit/lib/db';
+import { diffForAudit } from '@/modules/audit/lib/diff';
+import { getTenantConfigValue } from '@/modules/tenants/lib/config';
 
 const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -159,14 +162,15 @@ export async function getEmployeeByUserId(userId: string, tenantId: string, clie
 
 
 async function generateNextEmployeeId(tenantId: string, client: any): Promise<string> {
-    const prefix = "EMP-";
+    const prefix = await getTenantConfigValue(tenantId, 'employeeIdPrefix');
+    // Only IDs with the current prefix count, so changing the prefix starts a new sequence
     const query = `
         SELECT employee_id FROM employees
-        WHERE tenant_id = $1 AND employee_id ~ '^${prefix}[0-9]+$'
-        ORDER BY CAST(SUBSTRING(employee_id FROM ${prefix.length + 1}) AS INTEGER) DESC
+        WHERE tenant_id = $1 AND LEFT(employee_id, $2) = $3 AND SUBSTRING(employee_id FROM $2 + 1) ~ '^[0-9]+$'
+        ORDER BY CAST(SUBSTRING(employee_id FROM $2 + 1) AS BIGINT) DESC
         LIMIT 1;
     `;
-    const res = await client.query(query, [tenantId.toLowerCase()]);
+    const res = await client.query(query, [tenantId.toLowerCase(), prefix.length, prefix]);
     let nextNumericPart = 1;
     if (res.rows.length > 0 && res.rows[0].employee_id) {
         const lastId = res.rows[0].employee_id;
@@ -236,9 +240,14 @@ export async function addEmployeeInternal(
         await initializeEmployeeBalancesForAllTypes(employeeData.tenantId, newEmployeePkId, client);
         console.log(`[DB addEmployeeInternal] Initialized leave balances for new employee ${newEmployeePkId}`);
 
-        await client.query('COMMIT');
         const createdEmployee = await getEmployeeById(newEmployeePkId, employeeData.tenantId, client);
-        if (!createdEmployee) throw new Error("Failed to retrieve newly created employee details after commit.");
+        if (!createdEmployee) throw new Error("Failed to retrieve newly created employee details.");
+        await recordAuditEvent(client, {
+            tenantId: employeeData.tenantId, entityType: 'employee', entityId: createdEmployee.id, entityLabel: createdEmployee.name,
+            action: 'create', changes: diffForAudit(null, createdEmployee),
+        });
+
+        await client.query('COMMIT');
         return createdEmployee;
 
     } catch (err: any) {
@@ -268,6 +277,7 @@ export async function updateEmployee(id: string, tenantId: string, updates: Part
     const client = await pool.connect();
     try {
         await client.query('BEGIN');
+        const before = await getEmployeeById(id, tenantId, client);
 
         const empTableUpdates: Partial<any> = {};
         if (updates.first_name !== undefined) empTableUpdates.first_name = updates.first_name;
@@ -328,8 +338,21 @@ export async function updateEmployee(id: string, tenantId: string, updates: Part
         // This would involve fetching the current employment_details record,
         // updating it or creating a new one if employment terms change significantly.
 
+        const after = await getEmployeeById(id, tenantId, client);
+        if (updates.status === 'Inactive' && after?.userId) {
+            // In the same transaction, so an employee is never left deactivated with a live session
+            const revokedCount = await dbRevokeAllSessionsForUser(after.userId, tenantId, 'employee_deactivated', undefined, client);
+            console.log(`[DB updateEmployee] Employee ${id} deactivated. Revoked ${revokedCount} session(s) for user ${after.userId}.`);
+        }
+        if (before && after) {
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'employee', entityId: id, entityLabel: after.name,
+                action: 'update', changes: diffForAudit(before, after),
+            });
+        }
+
         await client.query('COMMIT');
-        return getEmployeeById(id, tenantId, client); 
+        return after;
 
     } catch (err: any) {
         await client.query('ROLLBACK');
@@ -357,6 +380,7 @@ export async function deleteEmployee(id: string, tenantId: string): Promise<bool
     const client = await pool.connect();
     try {
         await client.query('BEGIN');
+        const before = await getEmployeeById(id, tenantId, client);
         console.log(`[DB deleteEmployee] Fetching employee record for PK ${id} to get user_id.`);
         const employeeRes = await client.query('SELECT user_id FROM employees WHERE id = $1 AND tenant_id = $2', [id.toLowerCase(), tenantId.toLowerCase()]);
         
@@ -397,6 +421,11 @@ export async function deleteEmployee(id: string, tenantId: string): Promise<bool
             console.log(`[DB deleteEmployee] No user_id associated with employee PK ${id}, or user_id was null. Skipping user deletion.`);
         }
 
+        await recordAuditEvent(client, {
+            tenantId, entityType: 'employee', entityId: id, entityLabel: before?.name ?? null,
+            action: 'delete', changes: diffForAudit(before, null),
+        });
+
         await client.query('COMMIT');
         console.log(`[DB deleteEmployee] Transaction committed for deletion of employee PK ${id}.`);
         return true;
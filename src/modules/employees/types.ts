@@ -2,7 +2,7 @@
 import { z } from 'zod';
 import { userRoleSchema } from '@/modules/auth/types';
 
-// ENUM types based on your comprehensive schema in init-db.ts
+// ENUM types based on your comprehensive schema in src/lib/migrations
 export const employmentTypeSchema = z.enum(['Full-time', 'Part-time', 'Contract', 'Internship', 'Temporary']);
 export type EmploymentType = z.infer<typeof employmentTypeSchema>;
 
@@ -25,7 +25,7 @@ import { getEmployeeById as dbGetEmployeeByIdFromEmployeesModule } from '@/modul
 
 import { z } from 'zod';
 import { revalidatePath } from 'next/cache';
-import { getTenantIdFromSession, getUserIdFromSession, isAdminFromSession, getEmployeeProfileForCurrentUser } from '@/modules/auth/actions';
+import { getTenantIdFromSession, getUserIdFromSession, hasPermission, requirePermission, getEmployeeProfileForCurrentUser } from '@/modules/auth/actions';
 
 // --- Leave Request Actions ---
 
@@ -35,6 +35,16 @@ export async function getLeaveRequestsAction(filters?: { employeeId?: string, st
      console.error("[Action getLeaveRequestsAction] Tenant ID could not be determined from session.");
      throw new Error("Tenant context not found.");
   }
+
+  // Approved leave is shown to everyone on the dashboard; other listings are limited to the caller's
+  // own requests (or their approval queue) unless they hold 'leave.view_all'.
+  if (!filters?.forManagerApproval && filters?.status !== 'Approved' && !(await hasPermission('leave.view_all'))) {
+    const currentUserId = await getUserIdFromSession();
+    if (!filters?.employeeId || filters.employeeId !== currentUserId) {
+      console.warn(`[Action getLeaveRequestsAction] User ${currentUserId} without 'leave.view_all' requested leave of ${filters?.employeeId || 'all employees'}.`);
+      throw new Error("Unauthorized: You can only view your own leave requests.");
+    }
+  }
   
   let effectiveFilters: any = { ...filters }; // Use 'any' for effectiveFilters to allow adding new properties
 
@@ -145,9 +155,9 @@ export async function updateLeaveRequestStatusAction(
       return { success: false, errors: [{ code: 'custom', path: ['id'], message: 'Leave request not found.' }] };
   }
 
-  const isAdmin = await isAdminFromSession();
+  const canApproveAny = await hasPermission('leave.approve');
   let isReportingManager = false;
-  if (!isAdmin) {
+  if (!canApproveAny) {
       const managerProfile = await dbGetEmployeeByUserId(approverUserId, tenantId);
       if (managerProfile && requestToUpdate.employeeId) { 
           // requestToUpdate.employeeId is the PK of the submitting employee
@@ -158,7 +168,7 @@ export async function updateLeaveRequestStatusAction(
       }
   }
 
-  if (!isAdmin && !isReportingManager) {
+  if (!canApproveAny && !isReportingManager) {
       return { success: false, errors: [{ code: 'custom', path: [], message: 'Unauthorized to approve/reject this request.' }] };
   }
 
@@ -227,8 +237,11 @@ export async function addLeaveTypeAction(formData: Omit<LeaveType, 'id' | 'tenan
   const tenantId = await getTenantIdFromSession();
   if (!tenantId) return { success: false, errors: [{ code: 'custom', path: [], message: 'Tenant context not found.' }] };
 
-  const isAdmin = await isAdminFromSession();
-  if (!isAdmin) return { success: false, errors: [{ code: 'custom', path: [], message: 'Unauthorized.' }] };
+  try {
+      await requirePermission('leave.manage');
+  } catch (authError: any) {
+      return { success: false, errors: [{ code: 'custom', path: [], message: authError.message }] };
+  }
 
    if (!formData.name || !formData.name.trim()) {
      return { success: false, errors: [{ code: 'custom', path: ['name'], message: 'Leave type name is required' }] };
@@ -256,8 +269,11 @@ export async function updateLeaveTypeAction(id: string, formData: Partial<Omit<L
   const tenantId = await getTenantIdFromSession();
   if (!tenantId) return { success: false, errors: [{ code: 'custom', path: [], message: 'Tenant context not found.' }] };
 
-   const isAdmin = await isAdminFromSession();
-   if (!isAdmin) return { success: false, errors: [{ code: 'custom', path: [], message: 'Unauthorized.' }] };
+   try {
+       await requirePermission('leave.manage');
+   } catch (authError: any) {
+       return { success: false, errors: [{ code: 'custom', path: [], message: authError.message }] };
+   }
 
    if (formData.name !== undefined && !formData.name.trim()) {
      return { success: false, errors: [{ code: 'custom', path: ['name'], message: 'Leave type name cannot be empty' }] };
@@ -287,8 +303,11 @@ export async function deleteLeaveTypeAction(id: string): Promise<{ success: bool
   const tenantId = await getTenantIdFromSession();
   if (!tenantId) return { success: false, error: 'Tenant context not found.' };
 
-   const isAdmin = await isAdminFromSession();
-   if (!isAdmin) return { success: false, error: 'Unauthorized.' };
+   try {
+       await requirePermission('leave.manage');
+   } catch (authError: any) {
+       return { success: false, error: authError.message };
+   }
 
   try {
     const deleted = await dbDeleteLeaveType(id, tenantId);
@@ -312,6 +331,10 @@ export async function getEmployeeLeaveBalancesAction(employeeId: string): Promis
        console.error("[Action getEmployeeLeaveBalancesAction] Tenant ID could not be determined from session.");
        throw new Error("Tenant context not found.");
     }
+
+    if (employeeId !== await getUserIdFromSession()) {
+        await requirePermission('leave.view_all');
+    }
     
     const employeeProfile = await dbGetEmployeeByUserId(employeeId, tenantId);
     if (!employeeProfile) {
@@ -334,8 +357,11 @@ export async function getEmployeeLeaveBalancesAction(employeeId: string): Promis
 
 // --- Accrual Action ---
 export async function runAccrualProcessAction(): Promise<{ success: boolean; error?: string }> {
-    const isAdmin = await isAdminFromSession();
-    if (!isAdmin) return { success: false, error: 'Unauthorized.' };
+    try {
+        await requirePermission('leave.manage');
+    } catch (authError: any) {
+        return { success: false, error: authError.message };
+    }
 
     const tenantId = await getTenantIdFromSession();
     if (!tenantId) return {success: false, error: 'Tenant context not found.'};
@@ -368,8 +394,11 @@ export async function addHolidayAction(formData: HolidayFormData): Promise<{ suc
     const tenantId = await getTenantIdFromSession();
     if (!tenantId) return { success: false, errors: [{ code: 'custom', path: [], message: 'Tenant context not found.' }] };
 
-    const isAdmin = await isAdminFromSession();
-    if (!isAdmin) return { success: false, errors: [{ code: 'custom', path: [], message: 'Unauthorized.' }] };
+    try {
+        await requirePermission('leave.manage');
+    } catch (authError: any) {
+        return { success: false, errors: [{ code: 'custom', path: [], message: authError.message }] };
+    }
 
     const validation = holidaySchema.omit({ id: true, tenantId: true, createdAt: true, updatedAt: true }).safeParse(formData);
     if (!validation.success) {
@@ -393,8 +422,11 @@ export async function updateHolidayAction(id: string, formData: HolidayFormData)
     const tenantId = await getTenantIdFromSession();
     if (!tenantId) return { success: false, errors: [{ code: 'custom', path: [], message: 'Tenant context not found.' }] };
 
-    const isAdmin = await isAdminFromSession();
-    if (!isAdmin) return { success: false, errors: [{ code: 'custom', path: [], message: 'Unauthorized.' }] };
+    try {
+        await requirePermission('leave.manage');
+    } catch (authError: any) {
+        return { success: false, errors: [{ code: 'custom', path: [], message: authError.message }] };
+    }
 
     const validation = holidaySchema.omit({ id: true, tenantId: true, createdAt: true, updatedAt: true }).safeParse(formData);
     if (!validation.success) {
@@ -422,8 +454,11 @@ export async function deleteHolidayAction(id: string): Promise<{ success: boolea
     const tenantId = await getTenantIdFromSession();
     if (!tenantId) return { success: false, error: 'Tenant context not found.' };
 
-    const isAdmin = await isAdminFromSession();
-    if (!isAdmin) return { success: false, error: 'Unauthorized.' };
+    try {
+        await requirePermission('leave.manage');
+    } catch (authError: any) {
+        return { success: false, error: authError.message };
+    }
 
     try {
         const deleted = await dbDeleteHoliday(id, tenantId);
@@ -16,17 +16,18 @@ import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { LeaveType, LeaveRequest, LeaveBalance, Holiday } from "@/modules/leave/types";
 import type { Gender } from "@/modules/employees/types";
-import type { UserRole } from "@/modules/auth/types";
+import type { PermissionKey } from "@/modules/roles/types";
 import { getHolidaysAction, getLeaveRequestsAction, getLeaveTypesAction, getEmployeeLeaveBalancesAction } from '@/modules/leave/actions';
 import { useSearchParams, useRouter } from "next/navigation";
 import { cn } from "@/lib/utils"; // Import cn
 
 interface LeavePageClientProps {
   userId: string | null;
-  isAdmin: boolean;
-  currentUserRole: UserRole | null;
+  permissions: PermissionKey[];
+  canApproveLeave: boolean;
   tenantDomain: string | null;
   employeeGender?: Gender | null;
+  weekOffDays?: number[];
 }
 
 // Helper to pick an icon based on leave type name
@@ -42,8 +43,10 @@ const getLeaveTypeIcon = (leaveTypeName?: string): React.ReactNode => {
 };
 
 
-export default function LeavePageClient({ userId: initialUserId, isAdmin, currentUserRole, tenantDomain, employeeGender }: LeavePageClientProps) {
+export default function LeavePageClient({ userId: initialUserId, permissions, canApproveLeave, tenantDomain, employeeGender, weekOffDays }: LeavePageClientProps) {
   const { toast } = useToast();
+  const canViewAllLeave = permissions.includes('leave.view_all');
+  const canManageLeave = permissions.includes('leave.manage');
   const searchParams = useSearchParams();
   const router = useRouter();
 
@@ -104,14 +107,14 @@ export default function LeavePageClient({ userId: initialUserId, isAdmin, curren
           ];
 
           // Fetch all requests only if admin is viewing the main leave page (no specific employeeId in query)
-          if (isAdmin && !employeeIdFromQuery) {
+          if (canViewAllLeave && !employeeIdFromQuery) {
               promises.push(getLeaveRequestsAction()); // Fetches all requests for the tenant
           } else {
               promises.push(Promise.resolve([])); // Placeholder if not admin or viewing specific employee
           }
 
           // Fetch requests pending manager approval
-          if (currentUserRole === 'Manager' || currentUserRole === 'Admin') {
+          if (canApproveLeave) {
               promises.push(getLeaveRequestsAction({ forManagerApproval: true }));
           } else {
               promises.push(Promise.resolve([]));
@@ -156,7 +159,7 @@ export default function LeavePageClient({ userId: initialUserId, isAdmin, curren
       } finally {
           setIsLoading(false);
       }
-  }, [toast, targetUserId, isAdmin, tenantDomain, employeeIdFromQuery, currentUserRole, initialUserId, getEmployeeProfileInfo]);
+  }, [toast, targetUserId, canViewAllLeave, tenantDomain, employeeIdFromQuery, canApproveLeave, initialUserId, getEmployeeProfileInfo]);
 
   React.useEffect(() => {
     if (targetUserId && tenantDomain) {
@@ -209,8 +212,8 @@ export default function LeavePageClient({ userId: initialUserId, isAdmin, curren
    const handleHolidayUpdated = () => refetchData();
 
   // Dynamic page title based on context
-  const pageTitleNamePart = currentEmployeeName || (isAdmin && !employeeIdFromQuery ? "All Employees'" : "My");
-  const pageTitle = `${pageTitleNamePart} Leave Management ${tenantDomain && !currentEmployeeName && !(isAdmin && !employeeIdFromQuery) ? `for ${tenantDomain}` : ''}`;
+  const pageTitleNamePart = currentEmployeeName || (canViewAllLeave && !employeeIdFromQuery ? "All Employees'" : "My");
+  const pageTitle = `${pageTitleNamePart} Leave Management ${tenantDomain && !currentEmployeeName && !(canViewAllLeave && !employeeIdFromQuery) ? `for ${tenantDomain}` : ''}`;
 
 
   return (
@@ -220,7 +223,7 @@ export default function LeavePageClient({ userId: initialUserId, isAdmin, curren
             <CalendarIconMain className="h-6 w-6" /> {pageTitle}
         </h1>
         {/* Show back button if admin is viewing a specific employee's leave details */}
-        {employeeIdFromQuery && initialUserId !== employeeIdFromQuery && isAdmin && (
+        {employeeIdFromQuery && initialUserId !== employeeIdFromQuery && canViewAllLeave && (
             <Button variant="outline" onClick={() => router.push(`/${tenantDomain}/leave`)}>
                 <ArrowLeft className="mr-2 h-4 w-4" /> Back to All Requests
             </Button>
@@ -292,13 +295,13 @@ export default function LeavePageClient({ userId: initialUserId, isAdmin, curren
                            {currentEmployeeName ? `${currentEmployeeName}'s Requests` : 'My Requests'}
                         </TabsTrigger>
                        {/* All Requests tab - for admin not viewing a specific employee */}
-                       {isAdmin && !employeeIdFromQuery && (
+                       {canViewAllLeave && !employeeIdFromQuery && (
                             <TabsTrigger value="all-requests" className="flex items-center gap-1.5 px-4 py-3 text-sm font-medium text-muted-foreground hover:text-primary data-[state=active]:text-primary data-[state=active]:border-primary border-b-2 border-transparent rounded-none data-[state=active]:shadow-none data-[state=active]:bg-transparent transition-all">
                                <Users className="h-4 w-4"/> All Requests
                             </TabsTrigger>
                        )}
-                        {/* Pending My Approval tab - for managers/admins */}
-                        {(currentUserRole === 'Admin' || currentUserRole === 'Manager') && (
+                        {/* Pending My Approval tab - for users with 'leave.approve' */}
+                        {canApproveLeave && (
                              <TabsTrigger value="pending-my-approval" className="flex items-center gap-1.5 px-4 py-3 text-sm font-medium text-muted-foreground hover:text-primary data-[state=active]:text-primary data-[state=active]:border-primary border-b-2 border-transparent rounded-none data-[state=active]:shadow-none data-[state=active]:bg-transparent transition-all">
                                 <ListChecks className="h-4 w-4"/> Pending My Approval
                                 {requestsPendingMyApproval.length > 0 && (
@@ -306,12 +309,12 @@ export default function LeavePageClient({ userId: initialUserId, isAdmin, curren
                                 )}
                              </TabsTrigger>
                         )}
-                       {isAdmin && (
+                       {canManageLeave && (
                            <TabsTrigger value="manage-types" className="flex items-center gap-1.5 px-4 py-3 text-sm font-medium text-muted-foreground hover:text-primary data-[state=active]:text-primary data-[state=active]:border-primary border-b-2 border-transparent rounded-none data-[state=active]:shadow-none data-[state=active]:bg-transparent transition-all">
                               <Settings className="h-4 w-4"/> Manage Types
                            </TabsTrigger>
                        )}
-                       {isAdmin && (
+                       {canManageLeave && (
                            <TabsTrigger value="manage-holidays" className="flex items-center gap-1.5 px-4 py-3 text-sm font-medium text-muted-foreground hover:text-primary data-[state=active]:text-primary data-[state=active]:border-primary border-b-2 border-transparent rounded-none data-[state=active]:shadow-none data-[state=active]:bg-transparent transition-all">
                               <LandPlot className="h-4 w-4"/> Manage Holidays
                            </TabsTrigger>
@@ -333,6 +336,7 @@ export default function LeavePageClient({ userId: initialUserId, isAdmin, curren
                                    leaveTypes={applicableLeaveTypes}
                                    balances={myBalances}
                                    onSuccess={handleLeaveRequestSubmitted}
+                                   weekOffDays={weekOffDays}
                                />
                            </CardContent>
                        </Card>
@@ -344,7 +348,8 @@ export default function LeavePageClient({ userId: initialUserId, isAdmin, curren
                     <LeaveRequestList
                         requests={myRequests}
                         leaveTypes={allLeaveTypes}
-                        isAdminView={isAdmin && (targetUserId === initialUserId || !employeeIdFromQuery)}
+                        isAdminView={canViewAllLeave && (targetUserId === initialUserId || !employeeIdFromQuery)}
+                        canApprove={canApproveLeave}
                         currentUserId={initialUserId} // Pass the logged-in user's ID
                         tenantDomain={tenantDomain}
                         onUpdate={handleLeaveRequestUpdated}
@@ -352,12 +357,13 @@ export default function LeavePageClient({ userId: initialUserId, isAdmin, curren
                 </TabsContent>
 
                 {/* All Requests Tab Content - for admin not viewing specific employee */}
-                {isAdmin && !employeeIdFromQuery && (
+                {canViewAllLeave && !employeeIdFromQuery && (
                    <TabsContent value="all-requests" className="mt-6">
                        <LeaveRequestList
                            requests={allRequests}
                            leaveTypes={allLeaveTypes}
                            isAdminView={true}
+                           canApprove={canApproveLeave}
                            currentUserId={initialUserId} // Pass the logged-in user's ID
                            tenantDomain={tenantDomain}
                            onUpdate={handleLeaveRequestUpdated}
@@ -366,7 +372,7 @@ export default function LeavePageClient({ userId: initialUserId, isAdmin, curren
                 )}
 
                 {/* Pending My Approval Tab Content */}
-                {(currentUserRole === 'Admin' || currentUserRole === 'Manager') && (
+                {canApproveLeave && (
                      <TabsContent value="pending-my-approval" className="mt-6">
                          <LeaveRequestList
                              requests={requestsPendingMyApproval}
@@ -380,7 +386,7 @@ export default function LeavePageClient({ userId: initialUserId, isAdmin, curren
                      </TabsContent>
                 )}
 
-                {isAdmin && (
+                {canManageLeave && (
                    <TabsContent value="manage-types" className="mt-6">
                        <LeaveTypeManagement
                            initialLeaveTypes={allLeaveTypes}
@@ -389,7 +395,7 @@ export default function LeavePageClient({ userId: initialUserId, isAdmin, curren
                    </TabsContent>
                 )}
 
-                {isAdmin && (
+                {canManageLeave && (
                    <TabsContent value="manage-holidays" className="mt-6">
                        <HolidayManagement
                            initialHolidays={holidays}
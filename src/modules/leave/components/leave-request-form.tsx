@@ -14,17 +14,20 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form"; // Added FormDescription
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, CalendarIcon, Send, X, Paperclip, Info } from 'lucide-react';
-import { format, parseISO, isValid, differenceInDays } from 'date-fns';
+import { format, parseISO, isValid } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Alert, AlertDescription as AlertDesc } from "@/components/ui/alert"; // Renamed AlertDescription to avoid conflict
+import { countLeaveDays } from '@/modules/leave/lib/leave-days';
+import { TENANT_CONFIG_DEFAULTS } from '@/modules/tenants/types';
 
 interface LeaveRequestFormProps {
   employeeId: string; // This should be a valid UUID (user_id)
   leaveTypes: LeaveType[];
   balances: LeaveBalance[]; // Receive balances from parent
   onSuccess: () => void;
+  weekOffDays?: number[]; // Company week-off days (0 = Sunday), not counted as leave
 }
 
 // Define the type for the form's own data (excluding tenantId)
@@ -35,6 +38,7 @@ export function LeaveRequestForm({
   leaveTypes,
   balances,
   onSuccess,
+  weekOffDays = TENANT_CONFIG_DEFAULTS.weekOffDays,
 }: LeaveRequestFormProps) {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = React.useState(false);
@@ -72,13 +76,11 @@ export function LeaveRequestForm({
   }, [selectedLeaveTypeId, balances]);
 
   const calculateLeaveDays = React.useCallback(() => {
-     if (startDateValue && endDateValue && isValid(parseISO(startDateValue)) && isValid(parseISO(endDateValue))) {
-        const start = parseISO(startDateValue);
-        const end = parseISO(endDateValue);
-        return end >= start ? differenceInDays(end, start) + 1 : 0;
+     if (startDateValue && endDateValue) {
+        return countLeaveDays(startDateValue, endDateValue, weekOffDays);
      }
      return 0;
-  }, [startDateValue, endDateValue]);
+  }, [startDateValue, endDateValue, weekOffDays]);
 
   const leaveDays = calculateLeaveDays();
 
@@ -50,12 +50,13 @@ interface LeaveRequestListProps {
   leaveTypes: LeaveType[];
   isAdminView?: boolean;
   isManagerApprovalView?: boolean; // New prop for manager's approval queue view
+  canApprove?: boolean; // Whether approve/reject is offered in the admin view ('leave.approve')
   currentUserId?: string | null;
   tenantDomain: string | null;
   onUpdate: () => void;
 }
 
-export function LeaveRequestList({ requests, leaveTypes, isAdminView = false, isManagerApprovalView = false, currentUserId, tenantDomain, onUpdate }: LeaveRequestListProps) {
+export function LeaveRequestList({ requests, leaveTypes, isAdminView = false, isManagerApprovalView = false, canApprove = true, currentUserId, tenantDomain, onUpdate }: LeaveRequestListProps) {
   const { toast } = useToast();
   const [actionLoading, setActionLoading] = React.useState<Record<string, boolean>>({});
 
@@ -126,7 +127,7 @@ export function LeaveRequestList({ requests, leaveTypes, isAdminView = false, is
       return leaveTypeMap.get(leaveTypeId) || requests.find(r => r.leaveTypeId === leaveTypeId)?.leaveTypeName || 'Unknown Type';
   };
 
-  const showActionButtonsForAdminOrManager = isAdminView || isManagerApprovalView;
+  const showActionButtonsForAdminOrManager = (isAdminView && canApprove) || isManagerApprovalView;
 
   return (
      <TooltipProvider>
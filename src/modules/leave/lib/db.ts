@@ -5,6 +5,10 @@ import type { Gender } from '@/modules/employees/types';
 import { differenceInDays } from 'date-fns';
 import { formatISO, isValid, parseISO } from 'date-fns';
 import { getEmployeeByUserId as getEmployeeByUserIdFromEmployeesModule } from '@/modules/employees/lib/db'; // Import for user_id to employee_pk lookup
+import { recordAuditEvent } from '@/modules/audit/lib/db';
+import { getTenantConfigValue } from '@/modules/tenants/lib/config';
+import { countLeaveDays } from '@/modules/leave/lib/leave-days';
+import { diffForAudit } from '@/modules/audit/lib/diff';
 
 const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -121,6 +125,10 @@ export async function addLeaveType(typeData: Omit<LeaveType, 'id'>): Promise<Lea
         const res = await client.query(query, values);
         const newType = mapRowToLeaveType(res.rows[0]);
         await initializeBalancesForNewTypeForAllEmployees(newType.tenantId, newType.id, newType.defaultBalance ?? 0, client);
+        await recordAuditEvent(client, {
+            tenantId: newType.tenantId, entityType: 'leave_type', entityId: newType.id, entityLabel: newType.name,
+            action: 'create', changes: diffForAudit(null, newType),
+        });
         await client.query('COMMIT');
         return newType;
     } catch (err: any) {
@@ -202,9 +210,20 @@ export async function updateLeaveType(id: string, tenantId: string, updates: Par
         RETURNING *;
     `;
     try {
+        await client.query('BEGIN');
+        const before = await getLeaveTypeById(id, tenantId, client);
         const res = await client.query(query, values);
-        return res.rows.length > 0 ? mapRowToLeaveType(res.rows[0]) : undefined;
+        const updated = res.rows.length > 0 ? mapRowToLeaveType(res.rows[0]) : undefined;
+        if (updated) {
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'leave_type', entityId: id, entityLabel: updated.name,
+                action: 'update', changes: diffForAudit(before, updated),
+            });
+        }
+        await client.query('COMMIT');
+        return updated;
     } catch (err: any) {
+        await client.query('ROLLBACK');
         console.error(`Error updating leave type ${id} for tenant ${tenantId}:`, err);
         if (err.code === '23505' && err.constraint === 'leave_types_tenant_id_name_key') {
              throw new Error(`Leave type name "${updates.name}" already exists for this tenant.`);
@@ -226,6 +245,7 @@ export async function deleteLeaveType(id: string, tenantId: string): Promise<boo
     }
     const client = await pool.connect();
     try {
+        await client.query('BEGIN');
         const checkUsageQuery = `
             SELECT EXISTS (SELECT 1 FROM leave_requests WHERE leave_type_id = $1 AND tenant_id = $2) AS used_in_requests,
                    EXISTS (SELECT 1 FROM leave_balances WHERE leave_type_id = $1 AND tenant_id = $2 AND balance != 0) AS used_in_balances_with_value;
@@ -235,11 +255,20 @@ export async function deleteLeaveType(id: string, tenantId: string): Promise<boo
             console.warn(`Attempted to delete leave type ${id} for tenant ${tenantId} which is currently in use or has non-zero balances.`);
             throw new Error('Leave type cannot be deleted because it is in use or has associated balances.');
         }
-        const deleteQuery = 'DELETE FROM leave_types WHERE id = $1 AND tenant_id = $2';
+        const deleteQuery = 'DELETE FROM leave_types WHERE id = $1 AND tenant_id = $2 RETURNING *';
         const res = await client.query(deleteQuery, [id, tenantId]);
         await client.query('DELETE FROM leave_balances WHERE leave_type_id = $1 AND tenant_id = $2 AND balance = 0', [id, tenantId]);
+        if (res.rows.length > 0) {
+            const deleted = mapRowToLeaveType(res.rows[0]);
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'leave_type', entityId: id, entityLabel: deleted.name,
+                action: 'delete', changes: diffForAudit(deleted, null),
+            });
+        }
+        await client.query('COMMIT');
         return res.rowCount > 0;
     } catch (err) {
+        await client.query('ROLLBACK');
         console.error(`Error deleting leave type ${id} for tenant ${tenantId}:`, err);
         throw err;
     } finally {
@@ -264,13 +293,19 @@ function mapRowToLeaveRequest(row: any): LeaveRequest {
         approvalDate: row.approval_date ? new Date(row.approval_date).toISOString() : undefined,
         comments: row.comments ?? undefined,
         attachmentUrl: row.attachment_url ?? undefined,
+        days: row.days !== null && row.days !== undefined ? Number(row.days) : undefined,
     };
 }
 
+// Days a request takes from the balance. Requests saved before `days` was recorded count every calendar day.
+function leaveRequestDays(request: LeaveRequest): number {
+    return request.days ?? differenceInDays(new Date(request.endDate), new Date(request.startDate)) + 1;
+}
+
 const BASE_REQUEST_QUERY = `
     SELECT
         lr.id, lr.tenant_id, lr.employee_id, lr.start_date, lr.end_date, lr.reason, lr.status,
-        lr.request_date, lr.approver_id, lr.approval_date, lr.comments, lr.attachment_url,
+        lr.request_date, lr.approver_id, lr.approval_date, lr.comments, lr.attachment_url, lr.days,
         e_submitter.name AS employee_name,
         lt.name AS leave_type_name,
         lr.leave_type_id
@@ -279,6 +314,16 @@ const BASE_REQUEST_QUERY = `
     JOIN leave_types lt ON lr.leave_type_id = lt.id AND lr.tenant_id = lt.tenant_id
 `;
 
+function leaveRequestAuditLabel(request: LeaveRequest): string {
+    return `${request.employeeName ?? 'Employee'}: ${request.leaveTypeName ?? 'Leave'} ${request.startDate} to ${request.endDate}`;
+}
+
+// Reads a request on the given (transaction) client so uncommitted changes are visible.
+async function getLeaveRequestInTransaction(id: string, tenantId: string, client: any): Promise<LeaveRequest | undefined> {
+    const res = await client.query(`${BASE_REQUEST_QUERY} WHERE lr.id = $1 AND lr.tenant_id = $2`, [id, tenantId]);
+    return res.rows.length > 0 ? mapRowToLeaveRequest(res.rows[0]) : undefined;
+}
+
 // filters.employeeId here should be the employees.id (PK)
 export async function getAllLeaveRequests(tenantId: string, filters?: { employeeId?: string, status?: LeaveRequestStatus, filterByReportingManagerEmployeeId?: string }): Promise<LeaveRequest[]> {
     if (!tenantId || !uuidRegex.test(tenantId)) {
@@ -389,11 +434,16 @@ export async function addLeaveRequest(requestData: Omit<LeaveRequest, 'id' | 're
             throw new Error("Invalid leaveTypeId for this tenant");
         }
 
-        const requestedDays = differenceInDays(new Date(requestData.endDate), new Date(requestData.startDate)) + 1;
-        if (requestedDays <= 0) {
+        if (requestData.endDate < requestData.startDate) {
             await client.query('ROLLBACK');
             throw new Error('End date must be on or after start date.');
         }
+        const weekOffDays = await getTenantConfigValue(requestData.tenantId, 'weekOffDays');
+        const requestedDays = countLeaveDays(requestData.startDate, requestData.endDate, weekOffDays);
+        if (requestedDays <= 0) {
+            await client.query('ROLLBACK');
+            throw new Error('The selected dates are all week-off days. No leave is needed.');
+        }
 
         // Use employeePrimaryKey for balance operations
         const currentBalance = await getSpecificLeaveBalance(requestData.tenantId, employeePrimaryKey, requestData.leaveTypeId, client);
@@ -405,8 +455,8 @@ export async function addLeaveRequest(requestData: Omit<LeaveRequest, 'id' | 're
         const initialStatus: LeaveRequestStatus = leaveType.requiresApproval ? 'Pending' : 'Approved';
 
         const insertQuery = `
-            INSERT INTO leave_requests (tenant_id, employee_id, leave_type_id, start_date, end_date, reason, status, attachment_url, request_date)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+            INSERT INTO leave_requests (tenant_id, employee_id, leave_type_id, start_date, end_date, reason, status, attachment_url, days, request_date)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
             RETURNING id;
         `;
         const values = [
@@ -418,6 +468,7 @@ export async function addLeaveRequest(requestData: Omit<LeaveRequest, 'id' | 're
             requestData.reason,
             initialStatus,
             requestData.attachmentUrl || null,
+            requestedDays,
         ];
 
         const res = await client.query(insertQuery, values);
@@ -428,6 +479,14 @@ export async function addLeaveRequest(requestData: Omit<LeaveRequest, 'id' | 're
              await adjustLeaveBalance(requestData.tenantId, employeePrimaryKey, requestData.leaveTypeId, -requestedDays, client);
         }
 
+        const created = await getLeaveRequestInTransaction(newId, requestData.tenantId, client);
+        if (created) {
+            await recordAuditEvent(client, {
+                tenantId: requestData.tenantId, entityType: 'leave_request', entityId: newId, entityLabel: leaveRequestAuditLabel(created),
+                action: 'create', changes: diffForAudit(null, created),
+            });
+        }
+
         await client.query('COMMIT');
         const newRequest = await getLeaveRequestById(newId, requestData.tenantId); // This will use its own client connection
         if (!newRequest) throw new Error("Failed to retrieve newly added leave request.");
@@ -464,7 +523,7 @@ export async function updateLeaveRequestStatus(
         // currentRequest.employeeId is the PK of employees table
 
         const previousStatus = currentRequest.status;
-        const requestedDays = differenceInDays(new Date(currentRequest.endDate), new Date(currentRequest.startDate)) + 1;
+        const requestedDays = leaveRequestDays(currentRequest);
 
         if (previousStatus === status) {
             console.warn(`[DB updateLeaveRequestStatus] Request ${id} is already in ${status} state. No update performed.`);
@@ -495,6 +554,14 @@ export async function updateLeaveRequestStatus(
             throw new Error('Leave request could not be updated (status might have changed or tenant mismatch).');
         }
 
+        const updatedRequest = await getLeaveRequestInTransaction(id, tenantId, client);
+        if (updatedRequest) {
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'leave_request', entityId: id, entityLabel: leaveRequestAuditLabel(updatedRequest),
+                action: 'update', changes: diffForAudit(currentRequest, updatedRequest),
+            });
+        }
+
         await client.query('COMMIT');
         return await getLeaveRequestById(id, tenantId); // Uses its own client
     } catch (err) {
@@ -537,7 +604,7 @@ export async function cancelLeaveRequest(id: string, tenantId: string, cancellin
             throw new Error(`Request is already ${previousStatus} and cannot be cancelled again.`);
         }
 
-        const requestedDays = differenceInDays(new Date(request.endDate), new Date(request.startDate)) + 1;
+        const requestedDays = leaveRequestDays(request);
         if (previousStatus === 'Approved') {
              await adjustLeaveBalance(tenantId, employeePkIdWhoRequested, request.leaveTypeId, requestedDays, client);
         }
@@ -553,6 +620,13 @@ export async function cancelLeaveRequest(id: string, tenantId: string, cancellin
             await client.query('ROLLBACK');
             throw new Error('Leave request could not be cancelled (it might have been processed by an admin).');
          }
+         const cancelledRequest = await getLeaveRequestInTransaction(id, tenantId, client);
+         if (cancelledRequest) {
+             await recordAuditEvent(client, {
+                 tenantId, entityType: 'leave_request', entityId: id, entityLabel: leaveRequestAuditLabel(cancelledRequest),
+                 action: 'update', changes: diffForAudit(request, cancelledRequest),
+             });
+         }
          await client.query('COMMIT');
          return await getLeaveRequestById(id, tenantId); // Uses its own client
      } catch (err) {
@@ -744,9 +818,17 @@ export async function addHoliday(holidayData: Omit<Holiday, 'id' | 'createdAt' |
         holidayData.description || null,
     ];
     try {
+        await client.query('BEGIN');
         const res = await client.query(query, values);
-        return mapRowToHoliday(res.rows[0]);
+        const holiday = mapRowToHoliday(res.rows[0]);
+        await recordAuditEvent(client, {
+            tenantId: holiday.tenantId, entityType: 'holiday', entityId: holiday.id, entityLabel: `${holiday.name} (${holiday.date})`,
+            action: 'create', changes: diffForAudit(null, holiday),
+        });
+        await client.query('COMMIT');
+        return holiday;
     } catch (err: any) {
+        await client.query('ROLLBACK');
         console.error('Error adding holiday:', err);
         if (err.code === '23505' && err.constraint === 'holidays_tenant_id_date_key') {
             throw new Error(`A holiday already exists on ${holidayData.date} for this tenant.`);
@@ -809,9 +891,20 @@ export async function updateHoliday(id: string, tenantId: string, updates: Holid
         RETURNING *;
     `;
     try {
+        await client.query('BEGIN');
+        const beforeRes = await client.query('SELECT * FROM holidays WHERE id = $1 AND tenant_id = $2', [id, tenantId]);
         const res = await client.query(query, values);
-        return res.rows.length > 0 ? mapRowToHoliday(res.rows[0]) : undefined;
+        const updated = res.rows.length > 0 ? mapRowToHoliday(res.rows[0]) : undefined;
+        if (updated) {
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'holiday', entityId: id, entityLabel: `${updated.name} (${updated.date})`,
+                action: 'update', changes: diffForAudit(beforeRes.rows.map(mapRowToHoliday)[0], updated),
+            });
+        }
+        await client.query('COMMIT');
+        return updated;
     } catch (err: any) {
+        await client.query('ROLLBACK');
         console.error(`Error updating holiday ${id} for tenant ${tenantId}:`, err);
         if (err.code === '23505' && err.constraint === 'holidays_tenant_id_date_key') {
             throw new Error(`Another holiday already exists on ${updates.date} for this tenant.`);
@@ -832,11 +925,21 @@ export async function deleteHoliday(id: string, tenantId: string): Promise<boole
         throw new Error("Invalid tenant identifier.");
     }
     const client = await pool.connect();
-    const query = 'DELETE FROM holidays WHERE id = $1 AND tenant_id = $2';
+    const query = 'DELETE FROM holidays WHERE id = $1 AND tenant_id = $2 RETURNING *';
     try {
+        await client.query('BEGIN');
         const res = await client.query(query, [id, tenantId]);
+        if (res.rows.length > 0) {
+            const deleted = mapRowToHoliday(res.rows[0]);
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'holiday', entityId: id, entityLabel: `${deleted.name} (${deleted.date})`,
+                action: 'delete', changes: diffForAudit(deleted, null),
+            });
+        }
+        await client.query('COMMIT');
         return res.rowCount > 0;
     } catch (err) {
+        await client.query('ROLLBACK');
         console.error(`Error deleting holiday ${id} for tenant ${tenantId}:`, err);
         throw err;
     } finally {
@@ -0,0 +1,14 @@
+// src/modules/leave/lib/leave-days.ts
+// Shared by the leave request form and the server so both count the same days.
+import { eachDayOfInterval, isValid, parseISO } from 'date-fns';
+
+/**
+ * Number of leave days between two ISO dates (both included), not counting the company's
+ * week-off days (0 = Sunday … 6 = Saturday). Returns 0 when the range is empty or invalid.
+ */
+export function countLeaveDays(startDate: string, endDate: string, weekOffDays: readonly number[]): number {
+    const start = parseISO(startDate);
+    const end = parseISO(endDate);
+    if (!isValid(start) || !isValid(end) || end < start) return 0;
+    return eachDayOfInterval({ start, end }).filter(day => !weekOffDays.includes(day.getDay())).length;
+}
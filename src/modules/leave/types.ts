@@ -63,6 +63,7 @@ export interface LeaveRequest {
   approvalDate?: string; // ISO string when action was taken
   comments?: string; // Approver comments
   attachmentUrl?: string | null;
+  days?: number; // Leave days taken from the balance, excluding the company's week-off days
 }
 
 // Type for form data (client-side, before tenantId is added by server)
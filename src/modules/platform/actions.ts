@@ -0,0 +1,296 @@
+'use server';
+
+import bcrypt from 'bcrypt';
+import { cookies, headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+import type { SubscriptionPlan } from '@/modules/subscriptions/types';
+import type { PlatformHealth, PlatformLoginFormInputs, PlatformTenantDeletion, PlatformTenantStatusChange, PlatformTenantSummary } from '@/modules/platform/types';
+import { platformLoginSchema, platformTenantDeletionSchema, platformTenantStatusChangeSchema } from '@/modules/platform/types';
+import type { TenantDeletionCertificate } from '@/modules/tenants/types';
+import {
+  createPlatformSession as dbCreatePlatformSession,
+  getPlatformActivityCounts as dbGetPlatformActivityCounts,
+  getPlatformAdminForLogin as dbGetPlatformAdminForLogin,
+  getPlatformTenantSummaries as dbGetPlatformTenantSummaries,
+  registerPlatformLoginFailure as dbRegisterPlatformLoginFailure,
+  revokePlatformSession as dbRevokePlatformSession,
+} from '@/modules/platform/lib/db';
+import { getPlatformSession, requirePlatformAdmin } from '@/modules/platform/lib/session';
+import { getTenantById as dbGetTenantById, updateTenantStatus as dbUpdateTenantStatus } from '@/modules/auth/lib/db';
+import { getActivePlans as dbGetActivePlans } from '@/modules/subscriptions/lib/db';
+import { getDeletionCertificates, restoreTenant, scheduleTenantDeletion } from '@/modules/tenants/lib/offboarding';
+import { changePlan } from '@/modules/subscriptions/lib/billing';
+import { getPaymentGateway } from '@/services/payment-gateway';
+import { PLATFORM_SESSION_COOKIE_NAME, PLATFORM_SESSION_MAX_AGE_SECONDS, createPlatformSessionToken } from '@/modules/auth/lib/session-token';
+import { getClientIp } from '@/modules/auth/lib/utils';
+import { resolveTenantSubdomainFromHost, withSystemScope } from '@/lib/tenant-context';
+import { testDbConnection } from '@/lib/db';
+import { getMigrationStatus } from '@/lib/migrate';
+
+const PLATFORM_CONSOLE_PATH = '/platform';
+
+export async function platformLoginAction(credentials: PlatformLoginFormInputs): Promise<{ success: boolean; error?: string }> {
+  const validation = platformLoginSchema.safeParse(credentials);
+  if (!validation.success) {
+    return { success: false, error: "Invalid login identifier or password format." };
+  }
+  const { loginIdentifier, password } = validation.data;
+
+  const headersList = await headers();
+  const { subdomain, isRootContext } = resolveTenantSubdomainFromHost(headersList.get('host') || '');
+  if (subdomain || !isRootContext) {
+    console.warn(`[platformLoginAction] Platform login attempted on host ${headersList.get('host')}. Denying.`);
+    return { success: false, error: "The platform console is only available on the root domain." };
+  }
+
+  try {
+    const clientIp = getClientIp(headersList);
+    const admin = await withSystemScope('platform login', () => dbGetPlatformAdminForLogin(loginIdentifier));
+    if (!admin || !admin.isActive) {
+      console.log(`[platformLoginAction] No active platform admin for identifier: ${loginIdentifier}`);
+      return { success: false, error: "Invalid credentials." };
+    }
+    if (admin.lockedUntil && new Date(admin.lockedUntil) > new Date()) {
+      console.warn(`[platformLoginAction] Platform admin ${admin.userId} is locked until ${admin.lockedUntil}.`);
+      return { success: false, error: "This account is temporarily locked after too many failed login attempts. Please try again later." };
+    }
+    if (!(await bcrypt.compare(password, admin.passwordHash))) {
+      const { lockedUntil } = await withSystemScope('platform login', () => dbRegisterPlatformLoginFailure(admin.userId));
+      console.warn(`[platformLoginAction] Password mismatch for platform admin ${admin.userId} from IP ${clientIp}.${lockedUntil ? ' Account locked.' : ''}`);
+      return { success: false, error: lockedUntil ? "This account is temporarily locked after too many failed login attempts. Please try again later." : "Invalid credentials." };
+    }
+
+    const sessionId = await withSystemScope('platform login', () => dbCreatePlatformSession({
+      userId: admin.userId,
+      userAgent: headersList.get('user-agent'),
+      ipAddress: clientIp,
+      expiresAt: new Date(Date.now() + PLATFORM_SESSION_MAX_AGE_SECONDS * 1000),
+    }));
+    const token = await createPlatformSessionToken({ userId: admin.userId, username: admin.username, sessionId });
+    (await cookies()).set(PLATFORM_SESSION_COOKIE_NAME, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      sameSite: 'strict' as const, // The console is never reached from another site
+      maxAge: PLATFORM_SESSION_MAX_AGE_SECONDS,
+    });
+    console.log(`[platformLoginAction] Platform admin ${admin.userId} signed in from IP ${clientIp}.`);
+    return { success: true };
+  } catch (error: any) {
+    console.error("[platformLoginAction] Error during platform login:", error);
+    return { success: false, error: "An unexpected server error occurred during login." };
+  }
+}
+
+export async function platformLogoutAction() {
+  const session = await getPlatformSession();
+  if (session) {
+    await withSystemScope('platform logout', () => dbRevokePlatformSession(session.sessionId))
+      .catch(error => console.error("[platformLogoutAction] Error revoking platform session:", error));
+  }
+  (await cookies()).delete(PLATFORM_SESSION_COOKIE_NAME);
+  redirect(`${PLATFORM_CONSOLE_PATH}/login`);
+}
+
+export async function getPlatformTenantsAction(): Promise<{ success: boolean; tenants?: PlatformTenantSummary[]; plans?: SubscriptionPlan[]; error?: string }> {
+  let session;
+  try {
+    session = await requirePlatformAdmin();
+  } catch {
+    return { success: false, error: 'Unauthorized to view companies.' };
+  }
+
+  try {
+    const [tenants, plans] = await withSystemScope(`platform console (${session.username})`, () => Promise.all([
+      dbGetPlatformTenantSummaries(),
+      dbGetActivePlans(),
+    ]));
+    return { success: true, tenants, plans };
+  } catch (error: any) {
+    console.error("[Action getPlatformTenantsAction] Error fetching companies:", error);
+    return { success: false, error: error.message || 'Failed to load companies.' };
+  }
+}
+
+export async function getPlatformHealthAction(): Promise<{ success: boolean; health?: PlatformHealth; error?: string }> {
+  let session;
+  try {
+    session = await requirePlatformAdmin();
+  } catch {
+    return { success: false, error: 'Unauthorized to view platform health.' };
+  }
+
+  try {
+    const startedAt = Date.now();
+    const dbResult = await testDbConnection();
+    const database = { ok: dbResult.success, latencyMs: dbResult.success ? Date.now() - startedAt : null, message: dbResult.message };
+    if (!dbResult.success) {
+      return { success: false, error: `Database unavailable: ${dbResult.message}` };
+    }
+
+    let migrations: PlatformHealth['migrations'];
+    try {
+      const status = await getMigrationStatus();
+      migrations = { latestApplied: status.latestApplied, pending: status.pending.map(m => `${m.version}_${m.name}`) };
+    } catch (error: any) {
+      migrations = { latestApplied: null, pending: [], error: error.message };
+    }
+
+    let paymentGateway: PlatformHealth['paymentGateway'];
+    try {
+      paymentGateway = { name: getPaymentGateway().name };
+    } catch (error: any) {
+      paymentGateway = { name: null, error: error.message };
+    }
+
+    const counts = await withSystemScope(`platform health (${session.username})`, () => dbGetPlatformActivityCounts());
+    return {
+      success: true,
+      health: {
+        checkedAt: new Date().toISOString(),
+        database,
+        migrations,
+        ...counts,
+        emailConfigured: !!(process.env.INTERNAL_SMTP_HOST && process.env.INTERNAL_SMTP_PORT && process.env.INTERNAL_SMTP_USER && process.env.INTERNAL_SMTP_PASSWORD),
+        paymentGateway,
+      },
+    };
+  } catch (error: any) {
+    console.error("[Action getPlatformHealthAction] Error checking platform health:", error);
+    return { success: false, error: error.message || 'Failed to check platform health.' };
+  }
+}
+
+/** Suspends or reinstates a company. The change is recorded in the company's audit log under the operator's name. */
+export async function updateTenantStatusAction(tenantId: string, change: PlatformTenantStatusChange): Promise<{ success: boolean; error?: string }> {
+  let session;
+  try {
+    session = await requirePlatformAdmin();
+  } catch {
+    return { success: false, error: 'Unauthorized to change company status.' };
+  }
+  const validation = platformTenantStatusChangeSchema.safeParse(change);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0]?.message || 'Invalid status change.' };
+  }
+  const { status, reason } = validation.data;
+
+  try {
+    const result = await withSystemScope(`platform operator ${session.username} setting tenant ${tenantId} ${status}`, async () => {
+      const tenant = await dbGetTenantById(tenantId);
+      if (!tenant) return { error: 'Company not found.' };
+      if (tenant.status === 'DELETED') return { error: `${tenant.name} is scheduled for deletion. Restore it instead.` };
+      if (tenant.status === status) return { error: `${tenant.name} is already ${status.toLowerCase()}.` };
+      await dbUpdateTenantStatus(tenantId, status, { reason: reason || null });
+      return {};
+    });
+    if (result.error) {
+      return { success: false, error: result.error };
+    }
+    console.log(`[Action updateTenantStatusAction] Platform admin ${session.userId} set tenant ${tenantId} to ${status}.`);
+    revalidatePath(PLATFORM_CONSOLE_PATH);
+    return { success: true };
+  } catch (error: any) {
+    console.error("[Action updateTenantStatusAction] Error changing company status:", error);
+    return { success: false, error: error.message || 'Failed to change the company status.' };
+  }
+}
+
+/**
+ * Closes a company: its users and API keys are blocked at once and its data is purged after the grace period
+ * by the tenant-admin purge job. Until then it can be restored with restoreTenantAction.
+ */
+export async function scheduleTenantDeletionAction(tenantId: string, input: PlatformTenantDeletion): Promise<{ success: boolean; deletionScheduledAt?: string; error?: string }> {
+  let session;
+  try {
+    session = await requirePlatformAdmin();
+  } catch {
+    return { success: false, error: 'Unauthorized to close companies.' };
+  }
+  const validation = platformTenantDeletionSchema.safeParse(input);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0]?.message || 'Invalid deletion request.' };
+  }
+  const { graceDays, reason, confirmSubdomain } = validation.data;
+
+  try {
+    const result = await withSystemScope(`platform operator ${session.username} closing tenant ${tenantId}`, async () => {
+      const tenant = await dbGetTenantById(tenantId);
+      if (!tenant) return { error: 'Company not found.' };
+      if (confirmSubdomain.toLowerCase() !== tenant.subdomain) return { error: 'The subdomain does not match. Nothing was changed.' };
+      const updated = await scheduleTenantDeletion(tenantId, { reason: reason || null, graceDays });
+      return { deletionScheduledAt: updated.deletion_scheduled_at ?? undefined };
+    });
+    if ('error' in result) {
+      return { success: false, error: result.error };
+    }
+    console.log(`[Action scheduleTenantDeletionAction] Platform admin ${session.userId} scheduled tenant ${tenantId} for deletion.`);
+    revalidatePath(PLATFORM_CONSOLE_PATH);
+    return { success: true, deletionScheduledAt: result.deletionScheduledAt };
+  } catch (error: any) {
+    console.error("[Action scheduleTenantDeletionAction] Error closing company:", error);
+    return { success: false, error: error.message || 'Failed to schedule the company for deletion.' };
+  }
+}
+
+/** Reopens a closed company before it is purged; all its data is still there. */
+export async function restoreTenantAction(tenantId: string, change: { reason?: string } = {}): Promise<{ success: boolean; error?: string }> {
+  let session;
+  try {
+    session = await requirePlatformAdmin();
+  } catch {
+    return { success: false, error: 'Unauthorized to restore companies.' };
+  }
+  const validation = platformTenantStatusChangeSchema.pick({ reason: true }).safeParse(change);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0]?.message || 'Invalid restore request.' };
+  }
+
+  try {
+    await withSystemScope(`platform operator ${session.username} restoring tenant ${tenantId}`, () => restoreTenant(tenantId, validation.data.reason || null));
+    console.log(`[Action restoreTenantAction] Platform admin ${session.userId} restored tenant ${tenantId}.`);
+    revalidatePath(PLATFORM_CONSOLE_PATH);
+    return { success: true };
+  } catch (error: any) {
+    console.error("[Action restoreTenantAction] Error restoring company:", error);
+    return { success: false, error: error.message || 'Failed to restore the company.' };
+  }
+}
+
+export async function getDeletionCertificatesAction(): Promise<{ success: boolean; certificates?: TenantDeletionCertificate[]; error?: string }> {
+  let session;
+  try {
+    session = await requirePlatformAdmin();
+  } catch {
+    return { success: false, error: 'Unauthorized to view deletion certificates.' };
+  }
+
+  try {
+    const certificates = await withSystemScope(`platform console (${session.username})`, () => getDeletionCertificates());
+    return { success: true, certificates };
+  } catch (error: any) {
+    console.error("[Action getDeletionCertificatesAction] Error fetching deletion certificates:", error);
+    return { success: false, error: error.message || 'Failed to load deletion certificates.' };
+  }
+}
+
+/** Moves a company to another plan now; billed like a change made by the company itself. */
+export async function changeTenantPlanAction(tenantId: string, planId: string): Promise<{ success: boolean; invoiceNumber?: string; error?: string }> {
+  let session;
+  try {
+    session = await requirePlatformAdmin();
+  } catch {
+    return { success: false, error: 'Unauthorized to change company plans.' };
+  }
+
+  try {
+    const invoice = await withSystemScope(`platform operator ${session.username} changing plan of tenant ${tenantId}`, () => changePlan(tenantId, planId));
+    console.log(`[Action changeTenantPlanAction] Platform admin ${session.userId} changed the plan of tenant ${tenantId}.`);
+    revalidatePath(PLATFORM_CONSOLE_PATH);
+    return { success: true, invoiceNumber: invoice.invoiceNumber };
+  } catch (error: any) {
+    console.error("[Action changeTenantPlanAction] Error changing plan:", error);
+    return { success: false, error: error.message || 'Failed to change the subscription plan.' };
+  }
+}
@@ -0,0 +1,79 @@
+import { format, parseISO } from 'date-fns';
+import { Download, FileCheck2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { deletionCertificateDownloadPath, type TenantDeletionCertificate } from '@/modules/tenants/types';
+
+interface DeletionCertificatesProps {
+  certificates: TenantDeletionCertificate[];
+}
+
+export function DeletionCertificates({ certificates }: DeletionCertificatesProps) {
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><FileCheck2 className="h-5 w-5" /> Deletion Certificates</CardTitle>
+        <CardDescription>
+          Written when a closed company is purged, after checking that none of its records or stored documents are left.
+          Each certificate carries a SHA-256 digest of its content.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {certificates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No company has been purged yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Company</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead>Purged</TableHead>
+                <TableHead className="text-right">Records</TableHead>
+                <TableHead className="text-right">Files</TableHead>
+                <TableHead>Verification</TableHead>
+                <TableHead className="text-right">Certificate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {certificates.map(certificate => (
+                <TableRow key={certificate.id}>
+                  <TableCell>
+                    <div className="font-medium">{certificate.tenantName}</div>
+                    <div className="text-xs text-muted-foreground">{certificate.subdomain}</div>
+                  </TableCell>
+                  <TableCell>{certificate.closedAt ? format(parseISO(certificate.closedAt), 'PP') : '-'}</TableCell>
+                  <TableCell>{format(parseISO(certificate.purgedAt), 'PPp')}</TableCell>
+                  <TableCell className="text-right">{Object.values(certificate.recordsDeleted).reduce((total, count) => total + count, 0)}</TableCell>
+                  <TableCell className="text-right">{certificate.filesDeleted}</TableCell>
+                  <TableCell>
+                    {certificate.verification.pendingFiles?.length ? (
+                      <Badge variant="secondary">documents pending</Badge>
+                    ) : (
+                      <Badge variant={certificate.verified ? 'default' : 'destructive'}>{certificate.verified ? 'verified' : 'data left behind'}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button asChild variant="outline" size="sm">
+                      <a href={deletionCertificateDownloadPath(certificate.id)} download>
+                        <Download className="mr-2 h-4 w-4" /> JSON
+                      </a>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+import { format, parseISO } from 'date-fns';
+import { Activity, CheckCircle2, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { PlatformHealth as PlatformHealthData } from '@/modules/platform/types';
+
+interface PlatformHealthProps {
+  health: PlatformHealthData;
+}
+
+function Check({ ok, label, detail }: { ok: boolean; label: string; detail: string }) {
+  return (
+    <div className="flex items-start gap-2">
+      {ok ? <CheckCircle2 className="mt-0.5 h-4 w-4 text-green-600" /> : <XCircle className="mt-0.5 h-4 w-4 text-destructive" />}
+      <div>
+        <p className="font-medium">{label}</p>
+        <p className="text-muted-foreground">{detail}</p>
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: number }) {
+  return (
+    <div>
+      <p className="text-muted-foreground">{label}</p>
+      <p className="text-2xl font-semibold">{value}</p>
+    </div>
+  );
+}
+
+export function PlatformHealth({ health }: PlatformHealthProps) {
+  const { database, migrations, paymentGateway } = health;
+  const migrationDetail = migrations.error
+    ? migrations.error
+    : migrations.pending.length > 0
+      ? `Pending: ${migrations.pending.join(', ')}. Run npm run db:migrate.`
+      : `Up to date (version ${migrations.latestApplied ?? 'none'}).`;
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Activity className="h-5 w-5" /> Platform Health</CardTitle>
+        <CardDescription>Checked {format(parseISO(health.checkedAt), 'PPpp')}.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <Check ok={database.ok} label="Database" detail={database.ok ? `Responding in ${database.latencyMs} ms` : database.message} />
+          <Check ok={!migrations.error && migrations.pending.length === 0} label="Schema migrations" detail={migrationDetail} />
+          <Check ok={health.emailConfigured} label="Email" detail={health.emailConfigured ? 'Internal SMTP configured' : 'INTERNAL_SMTP_* settings missing; welcome and notification emails are not sent'} />
+          <Check ok={!!paymentGateway.name} label="Payment gateway" detail={paymentGateway.name ? `Using "${paymentGateway.name}"` : paymentGateway.error || 'Not configured'} />
+        </div>
+        <div className="grid gap-4 sm:grid-cols-3 lg:grid-cols-6">
+          <Stat label="Active companies" value={health.tenantsByStatus.ACTIVE} />
+          <Stat label="Suspended" value={health.tenantsByStatus.SUSPENDED} />
+          <Stat label="Pending deletion" value={health.tenantsByStatus.DELETED} />
+          <Stat label="Sessions active in 24h" value={health.activeSessionsLast24h} />
+          <Stat label="Overdue invoices" value={health.overdueInvoices} />
+          <Stat label="Failed payments in 7 days" value={health.failedPaymentsLast7d} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm, SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { platformLoginSchema, type PlatformLoginFormInputs } from '@/modules/platform/types';
+import { platformLoginAction } from '@/modules/platform/actions';
+
+export function PlatformLoginForm() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  const form = useForm<PlatformLoginFormInputs>({
+    resolver: zodResolver(platformLoginSchema),
+    defaultValues: { loginIdentifier: "", password: "" },
+  });
+
+  const onSubmit: SubmitHandler<PlatformLoginFormInputs> = async (data) => {
+    setIsLoading(true);
+    try {
+      const result = await platformLoginAction(data);
+      if (!result.success) {
+        toast({ title: "Login Failed", description: result.error || "Invalid credentials.", variant: "destructive" });
+        setIsLoading(false);
+        return;
+      }
+      router.push('/platform');
+      router.refresh();
+    } catch (error: any) {
+      console.error("Platform login error:", error);
+      toast({ title: "Login Error", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md shadow-lg">
+      <CardHeader className="space-y-1 text-center">
+        <ShieldCheck className="mx-auto h-10 w-10 text-primary" />
+        <CardTitle className="text-2xl font-bold">Platform Console</CardTitle>
+        <CardDescription>Sign in with your platform operator account.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="loginIdentifier"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username or Email</FormLabel>
+                  <FormControl>
+                    <Input {...field} autoCapitalize="none" autoComplete="username" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} autoComplete="current-password" placeholder="••••••••" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Please wait</> : "Sign In"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,362 @@
+"use client";
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { ArchiveRestore, Building2, Loader2, Mail, MoreHorizontal, Repeat, ShieldOff, ShieldCheck, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { changeTenantPlanAction, restoreTenantAction, scheduleTenantDeletionAction, updateTenantStatusAction } from '@/modules/platform/actions';
+import { resendTenantWelcomeEmailAction } from '@/modules/auth/actions';
+import type { PlatformTenantSummary } from '@/modules/platform/types';
+import type { SubscriptionPlan } from '@/modules/subscriptions/types';
+import type { TenantStatus } from '@/modules/auth/types';
+
+interface TenantDirectoryProps {
+  tenants: PlatformTenantSummary[];
+  plans: SubscriptionPlan[];
+  deletionGraceDays: number; // Default retention window offered when closing a company
+}
+
+type PendingChange = { kind: 'status' | 'plan' | 'delete' | 'restore'; summary: PlatformTenantSummary };
+
+const STATUS_BADGE_VARIANT: Record<TenantStatus, 'default' | 'secondary' | 'destructive'> = {
+  ACTIVE: 'default',
+  SUSPENDED: 'destructive',
+  DELETED: 'secondary',
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+function formatLastActivity(iso: string | null): string {
+  if (!iso) return 'Never';
+  try {
+    return formatDistanceToNow(parseISO(iso), { addSuffix: true });
+  } catch {
+    return iso;
+  }
+}
+
+function formatDate(iso: string | null | undefined): string {
+  if (!iso) return '';
+  try {
+    return format(parseISO(iso), 'PP');
+  } catch {
+    return iso;
+  }
+}
+
+export function TenantDirectory({ tenants, plans, deletionGraceDays }: TenantDirectoryProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [search, setSearch] = React.useState('');
+  const [pending, setPending] = React.useState<PendingChange | null>(null);
+  const [reason, setReason] = React.useState('');
+  const [selectedPlanId, setSelectedPlanId] = React.useState('');
+  const [graceDays, setGraceDays] = React.useState(String(deletionGraceDays));
+  const [confirmSubdomain, setConfirmSubdomain] = React.useState('');
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [sendingWelcome, setSendingWelcome] = React.useState<Record<string, boolean>>({});
+
+  const query = search.trim().toLowerCase();
+  const visibleTenants = query
+    ? tenants.filter(({ tenant }) => tenant.name.toLowerCase().includes(query) || tenant.subdomain.includes(query))
+    : tenants;
+
+  const openChange = (change: PendingChange) => {
+    setReason('');
+    setSelectedPlanId('');
+    setGraceDays(String(deletionGraceDays));
+    setConfirmSubdomain('');
+    setPending(change);
+  };
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    const { tenant } = pending.summary;
+    setIsSaving(true);
+    try {
+      if (pending.kind === 'status') {
+        const status = tenant.status === 'ACTIVE' ? 'SUSPENDED' : 'ACTIVE';
+        const result = await updateTenantStatusAction(tenant.tenant_id, { status, reason: reason.trim() || undefined });
+        if (!result.success) throw new Error(result.error || "Could not change the company status.");
+        toast({ title: status === 'ACTIVE' ? "Company Reinstated" : "Company Suspended", description: `${tenant.name} is now ${status.toLowerCase()}.` });
+      } else if (pending.kind === 'delete') {
+        const result = await scheduleTenantDeletionAction(tenant.tenant_id, { graceDays: Number(graceDays), reason: reason.trim() || undefined, confirmSubdomain });
+        if (!result.success) throw new Error(result.error || "Could not close the company.");
+        toast({ title: "Company Closed", description: `${tenant.name} is scheduled for deletion on ${formatDate(result.deletionScheduledAt)}. It can be restored until then.` });
+      } else if (pending.kind === 'restore') {
+        const result = await restoreTenantAction(tenant.tenant_id, { reason: reason.trim() || undefined });
+        if (!result.success) throw new Error(result.error || "Could not restore the company.");
+        toast({ title: "Company Restored", description: `${tenant.name} is active again.` });
+      } else {
+        const result = await changeTenantPlanAction(tenant.tenant_id, selectedPlanId);
+        if (!result.success) throw new Error(result.error || "Could not change the plan.");
+        const planName = plans.find(plan => plan.planId === selectedPlanId)?.name;
+        toast({ title: "Plan Changed", description: `${tenant.name} is now on the ${planName} plan. Invoice ${result.invoiceNumber} was issued.` });
+      }
+      setPending(null);
+      router.refresh();
+    } catch (error: any) {
+      console.error("Platform change error:", error);
+      toast({ title: "Change Failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResendWelcome = async (summary: PlatformTenantSummary) => {
+    const { tenant } = summary;
+    setSendingWelcome(prev => ({ ...prev, [tenant.tenant_id]: true }));
+    try {
+      const result = await resendTenantWelcomeEmailAction(tenant.tenant_id);
+      if (!result.success) throw new Error(result.error || "Could not send the welcome email.");
+      toast({ title: "Welcome Email Sent", description: `Sent to ${result.sentTo?.join(', ')}.` });
+    } catch (error: any) {
+      console.error("Resend welcome email error:", error);
+      toast({ title: "Email Not Sent", description: error.message, variant: "destructive" });
+    } finally {
+      setSendingWelcome(prev => ({ ...prev, [tenant.tenant_id]: false }));
+    }
+  };
+
+  const pendingTenant = pending?.summary.tenant;
+  const isReinstating = pending?.kind === 'status' && pendingTenant?.status !== 'ACTIVE';
+  const isDestructive = pending?.kind === 'delete' || (pending?.kind === 'status' && !isReinstating);
+  const confirmLabel = { status: isReinstating ? 'Reinstate' : 'Suspend', plan: 'Change Plan', delete: 'Close Company', restore: 'Restore' }[pending?.kind ?? 'status'];
+  const planOptions = pending?.kind === 'plan' ? plans.filter(plan => plan.planId !== pending.summary.planId) : [];
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2"><Building2 className="h-5 w-5" /> Companies</CardTitle>
+          <CardDescription>{tenants.length} compan{tenants.length === 1 ? 'y' : 'ies'} on the platform. Data size is an estimate of stored records; uploaded files are not included.</CardDescription>
+        </div>
+        <Input className="w-64" placeholder="Search name or subdomain" value={search} onChange={e => setSearch(e.target.value)} />
+      </CardHeader>
+      <CardContent>
+        {visibleTenants.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No companies found.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Company</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Plan</TableHead>
+                <TableHead className="text-right">Users</TableHead>
+                <TableHead className="text-right">Employees</TableHead>
+                <TableHead className="text-right">Data</TableHead>
+                <TableHead>Last activity</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleTenants.map(summary => {
+                const { tenant } = summary;
+                return (
+                  <TableRow key={tenant.tenant_id}>
+                    <TableCell>
+                      <div className="font-medium">{tenant.name}</div>
+                      <div className="text-xs text-muted-foreground">{tenant.subdomain}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_BADGE_VARIANT[tenant.status]} title={tenant.status_reason || undefined}>{tenant.status.toLowerCase()}</Badge>
+                      {tenant.status === 'DELETED' && tenant.deletion_scheduled_at && (
+                        <div className="text-xs text-muted-foreground">Purged after {formatDate(tenant.deletion_scheduled_at)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {summary.planName ?? <span className="text-muted-foreground">No subscription</span>}
+                      {summary.paymentStatus === 'FAILED' && <Badge variant="destructive" className="ml-2">overdue</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">{summary.activeUsers}</TableCell>
+                    <TableCell className="text-right">{summary.activeEmployees}</TableCell>
+                    <TableCell className="text-right">{formatBytes(summary.dataBytes)}</TableCell>
+                    <TableCell>{formatLastActivity(summary.lastActivityAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label={`Actions for ${tenant.name}`} disabled={sendingWelcome[tenant.tenant_id]}>
+                            {sendingWelcome[tenant.tenant_id] ? <Loader2 className="h-4 w-4 animate-spin" /> : <MoreHorizontal className="h-4 w-4" />}
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem disabled={!summary.planId || tenant.status !== 'ACTIVE'} onSelect={() => openChange({ kind: 'plan', summary })}>
+                            <Repeat className="mr-2 h-4 w-4" /> Change plan
+                          </DropdownMenuItem>
+                          <DropdownMenuItem disabled={tenant.status !== 'ACTIVE'} onSelect={() => handleResendWelcome(summary)}>
+                            <Mail className="mr-2 h-4 w-4" /> Resend welcome email
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          {tenant.status === 'ACTIVE' && (
+                            <DropdownMenuItem className="text-destructive" onSelect={() => openChange({ kind: 'status', summary })}>
+                              <ShieldOff className="mr-2 h-4 w-4" /> Suspend
+                            </DropdownMenuItem>
+                          )}
+                          {tenant.status === 'SUSPENDED' && (
+                            <DropdownMenuItem onSelect={() => openChange({ kind: 'status', summary })}>
+                              <ShieldCheck className="mr-2 h-4 w-4" /> Reinstate
+                            </DropdownMenuItem>
+                          )}
+                          {tenant.status === 'DELETED' ? (
+                            <DropdownMenuItem onSelect={() => openChange({ kind: 'restore', summary })}>
+                              <ArchiveRestore className="mr-2 h-4 w-4" /> Restore
+                            </DropdownMenuItem>
+                          ) : (
+                            <DropdownMenuItem className="text-destructive" onSelect={() => openChange({ kind: 'delete', summary })}>
+                              <Trash2 className="mr-2 h-4 w-4" /> Close and schedule deletion
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!pending} onOpenChange={open => { if (!open && !isSaving) setPending(null); }}>
+        <DialogContent>
+          {pending?.kind === 'status' && pendingTenant && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{isReinstating ? 'Reinstate' : 'Suspend'} {pendingTenant.name}?</DialogTitle>
+                <DialogDescription>
+                  {isReinstating
+                    ? 'Its users can sign in again and its API keys and SCIM tokens work again.'
+                    : 'Its users are signed out and cannot sign in, and its API keys and SCIM tokens stop working until it is reinstated.'}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="status-reason">Internal note (optional)</Label>
+                <Textarea id="status-reason" value={reason} onChange={e => setReason(e.target.value)} maxLength={500} placeholder={isReinstating ? 'e.g. Invoice paid' : 'e.g. Unpaid invoice'} />
+              </div>
+            </>
+          )}
+          {pending?.kind === 'plan' && pendingTenant && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Change the plan of {pendingTenant.name}</DialogTitle>
+                <DialogDescription>
+                  Currently on {pending.summary.planName}. The change takes effect now: the company is invoiced for the new plan, less a credit for the unused time on the current one.
+                </DialogDescription>
+              </DialogHeader>
+              <Select value={selectedPlanId} onValueChange={setSelectedPlanId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {planOptions.map(plan => (
+                    <SelectItem key={plan.planId} value={plan.planId}>
+                      {plan.name} ({plan.maxUsers} users, {plan.maxEmployees} employees)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+          {pending?.kind === 'delete' && pendingTenant && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Close {pendingTenant.name}?</DialogTitle>
+                <DialogDescription>
+                  Its users are signed out and blocked at once, and its API keys and SCIM tokens stop working. Its data is kept
+                  for the retention period, during which the company can be restored. After that, all its records and stored
+                  documents are permanently deleted and a deletion certificate is issued.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="deletion-grace-days">Retention period (days)</Label>
+                  <Input id="deletion-grace-days" type="number" min={0} max={365} value={graceDays} onChange={e => setGraceDays(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="deletion-reason">Internal note (optional)</Label>
+                  <Textarea id="deletion-reason" value={reason} onChange={e => setReason(e.target.value)} maxLength={500} placeholder="e.g. Customer cancelled their contract" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="deletion-confirm">Type <span className="font-mono">{pendingTenant.subdomain}</span> to confirm</Label>
+                  <Input id="deletion-confirm" value={confirmSubdomain} onChange={e => setConfirmSubdomain(e.target.value)} autoComplete="off" />
+                </div>
+              </div>
+            </>
+          )}
+          {pending?.kind === 'restore' && pendingTenant && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Restore {pendingTenant.name}?</DialogTitle>
+                <DialogDescription>
+                  The scheduled deletion is cancelled and the company becomes active again with all its data. Its users can sign
+                  in again and its API keys and SCIM tokens work again.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="restore-reason">Internal note (optional)</Label>
+                <Textarea id="restore-reason" value={reason} onChange={e => setReason(e.target.value)} maxLength={500} placeholder="e.g. Customer renewed" />
+              </div>
+            </>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)} disabled={isSaving}>Cancel</Button>
+            <Button
+              variant={isDestructive ? 'destructive' : 'default'}
+              onClick={handleConfirm}
+              disabled={
+                isSaving ||
+                (pending?.kind === 'plan' && !selectedPlanId) ||
+                (pending?.kind === 'delete' && confirmSubdomain.trim().toLowerCase() !== pendingTenant?.subdomain)
+              }
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {confirmLabel}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
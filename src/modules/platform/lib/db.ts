@@ -0,0 +1,302 @@
+// src/modules/platform/lib/db.ts
+// Platform operators and cross-tenant statistics. Platform admins are users with a NULL tenant_id, which
+// row-level security only shows in system scope, so every function here must run inside withSystemScope.
+import pool from '@/lib/db';
+import { mapRowToTenant } from '@/modules/auth/lib/db';
+import type { TenantStatus } from '@/modules/auth/types';
+import type { PlatformAdmin, PlatformHealth, PlatformTenantSummary } from '@/modules/platform/types';
+import { PLATFORM_LOGIN_LOCK_MINUTES, PLATFORM_LOGIN_MAX_FAILED_ATTEMPTS } from '@/modules/platform/types';
+
+export interface PlatformAdminCredentials extends PlatformAdmin {
+    passwordHash: string;
+    lockedUntil: string | null;
+}
+
+function mapRowToPlatformAdmin(row: any): PlatformAdmin {
+    return {
+        userId: row.user_id,
+        username: row.username,
+        email: row.email,
+        name: row.name ?? null,
+        platformRole: row.platform_role,
+        isActive: row.is_active,
+        lastLogin: row.last_login ? new Date(row.last_login).toISOString() : null,
+        created_at: new Date(row.created_at).toISOString(),
+    };
+}
+
+/** The platform admin signing in with this username or email, active or not. */
+export async function getPlatformAdminForLogin(loginIdentifier: string): Promise<PlatformAdminCredentials | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT * FROM users
+             WHERE tenant_id IS NULL AND platform_role IS NOT NULL AND (username = $1 OR email = $1)`,
+            [loginIdentifier.toLowerCase()]
+        );
+        if (res.rows.length === 0) return undefined;
+        const row = res.rows[0];
+        return {
+            ...mapRowToPlatformAdmin(row),
+            passwordHash: row.password_hash,
+            lockedUntil: row.account_locked && row.locked_until ? new Date(row.locked_until).toISOString() : null,
+        };
+    } catch (err: any) {
+        console.error('[DB getPlatformAdminForLogin] Error fetching platform admin:', err);
+        if (err.code === '42703') {
+            throw new Error('Database schema not initialized. Column "users.platform_role" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Counts a wrong password. Reaching the limit locks the account for a fixed time; operators have no admin to unlock them.
+ * @returns The lock expiry when the account is now locked.
+ */
+export async function registerPlatformLoginFailure(user_id: string): Promise<{ lockedUntil: string | null }> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `WITH counted AS (
+                -- The count starts over once an earlier lock has expired
+                SELECT user_id, CASE WHEN account_locked AND locked_until <= NOW() THEN 1 ELSE failed_attempts + 1 END AS attempts
+                FROM users WHERE user_id = $1 AND tenant_id IS NULL
+             )
+             UPDATE users u SET
+                failed_attempts = c.attempts,
+                account_locked = c.attempts >= $2,
+                locked_until = CASE WHEN c.attempts >= $2 THEN NOW() + make_interval(mins => $3) ELSE NULL END
+             FROM counted c
+             WHERE u.user_id = c.user_id
+             RETURNING u.account_locked, u.locked_until`,
+            [user_id, PLATFORM_LOGIN_MAX_FAILED_ATTEMPTS, PLATFORM_LOGIN_LOCK_MINUTES]
+        );
+        const row = res.rows[0];
+        return { lockedUntil: row?.account_locked && row.locked_until ? new Date(row.locked_until).toISOString() : null };
+    } catch (err: any) {
+        console.error(`[DB registerPlatformLoginFailure] Error recording failed login of ${user_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** Records a successful sign-in and starts a server-side session. */
+export async function createPlatformSession(session: { userId: string; userAgent: string | null; ipAddress: string | null; expiresAt: Date }): Promise<string> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        await client.query(
+            `UPDATE users SET failed_attempts = 0, account_locked = FALSE, locked_until = NULL, last_login = NOW()
+             WHERE user_id = $1 AND tenant_id IS NULL`,
+            [session.userId]
+        );
+        const res = await client.query(
+            `INSERT INTO platform_sessions (user_id, user_agent, ip_address, expires_at)
+             VALUES ($1, $2, $3, $4)
+             RETURNING session_id`,
+            [session.userId, session.userAgent, session.ipAddress, session.expiresAt]
+        );
+        await client.query('COMMIT');
+        return res.rows[0].session_id;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB createPlatformSession] Error creating platform session for ${session.userId}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "platform_sessions" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** The session's admin while the session is neither revoked nor expired and the admin is still active; marks it seen. */
+export async function getActivePlatformSession(session_id: string, ipAddress: string | null): Promise<PlatformAdmin | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `UPDATE platform_sessions ps SET last_seen_at = NOW(), ip_address = COALESCE($2, ps.ip_address)
+             FROM users u
+             WHERE ps.session_id = $1 AND ps.revoked_at IS NULL AND ps.expires_at > NOW()
+               AND u.user_id = ps.user_id AND u.tenant_id IS NULL AND u.platform_role IS NOT NULL AND u.is_active = TRUE
+             RETURNING u.*`,
+            [session_id, ipAddress]
+        );
+        return res.rows.length > 0 ? mapRowToPlatformAdmin(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error(`[DB getActivePlatformSession] Error fetching platform session ${session_id}:`, err);
+        if (err.code === '22P02') {
+            throw new Error('Invalid session identifier.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function revokePlatformSession(session_id: string): Promise<void> {
+    const client = await pool.connect();
+    try {
+        await client.query('UPDATE platform_sessions SET revoked_at = NOW() WHERE session_id = $1 AND revoked_at IS NULL', [session_id]);
+    } catch (err: any) {
+        console.error(`[DB revokePlatformSession] Error revoking platform session ${session_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function listPlatformAdmins(): Promise<PlatformAdmin[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query('SELECT * FROM users WHERE tenant_id IS NULL AND platform_role IS NOT NULL ORDER BY created_at');
+        return res.rows.map(mapRowToPlatformAdmin);
+    } catch (err: any) {
+        console.error('[DB listPlatformAdmins] Error listing platform admins:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function addPlatformAdmin(admin: { username: string; email: string; name: string | null; passwordHash: string }): Promise<PlatformAdmin> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `INSERT INTO users (tenant_id, username, email, name, password_hash, platform_role, password_changed_at)
+             VALUES (NULL, $1, $2, $3, $4, 'PLATFORM_ADMIN', NOW())
+             RETURNING *`,
+            [admin.username.toLowerCase(), admin.email.toLowerCase(), admin.name, admin.passwordHash]
+        );
+        return mapRowToPlatformAdmin(res.rows[0]);
+    } catch (err: any) {
+        console.error('[DB addPlatformAdmin] Error adding platform admin:', err);
+        if (err.code === '23505') {
+            throw new Error(`A platform admin with username "${admin.username}" or email "${admin.email}" already exists.`);
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** Activates or deactivates a platform admin; deactivation also ends their console sessions. */
+export async function setPlatformAdminActive(username: string, isActive: boolean): Promise<PlatformAdmin | undefined> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const res = await client.query(
+            `UPDATE users SET is_active = $2, failed_attempts = 0, account_locked = FALSE, locked_until = NULL
+             WHERE tenant_id IS NULL AND platform_role IS NOT NULL AND username = $1
+             RETURNING *`,
+            [username.toLowerCase(), isActive]
+        );
+        if (res.rows.length > 0 && !isActive) {
+            await client.query('UPDATE platform_sessions SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL', [res.rows[0].user_id]);
+        }
+        await client.query('COMMIT');
+        return res.rows.length > 0 ? mapRowToPlatformAdmin(res.rows[0]) : undefined;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB setPlatformAdminActive] Error updating platform admin ${username}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+// Tables that hold most of a company's data. Row sizes are summed as stored, so the figure is an estimate.
+const TENANT_DATA_TABLES = ['employees', 'employee_documents', 'attendance_records', 'leave_requests', 'candidates', 'job_applications', 'audit_events'];
+
+/** Every company with its current plan, usage and last activity, newest first. */
+export async function getPlatformTenantSummaries(): Promise<PlatformTenantSummary[]> {
+    const client = await pool.connect();
+    try {
+        const dataSizeQuery = TENANT_DATA_TABLES
+            .map(table => `SELECT tenant_id, pg_column_size(x.*)::bigint AS bytes FROM ${table} x`)
+            .join(' UNION ALL ');
+        const res = await client.query(
+            `WITH current_subscriptions AS (
+                SELECT DISTINCT ON (s.tenant_id) s.tenant_id, s.plan_id, s.payment_status, p.name AS plan_name
+                FROM tenant_subscriptions s
+                JOIN subscription_plans p ON p.plan_id = s.plan_id
+                WHERE s.status = 'ACTIVE' AND s.start_date <= NOW() AND s.end_date > NOW()
+                ORDER BY s.tenant_id, s.start_date DESC
+            ),
+            user_stats AS (
+                SELECT tenant_id, COUNT(*) FILTER (WHERE is_active) AS active_users, MAX(last_login) AS last_login
+                FROM users WHERE tenant_id IS NOT NULL GROUP BY tenant_id
+            ),
+            employee_stats AS (
+                SELECT tenant_id, COUNT(*) AS active_employees FROM employees WHERE status <> 'Inactive' GROUP BY tenant_id
+            ),
+            session_stats AS (
+                SELECT tenant_id, MAX(last_seen_at) AS last_seen_at FROM user_sessions GROUP BY tenant_id
+            ),
+            data_stats AS (
+                SELECT tenant_id, SUM(bytes) AS data_bytes FROM (${dataSizeQuery}) sized GROUP BY tenant_id
+            )
+            SELECT t.*, cs.plan_id, cs.plan_name, cs.payment_status,
+                   COALESCE(us.active_users, 0) AS active_users,
+                   COALESCE(es.active_employees, 0) AS active_employees,
+                   COALESCE(ds.data_bytes, 0) AS data_bytes,
+                   GREATEST(us.last_login, ss.last_seen_at) AS last_activity_at
+            FROM tenants t
+            LEFT JOIN current_subscriptions cs ON cs.tenant_id = t.tenant_id
+            LEFT JOIN user_stats us ON us.tenant_id = t.tenant_id
+            LEFT JOIN employee_stats es ON es.tenant_id = t.tenant_id
+            LEFT JOIN session_stats ss ON ss.tenant_id = t.tenant_id
+            LEFT JOIN data_stats ds ON ds.tenant_id = t.tenant_id
+            ORDER BY t.created_at DESC`
+        );
+        return res.rows.map((row: any) => ({
+            tenant: mapRowToTenant(row),
+            planId: row.plan_id ?? null,
+            planName: row.plan_name ?? null,
+            paymentStatus: row.payment_status ?? null,
+            activeUsers: parseInt(row.active_users, 10),
+            activeEmployees: parseInt(row.active_employees, 10),
+            dataBytes: parseInt(row.data_bytes, 10),
+            lastActivityAt: row.last_activity_at ? new Date(row.last_activity_at).toISOString() : null,
+        }));
+    } catch (err: any) {
+        console.error('[DB getPlatformTenantSummaries] Error fetching tenant summaries:', err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenants" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** Platform-wide counters for the health panel. */
+export async function getPlatformActivityCounts(): Promise<Pick<PlatformHealth, 'tenantsByStatus' | 'activeSessionsLast24h' | 'overdueInvoices' | 'failedPaymentsLast7d'>> {
+    const client = await pool.connect();
+    try {
+        const statusRes = await client.query('SELECT status, COUNT(*) AS count FROM tenants GROUP BY status');
+        const tenantsByStatus: Record<TenantStatus, number> = { ACTIVE: 0, SUSPENDED: 0, DELETED: 0 };
+        statusRes.rows.forEach((row: any) => { tenantsByStatus[row.status as TenantStatus] = parseInt(row.count, 10); });
+        const res = await client.query(
+            `SELECT
+                (SELECT COUNT(*) FROM user_sessions WHERE revoked_at IS NULL AND expires_at > NOW() AND last_seen_at > NOW() - INTERVAL '24 hours') AS active_sessions,
+                (SELECT COUNT(*) FROM subscription_invoices WHERE status = 'OVERDUE') AS overdue_invoices,
+                (SELECT COUNT(*) FROM subscription_payments WHERE status = 'FAILED' AND updated_at > NOW() - INTERVAL '7 days') AS failed_payments`
+        );
+        return {
+            tenantsByStatus,
+            activeSessionsLast24h: parseInt(res.rows[0].active_sessions, 10),
+            overdueInvoices: parseInt(res.rows[0].overdue_invoices, 10),
+            failedPaymentsLast7d: parseInt(res.rows[0].failed_payments, 10),
+        };
+    } catch (err: any) {
+        console.error('[DB getPlatformActivityCounts] Error counting platform activity:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
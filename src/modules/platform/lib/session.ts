@@ -0,0 +1,56 @@
+// src/modules/platform/lib/session.ts
+// Resolves the platform operator of the current request. Kept out of the actions file so that other server
+// code (audit attribution, guards) can call it without exposing it to the client.
+import { cookies, headers } from 'next/headers';
+import { PLATFORM_SESSION_COOKIE_NAME, verifyPlatformSessionToken } from '@/modules/auth/lib/session-token';
+import type { PlatformSessionData } from '@/modules/auth/lib/session-token';
+import { getClientIp } from '@/modules/auth/lib/utils';
+import { resolveTenantSubdomainFromHost, withSystemScope } from '@/lib/tenant-context';
+import { getActivePlatformSession } from '@/modules/platform/lib/db';
+import type { PlatformAdmin } from '@/modules/platform/types';
+
+export interface PlatformSession extends PlatformSessionData {
+    admin: PlatformAdmin;
+}
+
+/**
+ * The signed-in platform admin, or null. The console only exists on the root domain, so a platform
+ * cookie presented on a tenant host is ignored.
+ */
+export async function getPlatformSession(): Promise<PlatformSession | null> {
+    let headersList: Awaited<ReturnType<typeof headers>>;
+    try {
+        headersList = await headers();
+    } catch {
+        return null; // Not inside a request
+    }
+    const { subdomain, isRootContext } = resolveTenantSubdomainFromHost(headersList.get('host') || '');
+    if (subdomain || !isRootContext) return null;
+
+    const token = (await cookies()).get(PLATFORM_SESSION_COOKIE_NAME)?.value;
+    const session = await verifyPlatformSessionToken(token);
+    if (!session) return null;
+    try {
+        const admin = await withSystemScope('platform session check', () => getActivePlatformSession(session.sessionId, getClientIp(headersList)));
+        if (!admin || admin.userId !== session.userId) {
+            console.warn(`[getPlatformSession] Platform session ${session.sessionId} is revoked, expired or its admin is inactive.`);
+            return null;
+        }
+        return { ...session, admin };
+    } catch (error: any) {
+        console.error(`[getPlatformSession] Error checking platform session: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * The guard for platform console actions.
+ * @throws Error starting with "Unauthorized:" when there is no platform session.
+ */
+export async function requirePlatformAdmin(): Promise<PlatformSession> {
+    const session = await getPlatformSession();
+    if (!session) {
+        throw new Error("Unauthorized: No active platform session.");
+    }
+    return session;
+}
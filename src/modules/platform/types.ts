@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import type { Tenant, TenantStatus } from '@/modules/auth/types';
+
+// --- Platform Operators ---
+// Platform admins are users without a tenant. They only sign in to the root-domain console and hold no
+// tenant role or permissions; every change they make to a company is recorded in that company's audit log.
+export const platformRoleSchema = z.enum(['PLATFORM_ADMIN']);
+export type PlatformRole = z.infer<typeof platformRoleSchema>;
+
+export const PLATFORM_LOGIN_MAX_FAILED_ATTEMPTS = 5;
+export const PLATFORM_LOGIN_LOCK_MINUTES = 15;
+
+export interface PlatformAdmin {
+  userId: string;
+  username: string;
+  email: string;
+  name: string | null;
+  platformRole: PlatformRole;
+  isActive: boolean;
+  lastLogin: string | null;
+  created_at: string;
+}
+
+export const platformLoginSchema = z.object({
+  loginIdentifier: z.string().min(1, "Username or Email is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export type PlatformLoginFormInputs = z.infer<typeof platformLoginSchema>;
+
+// Operators suspend and reinstate here; closing a company goes through platformTenantDeletionSchema and restoreTenantAction.
+export const platformTenantStatusChangeSchema = z.object({
+  status: z.enum(['ACTIVE', 'SUSPENDED']),
+  reason: z.string().trim().max(500, "Reason must be 500 characters or less").optional(),
+});
+
+export type PlatformTenantStatusChange = z.infer<typeof platformTenantStatusChangeSchema>;
+
+// Closing a company keeps its data for graceDays, during which it can be restored; the subdomain is typed to confirm.
+export const platformTenantDeletionSchema = z.object({
+  graceDays: z.coerce.number().int("Whole days only").min(0, "Cannot be negative").max(365, "At most 365 days"),
+  reason: z.string().trim().max(500, "Reason must be 500 characters or less").optional(),
+  confirmSubdomain: z.string().trim().min(1, "Type the subdomain to confirm"),
+});
+
+export type PlatformTenantDeletion = z.infer<typeof platformTenantDeletionSchema>;
+
+// --- Tenant Directory ---
+export interface PlatformTenantSummary {
+  tenant: Tenant;
+  planId: string | null; // Plan of the current subscription; null without one
+  planName: string | null;
+  paymentStatus: 'PENDING' | 'PAID' | 'FAILED' | null;
+  activeUsers: number;
+  activeEmployees: number;
+  dataBytes: number; // Approximate size of the company's main records; uploaded files are stored outside the database
+  lastActivityAt: string | null; // Latest sign-in or session activity of any of its users
+}
+
+// --- Platform Health ---
+export interface PlatformHealth {
+  checkedAt: string;
+  database: { ok: boolean; latencyMs: number | null; message: string };
+  migrations: { latestApplied: number | null; pending: string[]; error?: string };
+  tenantsByStatus: Record<TenantStatus, number>;
+  activeSessionsLast24h: number;
+  overdueInvoices: number;
+  failedPaymentsLast7d: number;
+  emailConfigured: boolean; // Internal SMTP used for welcome emails and platform notifications
+  paymentGateway: { name: string | null; error?: string };
+}
@@ -26,14 +26,11 @@ import {
 } from '@/modules/recruitment/lib/db';
 import { z } from 'zod';
 import { revalidatePath } from 'next/cache';
-import { getTenantIdFromSession, isAdminFromSession } from '@/modules/auth/actions';
+import { getTenantIdFromSession, requirePermission } from '@/modules/auth/actions';
 
 async function checkRecruitmentPermission(): Promise<string> {
-    const tenantId = await getTenantIdFromSession();
-    if (!tenantId) throw new Error("Tenant context not found.");
-    const isAdmin = await isAdminFromSession();
-    if (!isAdmin) throw new Error("Unauthorized to manage recruitment.");
-    return tenantId;
+    const session = await requirePermission('recruitment.manage');
+    return session.tenantId;
 }
 
 // --- Job Opening Server Actions ---
@@ -12,6 +12,8 @@ import type {
     ExperienceLevel
 } from '@/modules/recruitment/types';
 import { formatISO, isValid, parseISO } from 'date-fns';
+import { recordAuditEvent } from '@/modules/audit/lib/db';
+import { diffForAudit } from '@/modules/audit/lib/diff';
 
 // --- Job Opening Operations ---
 
@@ -118,12 +120,20 @@ export async function addJobOpening(jobData: JobOpeningFormData & { tenantId: st
     let client;
     try {
         client = await pool.connect();
+        await client.query('BEGIN');
         const res = await client.query(query, values);
         if (res.rows.length === 0) {
             throw new Error("Database did not return the created job opening.");
         }
-        return mapRowToJobOpening(res.rows[0]);
+        const opening = mapRowToJobOpening(res.rows[0]);
+        await recordAuditEvent(client, {
+            tenantId: jobData.tenantId, entityType: 'job_opening', entityId: opening.id, entityLabel: opening.job_title,
+            action: 'create', changes: diffForAudit(null, opening),
+        });
+        await client.query('COMMIT');
+        return opening;
     } catch (err) {
+        if (client) await client.query('ROLLBACK');
         console.error('[DB addJobOpening] Error adding job opening:', err);
         throw err;
     } finally {
@@ -199,9 +209,19 @@ export async function updateJobOpening(id: string, tenantId: string, updates: Pa
     `;
 
     try {
+        await client.query('BEGIN');
         const res = await client.query(query, values);
-        return res.rows.length > 0 ? mapRowToJobOpening(res.rows[0]) : undefined;
+        const updated = res.rows.length > 0 ? mapRowToJobOpening(res.rows[0]) : undefined;
+        if (updated) {
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'job_opening', entityId: id, entityLabel: updated.job_title,
+                action: 'update', changes: diffForAudit(currentOpening, updated),
+            });
+        }
+        await client.query('COMMIT');
+        return updated;
     } catch (err) {
+        await client.query('ROLLBACK');
         console.error(`Error updating job opening ${id} for tenant ${tenantId}:`, err);
         throw err;
     } finally {
@@ -212,15 +232,25 @@ export async function updateJobOpening(id: string, tenantId: string, updates: Pa
 export async function deleteJobOpening(id: string, tenantId: string): Promise<boolean> {
     const client = await pool.connect();
     try {
+        await client.query('BEGIN');
         const checkApplicationsQuery = 'SELECT 1 FROM job_applications WHERE job_id = $1 AND tenant_id = $2 LIMIT 1';
         const appRes = await client.query(checkApplicationsQuery, [id, tenantId]);
         if (appRes.rowCount > 0) {
             throw new Error('Cannot delete job opening with associated applications. Please remove applications first.');
         }
-        const deleteQuery = 'DELETE FROM job_openings WHERE id = $1 AND tenant_id = $2';
+        const deleteQuery = 'DELETE FROM job_openings WHERE id = $1 AND tenant_id = $2 RETURNING *';
         const res = await client.query(deleteQuery, [id, tenantId]);
+        if (res.rows.length > 0) {
+            const deleted = mapRowToJobOpening(res.rows[0]);
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'job_opening', entityId: id, entityLabel: deleted.job_title,
+                action: 'delete', changes: diffForAudit(deleted, null),
+            });
+        }
+        await client.query('COMMIT');
         return res.rowCount > 0;
     } catch (err) {
+        await client.query('ROLLBACK');
         console.error(`Error deleting job opening ${id} for tenant ${tenantId}:`, err);
         throw err;
     } finally {
@@ -302,6 +332,7 @@ export async function addCandidateAndApplyForJob(
 
         if (candidate) {
             candidateId = candidate.id!;
+            const existingCandidate = candidate;
             // Optionally update existing candidate details here if needed
             const updateClauses: string[] = [];
             const updateValues: any[] = [];
@@ -314,7 +345,12 @@ export async function addCandidateAndApplyForJob(
                 updateClauses.push(`updated_at = NOW()`);
                 updateValues.push(candidateId);
                 updateValues.push(tenantId);
-                await client.query(`UPDATE candidates SET ${updateClauses.join(', ')} WHERE id = $${valIdx++} AND tenant_id = $${valIdx++}`, updateValues);
+                const updatedCandRes = await client.query(`UPDATE candidates SET ${updateClauses.join(', ')} WHERE id = $${valIdx++} AND tenant_id = $${valIdx++} RETURNING *`, updateValues);
+                const updatedCandidate = mapRowToCandidate(updatedCandRes.rows[0]);
+                await recordAuditEvent(client, {
+                    tenantId, entityType: 'candidate', entityId: candidateId, entityLabel: updatedCandidate.name,
+                    action: 'update', changes: diffForAudit(existingCandidate, updatedCandidate),
+                });
             }
         } else {
             const candQuery = `
@@ -324,7 +360,7 @@ export async function addCandidateAndApplyForJob(
                     current_salary, expected_salary, created_at, updated_at
                 )
                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW(), NOW())
-                RETURNING id;
+                RETURNING *;
             `;
             const candValues = [
                 tenantId, candidateData.first_name, candidateData.last_name, candidateData.email,
@@ -335,6 +371,11 @@ export async function addCandidateAndApplyForJob(
             ];
             const candRes = await client.query(candQuery, candValues);
             candidateId = candRes.rows[0].id;
+            const newCandidate = mapRowToCandidate(candRes.rows[0]);
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'candidate', entityId: candidateId, entityLabel: newCandidate.name,
+                action: 'create', changes: diffForAudit(null, newCandidate),
+            });
         }
 
         // Check if candidate already applied for this job opening
@@ -353,10 +394,14 @@ export async function addCandidateAndApplyForJob(
         `;
         const appValues = [tenantId, candidateId, jobOpeningId, candidateData.status || 'Applied'];
         const appRes = await client.query(appQuery, appValues);
+        const application = mapRowToJobApplication(appRes.rows[0]);
+        await recordAuditEvent(client, {
+            tenantId, entityType: 'job_application', entityId: application.id, entityLabel: `${candidateData.first_name} ${candidateData.last_name}`,
+            action: 'create', changes: diffForAudit(null, application),
+        });
         
         await client.query('COMMIT');
-        // mapRowToJobApplication needs to be created
-        return mapRowToJobApplication(appRes.rows[0]);
+        return application;
 
     } catch (err: any) {
         await client.query('ROLLBACK');
@@ -423,9 +468,20 @@ export async function updateCandidate(id: string, tenantId: string, updates: Par
     `;
 
     try {
+        await client.query('BEGIN');
+        const beforeRes = await client.query('SELECT * FROM candidates WHERE id = $1 AND tenant_id = $2', [id, tenantId]);
         const res = await client.query(query, values);
-        return res.rows.length > 0 ? mapRowToCandidate(res.rows[0]) : undefined;
+        const updated = res.rows.length > 0 ? mapRowToCandidate(res.rows[0]) : undefined;
+        if (updated) {
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'candidate', entityId: id, entityLabel: updated.name,
+                action: 'update', changes: diffForAudit(beforeRes.rows.map(mapRowToCandidate)[0], updated),
+            });
+        }
+        await client.query('COMMIT');
+        return updated;
     } catch (err: any) {
+        await client.query('ROLLBACK');
         console.error(`Error updating candidate ${id} for tenant ${tenantId}:`, err);
         if (err.code === '23505' && err.constraint?.includes('email')) { // Example, adjust to your unique constraints
             throw new Error('This email address is already in use by another candidate in this tenant.');
@@ -440,11 +496,21 @@ export async function updateCandidate(id: string, tenantId: string, updates: Par
 export async function deleteCandidate(id: string, tenantId: string): Promise<boolean> {
     const client = await pool.connect();
     // Deleting a candidate will also delete their job_applications due to ON DELETE CASCADE
-    const query = 'DELETE FROM candidates WHERE id = $1 AND tenant_id = $2';
+    const query = 'DELETE FROM candidates WHERE id = $1 AND tenant_id = $2 RETURNING *';
     try {
+        await client.query('BEGIN');
         const res = await client.query(query, [id, tenantId]);
+        if (res.rows.length > 0) {
+            const deleted = mapRowToCandidate(res.rows[0]);
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'candidate', entityId: id, entityLabel: deleted.name,
+                action: 'delete', changes: diffForAudit(deleted, null),
+            });
+        }
+        await client.query('COMMIT');
         return res.rowCount > 0;
     } catch (err) {
+        await client.query('ROLLBACK');
         console.error(`Error deleting candidate ${id} for tenant ${tenantId}:`, err);
         throw err;
     } finally {
@@ -508,7 +574,6 @@ export async function getApplicationsForJobOpening(jobOpeningId: string, tenantI
 
 export async function updateApplicationStatus(applicationId: string, tenantId: string, status: CandidateApplicationStatus, notes?: string): Promise<JobApplication | undefined> {
     const client = await pool.connect();
-    // In a real app, you might want to log who changed the status and when, possibly in a separate audit table
     const query = `
         UPDATE job_applications
         SET current_stage = $1, updated_at = NOW() 
@@ -516,20 +581,31 @@ export async function updateApplicationStatus(applicationId: string, tenantId: s
         RETURNING *; 
     `;
     // Notes are on the candidate record, not application. If notes are for application stage, add column.
+    const applicationQuery = `
+        SELECT ja.*, c.first_name || ' ' || c.last_name AS candidate_name, c.email AS candidate_email
+        FROM job_applications ja
+        JOIN candidates c ON ja.candidate_id = c.id
+        WHERE ja.id = $1 AND ja.tenant_id = $2
+    `;
     try {
+        await client.query('BEGIN');
+        const beforeRes = await client.query(applicationQuery, [applicationId, tenantId]);
         const res = await client.query(query, [status, applicationId, tenantId]);
         if (res.rows.length > 0) {
             // To return full JobApplication with candidate details, we'd need to re-fetch or join
-            const updatedAppRes = await client.query(`
-                SELECT ja.*, c.first_name || ' ' || c.last_name AS candidate_name, c.email AS candidate_email
-                FROM job_applications ja
-                JOIN candidates c ON ja.candidate_id = c.id
-                WHERE ja.id = $1 AND ja.tenant_id = $2
-            `, [applicationId, tenantId]);
-            return mapRowToJobApplication(updatedAppRes.rows[0]);
+            const updatedAppRes = await client.query(applicationQuery, [applicationId, tenantId]);
+            const updated = mapRowToJobApplication(updatedAppRes.rows[0]);
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'job_application', entityId: applicationId, entityLabel: updatedAppRes.rows[0].candidate_name ?? null,
+                action: 'update', changes: diffForAudit(beforeRes.rows.map(mapRowToJobApplication)[0], updated),
+            });
+            await client.query('COMMIT');
+            return updated;
         }
+        await client.query('ROLLBACK');
         return undefined;
     } catch (err) {
+        await client.query('ROLLBACK');
         console.error(`Error updating application status for ${applicationId}, tenant ${tenantId}:`, err);
         throw err;
     } finally {
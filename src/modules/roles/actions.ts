@@ -0,0 +1,145 @@
+'use server';
+
+import type { Role, RoleFormData } from '@/modules/roles/types';
+import { roleFormSchema } from '@/modules/roles/types';
+import {
+  getRolesForTenant as dbGetRolesForTenant,
+  addRole as dbAddRole,
+  updateRole as dbUpdateRole,
+  deleteRole as dbDeleteRole,
+  getCustomRoleIdsForUser as dbGetCustomRoleIdsForUser,
+  setCustomRolesForUser as dbSetCustomRolesForUser,
+} from '@/modules/roles/lib/db';
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { getSessionData, getPermissionsFromSession, requirePermission } from '@/modules/auth/actions';
+
+// --- Role Management ---
+
+export async function getRolesAction(): Promise<{ success: boolean; roles?: Role[]; error?: string }> {
+  const session = await getSessionData();
+  if (!session?.tenantId) return { success: false, error: 'Tenant context not found.' };
+
+  // Role assignment on an employee profile needs the role list too.
+  const permissions = await getPermissionsFromSession();
+  if (!permissions.includes('roles.manage') && !permissions.includes('employees.assign_roles')) {
+    return { success: false, error: 'Unauthorized to view roles.' };
+  }
+
+  try {
+    return { success: true, roles: await dbGetRolesForTenant(session.tenantId) };
+  } catch (error: any) {
+    console.error("[Action getRolesAction] Error fetching roles:", error);
+    return { success: false, error: error.message || 'Failed to load roles.' };
+  }
+}
+
+export async function addRoleAction(formData: RoleFormData): Promise<{ success: boolean; role?: Role; errors?: z.ZodIssue[] | { code: string; path: string[]; message: string }[] }> {
+  let session;
+  try {
+    session = await requirePermission('roles.manage');
+  } catch (authError: any) {
+    return { success: false, errors: [{ code: 'custom', path: [], message: authError.message }] };
+  }
+
+  const validation = roleFormSchema.safeParse(formData);
+  if (!validation.success) {
+    return { success: false, errors: validation.error.errors };
+  }
+
+  try {
+    const role = await dbAddRole(session.tenantId, validation.data, session.userId);
+    console.log(`[Action addRoleAction] Role "${role.name}" created by user ${session.userId}.`);
+    revalidatePath(`/${session.tenantDomain}/settings`);
+    return { success: true, role };
+  } catch (error: any) {
+    console.error("[Action addRoleAction] Error adding role:", error);
+    return { success: false, errors: [{ code: 'custom', path: ['name'], message: error.message || 'Failed to add role.' }] };
+  }
+}
+
+export async function updateRoleAction(id: string, formData: RoleFormData): Promise<{ success: boolean; role?: Role; errors?: z.ZodIssue[] | { code: string; path: string[]; message: string }[] }> {
+  let session;
+  try {
+    session = await requirePermission('roles.manage');
+  } catch (authError: any) {
+    return { success: false, errors: [{ code: 'custom', path: [], message: authError.message }] };
+  }
+
+  const validation = roleFormSchema.safeParse(formData);
+  if (!validation.success) {
+    return { success: false, errors: validation.error.errors };
+  }
+
+  try {
+    const role = await dbUpdateRole(id, session.tenantId, validation.data, session.userId);
+    if (!role) {
+      return { success: false, errors: [{ code: 'custom', path: ['id'], message: 'Role not found.' }] };
+    }
+    console.log(`[Action updateRoleAction] Role ${id} updated by user ${session.userId}.`);
+    revalidatePath(`/${session.tenantDomain}/settings`);
+    return { success: true, role };
+  } catch (error: any) {
+    console.error("[Action updateRoleAction] Error updating role:", error);
+    return { success: false, errors: [{ code: 'custom', path: ['name'], message: error.message || 'Failed to update role.' }] };
+  }
+}
+
+export async function deleteRoleAction(id: string): Promise<{ success: boolean; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('roles.manage');
+  } catch (authError: any) {
+    return { success: false, error: authError.message };
+  }
+
+  try {
+    const deleted = await dbDeleteRole(id, session.tenantId);
+    if (!deleted) {
+      return { success: false, error: 'Role not found, or it is a built-in role that cannot be deleted.' };
+    }
+    console.log(`[Action deleteRoleAction] Role ${id} deleted by user ${session.userId}.`);
+    revalidatePath(`/${session.tenantDomain}/settings`);
+    return { success: true };
+  } catch (error: any) {
+    console.error("[Action deleteRoleAction] Error deleting role:", error);
+    return { success: false, error: error.message || 'Failed to delete role.' };
+  }
+}
+
+// --- Role Assignment ---
+
+export async function getUserCustomRolesAction(userId: string): Promise<{ success: boolean; roleIds?: string[]; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('employees.assign_roles');
+  } catch (authError: any) {
+    return { success: false, error: authError.message };
+  }
+
+  try {
+    return { success: true, roleIds: await dbGetCustomRoleIdsForUser(userId, session.tenantId) };
+  } catch (error: any) {
+    console.error("[Action getUserCustomRolesAction] Error fetching user roles:", error);
+    return { success: false, error: error.message || 'Failed to load assigned roles.' };
+  }
+}
+
+export async function updateUserCustomRolesAction(userId: string, roleIds: string[]): Promise<{ success: boolean; roleIds?: string[]; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('employees.assign_roles');
+  } catch (authError: any) {
+    return { success: false, error: authError.message };
+  }
+
+  try {
+    const assignedRoleIds = await dbSetCustomRolesForUser(userId, session.tenantId, roleIds, session.userId);
+    console.log(`[Action updateUserCustomRolesAction] User ${userId} now has ${assignedRoleIds.length} custom role(s); changed by ${session.userId}.`);
+    revalidatePath(`/${session.tenantDomain}/employees`);
+    return { success: true, roleIds: assignedRoleIds };
+  } catch (error: any) {
+    console.error("[Action updateUserCustomRolesAction] Error assigning roles:", error);
+    return { success: false, error: error.message || 'Failed to assign roles.' };
+  }
+}
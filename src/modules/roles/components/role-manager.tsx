@@ -0,0 +1,306 @@
+"use client";
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { PERMISSION_REGISTRY, ALL_PERMISSION_KEYS, roleFormSchema, type Role, type RoleFormData } from '@/modules/roles/types';
+import { addRoleAction, updateRoleAction, deleteRoleAction } from '@/modules/roles/actions';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { PlusCircle, Edit, Trash2, Loader2, Save, Eye } from 'lucide-react';
+
+// Registry entries grouped by their `group` label, in registry order.
+const PERMISSION_GROUPS = PERMISSION_REGISTRY.reduce<Record<string, typeof PERMISSION_REGISTRY[number][]>>((groups, permission) => {
+  (groups[permission.group] ||= []).push(permission);
+  return groups;
+}, {});
+
+interface RoleManagerProps {
+  initialRoles: Role[];
+}
+
+export function RoleManager({ initialRoles }: RoleManagerProps) {
+  const { toast } = useToast();
+  const [roles, setRoles] = React.useState<Role[]>(initialRoles);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [isDeleting, setIsDeleting] = React.useState<Record<string, boolean>>({});
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [editingRole, setEditingRole] = React.useState<Role | null>(null);
+
+  // The Admin role always holds every permission; it can be inspected but not changed.
+  const isReadOnly = !!editingRole && editingRole.isSystem && editingRole.name === 'Admin';
+
+  const form = useForm<RoleFormData>({
+    resolver: zodResolver(roleFormSchema),
+    defaultValues: { name: '', description: '', permissions: [] },
+  });
+
+  const openAddDialog = () => {
+    setEditingRole(null);
+    form.reset({ name: '', description: '', permissions: [] });
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (role: Role) => {
+    setEditingRole(role);
+    form.reset({ name: role.name, description: role.description || '', permissions: role.permissions });
+    setIsDialogOpen(true);
+  };
+
+  const handleDialogClose = (open: boolean) => {
+    if (!open) {
+      setEditingRole(null);
+      form.clearErrors();
+    }
+    setIsDialogOpen(open);
+  };
+
+  const onSubmit = async (data: RoleFormData) => {
+    setIsSubmitting(true);
+    const isEditMode = !!editingRole;
+    try {
+      const result = isEditMode ? await updateRoleAction(editingRole!.id, data) : await addRoleAction(data);
+      if (!result.success || !result.role) {
+        throw new Error(result.errors?.[0]?.message || `Failed to ${isEditMode ? 'update' : 'add'} role.`);
+      }
+      const savedRole = result.role;
+      setRoles(prev => isEditMode ? prev.map(r => r.id === savedRole.id ? savedRole : r) : [...prev, savedRole]);
+      toast({
+        title: `Role ${isEditMode ? 'Updated' : 'Added'}`,
+        description: `${savedRole.name} has been successfully ${isEditMode ? 'updated' : 'added'}.`,
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+      setIsDialogOpen(false);
+      setEditingRole(null);
+    } catch (error: any) {
+      console.error("Role Submit error:", error);
+      toast({
+        title: `Error ${isEditMode ? 'Updating' : 'Adding'} Role`,
+        description: error.message || "An unexpected error occurred.",
+        variant: "destructive",
+      });
+      form.setError("root.serverError", { message: error.message || "An unexpected server error occurred." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (role: Role) => {
+    setIsDeleting(prev => ({ ...prev, [role.id]: true }));
+    try {
+      const result = await deleteRoleAction(role.id);
+      if (!result.success) {
+        throw new Error(result.error || "Could not delete role.");
+      }
+      setRoles(prev => prev.filter(r => r.id !== role.id));
+      toast({
+        title: "Role Deleted",
+        description: `${role.name} has been successfully deleted.`,
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+    } catch (error: any) {
+      console.error("Role Delete error:", error);
+      toast({ title: "Deletion Failed", description: error.message || "Could not delete role.", variant: "destructive" });
+    } finally {
+      setIsDeleting(prev => ({ ...prev, [role.id]: false }));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={openAddDialog}>
+          <PlusCircle className="mr-2 h-4 w-4" /> Add Role
+        </Button>
+      </div>
+      <div className="overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Role</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Users</TableHead>
+              <TableHead>Permissions</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {roles.map((role) => {
+              const isAdminRole = role.isSystem && role.name === 'Admin';
+              return (
+                <TableRow key={role.id}>
+                  <TableCell className="font-medium">
+                    {role.name}
+                    {role.isSystem && <Badge variant="secondary" className="ml-2">Built-in</Badge>}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{role.description || '-'}</TableCell>
+                  <TableCell>{role.userCount}</TableCell>
+                  <TableCell>{isAdminRole ? 'All' : `${role.permissions.length} of ${ALL_PERMISSION_KEYS.length}`}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => openEditDialog(role)} className="mr-1 h-8 w-8">
+                      {isAdminRole ? <Eye className="h-4 w-4" /> : <Edit className="h-4 w-4" />}
+                      <span className="sr-only">{isAdminRole ? 'View' : 'Edit'}</span>
+                    </Button>
+                    {!role.isSystem && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8" disabled={isDeleting[role.id]}>
+                            {isDeleting[role.id] ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                            <span className="sr-only">Delete</span>
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This will permanently delete the <strong>{role.name}</strong> role. {role.userCount} user(s) will lose the permissions it grants.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel disabled={isDeleting[role.id]}>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(role)} disabled={isDeleting[role.id]} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                              {isDeleting[role.id] ? "Deleting..." : "Delete"}
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogClose}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRole ? (isReadOnly ? 'Admin Role' : 'Edit Role') : 'Add New Role'}</DialogTitle>
+            <DialogDescription>
+              {isReadOnly
+                ? 'Admins always hold every permission. This role cannot be changed.'
+                : editingRole?.isSystem
+                  ? `Choose what every user with the ${editingRole.name} base role can do.`
+                  : 'Custom roles add permissions on top of a user\'s base role.'}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2">
+              {form.formState.errors.root?.serverError && (
+                <FormMessage className="text-destructive text-center">
+                  {form.formState.errors.root.serverError.message}
+                </FormMessage>
+              )}
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., HR Coordinator" {...field} disabled={!!editingRole?.isSystem} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Handles onboarding and leave setup" {...field} value={field.value ?? ""} disabled={isReadOnly} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="permissions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Permissions</FormLabel>
+                    <FormDescription>Users get the combined permissions of their base role and all custom roles assigned to them.</FormDescription>
+                    <div className="space-y-4 pt-1">
+                      {Object.entries(PERMISSION_GROUPS).map(([group, permissions]) => (
+                        <div key={group} className="space-y-2">
+                          <p className="text-sm font-medium text-muted-foreground">{group}</p>
+                          {permissions.map(permission => (
+                            <label key={permission.key} className="flex items-start gap-2 text-sm">
+                              <FormControl>
+                                <Checkbox
+                                  className="mt-0.5"
+                                  disabled={isReadOnly}
+                                  checked={isReadOnly || field.value?.includes(permission.key)}
+                                  onCheckedChange={checked => field.onChange(
+                                    checked ? [...(field.value || []), permission.key] : (field.value || []).filter(p => p !== permission.key)
+                                  )}
+                                />
+                              </FormControl>
+                              <span>
+                                <span className="font-medium">{permission.name}</span>
+                                <span className="block text-muted-foreground">{permission.description}</span>
+                              </span>
+                            </label>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button type="button" variant="outline" disabled={isSubmitting}>{isReadOnly ? 'Close' : 'Cancel'}</Button>
+                </DialogClose>
+                {!isReadOnly && (
+                  <Button type="submit" disabled={isSubmitting || !form.formState.isDirty}>
+                    {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                    {isSubmitting ? 'Saving...' : (editingRole ? 'Save Changes' : 'Add Role')}
+                  </Button>
+                )}
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
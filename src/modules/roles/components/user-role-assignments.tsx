@@ -0,0 +1,122 @@
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Loader2, Save, UsersRound } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { getRolesAction, getUserCustomRolesAction, updateUserCustomRolesAction } from '@/modules/roles/actions';
+import type { Role } from '@/modules/roles/types';
+import type { UserRole } from '@/modules/auth/types';
+
+interface UserRoleAssignmentsCardProps {
+  userId: string;
+  baseRole?: UserRole | null;
+}
+
+export function UserRoleAssignmentsCard({ userId, baseRole }: UserRoleAssignmentsCardProps) {
+  const { toast } = useToast();
+  const params = useParams();
+  const tenantDomain = params.domain as string;
+  const [customRoles, setCustomRoles] = React.useState<Role[]>([]);
+  const [assignedRoleIds, setAssignedRoleIds] = React.useState<string[]>([]);
+  const [savedRoleIds, setSavedRoleIds] = React.useState<string[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [loadError, setLoadError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const loadRoles = async () => {
+      setIsLoading(true);
+      setLoadError(null);
+      const [rolesResult, assignedResult] = await Promise.all([getRolesAction(), getUserCustomRolesAction(userId)]);
+      if (!rolesResult.success || !assignedResult.success) {
+        const message = rolesResult.error || assignedResult.error || "Could not load roles.";
+        console.error("Failed to load role assignments:", message);
+        setLoadError(message);
+      } else {
+        setCustomRoles((rolesResult.roles || []).filter(role => !role.isSystem));
+        setAssignedRoleIds(assignedResult.roleIds || []);
+        setSavedRoleIds(assignedResult.roleIds || []);
+      }
+      setIsLoading(false);
+    };
+    loadRoles();
+  }, [userId]);
+
+  const isDirty = assignedRoleIds.length !== savedRoleIds.length || assignedRoleIds.some(id => !savedRoleIds.includes(id));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await updateUserCustomRolesAction(userId, assignedRoleIds);
+      if (!result.success) {
+        throw new Error(result.error || "Could not update roles.");
+      }
+      setAssignedRoleIds(result.roleIds || []);
+      setSavedRoleIds(result.roleIds || []);
+      toast({
+        title: "Roles Updated",
+        description: "The new permissions apply immediately.",
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+    } catch (error: any) {
+      console.error("Role assignment error:", error);
+      toast({ title: "Update Failed", description: error.message || "Could not update roles.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2"><UsersRound className="h-5 w-5 text-primary" />Roles</CardTitle>
+        <CardDescription>
+          Base role: {baseRole ? <Badge variant="secondary">{baseRole}</Badge> : 'N/A'}. Custom roles add permissions on top of it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : loadError ? (
+          <p className="text-sm text-muted-foreground">{loadError}</p>
+        ) : customRoles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No custom roles exist yet. Create them under <Link href={`/${tenantDomain}/settings`} className="text-primary hover:underline">Settings</Link>.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-6">
+              {customRoles.map(role => (
+                <label key={role.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={assignedRoleIds.includes(role.id)}
+                    onCheckedChange={checked => setAssignedRoleIds(prev =>
+                      checked ? [...prev, role.id] : prev.filter(id => id !== role.id)
+                    )}
+                  />
+                  {role.name}
+                </label>
+              ))}
+            </div>
+            <Button onClick={handleSave} disabled={isSaving || !isDirty}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save Roles
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
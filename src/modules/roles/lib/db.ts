@@ -0,0 +1,411 @@
+
+import pool from '@/lib/db';
+import type { UserRole } from '@/modules/auth/types';
+import type { PermissionKey, Role, RoleFormData } from '@/modules/roles/types';
+import { ALL_PERMISSION_KEYS, PERMISSION_REGISTRY, SYSTEM_ROLE_DEFAULT_PERMISSIONS } from '@/modules/roles/types';
+import { recordAuditEvent } from '@/modules/audit/lib/db';
+import { diffForAudit } from '@/modules/audit/lib/diff';
+
+// Both are idempotent; the flags only save a round trip on every permission check.
+let permissionRegistrySynced = false;
+const tenantsWithSystemRoles = new Set<string>();
+
+function isRegisteredPermission(key: string): key is PermissionKey {
+    return (ALL_PERMISSION_KEYS as string[]).includes(key);
+}
+
+function mapRowToRole(row: any): Role {
+    const permissionKeys: string[] = row.permission_keys || [];
+    return {
+        id: row.id,
+        tenantId: row.tenant_id,
+        name: row.role_name,
+        description: row.description ?? null,
+        isSystem: row.is_system,
+        // Admin implicitly holds every permission, including ones added after the tenant was created.
+        permissions: row.is_system && row.role_name === 'Admin' ? [...ALL_PERMISSION_KEYS] : permissionKeys.filter(isRegisteredPermission),
+        userCount: Number(row.user_count ?? 0),
+        created_at: new Date(row.created_at).toISOString(),
+        updated_at: row.updated_at ? new Date(row.updated_at).toISOString() : undefined,
+    };
+}
+
+async function syncPermissionRegistry(conn: any): Promise<void> {
+    if (permissionRegistrySynced) return;
+    for (const permission of PERMISSION_REGISTRY) {
+        await conn.query(
+            `INSERT INTO permissions (permission_name, permission_key, description)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (permission_key) DO UPDATE SET permission_name = EXCLUDED.permission_name, description = EXCLUDED.description`,
+            [`${permission.group}: ${permission.name}`, permission.key, permission.description]
+        );
+    }
+    permissionRegistrySynced = true;
+    console.log(`[DB syncPermissionRegistry] Permission registry synced (${PERMISSION_REGISTRY.length} permissions).`);
+}
+
+async function replaceRolePermissions(conn: any, role_id: string, permissionKeys: PermissionKey[], assigned_by: string | null): Promise<void> {
+    await conn.query('DELETE FROM role_permissions WHERE role_id = $1', [role_id]);
+    if (permissionKeys.length === 0) return;
+    await conn.query(
+        `INSERT INTO role_permissions (role_id, permission_id, assigned_by)
+         SELECT $1, id, $3 FROM permissions WHERE permission_key = ANY($2::text[])`,
+        [role_id, permissionKeys, assigned_by]
+    );
+}
+
+/** Creates the tenant's built-in Admin/Manager/Employee roles (matching users.role) with their default permissions. */
+async function ensureSystemRoles(tenant_id: string, conn: any): Promise<void> {
+    if (tenantsWithSystemRoles.has(tenant_id)) return;
+    await syncPermissionRegistry(conn);
+    for (const [roleName, defaultPermissions] of Object.entries(SYSTEM_ROLE_DEFAULT_PERMISSIONS) as [UserRole, PermissionKey[]][]) {
+        const res = await conn.query(
+            `INSERT INTO roles (tenant_id, role_name, description, is_system)
+             VALUES ($1, $2, $3, TRUE)
+             ON CONFLICT (tenant_id, role_name) DO NOTHING
+             RETURNING id`,
+            [tenant_id, roleName, `Built-in ${roleName} role.`]
+        );
+        if (res.rows.length > 0 && roleName !== 'Admin') {
+            await replaceRolePermissions(conn, res.rows[0].id, defaultPermissions, null);
+            console.log(`[DB ensureSystemRoles] Created system role ${roleName} for tenant ${tenant_id}.`);
+        }
+    }
+    tenantsWithSystemRoles.add(tenant_id);
+}
+
+const roleSelectSQL = `
+    SELECT r.*,
+           COALESCE(array_agg(p.permission_key) FILTER (WHERE p.permission_key IS NOT NULL), '{}') AS permission_keys,
+           CASE WHEN r.is_system
+                THEN (SELECT COUNT(*) FROM users u WHERE u.tenant_id = r.tenant_id AND u.role::text = r.role_name)
+                ELSE (SELECT COUNT(*) FROM user_roles ur WHERE ur.role_id = r.id)
+           END AS user_count
+    FROM roles r
+    LEFT JOIN role_permissions rp ON rp.role_id = r.id
+    LEFT JOIN permissions p ON p.id = rp.permission_id
+`;
+
+export async function getRolesForTenant(tenant_id: string): Promise<Role[]> {
+    const client = await pool.connect();
+    console.log(`[DB getRolesForTenant] Fetching roles for tenant ${tenant_id}`);
+    try {
+        await ensureSystemRoles(tenant_id, client);
+        const res = await client.query(
+            `${roleSelectSQL} WHERE r.tenant_id = $1 GROUP BY r.id ORDER BY r.is_system DESC, r.role_name ASC`,
+            [tenant_id]
+        );
+        return res.rows.map(mapRowToRole);
+    } catch (err: any) {
+        console.error(`[DB getRolesForTenant] Error fetching roles for tenant ${tenant_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "roles" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getRoleById(id: string, tenant_id: string, client?: any): Promise<Role | undefined> {
+    const conn = client || await pool.connect();
+    try {
+        const res = await conn.query(`${roleSelectSQL} WHERE r.id = $1 AND r.tenant_id = $2 GROUP BY r.id`, [id, tenant_id]);
+        return res.rows.length > 0 ? mapRowToRole(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error(`[DB getRoleById] Error fetching role ${id} for tenant ${tenant_id}:`, err);
+        if (err.code === '22P02') return undefined; // invalid uuid
+        throw err;
+    } finally {
+        if (!client) conn.release();
+    }
+}
+
+export async function addRole(tenant_id: string, roleData: RoleFormData, assigned_by: string | null): Promise<Role> {
+    const client = await pool.connect();
+    console.log(`[DB addRole] Adding role "${roleData.name}" for tenant ${tenant_id}`);
+    try {
+        await ensureSystemRoles(tenant_id, client);
+        await client.query('BEGIN');
+        const res = await client.query(
+            'INSERT INTO roles (tenant_id, role_name, description, is_system) VALUES ($1, $2, $3, FALSE) RETURNING id',
+            [tenant_id, roleData.name, roleData.description || null]
+        );
+        const roleId = res.rows[0].id;
+        await replaceRolePermissions(client, roleId, roleData.permissions, assigned_by);
+        const role = await getRoleById(roleId, tenant_id, client);
+        await recordAuditEvent(client, {
+            tenantId: tenant_id, entityType: 'role', entityId: roleId, entityLabel: roleData.name,
+            action: 'create', changes: diffForAudit(null, role, ['userCount']),
+        });
+        await client.query('COMMIT');
+        return role!;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB addRole] Error adding role for tenant ${tenant_id}:`, err);
+        if (err.code === '23505') {
+            throw new Error('A role with this name already exists.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function updateRole(id: string, tenant_id: string, roleData: RoleFormData, assigned_by: string | null): Promise<Role | undefined> {
+    const client = await pool.connect();
+    console.log(`[DB updateRole] Updating role ${id} for tenant ${tenant_id}`);
+    try {
+        await client.query('BEGIN');
+        const existing = await getRoleById(id, tenant_id, client);
+        if (!existing) {
+            await client.query('ROLLBACK');
+            return undefined;
+        }
+        if (existing.isSystem && existing.name === 'Admin') {
+            throw new Error('The Admin role always has every permission and cannot be edited.');
+        }
+        // Built-in roles mirror users.role, so only their description and permissions can change.
+        const roleName = existing.isSystem ? existing.name : roleData.name;
+        await client.query(
+            'UPDATE roles SET role_name = $3, description = $4 WHERE id = $1 AND tenant_id = $2',
+            [id, tenant_id, roleName, roleData.description || null]
+        );
+        await replaceRolePermissions(client, id, roleData.permissions, assigned_by);
+        const role = await getRoleById(id, tenant_id, client);
+        await recordAuditEvent(client, {
+            tenantId: tenant_id, entityType: 'role', entityId: id, entityLabel: roleName,
+            action: 'update', changes: diffForAudit(existing, role, ['userCount']),
+        });
+        await client.query('COMMIT');
+        return role;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB updateRole] Error updating role ${id}:`, err);
+        if (err.code === '23505') {
+            throw new Error('A role with this name already exists.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function deleteRole(id: string, tenant_id: string): Promise<boolean> {
+    const client = await pool.connect();
+    console.log(`[DB deleteRole] Deleting role ${id} for tenant ${tenant_id}`);
+    try {
+        await client.query('BEGIN');
+        const existing = await getRoleById(id, tenant_id, client);
+        const res = await client.query('DELETE FROM roles WHERE id = $1 AND tenant_id = $2 AND is_system = FALSE', [id, tenant_id]);
+        const deleted = res.rowCount !== null && res.rowCount > 0;
+        if (deleted && existing) {
+            await recordAuditEvent(client, {
+                tenantId: tenant_id, entityType: 'role', entityId: id, entityLabel: existing.name,
+                action: 'delete', changes: diffForAudit(existing, null, ['userCount']),
+            });
+        }
+        await client.query('COMMIT');
+        return deleted;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB deleteRole] Error deleting role ${id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getCustomRoleIdsForUser(user_id: string, tenant_id: string): Promise<string[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT ur.role_id FROM user_roles ur
+             JOIN roles r ON r.id = ur.role_id
+             WHERE ur.user_id = $1 AND r.tenant_id = $2 AND r.is_system = FALSE`,
+            [user_id, tenant_id]
+        );
+        return res.rows.map((row: any) => row.role_id);
+    } catch (err: any) {
+        console.error(`[DB getCustomRoleIdsForUser] Error fetching roles for user ${user_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+async function getCustomRoleNamesForUser(conn: any, user_id: string, tenant_id: string): Promise<string[]> {
+    const res = await conn.query(
+        `SELECT r.role_name FROM user_roles ur
+         JOIN roles r ON r.id = ur.role_id
+         WHERE ur.user_id = $1 AND r.tenant_id = $2 AND r.is_system = FALSE
+         ORDER BY r.role_name`,
+        [user_id, tenant_id]
+    );
+    return res.rows.map((row: any) => row.role_name);
+}
+
+/** Replaces the user's custom role assignments. Role IDs that are not custom roles of this tenant are ignored. */
+export async function setCustomRolesForUser(user_id: string, tenant_id: string, role_ids: string[], assigned_by: string | null): Promise<string[]> {
+    const client = await pool.connect();
+    console.log(`[DB setCustomRolesForUser] Assigning ${role_ids.length} custom role(s) to user ${user_id} in tenant ${tenant_id}`);
+    try {
+        await client.query('BEGIN');
+        const rolesBefore = await getCustomRoleNamesForUser(client, user_id, tenant_id);
+        await client.query(
+            `DELETE FROM user_roles ur USING roles r
+             WHERE ur.role_id = r.id AND ur.user_id = $1 AND r.tenant_id = $2 AND r.is_system = FALSE`,
+            [user_id, tenant_id]
+        );
+        const res = await client.query(
+            `INSERT INTO user_roles (user_id, role_id, assigned_by)
+             SELECT u.user_id, r.id, $4 FROM users u
+             JOIN roles r ON r.tenant_id = u.tenant_id AND r.is_system = FALSE AND r.id = ANY($3::uuid[])
+             WHERE u.user_id = $1 AND u.tenant_id = $2
+             RETURNING role_id`,
+            [user_id, tenant_id, role_ids, assigned_by]
+        );
+        const userRes = await client.query('SELECT name FROM users WHERE user_id = $1 AND tenant_id = $2', [user_id, tenant_id]);
+        await recordAuditEvent(client, {
+            tenantId: tenant_id, entityType: 'user_roles', entityId: user_id, entityLabel: userRes.rows[0]?.name ?? null,
+            action: 'update', changes: diffForAudit({ customRoles: rolesBefore }, { customRoles: await getCustomRoleNamesForUser(client, user_id, tenant_id) }),
+        });
+        await client.query('COMMIT');
+        return res.rows.map((row: any) => row.role_id);
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB setCustomRolesForUser] Error assigning roles to user ${user_id}:`, err);
+        if (err.code === '22P02') {
+            throw new Error('Invalid role identifier.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Users holding the role: by base role (users.role) for system roles, via user_roles for custom roles.
+ */
+export async function getRoleMembers(role: Role, tenant_id: string, client?: any): Promise<{ userId: string; name: string | null }[]> {
+    const conn = client || await pool.connect();
+    try {
+        const res = role.isSystem
+            ? await conn.query('SELECT user_id, name FROM users WHERE tenant_id = $1 AND role::text = $2 ORDER BY name', [tenant_id, role.name])
+            : await conn.query(
+                `SELECT u.user_id, u.name FROM user_roles ur
+                 JOIN users u ON u.user_id = ur.user_id
+                 WHERE ur.role_id = $1 AND u.tenant_id = $2 ORDER BY u.name`,
+                [role.id, tenant_id]
+            );
+        return res.rows.map((row: any) => ({ userId: row.user_id, name: row.name }));
+    } catch (err: any) {
+        console.error(`[DB getRoleMembers] Error fetching members of role ${role.id}:`, err);
+        throw err;
+    } finally {
+        if (!client) conn.release();
+    }
+}
+
+/**
+ * Adds and removes role members in one transaction. For system roles this changes the users'
+ * base role; users removed from Admin or Manager fall back to Employee, and the last Admin cannot be removed.
+ * User IDs outside the tenant are ignored.
+ */
+export async function updateRoleMembers(role: Role, tenant_id: string, changes: { add: string[]; remove: string[] }, assigned_by: string | null): Promise<void> {
+    const client = await pool.connect();
+    console.log(`[DB updateRoleMembers] Role ${role.id} (${role.name}): +${changes.add.length} / -${changes.remove.length} member(s) in tenant ${tenant_id}`);
+    try {
+        await client.query('BEGIN');
+        const membersBefore = await getRoleMembers(role, tenant_id, client);
+        if (role.isSystem) {
+            if (changes.remove.length > 0 && role.name === 'Employee') {
+                throw new Error('Users cannot be removed from the Employee role; add them to another built-in role instead.');
+            }
+            if (changes.remove.length > 0) {
+                await client.query(
+                    `UPDATE users SET role = 'Employee', updated_at = NOW()
+                     WHERE tenant_id = $1 AND role::text = $2 AND user_id = ANY($3::uuid[])`,
+                    [tenant_id, role.name, changes.remove]
+                );
+            }
+            if (changes.add.length > 0) {
+                await client.query(
+                    'UPDATE users SET role = $2, updated_at = NOW() WHERE tenant_id = $1 AND user_id = ANY($3::uuid[])',
+                    [tenant_id, role.name, changes.add]
+                );
+            }
+            if (role.name === 'Admin') {
+                const adminRes = await client.query("SELECT COUNT(*) AS count FROM users WHERE tenant_id = $1 AND role = 'Admin' AND is_active = TRUE", [tenant_id]);
+                if (Number(adminRes.rows[0].count) === 0) {
+                    throw new Error('The tenant must keep at least one active Admin.');
+                }
+            }
+        } else {
+            if (changes.remove.length > 0) {
+                await client.query('DELETE FROM user_roles WHERE role_id = $1 AND user_id = ANY($2::uuid[])', [role.id, changes.remove]);
+            }
+            if (changes.add.length > 0) {
+                await client.query(
+                    `INSERT INTO user_roles (user_id, role_id, assigned_by)
+                     SELECT u.user_id, $1, $4 FROM users u WHERE u.tenant_id = $2 AND u.user_id = ANY($3::uuid[])
+                     ON CONFLICT DO NOTHING`,
+                    [role.id, tenant_id, changes.add, assigned_by]
+                );
+            }
+        }
+        const membersAfter = await getRoleMembers(role, tenant_id, client);
+        await recordAuditEvent(client, {
+            tenantId: tenant_id, entityType: 'role', entityId: role.id, entityLabel: role.name,
+            action: 'update', changes: diffForAudit(
+                { members: membersBefore.map(m => m.name ?? m.userId) },
+                { members: membersAfter.map(m => m.name ?? m.userId) },
+            ),
+        });
+        await client.query('COMMIT');
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB updateRoleMembers] Error updating members of role ${role.id}:`, err);
+        if (err.code === '22P02') {
+            throw new Error('Invalid user identifier.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Union of the user's base role (users.role) permissions and those of every custom role assigned to them.
+ * The base role is read from the database, so role changes apply without waiting for the user to sign in again.
+ */
+export async function getEffectivePermissions(user_id: string, tenant_id: string): Promise<PermissionKey[]> {
+    const client = await pool.connect();
+    try {
+        const userRes = await client.query('SELECT role FROM users WHERE user_id = $1 AND tenant_id = $2 AND is_active = TRUE', [user_id, tenant_id]);
+        if (userRes.rows.length === 0) return [];
+        const baseRole: UserRole = userRes.rows[0].role;
+        if (baseRole === 'Admin') return [...ALL_PERMISSION_KEYS];
+
+        await ensureSystemRoles(tenant_id, client);
+        const res = await client.query(
+            `SELECT DISTINCT p.permission_key
+             FROM roles r
+             JOIN role_permissions rp ON rp.role_id = r.id
+             JOIN permissions p ON p.id = rp.permission_id
+             WHERE r.tenant_id = $2
+               AND ((r.is_system AND r.role_name = $3)
+                    OR r.id IN (SELECT role_id FROM user_roles WHERE user_id = $1))`,
+            [user_id, tenant_id, baseRole]
+        );
+        return res.rows.map((row: any) => row.permission_key).filter(isRegisteredPermission);
+    } catch (err: any) {
+        console.error(`[DB getEffectivePermissions] Error resolving permissions for user ${user_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "roles" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
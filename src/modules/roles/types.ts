@@ -0,0 +1,66 @@
+
+import { z } from 'zod';
+import type { UserRole } from '@/modules/auth/types';
+
+// --- Permission Registry ---
+// Every permission the application checks. The `permissions` table is kept in sync with this list,
+// so adding a key here is all that is needed to make it assignable to roles.
+export const PERMISSION_REGISTRY = [
+  { key: 'employees.view_all', name: 'View all employees', group: 'Employees', description: 'View every employee profile in the company, not just your own.' },
+  { key: 'employees.create', name: 'Add employees', group: 'Employees', description: 'Create employee records and their user accounts.' },
+  { key: 'employees.edit', name: 'Edit employees', group: 'Employees', description: 'Edit job and contact details on any employee profile.' },
+  { key: 'employees.assign_roles', name: 'Assign roles', group: 'Employees', description: 'Change the base role and custom roles of user accounts.' },
+  { key: 'employees.delete', name: 'Delete employees', group: 'Employees', description: 'Permanently delete employee records and their user accounts.' },
+  { key: 'leave.view_all', name: 'View all leave', group: 'Leave', description: 'View leave requests and balances of all employees.' },
+  { key: 'leave.approve', name: 'Approve any leave', group: 'Leave', description: 'Approve or reject any leave request. Reporting managers can always act on their direct reports.' },
+  { key: 'leave.manage', name: 'Manage leave setup', group: 'Leave', description: 'Manage leave types, holidays and run leave accruals.' },
+  { key: 'recruitment.manage', name: 'Manage recruitment', group: 'Recruitment', description: 'Manage job openings, candidates and application status.' },
+  { key: 'ai.resume_parser', name: 'Use resume parser', group: 'Recruitment', description: 'Use the Smart Resume Parser.' },
+  { key: 'communication.manage', name: 'Manage communication', group: 'Communication', description: 'Manage email templates and SMTP settings, and send emails.' },
+  { key: 'payroll.view', name: 'View payroll', group: 'Payroll', description: 'Access the payroll pages.' },
+  { key: 'documents.manage', name: 'Manage documents', group: 'Documents', description: 'Access and manage company documents.' },
+  { key: 'reports.view', name: 'View reports', group: 'Reports', description: 'Access reports and analytics.' },
+  { key: 'settings.manage', name: 'Manage settings', group: 'Administration', description: 'Access the settings page and change company settings.' },
+  { key: 'security.manage', name: 'Manage security', group: 'Administration', description: 'Manage lockout and MFA policies, unlock accounts, reset MFA and revoke sessions of other users.' },
+  { key: 'roles.manage', name: 'Manage roles', group: 'Administration', description: 'Create, edit and delete roles and their permissions.' },
+  { key: 'users.impersonate', name: 'Impersonate users', group: 'Administration', description: 'View the app as another user to troubleshoot. Sessions are time-limited, cannot change security settings and are recorded in the audit log.' },
+  { key: 'audit.view', name: 'View audit log', group: 'Administration', description: 'Search and export the audit log of data changes made in the company.' },
+  { key: 'billing.manage', name: 'Manage billing', group: 'Administration', description: "View and pay the company's subscription invoices and change its plan." },
+] as const;
+
+export type PermissionKey = typeof PERMISSION_REGISTRY[number]['key'];
+export type PermissionDefinition = typeof PERMISSION_REGISTRY[number];
+
+export const ALL_PERMISSION_KEYS = PERMISSION_REGISTRY.map(p => p.key) as [PermissionKey, ...PermissionKey[]];
+export const permissionKeySchema = z.enum(ALL_PERMISSION_KEYS);
+
+/**
+ * Permissions each tenant's built-in roles start with. Admin always holds every permission and cannot be edited,
+ * so a tenant can never lock itself out of role management. Manager and Employee can be edited per tenant.
+ */
+export const SYSTEM_ROLE_DEFAULT_PERMISSIONS: Record<UserRole, PermissionKey[]> = {
+  Admin: ALL_PERMISSION_KEYS,
+  Manager: ['employees.view_all', 'employees.create', 'employees.edit', 'employees.delete', 'ai.resume_parser', 'communication.manage', 'reports.view'],
+  Employee: [],
+};
+
+// --- Roles ---
+export interface Role {
+  id: string;
+  tenantId: string;
+  name: string;
+  description: string | null;
+  isSystem: boolean; // Built-in Admin/Manager/Employee role backing users.role
+  permissions: PermissionKey[];
+  userCount: number; // Users holding the role (base role for system roles, assignments for custom roles)
+  created_at: string;
+  updated_at?: string;
+}
+
+export const roleFormSchema = z.object({
+  name: z.string().trim().min(2, "Role name must be at least 2 characters").max(50, "Role name cannot exceed 50 characters"),
+  description: z.string().trim().max(255, "Description cannot exceed 255 characters").optional().nullable(),
+  permissions: z.array(permissionKeySchema).default([]),
+});
+
+export type RoleFormData = z.infer<typeof roleFormSchema>;
@@ -0,0 +1,114 @@
+import pool from '@/lib/db';
+import type { ScimUserRecord } from '@/modules/scim/types';
+import { recordAuditEvent } from '@/modules/audit/lib/db';
+import { diffForAudit } from '@/modules/audit/lib/diff';
+
+const SCIM_USER_SELECT = `
+    SELECT u.user_id, u.username, u.email, u.name, u.is_active, u.external_id, u.created_at, u.updated_at,
+           e.id AS employee_pk, e.employee_id AS employee_number, e.first_name, e.last_name, e.phone,
+           e.position, e.department, e.status AS employee_status
+    FROM users u
+    LEFT JOIN employees e ON e.user_id = u.user_id AND e.tenant_id = u.tenant_id
+    WHERE u.tenant_id = $1
+`;
+
+function mapRowToScimUserRecord(row: any): ScimUserRecord {
+    return {
+        userId: row.user_id,
+        userName: row.username,
+        email: row.email,
+        displayName: row.name ?? null,
+        isActive: row.is_active,
+        externalId: row.external_id ?? null,
+        createdAt: new Date(row.created_at).toISOString(),
+        updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+        employee: row.employee_pk ? {
+            id: row.employee_pk,
+            employeeNumber: row.employee_number ?? null,
+            firstName: row.first_name,
+            lastName: row.last_name,
+            phone: row.phone ?? null,
+            position: row.position ?? null,
+            department: row.department ?? null,
+            status: row.employee_status,
+        } : null,
+    };
+}
+
+export async function getScimUserRecords(tenant_id: string): Promise<ScimUserRecord[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(`${SCIM_USER_SELECT} ORDER BY u.created_at, u.user_id`, [tenant_id]);
+        return res.rows.map(mapRowToScimUserRecord);
+    } catch (err: any) {
+        console.error(`[DB getScimUserRecords] Error fetching users for tenant ${tenant_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "users" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getScimUserRecord(user_id: string, tenant_id: string): Promise<ScimUserRecord | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(`${SCIM_USER_SELECT} AND u.user_id = $2`, [tenant_id, user_id]);
+        return res.rows.length > 0 ? mapRowToScimUserRecord(res.rows[0]) : undefined;
+    } catch (err: any) {
+        // Malformed UUIDs in the URL are simply "not found" for SCIM clients.
+        if (err.code === '22P02') return undefined;
+        console.error(`[DB getScimUserRecord] Error fetching user ${user_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Updates the account fields SCIM manages on the users row. Only provided fields are changed.
+ */
+export async function updateScimUserAccount(
+    user_id: string,
+    tenant_id: string,
+    updates: { username?: string; email?: string; name?: string; is_active?: boolean; external_id?: string | null; employee_id?: string }
+): Promise<boolean> {
+    const columns = Object.entries(updates).filter(([, value]) => value !== undefined);
+    if (columns.length === 0) return true;
+
+    const setClauses = columns.map(([column], index) => `${column} = $${index + 3}`);
+    const values = columns.map(([column, value]) => column === 'username' || column === 'email' ? String(value).toLowerCase() : value);
+    const auditedColumns = 'username, email, name, is_active, external_id, employee_id';
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const beforeRes = await client.query(`SELECT ${auditedColumns} FROM users WHERE user_id = $1 AND tenant_id = $2`, [user_id, tenant_id]);
+        const res = await client.query(
+            `UPDATE users SET ${setClauses.join(', ')}, updated_at = NOW() WHERE user_id = $1 AND tenant_id = $2 RETURNING ${auditedColumns}`,
+            [user_id, tenant_id, ...values]
+        );
+        if (res.rows.length > 0) {
+            await recordAuditEvent(client, {
+                tenantId: tenant_id, entityType: 'user_account', entityId: user_id, entityLabel: res.rows[0].name,
+                action: 'update', changes: diffForAudit(beforeRes.rows[0], res.rows[0]),
+            });
+        }
+        await client.query('COMMIT');
+        return res.rows.length > 0;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB updateScimUserAccount] Error updating user ${user_id}:`, err);
+        if (err.code === '23505') {
+            if (err.constraint === 'unique_tenant_username') {
+                throw new Error('Username already exists for this tenant.');
+            }
+            if (err.constraint === 'unique_tenant_email') {
+                throw new Error('Email address already exists for this tenant.');
+            }
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
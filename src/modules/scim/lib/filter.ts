@@ -0,0 +1,186 @@
+// src/modules/scim/lib/filter.ts
+// SCIM filter expressions (RFC 7644 section 3.4.2.2): eq, ne, co, sw, ew, gt, ge, lt, le, pr,
+// combined with and / or / not, parentheses and value paths (emails[type eq "work"]).
+// Evaluated against SCIM resources in memory.
+import { ScimError, SCIM_SCHEMA_USER, SCIM_SCHEMA_GROUP, SCIM_SCHEMA_ENTERPRISE_USER, type ScimResource } from '@/modules/scim/types';
+
+type ComparisonOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+type FilterValue = string | number | boolean | null;
+
+export type ScimFilter =
+    | { type: 'compare'; path: string; op: ComparisonOperator; value: FilterValue }
+    | { type: 'present'; path: string }
+    | { type: 'valuePath'; path: string; filter: ScimFilter }
+    | { type: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+    | { type: 'not'; filter: ScimFilter };
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le'];
+const CORE_SCHEMAS = [SCIM_SCHEMA_USER, SCIM_SCHEMA_GROUP];
+const EXTENSION_SCHEMAS = [SCIM_SCHEMA_ENTERPRISE_USER];
+
+function tokenize(expression: string): string[] {
+    const tokens: string[] = [];
+    const pattern = /\s*("(?:[^"\\]|\\.)*"|[()[\]]|[^\s()[\]]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(expression)) !== null) {
+        tokens.push(match[1]);
+    }
+    return tokens;
+}
+
+function parseValue(token: string | undefined): FilterValue {
+    if (token === undefined) throw new ScimError(400, 'Filter is missing a comparison value.', 'invalidFilter');
+    if (token.startsWith('"')) {
+        try {
+            return JSON.parse(token);
+        } catch {
+            throw new ScimError(400, `Invalid string in filter: ${token}`, 'invalidFilter');
+        }
+    }
+    const lower = token.toLowerCase();
+    if (lower === 'true') return true;
+    if (lower === 'false') return false;
+    if (lower === 'null') return null;
+    if (!Number.isNaN(Number(token))) return Number(token);
+    throw new ScimError(400, `Invalid value in filter: ${token}`, 'invalidFilter');
+}
+
+/**
+ * Parses a SCIM filter string.
+ * @throws ScimError (400 invalidFilter) on syntax errors.
+ */
+export function parseScimFilter(expression: string): ScimFilter {
+    const tokens = tokenize(expression);
+    let position = 0;
+    const peek = () => tokens[position]?.toLowerCase();
+
+    const parseFactor = (): ScimFilter => {
+        const token = tokens[position++];
+        if (token === undefined) throw new ScimError(400, 'Unexpected end of filter.', 'invalidFilter');
+        if (token.toLowerCase() === 'not') {
+            return { type: 'not', filter: parseFactor() };
+        }
+        if (token === '(') {
+            const inner = parseOr();
+            if (tokens[position++] !== ')') throw new ScimError(400, 'Missing closing parenthesis in filter.', 'invalidFilter');
+            return inner;
+        }
+        if (tokens[position] === '[') {
+            position++;
+            const inner = parseOr();
+            if (tokens[position++] !== ']') throw new ScimError(400, 'Missing closing bracket in filter.', 'invalidFilter');
+            return { type: 'valuePath', path: token, filter: inner };
+        }
+        const op = tokens[position++]?.toLowerCase();
+        if (op === 'pr') return { type: 'present', path: token };
+        if (!COMPARISON_OPERATORS.includes(op as ComparisonOperator)) {
+            throw new ScimError(400, `Unsupported filter operator: ${op ?? '(none)'}`, 'invalidFilter');
+        }
+        return { type: 'compare', path: token, op: op as ComparisonOperator, value: parseValue(tokens[position++]) };
+    };
+    const parseAnd = (): ScimFilter => {
+        let left = parseFactor();
+        while (peek() === 'and') {
+            position++;
+            left = { type: 'and', left, right: parseFactor() };
+        }
+        return left;
+    };
+    const parseOr = (): ScimFilter => {
+        let left = parseAnd();
+        while (peek() === 'or') {
+            position++;
+            left = { type: 'or', left, right: parseAnd() };
+        }
+        return left;
+    };
+
+    const filter = parseOr();
+    if (position < tokens.length) {
+        throw new ScimError(400, `Unexpected token in filter: ${tokens[position]}`, 'invalidFilter');
+    }
+    return filter;
+}
+
+/** Finds an object key case-insensitively (SCIM attribute names are case-insensitive). */
+export function findKey(object: Record<string, any>, name: string): string | undefined {
+    const lower = name.toLowerCase();
+    return Object.keys(object).find(key => key.toLowerCase() === lower);
+}
+
+/**
+ * Splits a schema-qualified attribute path into the container key (an extension schema URN, or
+ * undefined for core attributes) and the remaining attribute path.
+ */
+export function splitSchemaPrefix(path: string): { schema?: string; attributePath: string } {
+    const lower = path.toLowerCase();
+    for (const schema of CORE_SCHEMAS) {
+        if (lower.startsWith(`${schema.toLowerCase()}:`)) return { attributePath: path.slice(schema.length + 1) };
+    }
+    for (const schema of EXTENSION_SCHEMAS) {
+        if (lower === schema.toLowerCase()) return { schema, attributePath: '' };
+        if (lower.startsWith(`${schema.toLowerCase()}:`)) return { schema, attributePath: path.slice(schema.length + 1) };
+    }
+    return { attributePath: path };
+}
+
+function collectValues(resource: ScimResource, path: string, unwrapValue = true): unknown[] {
+    const { schema, attributePath } = splitSchemaPrefix(path);
+    let current: unknown[] = [schema ? resource[findKey(resource, schema) ?? schema] : resource];
+    for (const segment of attributePath.split('.').filter(Boolean)) {
+        current = current.flatMap(item => {
+            if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+            const value = (item as Record<string, unknown>)[findKey(item as Record<string, unknown>, segment) ?? segment];
+            return Array.isArray(value) ? value : [value];
+        });
+    }
+    // A multi-valued complex attribute without a sub-attribute compares on its "value" (e.g. emails eq "...").
+    return current
+        .map(item => unwrapValue && item && typeof item === 'object' && !Array.isArray(item) && 'value' in item ? (item as { value: unknown }).value : item)
+        .filter(item => item !== undefined && item !== null);
+}
+
+function compare(actual: unknown, op: ComparisonOperator, expected: FilterValue): boolean {
+    if (typeof actual === 'string' && typeof expected === 'string') {
+        const a = actual.toLowerCase();
+        const b = expected.toLowerCase();
+        switch (op) {
+            case 'eq': return a === b;
+            case 'ne': return a !== b;
+            case 'co': return a.includes(b);
+            case 'sw': return a.startsWith(b);
+            case 'ew': return a.endsWith(b);
+            case 'gt': return a > b;
+            case 'ge': return a >= b;
+            case 'lt': return a < b;
+            case 'le': return a <= b;
+        }
+    }
+    switch (op) {
+        case 'eq': return actual === expected;
+        case 'ne': return actual !== expected;
+        case 'gt': return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+        case 'ge': return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+        case 'lt': return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+        case 'le': return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+        default: return false;
+    }
+}
+
+export function matchesScimFilter(resource: ScimResource, filter: ScimFilter): boolean {
+    switch (filter.type) {
+        case 'and': return matchesScimFilter(resource, filter.left) && matchesScimFilter(resource, filter.right);
+        case 'or': return matchesScimFilter(resource, filter.left) || matchesScimFilter(resource, filter.right);
+        case 'not': return !matchesScimFilter(resource, filter.filter);
+        case 'valuePath':
+            return collectValues(resource, filter.path, false)
+                .some(element => !!element && typeof element === 'object' && matchesScimFilter(element as ScimResource, filter.filter));
+        case 'present': return collectValues(resource, filter.path).some(value => value !== '');
+        case 'compare': {
+            const values = collectValues(resource, filter.path);
+            if (filter.op === 'ne') return values.every(value => compare(value, 'ne', filter.value));
+            if (filter.value === null) return filter.op === 'eq' && values.length === 0;
+            return values.some(value => compare(value, filter.op, filter.value));
+        }
+    }
+}
@@ -0,0 +1,68 @@
+// src/modules/scim/lib/http.ts
+// Shared request handling for the /api/scim/v2 route handlers: bearer authentication, JSON
+// bodies and SCIM-formatted responses and errors.
+import { NextResponse } from 'next/server';
+import { ScimError, SCIM_CONTENT_TYPE, SCIM_SCHEMA_ERROR, type ScimErrorType } from '@/modules/scim/types';
+import { authenticateScimRequest, type ScimContext } from '@/modules/scim/lib/service';
+
+function scimJson(body: unknown, status: number, headers: Record<string, string> = {}): NextResponse {
+    return new NextResponse(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': SCIM_CONTENT_TYPE, ...headers },
+    });
+}
+
+function scimErrorResponse(status: number, detail: string, scimType?: ScimErrorType): NextResponse {
+    const headers: Record<string, string> = status === 401 ? { 'WWW-Authenticate': 'Bearer realm="SCIM"' } : {};
+    return scimJson({ schemas: [SCIM_SCHEMA_ERROR], status: String(status), ...(scimType ? { scimType } : {}), detail }, status, headers);
+}
+
+/** Reads the JSON request body. @throws ScimError (400 invalidSyntax) when it is not a JSON object. */
+export async function readScimBody(request: Request): Promise<Record<string, any>> {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        throw new ScimError(400, 'Request body must be valid JSON.', 'invalidSyntax');
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new ScimError(400, 'Request body must be a JSON object.', 'invalidSyntax');
+    }
+    return body as Record<string, any>;
+}
+
+/**
+ * Authenticates the request and runs the operation. A resource result is returned as SCIM JSON
+ * (201 with a Location header for creates); an undefined result becomes 204 No Content.
+ */
+export async function handleScimRequest(
+    request: Request,
+    operation: (context: ScimContext) => Promise<Record<string, any> | void>,
+    options: { created?: boolean } = {}
+): Promise<NextResponse> {
+    const label = `[SCIM ${request.method} ${new URL(request.url).pathname}]`;
+    try {
+        const context = await authenticateScimRequest(request);
+        const result = await operation(context);
+        if (!result) {
+            return new NextResponse(null, { status: 204 });
+        }
+        if (options.created) {
+            return scimJson(result, 201, result.meta?.location ? { Location: result.meta.location } : {});
+        }
+        return scimJson(result, 200);
+    } catch (err: any) {
+        if (err instanceof ScimError) {
+            if (err.status >= 500) console.error(`${label} Error:`, err);
+            else console.warn(`${label} ${err.status}: ${err.message}`);
+            return scimErrorResponse(err.status, err.message, err.scimType);
+        }
+        // Unique constraint messages from the user, employee and role DB functions.
+        if (err?.code === '23505' || /already exists|already linked/i.test(err?.message || '')) {
+            console.warn(`${label} Conflict: ${err.message}`);
+            return scimErrorResponse(409, err.message, 'uniqueness');
+        }
+        console.error(`${label} Unexpected error:`, err);
+        return scimErrorResponse(500, 'An unexpected error occurred.');
+    }
+}
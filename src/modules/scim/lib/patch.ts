@@ -0,0 +1,156 @@
+// src/modules/scim/lib/patch.ts
+// Applies SCIM PATCH operations (RFC 7644 section 3.5.2) to a resource's JSON representation.
+// The caller maps the patched resource back onto the database, so PATCH, PUT and POST share one path.
+import { ScimError, type ScimPatchOperation, type ScimResource } from '@/modules/scim/types';
+import { parseScimFilter, matchesScimFilter, findKey, splitSchemaPrefix, type ScimFilter } from '@/modules/scim/lib/filter';
+
+interface PatchTarget {
+    schema?: string;
+    attribute: string;
+    filter?: ScimFilter;
+    subAttribute?: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parsePath(path: string): PatchTarget {
+    const { schema, attributePath } = splitSchemaPrefix(path);
+    const match = attributePath.match(/^([^[.]+)(?:\[(.+)\])?(?:\.(.+))?$/);
+    if (!match) {
+        throw new ScimError(400, `Invalid PATCH path: ${path}`, 'invalidPath');
+    }
+    return { schema, attribute: match[1], filter: match[2] ? parseScimFilter(match[2]) : undefined, subAttribute: match[3] };
+}
+
+/** Builds a new element for `emails[type eq "work"].value`-style paths that match nothing yet. */
+function elementFromFilter(filter: ScimFilter): Record<string, any> {
+    if (filter.type === 'compare' && filter.op === 'eq') return { [filter.path]: filter.value };
+    if (filter.type === 'and') return { ...elementFromFilter(filter.left), ...elementFromFilter(filter.right) };
+    return {};
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    const valueOf = (item: unknown) => isPlainObject(item) && 'value' in item ? item.value : item;
+    const left = valueOf(a);
+    const right = valueOf(b);
+    return typeof left === 'string' && typeof right === 'string' ? left.toLowerCase() === right.toLowerCase() : left === right;
+}
+
+function applyToTarget(resource: ScimResource, op: ScimPatchOperation['op'], target: PatchTarget, value: unknown): void {
+    let container: Record<string, any> = resource;
+    if (target.schema) {
+        const schemaKey = findKey(resource, target.schema) ?? target.schema;
+        if (!isPlainObject(resource[schemaKey])) resource[schemaKey] = {};
+        container = resource[schemaKey];
+        if (!target.attribute) {
+            // Path is the extension schema itself: merge/replace its attributes one by one.
+            if (op === 'remove') {
+                delete resource[schemaKey];
+            } else if (isPlainObject(value)) {
+                for (const [key, subValue] of Object.entries(value)) applyToTarget(resource, op, { schema: target.schema, attribute: key }, subValue);
+            }
+            return;
+        }
+    }
+
+    const key = findKey(container, target.attribute) ?? target.attribute;
+    const current = container[key];
+
+    if (target.filter) {
+        const elements: Record<string, any>[] = Array.isArray(current) ? current : [];
+        const matches = elements.filter(element => matchesScimFilter(element, target.filter!));
+        if (op === 'remove') {
+            if (target.subAttribute) {
+                matches.forEach(element => { delete element[findKey(element, target.subAttribute!) ?? target.subAttribute!]; });
+            } else {
+                container[key] = elements.filter(element => !matches.includes(element));
+            }
+            return;
+        }
+        if (matches.length === 0) {
+            const created = elementFromFilter(target.filter);
+            if (target.subAttribute) created[target.subAttribute] = value;
+            else if (isPlainObject(value)) Object.assign(created, value);
+            container[key] = [...elements, created];
+            return;
+        }
+        matches.forEach(element => {
+            if (target.subAttribute) element[findKey(element, target.subAttribute) ?? target.subAttribute] = value;
+            else if (isPlainObject(value)) Object.assign(element, value);
+        });
+        return;
+    }
+
+    if (target.subAttribute) {
+        if (op === 'remove') {
+            if (isPlainObject(current)) delete current[findKey(current, target.subAttribute) ?? target.subAttribute];
+            return;
+        }
+        if (!isPlainObject(current)) container[key] = {};
+        const complex = container[key];
+        complex[findKey(complex, target.subAttribute) ?? target.subAttribute] = value;
+        return;
+    }
+
+    if (op === 'remove') {
+        // Some IdPs send the members/emails to remove as the value instead of a filter.
+        if (Array.isArray(current) && value !== undefined) {
+            const toRemove = Array.isArray(value) ? value : [value];
+            container[key] = current.filter(element => !toRemove.some(item => sameValue(element, item)));
+        } else {
+            delete container[key];
+        }
+        return;
+    }
+    if (op === 'add' && Array.isArray(current)) {
+        const additions = (Array.isArray(value) ? value : [value]).filter(item => !current.some(element => sameValue(element, item)));
+        container[key] = [...current, ...additions];
+        return;
+    }
+    if (op === 'add' && isPlainObject(current) && isPlainObject(value)) {
+        Object.assign(current, value);
+        return;
+    }
+    container[key] = value;
+}
+
+function applyOperation(resource: ScimResource, operation: ScimPatchOperation): void {
+    if (operation.path) {
+        if (operation.op !== 'remove' && operation.value === undefined) {
+            throw new ScimError(400, `PATCH ${operation.op} on ${operation.path} requires a value.`, 'invalidValue');
+        }
+        applyToTarget(resource, operation.op, parsePath(operation.path), operation.value);
+        return;
+    }
+    if (operation.op === 'remove') {
+        throw new ScimError(400, 'PATCH remove requires a path.', 'noTarget');
+    }
+    if (!isPlainObject(operation.value)) {
+        throw new ScimError(400, `PATCH ${operation.op} without a path requires an object value.`, 'invalidValue');
+    }
+    // Without a path, each key of the value is an attribute path ("name.givenName" keys are common too).
+    for (const [path, value] of Object.entries(operation.value)) {
+        if (isPlainObject(value) && !path.includes('.')) {
+            const { schema } = splitSchemaPrefix(path);
+            for (const [subKey, subValue] of Object.entries(value)) {
+                applyToTarget(resource, operation.op, schema ? { schema, attribute: subKey } : { attribute: path, subAttribute: subKey }, subValue);
+            }
+        } else {
+            applyToTarget(resource, operation.op, parsePath(path), value);
+        }
+    }
+}
+
+/**
+ * Returns a copy of the resource with the operations applied in order.
+ * @throws ScimError (400) for malformed paths or values.
+ */
+export function applyScimPatch(resource: ScimResource, operations: ScimPatchOperation[]): ScimResource {
+    const patched: ScimResource = structuredClone(resource);
+    for (const operation of operations) {
+        applyOperation(patched, operation);
+    }
+    return patched;
+}
@@ -0,0 +1,138 @@
+// src/modules/scim/lib/resources.ts
+// Maps users/employees and tenant roles to SCIM User and Group resources, and parses incoming
+// User resources into the fields the HRM stores.
+import type { Role } from '@/modules/roles/types';
+import {
+    ScimError,
+    SCIM_SCHEMA_USER,
+    SCIM_SCHEMA_ENTERPRISE_USER,
+    SCIM_SCHEMA_GROUP,
+    type ScimResource,
+    type ScimUserInput,
+    type ScimUserRecord,
+} from '@/modules/scim/types';
+import { findKey } from '@/modules/scim/lib/filter';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function toScimUser(record: ScimUserRecord, baseUrl: string): ScimResource {
+    const employee = record.employee;
+    const resource: ScimResource = {
+        schemas: [SCIM_SCHEMA_USER, SCIM_SCHEMA_ENTERPRISE_USER],
+        id: record.userId,
+        userName: record.userName,
+        name: {
+            givenName: employee?.firstName ?? '',
+            familyName: employee?.lastName ?? '',
+            formatted: employee ? `${employee.firstName} ${employee.lastName}`.trim() : (record.displayName ?? ''),
+        },
+        displayName: record.displayName ?? '',
+        emails: [{ value: record.email, type: 'work', primary: true }],
+        active: record.isActive && employee?.status !== 'Inactive',
+        [SCIM_SCHEMA_ENTERPRISE_USER]: {
+            employeeNumber: employee?.employeeNumber ?? undefined,
+            department: employee?.department ?? undefined,
+        },
+        meta: {
+            resourceType: 'User',
+            created: record.createdAt,
+            lastModified: record.updatedAt ?? record.createdAt,
+            location: `${baseUrl}/Users/${record.userId}`,
+        },
+    };
+    if (record.externalId) resource.externalId = record.externalId;
+    if (employee?.position) resource.title = employee.position;
+    if (employee?.phone) resource.phoneNumbers = [{ value: employee.phone, type: 'work', primary: true }];
+    return resource;
+}
+
+export function toScimGroup(role: Role, members: { userId: string; name: string | null }[] | null, baseUrl: string): ScimResource {
+    const resource: ScimResource = {
+        schemas: [SCIM_SCHEMA_GROUP],
+        id: role.id,
+        displayName: role.name,
+        meta: {
+            resourceType: 'Group',
+            created: role.created_at,
+            lastModified: role.updated_at ?? role.created_at,
+            location: `${baseUrl}/Groups/${role.id}`,
+        },
+    };
+    // Omitted when the client sent excludedAttributes=members (large groups).
+    if (members) {
+        resource.members = members.map(member => ({ value: member.userId, display: member.name ?? undefined, $ref: `${baseUrl}/Users/${member.userId}`, type: 'User' }));
+    }
+    return resource;
+}
+
+function readString(value: unknown, attribute: string, maxLength: number): string | null {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== 'string') {
+        throw new ScimError(400, `${attribute} must be a string.`, 'invalidValue');
+    }
+    const trimmed = value.trim();
+    if (trimmed.length > maxLength) {
+        throw new ScimError(400, `${attribute} must be at most ${maxLength} characters.`, 'invalidValue');
+    }
+    return trimmed || null;
+}
+
+function readBoolean(value: unknown): boolean {
+    if (typeof value === 'string') return value.toLowerCase() !== 'false';
+    return value !== false;
+}
+
+/** Picks the primary entry of a multi-valued attribute (emails, phoneNumbers), else the first. */
+function primaryValue(resource: ScimResource, attribute: string): unknown {
+    const values = resource[findKey(resource, attribute) ?? attribute];
+    if (!Array.isArray(values) || values.length === 0) return undefined;
+    const isPrimary = (item: any) => {
+        const flag = item && typeof item === 'object' ? item[findKey(item, 'primary') ?? 'primary'] : undefined;
+        return flag === true || (typeof flag === 'string' && flag.toLowerCase() === 'true');
+    };
+    const primary = values.find(isPrimary) ?? values[0];
+    return primary && typeof primary === 'object' ? primary[findKey(primary, 'value') ?? 'value'] : undefined;
+}
+
+function attribute(resource: ScimResource, name: string): unknown {
+    return resource[findKey(resource, name) ?? name];
+}
+
+/**
+ * Validates a SCIM User resource and extracts the stored fields. The email falls back to
+ * userName when no emails are sent, as many IdPs use the email address as userName.
+ * @throws ScimError (400 invalidValue) when required attributes are missing or malformed.
+ */
+export function parseScimUserInput(resource: ScimResource): ScimUserInput {
+    const userName = readString(attribute(resource, 'userName'), 'userName', 50);
+    if (!userName) {
+        throw new ScimError(400, 'userName is required.', 'invalidValue');
+    }
+    const email = (readString(primaryValue(resource, 'emails'), 'emails.value', 100) ?? userName).toLowerCase();
+    if (!EMAIL_REGEX.test(email)) {
+        throw new ScimError(400, 'A valid work email (emails or an email-formatted userName) is required.', 'invalidValue');
+    }
+
+    const name = attribute(resource, 'name');
+    const nameObject = name && typeof name === 'object' ? name as Record<string, unknown> : {};
+    const enterpriseKey = findKey(resource, SCIM_SCHEMA_ENTERPRISE_USER);
+    const enterprise = enterpriseKey && resource[enterpriseKey] && typeof resource[enterpriseKey] === 'object' ? resource[enterpriseKey] : {};
+
+    const givenName = readString(nameObject[findKey(nameObject, 'givenName') ?? 'givenName'], 'name.givenName', 50) ?? email.split('@')[0].slice(0, 50);
+    const familyName = readString(nameObject[findKey(nameObject, 'familyName') ?? 'familyName'], 'name.familyName', 50) ?? '-';
+    const displayName = readString(attribute(resource, 'displayName'), 'displayName', 100) ?? `${givenName} ${familyName === '-' ? '' : familyName}`.trim();
+    const active = attribute(resource, 'active');
+
+    return {
+        userName: userName.toLowerCase(),
+        externalId: readString(attribute(resource, 'externalId'), 'externalId', 255),
+        email,
+        givenName,
+        familyName,
+        displayName,
+        phone: readString(primaryValue(resource, 'phoneNumbers'), 'phoneNumbers.value', 20),
+        title: readString(attribute(resource, 'title'), 'title', 100),
+        department: readString(enterprise[findKey(enterprise, 'department') ?? 'department'], 'department', 100),
+        active: active === undefined || active === null ? true : readBoolean(active),
+    };
+}
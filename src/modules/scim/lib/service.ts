@@ -0,0 +1,364 @@
+// src/modules/scim/lib/service.ts
+// SCIM 2.0 /Users and /Groups operations for one tenant. Users map onto the users table and the
+// linked employee record; Groups map onto the tenant's roles (built-in and custom).
+import bcrypt from 'bcrypt';
+import type { Tenant } from '@/modules/auth/types';
+import type { Role } from '@/modules/roles/types';
+import type { EmployeeStatus } from '@/modules/employees/types';
+import type { PlanLimitKind } from '@/modules/subscriptions/types';
+import { resolveTenantSubdomainForHost } from '@/lib/tenant-context';
+import {
+    ScimError,
+    SCIM_MAX_RESULTS,
+    SCIM_SCHEMA_LIST_RESPONSE,
+    scimPatchRequestSchema,
+    type ScimListResponse,
+    type ScimResource,
+    type ScimUserInput,
+    type ScimUserRecord,
+} from '@/modules/scim/types';
+import { parseScimFilter, matchesScimFilter, findKey } from '@/modules/scim/lib/filter';
+import { applyScimPatch } from '@/modules/scim/lib/patch';
+import { toScimUser, toScimGroup, parseScimUserInput } from '@/modules/scim/lib/resources';
+import { getScimUserRecords, getScimUserRecord, updateScimUserAccount } from '@/modules/scim/lib/db';
+import {
+    getTenantById,
+    getTenantIdByScimTokenHash,
+    addUser,
+    deleteUserById,
+    revokeAllSessionsForUser,
+} from '@/modules/auth/lib/db';
+import { addEmployeeInternal, updateEmployee } from '@/modules/employees/lib/db';
+import { getPlanLimitError } from '@/modules/subscriptions/lib/entitlements';
+import { getRolesForTenant, getRoleById, addRole, updateRole, deleteRole, getRoleMembers, updateRoleMembers } from '@/modules/roles/lib/db';
+import { generateSecureToken, hashToken } from '@/modules/auth/lib/utils';
+
+const SALT_ROUNDS = 10;
+const DEFAULT_PAGE_SIZE = 100;
+
+export interface ScimContext {
+    tenant: Tenant;
+    baseUrl: string; // e.g. https://acme.example.com/api/scim/v2, used for meta.location
+}
+
+// --- Authentication ---
+
+/**
+ * Resolves the tenant from the `Authorization: Bearer <token>` header. The request must be made
+ * on that tenant's own host (subdomain or verified custom domain), so a token only works against the tenant it was issued for.
+ * @throws ScimError (401) when the token is missing, unknown or used on another tenant's host.
+ * @throws ScimError (403) when the company account is suspended or deleted.
+ */
+export async function authenticateScimRequest(request: Request): Promise<ScimContext> {
+    const authorization = request.headers.get('authorization') || '';
+    const match = authorization.match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+        throw new ScimError(401, 'Bearer token required.');
+    }
+    const tenantId = await getTenantIdByScimTokenHash(hashToken(match[1]));
+    const tenant = tenantId ? await getTenantById(tenantId) : undefined;
+    const { subdomain: hostSubdomain } = await resolveTenantSubdomainForHost(request.headers.get('host') || '');
+    if (!tenant || hostSubdomain?.toLowerCase() !== tenant.subdomain) {
+        throw new ScimError(401, 'Invalid SCIM bearer token.');
+    }
+    if (tenant.status !== 'ACTIVE') {
+        throw new ScimError(403, `Company account is ${tenant.status.toLowerCase()}.`);
+    }
+    return { tenant, baseUrl: new URL('/api/scim/v2', request.url).toString() };
+}
+
+// --- Listing ---
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+/** Filters and paginates resources per RFC 7644 (startIndex is 1-based, count is capped). */
+function buildListResponse(resources: ScimResource[], params: URLSearchParams): ScimListResponse {
+    const filterExpression = params.get('filter');
+    const filtered = filterExpression
+        ? (() => {
+            const filter = parseScimFilter(filterExpression);
+            return resources.filter(resource => matchesScimFilter(resource, filter));
+        })()
+        : resources;
+    const startIndex = Math.max(1, parsePositiveInt(params.get('startIndex'), 1));
+    const count = Math.min(SCIM_MAX_RESULTS, Math.max(0, parsePositiveInt(params.get('count'), DEFAULT_PAGE_SIZE)));
+    const page = filtered.slice(startIndex - 1, startIndex - 1 + count);
+    return {
+        schemas: [SCIM_SCHEMA_LIST_RESPONSE],
+        totalResults: filtered.length,
+        startIndex,
+        itemsPerPage: page.length,
+        Resources: page,
+    };
+}
+
+function isExcluded(params: URLSearchParams, attributeName: string): boolean {
+    return (params.get('excludedAttributes') || '').split(',').some(name => name.trim().toLowerCase() === attributeName.toLowerCase());
+}
+
+/** Validates a PATCH request body. @throws ScimError (400 invalidSyntax). */
+function parsePatchRequest(body: unknown) {
+    const validation = scimPatchRequestSchema.safeParse(body);
+    if (!validation.success) {
+        throw new ScimError(400, validation.error.errors[0]?.message || 'Invalid PATCH request.', 'invalidSyntax');
+    }
+    return validation.data.Operations;
+}
+
+// --- Users ---
+
+async function requireUserRecord(context: ScimContext, id: string): Promise<ScimUserRecord> {
+    const record = await getScimUserRecord(id, context.tenant.tenant_id);
+    if (!record) {
+        throw new ScimError(404, `User ${id} not found.`);
+    }
+    return record;
+}
+
+async function reloadScimUser(context: ScimContext, userId: string): Promise<ScimResource> {
+    return toScimUser(await requireUserRecord(context, userId), context.baseUrl);
+}
+
+// 'On Leave' is an HR state the IdP knows nothing about, so it survives an active=true update.
+function employeeStatusFor(input: ScimUserInput, current: EmployeeStatus | undefined): EmployeeStatus {
+    if (!input.active) return 'Inactive';
+    return current === 'On Leave' ? 'On Leave' : 'Active';
+}
+
+async function assertWithinPlanLimits(tenantId: string, kinds: PlanLimitKind[]): Promise<void> {
+    if (kinds.length === 0) return;
+    const planLimitError = await getPlanLimitError(tenantId, kinds);
+    if (planLimitError) throw new ScimError(403, planLimitError);
+}
+
+async function createEmployeeForUser(tenantId: string, userId: string, input: ScimUserInput): Promise<string> {
+    const employee = await addEmployeeInternal({
+        tenantId,
+        userId,
+        first_name: input.givenName,
+        last_name: input.familyName,
+        email: input.email,
+        phone: input.phone,
+        position: input.title,
+        department: input.department,
+        hireDate: new Date().toISOString().slice(0, 10),
+        employmentType: 'Full-time',
+        status: employeeStatusFor(input, undefined),
+    });
+    await updateScimUserAccount(userId, tenantId, { employee_id: employee.id });
+    return employee.id;
+}
+
+/** Writes the desired state onto the user account and employee record; revokes sessions on deactivation. */
+async function applyUserInput(context: ScimContext, record: ScimUserRecord, input: ScimUserInput): Promise<void> {
+    const tenantId = context.tenant.tenant_id;
+    if (input.active) {
+        const reactivated: PlanLimitKind[] = [];
+        if (!record.isActive) reactivated.push('users');
+        if (!record.employee || record.employee.status === 'Inactive') reactivated.push('employees');
+        await assertWithinPlanLimits(tenantId, reactivated);
+    }
+    await updateScimUserAccount(record.userId, tenantId, {
+        username: input.userName,
+        email: input.email,
+        name: input.displayName,
+        is_active: input.active,
+        external_id: input.externalId,
+    });
+
+    if (!record.employee) {
+        await createEmployeeForUser(tenantId, record.userId, input);
+    } else {
+        await updateEmployee(record.employee.id, tenantId, {
+            first_name: input.givenName,
+            last_name: input.familyName,
+            email: input.email,
+            phone: input.phone,
+            position: input.title,
+            department: input.department,
+            status: employeeStatusFor(input, record.employee.status),
+        });
+    }
+
+    const wasActive = record.isActive && record.employee?.status !== 'Inactive';
+    if (wasActive && !input.active) {
+        const revokedCount = await revokeAllSessionsForUser(record.userId, tenantId, 'scim_deactivated');
+        console.log(`[SCIM] User ${record.userId} deactivated in tenant ${tenantId}. Revoked ${revokedCount} session(s).`);
+    }
+}
+
+export async function listScimUsers(context: ScimContext, params: URLSearchParams): Promise<ScimListResponse> {
+    const records = await getScimUserRecords(context.tenant.tenant_id);
+    return buildListResponse(records.map(record => toScimUser(record, context.baseUrl)), params);
+}
+
+export async function getScimUser(context: ScimContext, id: string): Promise<ScimResource> {
+    return reloadScimUser(context, id);
+}
+
+/**
+ * Creates a user account (role Employee, random unusable password; users sign in through SSO or
+ * a password reset) and its employee record.
+ */
+export async function createScimUser(context: ScimContext, body: ScimResource): Promise<ScimResource> {
+    const tenantId = context.tenant.tenant_id;
+    const input = parseScimUserInput(body);
+    if (input.active) {
+        await assertWithinPlanLimits(tenantId, ['users', 'employees']);
+    }
+    const passwordHash = await bcrypt.hash(generateSecureToken(32), SALT_ROUNDS);
+    const user = await addUser({
+        tenant_id: tenantId,
+        username: input.userName,
+        passwordHash,
+        email: input.email,
+        name: input.displayName,
+        role: 'Employee',
+        is_active: input.active,
+        employee_id: undefined,
+    });
+
+    try {
+        await createEmployeeForUser(tenantId, user.user_id, input);
+    } catch (err) {
+        // Do not leave an account without an employee record behind; the IdP will retry the create.
+        await deleteUserById(user.user_id, tenantId);
+        throw err;
+    }
+    if (input.externalId) {
+        await updateScimUserAccount(user.user_id, tenantId, { external_id: input.externalId });
+    }
+    console.log(`[SCIM] Provisioned user ${user.user_id} (${input.userName}) in tenant ${tenantId}.`);
+    return reloadScimUser(context, user.user_id);
+}
+
+export async function replaceScimUser(context: ScimContext, id: string, body: ScimResource): Promise<ScimResource> {
+    const record = await requireUserRecord(context, id);
+    await applyUserInput(context, record, parseScimUserInput(body));
+    return reloadScimUser(context, id);
+}
+
+export async function patchScimUser(context: ScimContext, id: string, body: unknown): Promise<ScimResource> {
+    const operations = parsePatchRequest(body);
+    const record = await requireUserRecord(context, id);
+    const patched = applyScimPatch(toScimUser(record, context.baseUrl), operations);
+    await applyUserInput(context, record, parseScimUserInput(patched));
+    return reloadScimUser(context, id);
+}
+
+/** DELETE is a soft deactivation: the account is disabled and the employee marked Inactive, keeping HR history. */
+export async function deactivateScimUser(context: ScimContext, id: string): Promise<void> {
+    const record = await requireUserRecord(context, id);
+    const current = parseScimUserInput(toScimUser(record, context.baseUrl));
+    await applyUserInput(context, record, { ...current, active: false });
+}
+
+// --- Groups ---
+
+async function requireRole(context: ScimContext, id: string): Promise<Role> {
+    let role: Role | undefined;
+    try {
+        role = await getRoleById(id, context.tenant.tenant_id);
+    } catch {
+        role = undefined; // Malformed IDs are "not found" for SCIM clients
+    }
+    if (!role) {
+        throw new ScimError(404, `Group ${id} not found.`);
+    }
+    return role;
+}
+
+async function loadScimGroup(context: ScimContext, role: Role, includeMembers = true): Promise<ScimResource> {
+    const members = includeMembers ? await getRoleMembers(role, context.tenant.tenant_id) : null;
+    return toScimGroup(role, members, context.baseUrl);
+}
+
+function readMemberIds(resource: ScimResource): string[] {
+    const members = resource[findKey(resource, 'members') ?? 'members'];
+    if (members === undefined || members === null) return [];
+    if (!Array.isArray(members)) {
+        throw new ScimError(400, 'members must be an array.', 'invalidValue');
+    }
+    return members
+        .map(member => member && typeof member === 'object' ? member[findKey(member, 'value') ?? 'value'] : member)
+        .filter((value): value is string => typeof value === 'string' && value.length > 0)
+        .map(value => value.toLowerCase());
+}
+
+function readDisplayName(resource: ScimResource): string {
+    const displayName = resource[findKey(resource, 'displayName') ?? 'displayName'];
+    if (typeof displayName !== 'string' || displayName.trim().length < 2 || displayName.trim().length > 50) {
+        throw new ScimError(400, 'displayName is required and must be 2-50 characters.', 'invalidValue');
+    }
+    return displayName.trim();
+}
+
+/** Renames the role (custom roles only) and applies membership changes as an add/remove diff. */
+async function applyGroupState(context: ScimContext, role: Role, displayName: string, memberIds: string[]): Promise<void> {
+    const tenantId = context.tenant.tenant_id;
+    if (displayName !== role.name) {
+        if (role.isSystem) {
+            throw new ScimError(400, `The built-in ${role.name} group cannot be renamed.`, 'mutability');
+        }
+        await updateRole(role.id, tenantId, { name: displayName, description: role.description, permissions: role.permissions }, null);
+    }
+
+    const currentIds = (await getRoleMembers(role, tenantId)).map(member => member.userId.toLowerCase());
+    const add = memberIds.filter(memberId => !currentIds.includes(memberId));
+    const remove = currentIds.filter(memberId => !memberIds.includes(memberId));
+    if (add.length === 0 && remove.length === 0) return;
+    try {
+        await updateRoleMembers(role, tenantId, { add, remove }, null);
+    } catch (err: any) {
+        // Rule violations (last Admin, Employee base role) are client errors; database errors carry a code.
+        if (err.code) throw err;
+        throw new ScimError(400, err.message);
+    }
+}
+
+export async function listScimGroups(context: ScimContext, params: URLSearchParams): Promise<ScimListResponse> {
+    const includeMembers = !isExcluded(params, 'members');
+    const roles = await getRolesForTenant(context.tenant.tenant_id);
+    const resources = await Promise.all(roles.map(role => loadScimGroup(context, role, includeMembers)));
+    return buildListResponse(resources, params);
+}
+
+export async function getScimGroup(context: ScimContext, id: string, params: URLSearchParams): Promise<ScimResource> {
+    return loadScimGroup(context, await requireRole(context, id), !isExcluded(params, 'members'));
+}
+
+/** Creates a custom role without permissions; admins grant permissions to it in the HRM. */
+export async function createScimGroup(context: ScimContext, body: ScimResource): Promise<ScimResource> {
+    const tenantId = context.tenant.tenant_id;
+    const displayName = readDisplayName(body);
+    const role = await addRole(tenantId, { name: displayName, description: 'Provisioned via SCIM.', permissions: [] }, null);
+    await applyGroupState(context, role, displayName, readMemberIds(body));
+    console.log(`[SCIM] Provisioned group ${role.id} (${displayName}) in tenant ${tenantId}.`);
+    return loadScimGroup(context, await requireRole(context, role.id));
+}
+
+export async function replaceScimGroup(context: ScimContext, id: string, body: ScimResource): Promise<ScimResource> {
+    const role = await requireRole(context, id);
+    await applyGroupState(context, role, readDisplayName(body), readMemberIds(body));
+    return loadScimGroup(context, await requireRole(context, id));
+}
+
+export async function patchScimGroup(context: ScimContext, id: string, body: unknown, params: URLSearchParams): Promise<ScimResource> {
+    const operations = parsePatchRequest(body);
+    const role = await requireRole(context, id);
+    const patched = applyScimPatch(await loadScimGroup(context, role), operations);
+    await applyGroupState(context, role, readDisplayName(patched), readMemberIds(patched));
+    return loadScimGroup(context, await requireRole(context, id), !isExcluded(params, 'members'));
+}
+
+export async function deleteScimGroup(context: ScimContext, id: string): Promise<void> {
+    const role = await requireRole(context, id);
+    if (role.isSystem) {
+        throw new ScimError(400, `The built-in ${role.name} group cannot be deleted.`, 'mutability');
+    }
+    await deleteRole(role.id, context.tenant.tenant_id);
+    console.log(`[SCIM] Deleted group ${role.id} (${role.name}) in tenant ${context.tenant.tenant_id}.`);
+}
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import type { EmployeeStatus } from '@/modules/employees/types';
+
+// --- SCIM 2.0 schema URNs (RFC 7643 / 7644) ---
+export const SCIM_SCHEMA_USER = 'urn:ietf:params:scim:schemas:core:2.0:User';
+export const SCIM_SCHEMA_ENTERPRISE_USER = 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User';
+export const SCIM_SCHEMA_GROUP = 'urn:ietf:params:scim:schemas:core:2.0:Group';
+export const SCIM_SCHEMA_LIST_RESPONSE = 'urn:ietf:params:scim:api:messages:2.0:ListResponse';
+export const SCIM_SCHEMA_PATCH_OP = 'urn:ietf:params:scim:api:messages:2.0:PatchOp';
+export const SCIM_SCHEMA_ERROR = 'urn:ietf:params:scim:api:messages:2.0:Error';
+export const SCIM_SCHEMA_SERVICE_PROVIDER_CONFIG = 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig';
+
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+export const SCIM_MAX_RESULTS = 200;
+
+export type ScimErrorType = 'invalidFilter' | 'invalidPath' | 'invalidValue' | 'invalidSyntax' | 'mutability' | 'noTarget' | 'uniqueness' | 'tooMany';
+
+/** Error carrying the HTTP status and SCIM error type to return to the client. */
+export class ScimError extends Error {
+  constructor(public readonly status: number, message: string, public readonly scimType?: ScimErrorType) {
+    super(message);
+    this.name = 'ScimError';
+  }
+}
+
+// A user account joined with its employee record, as read for SCIM.
+export interface ScimUserRecord {
+  userId: string;
+  userName: string;
+  email: string;
+  displayName: string | null;
+  isActive: boolean;
+  externalId: string | null;
+  createdAt: string;
+  updatedAt: string | null;
+  employee: {
+    id: string;
+    employeeNumber: string | null;
+    firstName: string;
+    lastName: string;
+    phone: string | null;
+    position: string | null;
+    department: string | null;
+    status: EmployeeStatus;
+  } | null;
+}
+
+// Desired state parsed from a SCIM User resource (POST/PUT body or a patched resource).
+export interface ScimUserInput {
+  userName: string;
+  externalId: string | null;
+  email: string;
+  givenName: string;
+  familyName: string;
+  displayName: string;
+  phone: string | null;
+  title: string | null;
+  department: string | null;
+  active: boolean;
+}
+
+export type ScimResource = Record<string, any>;
+
+export interface ScimListResponse {
+  schemas: [typeof SCIM_SCHEMA_LIST_RESPONSE];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: ScimResource[];
+}
+
+export const scimPatchOperationSchema = z.object({
+  op: z.string().transform(op => op.toLowerCase()).pipe(z.enum(['add', 'replace', 'remove'])),
+  path: z.string().trim().min(1).optional(),
+  value: z.any().optional(),
+});
+
+export type ScimPatchOperation = z.infer<typeof scimPatchOperationSchema>;
+
+export const scimPatchRequestSchema = z.object({
+  schemas: z.array(z.string()).refine(schemas => schemas.includes(SCIM_SCHEMA_PATCH_OP), `schemas must contain ${SCIM_SCHEMA_PATCH_OP}`),
+  Operations: z.array(scimPatchOperationSchema).min(1),
+});
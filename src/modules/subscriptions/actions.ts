@@ -0,0 +1,90 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import type { SubscriptionInvoice, SubscriptionPlan, TenantSubscription } from '@/modules/subscriptions/types';
+import {
+  getActivePlans as dbGetActivePlans,
+  getCurrentSubscription as dbGetCurrentSubscription,
+  getInvoiceById as dbGetInvoiceById,
+  getInvoicesForTenant as dbGetInvoicesForTenant,
+} from '@/modules/subscriptions/lib/db';
+import { changePlan, collectInvoicePayment } from '@/modules/subscriptions/lib/billing';
+import { requirePermission } from '@/modules/auth/actions';
+
+const BILLING_IMPERSONATION_ERROR = "Billing changes are not available while viewing as another user. End the impersonation session first.";
+
+export async function getBillingOverviewAction(): Promise<{ success: boolean; subscription?: TenantSubscription | null; plans?: SubscriptionPlan[]; invoices?: SubscriptionInvoice[]; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('billing.manage');
+  } catch {
+    return { success: false, error: 'Unauthorized to view billing.' };
+  }
+
+  try {
+    const [subscription, plans, invoices] = await Promise.all([
+      dbGetCurrentSubscription(session.tenantId),
+      dbGetActivePlans(),
+      dbGetInvoicesForTenant(session.tenantId),
+    ]);
+    return { success: true, subscription: subscription ?? null, plans, invoices };
+  } catch (error: any) {
+    console.error("[Action getBillingOverviewAction] Error fetching billing overview:", error);
+    return { success: false, error: error.message || 'Failed to load billing information.' };
+  }
+}
+
+/** Switches the company to another plan now; the change is prorated and invoiced immediately. */
+export async function changePlanAction(planId: string): Promise<{ success: boolean; invoice?: SubscriptionInvoice; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('billing.manage');
+  } catch {
+    return { success: false, error: 'Unauthorized to change the subscription plan.' };
+  }
+  if (session.impersonation) {
+    return { success: false, error: BILLING_IMPERSONATION_ERROR };
+  }
+
+  try {
+    const invoice = await changePlan(session.tenantId, planId);
+    console.log(`[Action changePlanAction] User ${session.userId} changed the plan of tenant ${session.tenantId}.`);
+    revalidatePath(`/${session.tenantDomain}/billing`);
+    return { success: true, invoice };
+  } catch (error: any) {
+    console.error("[Action changePlanAction] Error changing plan:", error);
+    return { success: false, error: error.message || 'Failed to change the subscription plan.' };
+  }
+}
+
+/** Retries payment of an unpaid invoice through the payment gateway. */
+export async function payInvoiceAction(invoiceId: string): Promise<{ success: boolean; status?: 'PAID' | 'PENDING'; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('billing.manage');
+  } catch {
+    return { success: false, error: 'Unauthorized to pay invoices.' };
+  }
+  if (session.impersonation) {
+    return { success: false, error: BILLING_IMPERSONATION_ERROR };
+  }
+
+  try {
+    const invoice = await dbGetInvoiceById(invoiceId, session.tenantId);
+    if (!invoice) {
+      return { success: false, error: 'Invoice not found.' };
+    }
+    if (invoice.status === 'PAID' || invoice.status === 'CANCELLED') {
+      return { success: false, error: `Invoice ${invoice.invoiceNumber} is ${invoice.status === 'PAID' ? 'already paid' : 'cancelled'}.` };
+    }
+    const result = await collectInvoicePayment(invoice);
+    revalidatePath(`/${session.tenantDomain}/billing`);
+    if (result.status === 'FAILED') {
+      return { success: false, error: `Payment failed: ${result.failureReason || 'declined by the payment provider.'}` };
+    }
+    return { success: true, status: result.status };
+  } catch (error: any) {
+    console.error("[Action payInvoiceAction] Error paying invoice:", error);
+    return { success: false, error: error.message || 'Failed to pay the invoice.' };
+  }
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import { CreditCard, Download, Loader2, Receipt } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { changePlanAction, payInvoiceAction } from '@/modules/subscriptions/actions';
+import { formatMoney } from '@/modules/subscriptions/lib/invoice-document';
+import type { InvoiceStatus, SubscriptionInvoice, SubscriptionPlan, TenantSubscription } from '@/modules/subscriptions/types';
+
+interface BillingOverviewProps {
+  subscription: TenantSubscription | null;
+  plans: SubscriptionPlan[];
+  invoices: SubscriptionInvoice[];
+  currency: string; // Billing currency for plan prices
+}
+
+const STATUS_BADGE_VARIANT: Record<InvoiceStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  PAID: 'default',
+  PENDING: 'secondary',
+  OVERDUE: 'destructive',
+  CANCELLED: 'outline',
+};
+
+const BILLING_CYCLE_LABELS: Record<SubscriptionPlan['billingCycle'], string> = {
+  MONTHLY: 'month',
+  QUARTERLY: 'quarter',
+  YEARLY: 'year',
+};
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '—';
+  try {
+    return format(parseISO(iso), 'PP');
+  } catch {
+    return iso;
+  }
+}
+
+export function BillingOverview({ subscription, plans, invoices, currency }: BillingOverviewProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [selectedPlanId, setSelectedPlanId] = React.useState<string>('');
+  const [isChangingPlan, setIsChangingPlan] = React.useState(false);
+  const [paying, setPaying] = React.useState<Record<string, boolean>>({});
+
+  const otherPlans = plans.filter(plan => plan.planId !== subscription?.plan.planId);
+  const selectedPlan = otherPlans.find(plan => plan.planId === selectedPlanId);
+
+  const handleChangePlan = async () => {
+    if (!selectedPlan) return;
+    setIsChangingPlan(true);
+    try {
+      const result = await changePlanAction(selectedPlan.planId);
+      if (!result.success) {
+        throw new Error(result.error || "Could not change the plan.");
+      }
+      toast({
+        title: "Plan Changed",
+        description: `Your company is now on the ${selectedPlan.name} plan. Invoice ${result.invoice?.invoiceNumber} was issued for the change.`,
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+      setSelectedPlanId('');
+      router.refresh();
+    } catch (error: any) {
+      console.error("Plan change error:", error);
+      toast({ title: "Plan Change Failed", description: error.message || "Could not change the plan.", variant: "destructive" });
+    } finally {
+      setIsChangingPlan(false);
+    }
+  };
+
+  const handlePay = async (invoice: SubscriptionInvoice) => {
+    setPaying(prev => ({ ...prev, [invoice.id]: true }));
+    try {
+      const result = await payInvoiceAction(invoice.id);
+      if (!result.success) {
+        throw new Error(result.error || "Could not pay the invoice.");
+      }
+      toast({
+        title: result.status === 'PAID' ? "Invoice Paid" : "Payment Processing",
+        description: result.status === 'PAID'
+          ? `${invoice.invoiceNumber} has been paid.`
+          : `The payment for ${invoice.invoiceNumber} is being processed by the payment provider.`,
+        className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+      });
+      router.refresh();
+    } catch (error: any) {
+      console.error("Invoice payment error:", error);
+      toast({ title: "Payment Failed", description: error.message || "Could not pay the invoice.", variant: "destructive" });
+    } finally {
+      setPaying(prev => ({ ...prev, [invoice.id]: false }));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <Card className="shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><CreditCard className="h-5 w-5" /> Subscription</CardTitle>
+          <CardDescription>
+            {subscription
+              ? `Your company is on the ${subscription.plan.name} plan until ${formatDate(subscription.endDate)}.`
+              : "Your company does not have an active subscription."}
+          </CardDescription>
+        </CardHeader>
+        {subscription && (
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Price</p>
+                <p className="font-medium">{formatMoney(subscription.plan.price, currency)} per {BILLING_CYCLE_LABELS[subscription.plan.billingCycle]}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Limits</p>
+                <p className="font-medium">{subscription.plan.maxUsers} users, {subscription.plan.maxEmployees} employees</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Payment status</p>
+                <Badge variant={subscription.paymentStatus === 'FAILED' ? 'destructive' : subscription.paymentStatus === 'PAID' ? 'default' : 'secondary'}>
+                  {subscription.paymentStatus === 'FAILED' ? 'Overdue' : subscription.paymentStatus === 'PAID' ? 'Paid' : 'Payment due'}
+                </Badge>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Account credit</p>
+                <p className="font-medium">{formatMoney(subscription.creditBalance, currency)}</p>
+              </div>
+            </div>
+            {otherPlans.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={selectedPlanId} onValueChange={setSelectedPlanId}>
+                  <SelectTrigger className="w-72">
+                    <SelectValue placeholder="Switch to another plan" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {otherPlans.map(plan => (
+                      <SelectItem key={plan.planId} value={plan.planId}>
+                        {plan.name} ({formatMoney(plan.price, currency)} per {BILLING_CYCLE_LABELS[plan.billingCycle]})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button disabled={!selectedPlan || isChangingPlan}>
+                      {isChangingPlan && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Change Plan
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Switch to the {selectedPlan?.name} plan?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The change takes effect now and starts a new billing period. You are invoiced for the new plan, less a credit for the unused time on your current plan; any credit left over is applied to future invoices.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleChangePlan}>Change Plan</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      <Card className="shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Receipt className="h-5 w-5" /> Invoices</CardTitle>
+          <CardDescription>Invoices are issued at the start of each billing period and when the plan changes.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {invoices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No invoices yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map(invoice => (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="font-medium">{invoice.invoiceNumber}</TableCell>
+                    <TableCell>{formatDate(invoice.created_at)}</TableCell>
+                    <TableCell>{invoice.periodStart ? `${formatDate(invoice.periodStart)} – ${formatDate(invoice.periodEnd)}` : '—'}</TableCell>
+                    <TableCell>{formatDate(invoice.dueDate)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(invoice.amount, invoice.currency)}</TableCell>
+                    <TableCell><Badge variant={STATUS_BADGE_VARIANT[invoice.status]}>{invoice.status.toLowerCase()}</Badge></TableCell>
+                    <TableCell className="text-right space-x-2">
+                      {(invoice.status === 'PENDING' || invoice.status === 'OVERDUE') && (
+                        <Button size="sm" onClick={() => handlePay(invoice)} disabled={paying[invoice.id]}>
+                          {paying[invoice.id] && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Pay Now
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" asChild>
+                        <a href={`/api/billing/invoices/${invoice.id}`} download>
+                          <Download className="mr-2 h-4 w-4" /> Download
+                        </a>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
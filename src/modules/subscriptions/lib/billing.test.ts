@@ -0,0 +1,59 @@
+// src/modules/subscriptions/lib/billing.test.ts
+// Plan changes: the new plan is billed from now and the unused part of the current period is credited, once.
+import { cleanUpTestDatabase, createTestTenant, prepareTestDatabase, testDatabaseSkipReason } from '@/test/database'; // Must come first: points db.ts at the test database
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { subDays } from 'date-fns';
+import pool from '@/lib/db';
+import { withSystemScope, withTenantScope } from '@/lib/tenant-context';
+import { changePlan } from '@/modules/subscriptions/lib/billing';
+
+describe('plan changes', { skip: testDatabaseSkipReason }, () => {
+  let tenantId: string;
+  let basicPlanId: string;
+  let proPlanId: string;
+
+  const addPlan = async (name: string, price: number) => (await pool.query(
+    `INSERT INTO subscription_plans (name, price, billing_cycle, max_users, max_employees, features)
+     VALUES ($1, $2, 'MONTHLY', 10, 10, '{}') RETURNING plan_id`,
+    [name, price]
+  )).rows[0].plan_id;
+
+  before(async () => {
+    await prepareTestDatabase();
+    tenantId = await createTestTenant('billing');
+    basicPlanId = await addPlan(`Test Basic ${tenantId}`, 100);
+    proPlanId = await addPlan(`Test Pro ${tenantId}`, 200);
+    const start = subDays(new Date(), 20);
+    await withSystemScope('test setup', () => pool.query(
+      `INSERT INTO tenant_subscriptions (tenant_id, plan_id, start_date, end_date, status, billing_anchor)
+       VALUES ($1, $2, $3, $3::timestamptz + INTERVAL '1 year', 'ACTIVE', $3)`,
+      [tenantId, proPlanId, start]
+    ));
+  });
+
+  after(async () => {
+    if (tenantId) {
+      await withSystemScope('test cleanup', () => pool.query('DELETE FROM tenants WHERE tenant_id = $1', [tenantId]));
+    }
+    await pool.query('DELETE FROM subscription_plans WHERE plan_id = ANY($1)', [[basicPlanId, proPlanId].filter(Boolean)]);
+    await cleanUpTestDatabase([]);
+  });
+
+  test('a second change in the same period credits only the plan charge of the first', async () => {
+    const now = new Date();
+    const toBasic = await withTenantScope(tenantId, () => changePlan(tenantId, basicPlanId, now));
+    const unusedPro = -toBasic.lineItems[1].amount;
+    assert.ok(unusedPro > 0 && unusedPro < 200);
+    assert.equal(toBasic.subtotal, Math.round((100 - unusedPro) * 100) / 100);
+
+    // Basic has not been used at all, so all of its 100 comes back; the credit for Pro is not given again
+    const backToPro = await withTenantScope(tenantId, () => changePlan(tenantId, proPlanId, now));
+    assert.deepEqual(backToPro.lineItems.map(item => item.amount), [200, -100]);
+    assert.equal(backToPro.subtotal, 100);
+
+    const invoices = await withTenantScope(tenantId, () => pool.query('SELECT subtotal FROM subscription_invoices ORDER BY created_at'));
+    const billed = invoices.rows.reduce((sum: number, row: any) => sum + parseFloat(row.subtotal), 0);
+    assert.equal(Math.round(billed * 100) / 100, Math.round((400 - unusedPro) * 100) / 100); // Pro until now, then Pro for a full period
+  });
+});
@@ -0,0 +1,230 @@
+// src/modules/subscriptions/lib/billing.ts
+// Billing engine. Subscriptions are billed in advance, one invoice per billing period of the plan's cycle, starting
+// at the subscription's start date. A plan change starts a new period at once: the new plan is billed in full and the
+// unused part of the current period is credited. Payment is collected through the configured payment gateway.
+import { addDays, addMonths, differenceInMonths, format } from 'date-fns';
+import type { SubscriptionInvoice, SubscriptionPlan, TenantSubscription } from '@/modules/subscriptions/types';
+import { BILLING_CYCLE_MONTHS, INVOICE_PAYMENT_TERMS_DAYS } from '@/modules/subscriptions/types';
+import {
+    addPayment,
+    changeSubscriptionPlan,
+    createRenewalInvoice,
+    getActivePlans,
+    getCurrentSubscription,
+    getInvoiceForPeriod,
+    getLastBilledPeriodEnd,
+    getPlanUsage,
+    getSubscriptionsForBilling,
+    hasPendingPayment,
+    markOverdueInvoices,
+    settlePayment,
+} from '@/modules/subscriptions/lib/db';
+import { getPaymentGateway } from '@/services/payment-gateway';
+
+export const BILLING_CURRENCY = (process.env.BILLING_CURRENCY || 'USD').toUpperCase();
+
+// Catching up on more periods than this in one run means the start date is wrong, not that billing was missed.
+const MAX_PERIODS_PER_RUN = 36;
+
+function roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+function formatPeriod(start: Date, end: Date): string {
+    return `${format(start, 'd MMM yyyy')} – ${format(end, 'd MMM yyyy')}`;
+}
+
+/**
+ * The billing period of `plan` that starts at `start`, cut short at the end of the subscription.
+ * Periods end whole cycles after `anchor`, so a subscription started on the 31st renews on the last day of
+ * shorter months and on the 31st again after them.
+ */
+export function getBillingPeriod(plan: SubscriptionPlan, start: Date, subscriptionEnd: Date, anchor: Date = start): { start: Date; end: Date; charge: number } {
+    const cycleMonths = BILLING_CYCLE_MONTHS[plan.billingCycle];
+    let cycles = Math.max(1, Math.floor(differenceInMonths(start, anchor) / cycleMonths));
+    let fullEnd = addMonths(anchor, cycles * cycleMonths);
+    while (fullEnd <= start) {
+        fullEnd = addMonths(anchor, ++cycles * cycleMonths);
+    }
+    if (fullEnd <= subscriptionEnd) {
+        return { start, end: fullEnd, charge: plan.price };
+    }
+    const fullStart = addMonths(anchor, (cycles - 1) * cycleMonths);
+    return { start, end: subscriptionEnd, charge: prorate(plan.price, start, subscriptionEnd, fullStart, fullEnd) };
+}
+
+/** The share of `amount` (charged for periodStart–periodEnd) that falls between from and to. */
+export function prorate(amount: number, from: Date, to: Date, periodStart: Date, periodEnd: Date): number {
+    const periodMs = periodEnd.getTime() - periodStart.getTime();
+    if (periodMs <= 0) return 0;
+    const usedMs = Math.min(Math.max(to.getTime() - from.getTime(), 0), periodMs);
+    return roundCurrency(amount * usedMs / periodMs);
+}
+
+/**
+ * What the invoice charged for the plan itself: its positive line items. Credits on the invoice (unused time of an
+ * earlier plan) are left out, since they were already given and must not be credited again.
+ */
+function planCharge(invoice: SubscriptionInvoice): number {
+    return roundCurrency(invoice.lineItems.filter(item => item.amount > 0).reduce((sum, item) => sum + item.amount, 0));
+}
+
+/**
+ * Invoices every billing period of the subscription that has started and not been invoiced yet,
+ * and collects payment for each.
+ */
+export async function invoiceDuePeriods(subscription: TenantSubscription, now: Date = new Date()): Promise<SubscriptionInvoice[]> {
+    const subscriptionEnd = new Date(subscription.endDate);
+    let periodStart = (await getLastBilledPeriodEnd(subscription.subscriptionId)) ?? new Date(subscription.startDate);
+    const invoices: SubscriptionInvoice[] = [];
+
+    for (let i = 0; i < MAX_PERIODS_PER_RUN && periodStart <= now && periodStart < subscriptionEnd; i++) {
+        const period = getBillingPeriod(subscription.plan, periodStart, subscriptionEnd, new Date(subscription.billingAnchor));
+        const invoice = await createRenewalInvoice(subscription.subscriptionId, {
+            periodStart: period.start,
+            periodEnd: period.end,
+            currency: BILLING_CURRENCY,
+            lineItems: [{ description: `${subscription.plan.name} plan, ${formatPeriod(period.start, period.end)}`, amount: period.charge }],
+            dueDate: addDays(period.start, INVOICE_PAYMENT_TERMS_DAYS),
+        });
+        if (invoice) {
+            console.log(`[Billing] Issued ${invoice.invoiceNumber} (${invoice.amount} ${invoice.currency}) to tenant ${subscription.tenantId}.`);
+            invoices.push(invoice);
+            await collectInvoicePayment(invoice);
+        }
+        periodStart = period.end;
+    }
+    return invoices;
+}
+
+/**
+ * Charges an unpaid invoice through the payment gateway. Declined payments leave the invoice unpaid
+ * (it becomes overdue after its due date); gateways that settle later report the outcome by webhook.
+ * @returns The invoice status after the attempt.
+ */
+export async function collectInvoicePayment(invoice: SubscriptionInvoice): Promise<{ status: 'PAID' | 'PENDING' | 'FAILED'; failureReason?: string }> {
+    if (invoice.status === 'PAID' || invoice.status === 'CANCELLED' || invoice.amount <= 0) {
+        return { status: 'PAID' };
+    }
+    if (await hasPendingPayment(invoice.id)) {
+        return { status: 'PENDING' };
+    }
+
+    const gateway = getPaymentGateway();
+    const transaction = await gateway.collectPayment({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        amount: invoice.amount,
+        currency: invoice.currency,
+        customerReference: invoice.tenantId,
+        description: `Subscription invoice ${invoice.invoiceNumber}`,
+    });
+    await addPayment({
+        tenant_id: invoice.tenantId,
+        invoice_id: invoice.id,
+        gateway: gateway.name,
+        transaction_id: transaction.transactionId,
+        amount: invoice.amount,
+        currency: invoice.currency,
+        status: 'PENDING',
+    });
+    if (transaction.status === 'pending') {
+        return { status: 'PENDING' };
+    }
+    await settlePayment(gateway.name, transaction.transactionId, {
+        status: transaction.status === 'succeeded' ? 'SUCCEEDED' : 'FAILED',
+        failureReason: transaction.failureReason,
+    });
+    if (transaction.status === 'failed') {
+        console.warn(`[Billing] Payment for ${invoice.invoiceNumber} of tenant ${invoice.tenantId} failed: ${transaction.failureReason}`);
+        return { status: 'FAILED', failureReason: transaction.failureReason };
+    }
+    return { status: 'PAID' };
+}
+
+/**
+ * Applies a payment gateway webhook. Unknown and already settled transactions are ignored, so
+ * gateways can safely retry deliveries.
+ * @throws If the gateway is not registered or the webhook fails verification.
+ */
+export async function handlePaymentWebhook(gatewayName: string, rawBody: string, headers: Headers): Promise<void> {
+    const gateway = getPaymentGateway(gatewayName);
+    const event = gateway.parseWebhook(rawBody, headers);
+    const payment = await settlePayment(gateway.name, event.transactionId, {
+        status: event.status === 'succeeded' ? 'SUCCEEDED' : 'FAILED',
+        failureReason: event.failureReason,
+    });
+    if (!payment) {
+        console.log(`[Billing] Ignored ${gateway.name} webhook for unknown or settled transaction ${event.transactionId}.`);
+        return;
+    }
+    console.log(`[Billing] ${gateway.name} transaction ${event.transactionId} for invoice ${payment.invoiceId} ${event.status}.`);
+}
+
+/**
+ * Moves the tenant's current subscription to another plan, effective now.
+ * @throws If there is no current subscription, the plan is unavailable or unchanged, or current usage exceeds the new plan's limits.
+ */
+export async function changePlan(tenantId: string, newPlanId: string, now: Date = new Date()): Promise<SubscriptionInvoice> {
+    const subscription = await getCurrentSubscription(tenantId);
+    if (!subscription) {
+        throw new Error('Your company does not have an active subscription.');
+    }
+    const newPlan = (await getActivePlans()).find(plan => plan.planId === newPlanId);
+    if (!newPlan) {
+        throw new Error('The selected plan is not available.');
+    }
+    if (newPlan.planId === subscription.plan.planId) {
+        throw new Error(`Your company is already on the ${newPlan.name} plan.`);
+    }
+    const usage = await getPlanUsage(tenantId);
+    if (usage.users > newPlan.maxUsers || usage.employees > newPlan.maxEmployees) {
+        throw new Error(`The ${newPlan.name} plan allows up to ${newPlan.maxUsers} active user accounts and ${newPlan.maxEmployees} employees, and your company has ${usage.users} and ${usage.employees}. Deactivate accounts or employees before switching.`);
+    }
+
+    // Bill the current period first if the billing run has not yet, so its unused part can be credited
+    await invoiceDuePeriods(subscription, now);
+
+    const subscriptionEnd = new Date(subscription.endDate);
+    const period = getBillingPeriod(newPlan, now, subscriptionEnd);
+    const lineItems = [{ description: `${newPlan.name} plan, ${formatPeriod(period.start, period.end)}`, amount: period.charge }];
+    const currentInvoice = await getInvoiceForPeriod(subscription.subscriptionId, now);
+    if (currentInvoice?.periodStart && currentInvoice.periodEnd) {
+        const unused = prorate(planCharge(currentInvoice), now, new Date(currentInvoice.periodEnd), new Date(currentInvoice.periodStart), new Date(currentInvoice.periodEnd));
+        if (unused > 0) {
+            lineItems.push({ description: `Unused time on ${subscription.plan.name} plan after ${format(now, 'd MMM yyyy')}`, amount: -unused });
+        }
+    }
+
+    const invoice = await changeSubscriptionPlan(subscription, newPlan, {
+        periodStart: period.start,
+        periodEnd: period.end,
+        currency: BILLING_CURRENCY,
+        lineItems,
+        dueDate: addDays(now, INVOICE_PAYMENT_TERMS_DAYS),
+    });
+    console.log(`[Billing] Tenant ${tenantId} moved from ${subscription.plan.name} to ${newPlan.name}; issued ${invoice.invoiceNumber} (${invoice.amount} ${invoice.currency}).`);
+    await collectInvoicePayment(invoice);
+    return invoice;
+}
+
+/**
+ * The scheduled billing job: invoices due periods of every active subscription and marks unpaid invoices
+ * past their due date overdue. Runs across tenants, so the caller must be in system scope.
+ */
+export async function runBillingCycle(): Promise<{ invoiced: SubscriptionInvoice[]; overdue: SubscriptionInvoice[]; failedSubscriptions: string[] }> {
+    const invoiced: SubscriptionInvoice[] = [];
+    const failedSubscriptions: string[] = [];
+    for (const subscription of await getSubscriptionsForBilling()) {
+        try {
+            invoiced.push(...await invoiceDuePeriods(subscription));
+        } catch (error: any) {
+            // One company's failure must not stop billing for the others
+            console.error(`[Billing] Failed to bill subscription ${subscription.subscriptionId} of tenant ${subscription.tenantId}:`, error.message);
+            failedSubscriptions.push(subscription.subscriptionId);
+        }
+    }
+    const overdue = await markOverdueInvoices();
+    overdue.forEach(invoice => console.warn(`[Billing] ${invoice.invoiceNumber} of tenant ${invoice.tenantId} is overdue (due ${invoice.dueDate}).`));
+    return { invoiced, overdue, failedSubscriptions };
+}
@@ -0,0 +1,518 @@
+import pool from '@/lib/db';
+import type {
+    InvoiceKind,
+    InvoiceLineItem,
+    PlanFeatureKey,
+    PlanUsage,
+    SubscriptionInvoice,
+    SubscriptionPayment,
+    SubscriptionPlan,
+    TenantPlan,
+    TenantSubscription,
+} from '@/modules/subscriptions/types';
+import { PLAN_FEATURE_REGISTRY } from '@/modules/subscriptions/types';
+import { recordAuditEvent } from '@/modules/audit/lib/db';
+import { diffForAudit } from '@/modules/audit/lib/diff';
+
+function isPlanFeature(key: string): key is PlanFeatureKey {
+    return PLAN_FEATURE_REGISTRY.some(feature => feature.key === key);
+}
+
+/** Accepts `features` stored as an array of keys or as an object of key → boolean. */
+function parsePlanFeatures(features: unknown): PlanFeatureKey[] {
+    const keys = Array.isArray(features)
+        ? features.filter((key): key is string => typeof key === 'string')
+        : Object.entries((features as Record<string, unknown>) || {}).filter(([, enabled]) => enabled === true).map(([key]) => key);
+    return keys.filter(isPlanFeature);
+}
+
+/**
+ * The plan of the tenant's current subscription (ACTIVE and within its start and end date).
+ * @returns undefined when the tenant has no current subscription.
+ */
+export async function getCurrentTenantPlan(tenant_id: string, client?: any): Promise<TenantPlan | undefined> {
+    const conn = client || await pool.connect();
+    try {
+        const res = await conn.query(
+            `SELECT p.plan_id, p.name, p.max_users, p.max_employees, p.features, s.end_date
+             FROM tenant_subscriptions s
+             JOIN subscription_plans p ON p.plan_id = s.plan_id
+             WHERE s.tenant_id = $1 AND s.status = 'ACTIVE' AND s.start_date <= NOW() AND s.end_date > NOW()
+             ORDER BY s.start_date DESC
+             LIMIT 1`,
+            [tenant_id]
+        );
+        if (res.rows.length === 0) return undefined;
+        const row = res.rows[0];
+        return {
+            planId: row.plan_id,
+            name: row.name,
+            maxUsers: row.max_users,
+            maxEmployees: row.max_employees,
+            features: parsePlanFeatures(row.features),
+            subscriptionEndDate: new Date(row.end_date).toISOString(),
+        };
+    } catch (err: any) {
+        console.error(`[DB getCurrentTenantPlan] Error fetching plan for tenant ${tenant_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_subscriptions" does not exist.');
+        }
+        throw err;
+    } finally {
+        if (!client) conn.release();
+    }
+}
+
+/** What counts against the plan limits. */
+export async function getPlanUsage(tenant_id: string, client?: any): Promise<PlanUsage> {
+    const conn = client || await pool.connect();
+    try {
+        const res = await conn.query(
+            `SELECT
+                (SELECT COUNT(*) FROM users WHERE tenant_id = $1 AND is_active = TRUE) AS users,
+                (SELECT COUNT(*) FROM employees WHERE tenant_id = $1 AND status <> 'Inactive') AS employees`,
+            [tenant_id]
+        );
+        return {
+            users: parseInt(res.rows[0].users, 10),
+            employees: parseInt(res.rows[0].employees, 10),
+        };
+    } catch (err: any) {
+        console.error(`[DB getPlanUsage] Error counting usage for tenant ${tenant_id}:`, err);
+        throw err;
+    } finally {
+        if (!client) conn.release();
+    }
+}
+
+// --- Billing ---
+
+const SUBSCRIPTION_SELECT = `
+    SELECT s.*, p.name AS plan_name, p.description AS plan_description, p.price, p.billing_cycle,
+           p.max_users, p.max_employees, p.features
+    FROM tenant_subscriptions s
+    JOIN subscription_plans p ON p.plan_id = s.plan_id
+`;
+
+function toDateString(value: any): string {
+    return new Date(value).toISOString();
+}
+
+function mapRowToPlan(row: any): SubscriptionPlan {
+    return {
+        planId: row.plan_id,
+        name: row.plan_name ?? row.name,
+        description: (row.plan_description ?? row.description) || null,
+        price: parseFloat(row.price),
+        billingCycle: row.billing_cycle,
+        maxUsers: row.max_users,
+        maxEmployees: row.max_employees,
+        features: parsePlanFeatures(row.features),
+    };
+}
+
+function mapRowToSubscription(row: any): TenantSubscription {
+    return {
+        subscriptionId: row.subscription_id,
+        tenantId: row.tenant_id,
+        plan: mapRowToPlan(row),
+        startDate: toDateString(row.start_date),
+        endDate: toDateString(row.end_date),
+        status: row.status,
+        paymentStatus: row.payment_status,
+        creditBalance: parseFloat(row.credit_balance),
+        billingAnchor: toDateString(row.billing_anchor ?? row.start_date),
+    };
+}
+
+function mapRowToInvoice(row: any): SubscriptionInvoice {
+    return {
+        id: row.invoice_id,
+        tenantId: row.tenant_id,
+        subscriptionId: row.subscription_id,
+        invoiceNumber: row.invoice_number,
+        kind: row.kind,
+        periodStart: row.period_start ? toDateString(row.period_start) : null,
+        periodEnd: row.period_end ? toDateString(row.period_end) : null,
+        currency: row.currency,
+        lineItems: (row.line_items || []).map((item: any) => ({ description: item.description, amount: Number(item.amount) })),
+        subtotal: parseFloat(row.subtotal),
+        creditApplied: parseFloat(row.credit_applied),
+        amount: parseFloat(row.amount),
+        dueDate: toDateString(row.due_date),
+        paidDate: row.paid_date ? toDateString(row.paid_date) : null,
+        status: row.status,
+        created_at: toDateString(row.created_at),
+    };
+}
+
+function mapRowToPayment(row: any): SubscriptionPayment {
+    return {
+        id: row.payment_id,
+        tenantId: row.tenant_id,
+        invoiceId: row.invoice_id,
+        gateway: row.gateway,
+        transactionId: row.transaction_id,
+        amount: parseFloat(row.amount),
+        currency: row.currency,
+        status: row.status,
+        failureReason: row.failure_reason ?? null,
+        created_at: toDateString(row.created_at),
+    };
+}
+
+/** Plans a company can subscribe or switch to, cheapest first. */
+export async function getActivePlans(): Promise<SubscriptionPlan[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query('SELECT * FROM subscription_plans WHERE is_active = TRUE ORDER BY price, name');
+        return res.rows.map(mapRowToPlan);
+    } catch (err: any) {
+        console.error('[DB getActivePlans] Error fetching plans:', err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "subscription_plans" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getPlanById(plan_id: string): Promise<SubscriptionPlan | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query('SELECT * FROM subscription_plans WHERE plan_id = $1', [plan_id]);
+        return res.rows.length > 0 ? mapRowToPlan(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error(`[DB getPlanById] Error fetching plan ${plan_id}:`, err);
+        if (err.code === '22P02') {
+            throw new Error('Invalid plan identifier.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** The tenant's current subscription (ACTIVE and within its start and end date), with its plan. */
+export async function getCurrentSubscription(tenant_id: string): Promise<TenantSubscription | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `${SUBSCRIPTION_SELECT}
+             WHERE s.tenant_id = $1 AND s.status = 'ACTIVE' AND s.start_date <= NOW() AND s.end_date > NOW()
+             ORDER BY s.start_date DESC
+             LIMIT 1`,
+            [tenant_id]
+        );
+        return res.rows.length > 0 ? mapRowToSubscription(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error(`[DB getCurrentSubscription] Error fetching subscription for tenant ${tenant_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** ACTIVE subscriptions of ACTIVE companies that have started; the billing run's work list. Needs system scope. */
+export async function getSubscriptionsForBilling(): Promise<TenantSubscription[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `${SUBSCRIPTION_SELECT}
+             JOIN tenants t ON t.tenant_id = s.tenant_id
+             WHERE s.status = 'ACTIVE' AND s.start_date <= NOW() AND t.status = 'ACTIVE'
+             ORDER BY s.start_date`
+        );
+        return res.rows.map(mapRowToSubscription);
+    } catch (err: any) {
+        console.error('[DB getSubscriptionsForBilling] Error fetching subscriptions:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** The end of the last billed period, or null when the subscription has never been invoiced. */
+export async function getLastBilledPeriodEnd(subscription_id: string): Promise<Date | null> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT MAX(period_end) AS period_end FROM subscription_invoices
+             WHERE subscription_id = $1 AND status <> 'CANCELLED'`,
+            [subscription_id]
+        );
+        return res.rows[0].period_end ? new Date(res.rows[0].period_end) : null;
+    } catch (err: any) {
+        console.error(`[DB getLastBilledPeriodEnd] Error for subscription ${subscription_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** The invoice whose billing period contains `date`, if any. */
+export async function getInvoiceForPeriod(subscription_id: string, date: Date): Promise<SubscriptionInvoice | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT * FROM subscription_invoices
+             WHERE subscription_id = $1 AND status <> 'CANCELLED' AND period_start <= $2 AND period_end > $2
+             ORDER BY period_start DESC
+             LIMIT 1`,
+            [subscription_id, date]
+        );
+        return res.rows.length > 0 ? mapRowToInvoice(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error(`[DB getInvoiceForPeriod] Error for subscription ${subscription_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export interface NewInvoiceData {
+    kind: InvoiceKind;
+    periodStart: Date;
+    periodEnd: Date;
+    currency: string;
+    lineItems: InvoiceLineItem[];
+    dueDate: Date;
+}
+
+/**
+ * Inserts an invoice, settling it against the subscription's account credit: credit is used up first,
+ * and a negative subtotal (a downgrade) is added to the credit instead. An invoice with nothing to pay is PAID.
+ * Must run inside the caller's transaction.
+ */
+async function insertInvoice(client: any, subscription_id: string, data: NewInvoiceData): Promise<SubscriptionInvoice> {
+    const sub = await client.query('SELECT tenant_id, credit_balance FROM tenant_subscriptions WHERE subscription_id = $1 FOR UPDATE', [subscription_id]);
+    if (sub.rows.length === 0) {
+        throw new Error('Subscription not found.');
+    }
+    const creditBalance = parseFloat(sub.rows[0].credit_balance);
+    const subtotal = Math.round(data.lineItems.reduce((sum, item) => sum + item.amount * 100, 0)) / 100;
+    const creditApplied = subtotal > 0 ? Math.min(creditBalance, subtotal) : 0;
+    const amount = Math.round((Math.max(subtotal, 0) - creditApplied) * 100) / 100;
+    const newCreditBalance = Math.round((creditBalance - creditApplied + Math.max(-subtotal, 0)) * 100) / 100;
+
+    const res = await client.query(
+        `INSERT INTO subscription_invoices
+            (tenant_id, subscription_id, invoice_number, kind, period_start, period_end, currency, line_items,
+             subtotal, credit_applied, amount, due_date, status, paid_date)
+         VALUES ($1, $2, 'INV-' || nextval('subscription_invoice_number_seq'), $3, $4, $5, $6, $7, $8, $9, $10, $11,
+                 CASE WHEN $10::numeric = 0 THEN 'PAID' ELSE 'PENDING' END, CASE WHEN $10::numeric = 0 THEN NOW() END)
+         RETURNING *`,
+        [sub.rows[0].tenant_id, subscription_id, data.kind, data.periodStart, data.periodEnd, data.currency,
+         JSON.stringify(data.lineItems), subtotal, creditApplied, amount, data.dueDate]
+    );
+    if (newCreditBalance !== creditBalance) {
+        await client.query('UPDATE tenant_subscriptions SET credit_balance = $2 WHERE subscription_id = $1', [subscription_id, newCreditBalance]);
+    }
+    await refreshSubscriptionPaymentStatus(client, subscription_id);
+    return mapRowToInvoice(res.rows[0]);
+}
+
+/** PAID when nothing is owed, FAILED while an invoice is overdue, PENDING otherwise. */
+async function refreshSubscriptionPaymentStatus(client: any, subscription_id: string): Promise<void> {
+    await client.query(
+        `UPDATE tenant_subscriptions s SET payment_status = CASE
+             WHEN EXISTS (SELECT 1 FROM subscription_invoices i WHERE i.subscription_id = s.subscription_id AND i.status = 'OVERDUE') THEN 'FAILED'
+             WHEN EXISTS (SELECT 1 FROM subscription_invoices i WHERE i.subscription_id = s.subscription_id AND i.status = 'PENDING') THEN 'PENDING'
+             ELSE 'PAID' END
+         WHERE s.subscription_id = $1`,
+        [subscription_id]
+    );
+}
+
+/**
+ * Creates the invoice for one billing period.
+ * @returns undefined when the period was already invoiced (e.g. by a concurrent billing run).
+ */
+export async function createRenewalInvoice(subscription_id: string, data: Omit<NewInvoiceData, 'kind'>): Promise<SubscriptionInvoice | undefined> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const invoice = await insertInvoice(client, subscription_id, { ...data, kind: 'RENEWAL' });
+        await client.query('COMMIT');
+        return invoice;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        if (err.code === '23505') {
+            console.log(`[DB createRenewalInvoice] Period starting ${data.periodStart.toISOString()} of subscription ${subscription_id} is already invoiced.`);
+            return undefined;
+        }
+        console.error(`[DB createRenewalInvoice] Error invoicing subscription ${subscription_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** Moves the subscription to another plan and bills the change, in one transaction. */
+export async function changeSubscriptionPlan(subscription: TenantSubscription, newPlan: SubscriptionPlan, invoiceData: Omit<NewInvoiceData, 'kind'>): Promise<SubscriptionInvoice> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        await client.query(
+            'UPDATE tenant_subscriptions SET plan_id = $2, billing_anchor = $3 WHERE subscription_id = $1',
+            [subscription.subscriptionId, newPlan.planId, invoiceData.periodStart]
+        );
+        const invoice = await insertInvoice(client, subscription.subscriptionId, { ...invoiceData, kind: 'PLAN_CHANGE' });
+        await recordAuditEvent(client, {
+            tenantId: subscription.tenantId, entityType: 'subscription', entityId: subscription.subscriptionId, entityLabel: newPlan.name,
+            action: 'update', changes: diffForAudit({ plan: subscription.plan.name }, { plan: newPlan.name }),
+        });
+        await client.query('COMMIT');
+        return invoice;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB changeSubscriptionPlan] Error changing plan of subscription ${subscription.subscriptionId}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getInvoicesForTenant(tenant_id: string): Promise<SubscriptionInvoice[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query('SELECT * FROM subscription_invoices WHERE tenant_id = $1 ORDER BY created_at DESC, invoice_number DESC', [tenant_id]);
+        return res.rows.map(mapRowToInvoice);
+    } catch (err: any) {
+        console.error(`[DB getInvoicesForTenant] Error fetching invoices for tenant ${tenant_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "subscription_invoices" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getInvoiceById(invoice_id: string, tenant_id: string): Promise<SubscriptionInvoice | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query('SELECT * FROM subscription_invoices WHERE invoice_id = $1 AND tenant_id = $2', [invoice_id, tenant_id]);
+        return res.rows.length > 0 ? mapRowToInvoice(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error(`[DB getInvoiceById] Error fetching invoice ${invoice_id}:`, err);
+        if (err.code === '22P02') {
+            throw new Error('Invalid invoice identifier.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** PENDING invoices past their due date become OVERDUE. @returns The invoices marked overdue. Needs system scope. */
+export async function markOverdueInvoices(): Promise<SubscriptionInvoice[]> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const res = await client.query(
+            `UPDATE subscription_invoices SET status = 'OVERDUE'
+             WHERE status = 'PENDING' AND due_date < NOW()
+             RETURNING *`
+        );
+        const subscriptionIds = new Set<string>(res.rows.map((row: any) => row.subscription_id));
+        for (const subscriptionId of subscriptionIds) {
+            await refreshSubscriptionPaymentStatus(client, subscriptionId);
+        }
+        await client.query('COMMIT');
+        return res.rows.map(mapRowToInvoice);
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error('[DB markOverdueInvoices] Error marking overdue invoices:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function addPayment(paymentData: {
+    tenant_id: string;
+    invoice_id: string;
+    gateway: string;
+    transaction_id: string;
+    amount: number;
+    currency: string;
+    status: SubscriptionPayment['status'];
+    failure_reason?: string | null;
+}): Promise<SubscriptionPayment> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `INSERT INTO subscription_payments (tenant_id, invoice_id, gateway, transaction_id, amount, currency, status, failure_reason)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+             RETURNING *`,
+            [paymentData.tenant_id, paymentData.invoice_id, paymentData.gateway, paymentData.transaction_id,
+             paymentData.amount, paymentData.currency, paymentData.status, paymentData.failure_reason ?? null]
+        );
+        return mapRowToPayment(res.rows[0]);
+    } catch (err: any) {
+        console.error(`[DB addPayment] Error recording payment for invoice ${paymentData.invoice_id}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "subscription_payments" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** Whether the invoice has a payment still waiting for the gateway to settle it. */
+export async function hasPendingPayment(invoice_id: string): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(`SELECT 1 FROM subscription_payments WHERE invoice_id = $1 AND status = 'PENDING' LIMIT 1`, [invoice_id]);
+        return res.rows.length > 0;
+    } catch (err: any) {
+        console.error(`[DB hasPendingPayment] Error for invoice ${invoice_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Settles a PENDING payment with the gateway's outcome; a successful payment marks its invoice paid.
+ * @returns The settled payment, or undefined when it is unknown or already settled (webhooks are retried).
+ */
+export async function settlePayment(gateway: string, transaction_id: string, outcome: { status: 'SUCCEEDED' | 'FAILED'; failureReason?: string | null }): Promise<SubscriptionPayment | undefined> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const res = await client.query(
+            `UPDATE subscription_payments SET status = $3, failure_reason = $4
+             WHERE gateway = $1 AND transaction_id = $2 AND status = 'PENDING'
+             RETURNING *`,
+            [gateway, transaction_id, outcome.status, outcome.failureReason ?? null]
+        );
+        if (res.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return undefined;
+        }
+        const payment = mapRowToPayment(res.rows[0]);
+        if (payment.status === 'SUCCEEDED') {
+            const invoice = await client.query(
+                `UPDATE subscription_invoices SET status = 'PAID', paid_date = NOW()
+                 WHERE invoice_id = $1 AND status IN ('PENDING', 'OVERDUE')
+                 RETURNING subscription_id`,
+                [payment.invoiceId]
+            );
+            if (invoice.rows.length > 0) {
+                await refreshSubscriptionPaymentStatus(client, invoice.rows[0].subscription_id);
+            }
+        }
+        await client.query('COMMIT');
+        return payment;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB settlePayment] Error settling ${gateway} transaction ${transaction_id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
@@ -0,0 +1,54 @@
+// src/modules/subscriptions/lib/entitlements.ts
+// What a tenant's subscription plan allows. Tenants without a current subscription (e.g. installations
+// that do not sell plans) are not restricted: every feature is available and there are no limits.
+import type { PermissionKey } from '@/modules/roles/types';
+import type { PlanFeatureDefinition, PlanFeatureKey, PlanLimitKind } from '@/modules/subscriptions/types';
+import { PLAN_FEATURE_REGISTRY } from '@/modules/subscriptions/types';
+import { getCurrentTenantPlan, getPlanUsage } from '@/modules/subscriptions/lib/db';
+
+/** The plan feature that gates a permission, if any. */
+export function getFeatureForPermission(permission: PermissionKey): PlanFeatureDefinition | undefined {
+    return PLAN_FEATURE_REGISTRY.find(feature => (feature.permissions as readonly PermissionKey[]).includes(permission));
+}
+
+export async function hasFeature(tenantId: string, key: PlanFeatureKey): Promise<boolean> {
+    const plan = await getCurrentTenantPlan(tenantId);
+    return !plan || plan.features.includes(key);
+}
+
+/** Removes the permissions of features missing from the tenant's plan. */
+export async function filterPermissionsByPlan(tenantId: string, permissions: PermissionKey[]): Promise<PermissionKey[]> {
+    const plan = await getCurrentTenantPlan(tenantId);
+    if (!plan) return permissions;
+    return permissions.filter(permission => {
+        const feature = getFeatureForPermission(permission);
+        return !feature || plan.features.includes(feature.key);
+    });
+}
+
+/** Features missing from the tenant's plan; empty when the tenant has no subscription. */
+export async function getUnavailableFeatures(tenantId: string): Promise<PlanFeatureKey[]> {
+    const plan = await getCurrentTenantPlan(tenantId);
+    if (!plan) return [];
+    return PLAN_FEATURE_REGISTRY.map(feature => feature.key).filter(key => !plan.features.includes(key));
+}
+
+/**
+ * Checks whether adding `count` more of each kind stays within the tenant's plan.
+ * Pass `client` to count inside the caller's transaction.
+ * @returns An upgrade message for the first limit that would be exceeded, or null.
+ */
+export async function getPlanLimitError(tenantId: string, kinds: PlanLimitKind[], count: number = 1, client?: any): Promise<string | null> {
+    const plan = await getCurrentTenantPlan(tenantId, client);
+    if (!plan) return null;
+    const usage = await getPlanUsage(tenantId, client);
+    for (const kind of kinds) {
+        const limit = kind === 'users' ? plan.maxUsers : plan.maxEmployees;
+        if (usage[kind] + count > limit) {
+            console.warn(`[getPlanLimitError] Tenant ${tenantId} at ${kind} limit of plan ${plan.name}: ${usage[kind]}/${limit}.`);
+            const noun = kind === 'users' ? 'active user accounts' : 'employees';
+            return `Your ${plan.name} plan allows up to ${limit} ${noun}, and your company already has ${usage[kind]}. Upgrade your plan or deactivate ${noun} you no longer need.`;
+        }
+    }
+    return null;
+}
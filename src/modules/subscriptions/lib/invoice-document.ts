@@ -0,0 +1,63 @@
+// src/modules/subscriptions/lib/invoice-document.ts
+// Standalone HTML invoice for download; it prints cleanly, so the browser's "Save as PDF" gives a PDF copy.
+import { format, parseISO } from 'date-fns';
+import type { SubscriptionInvoice } from '@/modules/subscriptions/types';
+import type { Tenant } from '@/modules/auth/types';
+import { escapeHtml } from '@/lib/html';
+
+function formatDate(iso: string): string {
+    return format(parseISO(iso), 'd MMM yyyy');
+}
+
+export function formatMoney(amount: number, currency: string): string {
+    try {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+    } catch {
+        return `${amount.toFixed(2)} ${currency}`;
+    }
+}
+
+export function renderInvoiceHtml(invoice: SubscriptionInvoice, tenant: Tenant): string {
+    const money = (amount: number) => escapeHtml(formatMoney(amount, invoice.currency));
+    const lines = invoice.lineItems.map(item =>
+        `<tr><td>${escapeHtml(item.description)}</td><td class="num">${money(item.amount)}</td></tr>`
+    ).join('');
+    const credit = invoice.creditApplied > 0
+        ? `<tr><td>Account credit applied</td><td class="num">${money(-invoice.creditApplied)}</td></tr>`
+        : '';
+    const paid = invoice.paidDate ? `<p><strong>Paid:</strong> ${formatDate(invoice.paidDate)}</p>` : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; color: #1f2937; max-width: 720px; margin: 40px auto; padding: 0 24px; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+  th, td { text-align: left; padding: 8px; border-bottom: 1px solid #e5e7eb; }
+  .num { text-align: right; white-space: nowrap; }
+  .total td { font-weight: bold; border-bottom: none; }
+  .status { display: inline-block; padding: 2px 8px; border: 1px solid #9ca3af; border-radius: 4px; font-size: 12px; }
+</style>
+</head>
+<body>
+  <h1>Invoice ${escapeHtml(invoice.invoiceNumber)}</h1>
+  <span class="status">${escapeHtml(invoice.status)}</span>
+  <p><strong>Billed to:</strong> ${escapeHtml(tenant.name)} (${escapeHtml(tenant.subdomain)})</p>
+  <p><strong>Invoice date:</strong> ${formatDate(invoice.created_at)}<br>
+     <strong>Due date:</strong> ${formatDate(invoice.dueDate)}</p>
+  ${paid}
+  <table>
+    <thead><tr><th>Description</th><th class="num">Amount</th></tr></thead>
+    <tbody>
+      ${lines}
+      <tr><td>Subtotal</td><td class="num">${money(invoice.subtotal)}</td></tr>
+      ${credit}
+      <tr class="total"><td>Amount due</td><td class="num">${money(invoice.amount)}</td></tr>
+    </tbody>
+  </table>
+</body>
+</html>`;
+}
@@ -0,0 +1,114 @@
+import type { PermissionKey } from '@/modules/roles/types';
+
+// --- Plan Features ---
+// Modules a subscription plan can include, listed in `subscription_plans.features` by key
+// (either `["recruitment", "payroll"]` or `{"recruitment": true}`). A feature's permissions are removed
+// from every user of a tenant whose plan does not include it, which hides and blocks the module.
+export const PLAN_FEATURE_REGISTRY = [
+  { key: 'recruitment', name: 'Recruitment', permissions: ['recruitment.manage'] },
+  { key: 'payroll', name: 'Payroll', permissions: ['payroll.view'] },
+  { key: 'ai_resume_parser', name: 'AI resume parsing', permissions: ['ai.resume_parser'] },
+] as const satisfies readonly { key: string; name: string; permissions: readonly PermissionKey[] }[];
+
+export type PlanFeatureKey = typeof PLAN_FEATURE_REGISTRY[number]['key'];
+export type PlanFeatureDefinition = typeof PLAN_FEATURE_REGISTRY[number];
+
+export function getPlanFeature(key: PlanFeatureKey): PlanFeatureDefinition {
+  return PLAN_FEATURE_REGISTRY.find(feature => feature.key === key)!;
+}
+
+export function planFeatureUnavailableMessage(feature: PlanFeatureDefinition): string {
+  return `${feature.name} is not included in your company's subscription plan. Upgrade your plan to use it.`;
+}
+
+// --- Plans ---
+export interface TenantPlan {
+  planId: string;
+  name: string;
+  maxUsers: number;
+  maxEmployees: number;
+  features: PlanFeatureKey[];
+  subscriptionEndDate: string;
+}
+
+export type PlanLimitKind = 'users' | 'employees';
+
+export interface PlanUsage {
+  users: number; // Active user accounts
+  employees: number; // Employees whose status is not Inactive
+}
+
+// --- Billing ---
+export type BillingCycle = 'MONTHLY' | 'QUARTERLY' | 'YEARLY';
+
+export const BILLING_CYCLE_MONTHS: Record<BillingCycle, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  YEARLY: 12,
+};
+
+export const INVOICE_PAYMENT_TERMS_DAYS = 14; // Days after the invoice date before an unpaid invoice is overdue
+
+export interface SubscriptionPlan {
+  planId: string;
+  name: string;
+  description: string | null;
+  price: number;
+  billingCycle: BillingCycle;
+  maxUsers: number;
+  maxEmployees: number;
+  features: PlanFeatureKey[];
+}
+
+export interface TenantSubscription {
+  subscriptionId: string;
+  tenantId: string;
+  plan: SubscriptionPlan;
+  startDate: string;
+  endDate: string;
+  status: 'ACTIVE' | 'CANCELLED' | 'EXPIRED';
+  paymentStatus: 'PENDING' | 'PAID' | 'FAILED';
+  creditBalance: number;
+  billingAnchor: string; // Billing periods end whole cycles after this date; reset by a plan change
+}
+
+export type InvoiceStatus = 'PENDING' | 'PAID' | 'OVERDUE' | 'CANCELLED';
+// RENEWAL bills a billing period; PLAN_CHANGE bills a new plan from the change, less unused time on the old one
+export type InvoiceKind = 'RENEWAL' | 'PLAN_CHANGE';
+
+export interface InvoiceLineItem {
+  description: string;
+  amount: number; // Negative for credits
+}
+
+export interface SubscriptionInvoice {
+  id: string;
+  tenantId: string;
+  subscriptionId: string;
+  invoiceNumber: string;
+  kind: InvoiceKind;
+  periodStart: string | null; // null for invoices created before billing periods were recorded
+  periodEnd: string | null;
+  currency: string;
+  lineItems: InvoiceLineItem[];
+  subtotal: number;
+  creditApplied: number;
+  amount: number; // Amount due: subtotal less account credit
+  dueDate: string;
+  paidDate: string | null;
+  status: InvoiceStatus;
+  created_at: string;
+}
+
+export interface SubscriptionPayment {
+  id: string;
+  tenantId: string;
+  invoiceId: string;
+  gateway: string;
+  transactionId: string;
+  amount: number;
+  currency: string;
+  status: 'PENDING' | 'SUCCEEDED' | 'FAILED';
+  failureReason: string | null;
+  created_at: string;
+}
@@ -0,0 +1,257 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import type { CustomDomain, CustomDomainFormData, TenantConfig, TenantConfigUpdate, TenantBranding, BrandingUpdate, TenantDataExport } from '@/modules/tenants/types';
+import { customDomainFormSchema, tenantConfigUpdateSchema, brandingUpdateSchema } from '@/modules/tenants/types';
+import type { AuditEvent } from '@/modules/audit/types';
+import {
+  getCustomDomain as dbGetCustomDomain,
+  claimCustomDomain as dbClaimCustomDomain,
+  recordCustomDomainCheck as dbRecordCustomDomainCheck,
+  removeCustomDomain as dbRemoveCustomDomain,
+} from '@/modules/tenants/lib/db';
+import { checkCustomDomainOwnership } from '@/modules/tenants/lib/domain-verification';
+import { getTenantConfig, updateTenantConfig, getTenantConfigHistory } from '@/modules/tenants/lib/config';
+import { getTenantBranding, updateTenantBranding } from '@/modules/tenants/lib/branding';
+import { createDataExport, getDataExports, runDataExport } from '@/modules/tenants/lib/data-export';
+import { generateSecureToken } from '@/modules/auth/lib/utils';
+import { requirePermission, sendDataExportEmail } from '@/modules/auth/actions';
+import { forgetCustomDomain } from '@/lib/tenant-context';
+
+export async function getCustomDomainAction(): Promise<{ success: boolean; customDomain?: CustomDomain | null; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('settings.manage');
+  } catch {
+    return { success: false, error: 'Unauthorized to view company settings.' };
+  }
+
+  try {
+    return { success: true, customDomain: (await dbGetCustomDomain(session.tenantId)) ?? null };
+  } catch (error: any) {
+    console.error("[Action getCustomDomainAction] Error fetching custom domain:", error);
+    return { success: false, error: error.message || 'Failed to load the custom domain.' };
+  }
+}
+
+/**
+ * Starts connecting a custom domain. It only serves the company after `verifyCustomDomainAction`
+ * finds the returned TXT record; a previously connected domain stops working right away.
+ */
+export async function setCustomDomainAction(formData: CustomDomainFormData): Promise<{ success: boolean; customDomain?: CustomDomain; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('settings.manage');
+  } catch {
+    return { success: false, error: 'Unauthorized to change company settings.' };
+  }
+
+  const validation = customDomainFormSchema.safeParse(formData);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0]?.message || 'Invalid domain.' };
+  }
+  const { domain } = validation.data;
+  const rootDomain = (process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost').toLowerCase();
+  if (domain === rootDomain || domain.endsWith(`.${rootDomain}`)) {
+    return { success: false, error: `Subdomains of ${rootDomain} cannot be used as a custom domain.` };
+  }
+
+  try {
+    const previous = await dbGetCustomDomain(session.tenantId);
+    const customDomain = await dbClaimCustomDomain(session.tenantId, domain, generateSecureToken(24));
+    if (previous) forgetCustomDomain(previous.domain);
+    console.log(`[Action setCustomDomainAction] User ${session.userId} set custom domain ${domain} for tenant ${session.tenantId}${previous ? ` (replacing ${previous.domain})` : ''}.`);
+    revalidatePath(`/${session.tenantDomain}/settings`);
+    return { success: true, customDomain };
+  } catch (error: any) {
+    console.error("[Action setCustomDomainAction] Error setting custom domain:", error);
+    return { success: false, error: error.message || 'Failed to save the custom domain.' };
+  }
+}
+
+/** Checks the verification TXT record now and, when it matches, starts serving the company on the domain. */
+export async function verifyCustomDomainAction(): Promise<{ success: boolean; customDomain?: CustomDomain; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('settings.manage');
+  } catch {
+    return { success: false, error: 'Unauthorized to change company settings.' };
+  }
+
+  try {
+    const customDomain = await dbGetCustomDomain(session.tenantId);
+    if (!customDomain) {
+      return { success: false, error: 'No custom domain has been added.' };
+    }
+    const result = await checkCustomDomainOwnership(customDomain);
+    const saved = await dbRecordCustomDomainCheck(session.tenantId, result);
+    if (!saved) {
+      return { success: false, error: 'No custom domain has been added.' };
+    }
+    forgetCustomDomain(saved.domain);
+    console.log(`[Action verifyCustomDomainAction] Ownership check of ${saved.domain} for tenant ${session.tenantId}: ${result.verified ? 'verified' : result.error}`);
+    revalidatePath(`/${session.tenantDomain}/settings`);
+    return result.verified ? { success: true, customDomain: saved } : { success: false, customDomain: saved, error: result.error };
+  } catch (error: any) {
+    console.error("[Action verifyCustomDomainAction] Error verifying custom domain:", error);
+    return { success: false, error: error.message || 'Failed to verify the custom domain.' };
+  }
+}
+
+/** Disconnects the custom domain; the company is served on its subdomain only. */
+export async function removeCustomDomainAction(): Promise<{ success: boolean; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('settings.manage');
+  } catch {
+    return { success: false, error: 'Unauthorized to change company settings.' };
+  }
+
+  try {
+    const removed = await dbRemoveCustomDomain(session.tenantId);
+    if (!removed) {
+      return { success: false, error: 'No custom domain has been added.' };
+    }
+    forgetCustomDomain(removed.domain);
+    console.log(`[Action removeCustomDomainAction] User ${session.userId} removed custom domain ${removed.domain} from tenant ${session.tenantId}.`);
+    revalidatePath(`/${session.tenantDomain}/settings`);
+    return { success: true };
+  } catch (error: any) {
+    console.error("[Action removeCustomDomainAction] Error removing custom domain:", error);
+    return { success: false, error: error.message || 'Failed to remove the custom domain.' };
+  }
+}
+
+// --- Company Settings ---
+
+export async function getCompanySettingsAction(): Promise<{ success: boolean; config?: TenantConfig; history?: AuditEvent[]; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('settings.manage');
+  } catch {
+    return { success: false, error: 'Unauthorized to view company settings.' };
+  }
+
+  try {
+    const [config, history] = await Promise.all([getTenantConfig(session.tenantId), getTenantConfigHistory(session.tenantId)]);
+    return { success: true, config, history };
+  } catch (error: any) {
+    console.error("[Action getCompanySettingsAction] Error fetching company settings:", error);
+    return { success: false, error: error.message || 'Failed to load company settings.' };
+  }
+}
+
+/** Saves the given company settings; settings left out keep their value. */
+export async function updateCompanySettingsAction(data: TenantConfigUpdate): Promise<{ success: boolean; config?: TenantConfig; history?: AuditEvent[]; errors?: z.ZodIssue[] | { path: (string | number)[]; message: string }[] }> {
+  let session;
+  try {
+    session = await requirePermission('settings.manage');
+  } catch {
+    return { success: false, errors: [{ path: ['root'], message: 'Unauthorized to change company settings.' }] };
+  }
+
+  const validation = tenantConfigUpdateSchema.safeParse(data);
+  if (!validation.success) {
+    return { success: false, errors: validation.error.errors };
+  }
+
+  try {
+    const config = await updateTenantConfig(session.tenantId, validation.data);
+    console.log(`[Action updateCompanySettingsAction] User ${session.userId} saved company settings for tenant ${session.tenantId}.`);
+    revalidatePath(`/${session.tenantDomain}/settings`);
+    return { success: true, config, history: await getTenantConfigHistory(session.tenantId) };
+  } catch (error: any) {
+    console.error("[Action updateCompanySettingsAction] Error saving company settings:", error);
+    return { success: false, errors: [{ path: ['root'], message: error.message || 'Failed to save company settings.' }] };
+  }
+}
+
+// --- Branding ---
+
+export async function getBrandingAction(): Promise<{ success: boolean; branding?: TenantBranding; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('settings.manage');
+  } catch {
+    return { success: false, error: 'Unauthorized to view company settings.' };
+  }
+
+  try {
+    return { success: true, branding: await getTenantBranding(session.tenantId) };
+  } catch (error: any) {
+    console.error("[Action getBrandingAction] Error fetching branding:", error);
+    return { success: false, error: error.message || 'Failed to load branding.' };
+  }
+}
+
+/** Saves brand colors and uploaded logo/favicon files (as data URLs); null removes a file. */
+export async function updateBrandingAction(data: BrandingUpdate): Promise<{ success: boolean; branding?: TenantBranding; errors?: z.ZodIssue[] | { path: (string | number)[]; message: string }[] }> {
+  let session;
+  try {
+    session = await requirePermission('settings.manage');
+  } catch {
+    return { success: false, errors: [{ path: ['root'], message: 'Unauthorized to change company settings.' }] };
+  }
+
+  const validation = brandingUpdateSchema.safeParse(data);
+  if (!validation.success) {
+    return { success: false, errors: validation.error.errors };
+  }
+
+  try {
+    const branding = await updateTenantBranding(session.tenantId, validation.data);
+    console.log(`[Action updateBrandingAction] User ${session.userId} saved branding for tenant ${session.tenantId}.`);
+    revalidatePath(`/${session.tenantDomain}`, 'layout');
+    revalidatePath('/jobs', 'layout');
+    return { success: true, branding };
+  } catch (error: any) {
+    console.error("[Action updateBrandingAction] Error saving branding:", error);
+    return { success: false, errors: [{ path: ['root'], message: error.message || 'Failed to save branding.' }] };
+  }
+}
+
+// --- Data Export ---
+
+export async function getDataExportsAction(): Promise<{ success: boolean; exports?: TenantDataExport[]; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('settings.manage');
+  } catch {
+    return { success: false, error: 'Unauthorized to view company settings.' };
+  }
+
+  try {
+    return { success: true, exports: await getDataExports(session.tenantId) };
+  } catch (error: any) {
+    console.error("[Action getDataExportsAction] Error fetching data exports:", error);
+    return { success: false, error: error.message || 'Failed to load data exports.' };
+  }
+}
+
+/**
+ * Starts a full export of the company's data. It is built in the background and the requester is emailed
+ * a download link when it is ready. Exports left queued by a restart are picked up by `npm run exports:run`.
+ */
+export async function requestDataExportAction(): Promise<{ success: boolean; dataExport?: TenantDataExport; error?: string }> {
+  let session;
+  try {
+    session = await requirePermission('settings.manage');
+  } catch {
+    return { success: false, error: 'Unauthorized to export company data.' };
+  }
+
+  try {
+    const tenantId = session.tenantId;
+    const dataExport = await createDataExport(tenantId, { userId: session.userId, name: session.username });
+    console.log(`[Action requestDataExportAction] User ${session.userId} requested data export ${dataExport.id} for tenant ${tenantId}.`);
+    runDataExport(tenantId, dataExport.id)
+      .then(() => sendDataExportEmail(tenantId, dataExport.id))
+      .catch(error => console.error(`[Action requestDataExportAction] Background export ${dataExport.id} failed:`, error));
+    revalidatePath(`/${session.tenantDomain}/settings`);
+    return { success: true, dataExport };
+  } catch (error: any) {
+    console.error("[Action requestDataExportAction] Error requesting data export:", error);
+    return { success: false, error: error.message || 'Failed to start the data export.' };
+  }
+}
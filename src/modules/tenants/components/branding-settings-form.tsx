@@ -0,0 +1,244 @@
+"use client";
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { ImageIcon, Loader2, RotateCcw, Save, Trash2, Upload } from 'lucide-react';
+import { updateBrandingAction } from '@/modules/tenants/actions';
+import {
+  BRANDING_ASSET_RULES,
+  brandingAssetPath,
+  brandingColorsSchema,
+  type BrandingAssetKind,
+  type BrandingColors,
+  type TenantBranding,
+} from '@/modules/tenants/types';
+import { brandingThemeCss, renderBrandedEmailHtml } from '@/modules/tenants/lib/branding-theme';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+
+interface BrandingSettingsFormProps {
+  initialBranding: TenantBranding;
+  companyName: string;
+  tenantDomain: string; // Subdomain, for the URLs of the saved files
+}
+
+// Colors shown in the pickers while the built-in theme color is in use
+const THEME_COLORS: Record<keyof BrandingColors, string> = { primaryColor: '#3b82f6', accentColor: '#e3e6ea' };
+
+const colorFields: { name: keyof BrandingColors; label: string; description: string }[] = [
+  { name: 'primaryColor', label: 'Primary color', description: 'Buttons, links, focus rings and the active menu item.' },
+  { name: 'accentColor', label: 'Accent color', description: 'Highlighted and hovered items, and the email footer.' },
+];
+
+const assetFields: { kind: BrandingAssetKind; label: string; description: string }[] = [
+  { kind: 'logo', label: 'Logo', description: 'Shown in the app menu, on the careers pages and in emails. A wide image about 40 px high works best.' },
+  { kind: 'favicon', label: 'Favicon', description: 'Browser tab icon. A square PNG or ICO of 32 × 32 or 64 × 64 px.' },
+];
+
+function formatAllowedTypes(kind: BrandingAssetKind): string {
+  return BRANDING_ASSET_RULES[kind].contentTypes.map(type => type.replace('image/', '').replace('x-icon', 'ico').toUpperCase()).join(', ');
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the file.'));
+    reader.readAsDataURL(file);
+  });
+}
+
+export function BrandingSettingsForm({ initialBranding, companyName, tenantDomain }: BrandingSettingsFormProps) {
+  const { toast } = useToast();
+  const router = useRouter();
+  const [branding, setBranding] = React.useState(initialBranding);
+  const [colors, setColors] = React.useState<BrandingColors>({ primaryColor: initialBranding.primaryColor, accentColor: initialBranding.accentColor });
+  // Pending file changes: a data URL for a new file, null to remove it; absent keys keep the saved file
+  const [uploads, setUploads] = React.useState<Partial<Record<BrandingAssetKind, string | null>>>({});
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const colorErrors = React.useMemo<Partial<Record<keyof BrandingColors, string>>>(() => {
+    const result = brandingColorsSchema.safeParse(colors);
+    return result.success ? {} : Object.fromEntries(result.error.errors.map(err => [err.path[0], err.message]));
+  }, [colors]);
+  const validColors: BrandingColors = {
+    primaryColor: colorErrors.primaryColor ? branding.primaryColor : colors.primaryColor,
+    accentColor: colorErrors.accentColor ? branding.accentColor : colors.accentColor,
+  };
+
+  const assetPreviewUrl = (kind: BrandingAssetKind): string | null => {
+    if (kind in uploads) return uploads[kind] ?? null;
+    const saved = branding[kind];
+    return saved ? brandingAssetPath(tenantDomain, saved) : null;
+  };
+  const logoUrl = assetPreviewUrl('logo');
+  const faviconUrl = assetPreviewUrl('favicon');
+
+  const isDirty = colors.primaryColor !== branding.primaryColor || colors.accentColor !== branding.accentColor || Object.keys(uploads).length > 0;
+
+  const handleFileChange = async (kind: BrandingAssetKind, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allows picking the same file again
+    if (!file) return;
+    const rules = BRANDING_ASSET_RULES[kind];
+    if (file.type && !rules.contentTypes.includes(file.type === 'image/vnd.microsoft.icon' ? 'image/x-icon' : file.type)) {
+      toast({ title: "File Not Accepted", description: `Use one of: ${formatAllowedTypes(kind)}.`, variant: "destructive" });
+      return;
+    }
+    if (file.size > rules.maxBytes) {
+      toast({ title: "File Too Large", description: `The ${kind} must be ${Math.round(rules.maxBytes / 1024)} KB or smaller.`, variant: "destructive" });
+      return;
+    }
+    try {
+      const dataUrl = await readAsDataUrl(file);
+      setUploads(current => ({ ...current, [kind]: dataUrl }));
+    } catch (error: any) {
+      console.error("[Branding Form] File read error:", error);
+      toast({ title: "File Not Read", description: error.message || "Could not read the file.", variant: "destructive" });
+    }
+  };
+
+  const removeAsset = (kind: BrandingAssetKind) => {
+    setUploads(current => {
+      const next = { ...current };
+      if (branding[kind]) next[kind] = null;
+      else delete next[kind];
+      return next;
+    });
+  };
+
+  const resetChanges = () => {
+    setColors({ primaryColor: branding.primaryColor, accentColor: branding.accentColor });
+    setUploads({});
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await updateBrandingAction({ ...colors, ...uploads });
+      if (!result.success || !result.branding) {
+        toast({ title: "Branding Not Saved", description: result.errors?.[0]?.message || "Failed to save branding.", variant: "destructive" });
+        return;
+      }
+      setBranding(result.branding);
+      setColors({ primaryColor: result.branding.primaryColor, accentColor: result.branding.accentColor });
+      setUploads({});
+      toast({ title: "Branding Saved", description: "Your logo and colors are now used in the app, on the careers pages and in emails.", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" });
+      router.refresh(); // Re-renders the app shell with the new look
+    } catch (error: any) {
+      console.error("[Branding Form] Save error:", error);
+      toast({ title: "Branding Not Saved", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const emailPreviewHtml = renderBrandedEmailHtml({
+    bodyHtml: '<p>Hello Alex,</p><p>This is how emails from your company look, for example account invitations. <a href="#">Links</a> use your primary color.</p>',
+    companyName,
+    logoSrc: logoUrl,
+    colors: validColors,
+  });
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          {colorFields.map(({ name, label, description }) => (
+            <div key={name} className="space-y-2">
+              <Label htmlFor={`branding-${name}`}>{label}</Label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  aria-label={`${label} picker`}
+                  className="h-10 w-12 cursor-pointer rounded-md border bg-transparent p-1"
+                  value={colorErrors[name] ? THEME_COLORS[name] : (colors[name] ?? THEME_COLORS[name])}
+                  onChange={event => setColors(current => ({ ...current, [name]: event.target.value }))}
+                />
+                <Input
+                  id={`branding-${name}`}
+                  value={colors[name] ?? ''}
+                  placeholder="Built-in"
+                  maxLength={7}
+                  onChange={event => setColors(current => ({ ...current, [name]: event.target.value.trim() || null }))}
+                />
+                <Button type="button" variant="ghost" size="icon" onClick={() => setColors(current => ({ ...current, [name]: null }))} disabled={!colors[name]} aria-label={`Use the built-in ${label.toLowerCase()}`} title="Use the built-in color">
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className={colorErrors[name] ? "text-sm text-destructive" : "text-sm text-muted-foreground"}>{colorErrors[name] || description}</p>
+            </div>
+          ))}
+        </div>
+
+        {assetFields.map(({ kind, label, description }) => {
+          const previewUrl = assetPreviewUrl(kind);
+          const inputId = `branding-${kind}-file`;
+          return (
+            <div key={kind} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label htmlFor={inputId}>{label}</Label>
+                {kind in uploads && <Badge variant="secondary">{uploads[kind] ? 'New file, not saved' : 'Removed, not saved'}</Badge>}
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex h-12 min-w-12 items-center justify-center rounded-md border bg-muted px-2">
+                  {previewUrl ? <img src={previewUrl} alt={`${label} preview`} className="h-8 max-w-[10rem] object-contain" /> : <ImageIcon className="h-5 w-5 text-muted-foreground" />}
+                </div>
+                <input id={inputId} type="file" accept={BRANDING_ASSET_RULES[kind].contentTypes.join(',')} className="hidden" onChange={event => handleFileChange(kind, event)} />
+                <Button type="button" variant="outline" size="sm" onClick={() => document.getElementById(inputId)?.click()} disabled={isSaving}>
+                  <Upload className="mr-2 h-4 w-4" /> {previewUrl ? 'Replace' : 'Upload'}
+                </Button>
+                {previewUrl && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => removeAsset(kind)} disabled={isSaving}>
+                    <Trash2 className="mr-2 h-4 w-4" /> Remove
+                  </Button>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {description} {formatAllowedTypes(kind)}, up to {Math.round(BRANDING_ASSET_RULES[kind].maxBytes / 1024)} KB.
+              </p>
+            </div>
+          );
+        })}
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" onClick={handleSave} disabled={isSaving || !isDirty || Object.keys(colorErrors).length > 0}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Branding
+          </Button>
+          <Button type="button" variant="outline" onClick={resetChanges} disabled={isSaving || !isDirty}>Discard Changes</Button>
+        </div>
+      </div>
+
+      {/* Preview of the unsaved changes; the theme variables are overridden for this panel only */}
+      <div className="space-y-3">
+        <p className="text-sm font-medium">Preview</p>
+        <style>{brandingThemeCss(validColors, '.branding-preview')}</style>
+        <div className="branding-preview overflow-hidden rounded-lg border">
+          <div className="flex items-center gap-2 border-b bg-sidebar px-4 py-3 font-semibold text-sidebar-primary">
+            {logoUrl ? <img src={logoUrl} alt="" className="h-8 max-w-[10rem] object-contain" /> : <span>{companyName}</span>}
+            {faviconUrl && <img src={faviconUrl} alt="Favicon preview" title="Favicon" className="ml-auto h-4 w-4" />}
+          </div>
+          <div className="space-y-3 bg-background p-4">
+            <div className="rounded-md bg-sidebar-primary px-3 py-2 text-sm text-sidebar-primary-foreground">Dashboard (active menu item)</div>
+            <div className="rounded-md bg-accent px-3 py-2 text-sm text-accent-foreground">Leave (hovered menu item)</div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button type="button" size="sm">Primary button</Button>
+              <Button type="button" size="sm" variant="outline" className="hover:bg-accent">Outline button</Button>
+              <span className="text-sm text-primary underline">A link</span>
+            </div>
+          </div>
+        </div>
+        <iframe
+          title="Email preview"
+          sandbox=""
+          srcDoc={emailPreviewHtml}
+          className="h-80 w-full rounded-lg border bg-white"
+        />
+      </div>
+    </div>
+  );
+}
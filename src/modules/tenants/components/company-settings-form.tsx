@@ -0,0 +1,235 @@
+"use client";
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { History, Loader2, Save } from 'lucide-react';
+import { updateCompanySettingsAction } from '@/modules/tenants/actions';
+import {
+  tenantConfigSchema,
+  TENANT_CONFIG_SETTINGS,
+  WEEKDAYS,
+  MONTHS,
+  DATE_FORMATS,
+  type TenantConfig,
+  type TenantConfigKey,
+} from '@/modules/tenants/types';
+import type { AuditEvent } from '@/modules/audit/types';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+
+interface CompanySettingsFormProps {
+  initialConfig: TenantConfig;
+  initialHistory: AuditEvent[];
+}
+
+const SETTING_BY_CONFIG_KEY: Record<string, TenantConfigKey> = Object.fromEntries(
+  (Object.keys(TENANT_CONFIG_SETTINGS) as TenantConfigKey[]).map(key => [TENANT_CONFIG_SETTINGS[key].configKey, key])
+);
+
+function listTimeZones(): string[] {
+  try {
+    const zones = Intl.supportedValuesOf('timeZone');
+    return zones.includes('UTC') ? zones : ['UTC', ...zones];
+  } catch {
+    return ['UTC'];
+  }
+}
+
+function formatSettingValue(key: TenantConfigKey | undefined, value: unknown): string {
+  if (value === null || value === undefined) return 'Default';
+  if (key === 'weekOffDays' && Array.isArray(value)) {
+    return value.length ? value.map(day => WEEKDAYS[Number(day)] ?? day).join(', ') : 'None';
+  }
+  if (key === 'fiscalYearStartMonth') return MONTHS[Number(value) - 1] ?? String(value);
+  if (key === 'dateFormat' && typeof value === 'string') {
+    try { return format(new Date(), value); } catch { return value; }
+  }
+  return String(value);
+}
+
+export function CompanySettingsForm({ initialConfig, initialHistory }: CompanySettingsFormProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [history, setHistory] = React.useState(initialHistory);
+  const timeZones = React.useMemo(listTimeZones, []);
+
+  const form = useForm<TenantConfig>({
+    resolver: zodResolver(tenantConfigSchema),
+    defaultValues: initialConfig,
+  });
+
+  const onSubmit = async (data: TenantConfig) => {
+    setIsSaving(true);
+    try {
+      const result = await updateCompanySettingsAction(data);
+      if (!result.success) {
+        const errorMessage = result.errors?.[0]?.message || "Failed to save company settings.";
+        result.errors?.forEach((err: any) => {
+          const path = err.path?.[0];
+          if (typeof path === 'string' && path in form.getValues()) form.setError(path as TenantConfigKey, { message: err.message });
+        });
+        toast({ title: "Error Saving Settings", description: errorMessage, variant: "destructive" });
+        return;
+      }
+      if (result.config) form.reset(result.config);
+      if (result.history) setHistory(result.history);
+      toast({ title: "Settings Saved", description: "Company settings updated.", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" });
+    } catch (error: any) {
+      console.error("[Company Settings Form] Submission error:", error);
+      toast({ title: "Error Saving Settings", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="weekOffDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{TENANT_CONFIG_SETTINGS.weekOffDays.name}</FormLabel>
+                <div className="flex flex-wrap gap-4 pt-1">
+                  {WEEKDAYS.map((dayName, day) => (
+                    <label key={dayName} className="flex items-center gap-2 text-sm">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value?.includes(day)}
+                          onCheckedChange={checked => field.onChange(
+                            checked ? [...(field.value || []), day] : (field.value || []).filter(d => d !== day)
+                          )}
+                        />
+                      </FormControl>
+                      {dayName}
+                    </label>
+                  ))}
+                </div>
+                <FormDescription>{TENANT_CONFIG_SETTINGS.weekOffDays.description}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid gap-4 md:grid-cols-3">
+            <FormField
+              control={form.control}
+              name="fiscalYearStartMonth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{TENANT_CONFIG_SETTINGS.fiscalYearStartMonth.name}</FormLabel>
+                  <Select onValueChange={value => field.onChange(Number(value))} value={String(field.value)}>
+                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      {MONTHS.map((month, index) => (<SelectItem key={month} value={String(index + 1)}>{month}</SelectItem>))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>{TENANT_CONFIG_SETTINGS.fiscalYearStartMonth.description}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="timezone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{TENANT_CONFIG_SETTINGS.timezone.name}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      {(timeZones.includes(field.value) ? timeZones : [field.value, ...timeZones]).map(zone => (
+                        <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>{TENANT_CONFIG_SETTINGS.timezone.description}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="dateFormat"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{TENANT_CONFIG_SETTINGS.dateFormat.name}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      {DATE_FORMATS.map(pattern => (
+                        <SelectItem key={pattern} value={pattern}>{formatSettingValue('dateFormat', pattern)} ({pattern})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>{TENANT_CONFIG_SETTINGS.dateFormat.description}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="currency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{TENANT_CONFIG_SETTINGS.currency.name}</FormLabel>
+                  <FormControl>
+                    <Input {...field} maxLength={3} placeholder="USD" className="uppercase" />
+                  </FormControl>
+                  <FormDescription>{TENANT_CONFIG_SETTINGS.currency.description}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="employeeIdPrefix"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{TENANT_CONFIG_SETTINGS.employeeIdPrefix.name}</FormLabel>
+                  <FormControl>
+                    <Input {...field} maxLength={10} placeholder="EMP-" className="uppercase" />
+                  </FormControl>
+                  <FormDescription>{TENANT_CONFIG_SETTINGS.employeeIdPrefix.description}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Company Settings
+          </Button>
+        </form>
+      </Form>
+
+      <div className="space-y-2">
+        <h3 className="flex items-center gap-2 text-sm font-medium"><History className="h-4 w-4" /> Recent changes</h3>
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No settings have been changed yet. The defaults shown above apply.</p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {history.map(event => {
+              const key = event.entityId ? SETTING_BY_CONFIG_KEY[event.entityId] : undefined;
+              const change = event.changes.value;
+              return (
+                <li key={event.id} className="text-muted-foreground">
+                  <span className="text-foreground">{event.entityLabel || event.entityId}</span>
+                  {change && <> changed from {formatSettingValue(key, change.from)} to {formatSettingValue(key, change.to)}</>}
+                  {' '}by {event.actorName} on {format(parseISO(event.created_at), 'PPp')}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
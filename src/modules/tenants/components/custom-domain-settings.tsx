@@ -0,0 +1,212 @@
+"use client";
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import { useForm, SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Copy, Globe, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { setCustomDomainAction, verifyCustomDomainAction, removeCustomDomainAction } from '@/modules/tenants/actions';
+import { customDomainFormSchema, type CustomDomain, type CustomDomainFormData } from '@/modules/tenants/types';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from "@/hooks/use-toast";
+
+interface CustomDomainSettingsProps {
+  initialDomain: CustomDomain | null;
+  cnameTarget: string; // The company's subdomain host, which the custom domain must point at
+}
+
+function DnsRecord({ type, name, value, onCopy }: { type: string; name: string; value: string; onCopy: (value: string) => void }) {
+  return (
+    <div className="grid gap-1 sm:grid-cols-[4rem_1fr_1fr_auto] sm:items-center">
+      <Badge variant="outline" className="w-fit">{type}</Badge>
+      <code className="break-all text-xs">{name}</code>
+      <code className="break-all text-xs">{value}</code>
+      <Button type="button" variant="ghost" size="icon" onClick={() => onCopy(value)} aria-label={`Copy ${type} value`}>
+        <Copy className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function CustomDomainSettings({ initialDomain, cnameTarget }: CustomDomainSettingsProps) {
+  const { toast } = useToast();
+  const [customDomain, setCustomDomain] = React.useState(initialDomain);
+  const [isEditing, setIsEditing] = React.useState(!initialDomain);
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  const form = useForm<CustomDomainFormData>({
+    resolver: zodResolver(customDomainFormSchema),
+    defaultValues: { domain: initialDomain?.domain ?? "" },
+  });
+
+  const onSubmit: SubmitHandler<CustomDomainFormData> = async (data) => {
+    setIsWorking(true);
+    try {
+      const result = await setCustomDomainAction(data);
+      if (!result.success || !result.customDomain) {
+        toast({ title: "Domain Not Saved", description: result.error || "Failed to save the custom domain.", variant: "destructive" });
+        return;
+      }
+      setCustomDomain(result.customDomain);
+      setIsEditing(false);
+      toast({ title: "Domain Added", description: "Create the DNS records below, then verify the domain." });
+    } catch (error: any) {
+      console.error("[Custom Domain] Save error:", error);
+      toast({ title: "Domain Not Saved", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsWorking(true);
+    try {
+      const result = await verifyCustomDomainAction();
+      if (result.customDomain) setCustomDomain(result.customDomain);
+      if (!result.success) {
+        toast({ title: "Not Verified Yet", description: result.error || "The verification record was not found.", variant: "destructive" });
+        return;
+      }
+      toast({ title: "Domain Verified", description: `${result.customDomain?.domain} now opens your workspace.`, className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" });
+    } catch (error: any) {
+      console.error("[Custom Domain] Verify error:", error);
+      toast({ title: "Verification Failed", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsWorking(true);
+    try {
+      const result = await removeCustomDomainAction();
+      if (!result.success) {
+        toast({ title: "Error Removing Domain", description: result.error || "Failed to remove the custom domain.", variant: "destructive" });
+        return;
+      }
+      setCustomDomain(null);
+      setIsEditing(true);
+      form.reset({ domain: "" });
+      toast({ title: "Domain Removed", description: "Your workspace is only available on its subdomain again." });
+    } catch (error: any) {
+      console.error("[Custom Domain] Remove error:", error);
+      toast({ title: "Error Removing Domain", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const copyValue = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast({ title: "Copied", description: "Value copied to the clipboard." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Select the value and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {customDomain && !isEditing && (
+        <div className="space-y-3 rounded-lg border p-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <Globe className="h-4 w-4" />
+            <span className="font-medium">{customDomain.domain}</span>
+            {customDomain.status === 'VERIFIED' ? <Badge>Verified</Badge> : <Badge variant="secondary">Pending verification</Badge>}
+          </div>
+          {customDomain.status === 'VERIFIED' && customDomain.verifiedAt && (
+            <p className="text-muted-foreground">
+              Verified {format(parseISO(customDomain.verifiedAt), 'PPp')}. Sign-in links and emails now use this domain.
+            </p>
+          )}
+          <div className="space-y-2">
+            <p className="text-muted-foreground">Create these records at your DNS provider. Keep the TXT record in place after verification.</p>
+            <DnsRecord type="TXT" name={customDomain.verificationRecordName} value={customDomain.verificationRecordValue} onCopy={copyValue} />
+            <DnsRecord type="CNAME" name={customDomain.domain} value={cnameTarget} onCopy={copyValue} />
+          </div>
+          {customDomain.lastCheckError && (
+            <p className="text-destructive">
+              Last check{customDomain.lastCheckedAt ? ` (${format(parseISO(customDomain.lastCheckedAt), 'PPp')})` : ''}: {customDomain.lastCheckError}
+            </p>
+          )}
+          <p className="text-muted-foreground">
+            Single sign-on and SCIM URLs move to this domain too. After verifying, update the redirect URI, SAML entity ID and ACS URL, and SCIM base URL in your identity provider.
+          </p>
+        </div>
+      )}
+
+      {isEditing && (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col gap-2 sm:flex-row sm:items-end">
+            <FormField
+              control={form.control}
+              name="domain"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>Custom domain</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="hr.example.com" autoCapitalize="none" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isWorking}>
+                {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Globe className="mr-2 h-4 w-4" />}
+                {customDomain ? 'Change Domain' : 'Add Domain'}
+              </Button>
+              {customDomain && (
+                <Button type="button" variant="outline" onClick={() => setIsEditing(false)} disabled={isWorking}>Cancel</Button>
+              )}
+            </div>
+          </form>
+        </Form>
+      )}
+
+      {customDomain && !isEditing && (
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" onClick={handleVerify} disabled={isWorking}>
+            {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            {customDomain.status === 'VERIFIED' ? 'Check Again' : 'Verify Domain'}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => setIsEditing(true)} disabled={isWorking}>Change Domain</Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button type="button" variant="destructive" disabled={isWorking}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Remove
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Remove {customDomain.domain}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The domain stops opening your workspace immediately, so people using it must sign in on your subdomain instead.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleRemove}>Remove domain</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Download, Loader2, PackageOpen } from 'lucide-react';
+import { getDataExportsAction, requestDataExportAction } from '@/modules/tenants/actions';
+import { DATA_EXPORT_RETENTION_DAYS, dataExportDownloadPath, type DataExportStatus, type TenantDataExport } from '@/modules/tenants/types';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+
+interface DataExportPanelProps {
+  initialExports: TenantDataExport[];
+}
+
+// How often the list is refreshed while an export is being built
+const POLL_INTERVAL_MS = 5000;
+
+const STATUS_LABELS: Record<DataExportStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  PENDING: { label: 'Queued', variant: 'secondary' },
+  RUNNING: { label: 'In progress', variant: 'secondary' },
+  READY: { label: 'Ready', variant: 'default' },
+  FAILED: { label: 'Failed', variant: 'destructive' },
+  EXPIRED: { label: 'Expired', variant: 'outline' },
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function isInProgress(dataExport: TenantDataExport): boolean {
+  return dataExport.status === 'PENDING' || dataExport.status === 'RUNNING';
+}
+
+export function DataExportPanel({ initialExports }: DataExportPanelProps) {
+  const { toast } = useToast();
+  const [exports, setExports] = React.useState(initialExports);
+  const [isRequesting, setIsRequesting] = React.useState(false);
+  const inProgress = exports.some(isInProgress);
+
+  React.useEffect(() => {
+    if (!inProgress) return;
+    const timer = setInterval(async () => {
+      const result = await getDataExportsAction();
+      if (result.success && result.exports) setExports(result.exports);
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [inProgress]);
+
+  const handleRequest = async () => {
+    setIsRequesting(true);
+    try {
+      const result = await requestDataExportAction();
+      if (!result.success || !result.dataExport) {
+        toast({ title: "Export Not Started", description: result.error || "Failed to start the data export.", variant: "destructive" });
+        return;
+      }
+      setExports(current => [result.dataExport!, ...current]);
+      toast({ title: "Export Started", description: "We will email you a download link when the export is ready." });
+    } catch (error: any) {
+      console.error("[Data Export Panel] Request error:", error);
+      toast({ title: "Export Not Started", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        The zip holds every table as JSON and CSV (employees, leave, recruitment, communication, billing and the audit log),
+        your uploaded documents, and a manifest with SHA-256 checksums of all files. Passwords, tokens and other secrets are
+        left out. Downloads are available for {DATA_EXPORT_RETENTION_DAYS} days.
+      </p>
+      <Button type="button" onClick={handleRequest} disabled={isRequesting || inProgress}>
+        {isRequesting || inProgress ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PackageOpen className="mr-2 h-4 w-4" />}
+        {inProgress ? 'Export in progress...' : 'Export All Data'}
+      </Button>
+
+      {exports.length > 0 && (
+        <ul className="divide-y rounded-md border text-sm">
+          {exports.map(dataExport => {
+            const status = STATUS_LABELS[dataExport.status];
+            return (
+              <li key={dataExport.id} className="flex flex-wrap items-center gap-3 px-3 py-2">
+                <Badge variant={status.variant}>{status.label}</Badge>
+                <div className="min-w-0 flex-1">
+                  <p>Requested by {dataExport.requestedByName} on {format(parseISO(dataExport.createdAt), 'PPp')}</p>
+                  {dataExport.status === 'READY' && dataExport.expiresAt && (
+                    <p className="text-muted-foreground">
+                      {dataExport.byteSize !== null && `${formatBytes(dataExport.byteSize)} · `}
+                      {dataExport.summary && `${dataExport.summary.tables.reduce((total, table) => total + table.rows, 0)} records, ${dataExport.summary.documents} document(s) · `}
+                      Available until {format(parseISO(dataExport.expiresAt), 'PPp')}
+                    </p>
+                  )}
+                  {dataExport.status === 'READY' && dataExport.summary && dataExport.summary.missingDocuments > 0 && (
+                    <p className="text-muted-foreground">{dataExport.summary.missingDocuments} referenced document(s) were not found in storage; see manifest.json.</p>
+                  )}
+                  {dataExport.sha256 && dataExport.status === 'READY' && (
+                    <p className="break-all text-xs text-muted-foreground">SHA-256: <code>{dataExport.sha256}</code></p>
+                  )}
+                  {dataExport.status === 'FAILED' && dataExport.error && <p className="text-destructive">{dataExport.error}</p>}
+                </div>
+                {dataExport.status === 'READY' && (
+                  <Button asChild variant="outline" size="sm">
+                    <a href={dataExportDownloadPath(dataExport.id)} download>
+                      <Download className="mr-2 h-4 w-4" /> Download
+                    </a>
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
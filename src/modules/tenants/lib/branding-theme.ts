@@ -0,0 +1,108 @@
+// src/modules/tenants/lib/branding-theme.ts
+// Turns a company's brand colors into theme CSS and its email layout. No server imports:
+// the branding editor uses the same functions for its preview.
+import type { BrandingColors } from '@/modules/tenants/types';
+import { escapeHtml } from '@/lib/html';
+
+// Built-in theme colors (globals.css), used in emails when the company has not picked its own
+const DEFAULT_PRIMARY_COLOR = '#3b82f6';
+const DEFAULT_ACCENT_COLOR = '#e3e6ea';
+
+function hexToRgb(hex: string): [number, number, number] {
+    const value = parseInt(hex.slice(1), 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/** "H S% L%" as used by the theme's CSS variables. */
+function hexToHslVariable(hex: string): string {
+    const [r, g, b] = hexToRgb(hex).map(channel => channel / 255);
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const lightness = (max + min) / 2;
+    let hue = 0;
+    let saturation = 0;
+    if (max !== min) {
+        const delta = max - min;
+        saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+        if (max === r) hue = (g - b) / delta + (g < b ? 6 : 0);
+        else if (max === g) hue = (b - r) / delta + 2;
+        else hue = (r - g) / delta + 4;
+        hue *= 60;
+    }
+    return `${Math.round(hue)} ${Math.round(saturation * 100)}% ${Math.round(lightness * 100)}%`;
+}
+
+/** Whether white text is readable on the color: a WCAG contrast of at least 3:1, as for buttons and large text. */
+function prefersLightText(hex: string): boolean {
+    const [r, g, b] = hexToRgb(hex).map(channel => {
+        const c = channel / 255;
+        return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+    });
+    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    return 1.05 / (luminance + 0.05) >= 3;
+}
+
+function textColorFor(hex: string): string {
+    return prefersLightText(hex) ? '#ffffff' : '#1f2937';
+}
+
+/**
+ * CSS overriding the theme variables with the brand colors, for light and dark mode alike.
+ * Empty when the company uses the built-in colors.
+ */
+export function brandingThemeCss(colors: BrandingColors, selector = ':root, .dark'): string {
+    const variables: string[] = [];
+    if (colors.primaryColor) {
+        const primary = hexToHslVariable(colors.primaryColor);
+        const foreground = prefersLightText(colors.primaryColor) ? '0 0% 100%' : '220 15% 15%';
+        variables.push(
+            `--primary: ${primary};`, `--primary-foreground: ${foreground};`, `--ring: ${primary};`, `--chart-1: ${primary};`,
+            `--sidebar-primary: ${primary};`, `--sidebar-primary-foreground: ${foreground};`, `--sidebar-ring: ${primary};`,
+        );
+    }
+    if (colors.accentColor) {
+        const accent = hexToHslVariable(colors.accentColor);
+        const foreground = prefersLightText(colors.accentColor) ? '0 0% 100%' : '220 15% 15%';
+        variables.push(
+            `--accent: ${accent};`, `--accent-foreground: ${foreground};`,
+            `--sidebar-accent: ${accent};`, `--sidebar-accent-foreground: ${foreground};`,
+        );
+    }
+    return variables.length ? `${selector} { ${variables.join(' ')} }` : '';
+}
+
+interface BrandedEmailOptions {
+    bodyHtml: string; // Trusted HTML of the message itself
+    companyName: string;
+    logoSrc?: string | null; // URL or cid: reference of the company logo
+    colors: BrandingColors;
+}
+
+/** Wraps an HTML message in the company's email layout: logo header, brand colors and a footer. */
+export function renderBrandedEmailHtml({ bodyHtml, companyName, logoSrc, colors }: BrandedEmailOptions): string {
+    const primary = colors.primaryColor || DEFAULT_PRIMARY_COLOR;
+    const accent = colors.accentColor || DEFAULT_ACCENT_COLOR;
+    const name = escapeHtml(companyName);
+    const header = logoSrc
+        ? `<img src="${escapeHtml(logoSrc)}" alt="${name}" height="40" style="display:block;height:40px;max-width:240px;border:0;">`
+        : `<span style="font-size:20px;font-weight:bold;color:${primary};">${name}</span>`;
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<style>a { color: ${primary}; }</style>
+</head>
+<body style="margin:0;padding:0;background:#f4f5f7;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f5f7;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="width:100%;max-width:600px;background:#ffffff;border-radius:8px;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+<tr><td style="padding:20px 24px;border-bottom:4px solid ${primary};">${header}</td></tr>
+<tr><td style="padding:24px;font-size:15px;line-height:1.5;">${bodyHtml}</td></tr>
+<tr><td style="padding:12px 24px;background:${accent};color:${textColorFor(accent)};font-size:12px;border-radius:0 0 8px 8px;">Sent by ${name}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
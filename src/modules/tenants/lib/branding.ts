@@ -0,0 +1,215 @@
+// src/modules/tenants/lib/branding.ts
+// A company's logo, favicon and brand colors. Colors live in tenant_configurations ('branding.colors'),
+// files in tenant_branding_assets. Changes are recorded in the audit log (entity type 'tenant_branding').
+import { createHash } from 'crypto';
+import type Mail from 'nodemailer/lib/mailer';
+import pool from '@/lib/db';
+import { recordAuditEvent } from '@/modules/audit/lib/db';
+import { diffForAudit } from '@/modules/audit/lib/diff';
+import type { BrandingAsset, BrandingAssetKind, BrandingColors, BrandingUpdate, TenantBranding } from '@/modules/tenants/types';
+import { BRANDING_ASSET_RULES, brandingColorsSchema, brandingUpdateSchema } from '@/modules/tenants/types';
+import { renderBrandedEmailHtml } from '@/modules/tenants/lib/branding-theme';
+
+const BRANDING_COLORS_CONFIG_KEY = 'branding.colors';
+const EMAIL_LOGO_CID = 'company-logo@branding';
+
+// Per process; another instance sees a change once its cached copy expires
+const BRANDING_CACHE_TTL_MS = 60 * 1000;
+const brandingCache = new Map<string, { branding: TenantBranding; expiresAt: number }>();
+
+function mapRowToBrandingAsset(row: any): BrandingAsset {
+    return {
+        kind: row.kind,
+        contentType: row.content_type,
+        byteSize: Number(row.byte_size),
+        version: row.sha256.slice(0, 16),
+        updatedAt: new Date(row.updated_at).toISOString(),
+    };
+}
+
+// The file type is taken from its first bytes, not from what the browser declared
+function detectImageType(data: Buffer): string | null {
+    if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+    if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+    if (data.length >= 6 && ['GIF87a', 'GIF89a'].includes(data.subarray(0, 6).toString('ascii'))) return 'image/gif';
+    if (data.length >= 12 && data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') return 'image/webp';
+    if (data.length >= 4 && data[0] === 0 && data[1] === 0 && data[2] === 1 && data[3] === 0) return 'image/x-icon';
+    return null;
+}
+
+/**
+ * Decodes an uploaded data URL and checks it against the rules for the kind of file.
+ * @throws Error with a message for the admin when the file is not accepted.
+ */
+export function parseBrandingUpload(kind: BrandingAssetKind, dataUrl: string): { contentType: string; data: Buffer } {
+    const rules = BRANDING_ASSET_RULES[kind];
+    const data = Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64');
+    if (data.length === 0) {
+        throw new Error(`The ${kind} file is empty.`);
+    }
+    if (data.length > rules.maxBytes) {
+        throw new Error(`The ${kind} must be ${Math.round(rules.maxBytes / 1024)} KB or smaller.`);
+    }
+    const contentType = detectImageType(data);
+    if (!contentType || !rules.contentTypes.includes(contentType)) {
+        const allowed = rules.contentTypes.map(type => type.replace('image/', '').replace('x-icon', 'ico').toUpperCase()).join(', ');
+        throw new Error(`The ${kind} must be one of: ${allowed}.`);
+    }
+    return { contentType, data };
+}
+
+/** The company's branding; colors are null and files missing when it uses the built-in look. */
+export async function getTenantBranding(tenantId: string): Promise<TenantBranding> {
+    const cached = brandingCache.get(tenantId);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.branding;
+    }
+
+    const client = await pool.connect();
+    try {
+        const colorsRes = await client.query(
+            'SELECT config_value FROM tenant_configurations WHERE tenant_id = $1 AND config_key = $2',
+            [tenantId, BRANDING_COLORS_CONFIG_KEY]
+        );
+        const assetsRes = await client.query(
+            'SELECT kind, content_type, sha256, octet_length(data) AS byte_size, updated_at FROM tenant_branding_assets WHERE tenant_id = $1',
+            [tenantId]
+        );
+        const parsedColors = brandingColorsSchema.safeParse(colorsRes.rows[0]?.config_value ?? {});
+        if (!parsedColors.success) {
+            console.warn(`[Branding] Stored colors for tenant ${tenantId} are invalid. Using the built-in colors.`, parsedColors.error.flatten());
+        }
+        const assets = assetsRes.rows.map(mapRowToBrandingAsset);
+        const branding: TenantBranding = {
+            ...(parsedColors.success ? parsedColors.data : brandingColorsSchema.parse({})),
+            logo: assets.find(asset => asset.kind === 'logo') ?? null,
+            favicon: assets.find(asset => asset.kind === 'favicon') ?? null,
+        };
+        brandingCache.set(tenantId, { branding, expiresAt: Date.now() + BRANDING_CACHE_TTL_MS });
+        return branding;
+    } catch (err: any) {
+        console.error(`[DB getTenantBranding] Error fetching branding for tenant ${tenantId}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_branding_assets" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** The stored file, for serving it. */
+export async function getBrandingAssetData(tenantId: string, kind: BrandingAssetKind): Promise<{ asset: BrandingAsset; data: Buffer } | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            'SELECT kind, content_type, sha256, octet_length(data) AS byte_size, updated_at, data FROM tenant_branding_assets WHERE tenant_id = $1 AND kind = $2',
+            [tenantId, kind]
+        );
+        if (res.rows.length === 0) return undefined;
+        return { asset: mapRowToBrandingAsset(res.rows[0]), data: res.rows[0].data };
+    } catch (err: any) {
+        console.error(`[DB getBrandingAssetData] Error fetching ${kind} for tenant ${tenantId}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_branding_assets" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Saves colors and uploaded files in one transaction. A file left out of the update is kept; null removes it.
+ * @throws ZodError or Error when a value or file is not accepted.
+ */
+export async function updateTenantBranding(tenantId: string, update: BrandingUpdate): Promise<TenantBranding> {
+    const { logo, favicon, ...colorValues } = brandingUpdateSchema.parse(update);
+    const colors: BrandingColors = colorValues;
+    const uploads = { logo, favicon };
+    // Decode before opening a transaction, so an unacceptable file fails fast
+    const files = new Map<BrandingAssetKind, { contentType: string; data: Buffer } | null>();
+    for (const kind of ['logo', 'favicon'] as const) {
+        const upload = uploads[kind];
+        if (upload !== undefined) files.set(kind, upload === null ? null : parseBrandingUpload(kind, upload));
+    }
+
+    brandingCache.delete(tenantId); // Compare with the stored branding, not a copy another instance may have changed since
+    const before = await getTenantBranding(tenantId);
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const beforeColors = { primaryColor: before.primaryColor, accentColor: before.accentColor };
+        const colorChanges = diffForAudit(beforeColors, colors);
+        if (Object.keys(colorChanges).length > 0) {
+            await client.query(
+                `INSERT INTO tenant_configurations (tenant_id, config_key, config_value)
+                 VALUES ($1, $2, $3)
+                 ON CONFLICT (tenant_id, config_key) DO UPDATE SET config_value = EXCLUDED.config_value, updated_at = NOW()`,
+                [tenantId, BRANDING_COLORS_CONFIG_KEY, JSON.stringify(colors)]
+            );
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'tenant_branding', entityId: BRANDING_COLORS_CONFIG_KEY, entityLabel: 'Brand colors',
+                action: 'update', changes: colorChanges,
+            });
+        }
+
+        for (const [kind, file] of files) {
+            const label = kind === 'logo' ? 'Logo' : 'Favicon';
+            const previous = before[kind];
+            if (file === null) {
+                if (!previous) continue;
+                await client.query('DELETE FROM tenant_branding_assets WHERE tenant_id = $1 AND kind = $2', [tenantId, kind]);
+                await recordAuditEvent(client, {
+                    tenantId, entityType: 'tenant_branding', entityId: `branding.${kind}`, entityLabel: label,
+                    action: 'delete', changes: diffForAudit({ contentType: previous.contentType, byteSize: previous.byteSize }, null),
+                });
+                continue;
+            }
+            const sha256 = createHash('sha256').update(file.data).digest('hex');
+            if (previous && sha256.startsWith(previous.version)) continue;
+            await client.query(
+                `INSERT INTO tenant_branding_assets (tenant_id, kind, content_type, data, sha256)
+                 VALUES ($1, $2, $3, $4, $5)
+                 ON CONFLICT (tenant_id, kind) DO UPDATE SET content_type = EXCLUDED.content_type, data = EXCLUDED.data, sha256 = EXCLUDED.sha256`,
+                [tenantId, kind, file.contentType, file.data, sha256]
+            );
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'tenant_branding', entityId: `branding.${kind}`, entityLabel: label,
+                action: previous ? 'update' : 'create',
+                changes: diffForAudit(
+                    previous ? { contentType: previous.contentType, byteSize: previous.byteSize, version: previous.version } : null,
+                    { contentType: file.contentType, byteSize: file.data.length, version: sha256.slice(0, 16) },
+                ),
+            });
+        }
+
+        await client.query('COMMIT');
+        brandingCache.delete(tenantId);
+        console.log(`[DB updateTenantBranding] Branding for tenant ${tenantId} saved.`);
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB updateTenantBranding] Error saving branding for tenant ${tenantId}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_branding_assets" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+    return getTenantBranding(tenantId);
+}
+
+/**
+ * The HTML message wrapped in the company's email layout. The logo travels as an inline attachment
+ * (referenced by cid:), so it shows without the mail client loading images from this app.
+ */
+export async function buildBrandedEmail(tenantId: string, companyName: string, bodyHtml: string): Promise<{ html: string; attachments: Mail.Attachment[] }> {
+    const branding = await getTenantBranding(tenantId);
+    const logo = branding.logo ? await getBrandingAssetData(tenantId, 'logo') : undefined;
+    const html = renderBrandedEmailHtml({ bodyHtml, companyName, logoSrc: logo ? `cid:${EMAIL_LOGO_CID}` : null, colors: branding });
+    const attachments: Mail.Attachment[] = logo
+        ? [{ filename: `logo.${logo.asset.contentType.split('/')[1]}`, content: logo.data, contentType: logo.asset.contentType, cid: EMAIL_LOGO_CID }]
+        : [];
+    return { html, attachments };
+}
@@ -0,0 +1,115 @@
+// src/modules/tenants/lib/config.ts
+// Typed company settings on top of tenant_configurations. Stored values are validated against
+// tenantConfigSchema on the way in and out, so readers always get a complete TenantConfig with defaults.
+// The audit log (entity type 'tenant_config') is the change history of every setting.
+import pool from '@/lib/db';
+import { recordAuditEvent, getAuditEvents } from '@/modules/audit/lib/db';
+import { diffForAudit } from '@/modules/audit/lib/diff';
+import type { AuditEvent } from '@/modules/audit/types';
+import type { TenantConfig, TenantConfigKey, TenantConfigUpdate } from '@/modules/tenants/types';
+import { TENANT_CONFIG_DEFAULTS, TENANT_CONFIG_SETTINGS, tenantConfigSchema, tenantConfigUpdateSchema } from '@/modules/tenants/types';
+
+// Per process; another instance sees a change once its cached copy expires
+const TENANT_CONFIG_CACHE_TTL_MS = 60 * 1000;
+const tenantConfigCache = new Map<string, { config: TenantConfig; expiresAt: number }>();
+
+const SETTING_KEYS = Object.keys(TENANT_CONFIG_SETTINGS) as TenantConfigKey[];
+const SETTING_BY_CONFIG_KEY = new Map<string, TenantConfigKey>(SETTING_KEYS.map(key => [TENANT_CONFIG_SETTINGS[key].configKey, key]));
+
+/** Applies stored rows over the defaults. Invalid stored values fall back to the default and are logged. */
+function buildTenantConfig(tenantId: string, rows: { config_key: string; config_value: unknown }[]): TenantConfig {
+    const config: Record<string, unknown> = { ...TENANT_CONFIG_DEFAULTS };
+    for (const row of rows) {
+        const key = SETTING_BY_CONFIG_KEY.get(row.config_key);
+        if (!key) continue;
+        const parsed = tenantConfigSchema.shape[key].safeParse(row.config_value);
+        if (parsed.success) {
+            config[key] = parsed.data;
+        } else {
+            console.warn(`[TenantConfig] Stored ${row.config_key} for tenant ${tenantId} is invalid. Using the default.`, parsed.error.flatten());
+        }
+    }
+    return config as TenantConfig;
+}
+
+/** All company settings of the tenant, with defaults for those never set. */
+export async function getTenantConfig(tenantId: string): Promise<TenantConfig> {
+    const cached = tenantConfigCache.get(tenantId);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.config;
+    }
+
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            'SELECT config_key, config_value FROM tenant_configurations WHERE tenant_id = $1 AND config_key = ANY($2)',
+            [tenantId, Array.from(SETTING_BY_CONFIG_KEY.keys())]
+        );
+        const config = buildTenantConfig(tenantId, res.rows);
+        tenantConfigCache.set(tenantId, { config, expiresAt: Date.now() + TENANT_CONFIG_CACHE_TTL_MS });
+        return config;
+    } catch (err: any) {
+        console.error(`[DB getTenantConfig] Error fetching company settings for tenant ${tenantId}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_configurations" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getTenantConfigValue<K extends TenantConfigKey>(tenantId: string, key: K): Promise<TenantConfig[K]> {
+    return (await getTenantConfig(tenantId))[key];
+}
+
+/**
+ * Validates and saves the given settings in one transaction; settings left out keep their value.
+ * Each setting that actually changes is recorded in the audit log.
+ * @throws ZodError if a value is invalid.
+ */
+export async function updateTenantConfig(tenantId: string, update: TenantConfigUpdate): Promise<TenantConfig> {
+    const values = tenantConfigUpdateSchema.parse(update);
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const beforeRes = await client.query(
+            'SELECT config_key, config_value FROM tenant_configurations WHERE tenant_id = $1 AND config_key = ANY($2) FOR UPDATE',
+            [tenantId, Array.from(SETTING_BY_CONFIG_KEY.keys())]
+        );
+        const before = buildTenantConfig(tenantId, beforeRes.rows);
+
+        for (const key of SETTING_KEYS) {
+            const value = values[key];
+            if (value === undefined || JSON.stringify(value) === JSON.stringify(before[key])) continue;
+            const { configKey, name } = TENANT_CONFIG_SETTINGS[key];
+            await client.query(
+                `INSERT INTO tenant_configurations (tenant_id, config_key, config_value)
+                 VALUES ($1, $2, $3)
+                 ON CONFLICT (tenant_id, config_key) DO UPDATE SET config_value = EXCLUDED.config_value, updated_at = NOW()`,
+                [tenantId, configKey, JSON.stringify(value)]
+            );
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'tenant_config', entityId: configKey, entityLabel: name,
+                action: 'update',
+                changes: diffForAudit({ value: before[key] }, { value }),
+            });
+            console.log(`[DB updateTenantConfig] ${configKey} for tenant ${tenantId} changed.`);
+        }
+
+        await client.query('COMMIT');
+        tenantConfigCache.delete(tenantId);
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB updateTenantConfig] Error saving company settings for tenant ${tenantId}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+    return getTenantConfig(tenantId);
+}
+
+/** Latest changes to company settings, newest first. */
+export async function getTenantConfigHistory(tenantId: string, limit = 20): Promise<AuditEvent[]> {
+    return (await getAuditEvents(tenantId, { entityType: 'tenant_config' }, limit, 0)).events;
+}
@@ -0,0 +1,475 @@
+// src/modules/tenants/lib/data-export.ts
+// Full data export of a company, for portability and GDPR requests. An admin requests it, the zip is built
+// in the background (or by `npm run exports:run`) and kept in tenant_data_exports until it expires.
+// Secrets (password hashes, tokens, encrypted credentials) are redacted; sign-in security tables are left out.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import pool from '@/lib/db';
+import { withTenantScope } from '@/lib/tenant-context';
+import { createZipArchive, type ZipEntry } from '@/lib/zip';
+import { recordAuditEvent } from '@/modules/audit/lib/db';
+import { diffForAudit } from '@/modules/audit/lib/diff';
+import { csvCell } from '@/modules/audit/lib/csv';
+import type { DataExportSummary, DataExportTableSummary, TenantDataExport } from '@/modules/tenants/types';
+import { DATA_EXPORT_RETENTION_DAYS } from '@/modules/tenants/types';
+import { resolveDocumentPath } from '@/modules/tenants/lib/document-storage';
+
+const EXPORT_FORMAT = 'syntaxhive-tenant-export';
+const EXPORT_FORMAT_VERSION = 1;
+const REDACTED = '[redacted]';
+// Exports still RUNNING after this long were interrupted, e.g. by a restart
+const STALE_EXPORT_MINUTES = 60;
+
+interface ExportTable {
+    table: string;
+    area: string;
+    query?: string; // Defaults to every row of the table with the company's tenant_id ($1)
+}
+
+// Every table holding company data. Sessions, login attempts, password history, reset tokens and MFA secrets
+// are security records rather than company data and are not exported; branding files go under documents/.
+const EXPORT_TABLES: ExportTable[] = [
+    { table: 'tenants', area: 'company' },
+    { table: 'tenant_configurations', area: 'company' },
+    { table: 'tenant_custom_domains', area: 'company' },
+    { table: 'departments', area: 'company' },
+    { table: 'designations', area: 'company' },
+    { table: 'announcements', area: 'company' },
+    { table: 'asset_inventory', area: 'company' },
+    { table: 'users', area: 'users' },
+    { table: 'user_invitations', area: 'users' },
+    { table: 'roles', area: 'users' },
+    {
+        table: 'role_permissions', area: 'users',
+        query: `SELECT rp.*, p.permission_key FROM role_permissions rp
+                JOIN roles r ON r.id = rp.role_id LEFT JOIN permissions p ON p.id = rp.permission_id
+                WHERE r.tenant_id = $1`,
+    },
+    {
+        table: 'user_roles', area: 'users',
+        query: `SELECT ur.*, r.role_name FROM user_roles ur
+                JOIN users u ON u.user_id = ur.user_id LEFT JOIN roles r ON r.id = ur.role_id
+                WHERE u.tenant_id = $1`,
+    },
+    { table: 'api_keys', area: 'users' },
+    { table: 'employees', area: 'employees' },
+    { table: 'employee_address', area: 'employees' },
+    { table: 'employee_documents', area: 'employees' },
+    { table: 'employment_details', area: 'employees' },
+    { table: 'employee_assets', area: 'employees' },
+    { table: 'shifts', area: 'employees' },
+    { table: 'employee_shift', area: 'employees' },
+    { table: 'attendance_records', area: 'employees' },
+    { table: 'salary_structures', area: 'employees' },
+    { table: 'salary_components', area: 'employees' },
+    { table: 'salary_structure_details', area: 'employees' },
+    { table: 'employee_salary', area: 'employees' },
+    { table: 'competencies', area: 'employees' },
+    { table: 'performance_cycles', area: 'employees' },
+    { table: 'performance_reviews', area: 'employees' },
+    { table: 'performance_ratings', area: 'employees' },
+    { table: 'training_programs', area: 'employees' },
+    { table: 'employee_training', area: 'employees' },
+    { table: 'leave_types', area: 'leave' },
+    { table: 'leave_policy', area: 'leave' },
+    { table: 'leave_policy_details', area: 'leave' },
+    { table: 'employee_leave_balance', area: 'leave' },
+    { table: 'leave_requests', area: 'leave' },
+    { table: 'holidays', area: 'leave' },
+    { table: 'job_openings', area: 'recruitment' },
+    { table: 'candidates', area: 'recruitment' },
+    { table: 'job_applications', area: 'recruitment' },
+    { table: 'email_configuration', area: 'communication' },
+    { table: 'email_templates', area: 'communication' },
+    { table: 'tenant_subscriptions', area: 'billing' },
+    { table: 'subscription_invoices', area: 'billing' },
+    { table: 'subscription_payments', area: 'billing' },
+    { table: 'audit_events', area: 'audit' },
+];
+
+function mapRowToDataExport(row: any): TenantDataExport {
+    return {
+        id: row.export_id,
+        tenantId: row.tenant_id,
+        status: row.status,
+        requestedBy: row.requested_by ?? null,
+        requestedByName: row.requested_by_name,
+        fileName: row.file_name ?? null,
+        byteSize: row.byte_size !== null && row.byte_size !== undefined ? Number(row.byte_size) : null,
+        sha256: row.sha256 ?? null,
+        summary: row.summary ?? null,
+        error: row.error ?? null,
+        createdAt: new Date(row.created_at).toISOString(),
+        startedAt: row.started_at ? new Date(row.started_at).toISOString() : null,
+        completedAt: row.completed_at ? new Date(row.completed_at).toISOString() : null,
+        expiresAt: row.expires_at ? new Date(row.expires_at).toISOString() : null,
+    };
+}
+
+// Every column except the zip itself
+const EXPORT_COLUMNS = `export_id, tenant_id, requested_by, requested_by_name, status, file_name, byte_size, sha256, summary,
+    error, started_at, completed_at, expires_at, notified_at, created_at, updated_at`;
+
+/** Column and JSON key names whose values are secrets, e.g. password_hash, token_hash or clientSecretEncrypted. */
+function isSecretField(name: string): boolean {
+    return /(password|secret|token|hash|encrypted)$/.test(name.replace(/_/g, '').toLowerCase());
+}
+
+function redactSecrets(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(redactSecrets);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, isSecretField(key) && nested !== null ? REDACTED : redactSecrets(nested)]));
+    }
+    return value;
+}
+
+function recordsToCsv(columns: string[], records: Record<string, unknown>[]): string {
+    const rows = records.map(record => columns.map(column => {
+        const value = record[column];
+        return value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+    }));
+    return [columns, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
+
+function sha256Hex(data: Buffer | string): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Queues an export of all the company's data. It is built in the background; call `runDataExport` to build it.
+ * @throws Error when another export of the company is still in progress.
+ */
+export async function createDataExport(tenantId: string, requestedBy: { userId: string; name: string }): Promise<TenantDataExport> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const res = await client.query(
+            `INSERT INTO tenant_data_exports (tenant_id, requested_by, requested_by_name)
+             VALUES ($1, $2, $3) RETURNING ${EXPORT_COLUMNS}`,
+            [tenantId, requestedBy.userId, requestedBy.name]
+        );
+        const dataExport = mapRowToDataExport(res.rows[0]);
+        await recordAuditEvent(client, {
+            tenantId, entityType: 'data_export', entityId: dataExport.id, entityLabel: 'Full data export',
+            action: 'create', changes: diffForAudit(null, { status: dataExport.status }),
+        });
+        await client.query('COMMIT');
+        console.log(`[DB createDataExport] Export ${dataExport.id} queued for tenant ${tenantId} by ${requestedBy.name}.`);
+        return dataExport;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        if (err.code === '23505') {
+            throw new Error('An export is already in progress. You will be emailed when it is ready.');
+        }
+        console.error(`[DB createDataExport] Error queuing export for tenant ${tenantId}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_data_exports" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** The company's most recent exports, newest first. */
+export async function getDataExports(tenantId: string, limit = 10): Promise<TenantDataExport[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT ${EXPORT_COLUMNS} FROM tenant_data_exports WHERE tenant_id = $1 ORDER BY created_at DESC LIMIT $2`,
+            [tenantId, limit]
+        );
+        return res.rows.map(mapRowToDataExport);
+    } catch (err: any) {
+        console.error(`[DB getDataExports] Error fetching exports for tenant ${tenantId}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_data_exports" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** The zip of a ready export, or undefined when it does not exist, is not ready or has expired. */
+export async function getDataExportFile(tenantId: string, exportId: string): Promise<{ dataExport: TenantDataExport; data: Buffer } | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT ${EXPORT_COLUMNS}, data FROM tenant_data_exports
+             WHERE tenant_id = $1 AND export_id = $2 AND status = 'READY' AND expires_at > NOW() AND data IS NOT NULL`,
+            [tenantId, exportId]
+        );
+        if (res.rows.length === 0) return undefined;
+        return { dataExport: mapRowToDataExport(res.rows[0]), data: res.rows[0].data };
+    } catch (err: any) {
+        console.error(`[DB getDataExportFile] Error fetching export ${exportId} for tenant ${tenantId}:`, err);
+        if (err.code === '22P02') {
+            return undefined; // Not a UUID
+        }
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_data_exports" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+async function collectTable(client: any, tenantId: string, exportTable: ExportTable): Promise<{ columns: string[]; records: Record<string, unknown>[] }> {
+    const query = exportTable.query ?? `SELECT * FROM ${exportTable.table} WHERE tenant_id = $1`;
+    // row_to_json keeps Postgres' own text for dates, numbers and JSON, so values round-trip exactly
+    const res = await client.query(`SELECT row_to_json(t) AS record FROM (${query} ORDER BY 1) t`, [tenantId]);
+    const records = res.rows.map((row: any) => redactSecrets(row.record) as Record<string, unknown>);
+    const columns = records.length > 0
+        ? Object.keys(records[0])
+        : (await client.query(`SELECT * FROM (${query}) t LIMIT 0`, [tenantId])).fields.map((field: any) => field.name);
+    return { columns, records };
+}
+
+async function collectDocuments(client: any, tenantId: string): Promise<{ entries: ZipEntry[]; documents: object[]; missing: object[] }> {
+    const entries: ZipEntry[] = [];
+    const documents: object[] = [];
+    const missing: object[] = [];
+
+    const brandingRes = await client.query('SELECT kind, content_type, data, updated_at FROM tenant_branding_assets WHERE tenant_id = $1 ORDER BY kind', [tenantId]);
+    for (const row of brandingRes.rows) {
+        const name = `documents/branding/${row.kind}.${String(row.content_type).split('/')[1]}`;
+        entries.push({ name, data: row.data, modifiedAt: new Date(row.updated_at) });
+        documents.push({ path: name, source: 'tenant_branding_assets', kind: row.kind });
+    }
+
+    const documentRes = await client.query(
+        'SELECT document_id, employee_id, file_path FROM employee_documents WHERE tenant_id = $1 AND file_path IS NOT NULL ORDER BY document_id',
+        [tenantId]
+    );
+    for (const row of documentRes.rows) {
+        const filePath = resolveDocumentPath(row.file_path);
+        const reference = { source: 'employee_documents', documentId: row.document_id, employeeId: row.employee_id, filePath: row.file_path };
+        if (!filePath) {
+            missing.push({ ...reference, reason: 'Path outside the documents directory' });
+            continue;
+        }
+        try {
+            const data = await fs.readFile(filePath);
+            const name = `documents/employee_documents/${row.document_id}/${path.basename(filePath)}`;
+            entries.push({ name, data });
+            documents.push({ path: name, ...reference });
+        } catch (err: any) {
+            if (err.code !== 'ENOENT' && err.code !== 'EISDIR') throw err;
+            missing.push({ ...reference, reason: 'File not found' });
+        }
+    }
+    return { entries, documents, missing };
+}
+
+/** Builds the zip: data/<area>/<table>.json and .csv, documents/, manifest.json and checksums.sha256. */
+async function buildExportArchive(tenantId: string, dataExport: TenantDataExport): Promise<{ zip: Buffer; summary: DataExportSummary; fileName: string }> {
+    const client = await pool.connect();
+    try {
+        // One snapshot, so rows referring to each other are consistent across tables
+        await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+        const tenantRes = await client.query('SELECT name, subdomain FROM tenants WHERE tenant_id = $1', [tenantId]);
+        if (tenantRes.rows.length === 0) throw new Error(`Tenant ${tenantId} not found.`);
+        const tenant = tenantRes.rows[0];
+        const generatedAt = new Date();
+
+        const entries: ZipEntry[] = [];
+        const tables: DataExportTableSummary[] = [];
+        for (const exportTable of EXPORT_TABLES) {
+            const { columns, records } = await collectTable(client, tenantId, exportTable);
+            const base = `data/${exportTable.area}/${exportTable.table}`;
+            entries.push({ name: `${base}.json`, data: JSON.stringify(records, null, 2), modifiedAt: generatedAt });
+            entries.push({ name: `${base}.csv`, data: recordsToCsv(columns, records), modifiedAt: generatedAt });
+            tables.push({ table: exportTable.table, area: exportTable.area, rows: records.length });
+        }
+        const { entries: documentEntries, documents, missing } = await collectDocuments(client, tenantId);
+        entries.push(...documentEntries);
+        await client.query('COMMIT');
+
+        const files = entries.map(entry => ({
+            path: entry.name,
+            bytes: Buffer.byteLength(entry.data),
+            sha256: sha256Hex(entry.data),
+        }));
+        const manifest = {
+            format: EXPORT_FORMAT,
+            formatVersion: EXPORT_FORMAT_VERSION,
+            exportId: dataExport.id,
+            generatedAt: generatedAt.toISOString(),
+            requestedBy: dataExport.requestedByName,
+            tenant: { id: tenantId, name: tenant.name, subdomain: tenant.subdomain },
+            notes: [
+                'Each table is exported as JSON (an array of rows) and CSV with the same columns.',
+                `Secret values such as password hashes, tokens and encrypted credentials are replaced with "${REDACTED}".`,
+                'Sessions, login attempts, password history, password reset tokens and two-factor secrets are not exported.',
+                'checksums.sha256 lists the SHA-256 of every other file and can be checked with `sha256sum -c checksums.sha256`.',
+            ],
+            tables,
+            documents,
+            missingDocuments: missing,
+            files,
+        };
+        const manifestJson = JSON.stringify(manifest, null, 2);
+        entries.push({ name: 'manifest.json', data: manifestJson, modifiedAt: generatedAt });
+        const checksums = [...files, { path: 'manifest.json', sha256: sha256Hex(manifestJson) }]
+            .map(file => `${file.sha256}  ${file.path}`)
+            .join('\n') + '\n';
+        entries.push({ name: 'checksums.sha256', data: checksums, modifiedAt: generatedAt });
+
+        return {
+            zip: createZipArchive(entries),
+            summary: { tables, documents: documents.length, missingDocuments: missing.length },
+            fileName: `${tenant.subdomain}-data-export-${generatedAt.toISOString().slice(0, 10)}.zip`,
+        };
+    } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+async function finishDataExport(tenantId: string, exportId: string, result: { zip: Buffer; summary: DataExportSummary; fileName: string } | { error: string }): Promise<TenantDataExport> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const res = 'error' in result
+            ? await client.query(
+                `UPDATE tenant_data_exports SET status = 'FAILED', error = $3, completed_at = NOW()
+                 WHERE tenant_id = $1 AND export_id = $2 RETURNING ${EXPORT_COLUMNS}`,
+                [tenantId, exportId, result.error]
+            )
+            : await client.query(
+                `UPDATE tenant_data_exports
+                 SET status = 'READY', data = $3, byte_size = $4, sha256 = $5, file_name = $6, summary = $7,
+                     completed_at = NOW(), expires_at = NOW() + make_interval(days => $8)
+                 WHERE tenant_id = $1 AND export_id = $2 RETURNING ${EXPORT_COLUMNS}`,
+                [tenantId, exportId, result.zip, result.zip.length, sha256Hex(result.zip), result.fileName, JSON.stringify(result.summary), DATA_EXPORT_RETENTION_DAYS]
+            );
+        const dataExport = mapRowToDataExport(res.rows[0]);
+        await recordAuditEvent(client, {
+            tenantId, entityType: 'data_export', entityId: exportId, entityLabel: 'Full data export',
+            action: 'update',
+            changes: diffForAudit({ status: 'RUNNING' }, { status: dataExport.status, ...(dataExport.sha256 ? { sha256: dataExport.sha256 } : {}) }),
+        });
+        await client.query('COMMIT');
+        return dataExport;
+    } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Builds a queued export and stores the zip, or records why it failed.
+ * Returns undefined when the export is not queued (already taken by another runner, or unknown).
+ */
+export async function runDataExport(tenantId: string, exportId: string): Promise<TenantDataExport | undefined> {
+    return withTenantScope(tenantId, async () => {
+        const client = await pool.connect();
+        let dataExport: TenantDataExport;
+        try {
+            const res = await client.query(
+                `UPDATE tenant_data_exports SET status = 'RUNNING', started_at = NOW()
+                 WHERE tenant_id = $1 AND export_id = $2 AND status = 'PENDING' RETURNING ${EXPORT_COLUMNS}`,
+                [tenantId, exportId]
+            );
+            if (res.rows.length === 0) return undefined;
+            dataExport = mapRowToDataExport(res.rows[0]);
+        } finally {
+            client.release();
+        }
+
+        console.log(`[runDataExport] Building export ${exportId} for tenant ${tenantId}...`);
+        try {
+            const archive = await buildExportArchive(tenantId, dataExport);
+            const ready = await finishDataExport(tenantId, exportId, archive);
+            console.log(`[runDataExport] Export ${exportId} ready: ${archive.zip.length} bytes, ${archive.summary.tables.length} tables, ${archive.summary.documents} document(s).`);
+            return ready;
+        } catch (err: any) {
+            console.error(`[runDataExport] Export ${exportId} for tenant ${tenantId} failed:`, err);
+            return finishDataExport(tenantId, exportId, { error: err.message || 'The export could not be built.' });
+        }
+    });
+}
+
+/**
+ * Marks a finished export as notified and returns it, once: a second call (or another runner) gets undefined,
+ * so the requester is emailed only one time.
+ */
+export async function claimDataExportNotification(tenantId: string, exportId: string): Promise<(TenantDataExport & { requestedByEmail: string | null }) | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `UPDATE tenant_data_exports e SET notified_at = NOW()
+             WHERE e.tenant_id = $1 AND e.export_id = $2 AND e.status IN ('READY', 'FAILED') AND e.notified_at IS NULL
+             RETURNING ${EXPORT_COLUMNS.replace(/(\w+)/g, 'e.$1')},
+                 (SELECT u.email FROM users u WHERE u.user_id = e.requested_by AND u.is_active) AS requested_by_email`,
+            [tenantId, exportId]
+        );
+        if (res.rows.length === 0) return undefined;
+        return { ...mapRowToDataExport(res.rows[0]), requestedByEmail: res.rows[0].requested_by_email ?? null };
+    } catch (err: any) {
+        console.error(`[DB claimDataExportNotification] Error updating export ${exportId}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Queued exports of ACTIVE companies, oldest first. Call in system scope.
+ * Exports of suspended or deleted companies stay queued like their other scheduled jobs, and are built if the company is reinstated or restored.
+ */
+export async function getPendingDataExports(): Promise<{ tenantId: string; exportId: string }[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT e.tenant_id, e.export_id FROM tenant_data_exports e
+             JOIN tenants t ON t.tenant_id = e.tenant_id
+             WHERE e.status = 'PENDING' AND t.status = 'ACTIVE'
+             ORDER BY e.created_at`
+        );
+        return res.rows.map(row => ({ tenantId: row.tenant_id, exportId: row.export_id }));
+    } catch (err: any) {
+        console.error('[DB getPendingDataExports] Error fetching queued exports:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Housekeeping for all companies (call in system scope): deletes the files of expired exports and fails
+ * exports whose build was interrupted. Returns the affected export IDs.
+ */
+export async function cleanUpDataExports(): Promise<{ expired: string[]; interrupted: { tenantId: string; exportId: string }[] }> {
+    const client = await pool.connect();
+    try {
+        const expiredRes = await client.query(
+            `UPDATE tenant_data_exports SET status = 'EXPIRED', data = NULL
+             WHERE status = 'READY' AND expires_at <= NOW() RETURNING export_id`
+        );
+        const interruptedRes = await client.query(
+            `UPDATE tenant_data_exports SET status = 'FAILED', error = 'The export was interrupted. Please request a new one.', completed_at = NOW()
+             WHERE status = 'RUNNING' AND started_at < NOW() - make_interval(mins => $1) RETURNING tenant_id, export_id`,
+            [STALE_EXPORT_MINUTES]
+        );
+        return {
+            expired: expiredRes.rows.map(row => row.export_id),
+            interrupted: interruptedRes.rows.map(row => ({ tenantId: row.tenant_id, exportId: row.export_id })),
+        };
+    } catch (err: any) {
+        console.error('[DB cleanUpDataExports] Error cleaning up exports:', err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_data_exports" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
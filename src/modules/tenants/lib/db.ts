@@ -0,0 +1,177 @@
+// src/modules/tenants/lib/db.ts
+// Company-level settings. tenant_custom_domains is routing data without row-level security,
+// so every query here filters by tenant_id itself.
+import pool from '@/lib/db';
+import { recordAuditEvent } from '@/modules/audit/lib/db';
+import { diffForAudit } from '@/modules/audit/lib/diff';
+import type { CustomDomain } from '@/modules/tenants/types';
+import { CUSTOM_DOMAIN_TXT_RECORD_PREFIX, CUSTOM_DOMAIN_TXT_VALUE_PREFIX } from '@/modules/tenants/types';
+
+function mapRowToCustomDomain(row: any): CustomDomain {
+    return {
+        id: row.domain_id,
+        tenantId: row.tenant_id,
+        domain: row.domain,
+        status: row.status,
+        verificationRecordName: `${CUSTOM_DOMAIN_TXT_RECORD_PREFIX}.${row.domain}`,
+        verificationRecordValue: `${CUSTOM_DOMAIN_TXT_VALUE_PREFIX}${row.verification_token}`,
+        verifiedAt: row.verified_at ? new Date(row.verified_at).toISOString() : null,
+        lastCheckedAt: row.last_checked_at ? new Date(row.last_checked_at).toISOString() : null,
+        lastCheckError: row.last_check_error ?? null,
+        created_at: new Date(row.created_at).toISOString(),
+        updated_at: new Date(row.updated_at).toISOString(),
+    };
+}
+
+function auditedFields(domain: CustomDomain | undefined) {
+    return domain ? { domain: domain.domain, status: domain.status } : null;
+}
+
+/** The company's custom domain, verified or not. */
+export async function getCustomDomain(tenantId: string): Promise<CustomDomain | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query('SELECT * FROM tenant_custom_domains WHERE tenant_id = $1', [tenantId]);
+        return res.rows.length > 0 ? mapRowToCustomDomain(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error(`[DB getCustomDomain] Error fetching custom domain for tenant ${tenantId}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_custom_domains" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** The verified custom domain of the tenant with this subdomain, used to build links to its workspace. */
+export async function getVerifiedCustomDomainForSubdomain(subdomain: string): Promise<string | null> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT d.domain FROM tenant_custom_domains d JOIN tenants t ON t.tenant_id = d.tenant_id
+             WHERE t.subdomain = $1 AND d.status = 'VERIFIED'`,
+            [subdomain.toLowerCase()]
+        );
+        return res.rows[0]?.domain ?? null;
+    } catch (err: any) {
+        if (err.code === '42P01') return null; // Before the custom domains migration has run, links use the subdomain
+        console.error(`[DB getVerifiedCustomDomainForSubdomain] Error fetching custom domain for ${subdomain}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Sets the company's custom domain, replacing any previous one. The new domain starts unverified
+ * with a fresh verification token, so a replaced domain stops routing immediately.
+ */
+export async function claimCustomDomain(tenantId: string, domain: string, verificationToken: string): Promise<CustomDomain> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const before = await client.query('SELECT * FROM tenant_custom_domains WHERE tenant_id = $1 FOR UPDATE', [tenantId]);
+        const res = await client.query(
+            `INSERT INTO tenant_custom_domains (tenant_id, domain, verification_token)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (tenant_id) DO UPDATE SET
+                domain = EXCLUDED.domain, verification_token = EXCLUDED.verification_token, status = 'PENDING',
+                verified_at = NULL, last_checked_at = NULL, last_check_error = NULL
+             RETURNING *`,
+            [tenantId, domain, verificationToken]
+        );
+        const previous = before.rows.length > 0 ? mapRowToCustomDomain(before.rows[0]) : undefined;
+        const saved = mapRowToCustomDomain(res.rows[0]);
+        await recordAuditEvent(client, {
+            tenantId, entityType: 'custom_domain', entityId: saved.id, entityLabel: saved.domain,
+            action: previous ? 'update' : 'create',
+            changes: diffForAudit(auditedFields(previous), auditedFields(saved)),
+        });
+        await client.query('COMMIT');
+        return saved;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB claimCustomDomain] Error setting custom domain ${domain} for tenant ${tenantId}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_custom_domains" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Stores the outcome of an ownership check. A successful check verifies the domain; a failed one
+ * leaves an already verified domain in place, so a passing DNS hiccup does not take the company offline.
+ * @throws If another company has already verified the same domain.
+ */
+export async function recordCustomDomainCheck(tenantId: string, result: { verified: boolean; error?: string }): Promise<CustomDomain | undefined> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const before = await client.query('SELECT * FROM tenant_custom_domains WHERE tenant_id = $1 FOR UPDATE', [tenantId]);
+        if (before.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return undefined;
+        }
+        const res = await client.query(
+            `UPDATE tenant_custom_domains SET
+                status = CASE WHEN $2 THEN 'VERIFIED' ELSE status END,
+                verified_at = CASE WHEN $2 AND status <> 'VERIFIED' THEN NOW() ELSE verified_at END,
+                last_checked_at = NOW(),
+                last_check_error = $3
+             WHERE tenant_id = $1
+             RETURNING *`,
+            [tenantId, result.verified, result.verified ? null : (result.error ?? null)]
+        );
+        const previous = mapRowToCustomDomain(before.rows[0]);
+        const saved = mapRowToCustomDomain(res.rows[0]);
+        if (previous.status !== saved.status) {
+            await recordAuditEvent(client, {
+                tenantId, entityType: 'custom_domain', entityId: saved.id, entityLabel: saved.domain,
+                action: 'update',
+                changes: diffForAudit(auditedFields(previous), auditedFields(saved)),
+            });
+        }
+        await client.query('COMMIT');
+        return saved;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB recordCustomDomainCheck] Error updating custom domain of tenant ${tenantId}:`, err);
+        if (err.code === '23505') {
+            throw new Error('This domain is already connected to another company.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** Removes the company's custom domain; links and sign-in go back to its subdomain. */
+export async function removeCustomDomain(tenantId: string): Promise<CustomDomain | undefined> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const res = await client.query('DELETE FROM tenant_custom_domains WHERE tenant_id = $1 RETURNING *', [tenantId]);
+        if (res.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return undefined;
+        }
+        const removed = mapRowToCustomDomain(res.rows[0]);
+        await recordAuditEvent(client, {
+            tenantId, entityType: 'custom_domain', entityId: removed.id, entityLabel: removed.domain,
+            action: 'delete',
+            changes: diffForAudit(auditedFields(removed), null),
+        });
+        await client.query('COMMIT');
+        return removed;
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[DB removeCustomDomain] Error removing custom domain of tenant ${tenantId}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
@@ -0,0 +1,16 @@
+// src/modules/tenants/lib/document-storage.ts
+// Uploaded employee documents are files on disk; employee_documents.file_path is relative to DOCUMENTS_DIR.
+// Data exports read them and the hard purge of a closed company deletes them.
+import path from 'path';
+
+/** Where uploaded documents are stored. */
+export function getDocumentsDir(): string {
+    return path.resolve(process.env.DOCUMENTS_DIR || 'uploads');
+}
+
+/** Absolute path of a stored document, or null when the path points outside the documents directory. */
+export function resolveDocumentPath(filePath: string): string | null {
+    const documentsDir = getDocumentsDir();
+    const resolved = path.resolve(documentsDir, filePath);
+    return resolved.startsWith(documentsDir + path.sep) ? resolved : null;
+}
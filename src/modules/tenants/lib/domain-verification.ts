@@ -0,0 +1,25 @@
+// src/modules/tenants/lib/domain-verification.ts
+import { getDnsResolver } from '@/services/dns-resolver';
+import type { CustomDomain } from '@/modules/tenants/types';
+
+/**
+ * Looks for the domain's verification TXT record through the configured DNS resolver.
+ * Never throws: lookup failures are reported as an unverified result with the reason.
+ */
+export async function checkCustomDomainOwnership(customDomain: CustomDomain): Promise<{ verified: boolean; error?: string }> {
+    try {
+        const records = await getDnsResolver().resolveTxt(customDomain.verificationRecordName);
+        if (records.some(record => record.trim() === customDomain.verificationRecordValue)) {
+            return { verified: true };
+        }
+        return {
+            verified: false,
+            error: records.length === 0
+                ? `No TXT record found at ${customDomain.verificationRecordName}. DNS changes can take a while to propagate.`
+                : `The TXT record at ${customDomain.verificationRecordName} does not contain the expected value.`,
+        };
+    } catch (error: any) {
+        console.error(`[checkCustomDomainOwnership] Lookup for ${customDomain.domain} failed: ${error.message}`);
+        return { verified: false, error: error.message || 'DNS lookup failed.' };
+    }
+}
@@ -0,0 +1,321 @@
+// src/modules/tenants/lib/offboarding.ts
+// Closing a company: it is marked DELETED (its users and API keys are blocked at once), its data is kept for a
+// retention window during which it can be restored, and then `purgeTenant` permanently deletes it and
+// writes a deletion certificate. Operator tooling only; call in system scope.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import pool from '@/lib/db';
+import { getTenantById, updateTenantStatus } from '@/modules/auth/lib/db';
+import type { Tenant } from '@/modules/auth/types';
+import { TENANT_DELETION_GRACE_DAYS } from '@/modules/auth/types';
+import type { TenantDeletionCertificate, TenantDeletionVerification } from '@/modules/tenants/types';
+import { resolveDocumentPath } from '@/modules/tenants/lib/document-storage';
+
+// Link tables without a tenant_id column; their rows go with the company's users and roles
+const LINKED_TABLE_QUERIES: Record<string, string> = {
+    user_roles: 'SELECT COUNT(*) FROM user_roles ur JOIN users u ON u.user_id = ur.user_id WHERE u.tenant_id = $1',
+    role_permissions: 'SELECT COUNT(*) FROM role_permissions rp JOIN roles r ON r.id = rp.role_id WHERE r.tenant_id = $1',
+};
+
+/** Days a closed company's data is kept before the purge. TENANT_DELETION_GRACE_DAYS in the environment overrides the default. */
+export function getTenantDeletionGraceDays(): number {
+    const configured = parseInt(process.env.TENANT_DELETION_GRACE_DAYS ?? '', 10);
+    return Number.isNaN(configured) || configured < 0 ? TENANT_DELETION_GRACE_DAYS : configured;
+}
+
+/**
+ * Closes a company: marks it DELETED and schedules the purge after the retention window.
+ * @throws Error when the company does not exist or is already closed.
+ */
+export async function scheduleTenantDeletion(tenantId: string, options: { reason?: string | null; graceDays?: number } = {}): Promise<Tenant> {
+    const tenant = await getTenantById(tenantId);
+    if (!tenant) throw new Error('Company not found.');
+    if (tenant.status === 'DELETED') throw new Error(`${tenant.name} is already scheduled for deletion.`);
+    const graceDays = options.graceDays ?? getTenantDeletionGraceDays();
+    const deletionScheduledAt = new Date(Date.now() + graceDays * 24 * 60 * 60 * 1000);
+    const updated = await updateTenantStatus(tenantId, 'DELETED', { reason: options.reason ?? null, deletionScheduledAt });
+    console.log(`[scheduleTenantDeletion] Tenant ${tenantId} closed; data is purged after ${deletionScheduledAt.toISOString()}.`);
+    return updated!;
+}
+
+/**
+ * Reopens a closed company within its retention window. Its data is untouched, so it continues where it stopped.
+ * @throws Error when the company is not closed (or was already purged).
+ */
+export async function restoreTenant(tenantId: string, reason?: string | null): Promise<Tenant> {
+    const tenant = await getTenantById(tenantId);
+    if (!tenant) throw new Error('Company not found. If it was purged, it cannot be restored.');
+    if (tenant.status !== 'DELETED') throw new Error(`${tenant.name} is not scheduled for deletion.`);
+    const updated = await updateTenantStatus(tenantId, 'ACTIVE', { reason: reason ?? null });
+    console.log(`[restoreTenant] Tenant ${tenantId} restored.`);
+    return updated!;
+}
+
+function mapRowToCertificate(row: any): TenantDeletionCertificate {
+    return {
+        id: row.certificate_id,
+        tenantId: row.tenant_id,
+        tenantName: row.tenant_name,
+        subdomain: row.subdomain,
+        deletionReason: row.deletion_reason ?? null,
+        closedAt: row.closed_at ? new Date(row.closed_at).toISOString() : null,
+        scheduledFor: new Date(row.scheduled_for).toISOString(),
+        purgedAt: new Date(row.purged_at).toISOString(),
+        purgedBy: row.purged_by,
+        recordsDeleted: row.records_deleted,
+        filesDeleted: row.files_deleted,
+        verification: row.verification,
+        verified: row.verified,
+        sha256: row.sha256,
+    };
+}
+
+// JSON with object keys sorted at every level; JSONB does not keep key order, so the digest must not depend on it
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 of a certificate's content: every field except `id` and `sha256`, as JSON with keys sorted.
+ * Recomputing it shows whether a stored certificate was edited.
+ */
+export function certificateDigest(certificate: Omit<TenantDeletionCertificate, 'id' | 'sha256'>): string {
+    const content = {
+        tenantId: certificate.tenantId,
+        tenantName: certificate.tenantName,
+        subdomain: certificate.subdomain,
+        deletionReason: certificate.deletionReason,
+        closedAt: certificate.closedAt,
+        scheduledFor: certificate.scheduledFor,
+        purgedAt: certificate.purgedAt,
+        purgedBy: certificate.purgedBy,
+        recordsDeleted: certificate.recordsDeleted,
+        filesDeleted: certificate.filesDeleted,
+        verification: certificate.verification,
+        verified: certificate.verified,
+    };
+    return createHash('sha256').update(canonicalJson(content)).digest('hex');
+}
+
+function quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** Rows of the company in every table with a tenant_id column (read from the catalog, so new tables are included). */
+async function countTenantRecords(client: any, tenantId: string): Promise<Record<string, number>> {
+    const tablesRes = await client.query(
+        `SELECT c.table_name FROM information_schema.columns c
+         JOIN information_schema.tables t ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+         WHERE c.table_schema = current_schema() AND c.column_name = 'tenant_id' AND t.table_type = 'BASE TABLE'
+           AND c.table_name <> 'tenant_deletion_certificates'
+         ORDER BY c.table_name`
+    );
+    const counts: Record<string, number> = {};
+    for (const { table_name } of tablesRes.rows) {
+        const res = await client.query(`SELECT COUNT(*) FROM ${quoteIdentifier(table_name)} WHERE tenant_id = $1`, [tenantId]);
+        counts[table_name] = Number(res.rows[0].count);
+    }
+    for (const [table, query] of Object.entries(LINKED_TABLE_QUERIES)) {
+        counts[table] = Number((await client.query(query, [tenantId])).rows[0].count);
+    }
+    return counts;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Permanently deletes a closed company whose retention window has passed: every record (the tenant row and, by
+ * ON DELETE CASCADE, all its data including files kept in the database), checked and recorded in a deletion
+ * certificate in the same transaction, so there is never a purge without a certificate. Its stored documents are
+ * deleted only after that commits (a rolled-back purge must not lose any of them); until then the certificate
+ * lists them as pending and is not verified. See deletePurgedTenantFiles.
+ * @returns The certificate (check `verified`), or undefined when the company is not due for deletion.
+ */
+export async function purgeTenant(tenantId: string, purgedBy: string): Promise<TenantDeletionCertificate | undefined> {
+    let certificate: TenantDeletionCertificate;
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const tenantRes = await client.query(
+            `SELECT * FROM tenants WHERE tenant_id = $1 AND status = 'DELETED' AND deletion_scheduled_at <= NOW() FOR UPDATE`,
+            [tenantId]
+        );
+        if (tenantRes.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return undefined;
+        }
+        const tenant = tenantRes.rows[0];
+        const recordsDeleted = await countTenantRecords(client, tenantId);
+
+        // Listed before the rows go, since nothing points at the files afterwards
+        const documentsRes = await client.query(
+            'SELECT DISTINCT file_path FROM employee_documents WHERE tenant_id = $1 AND file_path IS NOT NULL',
+            [tenantId]
+        );
+        const pendingFiles = documentsRes.rows
+            .map((row: any) => resolveDocumentPath(row.file_path))
+            .filter((filePath: string | null): filePath is string => !!filePath); // Never delete outside the documents directory
+
+        await client.query('DELETE FROM tenants WHERE tenant_id = $1', [tenantId]);
+
+        const tenantRowRemoved = (await client.query('SELECT 1 FROM tenants WHERE tenant_id = $1', [tenantId])).rows.length === 0;
+        const remainingRecords = Object.fromEntries(
+            Object.entries(await countTenantRecords(client, tenantId)).filter(([, count]) => count > 0)
+        );
+        const verification: TenantDeletionVerification = { tenantRowRemoved, remainingRecords, remainingFiles: [], fileErrors: [], pendingFiles };
+        const content = {
+            tenantId,
+            tenantName: tenant.name,
+            subdomain: tenant.subdomain,
+            deletionReason: tenant.status_reason ?? null,
+            closedAt: tenant.status_changed_at ? new Date(tenant.status_changed_at).toISOString() : null,
+            scheduledFor: new Date(tenant.deletion_scheduled_at).toISOString(),
+            purgedAt: new Date().toISOString(),
+            purgedBy,
+            recordsDeleted,
+            filesDeleted: 0,
+            verification,
+            verified: isVerified(verification),
+        };
+        const certificateRes = await client.query(
+            `INSERT INTO tenant_deletion_certificates (tenant_id, tenant_name, subdomain, deletion_reason, closed_at, scheduled_for,
+                purged_at, purged_by, records_deleted, files_deleted, verification, verified, sha256)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING *`,
+            [
+                tenantId, content.tenantName, content.subdomain, content.deletionReason, content.closedAt, content.scheduledFor,
+                content.purgedAt, purgedBy, JSON.stringify(recordsDeleted), content.filesDeleted, JSON.stringify(verification), content.verified,
+                certificateDigest(content),
+            ]
+        );
+        await client.query('COMMIT');
+        certificate = mapRowToCertificate(certificateRes.rows[0]);
+        console.log(`[purgeTenant] Records of tenant ${tenantId} (${content.subdomain}) purged; certificate ${certificate.id}, ${pendingFiles.length} document(s) to delete.`);
+    } catch (err: any) {
+        await client.query('ROLLBACK');
+        console.error(`[purgeTenant] Error purging tenant ${tenantId}:`, err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_deletion_certificates" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+    return deletePurgedTenantFiles(certificate);
+}
+
+function isVerified(verification: TenantDeletionVerification): boolean {
+    return verification.tenantRowRemoved
+        && Object.keys(verification.remainingRecords).length === 0
+        && verification.remainingFiles.length === 0
+        && verification.fileErrors.length === 0
+        && (verification.pendingFiles ?? []).length === 0;
+}
+
+/**
+ * Deletes the stored documents a purge left pending, checks that none is left and updates the certificate
+ * (files deleted, verification and digest). Safe to repeat, e.g. for a purge interrupted after its commit.
+ * @returns The updated certificate, or the given one when nothing was pending.
+ */
+export async function deletePurgedTenantFiles(certificate: TenantDeletionCertificate): Promise<TenantDeletionCertificate> {
+    const pendingFiles = certificate.verification.pendingFiles ?? [];
+    if (pendingFiles.length === 0) return certificate;
+
+    const fileErrors = [...certificate.verification.fileErrors];
+    let filesDeleted = certificate.filesDeleted;
+    for (const filePath of pendingFiles) {
+        try {
+            await fs.unlink(filePath);
+            filesDeleted++;
+        } catch (err: any) {
+            if (err.code !== 'ENOENT') fileErrors.push(`${filePath}: ${err.message}`);
+        }
+    }
+    const remainingFiles = [...certificate.verification.remainingFiles];
+    for (const filePath of pendingFiles) {
+        if (await fileExists(filePath)) remainingFiles.push(filePath);
+    }
+    const verification: TenantDeletionVerification = { ...certificate.verification, remainingFiles, fileErrors, pendingFiles: [] };
+    const { id, sha256: _, ...content } = { ...certificate, filesDeleted, verification, verified: isVerified(verification) };
+
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `UPDATE tenant_deletion_certificates SET files_deleted = $2, verification = $3, verified = $4, sha256 = $5
+             WHERE certificate_id = $1 RETURNING *`,
+            [id, filesDeleted, JSON.stringify(verification), content.verified, certificateDigest(content)]
+        );
+        const updated = mapRowToCertificate(res.rows[0]);
+        console.log(`[deletePurgedTenantFiles] ${filesDeleted} document(s) of tenant ${updated.tenantId} deleted; certificate ${id}${updated.verified ? '' : ' reports leftovers'}.`);
+        return updated;
+    } catch (err: any) {
+        console.error(`[deletePurgedTenantFiles] Error updating certificate ${id}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** Certificates of purges whose documents were not deleted yet (the process stopped after the records were committed). */
+export async function getCertificatesWithPendingFiles(): Promise<TenantDeletionCertificate[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT * FROM tenant_deletion_certificates
+             WHERE jsonb_array_length(COALESCE(verification->'pendingFiles', '[]'::jsonb)) > 0
+             ORDER BY purged_at`
+        );
+        return res.rows.map(mapRowToCertificate);
+    } catch (err: any) {
+        console.error('[DB getCertificatesWithPendingFiles] Error fetching deletion certificates:', err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** The most recent deletion certificates, newest first. */
+export async function getDeletionCertificates(limit = 20): Promise<TenantDeletionCertificate[]> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query('SELECT * FROM tenant_deletion_certificates ORDER BY purged_at DESC LIMIT $1', [limit]);
+        return res.rows.map(mapRowToCertificate);
+    } catch (err: any) {
+        console.error('[DB getDeletionCertificates] Error fetching deletion certificates:', err);
+        if (err.code === '42P01') {
+            throw new Error('Database schema not initialized. Relation "tenant_deletion_certificates" does not exist.');
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/** A certificate by its ID, or by the subdomain the purged company had. */
+export async function getDeletionCertificate(idOrSubdomain: string): Promise<TenantDeletionCertificate | undefined> {
+    const client = await pool.connect();
+    try {
+        const res = await client.query(
+            `SELECT * FROM tenant_deletion_certificates WHERE certificate_id::text = $1 OR subdomain = LOWER($1)
+             ORDER BY purged_at DESC LIMIT 1`,
+            [idOrSubdomain]
+        );
+        return res.rows.length > 0 ? mapRowToCertificate(res.rows[0]) : undefined;
+    } catch (err: any) {
+        console.error(`[DB getDeletionCertificate] Error fetching deletion certificate ${idOrSubdomain}:`, err);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
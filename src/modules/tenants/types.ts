@@ -0,0 +1,206 @@
+import { z } from 'zod';
+
+// --- Custom Domains ---
+// A company can serve its workspace from its own domain (e.g. hr.example.com) next to its subdomain.
+// The domain only starts routing to the company once a DNS TXT record proves the company controls it.
+export const CUSTOM_DOMAIN_TXT_RECORD_PREFIX = '_syntaxhive-verification';
+export const CUSTOM_DOMAIN_TXT_VALUE_PREFIX = 'syntaxhive-verification=';
+
+export const customDomainStatusSchema = z.enum(['PENDING', 'VERIFIED']);
+export type CustomDomainStatus = z.infer<typeof customDomainStatusSchema>;
+
+export interface CustomDomain {
+  id: string;
+  tenantId: string;
+  domain: string;
+  status: CustomDomainStatus;
+  verificationRecordName: string; // TXT record to create, e.g. _syntaxhive-verification.hr.example.com
+  verificationRecordValue: string;
+  verifiedAt: string | null;
+  lastCheckedAt: string | null;
+  lastCheckError: string | null; // Why the latest ownership check failed
+  created_at: string;
+  updated_at: string;
+}
+
+const hostnameLabel = '[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?';
+
+export const customDomainFormSchema = z.object({
+  domain: z.string()
+    .trim()
+    .toLowerCase()
+    .max(253, "Domain must be 253 characters or less")
+    .regex(new RegExp(`^(?:${hostnameLabel}\\.)+[a-z]{2,63}$`), "Enter a domain name such as hr.example.com, without https:// or a path"),
+});
+
+export type CustomDomainFormData = z.infer<typeof customDomainFormSchema>;
+
+// --- Company Settings (stored per tenant in tenant_configurations, one row per key) ---
+// Read them through getTenantConfig (src/modules/tenants/lib/config.ts), which fills in defaults and caches.
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const; // Index = Date.getDay()
+export const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'] as const;
+export const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy', 'd MMM yyyy', 'MMM d, yyyy'] as const; // date-fns patterns
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const tenantConfigSchema = z.object({
+  weekOffDays: z.array(z.coerce.number().int().min(0).max(6))
+    .max(6, "At least one day of the week must be a working day")
+    .transform(days => Array.from(new Set(days)).sort((a, b) => a - b))
+    .default([0, 6]),
+  fiscalYearStartMonth: z.coerce.number().int().min(1).max(12).default(1), // 1 = January
+  timezone: z.string().trim().refine(isValidTimeZone, "Unknown time zone").default('UTC'),
+  currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, "Use a three-letter ISO 4217 code such as USD").default('USD'),
+  dateFormat: z.enum(DATE_FORMATS).default('yyyy-MM-dd'),
+  employeeIdPrefix: z.string().trim().toUpperCase()
+    .regex(/^[A-Z0-9-]{1,10}$/, "Use 1-10 letters, digits or hyphens")
+    .default('EMP-'),
+});
+
+export type TenantConfig = z.infer<typeof tenantConfigSchema>;
+export type TenantConfigKey = keyof TenantConfig;
+
+export const TENANT_CONFIG_DEFAULTS: TenantConfig = tenantConfigSchema.parse({});
+
+// Registry of the settings: the tenant_configurations key each one is stored under and how it is presented.
+export const TENANT_CONFIG_SETTINGS = {
+  weekOffDays: { configKey: 'company.week_off_days', name: 'Week-off days', description: 'Days nobody works. They are not counted in leave requests.' },
+  fiscalYearStartMonth: { configKey: 'company.fiscal_year_start_month', name: 'Fiscal year starts in', description: 'First month of the financial year.' },
+  timezone: { configKey: 'company.timezone', name: 'Time zone', description: 'Time zone of the head office.' },
+  currency: { configKey: 'company.currency', name: 'Currency', description: 'Default currency for amounts such as salaries.' },
+  dateFormat: { configKey: 'company.date_format', name: 'Date format', description: 'How dates are written in the app.' },
+  employeeIdPrefix: { configKey: 'company.employee_id_prefix', name: 'Employee ID prefix', description: 'New employees get IDs like EMP-001. Existing IDs are not renamed.' },
+} as const satisfies Record<TenantConfigKey, { configKey: string; name: string; description: string }>;
+
+export const tenantConfigUpdateSchema = tenantConfigSchema.partial();
+export type TenantConfigUpdate = z.infer<typeof tenantConfigUpdateSchema>;
+
+// --- Branding ---
+// Colors are stored in tenant_configurations ('branding.colors'); logo and favicon files in tenant_branding_assets.
+export const brandingAssetKindSchema = z.enum(['logo', 'favicon']);
+export type BrandingAssetKind = z.infer<typeof brandingAssetKindSchema>;
+
+// SVG is not accepted: the files are served from the app's own origin, where a script inside an SVG would run.
+export const BRANDING_ASSET_RULES: Record<BrandingAssetKind, { maxBytes: number; contentTypes: string[] }> = {
+  logo: { maxBytes: 512 * 1024, contentTypes: ['image/png', 'image/jpeg', 'image/webp', 'image/gif'] },
+  favicon: { maxBytes: 100 * 1024, contentTypes: ['image/png', 'image/x-icon', 'image/gif'] },
+};
+
+const brandColorSchema = z.string().trim().toLowerCase().regex(/^#[0-9a-f]{6}$/, "Use a hex color such as #2563eb");
+
+export const brandingColorsSchema = z.object({
+  primaryColor: brandColorSchema.nullable().default(null), // null keeps the built-in theme color
+  accentColor: brandColorSchema.nullable().default(null),
+});
+
+export type BrandingColors = z.infer<typeof brandingColorsSchema>;
+
+export interface BrandingAsset {
+  kind: BrandingAssetKind;
+  contentType: string;
+  byteSize: number;
+  version: string; // Start of the file's SHA-256; changes with every new upload, so URLs can be cached for long
+  updatedAt: string;
+}
+
+export interface TenantBranding extends BrandingColors {
+  logo: BrandingAsset | null;
+  favicon: BrandingAsset | null;
+}
+
+const brandingAssetUploadSchema = z.string().regex(/^data:[\w.+-]+\/[\w.+-]+;base64,[A-Za-z0-9+/=]+$/, "Upload an image file").nullable().optional();
+
+export const brandingUpdateSchema = brandingColorsSchema.extend({
+  logo: brandingAssetUploadSchema, // Data URL of a new file, null to remove, left out to keep the current one
+  favicon: brandingAssetUploadSchema,
+});
+
+export type BrandingUpdate = z.input<typeof brandingUpdateSchema>;
+
+/** Public URL path of a branding file. It works on the company's subdomain and custom domain alike. */
+export function brandingAssetPath(subdomain: string, asset: BrandingAsset): string {
+  return `/api/branding/${encodeURIComponent(subdomain)}/${asset.kind}?v=${asset.version}`;
+}
+
+// --- Data Export ---
+// A zip of all the company's data (JSON and CSV per table, plus uploaded documents) for portability and GDPR requests.
+// Exports are built in the background; the file can be downloaded until it expires and is then deleted.
+export const dataExportStatusSchema = z.enum(['PENDING', 'RUNNING', 'READY', 'FAILED', 'EXPIRED']);
+export type DataExportStatus = z.infer<typeof dataExportStatusSchema>;
+
+export const DATA_EXPORT_RETENTION_DAYS = 7;
+
+export interface DataExportTableSummary {
+  table: string;
+  area: string; // Folder in the zip, e.g. 'employees' or 'leave'
+  rows: number;
+}
+
+export interface DataExportSummary {
+  tables: DataExportTableSummary[];
+  documents: number; // Files included under documents/
+  missingDocuments: number; // Referenced by a record, but not found in storage
+}
+
+export interface TenantDataExport {
+  id: string;
+  tenantId: string;
+  status: DataExportStatus;
+  requestedBy: string | null; // User ID; null once that user is deleted
+  requestedByName: string;
+  fileName: string | null;
+  byteSize: number | null;
+  sha256: string | null; // Of the whole zip file
+  summary: DataExportSummary | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  expiresAt: string | null; // Set when the file is ready
+}
+
+/** URL path that downloads a ready export. Only admins of the company, while signed in, can use it. */
+export function dataExportDownloadPath(exportId: string): string {
+  return `/api/data-exports/${encodeURIComponent(exportId)}`;
+}
+
+// --- Offboarding ---
+// A closed company is marked DELETED: its users are blocked and its data is kept for a retention window, during
+// which it can be restored. Then the hard purge deletes its records and stored files, checks that nothing is left
+// and writes a deletion certificate, which is kept after the company is gone.
+export interface TenantDeletionVerification {
+  tenantRowRemoved: boolean;
+  remainingRecords: Record<string, number>; // Tables still holding the company's rows; empty when verified
+  remainingFiles: string[]; // Stored documents that still exist
+  fileErrors: string[]; // Documents that could not be deleted, with the reason
+  pendingFiles?: string[]; // Stored documents not deleted yet; they are removed after the records, once those are committed
+}
+
+export interface TenantDeletionCertificate {
+  id: string;
+  tenantId: string;
+  tenantName: string;
+  subdomain: string;
+  deletionReason: string | null;
+  closedAt: string | null;
+  scheduledFor: string;
+  purgedAt: string;
+  purgedBy: string;
+  recordsDeleted: Record<string, number>; // Rows per table at the time of the purge
+  filesDeleted: number;
+  verification: TenantDeletionVerification;
+  verified: boolean;
+  sha256: string; // See certificateDigest in tenants/lib/offboarding.ts
+}
+
+/** URL path that downloads a deletion certificate as JSON. Platform admins only. */
+export function deletionCertificateDownloadPath(certificateId: string): string {
+  return `/api/platform/deletion-certificates/${encodeURIComponent(certificateId)}`;
+}
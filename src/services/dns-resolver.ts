@@ -0,0 +1,77 @@
+import { promises as dns } from 'dns';
+import fs from 'fs/promises';
+
+/**
+ * Looks up DNS TXT records. Implementations are registered in `DNS_RESOLVERS` and selected with
+ * the DNS_RESOLVER environment variable.
+ */
+export interface DnsResolver {
+  readonly name: string;
+  /**
+   * The TXT records of `hostname`, each joined from its character strings.
+   * Resolves to an empty list when the name or record does not exist; throws only for lookup failures.
+   */
+  resolveTxt(hostname: string): Promise<string[]>;
+}
+
+const NOT_FOUND_CODES = ['ENOTFOUND', 'ENODATA'];
+
+/** Public DNS through the operating system's resolver. */
+export const systemDnsResolver: DnsResolver = {
+  name: 'system',
+
+  async resolveTxt(hostname: string): Promise<string[]> {
+    try {
+      const records = await dns.resolveTxt(hostname);
+      return records.map(chunks => chunks.join(''));
+    } catch (error: any) {
+      if (NOT_FOUND_CODES.includes(error.code)) return [];
+      throw new Error(`DNS lookup for ${hostname} failed (${error.code || error.message}).`);
+    }
+  },
+};
+
+/**
+ * Local resolver for development and testing. Records are read on every lookup from the JSON file at
+ * DNS_STUB_FILE (default `dns-stub.json`), mapping names to TXT values, so records can be added without a restart:
+ * `{ "_syntaxhive-verification.hr.example.com": ["syntaxhive-verification=..."] }`.
+ */
+export const stubDnsResolver: DnsResolver = {
+  name: 'stub',
+
+  async resolveTxt(hostname: string): Promise<string[]> {
+    const file = process.env.DNS_STUB_FILE || 'dns-stub.json';
+    let records: Record<string, string | string[]>;
+    try {
+      records = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw new Error(`Could not read DNS stub records from ${file}: ${error.message}`);
+    }
+    const values = records[hostname.toLowerCase()] ?? [];
+    console.log(`[StubDnsResolver] TXT ${hostname} -> ${JSON.stringify(values)}`);
+    return Array.isArray(values) ? values : [values];
+  },
+};
+
+export const DNS_RESOLVERS: Record<string, DnsResolver> = {
+  [systemDnsResolver.name]: systemDnsResolver,
+  [stubDnsResolver.name]: stubDnsResolver,
+};
+
+/**
+ * The configured resolver (DNS_RESOLVER), 'system' by default.
+ * @throws If DNS_RESOLVER names a resolver that is not registered, or selects the stub in production,
+ *   where it would let anyone claim any domain.
+ */
+export function getDnsResolver(name: string | undefined = process.env.DNS_RESOLVER): DnsResolver {
+  const resolverName = name || systemDnsResolver.name;
+  if (resolverName === stubDnsResolver.name && process.env.NODE_ENV === 'production') {
+    throw new Error('The stub DNS resolver cannot be used in production.');
+  }
+  const resolver = DNS_RESOLVERS[resolverName];
+  if (!resolver) {
+    throw new Error(`Unknown DNS resolver "${resolverName}". Registered resolvers: ${Object.keys(DNS_RESOLVERS).join(', ')}.`);
+  }
+  return resolver;
+}
@@ -1,29 +1,125 @@
+import crypto from 'crypto';
+
 /**
  * Represents a payment transaction.
  */
 export interface PaymentTransaction {
   /**
-   * The transaction ID.
+   * The gateway's transaction ID, used to match later webhooks.
+   */
+  transactionId: string;
+  /**
+   * 'pending' when the gateway settles the payment later and reports the outcome by webhook.
    */
+  status: 'succeeded' | 'pending' | 'failed';
+  /**
+   * Why the payment failed, when status is 'failed'.
+   */
+  failureReason?: string;
+}
+
+/**
+ * A request to collect an invoice amount from a company.
+ */
+export interface PaymentRequest {
+  invoiceId: string;
+  invoiceNumber: string;
+  amount: number;
+  currency: string;
+  /**
+   * The company paying; gateways map it to their stored customer and payment method.
+   */
+  customerReference: string;
+  description: string;
+}
+
+/**
+ * The outcome of a payment, reported by the gateway's webhook.
+ */
+export interface PaymentWebhookEvent {
   transactionId: string;
+  status: 'succeeded' | 'failed';
+  failureReason?: string;
+}
+
+/**
+ * A payment provider. Implementations are registered in `PAYMENT_GATEWAYS` and selected with
+ * the PAYMENT_GATEWAY environment variable.
+ */
+export interface PaymentGateway {
+  readonly name: string;
+  /**
+   * Charges the company. Must not throw for declined payments; return status 'failed' instead.
+   */
+  collectPayment(request: PaymentRequest): Promise<PaymentTransaction>;
   /**
-   * The status of the transaction (e.g., success, failure).
+   * Verifies the webhook signature and parses the event.
+   * @throws If the signature is missing or invalid, or the payload is malformed.
    */
-  status: string;
+  parseWebhook(rawBody: string, headers: Headers): PaymentWebhookEvent;
+}
+
+export const FAKE_GATEWAY_SIGNATURE_HEADER = 'x-fake-gateway-signature';
+
+/** HMAC-SHA256 of the raw body with PAYMENT_WEBHOOK_SECRET, as sent by the fake gateway. */
+export function signFakeGatewayWebhook(rawBody: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
 }
 
 /**
- * Asynchronously processes a payment.
- *
- * @param amount The amount to be paid.
- * @param token The payment token.
- * @returns A promise that resolves to a PaymentTransaction object.
+ * Local provider for development and testing; no money moves. FAKE_PAYMENT_OUTCOME sets the result of
+ * every charge ('succeeded' by default, 'failed', or 'pending' to settle it later with a signed webhook).
  */
-export async function processPayment(amount: number, token: string): Promise<PaymentTransaction> {
-  // TODO: Implement this by calling an API.
+export const fakePaymentGateway: PaymentGateway = {
+  name: 'fake',
+
+  async collectPayment(request: PaymentRequest): Promise<PaymentTransaction> {
+    const outcome = process.env.FAKE_PAYMENT_OUTCOME || 'succeeded';
+    const transactionId = `fake_${crypto.randomBytes(12).toString('hex')}`;
+    console.log(`[FakePaymentGateway] ${request.invoiceNumber}: ${request.amount} ${request.currency} for ${request.customerReference} -> ${outcome} (${transactionId})`);
+    if (outcome === 'failed') {
+      return { transactionId, status: 'failed', failureReason: 'Card declined (fake gateway).' };
+    }
+    return { transactionId, status: outcome === 'pending' ? 'pending' : 'succeeded' };
+  },
+
+  parseWebhook(rawBody: string, headers: Headers): PaymentWebhookEvent {
+    const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new Error('PAYMENT_WEBHOOK_SECRET is not configured.');
+    }
+    const signature = Buffer.from(headers.get(FAKE_GATEWAY_SIGNATURE_HEADER) || '');
+    const expected = Buffer.from(signFakeGatewayWebhook(rawBody, secret));
+    if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+      throw new Error('Invalid webhook signature.');
+    }
+    const payload = JSON.parse(rawBody);
+    if (typeof payload.transactionId !== 'string' || !['succeeded', 'failed'].includes(payload.status)) {
+      throw new Error('Malformed webhook payload.');
+    }
+    return { transactionId: payload.transactionId, status: payload.status, failureReason: payload.failureReason };
+  },
+};
 
-  return {
-    transactionId: '1234567890',
-    status: 'success',
-  };
+export const PAYMENT_GATEWAYS: Record<string, PaymentGateway> = {
+  [fakePaymentGateway.name]: fakePaymentGateway,
+};
+
+/**
+ * The configured gateway (PAYMENT_GATEWAY). Outside production it defaults to the fake gateway;
+ * in production it must be set, so invoices are never marked paid without a real charge.
+ * @throws If no gateway is configured in production, or PAYMENT_GATEWAY names a gateway that is not registered.
+ */
+export function getPaymentGateway(name: string | undefined = process.env.PAYMENT_GATEWAY): PaymentGateway {
+  if (!name) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('PAYMENT_GATEWAY is not configured.');
+    }
+    name = fakePaymentGateway.name;
+  }
+  const gateway = PAYMENT_GATEWAYS[name];
+  if (!gateway) {
+    throw new Error(`Unknown payment gateway "${name}". Registered gateways: ${Object.keys(PAYMENT_GATEWAYS).join(', ')}.`);
+  }
+  return gateway;
 }
@@ -0,0 +1,56 @@
+// src/test/database.ts
+// Database for the tests that need Postgres. They run against the TEST_DB_* database, never the DB_* one from
+// .env, so import this module before anything that loads src/lib/db.ts. The database must be disposable and owned
+// by a role without SUPERUSER or BYPASSRLS (as in production; either would skip the row-level security policies).
+// Without TEST_DB_NAME those tests are skipped.
+import crypto from 'crypto';
+
+export const testDatabaseSkipReason: string | false = process.env.TEST_DB_NAME
+  ? false
+  : 'TEST_DB_NAME is not set; see "Running the tests" in README.md';
+
+// db.ts requires these at import time; without a test database they are placeholders that are never connected to
+process.env.DB_HOST = process.env.TEST_DB_HOST || 'localhost';
+process.env.DB_PORT = process.env.TEST_DB_PORT || '5432';
+process.env.DB_USER = process.env.TEST_DB_USER || 'test';
+process.env.DB_PASS = process.env.TEST_DB_PASS || 'test';
+process.env.DB_NAME = process.env.TEST_DB_NAME || 'test';
+
+/**
+ * Applies the migrations and checks that the role is subject to row-level security.
+ * @throws Error when the role is a superuser or has BYPASSRLS.
+ */
+export async function prepareTestDatabase(): Promise<void> {
+  const { default: pool } = await import('@/lib/db');
+  const { runMigrations } = await import('@/lib/migrate');
+  const roleRes = await pool.query('SELECT rolsuper, rolbypassrls FROM pg_roles WHERE rolname = current_user');
+  if (roleRes.rows[0].rolsuper || roleRes.rows[0].rolbypassrls) {
+    throw new Error(`TEST_DB_USER "${process.env.DB_USER}" is a superuser or has BYPASSRLS; row-level security would not apply. Use an ordinary role that owns the test database.`);
+  }
+  await runMigrations();
+}
+
+/** Creates a company with a unique name and subdomain and returns its tenant_id. */
+export async function createTestTenant(label: string): Promise<string> {
+  const { default: pool } = await import('@/lib/db');
+  const { withSystemScope } = await import('@/lib/tenant-context');
+  const suffix = crypto.randomBytes(4).toString('hex');
+  const res = await withSystemScope('test setup', () => pool.query(
+    'INSERT INTO tenants (name, subdomain) VALUES ($1, $2) RETURNING tenant_id',
+    [`Test ${label} ${suffix}`, `test-${label.toLowerCase()}-${suffix}`]
+  ));
+  return res.rows[0].tenant_id;
+}
+
+/** Deletes the test companies (with all their data) and closes the pool. */
+export async function cleanUpTestDatabase(tenantIds: string[]): Promise<void> {
+  const { default: pool } = await import('@/lib/db');
+  const { withSystemScope } = await import('@/lib/tenant-context');
+  try {
+    if (tenantIds.length > 0) {
+      await withSystemScope('test cleanup', () => pool.query('DELETE FROM tenants WHERE tenant_id = ANY($1)', [tenantIds]));
+    }
+  } finally {
+    await pool.end();
+  }
+}
@@ -0,0 +1,177 @@
+// src/test/mock-oidc-provider.ts
+// Minimal OpenID Connect provider for the SSO tests, served on a loopback port: discovery, JWKS, an authorization
+// endpoint that signs in whoever the test names, a token endpoint that checks the client secret and the PKCE
+// verifier, and UserInfo. ID tokens are RS256-signed and their claims can be overridden per login.
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface MockOidcLogin {
+  /** Claims about the user, returned by UserInfo and copied into the ID token. Must include `sub`. */
+  user: { sub: string; email?: string; name?: string; given_name?: string; family_name?: string };
+  /** Replaces ID token claims (e.g. a foreign `iss`); `undefined` removes a claim. */
+  idTokenClaims?: Record<string, unknown>;
+  /** Replaces UserInfo claims. */
+  userInfoClaims?: Record<string, unknown>;
+}
+
+export interface MockOidcProvider {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  /**
+   * Opens an authorization URL built by the relying party, signing in `login.user`.
+   * @returns The `code` and `state` of the redirect back to the relying party.
+   */
+  authorize(authorizationUrl: string, login: MockOidcLogin): Promise<{ code: string; state: string }>;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | null;
+  login: MockOidcLogin;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function withOverrides(claims: Record<string, unknown>, overrides: Record<string, unknown> | undefined): Record<string, unknown> {
+  const result = { ...claims, ...overrides };
+  for (const [claim, value] of Object.entries(result)) {
+    if (value === undefined) delete result[claim];
+  }
+  return result;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export async function startMockOidcProvider(): Promise<MockOidcProvider> {
+  const clientId = 'syntaxhive-test';
+  const clientSecret = crypto.randomBytes(16).toString('hex');
+  const kid = crypto.randomBytes(8).toString('hex');
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const codes = new Map<string, PendingCode>();
+  const accessTokens = new Map<string, MockOidcLogin>();
+  let issuer = '';
+  let nextLogin: MockOidcLogin | null = null;
+
+  const signIdToken = (claims: Record<string, unknown>): string => {
+    const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+    return `${header}.${payload}.${signature}`;
+  };
+
+  const handleToken = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const form = new URLSearchParams(await readBody(req));
+    const basic = req.headers.authorization?.match(/^Basic (.+)$/)?.[1];
+    const [basicId, basicSecret] = basic ? Buffer.from(basic, 'base64').toString('utf8').split(':').map(decodeURIComponent) : [];
+    if (basicId !== clientId || basicSecret !== clientSecret) {
+      return sendJson(res, 401, { error: 'invalid_client' });
+    }
+    const code = form.get('code') || '';
+    const pending = codes.get(code);
+    codes.delete(code); // Single use
+    if (form.get('grant_type') !== 'authorization_code' || !pending || pending.clientId !== basicId || pending.redirectUri !== form.get('redirect_uri')) {
+      return sendJson(res, 400, { error: 'invalid_grant', error_description: 'Unknown code or redirect URI.' });
+    }
+    const challenge = crypto.createHash('sha256').update(form.get('code_verifier') || '').digest('base64url');
+    if (challenge !== pending.codeChallenge) {
+      return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed.' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const accessToken = crypto.randomBytes(24).toString('base64url');
+    accessTokens.set(accessToken, pending.login);
+    const idToken = signIdToken(withOverrides(
+      { iss: issuer, aud: clientId, iat: now, exp: now + 300, nonce: pending.nonce ?? undefined, ...pending.login.user },
+      pending.login.idTokenClaims
+    ));
+    sendJson(res, 200, { access_token: accessToken, token_type: 'Bearer', expires_in: 300, id_token: idToken });
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', issuer);
+    switch (url.pathname) {
+      case '/.well-known/openid-configuration':
+        return sendJson(res, 200, {
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+          userinfo_endpoint: `${issuer}/userinfo`,
+          response_types_supported: ['code'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          code_challenge_methods_supported: ['S256'],
+          token_endpoint_auth_methods_supported: ['client_secret_basic'],
+        });
+      case '/jwks':
+        return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' }] });
+      case '/authorize': {
+        const params = url.searchParams;
+        if (!nextLogin || params.get('response_type') !== 'code' || params.get('client_id') !== clientId
+          || params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge') || !params.get('redirect_uri')) {
+          return sendJson(res, 400, { error: 'invalid_request' });
+        }
+        const code = crypto.randomBytes(24).toString('base64url');
+        codes.set(code, {
+          clientId,
+          redirectUri: params.get('redirect_uri')!,
+          codeChallenge: params.get('code_challenge')!,
+          nonce: params.get('nonce'),
+          login: nextLogin,
+        });
+        nextLogin = null;
+        const redirect = new URL(params.get('redirect_uri')!);
+        redirect.searchParams.set('code', code);
+        redirect.searchParams.set('state', params.get('state') || '');
+        res.writeHead(302, { Location: redirect.toString() });
+        return res.end();
+      }
+      case '/token':
+        if (req.method !== 'POST') return sendJson(res, 405, { error: 'invalid_request' });
+        handleToken(req, res).catch(error => sendJson(res, 500, { error: 'server_error', error_description: error.message }));
+        return;
+      case '/userinfo': {
+        const login = accessTokens.get(req.headers.authorization?.replace(/^Bearer /, '') || '');
+        if (!login) return sendJson(res, 401, { error: 'invalid_token' });
+        return sendJson(res, 200, withOverrides(login.user, login.userInfoClaims));
+      }
+      default:
+        return sendJson(res, 404, { error: 'not_found' });
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+    async authorize(authorizationUrl, login) {
+      nextLogin = login;
+      const response = await fetch(authorizationUrl, { redirect: 'manual' });
+      const location = response.headers.get('location');
+      if (response.status !== 302 || !location) {
+        throw new Error(`Mock provider refused the authorization request: ${await response.text()}`);
+      }
+      const redirect = new URL(location);
+      return { code: redirect.searchParams.get('code') || '', state: redirect.searchParams.get('state') || '' };
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections(); // fetch keeps connections alive
+    }),
+  };
+}